@@ -21,8 +21,11 @@ import {
   Type,
   Image,
   Zap,
+  Check,
 } from 'lucide-react';
 import { aiDesignAssistant, CommandContext, CommandResponse, AICommand } from '../../services/aiDesignAssistantService';
+import type { DesignAction } from '../../services/aiDesignAssistantService';
+import type { DesignActionPreview } from '../../services/designActions';
 
 // =============================================
 // Types
@@ -32,6 +35,8 @@ interface AICommandBarProps {
   context: CommandContext;
   onCommandExecuted?: (response: CommandResponse) => void;
   onActionApply?: (action: any) => void;
+  /** Called once per command with all actions, so they can be applied as one undo step */
+  onApplyActions?: (actions: DesignAction[], preview?: DesignActionPreview) => void;
   className?: string;
 }
 
@@ -47,6 +52,12 @@ interface QuickCommand {
 // Quick Commands
 // =============================================
 
+const formatPreviewValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 20 ? `${text.slice(0, 20)}…` : text;
+};
+
 const quickCommands: QuickCommand[] = [
   { id: 'bold', label: 'Make Bold', command: 'make the text bold', icon: <Type className="w-3.5 h-3.5" />, category: 'style' },
   { id: 'center', label: 'Center', command: 'center align the element', icon: <Layout className="w-3.5 h-3.5" />, category: 'layout' },
@@ -64,6 +75,7 @@ export const AICommandBar: React.FC<AICommandBarProps> = ({
   context,
   onCommandExecuted,
   onActionApply,
+  onApplyActions,
   className = '',
 }) => {
   const [input, setInput] = useState('');
@@ -74,6 +86,7 @@ export const AICommandBar: React.FC<AICommandBarProps> = ({
   const [showSuggestions, setShowSuggestions] = useState(true);
   const [commandHistory, setCommandHistory] = useState<AICommand[]>([]);
   const [lastResponse, setLastResponse] = useState<CommandResponse | null>(null);
+  const [pendingResponse, setPendingResponse] = useState<CommandResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const inputRef = useRef<HTMLInputElement>(null);
@@ -161,15 +174,18 @@ export const AICommandBar: React.FC<AICommandBarProps> = ({
     setIsProcessing(true);
     setError(null);
     setLastResponse(null);
+    setPendingResponse(null);
 
     try {
       const response = await aiDesignAssistant.executeCommand(commandText, context);
       setLastResponse(response);
       setInput('');
 
-      // Apply actions if handler provided
-      if (onActionApply && response.actions.length > 0) {
-        response.actions.forEach(action => onActionApply(action));
+      // Previewed changes wait for confirmation; without a preview apply right away
+      if (response.preview && response.preview.changes.length > 0) {
+        setPendingResponse(response);
+      } else {
+        applyResponse(response);
       }
 
       onCommandExecuted?.(response);
@@ -181,6 +197,16 @@ export const AICommandBar: React.FC<AICommandBarProps> = ({
     }
   };
 
+  const applyResponse = (response: CommandResponse) => {
+    if (response.actions.length > 0) {
+      onApplyActions?.(response.actions, response.preview);
+      if (onActionApply) {
+        response.actions.forEach(action => onActionApply(action));
+      }
+    }
+    setPendingResponse(null);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     executeCommand(input);
@@ -344,6 +370,58 @@ export const AICommandBar: React.FC<AICommandBarProps> = ({
               </div>
             )}
 
+            {/* Change Preview */}
+            {pendingResponse?.preview && (
+              <div className="px-3 py-2 rounded-lg bg-zinc-900/50 border border-violet-500/20 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-zinc-400 uppercase tracking-wider">
+                    Preview · {pendingResponse.preview.changes.length} element{pendingResponse.preview.changes.length !== 1 ? 's' : ''}
+                  </span>
+                  <span className="text-xs text-zinc-500">
+                    {Math.round(pendingResponse.confidence * 100)}% confident
+                  </span>
+                </div>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {pendingResponse.preview.changes.map((change) => (
+                    <li key={`${change.kind}-${change.elementId}`} className="text-xs">
+                      <span className={
+                        change.kind === 'create' ? 'text-emerald-400' : change.kind === 'delete' ? 'text-red-400' : 'text-violet-300'
+                      }>
+                        {change.kind === 'create' ? 'Add' : change.kind === 'delete' ? 'Remove' : 'Change'} {change.label}
+                      </span>
+                      {change.kind === 'update' && (
+                        <div className="pl-3 text-zinc-500">
+                          {change.properties.slice(0, 4).map((prop) => (
+                            <div key={prop.property} className="truncate">
+                              {prop.property}: {formatPreviewValue(prop.before)} → {formatPreviewValue(prop.after)}
+                            </div>
+                          ))}
+                          {change.properties.length > 4 && <div>+{change.properties.length - 4} more</div>}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => applyResponse(pendingResponse)}
+                    className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded-lg
+                      bg-violet-500 text-white text-xs hover:bg-violet-600 transition-colors"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                    Apply
+                  </button>
+                  <button
+                    onClick={() => setPendingResponse(null)}
+                    className="flex-1 px-3 py-1.5 rounded-lg bg-zinc-800/50 text-zinc-400 text-xs
+                      hover:bg-zinc-800 transition-colors"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Quick Commands */}
             {showSuggestions && (
               <div className="space-y-2">
@@ -17,4 +17,5 @@ export type {
   CommandTemplate,
   DesignSuggestion,
   StylePreset,
+  DesignModelProvider,
 } from '../../services/aiDesignAssistantService';
@@ -211,9 +211,8 @@ export default function AIStockGen() {
 
           if (status.done) {
             isDone = true;
-            const uri = status.response?.generatedVideos?.[0]?.video?.uri;
-            if (uri) {
-              const blob = await fetchVideoData(uri);
+            if (status.video) {
+              const blob = await fetchVideoData(status);
               const url = URL.createObjectURL(blob);
               setHistory(prev => prev.map(item =>
                 item.id === targetId ? { ...item, url, status: 'ready', progress: 100 } : item
@@ -7,16 +7,22 @@ import LayerPanel from './canvas/LayerPanel';
 import AnimationPanel from './canvas/AnimationPanel';
 import { DesignElement, MaskType, AnimationType, AnimationDirection, AnimationEasing } from '../types';
 import { generateBackground, generateText } from '../services/geminiService';
-import { simulateProfessionalExport, syncToGoogleDrive, downloadFile } from '../services/exportService';
+import { syncToGoogleDrive, downloadFile } from '../services/exportService';
+import { renderDesignRaster, renderDesignSVG } from '../services/designRenderer';
+import { applyDesignActions } from '../services/designActions';
+import type { DesignAction } from '../services/aiDesignAssistantService';
+import { setPluginCanvas } from '../services/pluginService';
 import { useToast } from '../design-system';
 
 // Lazy load modals for better performance
 const UnifiedExport = lazy(() => import('./UnifiedExport'));
 const SmartRecommendations = lazy(() => import('./SmartRecommendations'));
+const AICommandBar = lazy(() => import('./AIAssistant/AICommandBar'));
 
 const CANVAS_WIDTH = 500;
 const CANVAS_HEIGHT = 700;
 const MAX_TIMELINE_SEC = 5;
+const EXPORT_SCALES = [1, 2, 3];
 
 const BG_STYLES = [
   { id: 'cinematic', label: 'Cinematic', icon: 'fa-clapperboard', prompt: 'cinematic lighting, ultra-detailed, professional photography' },
@@ -63,6 +69,7 @@ const Canvas: React.FC = () => {
   const [showRecommendations, setShowRecommendations] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [exportScale, setExportScale] = useState(2);
   const [activeTab, setActiveTab] = useState<'tools' | 'ai' | 'layers' | 'animation'>('tools');
   const [isCloudSyncing, setIsCloudSyncing] = useState(false);
   const [bgPrompt, setBgPrompt] = useState('');
@@ -95,6 +102,13 @@ const Canvas: React.FC = () => {
     saveToHistory(newState);
   }, [elements, selectedIds, saveToHistory]);
 
+  // All actions of one AI command form a single undo step
+  const applyAIActions = useCallback((actions: DesignAction[]) => {
+    const next = applyDesignActions(elements, actions);
+    saveToHistory(next);
+    setSelectedIds(ids => ids.filter(id => next.some(el => el.id === id)));
+  }, [elements, saveToHistory]);
+
   const deleteElement = useCallback((id: string) => {
     saveToHistory(elements.filter(el => el.id !== id));
     setSelectedIds([]);
@@ -308,6 +322,28 @@ const Canvas: React.FC = () => {
     };
   }, [undo, redo]);
 
+  // Plugins work on this canvas while it is open
+  useEffect(() => {
+    setPluginCanvas({
+      getElements: () => elements,
+      getSelectedElements: () => elements.filter(el => selectedIds.includes(el.id)),
+      selectElements: ids => setSelectedIds(ids.filter(id => elements.some(el => el.id === id))),
+      createElement: (type: string, props: Record<string, unknown>) => {
+        const next = applyDesignActions(elements, [{ type: 'create', properties: { ...props, type } }]);
+        saveToHistory(next);
+        return next[next.length - 1];
+      },
+      updateElement: (id: string, props: Record<string, unknown>) => {
+        applyAIActions([{ type: 'update', targetId: id, properties: props }]);
+      },
+      deleteElement,
+      // The canvas is drawn at a fixed position and scale
+      getViewport: () => ({ x: 0, y: 0, zoom: 1 }),
+      setViewport: () => {},
+    });
+    return () => setPluginCanvas(null);
+  }, [elements, selectedIds, saveToHistory, applyAIActions, deleteElement]);
+
   // Keyboard navigation for canvas elements
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -375,51 +411,44 @@ const Canvas: React.FC = () => {
     toast.success('Synced to Google Drive', { description: 'Your project is securely saved to the cloud.' });
   };
 
-  const generateSVGContent = () => {
-    const svgHeader = `<svg width="${CANVAS_WIDTH}" height="${CANVAS_HEIGHT}" viewBox="0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}" xmlns="http://www.w3.org/2000/svg">`;
-    const svgFooter = `</svg>`;
-    const bg = `<rect width="100%" height="100%" fill="white" />`;
-    
-    const svgElements = elements
-      .filter(el => el.isVisible)
-      .sort((a, b) => a.zIndex - b.zIndex)
-      .map(el => {
-        const cx = el.x + el.width / 2;
-        const cy = el.y + el.height / 2;
-        const transform = `rotate(${el.rotation || 0}, ${cx}, ${cy}) skewX(${el.skewX || 0}) skewY(${el.skewY || 0})`;
-        
-        if (el.type === 'text') {
-          return `<text x="${el.x}" y="${el.y + (el.fontSize || 16)}" font-size="${el.fontSize}" font-family="Inter, sans-serif" font-weight="900" transform="${transform}">${el.content}</text>`;
-        } else {
-          return `<image href="${el.content}" x="${el.x}" y="${el.y}" width="${el.width}" height="${el.height}" transform="${transform}" />`;
-        }
-      }).join('\n');
-      
-    return `${svgHeader}\n${bg}\n${svgElements}\n${svgFooter}`;
-  };
-
   const handleExport = async (format: 'png' | 'pdf' | 'svg' | 'webp') => {
     setExporting(true);
     setExportProgress(0);
-    const success = await simulateProfessionalExport({
-      fileName: `Lumina_Design_${Date.now()}`,
-      format: format,
-      quality: 'ultra',
-      onProgress: (p) => setExportProgress(p)
-    });
-    
-    if (success) {
-      if (format === 'svg') {
-        const svgString = generateSVGContent();
-        const blob = new Blob([svgString], { type: 'image/svg+xml' });
-        const url = URL.createObjectURL(blob);
-        downloadFile(url, `Lumina_Export_${Date.now()}.svg`);
-        URL.revokeObjectURL(url);
+    // Export exactly what the canvas shows
+    const visible = elements.filter(el => el.isVisible);
+    const options = { width: CANVAS_WIDTH, height: CANVAS_HEIGHT, onProgress: setExportProgress };
+
+    try {
+      let blob: Blob;
+      let warnings: string[];
+      if (format === 'pdf') {
+        const { renderDesignPDF } = await import('../services/designPdf');
+        const result = await renderDesignPDF(visible, { ...options, title: 'Lumina Design' });
+        blob = new Blob([result.bytes as BlobPart], { type: 'application/pdf' });
+        warnings = result.warnings;
+      } else if (format === 'svg') {
+        const result = await renderDesignSVG(visible, options);
+        blob = new Blob([result.svg], { type: 'image/svg+xml' });
+        warnings = result.warnings;
+      } else {
+        ({ blob, warnings } = await renderDesignRaster(visible, { ...options, format, scale: exportScale, quality: 0.92 }));
       }
-      
-      setExporting(false);
+
+      const url = URL.createObjectURL(blob);
+      downloadFile(url, `Lumina_Export_${Date.now()}.${format}`);
+      URL.revokeObjectURL(url);
+
       setShowExportModal(false);
-      toast.success(`${format.toUpperCase()} Export Complete`, { description: 'Your design has been exported successfully.' });
+      if (warnings.length > 0) {
+        toast.warning(`${format.toUpperCase()} Exported With Warnings`, { description: warnings.join(' • ') });
+      } else {
+        toast.success(`${format.toUpperCase()} Export Complete`, { description: 'Your design has been exported successfully.' });
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Export Failed', { description: error instanceof Error ? error.message : 'Please try again.' });
+    } finally {
+      setExporting(false);
     }
   };
 
@@ -749,6 +778,17 @@ const Canvas: React.FC = () => {
                   <h4 className="type-label text-slate-400">Generative Intelligence</h4>
                 </div>
 
+                <Suspense fallback={null}>
+                  <AICommandBar
+                    context={{
+                      elements,
+                      selectedElements: selectedIds,
+                      canvasSize: { width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+                    }}
+                    onApplyActions={applyAIActions}
+                  />
+                </Suspense>
+
                 <div className="p-8 bg-purple-950 rounded-4xl text-white relative overflow-hidden shadow-prominent">
                    <i className="fas fa-sparkles absolute -top-4 -right-4 text-7xl opacity-10 rotate-12"></i>
                    <p className="type-label text-purple-400 mb-1">Atmosphere Synthesis</p>
@@ -890,6 +930,21 @@ const Canvas: React.FC = () => {
                 </div>
               ) : (
                 <div className="space-y-6">
+                  <div className="flex items-center justify-between px-2">
+                    <p className="type-label text-slate-400">PNG / WebP Scale</p>
+                    <div className="flex gap-2" role="group" aria-label="Raster export scale">
+                      {EXPORT_SCALES.map(scale => (
+                        <button
+                          key={scale}
+                          onClick={() => setExportScale(scale)}
+                          aria-pressed={exportScale === scale}
+                          className={`px-4 py-2 rounded-xl type-label border transition-all ${exportScale === scale ? 'bg-accent text-white border-accent' : 'bg-slate-50 text-slate-500 border-slate-100 hover:border-accent'}`}
+                        >
+                          {scale}×
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <div className="grid grid-cols-1 gap-4">
                     {[
                       { format: 'png', label: 'Lossless PNG', desc: 'Standard production raster', icon: 'fa-image' },
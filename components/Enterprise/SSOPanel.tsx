@@ -42,6 +42,7 @@ export const SSOPanel: React.FC<SSOPanelProps> = ({
   const [showAddProvider, setShowAddProvider] = useState(false);
   const [showAddDomain, setShowAddDomain] = useState(false);
   const [newDomain, setNewDomain] = useState('');
+  const [metadataError, setMetadataError] = useState<string | null>(null);
 
   // New provider form
   const [newProvider, setNewProvider] = useState<{
@@ -50,7 +51,9 @@ export const SSOPanel: React.FC<SSOPanelProps> = ({
     displayName: string;
     entityId?: string;
     ssoUrl?: string;
+    sloUrl?: string;
     certificate?: string;
+    nameIdFormat?: string;
     clientId?: string;
     clientSecret?: string;
     issuer?: string;
@@ -86,7 +89,9 @@ export const SSOPanel: React.FC<SSOPanelProps> = ({
       input.saml_config = {
         entity_id: newProvider.entityId || '',
         sso_url: newProvider.ssoUrl || '',
+        slo_url: newProvider.sloUrl,
         certificate: newProvider.certificate || '',
+        name_id_format: newProvider.nameIdFormat,
       };
     } else {
       input.oidc_config = {
@@ -104,6 +109,23 @@ export const SSOPanel: React.FC<SSOPanelProps> = ({
     }
   };
 
+  const handleImportMetadata = async (file: File) => {
+    try {
+      const saml = ssoService.parseIdPMetadata(await file.text());
+      setNewProvider(provider => ({
+        ...provider,
+        entityId: saml.entity_id,
+        ssoUrl: saml.sso_url,
+        sloUrl: saml.slo_url,
+        certificate: saml.certificate,
+        nameIdFormat: saml.name_id_format,
+      }));
+      setMetadataError(null);
+    } catch (error) {
+      setMetadataError(error instanceof Error ? error.message : 'Could not read metadata file');
+    }
+  };
+
   const handleToggleEnabled = async (configId: string, currentlyEnabled: boolean) => {
     if (currentlyEnabled) {
       await ssoService.disableConfiguration(configId);
@@ -587,6 +609,23 @@ export const SSOPanel: React.FC<SSOPanelProps> = ({
 
                 {newProvider.type === 'saml' ? (
                   <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Import IdP Metadata (optional)
+                      </label>
+                      <input
+                        type="file"
+                        accept=".xml,application/xml,text/xml"
+                        onChange={e => {
+                          const file = e.target.files?.[0];
+                          if (file) void handleImportMetadata(file);
+                        }}
+                        className="w-full text-sm text-gray-600 dark:text-gray-400"
+                      />
+                      {metadataError && (
+                        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{metadataError}</p>
+                      )}
+                    </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                         Identity Provider Entity ID
@@ -24,6 +24,11 @@ import {
   Branch,
   CanvasState,
 } from '../../services/canvasHistoryService';
+import type {
+  CanvasMergeConflict,
+  MergePreview,
+  MergeResolution,
+} from '../../services/canvasHistoryService';
 
 interface TimelinePanelProps {
   projectId: string;
@@ -44,6 +49,9 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
   const [showCheckpoints, setShowCheckpoints] = useState(false);
   const [newBranchName, setNewBranchName] = useState('');
   const [isCreatingBranch, setIsCreatingBranch] = useState(false);
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null);
+  const [mergeResolutions, setMergeResolutions] = useState<Record<string, MergeResolution>>({});
+  const [mergeError, setMergeError] = useState<string | null>(null);
   const timelineRef = useRef<HTMLDivElement>(null);
 
   // Initialize service and load history
@@ -131,12 +139,44 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
 
   // Handle merge branch
   const handleMergeBranch = async (sourceBranch: string) => {
-    const success = await canvasHistoryService.mergeBranch(sourceBranch);
-    if (success) {
+    setMergeError(null);
+    const preview = await canvasHistoryService.prepareMerge(sourceBranch);
+    if (!preview) {
+      setMergeError(`Could not merge ${sourceBranch}`);
+      return;
+    }
+
+    setShowBranches(false);
+    if (preview.conflicts.length === 0) {
+      handleCommitMerge(preview, {});
+    } else {
+      setMergeResolutions({});
+      setMergePreview(preview);
+    }
+  };
+
+  const handleCommitMerge = (preview: MergePreview, resolutions: Record<string, MergeResolution>) => {
+    try {
+      const entry = canvasHistoryService.commitMerge(preview, resolutions);
+      onStateRestore?.(entry.canvasState);
+      setMergePreview(null);
       loadHistory();
+    } catch (err) {
+      setMergeError(err instanceof Error ? err.message : 'Merge failed');
     }
   };
 
+  const describeConflict = (conflict: CanvasMergeConflict): string =>
+    conflict.kind === 'delete'
+      ? `${conflict.elementId}: deleted on one branch, edited on the other`
+      : `${conflict.elementId}: ${conflict.property}`;
+
+  const formatMergeValue = (value: unknown): string => {
+    if (value === undefined) return 'deleted';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text.length > 24 ? `${text.slice(0, 24)}…` : text;
+  };
+
   // Get action icon
   const getActionIcon = (actionType: HistoryActionType): React.ReactNode => {
     const icons: Partial<Record<HistoryActionType, React.ReactNode>> = {
@@ -281,6 +321,59 @@ export const TimelinePanel: React.FC<TimelinePanelProps> = ({
         </div>
       </div>
 
+      {/* Merge Conflicts */}
+      {mergeError && (
+        <div className="px-3 py-2 text-xs text-red-600 bg-red-50 dark:bg-red-900/20 border-b border-gray-200 dark:border-gray-700">
+          {mergeError}
+        </div>
+      )}
+      {mergePreview && (
+        <div className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <GitMerge className="w-4 h-4 text-orange-500" />
+            {mergePreview.conflicts.length} conflict{mergePreview.conflicts.length !== 1 ? 's' : ''} merging {mergePreview.sourceBranch}
+          </div>
+          <div className="max-h-48 overflow-auto space-y-2">
+            {mergePreview.conflicts.map(conflict => (
+              <div key={conflict.id} className="text-xs">
+                <div className="text-gray-600 dark:text-gray-400 mb-1 truncate">{describeConflict(conflict)}</div>
+                <div className="flex gap-1">
+                  {(['ours', 'theirs'] as const).map(side => (
+                    <button
+                      key={side}
+                      onClick={() => setMergeResolutions(prev => ({ ...prev, [conflict.id]: side }))}
+                      className={`flex-1 px-2 py-1 rounded truncate ${
+                        mergeResolutions[conflict.id] === side
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+                      }`}
+                      title={side === 'ours' ? mergePreview.targetBranch : mergePreview.sourceBranch}
+                    >
+                      {side === 'ours' ? mergePreview.targetBranch : mergePreview.sourceBranch}: {formatMergeValue(conflict[side])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setMergePreview(null)}
+              className="px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => handleCommitMerge(mergePreview, mergeResolutions)}
+              disabled={mergePreview.conflicts.some(conflict => !mergeResolutions[conflict.id])}
+              className="px-2 py-1 bg-blue-500 text-white text-xs rounded disabled:opacity-50"
+            >
+              Commit Merge
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex items-center gap-2 p-3 border-b border-gray-200 dark:border-gray-700">
         <button
@@ -15,8 +15,10 @@ import {
   Loader2,
   ChevronUp,
   ChevronDown,
+  GitMerge,
 } from 'lucide-react';
 import { offlineSync, SyncConflict } from '../../services/offlineSyncService';
+import type { FieldResolution } from '../../services/offlineSyncMerge';
 
 // =============================================
 // Types
@@ -26,6 +28,12 @@ interface OfflineIndicatorProps {
   className?: string;
 }
 
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return 'removed';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 24 ? `${text.slice(0, 24)}…` : text;
+};
+
 // =============================================
 // Offline Indicator Component
 // =============================================
@@ -39,6 +47,7 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
   const [isSyncing, setIsSyncing] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [fieldResolutions, setFieldResolutions] = useState<Record<string, Record<string, FieldResolution>>>({});
 
   // =============================================
   // Setup
@@ -103,6 +112,26 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
     loadPendingCount();
   };
 
+  const handleFieldResolution = (conflictId: string, path: string, resolution: FieldResolution) => {
+    setFieldResolutions(prev => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [path]: resolution },
+    }));
+  };
+
+  const handleMergeConflict = async (conflict: SyncConflict) => {
+    const resolutions = fieldResolutions[conflict.id];
+    const { merged } = offlineSync.mergeConflict(conflict, resolutions);
+    await offlineSync.resolveConflict(conflict.id, 'merged', merged);
+    setFieldResolutions(prev => {
+      const next = { ...prev };
+      delete next[conflict.id];
+      return next;
+    });
+    void loadConflicts();
+    void loadPendingCount();
+  };
+
   const formatLastSync = () => {
     if (!lastSyncTime) return 'Never';
     const diff = Date.now() - lastSyncTime.getTime();
@@ -235,7 +264,13 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
                   <AlertCircle className="w-3.5 h-3.5" />
                   Conflicts Detected
                 </p>
-                {conflicts.slice(0, 3).map((conflict) => (
+                {conflicts.slice(0, 3).map((conflict) => {
+                  const resolutions = fieldResolutions[conflict.id] ?? {};
+                  const merge = offlineSync.mergeConflict(conflict, resolutions);
+                  const autoMerged = merge.diff.length - merge.conflicts.length;
+                  const unresolved = merge.conflicts.filter(field => !resolutions[field.path]).length;
+
+                  return (
                   <div
                     key={conflict.id}
                     className="p-2 rounded-lg bg-zinc-800/50 border border-zinc-700/50"
@@ -248,7 +283,45 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
                         {new Date(conflict.local_timestamp).toLocaleTimeString()}
                       </span>
                     </div>
+                    {autoMerged > 0 && (
+                      <p className="text-xs text-zinc-500 mb-2">
+                        {autoMerged} change{autoMerged !== 1 ? 's' : ''} merged automatically
+                      </p>
+                    )}
+                    {merge.conflicts.map((field) => (
+                      <div key={field.path} className="mb-2">
+                        <p className="text-xs text-zinc-400 truncate" title={field.path}>
+                          {field.kind === 'delete' ? `Deleted: ${field.path || conflict.entity_type}` : field.path}
+                        </p>
+                        <div className="flex items-center gap-1 mt-1">
+                          {(['local', 'server'] as const).map((side) => (
+                            <button
+                              key={side}
+                              onClick={() => handleFieldResolution(conflict.id, field.path, side)}
+                              className={`flex-1 px-1.5 py-0.5 rounded text-xs truncate transition-colors ${
+                                resolutions[field.path] === side
+                                  ? 'bg-violet-500/30 text-violet-300'
+                                  : 'bg-zinc-700/50 text-zinc-400 hover:bg-zinc-700'
+                              }`}
+                            >
+                              {side === 'local' ? 'Local' : 'Server'}: {formatValue(field[side])}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleMergeConflict(conflict)}
+                        disabled={unresolved > 0}
+                        title={unresolved > 0 ? `${unresolved} field${unresolved !== 1 ? 's' : ''} to resolve` : undefined}
+                        className="flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded text-xs
+                          bg-violet-500/20 text-violet-400 hover:bg-violet-500/30
+                          disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <GitMerge className="w-3 h-3" />
+                        Merge
+                      </button>
                       <button
                         onClick={() => handleResolveConflict(conflict.id, 'local_wins')}
                         className="flex-1 px-2 py-1 rounded text-xs
@@ -265,7 +338,8 @@ export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({
                       </button>
                     </div>
                   </div>
-                ))}
+                  );
+                })}
                 {conflicts.length > 3 && (
                   <p className="text-xs text-zinc-500 text-center">
                     +{conflicts.length - 3} more conflict{conflicts.length - 3 !== 1 ? 's' : ''}
@@ -3,6 +3,10 @@
 // ============================================
 
 import React, { useState, useMemo } from 'react';
+import type {
+  CompressionOptions as PDFCompressionOptions,
+  CompressionReport,
+} from '../../../services/pdfService';
 
 // Types
 type CompressionPreset = 'web' | 'print' | 'archive' | 'custom';
@@ -27,10 +31,13 @@ interface CompressionOptions {
   linearize: boolean; // Fast web view
 }
 
+export type { CompressionOptions as CompressionSettingsOptions };
+
 interface CompressionSettingsProps {
   isOpen: boolean;
   onClose: () => void;
-  onCompress: (options: CompressionOptions) => Promise<void>;
+  /** Resolve with compressPDF's report to show the actual result */
+  onCompress: (options: CompressionOptions) => Promise<CompressionReport | void>;
   originalSize: number; // bytes
   className?: string;
 }
@@ -51,7 +58,7 @@ const PRESETS: Record<CompressionPreset, Partial<CompressionOptions>> = {
   print: {
     imageQuality: 'high',
     imageResolution: 300,
-    downscaleImages: false,
+    downscaleImages: true,
     compressImages: true,
     convertToGrayscale: false,
     removeMetadata: false,
@@ -82,6 +89,20 @@ const formatFileSize = (bytes: number): string => {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 };
 
+// Convert the panel's options into compressPDF options. The removal
+// options other than metadata are not part of compression.
+export const toPDFCompressionOptions = (options: CompressionOptions): PDFCompressionOptions => ({
+  preset: options.preset,
+  removeMetadata: options.removeMetadata,
+  linearize: options.linearize,
+  imageResolution: options.imageResolution,
+  downscaleImages: options.downscaleImages,
+  compressImages: options.compressImages,
+  imageQuality: options.imageQuality,
+  convertToGrayscale: options.convertToGrayscale,
+  subsetFonts: options.subsetFonts,
+});
+
 const estimateCompression = (preset: CompressionPreset, options: CompressionOptions): number => {
   let ratio = 1.0;
 
@@ -142,6 +163,7 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
   });
 
   const [isCompressing, setIsCompressing] = useState(false);
+  const [report, setReport] = useState<CompressionReport | null>(null);
 
   // Estimated size
   const estimatedRatio = useMemo(() => estimateCompression(options.preset, options), [options]);
@@ -171,8 +193,12 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
   const handleCompress = async () => {
     setIsCompressing(true);
     try {
-      await onCompress(options);
-      onClose();
+      const result = await onCompress(options);
+      if (result) {
+        setReport(result);
+      } else {
+        onClose();
+      }
     } catch (error) {
       console.error('Compression failed:', error);
     } finally {
@@ -180,6 +206,11 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
     }
   };
 
+  const handleClose = () => {
+    setReport(null);
+    onClose();
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -199,7 +230,7 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
             </div>
           </div>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="p-2 rounded-lg hover:bg-white/10 text-white/70 hover:text-white transition-colors"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -210,6 +241,43 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {report ? (
+          /* Result */
+          <div className="bg-gradient-to-br from-green-500/10 to-teal-500/10 rounded-xl p-4 border border-green-500/20">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <span className="text-sm text-white/50">Before</span>
+                <p className="text-xl font-semibold text-white">{formatFileSize(report.originalSize)}</p>
+              </div>
+              <svg className="w-8 h-8 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
+              </svg>
+              <div className="text-right">
+                <span className="text-sm text-white/50">After</span>
+                <p className="text-xl font-semibold text-green-400">{formatFileSize(report.compressedSize)}</p>
+              </div>
+            </div>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-green-500 to-teal-500 transition-all duration-500"
+                style={{ width: `${Math.min(1, report.ratio) * 100}%` }}
+              />
+            </div>
+            <p className="text-center text-sm text-green-400 mt-2">
+              Saved {formatFileSize(Math.max(0, report.originalSize - report.compressedSize))} ({Math.round((1 - report.ratio) * 100)}% reduction)
+            </p>
+            <div className="grid grid-cols-2 gap-2 mt-4 text-sm text-white/70">
+              <span>Images recompressed: {report.imagesRecompressed}</span>
+              <span>Images downsampled: {report.imagesDownsampled}</span>
+              <span>Image data: {formatFileSize(report.imageBytesBefore)} → {formatFileSize(report.imageBytesAfter)}</span>
+              <span>Images left unchanged: {report.imagesSkipped}</span>
+              <span>Duplicates merged: {report.duplicatesRemoved}</span>
+              <span>Fonts subset: {report.fontsSubset}</span>
+              <span>Unused objects removed: {report.unusedObjectsRemoved}</span>
+            </div>
+          </div>
+          ) : (
+          <>
           {/* Size Preview */}
           <div className="bg-gradient-to-br from-green-500/10 to-teal-500/10 rounded-xl p-4 border border-green-500/20">
             <div className="flex items-center justify-between mb-3">
@@ -459,16 +527,29 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
               </label>
             </div>
           </div>
+          </>
+          )}
         </div>
 
         {/* Footer */}
         <div className="flex items-center justify-between p-4 border-t border-white/10 bg-white/5">
           <div className="text-sm text-white/50">
-            Estimated result: {formatFileSize(estimatedSize)}
+            {report
+              ? `Result: ${formatFileSize(report.compressedSize)}`
+              : `Estimated result: ${formatFileSize(estimatedSize)}`}
           </div>
           <div className="flex gap-3">
+            {report ? (
+            <button
+              onClick={handleClose}
+              className="px-6 py-2 rounded-lg bg-gradient-to-r from-green-500 to-teal-500 text-white font-medium hover:from-green-600 hover:to-teal-600 transition-all"
+            >
+              Done
+            </button>
+            ) : (
+            <>
             <button
-              onClick={onClose}
+              onClick={handleClose}
               className="px-4 py-2 rounded-lg bg-white/10 text-white hover:bg-white/20 transition-colors"
             >
               Cancel
@@ -492,6 +573,8 @@ export const CompressionSettings: React.FC<CompressionSettingsProps> = ({
                 </>
               )}
             </button>
+            </>
+            )}
           </div>
         </div>
       </div>
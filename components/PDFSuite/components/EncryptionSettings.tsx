@@ -3,6 +3,8 @@
 // ============================================
 
 import React, { useState, useMemo } from 'react';
+import type { EncryptionOptions as PDFEncryptionOptions } from '../../../services/pdfService';
+import type { PDFEncryptionAlgorithm } from '../../../services/pdfSecurity';
 
 // Types
 type EncryptionLevel = '40bit' | '128bit' | '256bit';
@@ -23,6 +25,8 @@ interface EncryptionOptions {
   };
 }
 
+export type { EncryptionOptions as EncryptionSettingsOptions };
+
 interface EncryptionSettingsProps {
   isOpen: boolean;
   onClose: () => void;
@@ -49,6 +53,29 @@ const calculatePasswordStrength = (password: string): { score: number; label: st
   return { score: 4, label: 'Very Strong', color: 'bg-emerald-500' };
 };
 
+const ENCRYPTION_ALGORITHMS: Record<EncryptionLevel, PDFEncryptionAlgorithm> = {
+  '40bit': 'rc4-40',
+  '128bit': 'aes-128',
+  '256bit': 'aes-256',
+};
+
+// Convert the panel's options into encryptPDF options
+export const toPDFEncryptionOptions = (options: EncryptionOptions): PDFEncryptionOptions => ({
+  userPassword: options.userPassword,
+  ownerPassword: options.ownerPassword || undefined,
+  algorithm: ENCRYPTION_ALGORITHMS[options.encryptionLevel],
+  permissions: {
+    printing: options.permissions.printing !== 'none',
+    printingHighQuality: options.permissions.printing === 'highres',
+    copying: options.permissions.copying,
+    modifying: options.permissions.editing,
+    annotating: options.permissions.annotating,
+    fillingForms: options.permissions.fillingForms,
+    contentAccessibility: options.permissions.contentAccessibility,
+    documentAssembly: options.permissions.documentAssembly,
+  },
+});
+
 export const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({
   isOpen,
   onClose,
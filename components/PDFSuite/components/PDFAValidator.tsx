@@ -4,6 +4,7 @@
 // ============================================
 
 import React, { useState, useCallback } from 'react';
+import type { PDFAFixAction } from '../../../services/pdfArchive';
 
 export type PDFALevel = '1a' | '1b' | '2a' | '2b' | '2u' | '3a' | '3b' | '3u';
 
@@ -29,6 +30,10 @@ export interface ValidationIssue {
   location?: string;
   suggestion?: string;
   autoFixable: boolean;
+  /** Transformation that resolves the issue, when autoFixable */
+  fix?: PDFAFixAction;
+  pageNumber?: number;
+  objectRef?: string;
 }
 
 export interface ValidationResult {
@@ -43,11 +48,18 @@ export interface ValidationResult {
   duration: number;
 }
 
+/** What an auto-fix run changed, shown above the re-validated result */
+export interface AutoFixResult {
+  applied: PDFAFixAction[];
+  /** Fonts that could not be embedded */
+  unresolvedFonts: string[];
+}
+
 interface PDFAValidatorProps {
   isOpen: boolean;
   onClose: () => void;
   onValidate: (targetLevel: PDFALevel) => Promise<ValidationResult>;
-  onAutoFix: (issueIds: string[]) => Promise<void>;
+  onAutoFix: (issueIds: string[]) => Promise<AutoFixResult | void>;
   onExportReport: (result: ValidationResult) => void;
   className?: string;
 }
@@ -74,112 +86,29 @@ const CATEGORY_INFO: Record<IssueCategory, { icon: string; label: string; color:
   annotations: { icon: 'fas fa-sticky-note', label: 'Annotations', color: 'text-pink-500' },
 };
 
+const FIX_LABELS: Record<PDFAFixAction, string> = {
+  'decrypt': 'Removed encryption',
+  'remove-javascript': 'Removed JavaScript',
+  'remove-actions': 'Removed forbidden actions',
+  'fix-embedded-files': 'Fixed embedded files',
+  'fix-optional-content': 'Fixed optional content',
+  'fix-forms': 'Fixed form fields',
+  'flatten-transparency': 'Flattened transparency',
+  'fix-graphics-state': 'Fixed graphics states',
+  'fix-xobjects': 'Fixed images and XObjects',
+  'fix-annotations': 'Fixed annotations',
+  'embed-fonts': 'Embedded fonts',
+  'reencode-streams': 'Re-encoded streams',
+  'add-output-intent': 'Added an output intent',
+  'write-metadata': 'Wrote XMP metadata',
+};
+
 const SEVERITY_INFO: Record<IssueSeverity, { icon: string; color: string; bg: string }> = {
   error: { icon: 'fas fa-times-circle', color: 'text-red-600', bg: 'bg-red-50' },
   warning: { icon: 'fas fa-exclamation-triangle', color: 'text-amber-600', bg: 'bg-amber-50' },
   info: { icon: 'fas fa-info-circle', color: 'text-blue-600', bg: 'bg-blue-50' },
 };
 
-// Simulated validation for demo purposes
-// In production, this would integrate with a real PDF/A validation library
-const simulateValidation = (targetLevel: PDFALevel): ValidationResult => {
-  const issues: ValidationIssue[] = [
-    {
-      id: 'font-001',
-      category: 'fonts',
-      severity: 'error',
-      code: 'FONT_NOT_EMBEDDED',
-      message: 'Font not embedded',
-      description: 'The font "Arial" is not embedded in the document. PDF/A requires all fonts to be embedded.',
-      location: 'Page 1',
-      suggestion: 'Embed the font or substitute with an embedded font.',
-      autoFixable: true,
-    },
-    {
-      id: 'color-001',
-      category: 'color',
-      severity: 'warning',
-      code: 'RGB_COLOR_SPACE',
-      message: 'RGB color space used',
-      description: 'Some elements use RGB color space. For print archiving, CMYK or calibrated color spaces are recommended.',
-      location: 'Page 2, Object 15',
-      suggestion: 'Convert colors to a device-independent color space.',
-      autoFixable: false,
-    },
-    {
-      id: 'meta-001',
-      category: 'metadata',
-      severity: 'error',
-      code: 'MISSING_XMP',
-      message: 'Missing XMP metadata',
-      description: 'XMP metadata stream is required for PDF/A compliance.',
-      suggestion: 'Add XMP metadata with required properties (title, creator, dates).',
-      autoFixable: true,
-    },
-    {
-      id: 'trans-001',
-      category: 'transparency',
-      severity: 'warning',
-      code: 'TRANSPARENCY_USED',
-      message: 'Transparency detected',
-      description: 'PDF/A-1 does not support transparency. PDF/A-2 or higher is required.',
-      location: 'Page 1, Image 3',
-      suggestion: 'Flatten transparency or target PDF/A-2 or later.',
-      autoFixable: true,
-    },
-    {
-      id: 'action-001',
-      category: 'actions',
-      severity: 'error',
-      code: 'JAVASCRIPT_ACTION',
-      message: 'JavaScript action found',
-      description: 'JavaScript actions are not allowed in PDF/A documents.',
-      location: 'Document Actions',
-      suggestion: 'Remove all JavaScript actions.',
-      autoFixable: true,
-    },
-    {
-      id: 'struct-001',
-      category: 'structure',
-      severity: 'info',
-      code: 'MISSING_TAGS',
-      message: 'Document not tagged',
-      description: 'For PDF/A-1a, 2a, or 3a compliance, the document must be tagged for accessibility.',
-      suggestion: 'Add structure tags or target a "b" level (e.g., PDF/A-2b).',
-      autoFixable: false,
-    },
-  ];
-
-  // Filter issues based on target level
-  const filteredIssues = issues.filter((issue) => {
-    // Transparency is only an issue for PDF/A-1
-    if (issue.code === 'TRANSPARENCY_USED' && !targetLevel.startsWith('1')) {
-      return false;
-    }
-    // Structure tags only required for "a" levels
-    if (issue.code === 'MISSING_TAGS' && !targetLevel.endsWith('a')) {
-      return false;
-    }
-    return true;
-  });
-
-  const errors = filteredIssues.filter((i) => i.severity === 'error').length;
-  const warnings = filteredIssues.filter((i) => i.severity === 'warning').length;
-  const info = filteredIssues.filter((i) => i.severity === 'info').length;
-
-  return {
-    isCompliant: errors === 0,
-    targetLevel,
-    totalIssues: filteredIssues.length,
-    errors,
-    warnings,
-    info,
-    issues: filteredIssues,
-    timestamp: Date.now(),
-    duration: Math.random() * 2000 + 500, // Simulated duration
-  };
-};
-
 export const PDFAValidator: React.FC<PDFAValidatorProps> = ({
   isOpen,
   onClose,
@@ -192,6 +121,8 @@ export const PDFAValidator: React.FC<PDFAValidatorProps> = ({
   const [isValidating, setIsValidating] = useState(false);
   const [isFixing, setIsFixing] = useState(false);
   const [result, setResult] = useState<ValidationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastFix, setLastFix] = useState<AutoFixResult | null>(null);
   const [selectedIssues, setSelectedIssues] = useState<Set<string>>(new Set());
   const [expandedIssue, setExpandedIssue] = useState<string | null>(null);
   const [filterCategory, setFilterCategory] = useState<IssueCategory | 'all'>('all');
@@ -200,16 +131,15 @@ export const PDFAValidator: React.FC<PDFAValidatorProps> = ({
   const handleValidate = useCallback(async () => {
     setIsValidating(true);
     setResult(null);
+    setError(null);
+    setLastFix(null);
     setSelectedIssues(new Set());
 
     try {
-      // Use provided validation or simulate
       const validationResult = await onValidate(targetLevel);
       setResult(validationResult);
-    } catch {
-      // Use simulated validation as fallback
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      setResult(simulateValidation(targetLevel));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Validation failed');
     } finally {
       setIsValidating(false);
     }
@@ -224,9 +154,12 @@ export const PDFAValidator: React.FC<PDFAValidatorProps> = ({
 
     setIsFixing(true);
     try {
-      await onAutoFix(fixableIssues);
+      const fixResult = await onAutoFix(fixableIssues);
       // Re-validate after fixes
       await handleValidate();
+      if (fixResult) setLastFix(fixResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Auto-fix failed');
     } finally {
       setIsFixing(false);
     }
@@ -336,6 +269,13 @@ export const PDFAValidator: React.FC<PDFAValidatorProps> = ({
             </div>
           )}
 
+          {error && (
+            <div className="mb-4 p-3 rounded-xl bg-red-50 text-sm text-red-700 flex items-center gap-2">
+              <i className="fas fa-exclamation-circle" />
+              {error}
+            </div>
+          )}
+
           {/* Results */}
           {result && (
             <div className="space-y-4">
@@ -373,6 +313,31 @@ export const PDFAValidator: React.FC<PDFAValidatorProps> = ({
                 </div>
               </div>
 
+              {/* Last auto-fix */}
+              {lastFix && (
+                <div className="p-3 rounded-xl bg-blue-50 text-sm text-blue-800">
+                  <p className="font-medium flex items-center gap-2">
+                    <i className="fas fa-magic" />
+                    {lastFix.applied.length > 0
+                      ? `Applied ${lastFix.applied.length} fix${lastFix.applied.length !== 1 ? 'es' : ''}`
+                      : 'No fixes could be applied'}
+                  </p>
+                  {lastFix.applied.length > 0 && (
+                    <ul className="mt-1 ml-6 list-disc text-blue-700">
+                      {lastFix.applied.map((action) => (
+                        <li key={action}>{FIX_LABELS[action]}</li>
+                      ))}
+                    </ul>
+                  )}
+                  {lastFix.unresolvedFonts.length > 0 && (
+                    <p className="mt-2 text-amber-700">
+                      <i className="fas fa-exclamation-triangle mr-1" />
+                      Could not embed: {lastFix.unresolvedFonts.join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Filters and Actions */}
               {result.issues.length > 0 && (
                 <div className="flex items-center justify-between">
@@ -5,6 +5,7 @@
 
 import React, { useState, useCallback, useMemo } from 'react';
 import type { RedactionMark, PrivacyScanResult } from '../types';
+import type { RedactionReport } from '../../../services/pdfService';
 
 interface RedactionToolProps {
   redactions: RedactionMark[];
@@ -18,6 +19,10 @@ interface RedactionToolProps {
   onAcceptSuggestion: (result: PrivacyScanResult, locationIndex: number) => void;
   onRejectSuggestion: (result: PrivacyScanResult, locationIndex: number) => void;
   onAcceptAllSuggestions: () => void;
+  /** What the last apply removed from the file */
+  report?: RedactionReport | null;
+  /** Why the last apply failed, if it did */
+  error?: string | null;
   className?: string;
 }
 
@@ -35,6 +40,8 @@ export const RedactionTool: React.FC<RedactionToolProps> = ({
   onAcceptSuggestion,
   onRejectSuggestion,
   onAcceptAllSuggestions,
+  report,
+  error,
   className = '',
 }) => {
   const [activeTab, setActiveTab] = useState<ViewTab>('pending');
@@ -86,6 +93,22 @@ export const RedactionTool: React.FC<RedactionToolProps> = ({
     }
   }, []);
 
+  // Summary lines for the last redaction report
+  const reportLines = useMemo(() => {
+    if (!report) return [];
+    const plural = (count: number, noun: string) => `${count} ${noun}${count !== 1 ? 's' : ''}`;
+    return [
+      report.glyphsRemoved > 0 && `${plural(report.glyphsRemoved, 'character')} of text removed`,
+      report.pathsRemoved > 0 && `${plural(report.pathsRemoved, 'vector path')} removed`,
+      report.imagesScrubbed > 0 && `${plural(report.imagesScrubbed, 'image')} blacked out`,
+      report.imagesRemoved > 0 && `${plural(report.imagesRemoved, 'image')} removed`,
+      report.annotationsRemoved > 0 && `${plural(report.annotationsRemoved, 'annotation')} removed`,
+      report.bookmarksScrubbed > 0 && `${plural(report.bookmarksScrubbed, 'bookmark')} scrubbed`,
+      report.metadataFieldsScrubbed.length > 0 &&
+        `Metadata scrubbed: ${report.metadataFieldsScrubbed.join(', ')}`,
+    ].filter((line): line is string => !!line);
+  }, [report]);
+
   // Total suggestions count
   const totalSuggestions = useMemo(
     () => scanResults.reduce((acc, r) => acc + r.locations.length, 0),
@@ -173,6 +196,15 @@ export const RedactionTool: React.FC<RedactionToolProps> = ({
         </div>
       </div>
 
+      {error && (
+        <div className="flex-shrink-0 mx-4 mt-4 p-3 bg-red-50 border border-red-200 rounded-xl">
+          <p className="text-xs font-medium text-red-700 flex items-start gap-2">
+            <i className="fas fa-exclamation-triangle mt-0.5" />
+            {error}
+          </p>
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto">
         {/* Pending Tab */}
@@ -416,6 +448,32 @@ export const RedactionTool: React.FC<RedactionToolProps> = ({
         {/* Applied Tab */}
         {activeTab === 'applied' && (
           <div className="p-4 space-y-3">
+            {report && (
+              <div className="p-3 bg-emerald-50 border border-emerald-200 rounded-xl">
+                <p className="text-xs font-bold text-emerald-700 flex items-center gap-2">
+                  <i className="fas fa-clipboard-check" />
+                  Last redaction
+                  {report.pagesAffected.length > 0 && (
+                    <span className="font-medium text-emerald-600">
+                      · page{report.pagesAffected.length !== 1 ? 's' : ''} {report.pagesAffected.join(', ')}
+                    </span>
+                  )}
+                </p>
+                {reportLines.length > 0 ? (
+                  <ul className="mt-2 space-y-0.5">
+                    {reportLines.map((line) => (
+                      <li key={line} className="text-[10px] text-emerald-700">
+                        {line}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-[10px] text-emerald-600">
+                    No content was found under the marked areas
+                  </p>
+                )}
+              </div>
+            )}
             {appliedRedactions.length === 0 ? (
               <div className="text-center py-12">
                 <div className="w-16 h-16 mx-auto bg-slate-100 rounded-2xl flex items-center justify-center mb-4">
@@ -29,8 +29,8 @@ export { ExportModal } from './ExportModal';
 export { MergePanel } from './MergePanel';
 export { SplitPanel } from './SplitPanel';
 export { PageManipulator } from './PageManipulator';
-export { CompressionSettings } from './CompressionSettings';
-export { EncryptionSettings } from './EncryptionSettings';
+export { CompressionSettings, toPDFCompressionOptions } from './CompressionSettings';
+export { EncryptionSettings, toPDFEncryptionOptions } from './EncryptionSettings';
 
 // Phase 5 - Creative Tools & Typography
 export { DrawingCanvas } from './DrawingCanvas';
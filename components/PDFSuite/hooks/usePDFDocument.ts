@@ -11,6 +11,7 @@ import {
   getPageThumbnail,
   extractTextContent,
   downloadPDF,
+  getPasswordErrorReason,
 } from '../../../services/pdfService';
 import type {
   PDFDocument,
@@ -33,11 +34,17 @@ interface UsePDFDocumentReturn {
   isLoading: boolean;
   loadingProgress: number;
   error: string | null;
+  passwordRequired: boolean;
 
   // Document operations
-  loadDocument: (source: File | string | ArrayBuffer) => Promise<PDFDocument | null>;
+  loadDocument: (
+    source: File | string | ArrayBuffer,
+    options?: { password?: string }
+  ) => Promise<PDFDocument | null>;
   closeDocument: () => void;
   saveDocument: (filename?: string) => Promise<void>;
+  replaceDocumentBytes: (bytes: Uint8Array) => Promise<PDFDocument | null>;
+  getDocumentBytes: () => ArrayBuffer | null;
 
   // Page operations
   getPage: (pageNumber: number) => PDFPage | undefined;
@@ -67,6 +74,7 @@ export function usePDFDocument(
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
 
   // Refs
   const proxyRef = useRef<PDFDocumentProxy | null>(null);
@@ -87,7 +95,10 @@ export function usePDFDocument(
 
   // Load document
   const loadDocument = useCallback(
-    async (source: File | string | ArrayBuffer): Promise<PDFDocument | null> => {
+    async (
+      source: File | string | ArrayBuffer,
+      loadOptions: { password?: string } = {}
+    ): Promise<PDFDocument | null> => {
       // Cancel any previous loading
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
@@ -103,6 +114,7 @@ export function usePDFDocument(
       setIsLoading(true);
       setLoadingProgress(0);
       setError(null);
+      setPasswordRequired(false);
       setPages([]);
       setDocument(null);
 
@@ -118,8 +130,11 @@ export function usePDFDocument(
           pdfBytesRef.current = await response.arrayBuffer();
         }
 
-        // Load with pdf.js
-        const { proxy, metadata, pageCount } = await loadPDF(pdfBytesRef.current);
+        // Load with pdf.js (pass a copy - pdf.js takes ownership of the buffer)
+        const { proxy, metadata, pageCount, isEncrypted } = await loadPDF(
+          pdfBytesRef.current.slice(0),
+          loadOptions
+        );
         proxyRef.current = proxy;
 
         // Create document object
@@ -131,7 +146,7 @@ export function usePDFDocument(
           pageCount,
           metadata,
           isModified: false,
-          isEncrypted: false,
+          isEncrypted,
           createdAt: Date.now(),
           modifiedAt: Date.now(),
         };
@@ -172,7 +187,18 @@ export function usePDFDocument(
 
         return doc;
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to load PDF';
+        const passwordError = getPasswordErrorReason(err);
+        if (passwordError) {
+          setPasswordRequired(true);
+        }
+        const errorMessage =
+          passwordError === 'required'
+            ? 'This document is password protected'
+            : passwordError === 'incorrect'
+              ? 'Incorrect password'
+              : err instanceof Error
+                ? err.message
+                : 'Failed to load PDF';
         if (errorMessage !== 'Loading cancelled') {
           setError(errorMessage);
           if (onError) {
@@ -214,6 +240,29 @@ export function usePDFDocument(
     [document]
   );
 
+  // Replace the document with modified bytes (e.g. after redaction),
+  // keeping its name and marking it as modified
+  const replaceDocumentBytes = useCallback(
+    async (bytes: Uint8Array): Promise<PDFDocument | null> => {
+      const name = document?.name;
+      const buffer = bytes.slice().buffer;
+      const doc = await loadDocument(buffer);
+      if (!doc) return null;
+
+      const updated: PDFDocument = {
+        ...doc,
+        name: name || doc.name,
+        isModified: true,
+        modifiedAt: Date.now(),
+      };
+      setDocument(updated);
+      return updated;
+    },
+    [document, loadDocument]
+  );
+
+  const getDocumentBytes = useCallback(() => pdfBytesRef.current, []);
+
   // Get specific page
   const getPage = useCallback(
     (pageNumber: number): PDFPage | undefined => {
@@ -286,11 +335,14 @@ export function usePDFDocument(
     isLoading,
     loadingProgress,
     error,
+    passwordRequired,
 
     // Document operations
     loadDocument,
     closeDocument,
     saveDocument,
+    replaceDocumentBytes,
+    getDocumentBytes,
 
     // Page operations
     getPage,
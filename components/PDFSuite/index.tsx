@@ -41,7 +41,7 @@ import type { WatermarkSettings } from './components/WatermarkPanel';
 import type { BookmarkItem } from './components/BookmarksPanel';
 import type { RecentFile } from './hooks/useRecentFiles';
 import type { QRCodeInsertSettings } from './components/QRCodeInsertPanel';
-import type { DocumentVersion, ValidationResult, PDFALevel } from './components/PDFAValidator';
+import type { AutoFixResult, DocumentVersion, ValidationResult, PDFALevel } from './components/PDFAValidator';
 
 // Types
 import type {
@@ -58,7 +58,9 @@ import { DEFAULT_TOOL_SETTINGS, DEFAULT_GLYPH_SETTINGS } from './types';
 
 // Services
 import { scanForSensitiveData, reflowDocumentText } from '../../services/geminiService';
-import { getBookmarks } from '../../services/pdfService';
+import { getBookmarks, applyRedactions } from '../../services/pdfService';
+import type { RedactionReport } from '../../services/pdfService';
+import { convertToPDFA, validatePDFA } from '../../services/pdfArchive';
 
 interface PDFSuiteProps {
   className?: string;
@@ -79,6 +81,8 @@ const PDFSuite: React.FC<PDFSuiteProps> = ({ className = '' }) => {
     loadDocument,
     closeDocument,
     saveDocument,
+    replaceDocumentBytes,
+    getDocumentBytes,
     getPageTextContent,
     documentProxy,
   } = usePDFDocument({
@@ -323,6 +327,8 @@ const PDFSuite: React.FC<PDFSuiteProps> = ({ className = '' }) => {
   const [showSearch, setShowSearch] = useState(false);
   const [showComments, setShowComments] = useState(false);
   const [showRedactionTool, setShowRedactionTool] = useState(false);
+  const [redactionReport, setRedactionReport] = useState<RedactionReport | null>(null);
+  const [redactionError, setRedactionError] = useState<string | null>(null);
   const [showMergePanel, setShowMergePanel] = useState(false);
   const [leftSidebarTab, setLeftSidebarTab] = useState<'thumbnails' | 'bookmarks'>('thumbnails');
   const [bookmarks, setBookmarks] = useState<BookmarkItem[]>([]);
@@ -545,60 +551,42 @@ const PDFSuite: React.FC<PDFSuiteProps> = ({ className = '' }) => {
     // In a full implementation, this would download the version as PDF
   }, []);
 
-  // Handle PDF/A validation
+  // Handle PDF/A validation. The last result maps the issue ids the
+  // validator panel sends back for auto-fixing to conversion fixes.
+  const lastPDFAResultRef = useRef<ValidationResult | null>(null);
+
   const handlePDFAValidate = useCallback(async (targetLevel: PDFALevel): Promise<ValidationResult> => {
-    // Simulated validation - in production, use a real PDF/A validation library
-    await new Promise((resolve) => setTimeout(resolve, 1500));
-
-    return {
-      isCompliant: false,
-      targetLevel,
-      totalIssues: 3,
-      errors: 1,
-      warnings: 1,
-      info: 1,
-      issues: [
-        {
-          id: 'meta-001',
-          category: 'metadata',
-          severity: 'error',
-          code: 'MISSING_XMP',
-          message: 'Missing XMP metadata',
-          description: 'XMP metadata stream is required for PDF/A compliance.',
-          suggestion: 'Add XMP metadata with required properties.',
-          autoFixable: true,
-        },
-        {
-          id: 'font-001',
-          category: 'fonts',
-          severity: 'warning',
-          code: 'FONT_NOT_EMBEDDED',
-          message: 'Font not fully embedded',
-          description: 'Some font subsets may not be complete.',
-          location: 'Page 1',
-          suggestion: 'Embed complete fonts.',
-          autoFixable: true,
-        },
-        {
-          id: 'struct-001',
-          category: 'structure',
-          severity: 'info',
-          code: 'MISSING_TAGS',
-          message: 'Document not tagged',
-          description: 'For accessibility compliance, add structure tags.',
-          suggestion: 'Enable tagging in export settings.',
-          autoFixable: false,
-        },
-      ],
-      timestamp: Date.now(),
-      duration: 1500,
-    };
-  }, []);
+    const bytes = getDocumentBytes();
+    if (!bytes) {
+      throw new Error('No document loaded');
+    }
 
-  const handlePDFAAutoFix = useCallback(async (issueIds: string[]) => {
-    console.log('Auto-fixing issues:', issueIds);
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-  }, []);
+    const result = await validatePDFA(bytes, targetLevel);
+    lastPDFAResultRef.current = result;
+    return result;
+  }, [getDocumentBytes]);
+
+  const handlePDFAAutoFix = useCallback(async (issueIds: string[]): Promise<AutoFixResult | undefined> => {
+    const bytes = getDocumentBytes();
+    const lastResult = lastPDFAResultRef.current;
+    if (!bytes || !lastResult) return;
+
+    const selected = new Set(issueIds);
+    const fixes = new Set(
+      lastResult.issues
+        .filter((issue) => selected.has(issue.id) && issue.fix)
+        .map((issue) => issue.fix!)
+    );
+    if (fixes.size === 0) return;
+
+    const { bytes: converted, applied, unresolvedFonts } = await convertToPDFA(bytes, {
+      level: lastResult.targetLevel,
+      fixes: [...fixes],
+    });
+
+    await replaceDocumentBytes(converted);
+    return { applied, unresolvedFonts };
+  }, [getDocumentBytes, replaceDocumentBytes]);
 
   const handleExportPDFAReport = useCallback((result: ValidationResult) => {
     const report = `PDF/A Compliance Report\n` +
@@ -672,53 +660,59 @@ const PDFSuite: React.FC<PDFSuiteProps> = ({ className = '' }) => {
     setRedactionMarks((prev) => prev.filter((m) => m.id !== markId));
   }, []);
 
+  // Permanently remove the marked content from the document bytes, then
+  // reload so the viewer, text layer and search reflect the redacted file
+  const applyRedactionMarks = useCallback(
+    async (marks: RedactionMark[]) => {
+      const bytes = getDocumentBytes();
+      if (!bytes || marks.length === 0) return;
+
+      setRedactionError(null);
+      try {
+        const { bytes: redacted, report } = await applyRedactions(
+          bytes,
+          marks.map((mark) => ({
+            pageNumber: mark.pageNumber,
+            rect: mark.rect,
+            fillColor: mark.fillColor,
+            overlayText: mark.overlayText,
+          })),
+          {
+            scrubTerms: marks
+              .map((mark) => mark.originalText)
+              .filter((text): text is string => !!text),
+          }
+        );
+        // The marks stay pending unless the viewer now shows the redacted file
+        if (!(await replaceDocumentBytes(redacted))) {
+          setRedactionError('The redacted document could not be reloaded. Nothing was applied.');
+          return;
+        }
+        setRedactionReport(report);
+
+        const appliedIds = new Set(marks.map((mark) => mark.id));
+        setRedactionMarks((prev) =>
+          prev.map((m) => (appliedIds.has(m.id) ? { ...m, isApplied: true } : m))
+        );
+      } catch (error) {
+        setRedactionError(error instanceof Error ? error.message : 'Redaction failed');
+      }
+    },
+    [getDocumentBytes, replaceDocumentBytes]
+  );
+
   const handleApplyRedaction = useCallback(
     async (markId: string) => {
       const mark = redactionMarks.find((m) => m.id === markId);
-      if (!mark) return;
-
-      // Apply redaction (create black rectangle overlay)
-      const redactionAnnotation: PDFAnnotation = {
-        id: `redact-${Date.now()}`,
-        type: 'rectangle',
-        pageNumber: mark.pageNumber,
-        rect: mark.rect,
-        color: '#000000',
-        opacity: 100,
-        borderWidth: 0,
-        borderStyle: 'solid',
-        fillColor: '#000000',
-        createdAt: Date.now(),
-        modifiedAt: Date.now(),
-        isLocked: true,
-        isHidden: false,
-        contents: '[REDACTED]',
-      };
-
-      addAnnotationToStore('rectangle', mark.pageNumber, mark.rect, {
-        color: '#000000',
-        fillColor: '#000000',
-        opacity: 100,
-        borderWidth: 0,
-        isLocked: true,
-        contents: '[REDACTED]',
-      });
-
-      // Remove from pending list
-      setRedactionMarks((prev) =>
-        prev.map((m) =>
-          m.id === markId ? { ...m, isApplied: true } : m
-        )
-      );
+      if (!mark || mark.isApplied) return;
+      await applyRedactionMarks([mark]);
     },
-    [redactionMarks, addAnnotationToStore]
+    [redactionMarks, applyRedactionMarks]
   );
 
   const handleApplyAllRedactions = useCallback(async () => {
-    for (const mark of redactionMarks.filter((m) => !m.isApplied)) {
-      await handleApplyRedaction(mark.id);
-    }
-  }, [redactionMarks, handleApplyRedaction]);
+    await applyRedactionMarks(redactionMarks.filter((m) => !m.isApplied));
+  }, [redactionMarks, applyRedactionMarks]);
 
   // Comment panel handling
   const handleAddComment = useCallback(
@@ -1485,6 +1479,8 @@ const PDFSuite: React.FC<PDFSuiteProps> = ({ className = '' }) => {
               onRemoveRedaction={handleRemoveRedaction}
               onApplyRedaction={handleApplyRedaction}
               onApplyAll={handleApplyAllRedactions}
+              report={redactionReport}
+              error={redactionError}
               onScanForSensitiveData={async () => {
                 setIsAIProcessing(true);
                 try {
@@ -301,6 +301,7 @@ export interface RedactionMark {
   pageNumber: number;
   rect: AnnotationRect;
   overlayText?: string;
+  originalText?: string;
   fillColor: string;
   isApplied: boolean;
   reason?: string;
@@ -8,6 +8,7 @@ import {
   Plugin,
   PluginStoreEntry,
   PluginCategory,
+  PluginPermission,
   PluginStatus,
   CATEGORY_INFO,
   STATUS_INFO,
@@ -19,6 +20,7 @@ import {
   sortPlugins
 } from '../../types/plugin';
 import { usePluginSystem } from '../../services/pluginService';
+import type { PluginPermissionRequest } from '../../services/pluginService';
 
 // ============================================================================
 // PLUGIN CARD COMPONENT
@@ -182,6 +184,7 @@ interface InstalledPluginRowProps {
   onDeactivate: () => void;
   onUninstall: () => void;
   onSettings: () => void;
+  onTogglePermission: (permission: PluginPermission, granted: boolean) => void;
 }
 
 const InstalledPluginRow: React.FC<InstalledPluginRowProps> = ({
@@ -189,78 +192,202 @@ const InstalledPluginRow: React.FC<InstalledPluginRowProps> = ({
   onActivate,
   onDeactivate,
   onUninstall,
-  onSettings
+  onSettings,
+  onTogglePermission
 }) => {
   const { manifest, status } = plugin;
   const statusInfo = STATUS_INFO[status];
   const categoryInfo = CATEGORY_INFO[manifest.category];
+  const [showPermissions, setShowPermissions] = useState(false);
 
   return (
-    <div className="flex items-center gap-4 p-3 bg-white/5 rounded-lg border border-white/10 hover:border-white/20 transition-colors">
-      {/* Icon */}
-      <div
-        className="w-10 h-10 rounded-lg flex items-center justify-center text-xl shrink-0"
-        style={{ backgroundColor: `${categoryInfo.color}20` }}
-      >
-        {manifest.icon || '?'}
-      </div>
+    <div className="bg-white/5 rounded-lg border border-white/10 hover:border-white/20 transition-colors">
+      <div className="flex items-center gap-4 p-3">
+        {/* Icon */}
+        <div
+          className="w-10 h-10 rounded-lg flex items-center justify-center text-xl shrink-0"
+          style={{ backgroundColor: `${categoryInfo.color}20` }}
+        >
+          {manifest.icon || '?'}
+        </div>
 
-      {/* Info */}
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <h4 className="font-medium text-white truncate">{manifest.name}</h4>
-          <span className="text-xs text-white/40">v{manifest.version}</span>
+        {/* Info */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium text-white truncate">{manifest.name}</h4>
+            <span className="text-xs text-white/40">v{manifest.version}</span>
+          </div>
+          <p className="text-xs text-white/50 truncate">{manifest.description}</p>
         </div>
-        <p className="text-xs text-white/50 truncate">{manifest.description}</p>
-      </div>
 
-      {/* Status */}
-      <div
-        className="flex items-center gap-1.5 px-2 py-1 rounded text-xs shrink-0"
-        style={{ backgroundColor: `${statusInfo.color}20`, color: statusInfo.color }}
-      >
-        <i className={`fa-solid ${statusInfo.icon}`} />
-        <span>{statusInfo.label}</span>
-      </div>
+        {/* Status */}
+        <div
+          className="flex items-center gap-1.5 px-2 py-1 rounded text-xs shrink-0"
+          style={{ backgroundColor: `${statusInfo.color}20`, color: statusInfo.color }}
+        >
+          <i className={`fa-solid ${statusInfo.icon}`} />
+          <span>{statusInfo.label}</span>
+        </div>
 
-      {/* Actions */}
-      <div className="flex items-center gap-2 shrink-0">
-        {status === 'active' ? (
+        {/* Actions */}
+        <div className="flex items-center gap-2 shrink-0">
+          {status === 'active' ? (
+            <button
+              onClick={onDeactivate}
+              className="p-2 text-white/50 hover:text-white/80 hover:bg-white/10 rounded"
+              title="Disable"
+            >
+              <i className="fa-solid fa-pause" />
+            </button>
+          ) : status === 'disabled' || status === 'installed' ? (
+            <button
+              onClick={onActivate}
+              className="p-2 text-green-400 hover:text-green-300 hover:bg-green-500/10 rounded"
+              title="Enable"
+            >
+              <i className="fa-solid fa-play" />
+            </button>
+          ) : null}
           <button
-            onClick={onDeactivate}
+            onClick={() => setShowPermissions(!showPermissions)}
+            className={`p-2 rounded ${
+              showPermissions ? 'text-blue-400 bg-blue-500/10' : 'text-white/50 hover:text-white/80 hover:bg-white/10'
+            }`}
+            title="Permissions"
+          >
+            <i className="fa-solid fa-shield-halved" />
+          </button>
+          <button
+            onClick={onSettings}
             className="p-2 text-white/50 hover:text-white/80 hover:bg-white/10 rounded"
-            title="Disable"
+            title="Settings"
           >
-            <i className="fa-solid fa-pause" />
+            <i className="fa-solid fa-gear" />
           </button>
-        ) : status === 'disabled' || status === 'installed' ? (
           <button
-            onClick={onActivate}
-            className="p-2 text-green-400 hover:text-green-300 hover:bg-green-500/10 rounded"
-            title="Enable"
+            onClick={onUninstall}
+            className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded"
+            title="Uninstall"
           >
-            <i className="fa-solid fa-play" />
+            <i className="fa-solid fa-trash" />
           </button>
-        ) : null}
-        <button
-          onClick={onSettings}
-          className="p-2 text-white/50 hover:text-white/80 hover:bg-white/10 rounded"
-          title="Settings"
-        >
-          <i className="fa-solid fa-gear" />
-        </button>
-        <button
-          onClick={onUninstall}
-          className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded"
-          title="Uninstall"
-        >
-          <i className="fa-solid fa-trash" />
-        </button>
+        </div>
       </div>
+
+      {/* Permissions */}
+      {showPermissions && (
+        <div className="px-3 pb-3 space-y-2">
+          {manifest.permissions.map(perm => {
+            const info = PERMISSION_INFO[perm];
+            const granted = plugin.permissionGrants?.[perm] === true;
+            return (
+              <div key={perm} className="flex items-center gap-3 p-2 bg-white/5 rounded-lg">
+                <div className={`w-2 h-2 rounded-full shrink-0 ${
+                  info.risk === 'high' ? 'bg-red-400' :
+                  info.risk === 'medium' ? 'bg-yellow-400' : 'bg-green-400'
+                }`} />
+                <div className="flex-1 min-w-0">
+                  <h4 className="text-white text-sm">{info.label}</h4>
+                  <p className="text-white/50 text-xs truncate">{info.description}</p>
+                </div>
+                <button
+                  onClick={() => onTogglePermission(perm, !granted)}
+                  className={`px-2 py-1 text-xs rounded shrink-0 ${
+                    granted
+                      ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30'
+                      : 'bg-green-500/20 text-green-400 hover:bg-green-500/30'
+                  }`}
+                >
+                  {granted ? 'Revoke' : 'Grant'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
 
+// ============================================================================
+// PERMISSION PROMPT
+// ============================================================================
+
+const PermissionPromptModal: React.FC<{ request: PluginPermissionRequest }> = ({ request }) => {
+  const { plugin, permissions, respond } = request;
+  const [selected, setSelected] = useState<PluginPermission[]>(permissions);
+
+  const toggle = (perm: PluginPermission) => {
+    setSelected(prev => prev.includes(perm) ? prev.filter(p => p !== perm) : [...prev, perm]);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.95, opacity: 0 }}
+        className="bg-[#1a1a2e] rounded-xl w-full max-w-md overflow-hidden"
+      >
+        <div className="p-6 border-b border-white/10">
+          <h2 className="text-lg font-bold text-white flex items-center gap-2">
+            <i className="fa-solid fa-shield-halved text-blue-400" />
+            {plugin.manifest.name} wants to
+          </h2>
+          <p className="text-sm text-white/50 mt-1">
+            You can revoke these at any time from the Installed tab.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-2 max-h-[50vh] overflow-y-auto">
+          {permissions.map(perm => {
+            const info = PERMISSION_INFO[perm];
+            return (
+              <label key={perm} className="flex items-start gap-3 p-3 bg-white/5 rounded-lg cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(perm)}
+                  onChange={() => toggle(perm)}
+                  className="mt-1"
+                />
+                <div className="flex-1">
+                  <h4 className="text-white font-medium text-sm flex items-center gap-2">
+                    {info.label}
+                    {info.risk === 'high' && (
+                      <span className="px-1.5 py-0.5 bg-red-500/20 text-red-400 text-[10px] rounded">High risk</span>
+                    )}
+                  </h4>
+                  <p className="text-white/50 text-xs">{info.description}</p>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="p-6 border-t border-white/10 flex items-center justify-end gap-3">
+          <button
+            onClick={() => respond([])}
+            className="px-4 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20"
+          >
+            Deny All
+          </button>
+          <button
+            onClick={() => respond(selected)}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 font-medium"
+          >
+            Allow Selected
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
 // ============================================================================
 // PLUGIN DETAILS MODAL
 // ============================================================================
@@ -637,6 +764,9 @@ export const PluginSystemPanel: React.FC = () => {
     uninstallPlugin,
     activatePlugin,
     deactivatePlugin,
+    grantPermission,
+    revokePermission,
+    permissionRequest,
     updateSettings,
     searchStore,
     isInstalled,
@@ -853,6 +983,11 @@ export const PluginSystemPanel: React.FC = () => {
                     onDeactivate={() => deactivatePlugin(plugin.manifest.id)}
                     onUninstall={() => handleUninstall(plugin.manifest.id)}
                     onSettings={() => {}}
+                    onTogglePermission={(perm, granted) =>
+                      granted
+                        ? grantPermission(plugin.manifest.id, perm)
+                        : revokePermission(plugin.manifest.id, perm)
+                    }
                   />
                 ))}
               </div>
@@ -897,6 +1032,16 @@ export const PluginSystemPanel: React.FC = () => {
         )}
       </AnimatePresence>
 
+      {/* Permission Prompt */}
+      <AnimatePresence>
+        {permissionRequest && (
+          <PermissionPromptModal
+            key={permissionRequest.plugin.manifest.id}
+            request={permissionRequest}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Loading Overlay */}
       {isLoading && (
         <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
@@ -0,0 +1,436 @@
+import { useMemo, useRef, useState } from 'react';
+import type {
+  AdjustmentType,
+  ChannelMixerRow,
+  ChannelMixerSettings,
+  ColorBalanceSettings,
+  ColorBalanceTone,
+  CurvePoint,
+  CurvesSettings,
+  ExtendedPhotoFilter,
+  GradientMapSettings,
+  LevelsChannelSettings,
+  LevelsSettings,
+  ToneChannel,
+} from '../types';
+import type { Histogram } from '../utils/colorAdjustments';
+import { createAdjustmentSettings, curveLut } from '../utils/colorAdjustments';
+import HistogramView from './HistogramView';
+
+type Settings = NonNullable<ExtendedPhotoFilter['settings']>;
+
+interface AdjustmentEditorProps {
+  filter: ExtendedPhotoFilter & { type: AdjustmentType };
+  histogram: Histogram | null;
+  onChange: (settings: Settings) => void;
+}
+
+const TONE_CHANNELS: Array<{ id: ToneChannel; label: string }> = [
+  { id: 'rgb', label: 'RGB' },
+  { id: 'red', label: 'R' },
+  { id: 'green', label: 'G' },
+  { id: 'blue', label: 'B' },
+];
+
+const CURVE_STROKES: Record<ToneChannel, string> = {
+  rgb: '#e2e8f0',
+  red: '#f87171',
+  green: '#4ade80',
+  blue: '#60a5fa',
+};
+
+// ============================================
+// SHARED CONTROLS
+// ============================================
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ id: T; label: string; disabled?: boolean }>;
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex gap-0.5 bg-black/20 rounded p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          disabled={option.disabled}
+          className={`
+            flex-1 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase disabled:opacity-30
+            ${value === option.id ? 'bg-accent/20 text-accent' : 'text-slate-500 hover:text-white'}
+          `}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function SettingSlider({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block space-y-0.5">
+      <span className="flex items-center justify-between text-[9px] text-slate-500">
+        {label}
+        <span className="font-mono text-slate-400">{step < 1 ? value.toFixed(2) : value}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full h-1 bg-slate-700 rounded-full appearance-none cursor-pointer accent-accent"
+      />
+    </label>
+  );
+}
+
+function Checkbox({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wide text-slate-500">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-accent" />
+      {label}
+    </label>
+  );
+}
+
+// ============================================
+// LEVELS
+// ============================================
+
+function LevelsEditor({ settings, histogram, onChange }: {
+  settings: LevelsSettings;
+  histogram: Histogram | null;
+  onChange: (settings: LevelsSettings) => void;
+}) {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const levels = settings[channel];
+
+  const update = (updates: Partial<LevelsChannelSettings>) =>
+    onChange({ ...settings, [channel]: { ...levels, ...updates } });
+
+  return (
+    <div className="space-y-2">
+      <SegmentedControl options={TONE_CHANNELS} value={channel} onChange={setChannel} />
+      <HistogramView histogram={histogram} channel={channel === 'rgb' ? 'luminance' : channel} />
+      <SettingSlider
+        label="Input black"
+        value={levels.inputBlack}
+        min={0}
+        max={253}
+        onChange={(inputBlack) => update({ inputBlack, inputWhite: Math.max(levels.inputWhite, inputBlack + 2) })}
+      />
+      <SettingSlider label="Gamma" value={levels.gamma} min={0.1} max={9.99} step={0.01} onChange={(gamma) => update({ gamma })} />
+      <SettingSlider
+        label="Input white"
+        value={levels.inputWhite}
+        min={2}
+        max={255}
+        onChange={(inputWhite) => update({ inputWhite, inputBlack: Math.min(levels.inputBlack, inputWhite - 2) })}
+      />
+      <SettingSlider label="Output black" value={levels.outputBlack} min={0} max={255} onChange={(outputBlack) => update({ outputBlack })} />
+      <SettingSlider label="Output white" value={levels.outputWhite} min={0} max={255} onChange={(outputWhite) => update({ outputWhite })} />
+    </div>
+  );
+}
+
+// ============================================
+// CURVES
+// ============================================
+
+function CurvesEditor({ settings, histogram, onChange }: {
+  settings: CurvesSettings;
+  histogram: Histogram | null;
+  onChange: (settings: CurvesSettings) => void;
+}) {
+  const [channel, setChannel] = useState<ToneChannel>('rgb');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragIndex = useRef<number | null>(null);
+  const points = settings[channel];
+
+  const curvePath = useMemo(() => {
+    const lut = curveLut(points);
+    let path = '';
+    for (let v = 0; v < 256; v++) path += `${v === 0 ? 'M' : ' L'}${v},${255 - lut[v]!}`;
+    return path;
+  }, [points]);
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...settings, [channel]: next });
+
+  const toCurvePoint = (e: React.MouseEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.round(Math.min(255, Math.max(0, v)));
+    return {
+      input: clamp(((e.clientX - rect.left) / rect.width) * 255),
+      output: clamp(255 - ((e.clientY - rect.top) / rect.height) * 255),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toCurvePoint(e);
+    // Grab a point within 8 curve units, otherwise add one
+    let index = points.findIndex(p => Math.abs(p.input - point.input) <= 8 && Math.abs(p.output - point.output) <= 8);
+    if (index === -1) {
+      const next = [...points, point].sort((a, b) => a.input - b.input);
+      index = next.indexOf(point);
+      setPoints(next);
+    }
+    dragIndex.current = index;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const index = dragIndex.current;
+    if (index === null) return;
+    const point = toCurvePoint(e);
+    // Points keep their order: a point can't pass its neighbours
+    const min = index > 0 ? points[index - 1]!.input + 1 : 0;
+    const max = index < points.length - 1 ? points[index + 1]!.input - 1 : 255;
+    setPoints(points.map((p, i) => (i === index ? { input: Math.min(max, Math.max(min, point.input)), output: point.output } : p)));
+  };
+
+  const handlePointerUp = () => {
+    dragIndex.current = null;
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const point = toCurvePoint(e);
+    const index = points.findIndex(p => Math.abs(p.input - point.input) <= 8 && Math.abs(p.output - point.output) <= 8);
+    if (index === -1 || points.length <= 2) return;
+    setPoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      <SegmentedControl options={TONE_CHANNELS} value={channel} onChange={setChannel} />
+      <div className="relative">
+        <HistogramView
+          histogram={histogram}
+          channel={channel === 'rgb' ? 'luminance' : channel}
+          className="absolute inset-0 h-full opacity-40"
+        />
+        <svg
+          ref={svgRef}
+          viewBox="0 0 255 255"
+          className="relative w-full aspect-square cursor-crosshair touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
+        >
+          {[64, 128, 192].map(v => (
+            <g key={v} stroke="rgba(255,255,255,0.08)">
+              <line x1={v} y1={0} x2={v} y2={255} />
+              <line x1={0} y1={v} x2={255} y2={v} />
+            </g>
+          ))}
+          <line x1={0} y1={255} x2={255} y2={0} stroke="rgba(255,255,255,0.15)" />
+          <path d={curvePath} fill="none" stroke={CURVE_STROKES[channel]} strokeWidth={2} />
+          {points.map((p, i) => (
+            <rect
+              key={i}
+              x={p.input - 4}
+              y={255 - p.output - 4}
+              width={8}
+              height={8}
+              fill="#2D2D30"
+              stroke={CURVE_STROKES[channel]}
+              strokeWidth={1.5}
+            />
+          ))}
+        </svg>
+      </div>
+      <div className="flex items-center justify-between text-[9px] text-slate-600">
+        <span>Click to add, double-click to remove</span>
+        <button
+          onClick={() => setPoints((createAdjustmentSettings('curves') as CurvesSettings)[channel])}
+          className="text-slate-500 hover:text-white uppercase font-bold"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// COLOR BALANCE
+// ============================================
+
+type ToneRange = 'shadows' | 'midtones' | 'highlights';
+
+const TONE_RANGES: Array<{ id: ToneRange; label: string }> = [
+  { id: 'shadows', label: 'Shadows' },
+  { id: 'midtones', label: 'Midtones' },
+  { id: 'highlights', label: 'Highlights' },
+];
+
+function ColorBalanceEditor({ settings, onChange }: {
+  settings: ColorBalanceSettings;
+  onChange: (settings: ColorBalanceSettings) => void;
+}) {
+  const [range, setRange] = useState<ToneRange>('midtones');
+  const tone = settings[range];
+
+  const update = (updates: Partial<ColorBalanceTone>) =>
+    onChange({ ...settings, [range]: { ...tone, ...updates } });
+
+  return (
+    <div className="space-y-2">
+      <SegmentedControl options={TONE_RANGES} value={range} onChange={setRange} />
+      <SettingSlider label="Cyan ↔ Red" value={tone.cyanRed} min={-100} max={100} onChange={(cyanRed) => update({ cyanRed })} />
+      <SettingSlider label="Magenta ↔ Green" value={tone.magentaGreen} min={-100} max={100} onChange={(magentaGreen) => update({ magentaGreen })} />
+      <SettingSlider label="Yellow ↔ Blue" value={tone.yellowBlue} min={-100} max={100} onChange={(yellowBlue) => update({ yellowBlue })} />
+      <Checkbox
+        label="Preserve luminosity"
+        checked={settings.preserveLuminosity}
+        onChange={(preserveLuminosity) => onChange({ ...settings, preserveLuminosity })}
+      />
+    </div>
+  );
+}
+
+// ============================================
+// CHANNEL MIXER
+// ============================================
+
+type MixerOutput = 'red' | 'green' | 'blue';
+
+function ChannelMixerEditor({ settings, onChange }: {
+  settings: ChannelMixerSettings;
+  onChange: (settings: ChannelMixerSettings) => void;
+}) {
+  const [output, setOutput] = useState<MixerOutput>('red');
+  const channel = settings.monochrome ? 'red' : output;
+  const row = settings[channel];
+
+  const update = (updates: Partial<ChannelMixerRow>) =>
+    onChange({ ...settings, [channel]: { ...row, ...updates } });
+
+  return (
+    <div className="space-y-2">
+      <SegmentedControl
+        options={[
+          { id: 'red', label: settings.monochrome ? 'Gray' : 'Red' },
+          { id: 'green', label: 'Green', disabled: settings.monochrome },
+          { id: 'blue', label: 'Blue', disabled: settings.monochrome },
+        ]}
+        value={channel}
+        onChange={setOutput}
+      />
+      <SettingSlider label="Red" value={row.red} min={-200} max={200} onChange={(red) => update({ red })} />
+      <SettingSlider label="Green" value={row.green} min={-200} max={200} onChange={(green) => update({ green })} />
+      <SettingSlider label="Blue" value={row.blue} min={-200} max={200} onChange={(blue) => update({ blue })} />
+      <SettingSlider label="Constant" value={row.constant} min={-200} max={200} onChange={(constant) => update({ constant })} />
+      <Checkbox label="Monochrome" checked={settings.monochrome} onChange={(monochrome) => onChange({ ...settings, monochrome })} />
+    </div>
+  );
+}
+
+// ============================================
+// GRADIENT MAP
+// ============================================
+
+function GradientMapEditor({ settings, onChange }: {
+  settings: GradientMapSettings;
+  onChange: (settings: GradientMapSettings) => void;
+}) {
+  const stops = [...settings.stops].sort((a, b) => a.position - b.position);
+  const preview = `linear-gradient(to right, ${(settings.reverse ? [...stops].reverse() : stops)
+    .map(s => `${s.color} ${settings.reverse ? 100 - s.position : s.position}%`)
+    .join(', ')})`;
+
+  const updateStop = (index: number, updates: Partial<GradientMapSettings['stops'][number]>) =>
+    onChange({ ...settings, stops: stops.map((s, i) => (i === index ? { ...s, ...updates } : s)) });
+
+  const addStop = () => {
+    // Split the widest gap
+    let gap = 0;
+    for (let i = 1; i < stops.length; i++) {
+      if (stops[i]!.position - stops[i - 1]!.position > stops[gap + 1]!.position - stops[gap]!.position) gap = i - 1;
+    }
+    const position = Math.round((stops[gap]!.position + stops[gap + 1]!.position) / 2);
+    onChange({ ...settings, stops: [...stops, { color: stops[gap]!.color, position }] });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="h-4 rounded border border-white/10" style={{ background: preview }} />
+      {stops.map((stop, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => updateStop(i, { color: e.target.value })}
+            className="w-6 h-5 bg-transparent border-0 p-0 cursor-pointer"
+          />
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={stop.position}
+            onChange={(e) => updateStop(i, { position: parseFloat(e.target.value) })}
+            className="flex-1 h-1 bg-slate-700 rounded-full appearance-none cursor-pointer accent-accent"
+          />
+          <span className="w-8 text-right text-[10px] font-mono text-slate-400">{stop.position}%</span>
+          <button
+            onClick={() => onChange({ ...settings, stops: stops.filter((_, j) => j !== i) })}
+            disabled={stops.length <= 2}
+            className="text-[9px] text-slate-600 hover:text-white disabled:opacity-30"
+            title="Remove stop"
+          >
+            <i className="fas fa-xmark" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Checkbox label="Reverse" checked={settings.reverse} onChange={(reverse) => onChange({ ...settings, reverse })} />
+        <button onClick={addStop} className="text-[9px] font-bold uppercase text-slate-500 hover:text-white">
+          Add stop
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// DISPATCH
+// ============================================
+
+export default function AdjustmentEditor({ filter, histogram, onChange }: AdjustmentEditorProps) {
+  const settings = filter.settings ?? createAdjustmentSettings(filter.type);
+
+  switch (filter.type) {
+    case 'levels':
+      return <LevelsEditor settings={settings as LevelsSettings} histogram={histogram} onChange={onChange} />;
+    case 'curves':
+      return <CurvesEditor settings={settings as CurvesSettings} histogram={histogram} onChange={onChange} />;
+    case 'colorBalance':
+      return <ColorBalanceEditor settings={settings as ColorBalanceSettings} onChange={onChange} />;
+    case 'channelMixer':
+      return <ChannelMixerEditor settings={settings as ChannelMixerSettings} onChange={onChange} />;
+    case 'gradientMap':
+      return <GradientMapEditor settings={settings as GradientMapSettings} onChange={onChange} />;
+  }
+}
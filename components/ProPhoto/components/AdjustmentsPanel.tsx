@@ -1,6 +1,11 @@
 import { useState } from 'react';
 import type { ExtendedPhotoFilter, ExtendedFilterType, PhotoLayerExtended } from '../types';
 import { filterConfigs, filterCategories, filterPresets } from '../utils/filterPipeline';
+import type { Histogram } from '../utils/colorAdjustments';
+import { ADJUSTMENT_TYPES, isAdjustmentType } from '../utils/colorAdjustments';
+import AdjustmentEditor from './AdjustmentEditors';
+import HistogramView from './HistogramView';
+import type { HistogramChannel } from './HistogramView';
 
 interface AdjustmentsPanelProps {
   layer: PhotoLayerExtended | null;
@@ -10,9 +15,25 @@ interface AdjustmentsPanelProps {
   onFilterToggle: (filterId: string) => void;
   onApplyPreset: (presetId: string) => void;
   onResetAll: () => void;
+  /** Set while a pixel selection exists: bakes the enabled filters into the selected pixels */
+  onApplyToSelection?: () => void;
+  onFilterSettingsChange?: (filterId: string, settings: NonNullable<ExtendedPhotoFilter['settings']>) => void;
+  /** Adds a non-destructive adjustment layer on top of the layer stack */
+  onAddAdjustmentLayer?: (type: ExtendedFilterType) => void;
+  histogram?: Histogram | null;
   className?: string;
 }
 
+const HISTOGRAM_CHANNELS: Array<{ id: HistogramChannel; label: string }> = [
+  { id: 'rgb', label: 'RGB' },
+  { id: 'luminance', label: 'Lum' },
+  { id: 'red', label: 'R' },
+  { id: 'green', label: 'G' },
+  { id: 'blue', label: 'B' },
+];
+
+const ADJUSTMENT_LAYER_TYPES: ExtendedFilterType[] = [...ADJUSTMENT_TYPES, 'threshold'];
+
 export default function AdjustmentsPanel({
   layer,
   onFilterChange,
@@ -21,10 +42,17 @@ export default function AdjustmentsPanel({
   onFilterToggle,
   onApplyPreset,
   onResetAll,
+  onApplyToSelection,
+  onFilterSettingsChange,
+  onAddAdjustmentLayer,
+  histogram = null,
   className = '',
 }: AdjustmentsPanelProps) {
   const [activeTab, setActiveTab] = useState<string>('basic');
   const [showPresets, setShowPresets] = useState(false);
+  const [showLayerMenu, setShowLayerMenu] = useState(false);
+  const [expandedType, setExpandedType] = useState<ExtendedFilterType | null>(null);
+  const [histogramChannel, setHistogramChannel] = useState<HistogramChannel>('rgb');
 
   const filters = layer?.filters || [];
 
@@ -50,6 +78,8 @@ export default function AdjustmentsPanel({
     const value = filter ? (typeof filter.value === 'number' ? filter.value : 0) : config.defaultValue;
     const isActive = filter?.enabled ?? false;
     const isModified = value !== config.defaultValue;
+    const hasEditor = isAdjustmentType(type) && !!filter && !!onFilterSettingsChange;
+    const isExpanded = hasEditor && expandedType === type;
 
     return (
       <div key={type} className="space-y-1">
@@ -65,6 +95,15 @@ export default function AdjustmentsPanel({
             {config.label}
           </button>
           <div className="flex items-center gap-2">
+            {hasEditor && (
+              <button
+                onClick={() => setExpandedType(isExpanded ? null : type)}
+                className={`text-[8px] ${isExpanded ? 'text-accent' : 'text-slate-600 hover:text-white'}`}
+                title="Edit settings"
+              >
+                <i className={`fas ${isExpanded ? 'fa-chevron-up' : 'fa-sliders'}`} />
+              </button>
+            )}
             <span className="text-[10px] font-mono text-slate-400">
               {value}{config.unit || ''}
             </span>
@@ -97,6 +136,15 @@ export default function AdjustmentsPanel({
             />
           )}
         </div>
+        {isExpanded && filter && isAdjustmentType(filter.type) && (
+          <div className="mt-2 p-2 rounded bg-black/20">
+            <AdjustmentEditor
+              filter={{ ...filter, type: filter.type }}
+              histogram={histogram}
+              onChange={(settings) => onFilterSettingsChange?.(filter.id, settings)}
+            />
+          </div>
+        )}
       </div>
     );
   };
@@ -124,6 +172,19 @@ export default function AdjustmentsPanel({
           Adjustments
         </span>
         <div className="flex gap-1">
+          {onAddAdjustmentLayer && (
+            <button
+              onClick={() => setShowLayerMenu(!showLayerMenu)}
+              className={`
+                px-2 py-1 rounded text-[9px] font-bold uppercase
+                ${showLayerMenu ? 'bg-accent/20 text-accent' : 'bg-white/5 text-slate-500 hover:text-white'}
+              `}
+              title="New adjustment layer"
+            >
+              <i className="fas fa-circle-half-stroke mr-1" />
+              Layer
+            </button>
+          )}
           <button
             onClick={() => setShowPresets(!showPresets)}
             className={`
@@ -143,6 +204,45 @@ export default function AdjustmentsPanel({
         </div>
       </div>
 
+      {/* Live histogram */}
+      <div className="p-3 border-b border-black/40 space-y-1.5">
+        <HistogramView histogram={histogram} channel={histogramChannel} />
+        <div className="flex gap-0.5">
+          {HISTOGRAM_CHANNELS.map((channel) => (
+            <button
+              key={channel.id}
+              onClick={() => setHistogramChannel(channel.id)}
+              className={`
+                flex-1 py-0.5 rounded text-[8px] font-bold uppercase
+                ${histogramChannel === channel.id ? 'bg-white/10 text-white' : 'text-slate-600 hover:text-slate-300'}
+              `}
+            >
+              {channel.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* New adjustment layer */}
+      {showLayerMenu && onAddAdjustmentLayer && (
+        <div className="p-3 border-b border-black/40 bg-black/20">
+          <div className="grid grid-cols-2 gap-2">
+            {ADJUSTMENT_LAYER_TYPES.map((type) => (
+              <button
+                key={type}
+                onClick={() => {
+                  onAddAdjustmentLayer(type);
+                  setShowLayerMenu(false);
+                }}
+                className="px-2 py-2 rounded bg-white/5 hover:bg-white/10 text-[9px] font-medium text-slate-400 hover:text-white transition-colors"
+              >
+                {filterConfigs[type].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Presets Panel */}
       {showPresets && (
         <div className="p-3 border-b border-black/40 bg-black/20">
@@ -201,6 +301,14 @@ export default function AdjustmentsPanel({
               </span>
             ))}
           </div>
+          {onApplyToSelection && (
+            <button
+              onClick={onApplyToSelection}
+              className="mt-2 w-full px-2 py-1.5 rounded bg-accent/20 hover:bg-accent/30 text-accent text-[9px] font-bold uppercase tracking-widest"
+            >
+              Apply to Selection
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,59 @@
+import { useMemo } from 'react';
+import type { Histogram } from '../utils/colorAdjustments';
+
+export type HistogramChannel = 'rgb' | 'red' | 'green' | 'blue' | 'luminance';
+
+interface HistogramViewProps {
+  histogram: Histogram | null;
+  channel?: HistogramChannel;
+  className?: string;
+}
+
+const CHANNEL_FILLS: Record<Exclude<HistogramChannel, 'rgb'>, string> = {
+  red: 'rgba(248, 113, 113, 0.7)',
+  green: 'rgba(74, 222, 128, 0.7)',
+  blue: 'rgba(96, 165, 250, 0.7)',
+  luminance: 'rgba(203, 213, 225, 0.6)',
+};
+
+/** Filled area path for 256 bins in a 256×100 view box */
+function binsPath(bins: Uint32Array, scale: number): string {
+  let path = 'M0,100';
+  for (let i = 0; i < 256; i++) {
+    const height = Math.min(100, (bins[i]! / scale) * 100);
+    path += ` L${i},${(100 - height).toFixed(1)} L${i + 1},${(100 - height).toFixed(1)}`;
+  }
+  return `${path} L256,100 Z`;
+}
+
+export default function HistogramView({ histogram, channel = 'rgb', className = 'h-16' }: HistogramViewProps) {
+  const paths = useMemo(() => {
+    if (!histogram || histogram.total === 0) return [];
+    const channels: Array<Exclude<HistogramChannel, 'rgb'>> = channel === 'rgb' ? ['red', 'green', 'blue'] : [channel];
+
+    // Scale to the tallest interior bin so clipped blacks and whites don't flatten the rest
+    let scale = 1;
+    channels.forEach(name => {
+      for (let i = 1; i < 255; i++) scale = Math.max(scale, histogram[name][i]!);
+    });
+
+    return channels.map(name => ({ name, d: binsPath(histogram[name], scale) }));
+  }, [histogram, channel]);
+
+  return (
+    <svg
+      viewBox="0 0 256 100"
+      preserveAspectRatio="none"
+      className={`w-full bg-black/30 rounded ${className}`}
+    >
+      {paths.map(({ name, d }) => (
+        <path
+          key={name}
+          d={d}
+          fill={CHANNEL_FILLS[name]}
+          style={{ mixBlendMode: channel === 'rgb' ? 'screen' : 'normal' }}
+        />
+      ))}
+    </svg>
+  );
+}
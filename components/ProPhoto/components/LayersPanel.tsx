@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
-import type { PhotoLayerExtended, ExtendedBlendMode } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import type { PhotoLayerExtended, ExtendedBlendMode, LayerMask } from '../types';
+import { groupAncestors, isLayerCollapsed } from '../utils/layerGroups';
+import { maskToGrayPixels } from '../utils/layerMask';
 
 const BLEND_MODES: { value: ExtendedBlendMode; label: string }[] = [
   { value: 'normal', label: 'Normal' },
@@ -31,9 +33,38 @@ interface LayersPanelProps {
   onLayerDuplicate: (id: string) => void;
   onLayerReorder: (fromIndex: number, toIndex: number) => void;
   onOpenEffects: (id: string) => void;
+  /** Whether brushes paint into the selected layer's mask */
+  editingMask?: boolean;
+  onEditMaskChange?: (editing: boolean) => void;
+  onMaskAdd?: (id: string, hideAll: boolean) => void;
+  onMaskUpdate?: (id: string, updates: Partial<LayerMask>) => void;
+  onMaskLinkToggle?: (id: string) => void;
+  onMaskApply?: (id: string) => void;
+  onMaskDelete?: (id: string) => void;
   className?: string;
 }
 
+// Greyscale preview of a mask bitmap; white (revealed) when it has no bitmap yet
+function MaskThumbnail({ mask }: { mask: LayerMask }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !mask.data) return;
+
+    const { width, height } = mask.data;
+    ctx.canvas.width = width;
+    ctx.canvas.height = height;
+    ctx.putImageData(new ImageData(maskToGrayPixels(mask.data), width, height), 0, 0);
+  }, [mask.data]);
+
+  return mask.data ? (
+    <canvas ref={canvasRef} className="w-full h-full object-contain bg-black" />
+  ) : (
+    <div className="w-full h-full bg-white" />
+  );
+}
+
 export default function LayersPanel({
   layers,
   selectedLayerIds,
@@ -44,6 +75,13 @@ export default function LayersPanel({
   onLayerDuplicate,
   onLayerReorder,
   onOpenEffects,
+  editingMask = false,
+  onEditMaskChange,
+  onMaskAdd,
+  onMaskUpdate,
+  onMaskLinkToggle,
+  onMaskApply,
+  onMaskDelete,
   className = '',
 }: LayersPanelProps) {
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
@@ -138,6 +176,94 @@ export default function LayersPanel({
         </div>
       )}
 
+      {/* Layer Mask */}
+      {selectedLayer?.mask && (
+        <div className="px-4 py-3 border-b border-black/20 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] font-bold uppercase text-slate-500">Mask</span>
+            <div className="flex gap-1">
+              {[
+                {
+                  icon: selectedLayer.mask.enabled ? 'fa-eye' : 'fa-eye-slash',
+                  title: selectedLayer.mask.enabled ? 'Disable Mask' : 'Enable Mask',
+                  active: !selectedLayer.mask.enabled,
+                  onClick: () => onMaskUpdate?.(selectedLayer.id, { enabled: !selectedLayer.mask!.enabled }),
+                },
+                {
+                  icon: 'fa-circle-half-stroke',
+                  title: 'Invert Mask',
+                  active: selectedLayer.mask.inverted,
+                  onClick: () => onMaskUpdate?.(selectedLayer.id, { inverted: !selectedLayer.mask!.inverted }),
+                },
+                {
+                  icon: selectedLayer.mask.linked ? 'fa-link' : 'fa-link-slash',
+                  title: selectedLayer.mask.linked ? 'Unlink Mask from Layer' : 'Link Mask to Layer',
+                  active: !selectedLayer.mask.linked,
+                  onClick: () => onMaskLinkToggle?.(selectedLayer.id),
+                },
+                {
+                  icon: 'fa-check',
+                  title: 'Apply Mask',
+                  active: false,
+                  disabled: selectedLayer.type === 'adjustment',
+                  onClick: () => onMaskApply?.(selectedLayer.id),
+                },
+                {
+                  icon: 'fa-trash',
+                  title: 'Delete Mask',
+                  active: false,
+                  onClick: () => onMaskDelete?.(selectedLayer.id),
+                },
+              ].map(action => (
+                <button
+                  key={action.title}
+                  onClick={action.onClick}
+                  disabled={action.disabled}
+                  className={`w-6 h-6 rounded hover:bg-white/10 flex items-center justify-center disabled:opacity-30 ${
+                    action.active ? 'text-accent' : 'text-slate-500 hover:text-white'
+                  }`}
+                  title={action.title}
+                >
+                  <i className={`fas ${action.icon} text-[10px]`} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Density */}
+          <div className="flex items-center gap-2">
+            <label className="text-[9px] font-bold uppercase text-slate-500 w-16">Density</label>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={selectedLayer.mask.density}
+              onChange={(e) => onMaskUpdate?.(selectedLayer.id, { density: parseInt(e.target.value) })}
+              className="flex-1 h-1 bg-slate-700 rounded-full appearance-none cursor-pointer accent-accent"
+            />
+            <span className="text-[10px] font-mono text-white w-10 text-right">
+              {selectedLayer.mask.density}%
+            </span>
+          </div>
+
+          {/* Feather */}
+          <div className="flex items-center gap-2">
+            <label className="text-[9px] font-bold uppercase text-slate-500 w-16">Feather</label>
+            <input
+              type="range"
+              min={0}
+              max={250}
+              value={selectedLayer.mask.feather}
+              onChange={(e) => onMaskUpdate?.(selectedLayer.id, { feather: parseInt(e.target.value) })}
+              className="flex-1 h-1 bg-slate-700 rounded-full appearance-none cursor-pointer accent-accent"
+            />
+            <span className="text-[10px] font-mono text-white w-10 text-right">
+              {selectedLayer.mask.feather}px
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Layer List */}
       <div className="flex-1 overflow-y-auto scrollbar-hide">
         {layers.slice().reverse().map((layer, reversedIndex) => {
@@ -145,6 +271,7 @@ export default function LayersPanel({
           const isSelected = selectedLayerIds.includes(layer.id);
           const isDragging = draggedIndex === index;
           const isDropTarget = dropIndex === index;
+          if (isLayerCollapsed(layers, layer)) return null;
 
           return (
             <div
@@ -163,6 +290,7 @@ export default function LayersPanel({
                 ${isDragging ? 'opacity-50' : ''}
                 ${isDropTarget ? 'border-t-2 border-t-accent' : ''}
               `}
+              style={{ paddingLeft: 12 + groupAncestors(layers, layer).length * 16 }}
             >
               {/* Visibility Toggle */}
               <button
@@ -186,20 +314,65 @@ export default function LayersPanel({
                 <i className={`fas ${layer.locked ? 'fa-lock' : 'fa-lock-open'} text-[10px]`} />
               </button>
 
-              {/* Thumbnail */}
-              <div className="w-10 h-10 bg-slate-800 rounded border border-white/10 overflow-hidden flex-shrink-0 shadow-inner">
-                {layer.thumbnail || layer.content ? (
-                  <img
-                    src={layer.thumbnail || layer.content}
-                    alt={layer.name}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center text-slate-600">
-                    <i className="fas fa-image text-xs" />
-                  </div>
-                )}
-              </div>
+              {/* Group folder: click to collapse or expand */}
+              {layer.isGroup ? (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onLayerUpdate(layer.id, { isExpanded: layer.isExpanded === false });
+                  }}
+                  className="w-10 h-10 flex items-center justify-center gap-1 flex-shrink-0 text-slate-400 hover:text-white"
+                  title={layer.isExpanded === false ? 'Expand group' : 'Collapse group'}
+                >
+                  <i className={`fas ${layer.isExpanded === false ? 'fa-caret-right' : 'fa-caret-down'} text-[10px]`} />
+                  <i className={`fas ${layer.isExpanded === false ? 'fa-folder' : 'fa-folder-open'} text-sm`} />
+                </button>
+              ) : (
+                <div
+                  onClick={() => onEditMaskChange?.(false)}
+                  className={`w-10 h-10 bg-slate-800 rounded border overflow-hidden flex-shrink-0 shadow-inner ${
+                    isSelected && layer.mask && !editingMask ? 'border-white' : 'border-white/10'
+                  }`}
+                >
+                  {layer.thumbnail || layer.content ? (
+                    <img
+                      src={layer.thumbnail || layer.content}
+                      alt={layer.name}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-slate-600">
+                      <i className="fas fa-image text-xs" />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Mask thumbnail: click to paint the mask, shift-click to switch it off and on */}
+              {layer.mask && (
+                <div
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (e.shiftKey) {
+                      onMaskUpdate?.(layer.id, { enabled: !layer.mask!.enabled });
+                      return;
+                    }
+                    onLayerSelect(layer.id);
+                    onEditMaskChange?.(true);
+                  }}
+                  className={`relative w-10 h-10 rounded border overflow-hidden flex-shrink-0 ${
+                    isSelected && editingMask ? 'border-white' : 'border-white/10'
+                  }`}
+                  title="Layer Mask"
+                >
+                  <MaskThumbnail mask={layer.mask} />
+                  {!layer.mask.enabled && (
+                    <div className="absolute inset-0 flex items-center justify-center text-red-500">
+                      <i className="fas fa-xmark text-lg" />
+                    </div>
+                  )}
+                </div>
+              )}
 
               {/* Layer Info */}
               <div className="flex-1 min-w-0">
@@ -259,6 +432,14 @@ export default function LayersPanel({
         >
           <i className="fas fa-clone text-[9px]" />
         </button>
+        <button
+          className="w-7 h-7 rounded bg-white/5 hover:bg-white/10 flex items-center justify-center text-slate-400 hover:text-white disabled:opacity-30"
+          onClick={(e) => selectedLayer && onMaskAdd?.(selectedLayer.id, e.altKey)}
+          disabled={!selectedLayer || !!selectedLayer.mask}
+          title="Add Layer Mask (Alt: hide all)"
+        >
+          <i className="fas fa-circle-dot text-[9px]" />
+        </button>
         <button
           className="w-7 h-7 rounded bg-white/5 hover:bg-white/10 flex items-center justify-center text-slate-400 hover:text-white"
           title="Create Group"
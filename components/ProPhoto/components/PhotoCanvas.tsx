@@ -1,8 +1,68 @@
-import React, { useRef, useEffect, useCallback, useState } from 'react';
+import React, { useRef, useEffect, useCallback, useState, useImperativeHandle, useMemo } from 'react';
 import { useFabricCanvas } from '../hooks/useFabricCanvas';
-import { useBrushEngine } from '../hooks/useBrushEngine';
-import type { PhotoLayerExtended, PhotoTool, BrushPreset, BrushStroke, CanvasState } from '../types';
-import { DEFAULT_BRUSH_PRESET } from '../types';
+import type { LayerGeometry } from '../hooks/useFabricCanvas';
+import { useBrushEngine, renderBrushStroke } from '../hooks/useBrushEngine';
+import { useSelection } from '../hooks/useSelection';
+import { useRetouch, RETOUCH_LABELS, SOURCE_TOOLS } from '../hooks/useRetouch';
+import type {
+  PhotoLayerExtended,
+  PhotoTool,
+  BrushPreset,
+  BrushStroke,
+  CanvasState,
+  LayerMask,
+  RetouchOptions,
+  RetouchTool,
+  Selection,
+  SelectionMask,
+  SelectionOptions,
+} from '../types';
+import { DEFAULT_BRUSH_PRESET, DEFAULT_RETOUCH_OPTIONS, DEFAULT_SELECTION_OPTIONS } from '../types';
+import type { Histogram } from '../utils/colorAdjustments';
+import { computeHistogram } from '../utils/colorAdjustments';
+import { resolveGroups } from '../utils/layerGroups';
+import type { MaskSource } from '../utils/layerMask';
+import {
+  applyMaskToPixels,
+  fillMaskData,
+  maskCoverage,
+  maskFromGrayPixels,
+  maskPaintColor,
+  maskToGrayPixels,
+  maskTransform,
+} from '../utils/layerMask';
+import type { RenderedLayer } from '../utils/psdDocument';
+import type { AffineMatrix, PixelBuffer } from '../utils/selectionMask';
+import {
+  blendSelection,
+  deleteSelection as deleteSelectedPixels,
+  fillSelection as fillSelectedPixels,
+  maskOutline,
+  maskToLayerSpace,
+} from '../utils/selectionMask';
+
+export interface PhotoCanvasHandle {
+  selectAll: () => void;
+  deselect: () => void;
+  invertSelection: () => void;
+  featherSelection: (radius: number) => void;
+  expandSelection: (amount: number) => void;
+  contractSelection: (amount: number) => void;
+  /** Pixel operations on a layer; each resolves with the layer's new content, or null when nothing changed */
+  fillSelection: (layerId: string, color: string) => Promise<string | null>;
+  deleteSelection: (layerId: string) => Promise<string | null>;
+  applyFiltersToSelection: (layerId: string) => Promise<string | null>;
+  /** Layer mask bitmaps sized to the layer's pixels, null when the source is unavailable */
+  createMaskData: (layerId: string, source: MaskSource) => SelectionMask | null;
+  /** The layer's mask with its placement frozen (unlinked) or folded back into the layer (linked) */
+  setMaskLinked: (layerId: string, linked: boolean) => LayerMask | null;
+  /** Bake the mask into the layer's alpha */
+  applyLayerMask: (layerId: string) => Promise<string | null>;
+  /** Use the selected area of the image (or all of it) as the pattern stamp's pattern */
+  definePattern: () => boolean;
+  /** The composite plus every pixel layer drawn on its own, for writing layered files */
+  renderDocument: () => { composite: ImageData; layers: Map<string, RenderedLayer> } | null;
+}
 
 interface PhotoCanvasProps {
   layers: PhotoLayerExtended[];
@@ -18,9 +78,48 @@ interface PhotoCanvasProps {
   onBrushStroke: (stroke: BrushStroke) => void;
   onCanvasReady?: (state: CanvasState) => void;
   onZoomChange?: (zoom: number) => void;
+  selectionOptions?: SelectionOptions;
+  onPixelSelectionChange?: (selection: Selection | null) => void;
+  onHistogramChange?: (histogram: Histogram) => void;
+  /** Paint into the active layer's mask instead of its pixels */
+  editingMask?: boolean;
+  onMaskPaint?: (layerId: string, data: SelectionMask) => void;
+  retouchOptions?: RetouchOptions;
+  /** Layer states the history brush restores */
+  historyLayers?: PhotoLayerExtended[];
+  /** A retouching stroke changed a layer's pixels */
+  onPixelEdit?: (layerId: string, content: string, description: string) => void;
+  ref?: React.Ref<PhotoCanvasHandle>;
 }
 
-const DRAWING_TOOLS: PhotoTool[] = ['brush', 'pencil', 'eraser', 'clone', 'mixer'];
+const DRAWING_TOOLS: PhotoTool[] = [
+  'brush',
+  'pencil',
+  'eraser',
+  'mixer',
+  'clone',
+  'healingBrush',
+  'patternStamp',
+  'historyBrush',
+  'dodge',
+  'burn',
+  'sponge',
+  'smudge',
+];
+
+// Marching ants: dash length in screen pixels and animation interval
+const ANTS_DASH = 4;
+const ANTS_INTERVAL = 120;
+
+// Delay after the last render before the histogram is recomputed
+const HISTOGRAM_DELAY = 250;
+
+// Maps layer pixels onto mask pixels; the grids differ once an unlinked mask's layer moves
+function layerToMaskMatrix(mask: LayerMask, geometry: LayerGeometry): AffineMatrix {
+  const toDocument = maskTransform(mask, geometry.width, geometry.height, geometry.transform);
+  const { a, b, c, d, e, f } = new DOMMatrix(toDocument).inverse().multiply(new DOMMatrix(geometry.transform));
+  return [a, b, c, d, e, f];
+}
 
 export default function PhotoCanvas({
   layers,
@@ -36,15 +135,29 @@ export default function PhotoCanvas({
   onBrushStroke,
   onCanvasReady,
   onZoomChange,
+  selectionOptions = DEFAULT_SELECTION_OPTIONS,
+  onPixelSelectionChange,
+  onHistogramChange,
+  editingMask = false,
+  onMaskPaint,
+  retouchOptions = DEFAULT_RETOUCH_OPTIONS,
+  historyLayers,
+  onPixelEdit,
+  ref,
 }: PhotoCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const drawingOverlayRef = useRef<HTMLCanvasElement>(null);
+  const selectionOverlayRef = useRef<HTMLCanvasElement>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [spacePressed, setSpacePressed] = useState(false);
 
   // Get active layer for drawing
   const activeLayer = layers.find(l => selectedLayerIds.includes(l.id)) || null;
+  const maskLayer = editingMask && activeLayer?.mask ? activeLayer : null;
+
+  // Masks take the grey of the foreground colour; erasing paints the background colour
+  const maskColor = maskPaintColor(activeTool === 'eraser' ? secondaryColor : primaryColor);
 
   // Initialize Fabric.js canvas
   const {
@@ -52,12 +165,20 @@ export default function PhotoCanvas({
     isReady,
     canvasState,
     addImageLayer,
+    addAdjustmentLayer,
     removeLayer,
     updateLayer: updateFabricLayer,
     setZoom,
     setPan,
     fitToView,
     centerCanvas,
+    toScenePoint,
+    getDocumentPixels,
+    getLayerGeometry,
+    getLayerPixels,
+    putLayerPixels,
+    getContentPixels,
+    renderLayer,
   } = useFabricCanvas({
     containerRef: containerRef as React.RefObject<HTMLDivElement>,
     onSelectionChange,
@@ -67,6 +188,51 @@ export default function PhotoCanvas({
     },
   });
 
+  // Replay a finished stroke into a layer's mask
+  const paintLayerMask = useCallback((layer: PhotoLayerExtended, stroke: BrushStroke) => {
+    const geometry = getLayerGeometry(layer.id);
+    const vpt = canvas?.viewportTransform;
+    if (!layer.mask || !geometry || !vpt) return;
+
+    const data = layer.mask.data ?? fillMaskData('revealAll', geometry.width, geometry.height);
+    const scratch = document.createElement('canvas');
+    scratch.width = data.width;
+    scratch.height = data.height;
+    const ctx = scratch.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.putImageData(new ImageData(maskToGrayPixels(data), data.width, data.height), 0, 0);
+
+    // Stroke points are in container coordinates; map them onto the mask's pixels
+    const toDocument = maskTransform(layer.mask, geometry.width, geometry.height, geometry.transform);
+    ctx.setTransform(new DOMMatrix(vpt).multiply(new DOMMatrix(toDocument)).inverse());
+    renderBrushStroke(ctx, stroke);
+
+    onMaskPaint?.(layer.id, maskFromGrayPixels(ctx.getImageData(0, 0, data.width, data.height)));
+  }, [canvas, getLayerGeometry, onMaskPaint]);
+
+  // Retouching tools edit the layer's pixels from the finished stroke
+  const {
+    isRetouchTool,
+    sourcePoint,
+    setSourcePoint,
+    definePattern,
+    retouch,
+  } = useRetouch({
+    canvas,
+    activeTool,
+    options: retouchOptions,
+    historyLayers,
+    getLayerPixels,
+    getDocumentPixels,
+    getContentPixels,
+  });
+
+  const retouchLayer = useCallback(async (layerId: string, stroke: BrushStroke) => {
+    const image = await retouch(layerId, stroke);
+    const content = image && await putLayerPixels(layerId, image);
+    if (content) onPixelEdit?.(layerId, content, RETOUCH_LABELS[activeTool as RetouchTool]);
+  }, [retouch, putLayerPixels, onPixelEdit, activeTool]);
+
   // Initialize brush engine
   const {
     isDrawing,
@@ -80,15 +246,142 @@ export default function PhotoCanvas({
     canvas,
     activeLayer,
     brushPreset: brushPreset || DEFAULT_BRUSH_PRESET,
-    primaryColor,
+    primaryColor: maskLayer ? maskColor : primaryColor,
     secondaryColor,
     blendMode: 'normal',
     onStrokeEnd: (stroke) => {
-      onBrushStroke(stroke);
+      if (isRetouchTool) {
+        void retouchLayer(stroke.layerId, stroke);
+      } else if (maskLayer) {
+        paintLayerMask(maskLayer, stroke);
+      } else {
+        onBrushStroke(stroke);
+      }
       clearDrawingCanvas();
     },
   });
 
+  // Pixel selection
+  const getSampleImage = useCallback(() => {
+    return getDocumentPixels(selectionOptions.sampleAllLayers || !activeLayer ? undefined : [activeLayer.id]);
+  }, [getDocumentPixels, selectionOptions.sampleAllLayers, activeLayer]);
+
+  const {
+    selection,
+    previewPath,
+    isSelectionTool,
+    pointerDown: selectionPointerDown,
+    pointerMove: selectionPointerMove,
+    pointerUp: selectionPointerUp,
+    finishPath,
+    cancel: cancelSelectionGesture,
+    selectAll,
+    deselect,
+    invertSelection,
+    featherSelection,
+    expandSelection,
+    contractSelection,
+  } = useSelection({
+    width: canvasState.width,
+    height: canvasState.height,
+    activeTool,
+    options: selectionOptions,
+    getSampleImage,
+    onSelectionChange: onPixelSelectionChange,
+  });
+
+  // Run a pixel operation on a layer, limited to the selection
+  const editSelectedPixels = useCallback(async (
+    layerId: string,
+    edit: (image: ImageData, mask: ReturnType<typeof maskToLayerSpace>) => void
+  ): Promise<string | null> => {
+    const pixels = getLayerPixels(layerId);
+    if (!selection || !pixels) return null;
+
+    const mask = maskToLayerSpace(selection.mask, pixels.image.width, pixels.image.height, pixels.transform);
+    edit(pixels.image, mask);
+    return putLayerPixels(layerId, pixels.image);
+  }, [selection, getLayerPixels, putLayerPixels]);
+
+  useImperativeHandle(ref, () => ({
+    selectAll,
+    deselect,
+    invertSelection,
+    featherSelection,
+    expandSelection,
+    contractSelection,
+    fillSelection: (layerId, color) =>
+      editSelectedPixels(layerId, (image, mask) => fillSelectedPixels(image, mask, color)),
+    deleteSelection: (layerId) =>
+      editSelectedPixels(layerId, (image, mask) => deleteSelectedPixels(image, mask)),
+    applyFiltersToSelection: (layerId) => {
+      // Bake the layer's live filters into the selected pixels only
+      const filtered: PixelBuffer | undefined = getLayerPixels(layerId, true)?.image;
+      if (!filtered) return Promise.resolve(null);
+      return editSelectedPixels(layerId, (image, mask) => blendSelection(image, filtered, mask));
+    },
+    createMaskData: (layerId, source) => {
+      const geometry = getLayerGeometry(layerId);
+      if (!geometry) return null;
+      if (source !== 'selection') return fillMaskData(source, geometry.width, geometry.height);
+      return selection ? maskToLayerSpace(selection.mask, geometry.width, geometry.height, geometry.transform) : null;
+    },
+    setMaskLinked: (layerId, linked) => {
+      const mask = layers.find(l => l.id === layerId)?.mask;
+      const geometry = getLayerGeometry(layerId);
+      if (!mask || !geometry || mask.linked === linked) return null;
+
+      if (!linked) {
+        return { ...mask, linked, transform: maskTransform(mask, geometry.width, geometry.height, geometry.transform) };
+      }
+      // Resample onto the layer's grid so the mask stays where it is
+      const data = mask.data && maskToLayerSpace(mask.data, geometry.width, geometry.height, layerToMaskMatrix(mask, geometry));
+      return { ...mask, linked, transform: undefined, data };
+    },
+    applyLayerMask: (layerId) => {
+      const mask = layers.find(l => l.id === layerId)?.mask;
+      const geometry = getLayerGeometry(layerId);
+      const pixels = getLayerPixels(layerId);
+      if (!mask || !geometry || !pixels) return Promise.resolve(null);
+
+      // Applying bakes the mask in even while it is switched off
+      const coverage = maskCoverage({ ...mask, enabled: true });
+      if (!coverage) return Promise.resolve(null);
+
+      const layerMask = maskToLayerSpace(coverage, geometry.width, geometry.height, layerToMaskMatrix(mask, geometry));
+      applyMaskToPixels(pixels.image, layerMask);
+      return putLayerPixels(layerId, pixels.image);
+    },
+    definePattern: () => definePattern(selection?.bounds),
+    renderDocument: () => {
+      const composite = getDocumentPixels();
+      if (!composite) return null;
+
+      const rendered = new Map<string, RenderedLayer>();
+      layers.forEach(layer => {
+        const render = !layer.isGroup && layer.type !== 'adjustment' ? renderLayer(layer.id) : null;
+        if (render) rendered.set(layer.id, render);
+      });
+      return { composite, layers: rendered };
+    },
+  }), [
+    selectAll,
+    deselect,
+    invertSelection,
+    featherSelection,
+    expandSelection,
+    contractSelection,
+    editSelectedPixels,
+    selection,
+    layers,
+    getLayerGeometry,
+    getLayerPixels,
+    putLayerPixels,
+    definePattern,
+    getDocumentPixels,
+    renderLayer,
+  ]);
+
   // Assign drawing canvas ref
   useEffect(() => {
     if (drawingOverlayRef.current) {
@@ -100,26 +393,62 @@ export default function PhotoCanvas({
   useEffect(() => {
     if (!isReady || !canvas) return;
 
+    // Groups have no objects; their visibility and opacity carry over to their members
+    const drawnLayers = resolveGroups(layers);
+
     // Add new layers
-    layers.forEach(async (layer) => {
+    drawnLayers.forEach(async (layer) => {
       const existing = canvas.getObjects().find(o => o.get('layerId') === layer.id);
       if (!existing) {
-        await addImageLayer(layer);
+        if (layer.type === 'adjustment') {
+          addAdjustmentLayer(layer);
+        } else {
+          await addImageLayer(layer);
+        }
       } else {
-        // Update existing layer
-        updateFabricLayer(layer.id, layer);
+        // Update existing layer; mask is always passed so a removed mask clears the clip
+        updateFabricLayer(layer.id, { ...layer, mask: layer.mask });
       }
     });
 
     // Remove deleted layers
-    const layerIds = layers.map(l => l.id);
+    const layerIds = drawnLayers.map(l => l.id);
     canvas.getObjects().forEach(obj => {
       const id = obj.get('layerId') as string;
       if (id && !layerIds.includes(id)) {
         removeLayer(id);
       }
     });
-  }, [layers, isReady, canvas, addImageLayer, updateFabricLayer, removeLayer]);
+  }, [layers, isReady, canvas, addImageLayer, addAdjustmentLayer, updateFabricLayer, removeLayer]);
+
+  // Live histogram of the composited document, refreshed once rendering settles
+  useEffect(() => {
+    if (!isReady || !canvas || !onHistogramChange) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleHistogram = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const pixels = getDocumentPixels();
+        if (pixels) onHistogramChange(computeHistogram(pixels.data));
+      }, HISTOGRAM_DELAY);
+    };
+
+    canvas.on('after:render', scheduleHistogram);
+    scheduleHistogram();
+    return () => {
+      clearTimeout(timer);
+      canvas.off('after:render', scheduleHistogram);
+    };
+  }, [isReady, canvas, getDocumentPixels, onHistogramChange]);
+
+  // Selection tools draw over the image instead of picking Fabric objects
+  useEffect(() => {
+    if (!isReady || !canvas) return;
+    canvas.set({ selection: !isSelectionTool, skipTargetFind: isSelectionTool });
+    if (isSelectionTool) canvas.discardActiveObject();
+    canvas.requestRenderAll();
+  }, [isReady, canvas, isSelectionTool]);
 
   // Sync zoom
   useEffect(() => {
@@ -160,6 +489,13 @@ export default function PhotoCanvas({
       if (e.key === 'Escape' && isDrawing) {
         cancelStroke();
       }
+
+      // Close or abandon an open lasso
+      if (e.key === 'Escape') {
+        cancelSelectionGesture();
+      } else if (e.key === 'Enter') {
+        finishPath();
+      }
     };
 
     const handleKeyUp = (e: KeyboardEvent) => {
@@ -175,7 +511,7 @@ export default function PhotoCanvas({
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [zoom, spacePressed, isDrawing, cancelStroke, centerCanvas, fitToView, onZoomChange]);
+  }, [zoom, spacePressed, isDrawing, cancelStroke, cancelSelectionGesture, finishPath, centerCanvas, fitToView, onZoomChange]);
 
   // Determine if drawing mode is active
   const isDrawingMode = DRAWING_TOOLS.includes(activeTool);
@@ -196,12 +532,25 @@ export default function PhotoCanvas({
       return;
     }
 
+    // Selection tools
+    if (isSelectionTool) {
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+      selectionPointerDown(toScenePoint(x, y), { shiftKey: e.shiftKey, altKey: e.altKey });
+      return;
+    }
+
+    // Alt-click sets where clone and heal sample from
+    if (SOURCE_TOOLS.includes(activeTool) && e.altKey) {
+      setSourcePoint(toScenePoint(x, y));
+      return;
+    }
+
     // Drawing tools
     if (isDrawingMode && activeLayer && !activeLayer.locked) {
       (e.target as HTMLElement).setPointerCapture(e.pointerId);
       startStroke(x, y, pressure, e.tiltX, e.tiltY);
     }
-  }, [spacePressed, activeTool, isDrawingMode, activeLayer, startStroke]);
+  }, [spacePressed, activeTool, isSelectionTool, isDrawingMode, activeLayer, startStroke, selectionPointerDown, setSourcePoint, toScenePoint]);
 
   const handlePointerMove = useCallback((e: React.PointerEvent) => {
     const rect = containerRef.current?.getBoundingClientRect();
@@ -220,11 +569,16 @@ export default function PhotoCanvas({
       return;
     }
 
+    if (isSelectionTool) {
+      selectionPointerMove(toScenePoint(x, y));
+      return;
+    }
+
     // Drawing
     if (isDrawing) {
       continueStroke(x, y, pressure, e.tiltX, e.tiltY);
     }
-  }, [isPanning, panStart, canvasState.panX, canvasState.panY, isDrawing, continueStroke, setPan]);
+  }, [isPanning, panStart, canvasState.panX, canvasState.panY, isDrawing, isSelectionTool, continueStroke, setPan, selectionPointerMove, toScenePoint]);
 
   const handlePointerUp = useCallback((e: React.PointerEvent) => {
     (e.target as HTMLElement).releasePointerCapture(e.pointerId);
@@ -234,10 +588,16 @@ export default function PhotoCanvas({
       return;
     }
 
+    if (isSelectionTool) {
+      const rect = containerRef.current?.getBoundingClientRect();
+      if (rect) selectionPointerUp(toScenePoint(e.clientX - rect.left, e.clientY - rect.top));
+      return;
+    }
+
     if (isDrawing) {
       endStroke();
     }
-  }, [isPanning, isDrawing, endStroke]);
+  }, [isPanning, isDrawing, isSelectionTool, endStroke, selectionPointerUp, toScenePoint]);
 
   const handlePointerLeave = useCallback(() => {
     if (isDrawing) {
@@ -287,13 +647,78 @@ export default function PhotoCanvas({
     return () => resizeObserver.disconnect();
   }, []);
 
+  // Outline segments of the current selection, in document pixels
+  const selectionOutline = useMemo(() => (selection ? maskOutline(selection.mask) : []), [selection]);
+
+  // Draw marching ants and the shape being drawn on the selection overlay
+  useEffect(() => {
+    const overlay = selectionOverlayRef.current;
+    const container = containerRef.current;
+    if (!overlay || !container || !canvas) return;
+
+    let phase = 0;
+    const draw = () => {
+      const ctx = overlay.getContext('2d');
+      const vpt = canvas.viewportTransform;
+      if (!ctx) return;
+
+      const dpr = window.devicePixelRatio || 1;
+      const width = container.clientWidth * dpr;
+      const height = container.clientHeight * dpr;
+      if (overlay.width !== width || overlay.height !== height) {
+        overlay.width = width;
+        overlay.height = height;
+      }
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      if (selectionOutline.length === 0 && previewPath.length === 0) return;
+
+      const scale = vpt[0] * dpr;
+      ctx.setTransform(scale, vpt[1] * dpr, vpt[2] * dpr, vpt[3] * dpr, vpt[4] * dpr, vpt[5] * dpr);
+      ctx.lineWidth = 1 / scale;
+
+      const path = new Path2D();
+      for (let i = 0; i + 3 < selectionOutline.length; i += 4) {
+        path.moveTo(selectionOutline[i]!, selectionOutline[i + 1]!);
+        path.lineTo(selectionOutline[i + 2]!, selectionOutline[i + 3]!);
+      }
+      if (previewPath.length > 1) {
+        path.moveTo(previewPath[0]!.x, previewPath[0]!.y);
+        previewPath.slice(1).forEach(point => path.lineTo(point.x, point.y));
+      }
+
+      ctx.setLineDash([]);
+      ctx.strokeStyle = '#ffffff';
+      ctx.stroke(path);
+      ctx.setLineDash([ANTS_DASH / scale, ANTS_DASH / scale]);
+      ctx.lineDashOffset = -phase / scale;
+      ctx.strokeStyle = '#000000';
+      ctx.stroke(path);
+    };
+
+    draw();
+    const timer = window.setInterval(() => {
+      phase = (phase + 1) % (ANTS_DASH * 2);
+      draw();
+    }, ANTS_INTERVAL);
+
+    return () => window.clearInterval(timer);
+  }, [canvas, selectionOutline, previewPath, zoom, canvasState.panX, canvasState.panY]);
+
+  // Source point on screen; follows zoom and pan through re-renders
+  const vpt = canvas?.viewportTransform;
+  const sourceMarker = SOURCE_TOOLS.includes(activeTool) && sourcePoint && vpt
+    ? new DOMPoint(sourcePoint.x, sourcePoint.y).matrixTransform(new DOMMatrix(vpt))
+    : null;
+
   // Get cursor based on active tool
   const getCursor = () => {
     if (spacePressed || activeTool === 'hand') {
       return isPanning ? 'grabbing' : 'grab';
     }
     if (activeTool === 'zoom') return 'zoom-in';
-    if (isDrawingMode) return 'crosshair';
+    if (isDrawingMode || isSelectionTool) return 'crosshair';
     if (activeTool === 'eyedropper') return 'crosshair';
     if (activeTool === 'move') return 'move';
     return 'default';
@@ -308,6 +733,7 @@ export default function PhotoCanvas({
       onPointerMove={handlePointerMove}
       onPointerUp={handlePointerUp}
       onPointerLeave={handlePointerLeave}
+      onDoubleClick={finishPath}
       onWheel={handleWheel}
     >
       {/* Grid pattern overlay */}
@@ -326,15 +752,37 @@ export default function PhotoCanvas({
         ref={drawingOverlayRef}
         className="absolute inset-0 pointer-events-none"
         style={{
-          mixBlendMode: activeTool === 'eraser' ? 'difference' : 'normal',
+          // Retouching strokes only show where they will land, not a colour
+          mixBlendMode: activeTool === 'eraser' || isRetouchTool ? 'difference' : 'normal',
         }}
       />
 
+      {/* Selection overlay (marching ants) */}
+      <canvas
+        ref={selectionOverlayRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+      />
+
+      {/* Clone and heal source point */}
+      {sourceMarker && (
+        <div
+          className="absolute pointer-events-none -translate-x-1/2 -translate-y-1/2 text-white mix-blend-difference"
+          style={{ left: sourceMarker.x, top: sourceMarker.y }}
+        >
+          <i className="fa-solid fa-crosshairs" />
+        </div>
+      )}
+
       {/* Canvas info overlay */}
       <div className="absolute bottom-4 left-4 flex items-center gap-4 text-[10px] font-mono text-slate-500">
         <span>{Math.round(zoom * 100)}%</span>
         <span>{canvasState.width} × {canvasState.height}</span>
         {isDrawing && <span className="text-accent">Drawing...</span>}
+        {maskLayer && <span>Editing mask</span>}
+        {SOURCE_TOOLS.includes(activeTool) && !sourcePoint && <span>Alt-click to set a source</span>}
+        {selection && (
+          <span>Selection {selection.bounds.width} × {selection.bounds.height}</span>
+        )}
       </div>
 
       {/* Loading state */}
@@ -0,0 +1,120 @@
+import type { PhotoTool, RetouchOptions, TonalRange } from '../types';
+
+interface RetouchOptionsBarProps {
+  activeTool: PhotoTool;
+  options: RetouchOptions;
+  hasPattern: boolean;
+  onOptionsChange: (options: RetouchOptions) => void;
+  onDefinePattern: () => void;
+  className?: string;
+}
+
+const RANGES: Array<{ id: TonalRange; label: string }> = [
+  { id: 'shadows', label: 'Shadows' },
+  { id: 'midtones', label: 'Midtones' },
+  { id: 'highlights', label: 'Highlights' },
+];
+
+export default function RetouchOptionsBar({
+  activeTool,
+  options,
+  hasPattern,
+  onOptionsChange,
+  onDefinePattern,
+  className = '',
+}: RetouchOptionsBarProps) {
+  const update = (updates: Partial<RetouchOptions>) => onOptionsChange({ ...options, ...updates });
+
+  const labelClass = 'flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wide text-slate-500';
+  const fieldClass = 'bg-black/20 border border-white/5 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-300 outline-none focus:ring-1 focus:ring-accent';
+  const actionClass = 'px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-[9px] font-bold uppercase text-slate-400 hover:text-white disabled:opacity-30';
+
+  const renderPercent = (label: string, value: number, onChange: (value: number) => void) => (
+    <label className={labelClass}>
+      {label}
+      <input
+        type="number"
+        min={1}
+        max={100}
+        value={value}
+        onChange={(e) => onChange(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+        className={`w-12 ${fieldClass}`}
+      />
+      %
+    </label>
+  );
+
+  const renderCheckbox = (label: string, checked: boolean, onChange: (checked: boolean) => void) => (
+    <label className={labelClass}>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-accent" />
+      {label}
+    </label>
+  );
+
+  const isSourceTool = activeTool === 'clone' || activeTool === 'healingBrush';
+
+  return (
+    <div className={`h-9 bg-[#2D2D30] border-b border-black/20 flex items-center px-4 gap-4 ${className}`}>
+      {isSourceTool && (
+        <>
+          {renderCheckbox('Aligned', options.aligned, (aligned) => update({ aligned }))}
+          {renderCheckbox('All layers', options.sampleAllLayers, (sampleAllLayers) => update({ sampleAllLayers }))}
+          <span className="text-[9px] text-slate-600">Alt-click to set the source</span>
+        </>
+      )}
+
+      {activeTool === 'patternStamp' && (
+        <>
+          <span className={labelClass}>
+            Pattern
+            <span className="font-mono normal-case text-slate-400">{hasPattern ? 'Defined' : 'None'}</span>
+          </span>
+          <button onClick={onDefinePattern} className={actionClass} title="Use the selection, or the whole image, as the pattern">
+            Define Pattern
+          </button>
+        </>
+      )}
+
+      {activeTool === 'historyBrush' && (
+        <span className="text-[9px] text-slate-600">Paints back the layer as it was when opened</span>
+      )}
+
+      {(activeTool === 'dodge' || activeTool === 'burn') && (
+        <>
+          <label className={labelClass}>
+            Range
+            <select
+              value={options.range}
+              onChange={(e) => update({ range: e.target.value as TonalRange })}
+              className={fieldClass}
+            >
+              {RANGES.map(range => (
+                <option key={range.id} value={range.id}>{range.label}</option>
+              ))}
+            </select>
+          </label>
+          {renderPercent('Exposure', options.exposure, (exposure) => update({ exposure }))}
+        </>
+      )}
+
+      {activeTool === 'sponge' && (
+        <>
+          <label className={labelClass}>
+            Mode
+            <select
+              value={options.spongeMode}
+              onChange={(e) => update({ spongeMode: e.target.value as RetouchOptions['spongeMode'] })}
+              className={fieldClass}
+            >
+              <option value="desaturate">Desaturate</option>
+              <option value="saturate">Saturate</option>
+            </select>
+          </label>
+          {renderPercent('Flow', options.spongeFlow, (spongeFlow) => update({ spongeFlow }))}
+        </>
+      )}
+
+      {activeTool === 'smudge' && renderPercent('Strength', options.smudgeStrength, (smudgeStrength) => update({ smudgeStrength }))}
+    </div>
+  );
+}
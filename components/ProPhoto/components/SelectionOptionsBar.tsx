@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import type { PhotoTool, SelectionMode, SelectionOptions } from '../types';
+
+interface SelectionOptionsBarProps {
+  activeTool: PhotoTool;
+  options: SelectionOptions;
+  hasSelection: boolean;
+  onOptionsChange: (options: SelectionOptions) => void;
+  onSelectAll: () => void;
+  onDeselect: () => void;
+  onInvert: () => void;
+  onFeather: (radius: number) => void;
+  onExpand: (amount: number) => void;
+  onContract: (amount: number) => void;
+  onFill: () => void;
+  onDelete: () => void;
+  className?: string;
+}
+
+const MODES: Array<{ id: SelectionMode; icon: string; label: string }> = [
+  { id: 'replace', icon: 'fa-square', label: 'New selection' },
+  { id: 'add', icon: 'fa-square-plus', label: 'Add to selection (Shift)' },
+  { id: 'subtract', icon: 'fa-square-minus', label: 'Subtract from selection (Alt)' },
+  { id: 'intersect', icon: 'fa-object-ungroup', label: 'Intersect with selection (Shift+Alt)' },
+];
+
+export default function SelectionOptionsBar({
+  activeTool,
+  options,
+  hasSelection,
+  onOptionsChange,
+  onSelectAll,
+  onDeselect,
+  onInvert,
+  onFeather,
+  onExpand,
+  onContract,
+  onFill,
+  onDelete,
+  className = '',
+}: SelectionOptionsBarProps) {
+  const [refineAmount, setRefineAmount] = useState(4);
+
+  const update = (updates: Partial<SelectionOptions>) => onOptionsChange({ ...options, ...updates });
+
+  const showTolerance = activeTool === 'magicWand' || activeTool === 'quickSelect';
+
+  const renderNumber = (label: string, value: number, min: number, max: number, onChange: (value: number) => void) => (
+    <label className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wide text-slate-500">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, Math.min(max, Number(e.target.value) || 0)))}
+        className="w-12 bg-black/20 border border-white/5 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-300 outline-none focus:ring-1 focus:ring-accent"
+      />
+    </label>
+  );
+
+  const actionClass = 'px-2 py-1 rounded bg-white/5 hover:bg-white/10 text-[9px] font-bold uppercase text-slate-400 hover:text-white disabled:opacity-30';
+
+  return (
+    <div className={`h-9 bg-[#2D2D30] border-b border-black/20 flex items-center px-4 gap-4 ${className}`}>
+      {/* Combine mode */}
+      <div className="flex items-center gap-0.5">
+        {MODES.map((mode) => (
+          <button
+            key={mode.id}
+            onClick={() => update({ mode: mode.id })}
+            title={mode.label}
+            className={`
+              w-6 h-6 rounded flex items-center justify-center
+              ${options.mode === mode.id ? 'bg-accent/20 text-accent' : 'text-slate-500 hover:text-white hover:bg-white/5'}
+            `}
+          >
+            <i className={`fas ${mode.icon} text-[10px]`} />
+          </button>
+        ))}
+      </div>
+
+      <div className="h-5 w-px bg-white/10" />
+
+      {/* Tool options */}
+      {renderNumber('Feather', options.feather, 0, 250, (feather) => update({ feather }))}
+      {showTolerance && renderNumber('Tolerance', options.tolerance, 0, 255, (tolerance) => update({ tolerance }))}
+      {activeTool === 'quickSelect' && renderNumber('Size', options.brushSize, 1, 500, (brushSize) => update({ brushSize }))}
+      {activeTool === 'lassoMagnetic' && renderNumber('Width', options.edgeWidth, 1, 256, (edgeWidth) => update({ edgeWidth }))}
+      <label className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wide text-slate-500">
+        <input
+          type="checkbox"
+          checked={options.antiAlias}
+          onChange={(e) => update({ antiAlias: e.target.checked })}
+          className="accent-accent"
+        />
+        Anti-alias
+      </label>
+      {activeTool === 'magicWand' && (
+        <label className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wide text-slate-500">
+          <input
+            type="checkbox"
+            checked={options.contiguous}
+            onChange={(e) => update({ contiguous: e.target.checked })}
+            className="accent-accent"
+          />
+          Contiguous
+        </label>
+      )}
+      {showTolerance && (
+        <label className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wide text-slate-500">
+          <input
+            type="checkbox"
+            checked={options.sampleAllLayers}
+            onChange={(e) => update({ sampleAllLayers: e.target.checked })}
+            className="accent-accent"
+          />
+          All layers
+        </label>
+      )}
+
+      <div className="flex-1" />
+
+      {/* Selection commands */}
+      <div className="flex items-center gap-1">
+        <button onClick={onSelectAll} className={actionClass} title="Select all (Ctrl+A)">All</button>
+        <button onClick={onDeselect} disabled={!hasSelection} className={actionClass} title="Deselect (Ctrl+D)">None</button>
+        <button onClick={onInvert} className={actionClass} title="Invert (Ctrl+Shift+I)">Invert</button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          min={1}
+          max={250}
+          value={refineAmount}
+          onChange={(e) => setRefineAmount(Math.max(1, Math.min(250, Number(e.target.value) || 1)))}
+          className="w-12 bg-black/20 border border-white/5 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-300 outline-none focus:ring-1 focus:ring-accent"
+          title="Pixels"
+        />
+        <button onClick={() => onFeather(refineAmount)} disabled={!hasSelection} className={actionClass}>Feather</button>
+        <button onClick={() => onExpand(refineAmount)} disabled={!hasSelection} className={actionClass}>Expand</button>
+        <button onClick={() => onContract(refineAmount)} disabled={!hasSelection} className={actionClass}>Contract</button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button onClick={onFill} disabled={!hasSelection} className={actionClass} title="Fill with foreground color">Fill</button>
+        <button onClick={onDelete} disabled={!hasSelection} className={actionClass} title="Delete selected pixels (Del)">Delete</button>
+      </div>
+    </div>
+  );
+}
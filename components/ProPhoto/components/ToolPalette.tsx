@@ -12,9 +12,14 @@ interface ToolConfig {
 const TOOLS: ToolConfig[] = [
   // Selection Tools
   { id: 'move', icon: 'fa-arrows-up-down-left-right', label: 'Move', shortcut: 'V', group: 'selection' },
-  { id: 'select', icon: 'fa-mouse-pointer', label: 'Selection', shortcut: 'M', group: 'selection' },
+  { id: 'select', icon: 'fa-mouse-pointer', label: 'Select Layer', group: 'selection' },
+  { id: 'marqueeRect', icon: 'fa-vector-square', label: 'Rectangular Marquee', shortcut: 'M', group: 'selection' },
+  { id: 'marqueeEllipse', icon: 'fa-circle-notch', label: 'Elliptical Marquee', group: 'selection' },
   { id: 'lassoFree', icon: 'fa-draw-polygon', label: 'Lasso', shortcut: 'L', group: 'selection' },
+  { id: 'lassoPolygon', icon: 'fa-share-nodes', label: 'Polygonal Lasso', group: 'selection' },
+  { id: 'lassoMagnetic', icon: 'fa-magnet', label: 'Magnetic Lasso', group: 'selection' },
   { id: 'magicWand', icon: 'fa-wand-magic-sparkles', label: 'Magic Wand', shortcut: 'W', group: 'selection' },
+  { id: 'quickSelect', icon: 'fa-highlighter', label: 'Quick Selection', shortcut: 'Q', group: 'selection' },
 
   // Transform Tools
   { id: 'crop', icon: 'fa-crop-simple', label: 'Crop', shortcut: 'C', group: 'transform' },
@@ -27,10 +32,15 @@ const TOOLS: ToolConfig[] = [
 
   // Retouching Tools
   { id: 'clone', icon: 'fa-stamp', label: 'Clone Stamp', shortcut: 'S', group: 'retouch' },
+  { id: 'patternStamp', icon: 'fa-chess-board', label: 'Pattern Stamp', group: 'retouch' },
+  { id: 'healingBrush', icon: 'fa-bandage', label: 'Healing Brush', shortcut: 'J', group: 'retouch' },
+  { id: 'historyBrush', icon: 'fa-clock-rotate-left', label: 'History Brush', shortcut: 'Y', group: 'retouch' },
   { id: 'blur', icon: 'fa-droplet', label: 'Blur', group: 'retouch' },
   { id: 'sharpen', icon: 'fa-diamond', label: 'Sharpen', group: 'retouch' },
+  { id: 'smudge', icon: 'fa-hand-pointer', label: 'Smudge', group: 'retouch' },
   { id: 'dodge', icon: 'fa-sun', label: 'Dodge', shortcut: 'O', group: 'retouch' },
   { id: 'burn', icon: 'fa-fire', label: 'Burn', group: 'retouch' },
+  { id: 'sponge', icon: 'fa-soap', label: 'Sponge', group: 'retouch' },
 
   // Fill Tools
   { id: 'gradient', icon: 'fa-palette', label: 'Gradient', shortcut: 'G', group: 'fill' },
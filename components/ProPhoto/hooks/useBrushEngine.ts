@@ -2,6 +2,7 @@ import { useRef, useCallback, useState, useEffect } from 'react';
 import type { Canvas } from 'fabric';
 import type { BrushPreset, BrushPoint, BrushStroke, PhotoLayerExtended, ExtendedBlendMode } from '../types';
 import { DEFAULT_BRUSH_PRESET } from '../types';
+import { brushDynamics } from '../utils/brushPresets';
 
 interface UseBrushEngineOptions {
   canvas: Canvas | null;
@@ -35,6 +36,108 @@ interface UseBrushEngineReturn {
   clearDrawingCanvas: () => void;
 }
 
+// Draw a single brush dab
+function drawBrushDab(
+  ctx: CanvasRenderingContext2D,
+  brush: BrushPreset,
+  color: string,
+  x: number,
+  y: number,
+  pressure: number
+): void {
+  const props = brushDynamics(brush, pressure);
+  const radius = props.size / 2;
+
+  ctx.save();
+
+  // Create radial gradient for soft brushes
+  if (brush.type === 'soft' || brush.type === 'airbrush') {
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    const innerRadius = radius * (props.hardness / 100);
+
+    gradient.addColorStop(0, color);
+    gradient.addColorStop(innerRadius / radius || 0.01, color);
+    gradient.addColorStop(1, `${color}00`);
+
+    ctx.globalAlpha = props.opacity * props.flow;
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    // Hard brush
+    ctx.globalAlpha = props.opacity;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+
+    // Apply roundness
+    if (brush.roundness < 100) {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate((brush.angle * Math.PI) / 180);
+      ctx.scale(1, brush.roundness / 100);
+      ctx.arc(0, 0, radius, 0, Math.PI * 2);
+      ctx.restore();
+    } else {
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+    }
+
+    ctx.fill();
+  }
+
+  ctx.restore();
+}
+
+// Draw line between two points with proper spacing
+function drawBrushSegment(
+  ctx: CanvasRenderingContext2D,
+  brush: BrushPreset,
+  color: string,
+  from: BrushPoint,
+  to: BrushPoint
+): void {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.sqrt(dx * dx + dy * dy);
+
+  const spacing = brush.size * (brush.spacing / 100);
+  const steps = Math.max(1, Math.floor(distance / spacing));
+
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const x = from.x + dx * t;
+    const y = from.y + dy * t;
+    const pressure = from.pressure + (to.pressure - from.pressure) * t;
+
+    // Apply scattering
+    let finalX = x;
+    let finalY = y;
+    if (brush.scattering > 0) {
+      const scatter = (brush.scattering / 100) * brush.size;
+      finalX += (Math.random() - 0.5) * scatter;
+      finalY += (Math.random() - 0.5) * scatter;
+    }
+
+    drawBrushDab(ctx, brush, color, finalX, finalY, pressure);
+  }
+}
+
+/**
+ * Replay a finished stroke onto any context, e.g. to commit it to a layer or
+ * mask. Point coordinates are mapped through the context's current transform.
+ */
+export function renderBrushStroke(ctx: CanvasRenderingContext2D, stroke: BrushStroke): void {
+  const { brush, color } = stroke;
+  const [first, ...rest] = stroke.points;
+  if (!first) return;
+
+  drawBrushDab(ctx, brush, color, first.x, first.y, first.pressure);
+  rest.reduce((from, to) => {
+    drawBrushSegment(ctx, brush, color, from, to);
+    return to;
+  }, first);
+}
+
 export function useBrushEngine(options: UseBrushEngineOptions): UseBrushEngineReturn {
   const {
     // canvas is available for future use with Fabric.js brush integration
@@ -67,62 +170,10 @@ export function useBrushEngine(options: UseBrushEngineOptions): UseBrushEngineRe
     return drawCanvas.getContext('2d');
   }, []);
 
-  // Calculate brush properties based on pressure
-  const calculateBrushProperties = useCallback((pressure: number) => {
-    const { pressureSensitivity, size, opacity, hardness, flow } = brushPreset;
-
-    return {
-      size: pressureSensitivity.size ? size * pressure : size,
-      opacity: pressureSensitivity.opacity ? (opacity / 100) * pressure : opacity / 100,
-      hardness: pressureSensitivity.hardness ? hardness * pressure : hardness,
-      flow: pressureSensitivity.flow ? (flow / 100) * pressure : flow / 100,
-    };
-  }, [brushPreset]);
-
   // Draw a single brush dab
   const drawDab = useCallback((ctx: CanvasRenderingContext2D, x: number, y: number, pressure: number) => {
-    const props = calculateBrushProperties(pressure);
-    const radius = props.size / 2;
-
-    ctx.save();
-
-    // Create radial gradient for soft brushes
-    if (brushPreset.type === 'soft' || brushPreset.type === 'airbrush') {
-      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
-      const innerRadius = radius * (props.hardness / 100);
-
-      gradient.addColorStop(0, primaryColor);
-      gradient.addColorStop(innerRadius / radius || 0.01, primaryColor);
-      gradient.addColorStop(1, `${primaryColor}00`);
-
-      ctx.globalAlpha = props.opacity * props.flow;
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.arc(x, y, radius, 0, Math.PI * 2);
-      ctx.fill();
-    } else {
-      // Hard brush
-      ctx.globalAlpha = props.opacity;
-      ctx.fillStyle = primaryColor;
-      ctx.beginPath();
-
-      // Apply roundness
-      if (brushPreset.roundness < 100) {
-        ctx.save();
-        ctx.translate(x, y);
-        ctx.rotate((brushPreset.angle * Math.PI) / 180);
-        ctx.scale(1, brushPreset.roundness / 100);
-        ctx.arc(0, 0, radius, 0, Math.PI * 2);
-        ctx.restore();
-      } else {
-        ctx.arc(x, y, radius, 0, Math.PI * 2);
-      }
-
-      ctx.fill();
-    }
-
-    ctx.restore();
-  }, [brushPreset, primaryColor, calculateBrushProperties]);
+    drawBrushDab(ctx, brushPreset, primaryColor, x, y, pressure);
+  }, [brushPreset, primaryColor]);
 
   // Draw line between two points with proper spacing
   const drawLineBetweenPoints = useCallback((
@@ -130,31 +181,8 @@ export function useBrushEngine(options: UseBrushEngineOptions): UseBrushEngineRe
     from: BrushPoint,
     to: BrushPoint
   ) => {
-    const dx = to.x - from.x;
-    const dy = to.y - from.y;
-    const distance = Math.sqrt(dx * dx + dy * dy);
-
-    const spacing = brushPreset.size * (brushPreset.spacing / 100);
-    const steps = Math.max(1, Math.floor(distance / spacing));
-
-    for (let i = 0; i <= steps; i++) {
-      const t = i / steps;
-      const x = from.x + dx * t;
-      const y = from.y + dy * t;
-      const pressure = from.pressure + (to.pressure - from.pressure) * t;
-
-      // Apply scattering
-      let finalX = x;
-      let finalY = y;
-      if (brushPreset.scattering > 0) {
-        const scatter = (brushPreset.scattering / 100) * brushPreset.size;
-        finalX += (Math.random() - 0.5) * scatter;
-        finalY += (Math.random() - 0.5) * scatter;
-      }
-
-      drawDab(ctx, finalX, finalY, pressure);
-    }
-  }, [brushPreset, drawDab]);
+    drawBrushSegment(ctx, brushPreset, primaryColor, from, to);
+  }, [brushPreset, primaryColor]);
 
   // Start a new stroke
   const startStroke = useCallback((
@@ -1,6 +1,10 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { Canvas, FabricImage, FabricObject, Shadow, filters } from 'fabric';
-import type { PhotoLayerExtended, CanvasState, ExtendedBlendMode, ExtendedPhotoFilter } from '../types';
+import { Canvas, FabricImage, FabricObject, Shadow, filters, util } from 'fabric';
+import type { PhotoLayerExtended, CanvasState, ExtendedBlendMode, ExtendedPhotoFilter, LayerMask } from '../types';
+import type { AffineMatrix } from '../utils/selectionMask';
+import { AdjustmentLayerObject, ColorAdjustment, HighPass } from '../utils/adjustmentFilters';
+import { maskCoverage, maskFromGrayPixels, maskToAlphaPixels, maskToGrayPixels, maskTransform } from '../utils/layerMask';
+import type { RenderedLayer } from '../utils/psdDocument';
 
 interface UseFabricCanvasOptions {
   containerRef: React.RefObject<HTMLDivElement>;
@@ -18,6 +22,7 @@ interface UseFabricCanvasReturn {
   canvasState: CanvasState;
   // Layer operations
   addImageLayer: (layer: PhotoLayerExtended) => Promise<FabricObject | null>;
+  addAdjustmentLayer: (layer: PhotoLayerExtended) => FabricObject | null;
   removeLayer: (layerId: string) => void;
   updateLayer: (layerId: string, updates: Partial<PhotoLayerExtended>) => void;
   reorderLayers: (fromIndex: number, toIndex: number) => void;
@@ -39,6 +44,57 @@ interface UseFabricCanvasReturn {
   // State
   getCanvasDataUrl: () => string;
   setBackgroundColor: (color: string) => void;
+  // Pixels
+  toScenePoint: (x: number, y: number) => { x: number; y: number };
+  getDocumentPixels: (layerIds?: string[]) => ImageData | null;
+  getLayerGeometry: (layerId: string) => LayerGeometry | null;
+  getLayerPixels: (layerId: string, filtered?: boolean) => LayerPixels | null;
+  putLayerPixels: (layerId: string, image: ImageData) => Promise<string | null>;
+  getContentPixels: (content: string, width: number, height: number) => Promise<ImageData | null>;
+  renderLayer: (layerId: string) => RenderedLayer | null;
+}
+
+export interface LayerGeometry {
+  /** Size of the layer's own pixel grid */
+  width: number;
+  height: number;
+  /** Maps layer pixel coordinates to document coordinates */
+  transform: AffineMatrix;
+}
+
+export interface LayerPixels {
+  image: ImageData;
+  /** Maps layer pixel coordinates to document coordinates */
+  transform: AffineMatrix;
+}
+
+function createScratchCanvas(width: number, height: number): CanvasRenderingContext2D | null {
+  const el = document.createElement('canvas');
+  el.width = width;
+  el.height = height;
+  return el.getContext('2d', { willReadFrequently: true });
+}
+
+// Soft clip path that shows the object where its mask has coverage
+function createMaskClip(mask: LayerMask, width: number, height: number): FabricImage | null {
+  const coverage = maskCoverage(mask);
+  const ctx = coverage && createScratchCanvas(coverage.width, coverage.height);
+  if (!coverage || !ctx) return null;
+  ctx.putImageData(new ImageData(maskToAlphaPixels(coverage), coverage.width, coverage.height), 0, 0);
+
+  const clip = new FabricImage(ctx.canvas, { originX: 'center', originY: 'center', objectCaching: false });
+  if (!mask.linked && mask.transform) {
+    // Unlinked masks stay where they were in the document when the layer moves
+    clip.absolutePositioned = true;
+    util.applyTransformToObject(
+      clip,
+      util.multiplyTransformMatrices(mask.transform, [1, 0, 0, 1, coverage.width / 2, coverage.height / 2])
+    );
+  } else {
+    // Relative clip paths are centred on the object, in its unscaled units
+    clip.set({ left: 0, top: 0, scaleX: width / coverage.width, scaleY: height / coverage.height });
+  }
+  return clip;
 }
 
 // Map blend modes to Fabric.js globalCompositeOperation values
@@ -196,6 +252,14 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
     };
   }, [containerRef, onSelectionChange, onObjectModified, onCanvasReady]);
 
+  // Clip an object to its layer mask; rebuilt only when the mask changes
+  const applyLayerMask = useCallback((obj: FabricObject, mask: LayerMask | undefined) => {
+    if (obj.get('layerMask') === mask) return;
+
+    obj.set('layerMask', mask);
+    obj.set('clipPath', mask ? createMaskClip(mask, obj.width, obj.height) ?? undefined : undefined);
+  }, []);
+
   // Add image layer
   const addImageLayer = useCallback(async (layer: PhotoLayerExtended): Promise<FabricObject | null> => {
     const canvas = canvasRef.current;
@@ -225,6 +289,7 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
       // Store layer ID
       img.set('layerId', layer.id);
       img.set('layerName', layer.name);
+      applyLayerMask(img, layer.mask);
 
       // Apply shadow if effects include drop shadow
       const dropShadow = layer.effects?.find(e => e.type === 'dropShadow' && e.enabled);
@@ -246,7 +311,34 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
       console.error('Failed to add image layer:', error);
       return null;
     }
-  }, []);
+  }, [applyLayerMask]);
+
+  // Add an adjustment layer; it applies its filters to everything beneath it
+  const addAdjustmentLayer = useCallback((layer: PhotoLayerExtended): FabricObject | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+
+    const adjustment = new AdjustmentLayerObject({
+      left: layer.x,
+      top: layer.y,
+      width: layer.width,
+      height: layer.height,
+      angle: layer.rotation,
+      opacity: layer.opacity,
+      visible: layer.visible,
+      selectable: !layer.locked,
+      adjustments: layer.filters,
+    });
+
+    adjustment.set('layerId', layer.id);
+    adjustment.set('layerName', layer.name);
+    applyLayerMask(adjustment, layer.mask);
+
+    canvas.add(adjustment);
+    canvas.renderAll();
+
+    return adjustment;
+  }, [applyLayerMask]);
 
   // Remove layer
   const removeLayer = useCallback((layerId: string) => {
@@ -333,6 +425,19 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
             img.filters?.push(new filters.Pixelate({ blocksize: value }));
           }
           break;
+        case 'levels':
+        case 'curves':
+        case 'colorBalance':
+        case 'channelMixer':
+        case 'gradientMap':
+        case 'threshold':
+          img.filters?.push(new ColorAdjustment({ adjustment: filter }));
+          break;
+        case 'highPass':
+          if (value > 0) {
+            img.filters?.push(new HighPass({ radius: value }));
+          }
+          break;
       }
     });
 
@@ -372,14 +477,25 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
       obj.set('scaleY', updates.height / obj.height);
     }
 
+    // Pixels restored by undo or loaded from a project
+    if (updates.content && obj instanceof FabricImage && updates.content !== obj.getSrc()) {
+      void obj.setSrc(updates.content, { crossOrigin: 'anonymous' }).then(() => canvas.renderAll());
+    }
+
     // Apply filters if the object is an image and filters are provided
     if (updates.filters !== undefined && obj instanceof FabricImage) {
       applyFiltersToImage(obj, updates.filters);
     }
+    if (updates.filters !== undefined && obj instanceof AdjustmentLayerObject) {
+      obj.set('adjustments', updates.filters);
+    }
+    if ('mask' in updates) {
+      applyLayerMask(obj, updates.mask);
+    }
 
     obj.setCoords();
     canvas.renderAll();
-  }, [applyFiltersToImage]);
+  }, [applyFiltersToImage, applyLayerMask]);
 
   // Reorder layers
   const reorderLayers = useCallback((fromIndex: number, toIndex: number) => {
@@ -566,11 +682,141 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
     canvas.renderAll();
   }, []);
 
+  // Convert a point relative to the container into scene (document) coordinates
+  const toScenePoint = useCallback((x: number, y: number) => {
+    const canvas = canvasRef.current;
+    const vpt = canvas?.viewportTransform;
+    if (!vpt) return { x, y };
+
+    const inverse = util.invertTransform(vpt);
+    return {
+      x: inverse[0] * x + inverse[2] * y + inverse[4],
+      y: inverse[1] * x + inverse[3] * y + inverse[5],
+    };
+  }, []);
+
+  // Composite of the given layers (all visible layers by default) at document size
+  const getDocumentPixels = useCallback((layerIds?: string[]): ImageData | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+
+    const ctx = createScratchCanvas(canvasState.width, canvasState.height);
+    if (!ctx) return null;
+
+    canvas.getObjects().forEach(obj => {
+      if (!obj.visible) return;
+      if (layerIds && !layerIds.includes(obj.get('layerId') as string)) return;
+      obj.render(ctx);
+    });
+
+    return ctx.getImageData(0, 0, canvasState.width, canvasState.height);
+  }, [canvasState.width, canvasState.height]);
+
+  // Pixel grid of any layer and where it sits in the document
+  const getLayerGeometry = useCallback((layerId: string): LayerGeometry | null => {
+    const obj = getLayerObject(layerId);
+    if (!obj) return null;
+
+    const width = Math.round(obj.width);
+    const height = Math.round(obj.height);
+    if (!width || !height) return null;
+
+    // Object matrices are centred on the object; shift so (0, 0) is the top-left pixel
+    const [a, b, c, d, e, f] = obj.calcTransformMatrix();
+    return {
+      width,
+      height,
+      transform: [a, b, c, d, e - (a * width) / 2 - (c * height) / 2, f - (b * width) / 2 - (d * height) / 2],
+    };
+  }, [getLayerObject]);
+
+  // Source pixels of an image layer, before (default) or after its live filters
+  const getLayerPixels = useCallback((layerId: string, filtered = false): LayerPixels | null => {
+    const obj = getLayerObject(layerId);
+    const geometry = getLayerGeometry(layerId);
+    if (!(obj instanceof FabricImage) || !geometry) return null;
+
+    const { width, height, transform } = geometry;
+    const ctx = createScratchCanvas(width, height);
+    if (!ctx) return null;
+
+    ctx.drawImage(filtered ? obj.getElement() : obj._originalElement, 0, 0, width, height);
+    return { image: ctx.getImageData(0, 0, width, height), transform };
+  }, [getLayerObject, getLayerGeometry]);
+
+  // Replace an image layer's pixels; resolves with the new content as a data URL
+  const putLayerPixels = useCallback(async (layerId: string, image: ImageData): Promise<string | null> => {
+    const canvas = canvasRef.current;
+    const obj = getLayerObject(layerId);
+    if (!canvas || !(obj instanceof FabricImage)) return null;
+
+    const ctx = createScratchCanvas(image.width, image.height);
+    if (!ctx) return null;
+    ctx.putImageData(image, 0, 0);
+
+    const dataUrl = ctx.canvas.toDataURL('image/png');
+    await obj.setSrc(dataUrl);
+    canvas.renderAll();
+    return dataUrl;
+  }, [getLayerObject]);
+
+  // Decode layer content (e.g. from history) at the given pixel size
+  const getContentPixels = useCallback(async (content: string, width: number, height: number): Promise<ImageData | null> => {
+    const ctx = createScratchCanvas(width, height);
+    if (!ctx) return null;
+
+    const img = await util.loadImage(content, { crossOrigin: 'anonymous' });
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  }, []);
+
+  // A layer drawn into the document on its own, without its opacity, blend mode or mask
+  const renderLayer = useCallback((layerId: string): RenderedLayer | null => {
+    const obj = getLayerObject(layerId);
+    const geometry = getLayerGeometry(layerId);
+    if (!obj || !geometry) return null;
+
+    const bounds = obj.getBoundingRect();
+    const left = Math.max(0, Math.floor(bounds.left));
+    const top = Math.max(0, Math.floor(bounds.top));
+    const width = Math.min(canvasState.width, Math.ceil(bounds.left + bounds.width)) - left;
+    const height = Math.min(canvasState.height, Math.ceil(bounds.top + bounds.height)) - top;
+    const ctx = width > 0 && height > 0 ? createScratchCanvas(width, height) : null;
+    if (!ctx) return null;
+
+    const saved = {
+      opacity: obj.opacity,
+      visible: obj.visible,
+      clipPath: obj.clipPath,
+      globalCompositeOperation: obj.globalCompositeOperation,
+    };
+    obj.set({ opacity: 1, visible: true, clipPath: undefined, globalCompositeOperation: 'source-over' });
+    ctx.translate(-left, -top);
+    obj.render(ctx);
+    obj.set(saved);
+    const pixels = ctx.getImageData(0, 0, width, height);
+
+    const layerMask = obj.get('layerMask') as LayerMask | undefined;
+    const maskCtx = layerMask?.data && createScratchCanvas(layerMask.data.width, layerMask.data.height);
+    if (!layerMask?.data || !maskCtx) return { left, top, pixels };
+
+    // Resample the mask onto the same document area; outside its bitmap the mask reveals
+    maskCtx.putImageData(new ImageData(maskToGrayPixels(layerMask.data), layerMask.data.width, layerMask.data.height), 0, 0);
+    const [a, b, c, d, e, f] = maskTransform(layerMask, geometry.width, geometry.height, geometry.transform);
+    ctx.resetTransform();
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.setTransform(a, b, c, d, e - left, f - top);
+    ctx.drawImage(maskCtx.canvas, 0, 0);
+    return { left, top, pixels, mask: maskFromGrayPixels(ctx.getImageData(0, 0, width, height)) };
+  }, [getLayerObject, getLayerGeometry, canvasState.width, canvasState.height]);
+
   return {
     canvas: canvasRef.current,
     isReady,
     canvasState,
     addImageLayer,
+    addAdjustmentLayer,
     removeLayer,
     updateLayer,
     reorderLayers,
@@ -588,5 +834,12 @@ export function useFabricCanvas(options: UseFabricCanvasOptions): UseFabricCanva
     importJSON,
     getCanvasDataUrl,
     setBackgroundColor,
+    toScenePoint,
+    getDocumentPixels,
+    getLayerGeometry,
+    getLayerPixels,
+    putLayerPixels,
+    getContentPixels,
+    renderLayer,
   };
 }
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { Canvas } from 'fabric';
-import type { HistorySnapshot, PhotoLayerExtended, HistoryState } from '../types';
+import type { HistorySnapshot, PhotoLayerExtended, HistoryState, LayerMask, SelectionMask } from '../types';
 
 interface UsePhotoHistoryOptions {
   canvas: Canvas | null;
@@ -9,6 +9,11 @@ interface UsePhotoHistoryOptions {
   onRestore?: (snapshot: HistorySnapshot) => void;
 }
 
+export interface PushStateOptions {
+  /** Record even if the layers look unchanged; the check only compares the start of each layer's content */
+  force?: boolean;
+}
+
 interface UsePhotoHistoryReturn {
   canUndo: boolean;
   canRedo: boolean;
@@ -17,7 +22,7 @@ interface UsePhotoHistoryReturn {
   // Actions
   undo: () => void;
   redo: () => void;
-  pushState: (description: string) => void;
+  pushState: (description: string, options?: PushStateOptions) => void;
   createCheckpoint: (name: string) => void;
   restoreToCheckpoint: (checkpointId: string) => void;
   clearHistory: () => void;
@@ -30,6 +35,21 @@ interface UsePhotoHistoryReturn {
 const MAX_HISTORY_SIZE = 50;
 const HISTORY_STORAGE_KEY = 'lumina_photo_history';
 
+// Mask bitmaps are never edited in place, so each instance gets a revision number for change detection
+const maskRevisions = new WeakMap<SelectionMask, number>();
+let lastMaskRevision = 0;
+
+function maskState(mask: LayerMask | undefined) {
+  if (!mask) return null;
+
+  let revision = mask.data && maskRevisions.get(mask.data);
+  if (mask.data && revision === undefined) {
+    revision = ++lastMaskRevision;
+    maskRevisions.set(mask.data, revision);
+  }
+  return { ...mask, data: revision };
+}
+
 export function usePhotoHistory(options: UsePhotoHistoryOptions): UsePhotoHistoryReturn {
   const {
     canvas,
@@ -69,14 +89,16 @@ export function usePhotoHistory(options: UsePhotoHistoryOptions): UsePhotoHistor
   }, [canvas]);
 
   // Push new state to history
-  const pushState = useCallback(async (description: string) => {
+  const pushState = useCallback(async (description: string, { force = false }: PushStateOptions = {}) => {
     if (isRestoringRef.current) return;
 
     const { canvasState, layerStates } = serializeState();
 
     // Check if state actually changed
-    const stateHash = JSON.stringify({ layers: layerStates.map(l => ({ id: l.id, content: l.content?.slice(0, 50) })) });
-    if (stateHash === lastLayerStateRef.current) {
+    const stateHash = JSON.stringify({
+      layers: layerStates.map(l => ({ id: l.id, content: l.content?.slice(0, 50), mask: maskState(l.mask) })),
+    });
+    if (!force && stateHash === lastLayerStateRef.current) {
       return; // No changes, don't add to history
     }
     lastLayerStateRef.current = stateHash;
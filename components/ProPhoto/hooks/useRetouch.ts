@@ -0,0 +1,221 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Canvas } from 'fabric';
+import type { BrushStroke, PhotoLayerExtended, PhotoTool, RetouchOptions, RetouchTool } from '../types';
+import type { LayerPixels } from './useFabricCanvas';
+import type { PushStateOptions } from './usePhotoHistory';
+import type { AffineMatrix, MaskPoint, PixelBuffer } from '../utils/selectionMask';
+import {
+  blendFromSource,
+  dodgeBurn,
+  healFromSource,
+  resamplePixels,
+  smudge,
+  sponge,
+  strokeCoverage,
+  strokeDabs,
+  transformStroke,
+} from '../utils/retouch';
+
+export const RETOUCH_TOOLS: PhotoTool[] = [
+  'clone',
+  'healingBrush',
+  'patternStamp',
+  'historyBrush',
+  'dodge',
+  'burn',
+  'sponge',
+  'smudge',
+];
+
+/** Tools that paint from an Alt-clicked source point */
+export const SOURCE_TOOLS: PhotoTool[] = ['clone', 'healingBrush'];
+
+/** History descriptions for each tool's strokes */
+export const RETOUCH_LABELS: Record<RetouchTool, string> = {
+  clone: 'Clone Stamp',
+  healingBrush: 'Healing Brush',
+  patternStamp: 'Pattern Stamp',
+  historyBrush: 'History Brush',
+  dodge: 'Dodge',
+  burn: 'Burn',
+  sponge: 'Sponge',
+  smudge: 'Smudge',
+};
+
+interface UseRetouchOptions {
+  canvas: Canvas | null;
+  activeTool: PhotoTool;
+  options: RetouchOptions;
+  /** Layer states the history brush paints back, e.g. the opening snapshot */
+  historyLayers?: PhotoLayerExtended[];
+  getLayerPixels: (layerId: string) => LayerPixels | null;
+  getDocumentPixels: () => ImageData | null;
+  getContentPixels: (content: string, width: number, height: number) => Promise<ImageData | null>;
+}
+
+interface UseRetouchReturn {
+  isRetouchTool: boolean;
+  /** Where clone and heal sample from, in document coordinates */
+  sourcePoint: MaskPoint | null;
+  setSourcePoint: (point: MaskPoint) => void;
+  hasPattern: boolean;
+  /** Capture the composite within the bounds (whole document by default) as the stamp pattern */
+  definePattern: (bounds?: { x: number; y: number; width: number; height: number }) => boolean;
+  /** Apply a finished stroke (container coordinates) to a layer; null when the tool has nothing to paint with */
+  retouch: (layerId: string, stroke: BrushStroke) => Promise<ImageData | null>;
+}
+
+function translate(x: number, y: number): DOMMatrix {
+  return new DOMMatrix([1, 0, 0, 1, x, y]);
+}
+
+function toAffine({ a, b, c, d, e, f }: DOMMatrix): AffineMatrix {
+  return [a, b, c, d, e, f];
+}
+
+export function useRetouch({
+  canvas,
+  activeTool,
+  options,
+  historyLayers,
+  getLayerPixels,
+  getDocumentPixels,
+  getContentPixels,
+}: UseRetouchOptions): UseRetouchReturn {
+  const [sourcePoint, setSourcePointState] = useState<MaskPoint | null>(null);
+  const [pattern, setPattern] = useState<PixelBuffer | null>(null);
+  // Aligned sampling keeps the offset from the first stroke after the source was set
+  const alignedOffsetRef = useRef<MaskPoint | null>(null);
+
+  const isRetouchTool = RETOUCH_TOOLS.includes(activeTool);
+
+  const setSourcePoint = useCallback((point: MaskPoint) => {
+    setSourcePointState(point);
+    alignedOffsetRef.current = null;
+  }, []);
+
+  const definePattern = useCallback((bounds?: { x: number; y: number; width: number; height: number }) => {
+    const composite = getDocumentPixels();
+    if (!composite) return false;
+
+    const { x, y, width, height } = bounds ?? { x: 0, y: 0, width: composite.width, height: composite.height };
+    if (width < 1 || height < 1) return false;
+
+    setPattern(resamplePixels(composite, width, height, [1, 0, 0, 1, x, y]));
+    return true;
+  }, [getDocumentPixels]);
+
+  // Offset from the stroke to the source, in document pixels
+  const sourceOffset = useCallback((start: MaskPoint): MaskPoint | null => {
+    if (!sourcePoint) return null;
+    if (options.aligned && alignedOffsetRef.current) return alignedOffsetRef.current;
+
+    const offset = { x: sourcePoint.x - start.x, y: sourcePoint.y - start.y };
+    if (options.aligned) alignedOffsetRef.current = offset;
+    return offset;
+  }, [sourcePoint, options.aligned]);
+
+  const retouch = useCallback(async (layerId: string, stroke: BrushStroke): Promise<ImageData | null> => {
+    const pixels = getLayerPixels(layerId);
+    const vpt = canvas?.viewportTransform;
+    const first = stroke.points[0];
+    if (!pixels || !vpt || !first || !isRetouchTool) return null;
+
+    const { image, transform } = pixels;
+    const { width, height } = image;
+    const layerToDocument = new DOMMatrix(transform);
+    const screenToDocument = new DOMMatrix(vpt).inverse();
+
+    const dabs = strokeDabs(transformStroke(stroke, toAffine(new DOMMatrix(vpt).multiply(layerToDocument).inverse())));
+    const coverage = strokeCoverage(width, height, dabs);
+    const tool = activeTool as RetouchTool;
+
+    switch (tool) {
+      case 'clone':
+      case 'healingBrush': {
+        const start = screenToDocument.transformPoint({ x: first.x, y: first.y });
+        const offset = sourceOffset(start);
+        if (!offset) return null;
+
+        // Layer pixels to the pixels of whatever is sampled
+        const toSource = translate(offset.x, offset.y).multiply(layerToDocument);
+        const composite = options.sampleAllLayers ? getDocumentPixels() : null;
+        if (options.sampleAllLayers && !composite) return null;
+        const source = composite
+          ? resamplePixels(composite, width, height, toAffine(toSource))
+          : resamplePixels(image, width, height, toAffine(layerToDocument.inverse().multiply(toSource)));
+
+        if (tool === 'clone') blendFromSource(image, source, coverage);
+        else healFromSource(image, source, coverage);
+        break;
+      }
+      case 'patternStamp': {
+        // Tiles line up with the document, not the stroke
+        if (!pattern) return null;
+        blendFromSource(image, resamplePixels(pattern, width, height, transform, true), coverage);
+        break;
+      }
+      case 'historyBrush': {
+        const content = historyLayers?.find(l => l.id === layerId)?.content;
+        const source = content ? await getContentPixels(content, width, height) : null;
+        if (!source) return null;
+        blendFromSource(image, source, coverage);
+        break;
+      }
+      case 'dodge':
+      case 'burn':
+        dodgeBurn(image, coverage, tool, options.range, options.exposure / 100);
+        break;
+      case 'sponge':
+        sponge(image, coverage, options.spongeMode, options.spongeFlow / 100);
+        break;
+      case 'smudge':
+        smudge(image, dabs, options.smudgeStrength / 100);
+        break;
+    }
+    return image;
+  }, [
+    canvas,
+    activeTool,
+    isRetouchTool,
+    options,
+    pattern,
+    historyLayers,
+    sourceOffset,
+    getLayerPixels,
+    getDocumentPixels,
+    getContentPixels,
+  ]);
+
+  return {
+    isRetouchTool,
+    sourcePoint,
+    setSourcePoint,
+    hasPattern: pattern !== null,
+    definePattern,
+    retouch,
+  };
+}
+
+/**
+ * History entries for retouch strokes. pushState snapshots the layers it was
+ * rendered with, so the entry waits until the stroke's layer update renders.
+ * Same-size edits share the start of their data URL, so the entry is forced.
+ */
+export function useRetouchHistory(
+  layers: PhotoLayerExtended[],
+  pushState: (description: string, options?: PushStateOptions) => void
+): (description: string) => void {
+  const pendingRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const description = pendingRef.current;
+    if (description === null) return;
+    pendingRef.current = null;
+    pushState(description, { force: true });
+  }, [layers, pushState]);
+
+  return useCallback((description: string) => {
+    pendingRef.current = description;
+  }, []);
+}
@@ -0,0 +1,350 @@
+import { useCallback, useRef, useState } from 'react';
+import type { PhotoTool, Selection, SelectionMask, SelectionMode, SelectionOptions } from '../types';
+import type { MaskPoint } from '../utils/selectionMask';
+import {
+  combineMasks,
+  contractMask,
+  edgeStrength,
+  ellipsePath,
+  expandMask,
+  featherMask,
+  invertMask,
+  magicWandMask,
+  maskBounds,
+  polygonMask,
+  quickSelectMask,
+  rectanglePath,
+  selectAllMask,
+  snapToEdge,
+  traceEdgePath,
+} from '../utils/selectionMask';
+
+export const SELECTION_TOOLS: PhotoTool[] = [
+  'marqueeRect',
+  'marqueeEllipse',
+  'lassoFree',
+  'lassoPolygon',
+  'lassoMagnetic',
+  'magicWand',
+  'quickSelect',
+];
+
+// Closing a polygon or magnetic lasso by clicking near its first point
+const CLOSE_DISTANCE = 6;
+// The magnetic lasso drops an anchor after this many pixels of traced path
+const MAGNETIC_ANCHOR_SPACING = 40;
+
+export interface SelectionModifiers {
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+interface UseSelectionOptions {
+  width: number;
+  height: number;
+  activeTool: PhotoTool;
+  options: SelectionOptions;
+  /** Document-space pixels the wand, quick select and magnetic lasso sample from */
+  getSampleImage: () => ImageData | null;
+  onSelectionChange?: (selection: Selection | null) => void;
+}
+
+interface UseSelectionReturn {
+  selection: Selection | null;
+  /** Outline of the shape being drawn, in document coordinates */
+  previewPath: MaskPoint[];
+  isSelecting: boolean;
+  isSelectionTool: boolean;
+  // Tool gestures (document coordinates)
+  pointerDown: (point: MaskPoint, modifiers: SelectionModifiers) => void;
+  pointerMove: (point: MaskPoint) => void;
+  pointerUp: (point: MaskPoint) => void;
+  finishPath: () => void;
+  cancel: () => void;
+  // Selection commands
+  selectAll: () => void;
+  deselect: () => void;
+  invertSelection: () => void;
+  featherSelection: (radius: number) => void;
+  expandSelection: (amount: number) => void;
+  contractSelection: (amount: number) => void;
+}
+
+interface Gesture {
+  tool: PhotoTool;
+  mode: SelectionMode;
+  start: MaskPoint;
+  points: MaskPoint[];
+  // Magnetic lasso
+  edges?: Float32Array;
+  anchors?: MaskPoint[];
+}
+
+// Shift adds, Alt subtracts and both intersect, as in Photoshop
+function resolveMode(modifiers: SelectionModifiers, fallback: SelectionMode): SelectionMode {
+  if (modifiers.shiftKey && modifiers.altKey) return 'intersect';
+  if (modifiers.shiftKey) return 'add';
+  if (modifiers.altKey) return 'subtract';
+  return fallback;
+}
+
+function distance(a: MaskPoint, b: MaskPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function useSelection(options: UseSelectionOptions): UseSelectionReturn {
+  const { width, height, activeTool, options: selectionOptions, getSampleImage, onSelectionChange } = options;
+
+  const [selection, setSelectionState] = useState<Selection | null>(null);
+  const [previewPath, setPreviewPath] = useState<MaskPoint[]>([]);
+  const selectionRef = useRef<Selection | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+
+  const isSelectionTool = SELECTION_TOOLS.includes(activeTool);
+
+  const updateSelection = useCallback((
+    mask: SelectionMask | null,
+    type: Selection['type'],
+    path: MaskPoint[] = [],
+    inverted = false
+  ) => {
+    const bounds = mask ? maskBounds(mask) : null;
+    const next: Selection | null = mask && bounds
+      ? {
+          id: `selection-${Date.now()}`,
+          type,
+          path,
+          mask,
+          bounds,
+          feather: selectionOptions.feather,
+          antiAlias: selectionOptions.antiAlias,
+          inverted,
+        }
+      : null;
+
+    selectionRef.current = next;
+    setSelectionState(next);
+    onSelectionChange?.(next);
+  }, [selectionOptions.feather, selectionOptions.antiAlias, onSelectionChange]);
+
+  // Merge a freshly drawn shape into the current selection
+  const commitShape = useCallback((shape: SelectionMask, type: Selection['type'], mode: SelectionMode, path: MaskPoint[] = []) => {
+    const feathered = selectionOptions.feather > 0 ? featherMask(shape, selectionOptions.feather) : shape;
+    const base = selectionRef.current?.mask ?? null;
+    const combined = combineMasks(base, feathered, mode);
+    updateSelection(combined, base && mode !== 'replace' ? 'combined' : type, path);
+  }, [selectionOptions.feather, updateSelection]);
+
+  const endGesture = useCallback(() => {
+    gestureRef.current = null;
+    setPreviewPath([]);
+  }, []);
+
+  const commitPolygon = useCallback((gesture: Gesture, type: Selection['type']) => {
+    endGesture();
+    if (gesture.points.length < 3) {
+      if (gesture.mode === 'replace') updateSelection(null, type);
+      return;
+    }
+    commitShape(polygonMask(width, height, gesture.points, selectionOptions.antiAlias), type, gesture.mode, gesture.points);
+  }, [width, height, selectionOptions.antiAlias, commitShape, endGesture, updateSelection]);
+
+  // Close the polygon or magnetic lasso
+  const finishPath = useCallback(() => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    if (gesture.tool === 'lassoMagnetic' && gesture.edges && gesture.anchors) {
+      const last = gesture.anchors[gesture.anchors.length - 1]!;
+      const closing = traceEdgePath(gesture.edges, width, height, last, gesture.start, selectionOptions.edgeWidth);
+      commitPolygon({ ...gesture, points: [...gesture.points, ...closing] }, 'magnetic');
+    } else if (gesture.tool === 'lassoPolygon') {
+      commitPolygon(gesture, 'polygon');
+    }
+  }, [width, height, selectionOptions.edgeWidth, commitPolygon]);
+
+  const pointerDown = useCallback((point: MaskPoint, modifiers: SelectionModifiers) => {
+    if (!isSelectionTool) return;
+
+    // Clicks while a polygon or magnetic lasso is open add vertices
+    const open = gestureRef.current;
+    if (open && (open.tool === 'lassoPolygon' || open.tool === 'lassoMagnetic')) {
+      if (open.points.length > 2 && distance(point, open.start) <= CLOSE_DISTANCE) {
+        finishPath();
+        return;
+      }
+      if (open.tool === 'lassoMagnetic' && open.edges && open.anchors) {
+        const anchor = snapToEdge(open.edges, width, height, point, selectionOptions.edgeWidth);
+        const last = open.anchors[open.anchors.length - 1]!;
+        open.points.push(...traceEdgePath(open.edges, width, height, last, anchor, selectionOptions.edgeWidth).slice(1));
+        open.anchors.push(anchor);
+      } else {
+        open.points.push(point);
+      }
+      setPreviewPath([...open.points, point]);
+      return;
+    }
+
+    // Quick select keeps adding to the selection after the first stroke
+    const fallback = activeTool === 'quickSelect' && selectionRef.current && selectionOptions.mode === 'replace'
+      ? 'add'
+      : selectionOptions.mode;
+    const mode = resolveMode(modifiers, fallback);
+
+    if (activeTool === 'magicWand') {
+      const image = getSampleImage();
+      if (!image) return;
+      commitShape(magicWandMask(image, point.x, point.y, selectionOptions), 'magic', mode);
+      return;
+    }
+
+    const gesture: Gesture = { tool: activeTool, mode, start: point, points: [point] };
+    if (activeTool === 'lassoMagnetic') {
+      const image = getSampleImage();
+      if (!image) return;
+      gesture.edges = edgeStrength(image);
+      gesture.start = snapToEdge(gesture.edges, width, height, point, selectionOptions.edgeWidth);
+      gesture.points = [gesture.start];
+      gesture.anchors = [gesture.start];
+    }
+    gestureRef.current = gesture;
+    setPreviewPath(gesture.points);
+  }, [isSelectionTool, activeTool, width, height, selectionOptions, getSampleImage, commitShape, finishPath]);
+
+  const pointerMove = useCallback((point: MaskPoint) => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    switch (gesture.tool) {
+      case 'marqueeRect':
+      case 'marqueeEllipse': {
+        const rect = { x: gesture.start.x, y: gesture.start.y, width: point.x - gesture.start.x, height: point.y - gesture.start.y };
+        setPreviewPath(gesture.tool === 'marqueeRect' ? rectanglePath(rect) : ellipsePath(rect));
+        break;
+      }
+      case 'lassoFree':
+      case 'quickSelect': {
+        const last = gesture.points[gesture.points.length - 1]!;
+        if (distance(last, point) >= 1) {
+          gesture.points.push(point);
+          setPreviewPath([...gesture.points]);
+        }
+        break;
+      }
+      case 'lassoPolygon':
+        setPreviewPath([...gesture.points, point]);
+        break;
+      case 'lassoMagnetic': {
+        if (!gesture.edges || !gesture.anchors) break;
+        const last = gesture.anchors[gesture.anchors.length - 1]!;
+        const target = snapToEdge(gesture.edges, width, height, point, selectionOptions.edgeWidth);
+        const live = traceEdgePath(gesture.edges, width, height, last, target, selectionOptions.edgeWidth);
+
+        // Fix the traced path once it gets long enough
+        if (live.length > MAGNETIC_ANCHOR_SPACING) {
+          gesture.points.push(...live.slice(1));
+          gesture.anchors.push(target);
+          setPreviewPath([...gesture.points]);
+        } else {
+          setPreviewPath([...gesture.points, ...live.slice(1)]);
+        }
+        break;
+      }
+    }
+  }, [width, height, selectionOptions.edgeWidth]);
+
+  const pointerUp = useCallback((point: MaskPoint) => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    switch (gesture.tool) {
+      case 'marqueeRect':
+      case 'marqueeEllipse': {
+        endGesture();
+        const rect = { x: gesture.start.x, y: gesture.start.y, width: point.x - gesture.start.x, height: point.y - gesture.start.y };
+        // A click without a drag drops the selection
+        if (Math.abs(rect.width) < 1 || Math.abs(rect.height) < 1) {
+          if (gesture.mode === 'replace') updateSelection(null, 'rectangle');
+          return;
+        }
+        const isRect = gesture.tool === 'marqueeRect';
+        const path = isRect ? rectanglePath(rect) : ellipsePath(rect);
+        // Rectangles stay pixel-aligned; anti-aliasing only softens curved edges
+        const antiAlias = !isRect && selectionOptions.antiAlias;
+        commitShape(polygonMask(width, height, path, antiAlias), isRect ? 'rectangle' : 'ellipse', gesture.mode, path);
+        break;
+      }
+      case 'lassoFree':
+        commitPolygon({ ...gesture, points: [...gesture.points, point] }, 'freeform');
+        break;
+      case 'quickSelect': {
+        endGesture();
+        const image = getSampleImage();
+        if (!image) return;
+        const shape = quickSelectMask(image, gesture.points, selectionOptions.brushSize, selectionOptions.tolerance);
+        commitShape(shape, 'quick', gesture.mode);
+        break;
+      }
+      // Polygon and magnetic lassos stay open until closed
+    }
+  }, [width, height, selectionOptions, getSampleImage, commitShape, commitPolygon, endGesture, updateSelection]);
+
+  const cancel = useCallback(() => {
+    endGesture();
+  }, [endGesture]);
+
+  const selectAll = useCallback(() => {
+    updateSelection(selectAllMask(width, height), 'all');
+  }, [width, height, updateSelection]);
+
+  const deselect = useCallback(() => {
+    endGesture();
+    updateSelection(null, 'combined');
+  }, [endGesture, updateSelection]);
+
+  const invertSelection = useCallback(() => {
+    const current = selectionRef.current;
+    if (!current) {
+      selectAll();
+      return;
+    }
+    updateSelection(invertMask(current.mask), current.type, current.path, !current.inverted);
+  }, [selectAll, updateSelection]);
+
+  // Apply a mask refinement to the current selection
+  const refine = useCallback((transform: (mask: SelectionMask) => SelectionMask) => {
+    const current = selectionRef.current;
+    if (!current) return;
+    updateSelection(transform(current.mask), current.type, current.path, current.inverted);
+  }, [updateSelection]);
+
+  const featherSelection = useCallback((radius: number) => {
+    refine(mask => featherMask(mask, radius));
+  }, [refine]);
+
+  const expandSelection = useCallback((amount: number) => {
+    refine(mask => expandMask(mask, amount));
+  }, [refine]);
+
+  const contractSelection = useCallback((amount: number) => {
+    refine(mask => contractMask(mask, amount));
+  }, [refine]);
+
+  return {
+    selection,
+    previewPath,
+    isSelecting: previewPath.length > 0,
+    isSelectionTool,
+    pointerDown,
+    pointerMove,
+    pointerUp,
+    finishPath,
+    cancel,
+    selectAll,
+    deselect,
+    invertSelection,
+    featherSelection,
+    expandSelection,
+    contractSelection,
+  };
+}
@@ -1,6 +1,8 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { useToast } from '../../design-system';
 import { editImage, analyzeMedia } from '../../services/geminiService';
+import { readPSD, writePSD } from '../../services/psdFormat';
+import { writeTIFF } from '../../services/tiffFormat';
 import LEDProgressBar from '../LEDProgressBar';
 
 // Components
@@ -11,9 +13,14 @@ import LayersPanel from './components/LayersPanel';
 import HistoryPanel from './components/HistoryPanel';
 import AdjustmentsPanel from './components/AdjustmentsPanel';
 import LayerEffectsPanel from './components/LayerEffectsPanel';
+import SelectionOptionsBar from './components/SelectionOptionsBar';
+import RetouchOptionsBar from './components/RetouchOptionsBar';
+import type { PhotoCanvasHandle } from './components/PhotoCanvas';
 
 // Hooks
 import { usePhotoHistory } from './hooks/usePhotoHistory';
+import { SELECTION_TOOLS } from './hooks/useSelection';
+import { RETOUCH_TOOLS, useRetouchHistory } from './hooks/useRetouch';
 
 // Types & Utils
 import type {
@@ -21,16 +28,52 @@ import type {
   PhotoTool,
   BrushPreset,
   BrushStroke,
+  ExportFormat,
   LayerEffect,
   ExtendedFilterType,
+  ExtendedPhotoFilter,
   HistorySnapshot,
+  LayerMask,
+  RetouchOptions,
+  Selection,
+  SelectionMask,
+  SelectionOptions,
 } from './types';
-import { DEFAULT_BRUSH_PRESET } from './types';
+import { DEFAULT_BRUSH_PRESET, DEFAULT_CANVAS_STATE, DEFAULT_RETOUCH_OPTIONS, DEFAULT_SELECTION_OPTIONS } from './types';
 import { defaultBrushPresets } from './utils/brushPresets';
-import { createFilter, applyFilterPreset } from './utils/filterPipeline';
+import { createFilter, applyFilterPreset, filterConfigs } from './utils/filterPipeline';
+import type { Histogram } from './utils/colorAdjustments';
+import { createLayerMask } from './utils/layerMask';
+import { parseProject, serializeProject } from './utils/projectFile';
+import { layersToPsd, psdToLayers } from './utils/psdDocument';
 
 type RightPanel = 'layers' | 'adjustments' | 'history';
 
+const EXPORT_FORMATS: Array<{ format: Extract<ExportFormat, 'png' | 'psd' | 'tiff'>; label: string }> = [
+  { format: 'png', label: 'PNG (flattened)' },
+  { format: 'psd', label: 'PSD (layers)' },
+  { format: 'tiff', label: 'TIFF (flattened)' },
+];
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function pngBlob(image: ImageData): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')?.putImageData(image, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
 export default function ProPhoto() {
   const toast = useToast();
 
@@ -43,6 +86,17 @@ export default function ProPhoto() {
   const [primaryColor, setPrimaryColor] = useState('#000000');
   const [secondaryColor, setSecondaryColor] = useState('#ffffff');
 
+  // Pixel selection state
+  const [selectionOptions, setSelectionOptions] = useState<SelectionOptions>(DEFAULT_SELECTION_OPTIONS);
+  const [pixelSelection, setPixelSelection] = useState<Selection | null>(null);
+  const photoCanvasRef = useRef<PhotoCanvasHandle>(null);
+  const [histogram, setHistogram] = useState<Histogram | null>(null);
+  const [editingMask, setEditingMask] = useState(false);
+
+  // Retouching state
+  const [retouchOptions, setRetouchOptions] = useState<RetouchOptions>(DEFAULT_RETOUCH_OPTIONS);
+  const [hasPattern, setHasPattern] = useState(false);
+
   // Layer state
   const [layers, setLayers] = useState<PhotoLayerExtended[]>([
     {
@@ -71,6 +125,7 @@ export default function ProPhoto() {
   const [rightPanel, setRightPanel] = useState<RightPanel>('layers');
   const [showBrushSettings, setShowBrushSettings] = useState(false);
   const [showEffectsPanel, setShowEffectsPanel] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
   const [effectsLayerId, setEffectsLayerId] = useState<string | null>(null);
 
   // AI state
@@ -80,8 +135,9 @@ export default function ProPhoto() {
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
 
-  // File input ref
+  // File input refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
   // History hook
   const {
@@ -108,7 +164,9 @@ export default function ProPhoto() {
   const activeLayer = layers.find(l => selectedLayerIds.includes(l.id)) || null;
 
   // Drawing tools check
-  const isDrawingTool = ['brush', 'pencil', 'eraser', 'airbrush', 'clone', 'mixer'].includes(activeTool);
+  const isDrawingTool = ['brush', 'pencil', 'eraser', 'airbrush', 'mixer', ...RETOUCH_TOOLS].includes(activeTool);
+  const isSelectionTool = SELECTION_TOOLS.includes(activeTool);
+  const isRetouchTool = RETOUCH_TOOLS.includes(activeTool);
 
   // Handle layer selection
   const handleLayerSelect = useCallback((id: string, multi = false) => {
@@ -152,6 +210,32 @@ export default function ProPhoto() {
     pushState('Add layer');
   }, [layers.length, pushState]);
 
+  // Add an adjustment layer covering the document, above all other layers
+  const handleAddAdjustmentLayer = useCallback((type: ExtendedFilterType) => {
+    const newLayer: PhotoLayerExtended = {
+      id: `layer-${Date.now()}`,
+      name: filterConfigs[type].label,
+      type: 'adjustment',
+      content: '',
+      opacity: 1,
+      blendMode: 'normal',
+      visible: true,
+      locked: false,
+      filters: [createFilter(type)],
+      effects: [],
+      x: 0,
+      y: 0,
+      width: DEFAULT_CANVAS_STATE.width,
+      height: DEFAULT_CANVAS_STATE.height,
+      rotation: 0,
+      skewX: 0,
+      skewY: 0,
+    };
+    setLayers(prev => [...prev, newLayer]);
+    setSelectedLayerIds([newLayer.id]);
+    pushState(`Add ${filterConfigs[type].label} layer`);
+  }, [pushState]);
+
   // Handle layer delete
   const handleLayerDelete = useCallback((id: string) => {
     if (layers.length <= 1) return;
@@ -196,6 +280,20 @@ export default function ProPhoto() {
     // In a full implementation, this would merge the stroke to the layer
   }, [pushState]);
 
+  // Retouching strokes replace the layer's pixels
+  const recordPixelEdit = useRetouchHistory(layers, pushState);
+  const handlePixelEdit = useCallback((id: string, content: string, description: string) => {
+    recordPixelEdit(description);
+    handleLayerUpdate(id, { content });
+  }, [handleLayerUpdate, recordPixelEdit]);
+
+  const handleDefinePattern = useCallback(() => {
+    if (photoCanvasRef.current?.definePattern()) {
+      setHasPattern(true);
+      toast.success('Pattern defined');
+    }
+  }, [toast]);
+
   // Handle file upload
   const handleFileUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -229,6 +327,69 @@ export default function ProPhoto() {
     reader.readAsDataURL(file);
   }, [pushState]);
 
+  // Save the layers, masks included, as a project file
+  const handleSaveProject = useCallback(() => {
+    downloadBlob(new Blob([serializeProject(layers)], { type: 'application/json' }), 'untitled.prophoto.json');
+  }, [layers]);
+
+  // PSD keeps the layer structure; the other formats are flattened
+  const handleExport = useCallback(async (format: Extract<ExportFormat, 'png' | 'psd' | 'tiff'>) => {
+    setShowExportMenu(false);
+    const rendered = photoCanvasRef.current?.renderDocument();
+    if (!rendered) return;
+
+    try {
+      if (format === 'psd') {
+        const { document: psd, warnings } = layersToPsd(layers, rendered.layers, rendered.composite);
+        downloadBlob(new Blob([writePSD(psd)], { type: 'image/vnd.adobe.photoshop' }), 'untitled.psd');
+        if (warnings.length > 0) toast.warning('Some layers were not exported', { description: warnings.join('\n') });
+      } else if (format === 'tiff') {
+        downloadBlob(new Blob([writeTIFF(rendered.composite)], { type: 'image/tiff' }), 'untitled.tif');
+      } else {
+        downloadBlob(await pngBlob(rendered.composite), 'untitled.png');
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Export failed', { description: error instanceof Error ? error.message : undefined });
+    }
+  }, [layers, toast]);
+
+  const openLayers = useCallback((openedLayers: PhotoLayerExtended[], description: string) => {
+    setLayers(openedLayers);
+    setSelectedLayerIds(openedLayers.filter(l => !l.isGroup).slice(-1).map(l => l.id));
+    setEditingMask(false);
+    pushState(description);
+  }, [pushState]);
+
+  const handleOpenProject = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (/\.psd$/i.test(file.name)) {
+      try {
+        const { layers: psdLayers, warnings } = psdToLayers(await readPSD(new Uint8Array(await file.arrayBuffer())));
+        openLayers(psdLayers, 'Open PSD');
+        if (warnings.length > 0) toast.warning('Some layers were converted', { description: warnings.join('\n') });
+      } catch (error) {
+        console.error(error);
+        toast.error('Could not open PSD', { description: error instanceof Error ? error.message : undefined });
+      }
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (re) => {
+      try {
+        openLayers(parseProject(re.target?.result as string), 'Open project');
+      } catch (error) {
+        console.error(error);
+        toast.error('Could not open project', { description: error instanceof Error ? error.message : undefined });
+      }
+    };
+    reader.readAsText(file);
+  }, [openLayers, toast]);
+
   // Handle AI edit
   const handleGenerativeEdit = useCallback(async () => {
     if (!genPrompt || !activeLayer) return;
@@ -301,6 +462,15 @@ export default function ProPhoto() {
     });
   }, [activeLayer, handleLayerUpdate]);
 
+  const handleFilterSettingsChange = useCallback((filterId: string, settings: NonNullable<ExtendedPhotoFilter['settings']>) => {
+    if (!activeLayer) return;
+    handleLayerUpdate(activeLayer.id, {
+      filters: activeLayer.filters.map(f =>
+        f.id === filterId ? { ...f, settings } : f
+      ),
+    });
+  }, [activeLayer, handleLayerUpdate]);
+
   const handleFilterToggle = useCallback((filterId: string) => {
     if (!activeLayer) return;
     handleLayerUpdate(activeLayer.id, {
@@ -323,6 +493,116 @@ export default function ProPhoto() {
     pushState('Reset filters');
   }, [activeLayer, handleLayerUpdate, pushState]);
 
+  // Selection-constrained pixel edits on the active layer
+  const runSelectionEdit = useCallback(async (
+    description: string,
+    edit: (canvas: PhotoCanvasHandle, layerId: string) => Promise<string | null>,
+    updates: Partial<PhotoLayerExtended> = {}
+  ) => {
+    const canvas = photoCanvasRef.current;
+    if (!canvas || !activeLayer || !pixelSelection) return;
+    if (activeLayer.locked) {
+      toast.error('Layer is locked');
+      return;
+    }
+
+    try {
+      const content = await edit(canvas, activeLayer.id);
+      if (!content) return;
+      handleLayerUpdate(activeLayer.id, { ...updates, content });
+      pushState(description);
+    } catch (error) {
+      console.error(error);
+      toast.error(`${description} failed`);
+    }
+  }, [activeLayer, pixelSelection, handleLayerUpdate, pushState, toast]);
+
+  const handleFillSelection = useCallback(() => {
+    void runSelectionEdit('Fill selection', (canvas, layerId) => canvas.fillSelection(layerId, primaryColor));
+  }, [runSelectionEdit, primaryColor]);
+
+  const handleDeleteSelection = useCallback(() => {
+    void runSelectionEdit('Delete selection', (canvas, layerId) => canvas.deleteSelection(layerId));
+  }, [runSelectionEdit]);
+
+  // Bake the live filters into the selected pixels and clear them from the layer
+  const handleApplyFiltersToSelection = useCallback(() => {
+    void runSelectionEdit(
+      'Apply filters to selection',
+      (canvas, layerId) => canvas.applyFiltersToSelection(layerId),
+      { filters: [] }
+    );
+  }, [runSelectionEdit]);
+
+  // Layer masks
+  const handleMaskAdd = useCallback((id: string, hideAll: boolean) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer || layer.mask) return;
+
+    // A pixel selection becomes the mask, as in other editors
+    const source = pixelSelection ? 'selection' : hideAll ? 'hideAll' : 'revealAll';
+    const data = photoCanvasRef.current?.createMaskData(id, source);
+    if (!data) return;
+
+    handleLayerUpdate(id, { mask: createLayerMask(data) });
+    setEditingMask(true);
+    pushState(source === 'selection' ? 'Add mask from selection' : 'Add layer mask');
+  }, [layers, pixelSelection, handleLayerUpdate, pushState]);
+
+  const handleMaskUpdate = useCallback((id: string, updates: Partial<LayerMask>) => {
+    const mask = layers.find(l => l.id === id)?.mask;
+    if (!mask) return;
+
+    handleLayerUpdate(id, { mask: { ...mask, ...updates } });
+    // Density and feather are sliders; only toggles become history steps
+    if (updates.enabled !== undefined || updates.inverted !== undefined) {
+      pushState(updates.enabled !== undefined ? (updates.enabled ? 'Enable mask' : 'Disable mask') : 'Invert mask');
+    }
+  }, [layers, handleLayerUpdate, pushState]);
+
+  const handleMaskLinkToggle = useCallback((id: string) => {
+    const mask = layers.find(l => l.id === id)?.mask;
+    const updated = mask && photoCanvasRef.current?.setMaskLinked(id, !mask.linked);
+    if (!updated) return;
+
+    handleLayerUpdate(id, { mask: updated });
+    pushState(updated.linked ? 'Link mask' : 'Unlink mask');
+  }, [layers, handleLayerUpdate, pushState]);
+
+  const handleMaskPaint = useCallback((id: string, data: SelectionMask) => {
+    const mask = layers.find(l => l.id === id)?.mask;
+    if (!mask) return;
+
+    handleLayerUpdate(id, { mask: { ...mask, data } });
+    pushState('Paint mask');
+  }, [layers, handleLayerUpdate, pushState]);
+
+  const handleMaskApply = useCallback(async (id: string) => {
+    const canvas = photoCanvasRef.current;
+    const layer = layers.find(l => l.id === id);
+    if (!canvas || !layer?.mask) return;
+    if (layer.locked) {
+      toast.error('Layer is locked');
+      return;
+    }
+
+    try {
+      const content = await canvas.applyLayerMask(id);
+      handleLayerUpdate(id, { mask: undefined, ...(content && { content }) });
+      setEditingMask(false);
+      pushState('Apply layer mask');
+    } catch (error) {
+      console.error(error);
+      toast.error('Apply layer mask failed');
+    }
+  }, [layers, handleLayerUpdate, pushState, toast]);
+
+  const handleMaskDelete = useCallback((id: string) => {
+    handleLayerUpdate(id, { mask: undefined });
+    setEditingMask(false);
+    pushState('Delete layer mask');
+  }, [handleLayerUpdate, pushState]);
+
   // Effects handlers
   const handleOpenEffects = useCallback((layerId: string) => {
     setEffectsLayerId(layerId);
@@ -344,18 +624,44 @@ export default function ProPhoto() {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      const isTyping = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA';
+
+      // Selection shortcuts
+      if ((e.ctrlKey || e.metaKey) && !isTyping) {
+        const key = e.key.toLowerCase();
+        if (key === 'a') {
+          e.preventDefault();
+          photoCanvasRef.current?.selectAll();
+        } else if (key === 'd') {
+          e.preventDefault();
+          photoCanvasRef.current?.deselect();
+        } else if (key === 'i' && e.shiftKey) {
+          e.preventDefault();
+          photoCanvasRef.current?.invertSelection();
+        }
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && !isTyping && pixelSelection) {
+        e.preventDefault();
+        handleDeleteSelection();
+      }
+
       // Tool shortcuts
       if (!e.ctrlKey && !e.metaKey && !e.altKey) {
         switch (e.key.toLowerCase()) {
           case 'v': setActiveTool('move'); break;
-          case 'm': setActiveTool('select'); break;
+          case 'm': setActiveTool('marqueeRect'); break;
           case 'l': setActiveTool('lassoFree'); break;
           case 'w': setActiveTool('magicWand'); break;
+          case 'q': setActiveTool('quickSelect'); break;
           case 'c': setActiveTool('crop'); break;
           case 'b': setActiveTool('brush'); setShowBrushSettings(true); break;
           case 'n': setActiveTool('pencil'); break;
           case 'e': setActiveTool('eraser'); break;
           case 's': setActiveTool('clone'); break;
+          case 'j': setActiveTool('healingBrush'); break;
+          case 'y': setActiveTool('historyBrush'); break;
+          case 'o': setActiveTool('dodge'); break;
           case 'g': setActiveTool('gradient'); break;
           case 'i': setActiveTool('eyedropper'); break;
           case 't': setActiveTool('text'); break;
@@ -379,7 +685,7 @@ export default function ProPhoto() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleSwapColors]);
+  }, [handleSwapColors, handleDeleteSelection, pixelSelection]);
 
   return (
     <div className="h-full flex flex-col bg-[#1A1A1B] text-slate-300 font-sans overflow-hidden select-none">
@@ -402,15 +708,45 @@ export default function ProPhoto() {
           <div className="px-3 py-1 bg-accent/10 border border-accent/20 rounded text-[9px] font-black text-accent uppercase tracking-widest">
             {isProcessing ? 'Processing...' : 'Neural Ready'}
           </div>
+          <button
+            onClick={() => projectInputRef.current?.click()}
+            className="px-4 py-1.5 bg-white/5 hover:bg-white/10 text-white text-[10px] font-bold rounded uppercase tracking-widest"
+          >
+            Open
+          </button>
+          <button
+            onClick={handleSaveProject}
+            className="px-4 py-1.5 bg-white/5 hover:bg-white/10 text-white text-[10px] font-bold rounded uppercase tracking-widest"
+          >
+            Save
+          </button>
           <button
             onClick={() => fileInputRef.current?.click()}
             className="px-4 py-1.5 bg-white/5 hover:bg-white/10 text-white text-[10px] font-bold rounded uppercase tracking-widest"
           >
             Import
           </button>
-          <button className="px-4 py-1.5 bg-accent text-white text-[10px] font-bold rounded uppercase tracking-widest hover:brightness-110 shadow-lg">
-            Export
-          </button>
+          <div className="relative">
+            <button
+              onClick={() => setShowExportMenu(open => !open)}
+              className="px-4 py-1.5 bg-accent text-white text-[10px] font-bold rounded uppercase tracking-widest hover:brightness-110 shadow-lg"
+            >
+              Export
+            </button>
+            {showExportMenu && (
+              <div className="absolute right-0 top-full mt-1 w-40 bg-[#252526] border border-white/10 rounded shadow-xl z-50 py-1">
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="w-full px-3 py-1.5 text-left text-[10px] font-bold text-slate-300 hover:bg-white/10 hover:text-white"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <input
             type="file"
             ref={fileInputRef}
@@ -418,6 +754,13 @@ export default function ProPhoto() {
             className="hidden"
             accept="image/*"
           />
+          <input
+            type="file"
+            ref={projectInputRef}
+            onChange={handleOpenProject}
+            className="hidden"
+            accept=".json,.psd,application/json,image/vnd.adobe.photoshop"
+          />
         </div>
       </header>
 
@@ -449,6 +792,35 @@ export default function ProPhoto() {
         </button>
       </div>
 
+      {/* Selection Options */}
+      {(isSelectionTool || pixelSelection) && (
+        <SelectionOptionsBar
+          activeTool={activeTool}
+          options={selectionOptions}
+          hasSelection={!!pixelSelection}
+          onOptionsChange={setSelectionOptions}
+          onSelectAll={() => photoCanvasRef.current?.selectAll()}
+          onDeselect={() => photoCanvasRef.current?.deselect()}
+          onInvert={() => photoCanvasRef.current?.invertSelection()}
+          onFeather={(radius) => photoCanvasRef.current?.featherSelection(radius)}
+          onExpand={(amount) => photoCanvasRef.current?.expandSelection(amount)}
+          onContract={(amount) => photoCanvasRef.current?.contractSelection(amount)}
+          onFill={handleFillSelection}
+          onDelete={handleDeleteSelection}
+        />
+      )}
+
+      {/* Retouch Options */}
+      {isRetouchTool && (
+        <RetouchOptionsBar
+          activeTool={activeTool}
+          options={retouchOptions}
+          hasPattern={hasPattern}
+          onOptionsChange={setRetouchOptions}
+          onDefinePattern={handleDefinePattern}
+        />
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
         {/* Tool Palette */}
@@ -492,6 +864,7 @@ export default function ProPhoto() {
         {/* Canvas Area */}
         <main className="flex-1 flex flex-col overflow-hidden">
           <PhotoCanvas
+            ref={photoCanvasRef}
             layers={layers}
             selectedLayerIds={selectedLayerIds}
             activeTool={activeTool}
@@ -503,6 +876,14 @@ export default function ProPhoto() {
             onSelectionChange={setSelectedLayerIds}
             onBrushStroke={handleBrushStroke}
             onZoomChange={setZoom}
+            selectionOptions={selectionOptions}
+            onPixelSelectionChange={setPixelSelection}
+            onHistogramChange={setHistogram}
+            editingMask={editingMask}
+            onMaskPaint={handleMaskPaint}
+            retouchOptions={retouchOptions}
+            historyLayers={historyStack[0]?.layerStates}
+            onPixelEdit={handlePixelEdit}
           />
 
           {/* Processing overlay */}
@@ -554,6 +935,13 @@ export default function ProPhoto() {
                 onLayerDuplicate={handleLayerDuplicate}
                 onLayerReorder={handleLayerReorder}
                 onOpenEffects={handleOpenEffects}
+                editingMask={editingMask}
+                onEditMaskChange={setEditingMask}
+                onMaskAdd={handleMaskAdd}
+                onMaskUpdate={handleMaskUpdate}
+                onMaskLinkToggle={handleMaskLinkToggle}
+                onMaskApply={(id) => void handleMaskApply(id)}
+                onMaskDelete={handleMaskDelete}
                 className="flex-1"
               />
             )}
@@ -567,6 +955,10 @@ export default function ProPhoto() {
                 onFilterToggle={handleFilterToggle}
                 onApplyPreset={handleApplyPreset}
                 onResetAll={handleResetFilters}
+                onApplyToSelection={pixelSelection ? handleApplyFiltersToSelection : undefined}
+                onFilterSettingsChange={handleFilterSettingsChange}
+                onAddAdjustmentLayer={handleAddAdjustmentLayer}
+                histogram={histogram}
                 className="flex-1"
               />
             )}
@@ -242,11 +242,75 @@ export type ExtendedFilterType =
   | 'grain'
   | 'ai_enhance';
 
+// Tone and colour adjustments with structured settings. For these filters
+// `value` is the amount (0-100%) blended with the unadjusted image.
+
+export type ToneChannel = 'rgb' | 'red' | 'green' | 'blue';
+
+export interface CurvePoint {
+  input: number;          // 0-255
+  output: number;         // 0-255
+}
+
+export type CurvesSettings = Record<ToneChannel, CurvePoint[]>;
+
+export interface LevelsChannelSettings {
+  inputBlack: number;     // 0-253
+  inputWhite: number;     // 2-255
+  gamma: number;          // 0.1-9.99
+  outputBlack: number;    // 0-255
+  outputWhite: number;    // 0-255
+}
+
+export type LevelsSettings = Record<ToneChannel, LevelsChannelSettings>;
+
+export interface ColorBalanceTone {
+  cyanRed: number;        // -100 to 100
+  magentaGreen: number;   // -100 to 100
+  yellowBlue: number;     // -100 to 100
+}
+
+export interface ColorBalanceSettings {
+  shadows: ColorBalanceTone;
+  midtones: ColorBalanceTone;
+  highlights: ColorBalanceTone;
+  preserveLuminosity: boolean;
+}
+
+export interface ChannelMixerRow {
+  red: number;            // -200 to 200%
+  green: number;          // -200 to 200%
+  blue: number;           // -200 to 200%
+  constant: number;       // -200 to 200%
+}
+
+export interface ChannelMixerSettings {
+  red: ChannelMixerRow;
+  green: ChannelMixerRow;
+  blue: ChannelMixerRow;
+  monochrome: boolean;    // every channel uses the red row
+}
+
+export interface GradientMapSettings {
+  stops: Array<{ color: string; position: number }>;   // position 0-100, dark to light
+  reverse: boolean;
+}
+
+export type AdjustmentSettings =
+  | { type: 'levels'; settings: LevelsSettings }
+  | { type: 'curves'; settings: CurvesSettings }
+  | { type: 'colorBalance'; settings: ColorBalanceSettings }
+  | { type: 'channelMixer'; settings: ChannelMixerSettings }
+  | { type: 'gradientMap'; settings: GradientMapSettings };
+
+export type AdjustmentType = AdjustmentSettings['type'];
+
 export interface ExtendedPhotoFilter {
   id: string;
   type: ExtendedFilterType;
   enabled: boolean;
   value: number | Record<string, number>;
+  settings?: AdjustmentSettings['settings'];
 }
 
 // ============================================
@@ -260,7 +324,8 @@ export interface LayerMask {
   inverted: boolean;
   density: number;        // 0-100%
   feather: number;        // 0-250 pixels
-  data?: ImageData;       // mask bitmap data
+  data?: SelectionMask;   // one byte per layer pixel, 255 reveals; absent reveals all
+  transform?: [number, number, number, number, number, number]; // mask pixels to document while unlinked
 }
 
 // ============================================
@@ -326,6 +391,7 @@ export type PhotoTool =
   | 'colorReplace'
   | 'mixer'
   | 'clone'
+  | 'healingBrush'
   | 'patternStamp'
   | 'historyBrush'
   | 'eraser'
@@ -400,15 +466,61 @@ export interface ViewportState {
 // SELECTION TYPES
 // ============================================
 
+export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
+
+/**
+ * Pixel selection in document space: one coverage byte per pixel,
+ * 0 = not selected, 255 = fully selected
+ */
+export interface SelectionMask {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
 export interface Selection {
   id: string;
-  type: 'rectangle' | 'ellipse' | 'freeform' | 'polygon' | 'magic';
-  path: Array<{ x: number; y: number }>;
+  type: 'rectangle' | 'ellipse' | 'freeform' | 'polygon' | 'magnetic' | 'magic' | 'quick' | 'all' | 'combined';
+  path: Array<{ x: number; y: number }>;  // outline of the last shape drawn, empty for pixel-based tools
+  mask: SelectionMask;
+  bounds: { x: number; y: number; width: number; height: number };
   feather: number;
   antiAlias: boolean;
   inverted: boolean;
 }
 
+export interface SelectionOptions {
+  mode: SelectionMode;
+  tolerance: number;      // 0-255 per channel, magic wand and quick select
+  feather: number;        // pixels, applied to each new shape
+  antiAlias: boolean;
+  contiguous: boolean;    // magic wand
+  sampleAllLayers: boolean;
+  brushSize: number;      // quick select
+  edgeWidth: number;      // magnetic lasso search radius
+}
+
+// ============================================
+// RETOUCHING TYPES
+// ============================================
+
+export type RetouchTool = Extract<
+  PhotoTool,
+  'clone' | 'healingBrush' | 'patternStamp' | 'historyBrush' | 'dodge' | 'burn' | 'sponge' | 'smudge'
+>;
+
+export type TonalRange = 'shadows' | 'midtones' | 'highlights';
+
+export interface RetouchOptions {
+  aligned: boolean;         // clone/heal: keep the source offset between strokes
+  sampleAllLayers: boolean; // clone/heal: sample the composite instead of the active layer
+  range: TonalRange;        // dodge/burn
+  exposure: number;         // 0-100%, dodge/burn
+  spongeMode: 'saturate' | 'desaturate';
+  spongeFlow: number;       // 0-100%
+  smudgeStrength: number;   // 0-100%
+}
+
 // ============================================
 // EXPORT TYPES
 // ============================================
@@ -513,3 +625,73 @@ export const DEFAULT_TOOL_STATE: ToolState = {
   contiguous: true,
   sampleAllLayers: false,
 };
+
+export const DEFAULT_SELECTION_OPTIONS: SelectionOptions = {
+  mode: 'replace',
+  tolerance: 32,
+  feather: 0,
+  antiAlias: true,
+  contiguous: true,
+  sampleAllLayers: false,
+  brushSize: 20,
+  edgeWidth: 10,
+};
+
+export const DEFAULT_RETOUCH_OPTIONS: RetouchOptions = {
+  aligned: true,
+  sampleAllLayers: false,
+  range: 'midtones',
+  exposure: 50,
+  spongeMode: 'desaturate',
+  spongeFlow: 50,
+  smudgeStrength: 50,
+};
+
+const IDENTITY_LEVELS: LevelsChannelSettings = {
+  inputBlack: 0,
+  inputWhite: 255,
+  gamma: 1,
+  outputBlack: 0,
+  outputWhite: 255,
+};
+
+export const DEFAULT_LEVELS: LevelsSettings = {
+  rgb: IDENTITY_LEVELS,
+  red: IDENTITY_LEVELS,
+  green: IDENTITY_LEVELS,
+  blue: IDENTITY_LEVELS,
+};
+
+const IDENTITY_CURVE: CurvePoint[] = [
+  { input: 0, output: 0 },
+  { input: 255, output: 255 },
+];
+
+export const DEFAULT_CURVES: CurvesSettings = {
+  rgb: IDENTITY_CURVE,
+  red: IDENTITY_CURVE,
+  green: IDENTITY_CURVE,
+  blue: IDENTITY_CURVE,
+};
+
+export const DEFAULT_COLOR_BALANCE: ColorBalanceSettings = {
+  shadows: { cyanRed: 0, magentaGreen: 0, yellowBlue: 0 },
+  midtones: { cyanRed: 0, magentaGreen: 0, yellowBlue: 0 },
+  highlights: { cyanRed: 0, magentaGreen: 0, yellowBlue: 0 },
+  preserveLuminosity: true,
+};
+
+export const DEFAULT_CHANNEL_MIXER: ChannelMixerSettings = {
+  red: { red: 100, green: 0, blue: 0, constant: 0 },
+  green: { red: 0, green: 100, blue: 0, constant: 0 },
+  blue: { red: 0, green: 0, blue: 100, constant: 0 },
+  monochrome: false,
+};
+
+export const DEFAULT_GRADIENT_MAP: GradientMapSettings = {
+  stops: [
+    { color: '#000000', position: 0 },
+    { color: '#ffffff', position: 100 },
+  ],
+  reverse: false,
+};
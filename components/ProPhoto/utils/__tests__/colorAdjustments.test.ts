@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { CurvesSettings, ExtendedPhotoFilter } from '../../types';
+import {
+  applyAdjustments,
+  applyColorTransform,
+  buildColorTransform,
+  computeHistogram,
+  createAdjustmentSettings,
+  curveLut,
+  highPass,
+  levelsLut,
+} from '../colorAdjustments';
+
+function pixels(...colors: number[][]): Uint8ClampedArray {
+  return new Uint8ClampedArray(colors.flatMap(([r, g, b, a = 255]) => [r!, g!, b!, a]));
+}
+
+function adjust(filter: Partial<ExtendedPhotoFilter> & Pick<ExtendedPhotoFilter, 'type'>, data: Uint8ClampedArray) {
+  const transform = buildColorTransform({ id: 'f', enabled: true, value: 100, ...filter });
+  if (transform) applyColorTransform(data, transform);
+  return Array.from(data);
+}
+
+describe('lookup tables', () => {
+  it('maps levels input and output ranges with gamma', () => {
+    const lut = levelsLut({ inputBlack: 50, inputWhite: 200, gamma: 1, outputBlack: 0, outputWhite: 255 });
+    expect(lut[0]).toBe(0);
+    expect(lut[50]).toBe(0);
+    expect(lut[125]).toBe(128);
+    expect(lut[200]).toBe(255);
+
+    const brighter = levelsLut({ inputBlack: 0, inputWhite: 255, gamma: 2, outputBlack: 20, outputWhite: 235 });
+    expect(brighter[0]).toBe(20);
+    expect(brighter[128]).toBeGreaterThan(128);
+    expect(brighter[255]).toBe(235);
+  });
+
+  it('passes curves through their points without overshooting', () => {
+    const identity = curveLut([{ input: 0, output: 0 }, { input: 255, output: 255 }]);
+    expect(Array.from(identity)).toEqual(Array.from({ length: 256 }, (_, v) => v));
+
+    const sCurve = curveLut([
+      { input: 0, output: 0 },
+      { input: 64, output: 40 },
+      { input: 192, output: 215 },
+      { input: 255, output: 255 },
+    ]);
+    expect(sCurve[64]).toBe(40);
+    expect(sCurve[192]).toBe(215);
+    for (let v = 1; v < 256; v++) expect(sCurve[v]).toBeGreaterThanOrEqual(sCurve[v - 1]!);
+
+    // Flat beyond the end points
+    const clipped = curveLut([{ input: 30, output: 10 }, { input: 220, output: 240 }]);
+    expect(clipped[0]).toBe(10);
+    expect(clipped[255]).toBe(240);
+  });
+});
+
+describe('colour transforms', () => {
+  it('shifts colour balance within the chosen tone range', () => {
+    const settings = createAdjustmentSettings('colorBalance');
+    const balanced = { ...settings, preserveLuminosity: false, midtones: { cyanRed: 50, magentaGreen: 0, yellowBlue: 0 } };
+    const [r0, , , , r1, g1, b1] = adjust({ type: 'colorBalance', settings: balanced }, pixels([0, 0, 0], [128, 128, 128]));
+
+    expect(r0).toBe(0);
+    expect(r1).toBeGreaterThan(180);
+    expect([g1, b1]).toEqual([128, 128]);
+
+    const preserved = adjust({ type: 'colorBalance', settings: { ...balanced, preserveLuminosity: true } }, pixels([128, 128, 128]));
+    const luma = 0.299 * preserved[0]! + 0.587 * preserved[1]! + 0.114 * preserved[2]!;
+    expect(Math.abs(luma - 128)).toBeLessThanOrEqual(1);
+  });
+
+  it('mixes channels and maps luminance to a gradient', () => {
+    const swap = {
+      red: { red: 0, green: 0, blue: 100, constant: 0 },
+      green: { red: 0, green: 100, blue: 0, constant: 0 },
+      blue: { red: 100, green: 0, blue: 0, constant: 0 },
+      monochrome: false,
+    };
+    expect(adjust({ type: 'channelMixer', settings: swap }, pixels([200, 100, 10]))).toEqual([10, 100, 200, 255]);
+
+    const gradient = { stops: [{ color: '#000000', position: 0 }, { color: '#ff0000', position: 100 }], reverse: false };
+    expect(adjust({ type: 'gradientMap', settings: gradient }, pixels([255, 255, 255], [0, 0, 0]))).toEqual([255, 0, 0, 255, 0, 0, 0, 255]);
+  });
+
+  it('thresholds on luminance and blends by amount', () => {
+    expect(adjust({ type: 'threshold', value: 128 }, pixels([200, 200, 200], [20, 20, 20]))).toEqual([255, 255, 255, 255, 0, 0, 0, 255]);
+
+    const invertCurve = { ...(createAdjustmentSettings('curves') as CurvesSettings), rgb: [{ input: 0, output: 255 }, { input: 255, output: 0 }] };
+    expect(adjust({ type: 'curves', value: 50, settings: invertCurve }, pixels([0, 0, 0]))).toEqual([128, 128, 128, 255]);
+    expect(buildColorTransform({ id: 'f', type: 'curves', enabled: true, value: 0, settings: invertCurve })).toBeNull();
+  });
+
+  it('leaves transparent pixels and unrelated filters alone', () => {
+    const image = { width: 2, height: 1, data: pixels([10, 20, 30, 0], [10, 20, 30]) };
+    applyAdjustments(image, [
+      { id: 'a', type: 'brightness', enabled: true, value: 50 },
+      { id: 'b', type: 'threshold', enabled: true, value: 128 },
+    ]);
+    expect(Array.from(image.data)).toEqual([10, 20, 30, 0, 0, 0, 0, 255]);
+  });
+});
+
+describe('detail and analysis', () => {
+  it('turns flat areas mid-grey with high pass', () => {
+    const image = { width: 4, height: 4, data: new Uint8ClampedArray(64).fill(200) };
+    highPass(image, 2);
+    expect(image.data[0]).toBe(128);
+    expect(image.data[3]).toBe(200);
+  });
+
+  it('counts channel and luminance histograms over visible pixels', () => {
+    const histogram = computeHistogram(pixels([255, 0, 0], [255, 0, 0], [0, 0, 255, 0]));
+    expect(histogram.total).toBe(2);
+    expect(histogram.red[255]).toBe(2);
+    expect(histogram.blue[0]).toBe(2);
+    expect(histogram.luminance[76]).toBe(2);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { PhotoLayerExtended, SelectionMask } from '../../types';
+import {
+  applyMaskToPixels,
+  createLayerMask,
+  decodeMask,
+  encodeMask,
+  fillMaskData,
+  maskCoverage,
+  maskFromGrayPixels,
+  maskPaintColor,
+  maskToGrayPixels,
+  maskTransform,
+} from '../layerMask';
+import { parseProject, serializeProject } from '../projectFile';
+
+function mask(...values: number[]): SelectionMask {
+  return { width: values.length, height: 1, data: Uint8ClampedArray.from(values) };
+}
+
+describe('mask coverage', () => {
+  it('reveals or hides the whole layer', () => {
+    expect(Array.from(fillMaskData('revealAll', 2, 2).data)).toEqual([255, 255, 255, 255]);
+    expect(Array.from(fillMaskData('hideAll', 2, 1).data)).toEqual([0, 0]);
+  });
+
+  it('is absent for disabled masks and masks without data', () => {
+    expect(maskCoverage(createLayerMask())).toBeNull();
+    expect(maskCoverage({ ...createLayerMask(mask(0, 255)), enabled: false })).toBeNull();
+  });
+
+  it('inverts and fades towards revealed with density', () => {
+    const data = mask(0, 255);
+    expect(Array.from(maskCoverage({ ...createLayerMask(data), inverted: true })!.data)).toEqual([255, 0]);
+    expect(Array.from(maskCoverage({ ...createLayerMask(data), density: 50 })!.data)).toEqual([128, 255]);
+    // The stored bitmap is never modified
+    expect(Array.from(data.data)).toEqual([0, 255]);
+  });
+
+  it('softens the edge with feather', () => {
+    const hard = { width: 20, height: 1, data: Uint8ClampedArray.from({ length: 20 }, (_, i) => (i < 10 ? 0 : 255)) };
+    const soft = maskCoverage({ ...createLayerMask(hard), feather: 3 })!;
+    expect(soft.data[9]).toBeGreaterThan(0);
+    expect(soft.data[10]).toBeLessThan(255);
+    expect(soft.data[0]).toBe(0);
+  });
+});
+
+describe('mask placement', () => {
+  it('follows the layer while linked and stays put once unlinked', () => {
+    const layerTransform: [number, number, number, number, number, number] = [2, 0, 0, 2, 10, 20];
+    const linked = createLayerMask(fillMaskData('revealAll', 50, 25));
+    expect(maskTransform(linked, 100, 50, layerTransform)).toEqual([4, 0, 0, 4, 10, 20]);
+
+    const unlinked = { ...linked, linked: false, transform: [1, 0, 0, 1, 5, 5] as typeof layerTransform };
+    expect(maskTransform(unlinked, 100, 50, layerTransform)).toEqual([1, 0, 0, 1, 5, 5]);
+  });
+});
+
+describe('mask pixels', () => {
+  it('multiplies layer alpha when applied', () => {
+    const image = { width: 3, height: 1, data: Uint8ClampedArray.from([1, 2, 3, 255, 1, 2, 3, 255, 1, 2, 3, 100]) };
+    applyMaskToPixels(image, mask(0, 128, 255));
+    expect([image.data[3], image.data[7], image.data[11]]).toEqual([0, 128, 100]);
+    expect(() => applyMaskToPixels(image, mask(0))).toThrow();
+  });
+
+  it('round-trips through greyscale and paints colours as their luminance', () => {
+    const data = mask(0, 64, 255);
+    const image = { width: 3, height: 1, data: maskToGrayPixels(data) };
+    expect(Array.from(maskFromGrayPixels(image).data)).toEqual([0, 64, 255]);
+    expect(maskPaintColor('#ffffff')).toBe('#ffffff');
+    expect(maskPaintColor('#ff0000')).toBe('#4c4c4c');
+  });
+});
+
+describe('saving masks', () => {
+  it('encodes runs and literals losslessly', () => {
+    const values = [...Array<number>(300).fill(255), 1, 2, 3, 3, 4, ...Array<number>(200).fill(0)];
+    const encoded = encodeMask(mask(...values));
+    expect(encoded.packBits.length).toBeLessThan(40);
+    expect(Array.from(decodeMask(encoded).data)).toEqual(values);
+
+    const noisy = Array.from({ length: 1000 }, (_, i) => (i * 37) % 251);
+    expect(Array.from(decodeMask(encodeMask(mask(...noisy))).data)).toEqual(noisy);
+  });
+
+  it('keeps masks in project files', () => {
+    const layer: PhotoLayerExtended = {
+      id: 'layer-1',
+      name: 'Photo',
+      type: 'raster',
+      content: 'data:image/png;base64,',
+      opacity: 1,
+      blendMode: 'normal',
+      visible: true,
+      locked: false,
+      filters: [],
+      effects: [],
+      x: 0,
+      y: 0,
+      width: 3,
+      height: 1,
+      rotation: 0,
+      skewX: 0,
+      skewY: 0,
+      mask: { ...createLayerMask(mask(0, 128, 255)), feather: 4, linked: false, transform: [1, 0, 0, 1, 10, 20] },
+    };
+
+    const [restored, plain] = parseProject(serializeProject([layer, { ...layer, id: 'layer-2', mask: undefined }]));
+    expect(restored!.mask).toEqual(layer.mask);
+    expect(plain!.mask).toBeUndefined();
+    expect(() => parseProject('{"layers": []}')).toThrow('Not a ProPhoto project file');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import type { PhotoLayerExtended } from '../../types';
+import { layersToPsd, psdToLayers } from '../psdDocument';
+import type { RenderedLayer } from '../psdDocument';
+import { isLayerCollapsed, resolveGroups } from '../layerGroups';
+import { readPSD, writePSD } from '../../../../services/psdFormat';
+
+const layer = (id: string, overrides: Partial<PhotoLayerExtended> = {}): PhotoLayerExtended => ({
+  id,
+  name: id,
+  type: 'raster',
+  content: '',
+  opacity: 1,
+  blendMode: 'normal',
+  visible: true,
+  locked: false,
+  filters: [],
+  effects: [],
+  x: 0,
+  y: 0,
+  width: 4,
+  height: 4,
+  rotation: 0,
+  skewX: 0,
+  skewY: 0,
+  ...overrides,
+});
+
+const rendered = (left: number, top: number, size: number, value: number): RenderedLayer => ({
+  left,
+  top,
+  pixels: { width: size, height: size, data: new Uint8ClampedArray(size * size * 4).fill(value) },
+});
+
+// Background, then a half-visible group holding a masked layer and an adjustment
+const stack: PhotoLayerExtended[] = [
+  layer('background'),
+  layer('photo', {
+    groupId: 'group',
+    blendMode: 'screen',
+    mask: { id: 'mask', enabled: true, linked: true, inverted: true, density: 80, feather: 2 },
+  }),
+  layer('levels', { type: 'adjustment', groupId: 'group' }),
+  layer('group', { isGroup: true, opacity: 0.5, isExpanded: false }),
+];
+
+describe('layer groups', () => {
+  it('folds group opacity and visibility into members', () => {
+    const drawn = resolveGroups([...stack.slice(0, 3), { ...stack[3]!, visible: false }]);
+    expect(drawn.map(l => l.id)).toEqual(['background', 'photo', 'levels']);
+    expect(drawn[1]).toMatchObject({ opacity: 0.5, visible: false });
+    expect(isLayerCollapsed(stack, stack[1]!)).toBe(true);
+  });
+});
+
+describe('PSD documents', () => {
+  it('round trips groups, masks and blend modes', async () => {
+    const renders = new Map([
+      ['background', rendered(0, 0, 4, 255)],
+      ['photo', { ...rendered(1, 1, 2, 200), mask: { width: 2, height: 2, data: new Uint8ClampedArray([255, 0, 255, 0]) } }],
+    ]);
+    const { document, warnings } = layersToPsd(stack, renders, rendered(0, 0, 4, 255).pixels);
+    expect(warnings).toEqual(['Adjustment layer "levels" was left out']);
+
+    const { layers } = psdToLayers(await readPSD(writePSD(document)), pixels => `${pixels.width}x${pixels.height}`);
+    expect(layers.map(l => l.name)).toEqual(['background', 'photo', 'group']);
+
+    const [, photo, group] = layers;
+    expect(group).toMatchObject({ isGroup: true, isExpanded: false, blendMode: 'normal' });
+    expect(group!.opacity).toBeCloseTo(0.5, 2);
+    expect(photo).toMatchObject({ groupId: group!.id, blendMode: 'screen', x: 1, y: 1, content: '2x2' });
+    // Inverted masks are written out already inverted
+    expect(Array.from(photo!.mask!.data!.data)).toEqual([0, 255, 0, 255]);
+    expect(photo!.mask).toMatchObject({ inverted: false, density: 80, feather: 2 });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import type { BrushStroke } from '../../types';
+import { defaultBrushPresets } from '../brushPresets';
+import type { RetouchDab } from '../retouch';
+import {
+  blendFromSource,
+  dodgeBurn,
+  healFromSource,
+  resamplePixels,
+  smudge,
+  sponge,
+  strokeCoverage,
+  strokeDabs,
+  transformStroke,
+} from '../retouch';
+
+function solid(width: number, height: number, [r, g, b, a = 255]: number[]) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set([r!, g!, b!, a], i);
+  return { width, height, data };
+}
+
+function pixel(image: { width: number; data: Uint8ClampedArray }, x: number, y: number) {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+const point = (x: number, y: number) => ({ x, y, pressure: 1, tiltX: 0, tiltY: 0, timestamp: 0 });
+
+const hardDab = (x: number, y: number, radius: number): RetouchDab => ({ x, y, radius, opacity: 1, hardness: 1 });
+
+describe('strokes', () => {
+  it('spaces dabs along the stroke by the brush spacing', () => {
+    const brush = { ...defaultBrushPresets[0]!, size: 10, spacing: 50, opacity: 100 };
+    const stroke: BrushStroke = {
+      id: 's',
+      layerId: 'l',
+      brush,
+      color: '#000000',
+      blendMode: 'normal',
+      timestamp: 0,
+      points: [point(0, 0), point(20, 0)],
+    };
+    const dabs = strokeDabs(stroke);
+    expect(dabs.map(dab => dab.x)).toEqual([0, 5, 10, 15, 20]);
+    expect(dabs[0]!.radius).toBe(5);
+
+    // Zoomed out 2x: the same screen stroke covers twice the pixels
+    const zoomed = transformStroke(stroke, [2, 0, 0, 2, 10, 0]);
+    expect(zoomed.points.map(point => point.x)).toEqual([10, 50]);
+    expect(zoomed.brush.size).toBe(20);
+  });
+
+  it('covers a disc without building up where dabs overlap', () => {
+    const coverage = strokeCoverage(10, 10, [hardDab(5, 5, 3), { ...hardDab(5, 5, 3), opacity: 0.5 }]);
+    expect(coverage[5 * 10 + 5]).toBe(1);
+    expect(coverage[0]).toBe(0);
+
+    const soft = strokeCoverage(10, 1, [{ x: 0, y: 0.5, radius: 8, opacity: 1, hardness: 0 }]);
+    expect(soft[1]!).toBeGreaterThan(soft[6]!);
+  });
+});
+
+describe('source tools', () => {
+  it('samples with an offset and repeats patterns', () => {
+    const source = solid(2, 1, [0, 0, 0]);
+    source.data.set([255, 0, 0, 255], 4);
+
+    const shifted = resamplePixels(source, 2, 1, [1, 0, 0, 1, 1, 0]);
+    expect(pixel(shifted, 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixel(shifted, 1, 0)).toEqual([0, 0, 0, 0]);
+
+    const tiled = resamplePixels(source, 4, 1, [1, 0, 0, 1, 0, 0], true);
+    expect(pixel(tiled, 3, 0)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('clones the source in proportion to coverage', () => {
+    const target = solid(2, 1, [0, 0, 0]);
+    blendFromSource(target, solid(2, 1, [200, 100, 0]), Float32Array.from([1, 0.5]));
+    expect(pixel(target, 0, 0)).toEqual([200, 100, 0, 255]);
+    expect(pixel(target, 1, 0)).toEqual([100, 50, 0, 255]);
+  });
+
+  it('heals with the source texture in the surrounding colour', () => {
+    // Bright target, dark source with one lighter speck of texture
+    const target = solid(9, 9, [200, 200, 200]);
+    const source = solid(9, 9, [50, 50, 50]);
+    source.data.set([70, 70, 70, 255], (4 * 9 + 4) * 4);
+    const coverage = strokeCoverage(9, 9, [hardDab(4.5, 4.5, 2.5)]);
+
+    healFromSource(target, source, coverage);
+    const [centre] = pixel(target, 4, 4);
+    const [beside] = pixel(target, 3, 4);
+    expect(beside).toBe(200);
+    expect(centre).toBe(220);
+  });
+});
+
+describe('tonal tools', () => {
+  it('dodges and burns within the tonal range', () => {
+    const image = solid(1, 1, [128, 128, 128]);
+    dodgeBurn(image, Float32Array.from([1]), 'dodge', 'midtones', 0.5);
+    expect(image.data[0]).toBeGreaterThan(128);
+
+    const dark = solid(1, 1, [100, 100, 100]);
+    dodgeBurn(dark, Float32Array.from([1]), 'burn', 'highlights', 0.5);
+    expect(dark.data[0]).toBe(50);
+
+    const untouched = solid(1, 1, [100, 100, 100]);
+    dodgeBurn(untouched, Float32Array.from([0]), 'burn', 'shadows', 1);
+    expect(untouched.data[0]).toBe(100);
+  });
+
+  it('saturates or desaturates around the grey', () => {
+    const image = solid(1, 1, [200, 100, 100]);
+    sponge(image, Float32Array.from([1]), 'desaturate', 1);
+    expect(image.data[0]).toBe(image.data[1]);
+
+    const vivid = solid(1, 1, [150, 100, 100]);
+    sponge(vivid, Float32Array.from([1]), 'saturate', 0.5);
+    expect(vivid.data[0]! - vivid.data[1]!).toBeGreaterThan(50);
+  });
+
+  it('drags colour along a smudge', () => {
+    const image = solid(12, 1, [255, 255, 255]);
+    image.data.set([0, 0, 0, 255], 0);
+    image.data.set([0, 0, 0, 255], 4);
+    const dabs = [0, 2, 4, 6].map(x => hardDab(x + 1, 0.5, 1.5));
+
+    smudge(image, dabs, 0.9);
+    expect(pixel(image, 4, 0)[0]).toBeLessThan(128);
+    expect(pixel(image, 11, 0)[0]).toBe(255);
+  });
+});
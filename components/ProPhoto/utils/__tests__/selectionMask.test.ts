@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import type { PixelBuffer } from '../selectionMask';
+import {
+  blendSelection,
+  combineMasks,
+  contractMask,
+  createMask,
+  deleteSelection,
+  edgeStrength,
+  expandMask,
+  featherMask,
+  fillSelection,
+  magicWandMask,
+  maskBounds,
+  maskOutline,
+  maskToLayerSpace,
+  polygonMask,
+  quickSelectMask,
+  rectanglePath,
+  snapToEdge,
+  traceEdgePath,
+} from '../selectionMask';
+
+// Left half red, right half blue, fully opaque
+function splitImage(width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const left = i % width < width / 2;
+    data.set(left ? [220, 30, 30, 255] : [30, 30, 220, 255], i * 4);
+  }
+  return { width, height, data };
+}
+
+function selectedCount(mask: { data: Uint8ClampedArray }): number {
+  return mask.data.filter(value => value >= 128).length;
+}
+
+describe('shapes and combining', () => {
+  it('rasterises rectangles on pixel boundaries and combines them', () => {
+    const a = polygonMask(10, 10, rectanglePath({ x: 1, y: 1, width: 4, height: 4 }), false);
+    const b = polygonMask(10, 10, rectanglePath({ x: 5, y: 5, width: -2, height: -2 }), false);
+
+    expect(selectedCount(a)).toBe(16);
+    expect(maskBounds(a)).toEqual({ x: 1, y: 1, width: 4, height: 4 });
+    expect(selectedCount(combineMasks(a, b, 'add'))).toBe(16);
+    expect(selectedCount(combineMasks(a, b, 'subtract'))).toBe(12);
+    expect(selectedCount(combineMasks(a, b, 'intersect'))).toBe(4);
+    expect(combineMasks(null, b, 'subtract').data.every(v => v === 0)).toBe(true);
+  });
+
+  it('gives partial coverage to anti-aliased edges', () => {
+    const mask = polygonMask(4, 1, [{ x: 0, y: 0 }, { x: 2.5, y: 0 }, { x: 2.5, y: 1 }, { x: 0, y: 1 }]);
+    expect(Array.from(mask.data)).toEqual([255, 255, 128, 0]);
+  });
+});
+
+describe('refining', () => {
+  const square = polygonMask(21, 21, rectanglePath({ x: 8, y: 8, width: 5, height: 5 }), false);
+
+  it('expands and contracts by whole pixels', () => {
+    expect(maskBounds(expandMask(square, 2))).toEqual({ x: 6, y: 6, width: 9, height: 9 });
+    expect(maskBounds(contractMask(square, 2))).toEqual({ x: 10, y: 10, width: 1, height: 1 });
+  });
+
+  it('feathers the edge without moving the centre', () => {
+    const large = polygonMask(21, 21, rectanglePath({ x: 6, y: 6, width: 9, height: 9 }), false);
+    const feathered = featherMask(large, 2);
+    expect(feathered.data[10 * 21 + 10]).toBeGreaterThan(200);
+    expect(feathered.data[10 * 21 + 4]).toBeGreaterThan(0);
+    expect(feathered.data[10 * 21 + 4]).toBeLessThan(128);
+  });
+});
+
+describe('pixel-based tools', () => {
+  it('selects similar colours with the magic wand', () => {
+    const image = splitImage(8, 4);
+    const wand = magicWandMask(image, 1, 1, { tolerance: 32, contiguous: true, antiAlias: false });
+
+    expect(maskBounds(wand)).toEqual({ x: 0, y: 0, width: 4, height: 4 });
+    expect(selectedCount(magicWandMask(image, 1, 1, { tolerance: 255, contiguous: true, antiAlias: false }))).toBe(32);
+  });
+
+  it('grows quick selections to matching connected pixels', () => {
+    const image = splitImage(16, 8);
+    const quick = quickSelectMask(image, [{ x: 13, y: 4 }], 2, 32);
+    const bounds = maskBounds(quick)!;
+
+    // Covers the blue half, with at most a softened pixel across the edge
+    expect(bounds.x).toBeGreaterThanOrEqual(7);
+    expect(quick.data[2 * 16 + 10]).toBe(255);
+    expect(quick.data[2 * 16 + 3]).toBe(0);
+  });
+
+  it('snaps the magnetic lasso to the colour edge', () => {
+    const image = splitImage(20, 20);
+    const edges = edgeStrength(image);
+
+    expect(snapToEdge(edges, 20, 20, { x: 14, y: 10 }, 6).x).toBeCloseTo(10.5, 0);
+
+    const path = traceEdgePath(edges, 20, 20, { x: 9.5, y: 2 }, { x: 9.5, y: 17 }, 6);
+    expect(path[0]).toEqual({ x: 9.5, y: 2.5 });
+    expect(path[path.length - 1]).toEqual({ x: 9.5, y: 17.5 });
+    path.forEach(point => expect(Math.abs(point.x - 10)).toBeLessThanOrEqual(1));
+  });
+});
+
+describe('applying a selection', () => {
+  it('fills, deletes and blends only selected pixels', () => {
+    const mask = createMask(2, 1);
+    mask.data[0] = 255;
+
+    const image = { width: 2, height: 1, data: new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255]) };
+    fillSelection(image, mask, '#ff8000');
+    expect(Array.from(image.data)).toEqual([255, 128, 0, 255, 0, 0, 0, 255]);
+
+    const processed = { width: 2, height: 1, data: new Uint8ClampedArray([0, 0, 255, 255, 0, 0, 255, 255]) };
+    blendSelection(image, processed, mask);
+    expect(Array.from(image.data)).toEqual([0, 0, 255, 255, 0, 0, 0, 255]);
+
+    deleteSelection(image, mask);
+    expect(image.data[3]).toBe(0);
+    expect(image.data[7]).toBe(255);
+  });
+
+  it('maps a document mask onto a scaled, offset layer', () => {
+    const mask = polygonMask(10, 10, rectanglePath({ x: 4, y: 4, width: 2, height: 2 }), false);
+    // Layer pixels are drawn at 2x starting at document (2, 2)
+    const layerMask = maskToLayerSpace(mask, 4, 4, [2, 0, 0, 2, 2, 2]);
+
+    expect(maskBounds(layerMask)).toEqual({ x: 1, y: 1, width: 1, height: 1 });
+  });
+
+  it('outlines the selection along pixel edges', () => {
+    const mask = polygonMask(4, 4, rectanglePath({ x: 1, y: 1, width: 2, height: 2 }), false);
+    expect(maskOutline(mask)).toEqual([1, 1, 3, 1, 1, 3, 3, 3, 1, 1, 1, 3, 3, 1, 3, 3]);
+  });
+});
@@ -0,0 +1,302 @@
+import { FabricObject, classRegistry, filters, util } from 'fabric';
+import type { FabricObjectProps, T2DPipelineState, TWebGLPipelineState, TWebGLUniformLocationMap } from 'fabric';
+import type { ExtendedPhotoFilter } from '../types';
+import type { ColorTransform } from './colorAdjustments';
+import { applyAdjustments, applyColorTransform, buildColorTransform, highPass } from './colorAdjustments';
+
+// ============================================
+// COLOR ADJUSTMENT
+// ============================================
+
+const colorAdjustmentSource = `
+  precision highp float;
+  uniform sampler2D uTexture;
+  uniform sampler2D uLut;
+  uniform mat3 uMatrix;
+  uniform vec3 uOffset;
+  uniform float uLuminanceMap;
+  uniform float uPreserveLuminosity;
+  uniform float uAmount;
+  varying vec2 vTexCoord;
+  const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+
+  // The lookup texture is 512×1: per-channel tables, then the luminance map
+  vec2 lutCoord(float value, float start) {
+    return vec2((start + floor(clamp(value, 0.0, 1.0) * 255.0 + 0.5) + 0.5) / 512.0, 0.5);
+  }
+
+  void main() {
+    vec4 color = texture2D(uTexture, vTexCoord);
+    vec3 original = color.rgb;
+    vec3 rgb = clamp(uMatrix * original + uOffset, 0.0, 1.0);
+    if (uLuminanceMap > 0.5) {
+      rgb = texture2D(uLut, lutCoord(dot(rgb, LUMA), 256.0)).rgb;
+    } else {
+      rgb = vec3(
+        texture2D(uLut, lutCoord(rgb.r, 0.0)).r,
+        texture2D(uLut, lutCoord(rgb.g, 0.0)).g,
+        texture2D(uLut, lutCoord(rgb.b, 0.0)).b
+      );
+    }
+    if (uPreserveLuminosity > 0.5) {
+      rgb = clamp(rgb + dot(original - rgb, LUMA), 0.0, 1.0);
+    }
+    color.rgb = mix(original, rgb, uAmount);
+    gl_FragColor = color;
+  }
+`;
+
+const IDENTITY_MATRIX = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+
+/** RGBA texels for the 512×1 lookup texture */
+function lutTexels(transform: ColorTransform): Uint8Array {
+  const texels = new Uint8Array(512 * 4);
+  for (let v = 0; v < 256; v++) {
+    texels[v * 4] = transform.lut ? transform.lut.red[v]! : v;
+    texels[v * 4 + 1] = transform.lut ? transform.lut.green[v]! : v;
+    texels[v * 4 + 2] = transform.lut ? transform.lut.blue[v]! : v;
+    texels[v * 4 + 3] = 255;
+
+    const mapped = (256 + v) * 4;
+    texels[mapped] = transform.luminanceMap ? transform.luminanceMap[v * 3]! : v;
+    texels[mapped + 1] = transform.luminanceMap ? transform.luminanceMap[v * 3 + 1]! : v;
+    texels[mapped + 2] = transform.luminanceMap ? transform.luminanceMap[v * 3 + 2]! : v;
+    texels[mapped + 3] = 255;
+  }
+  return texels;
+}
+
+interface ColorAdjustmentOwnProps {
+  adjustment: ExtendedPhotoFilter | null;
+}
+
+/**
+ * Levels, curves, colour balance, channel mixer, gradient map and threshold
+ * as one Fabric filter. Serialises the plain adjustment so canvas JSON
+ * round-trips; the lookup tables are rebuilt on demand.
+ */
+export class ColorAdjustment extends filters.BaseFilter<'ColorAdjustment', ColorAdjustmentOwnProps> {
+  declare adjustment: ExtendedPhotoFilter | null;
+
+  private cachedFor: ExtendedPhotoFilter | null = null;
+  private cachedTransform: ColorTransform | null = null;
+
+  static override type = 'ColorAdjustment';
+
+  static override defaults: Record<string, unknown> = { adjustment: null };
+
+  static override uniformLocations = ['uLut', 'uMatrix', 'uOffset', 'uLuminanceMap', 'uPreserveLuminosity', 'uAmount'];
+
+  get transform(): ColorTransform | null {
+    if (this.cachedFor !== this.adjustment) {
+      this.cachedFor = this.adjustment;
+      this.cachedTransform = this.adjustment ? buildColorTransform(this.adjustment) : null;
+    }
+    return this.cachedTransform;
+  }
+
+  protected override getFragmentSource(): string {
+    return colorAdjustmentSource;
+  }
+
+  override isNeutralState(): boolean {
+    return this.transform === null;
+  }
+
+  override applyTo2d({ imageData }: T2DPipelineState): void {
+    const { transform } = this;
+    if (transform) applyColorTransform(imageData.data, transform);
+  }
+
+  override applyToWebGL(options: TWebGLPipelineState): void {
+    const { transform } = this;
+    if (!transform) return;
+
+    const gl = options.context;
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 512, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, lutTexels(transform));
+
+    this.bindAdditionalTexture(gl, texture, gl.TEXTURE1);
+    super.applyToWebGL(options);
+    this.unbindAdditionalTexture(gl, gl.TEXTURE1);
+    gl.deleteTexture(texture);
+  }
+
+  override sendUniformData(gl: WebGLRenderingContext, uniformLocations: TWebGLUniformLocationMap): void {
+    const transform = this.transform;
+    const m = transform?.matrix ?? IDENTITY_MATRIX;
+
+    gl.uniform1i(uniformLocations.uLut!, 1);
+    // GLSL matrices are column-major
+    gl.uniformMatrix3fv(uniformLocations.uMatrix!, false, [m[0]!, m[4]!, m[8]!, m[1]!, m[5]!, m[9]!, m[2]!, m[6]!, m[10]!]);
+    gl.uniform3fv(uniformLocations.uOffset!, [m[3]!, m[7]!, m[11]!]);
+    gl.uniform1f(uniformLocations.uLuminanceMap!, transform?.luminanceMap ? 1 : 0);
+    gl.uniform1f(uniformLocations.uPreserveLuminosity!, transform?.preserveLuminosity ? 1 : 0);
+    gl.uniform1f(uniformLocations.uAmount!, transform?.amount ?? 0);
+  }
+}
+
+// ============================================
+// HIGH PASS
+// ============================================
+
+const highPassSource = `
+  precision highp float;
+  uniform sampler2D uTexture;
+  uniform vec2 uStep;
+  varying vec2 vTexCoord;
+
+  void main() {
+    vec4 color = texture2D(uTexture, vTexCoord);
+    vec3 sum = vec3(0.0);
+    for (int x = -4; x <= 4; x++) {
+      for (int y = -4; y <= 4; y++) {
+        sum += texture2D(uTexture, vTexCoord + vec2(float(x), float(y)) * uStep).rgb;
+      }
+    }
+    color.rgb = clamp(color.rgb - sum / 81.0 + 0.5, 0.0, 1.0);
+    gl_FragColor = color;
+  }
+`;
+
+interface HighPassOwnProps {
+  radius: number;
+}
+
+/** High pass with a radius in image pixels */
+export class HighPass extends filters.BaseFilter<'HighPass', HighPassOwnProps> {
+  declare radius: number;
+
+  private step: [number, number] = [0, 0];
+
+  static override type = 'HighPass';
+
+  static override defaults: Record<string, unknown> = { radius: 0 };
+
+  static override uniformLocations = ['uStep'];
+
+  protected override getFragmentSource(): string {
+    return highPassSource;
+  }
+
+  override isNeutralState(): boolean {
+    return this.radius <= 0;
+  }
+
+  override applyTo2d({ imageData }: T2DPipelineState): void {
+    highPass(imageData, this.radius);
+  }
+
+  override applyToWebGL(options: TWebGLPipelineState): void {
+    // The 9×9 sample grid spans the radius in each direction
+    this.step = [this.radius / 4 / options.sourceWidth, this.radius / 4 / options.sourceHeight];
+    super.applyToWebGL(options);
+  }
+
+  override sendUniformData(gl: WebGLRenderingContext, uniformLocations: TWebGLUniformLocationMap): void {
+    gl.uniform2fv(uniformLocations.uStep!, this.step);
+  }
+}
+
+// ============================================
+// ADJUSTMENT LAYER
+// ============================================
+
+/**
+ * A non-destructive adjustment layer: when rendered it re-processes whatever
+ * has already been drawn beneath its bounds, so the layers below keep their
+ * original pixels. Opacity and the clip path (the layer mask) fade the
+ * adjustment in.
+ */
+export class AdjustmentLayerObject extends FabricObject {
+  declare adjustments: ExtendedPhotoFilter[];
+
+  static override type = 'AdjustmentLayer';
+
+  static override ownDefaults = {
+    adjustments: [] as ExtendedPhotoFilter[],
+    // Positioned by its top-left corner so the layer can cover the document at (0, 0)
+    originX: 'left' as const,
+    originY: 'top' as const,
+    objectCaching: false,
+    evented: false,
+  };
+
+  static override getDefaults(): Record<string, unknown> {
+    return { ...super.getDefaults(), ...AdjustmentLayerObject.ownDefaults };
+  }
+
+  constructor(options?: Partial<FabricObjectProps> & { adjustments?: ExtendedPhotoFilter[] }) {
+    super();
+    Object.assign(this, AdjustmentLayerObject.ownDefaults);
+    this.setOptions(options);
+  }
+
+  override render(ctx: CanvasRenderingContext2D): void {
+    if (!this.visible || this.opacity === 0 || !this.adjustments.some(a => a.enabled)) return;
+
+    // Device-space bounds of the layer on the target canvas
+    const { a, b, c, d, e, f } = ctx.getTransform();
+    const [ma, mb, mc, md, me, mf] = this.calcTransformMatrix();
+    const halfW = this.width / 2;
+    const halfH = this.height / 2;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [lx, ly] of [[-halfW, -halfH], [halfW, -halfH], [halfW, halfH], [-halfW, halfH]] as const) {
+      const sx = ma * lx + mc * ly + me;
+      const sy = mb * lx + md * ly + mf;
+      xs.push(a * sx + c * sy + e);
+      ys.push(b * sx + d * sy + f);
+    }
+    const left = Math.max(0, Math.floor(Math.min(...xs)));
+    const top = Math.max(0, Math.floor(Math.min(...ys)));
+    const right = Math.min(ctx.canvas.width, Math.ceil(Math.max(...xs)));
+    const bottom = Math.min(ctx.canvas.height, Math.ceil(Math.max(...ys)));
+    if (right <= left || bottom <= top) return;
+
+    const image = ctx.getImageData(left, top, right - left, bottom - top);
+    const coverage = this.renderClipCoverage(ctx, left, top, image.width, image.height);
+    const original = this.opacity < 1 || coverage ? image.data.slice() : null;
+    applyAdjustments(image, this.adjustments);
+
+    if (original) {
+      const { data } = image;
+      for (let i = 0; i < data.length; i++) {
+        // i | 3 is the alpha byte of the pixel this channel belongs to
+        const amount = coverage ? (this.opacity * coverage[i | 3]!) / 255 : this.opacity;
+        data[i] = original[i]! + (data[i]! - original[i]!) * amount;
+      }
+    }
+    ctx.putImageData(image, left, top);
+  }
+
+  /** The clip path drawn over the same device pixels, read back as RGBA; its alpha is the coverage */
+  private renderClipCoverage(
+    ctx: CanvasRenderingContext2D,
+    left: number,
+    top: number,
+    width: number,
+    height: number
+  ): Uint8ClampedArray | null {
+    const { clipPath } = this;
+    const clipCtx = clipPath && util.createCanvasElement().getContext('2d');
+    if (!clipPath || !clipCtx) return null;
+
+    clipCtx.canvas.width = width;
+    clipCtx.canvas.height = height;
+    const { a, b, c, d, e, f } = ctx.getTransform();
+    clipCtx.setTransform(a, b, c, d, e - left, f - top);
+    if (!clipPath.absolutePositioned) clipCtx.transform(...this.calcTransformMatrix());
+    clipPath.render(clipCtx);
+    return clipCtx.getImageData(0, 0, width, height).data;
+  }
+}
+
+classRegistry.setClass(ColorAdjustment);
+classRegistry.setClass(HighPass);
+classRegistry.setClass(AdjustmentLayerObject);
@@ -413,3 +413,15 @@ export function createCustomBrush(basedOn: BrushPreset, overrides: Partial<Brush
     isCustom: true,
   };
 }
+
+// Size, opacity, hardness and flow of a dab at the given pen pressure
+export function brushDynamics(brush: BrushPreset, pressure: number) {
+  const { pressureSensitivity, size, opacity, hardness, flow } = brush;
+
+  return {
+    size: pressureSensitivity.size ? size * pressure : size,
+    opacity: pressureSensitivity.opacity ? (opacity / 100) * pressure : opacity / 100,
+    hardness: pressureSensitivity.hardness ? hardness * pressure : hardness,
+    flow: pressureSensitivity.flow ? (flow / 100) * pressure : flow / 100,
+  };
+}
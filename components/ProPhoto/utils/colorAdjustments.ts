@@ -0,0 +1,458 @@
+import type {
+  AdjustmentType,
+  ChannelMixerSettings,
+  ColorBalanceSettings,
+  ColorBalanceTone,
+  CurvePoint,
+  CurvesSettings,
+  ExtendedFilterType,
+  ExtendedPhotoFilter,
+  GradientMapSettings,
+  LevelsChannelSettings,
+  LevelsSettings,
+} from '../types';
+import {
+  DEFAULT_CHANNEL_MIXER,
+  DEFAULT_COLOR_BALANCE,
+  DEFAULT_CURVES,
+  DEFAULT_GRADIENT_MAP,
+  DEFAULT_LEVELS,
+} from '../types';
+import type { PixelBuffer } from './selectionMask';
+import { parseHexColor } from './selectionMask';
+
+/**
+ * A per-pixel colour adjustment reduced to data both the 2D and the WebGL
+ * paths can apply: an optional channel mix, then either per-channel lookup
+ * tables or a luminance-to-colour map.
+ */
+export interface ColorTransform {
+  /** Row-major 3×4 mix (output r, g, b from input r, g, b, constant), in 0-1 units */
+  matrix: number[] | null;
+  /** 256 entries each; applied after the mix */
+  lut: { red: Uint8Array; green: Uint8Array; blue: Uint8Array } | null;
+  /** 256 RGB triplets indexed by luminance; takes precedence over `lut` */
+  luminanceMap: Uint8Array | null;
+  /** Restore the original luminance after the adjustment */
+  preserveLuminosity: boolean;
+  /** 0-1 blend with the unadjusted colour */
+  amount: number;
+}
+
+export interface Histogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luminance: Uint32Array;
+  /** Pixels counted (fully transparent pixels are skipped) */
+  total: number;
+}
+
+export const ADJUSTMENT_TYPES: AdjustmentType[] = ['levels', 'curves', 'colorBalance', 'channelMixer', 'gradientMap'];
+
+export function isAdjustmentType(type: ExtendedFilterType): type is AdjustmentType {
+  return (ADJUSTMENT_TYPES as ExtendedFilterType[]).includes(type);
+}
+
+/** Fresh default settings for a structured adjustment */
+export function createAdjustmentSettings(type: AdjustmentType): NonNullable<ExtendedPhotoFilter['settings']> {
+  const defaults = {
+    levels: DEFAULT_LEVELS,
+    curves: DEFAULT_CURVES,
+    colorBalance: DEFAULT_COLOR_BALANCE,
+    channelMixer: DEFAULT_CHANNEL_MIXER,
+    gradientMap: DEFAULT_GRADIENT_MAP,
+  }[type];
+  return structuredClone(defaults);
+}
+
+function luma(r: number, g: number, b: number): number {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function clampByte(value: number): number {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+function identityLut(): Uint8Array {
+  const lut = new Uint8Array(256);
+  for (let v = 0; v < 256; v++) lut[v] = v;
+  return lut;
+}
+
+/** lut[v] = outer[inner[v]] */
+function composeLuts(outer: Uint8Array, inner: Uint8Array): Uint8Array {
+  const lut = new Uint8Array(256);
+  for (let v = 0; v < 256; v++) lut[v] = outer[inner[v]!]!;
+  return lut;
+}
+
+// ============================================
+// LEVELS
+// ============================================
+
+export function levelsLut(levels: LevelsChannelSettings): Uint8Array {
+  const lut = new Uint8Array(256);
+  const range = Math.max(1, levels.inputWhite - levels.inputBlack);
+  const gamma = Math.max(0.01, levels.gamma);
+
+  for (let v = 0; v < 256; v++) {
+    const normalized = Math.min(1, Math.max(0, (v - levels.inputBlack) / range));
+    const corrected = Math.pow(normalized, 1 / gamma);
+    lut[v] = clampByte(levels.outputBlack + corrected * (levels.outputWhite - levels.outputBlack));
+  }
+  return lut;
+}
+
+// ============================================
+// CURVES
+// ============================================
+
+/**
+ * Lookup table through the control points, interpolated with a monotone
+ * cubic (Fritsch–Carlson) so the curve never overshoots between points.
+ * Outside the first and last point the curve is flat.
+ */
+export function curveLut(points: CurvePoint[]): Uint8Array {
+  const sorted = [...points]
+    .sort((a, b) => a.input - b.input)
+    .filter((point, i, all) => i === 0 || point.input !== all[i - 1]!.input);
+
+  if (sorted.length === 0) return identityLut();
+  if (sorted.length === 1) return new Uint8Array(256).fill(clampByte(sorted[0]!.output));
+
+  const xs = sorted.map(p => p.input);
+  const ys = sorted.map(p => p.output);
+  const n = sorted.length;
+
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) slopes.push((ys[i + 1]! - ys[i]!) / (xs[i + 1]! - xs[i]!));
+
+  const tangents: number[] = [slopes[0]!];
+  for (let i = 1; i < n - 1; i++) {
+    const before = slopes[i - 1]!;
+    const after = slopes[i]!;
+    tangents.push(before * after <= 0 ? 0 : (before + after) / 2);
+  }
+  tangents.push(slopes[n - 2]!);
+
+  for (let i = 0; i < n - 1; i++) {
+    const slope = slopes[i]!;
+    if (slope === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i]! / slope;
+    const b = tangents[i + 1]! / slope;
+    const length = a * a + b * b;
+    if (length > 9) {
+      const scale = 3 / Math.sqrt(length);
+      tangents[i] = scale * a * slope;
+      tangents[i + 1] = scale * b * slope;
+    }
+  }
+
+  const lut = new Uint8Array(256);
+  let segment = 0;
+  for (let v = 0; v < 256; v++) {
+    if (v <= xs[0]!) {
+      lut[v] = clampByte(ys[0]!);
+      continue;
+    }
+    if (v >= xs[n - 1]!) {
+      lut[v] = clampByte(ys[n - 1]!);
+      continue;
+    }
+    while (v > xs[segment + 1]!) segment++;
+
+    const h = xs[segment + 1]! - xs[segment]!;
+    const t = (v - xs[segment]!) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    lut[v] = clampByte(
+      (2 * t3 - 3 * t2 + 1) * ys[segment]! +
+      (t3 - 2 * t2 + t) * h * tangents[segment]! +
+      (-2 * t3 + 3 * t2) * ys[segment + 1]! +
+      (t3 - t2) * h * tangents[segment + 1]!,
+    );
+  }
+  return lut;
+}
+
+// ============================================
+// COLOR BALANCE
+// ============================================
+
+/**
+ * How strongly a tone range applies at a value (0-1); overlapping ramps so
+ * shadows fade out through the midtones into the highlights.
+ */
+function toneWeights(value: number): { shadows: number; midtones: number; highlights: number } {
+  const a = 0.25;
+  const b = 0.333;
+  const scale = 0.7;
+  const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+  return {
+    shadows: clamp01((value - b) / -a + 0.5) * scale,
+    midtones: clamp01((value - b) / a + 0.5) * clamp01((value + b - 1) / -a + 0.5) * scale,
+    highlights: clamp01((value + b - 1) / a + 0.5) * scale,
+  };
+}
+
+export function colorBalanceLuts(balance: ColorBalanceSettings): { red: Uint8Array; green: Uint8Array; blue: Uint8Array } {
+  const channelLut = (axis: keyof ColorBalanceTone) => {
+    const lut = new Uint8Array(256);
+    for (let v = 0; v < 256; v++) {
+      const weights = toneWeights(v / 255);
+      const shift =
+        balance.shadows[axis] * weights.shadows +
+        balance.midtones[axis] * weights.midtones +
+        balance.highlights[axis] * weights.highlights;
+      lut[v] = clampByte(v + (shift / 100) * 255);
+    }
+    return lut;
+  };
+
+  return { red: channelLut('cyanRed'), green: channelLut('magentaGreen'), blue: channelLut('yellowBlue') };
+}
+
+// ============================================
+// CHANNEL MIXER & GRADIENT MAP
+// ============================================
+
+export function channelMixerMatrix(mixer: ChannelMixerSettings): number[] {
+  const rows = mixer.monochrome ? [mixer.red, mixer.red, mixer.red] : [mixer.red, mixer.green, mixer.blue];
+  return rows.flatMap(row => [row.red / 100, row.green / 100, row.blue / 100, row.constant / 100]);
+}
+
+/** 256 RGB triplets, dark to light */
+export function gradientMapLut(gradient: GradientMapSettings): Uint8Array {
+  const stops = [...gradient.stops]
+    .sort((a, b) => a.position - b.position)
+    .map(stop => ({ position: stop.position, rgb: parseHexColor(stop.color) }));
+  const lut = new Uint8Array(256 * 3);
+  if (stops.length === 0) return lut;
+
+  for (let v = 0; v < 256; v++) {
+    const position = (gradient.reverse ? 255 - v : v) / 2.55;
+    let upper = stops.findIndex(stop => stop.position >= position);
+    if (upper === -1) upper = stops.length - 1;
+    const lower = Math.max(0, upper - 1);
+
+    const from = stops[lower]!;
+    const to = stops[upper]!;
+    const span = to.position - from.position;
+    const t = span > 0 ? Math.min(1, Math.max(0, (position - from.position) / span)) : 1;
+    for (let c = 0; c < 3; c++) {
+      lut[v * 3 + c] = clampByte(from.rgb[c]! + (to.rgb[c]! - from.rgb[c]!) * t);
+    }
+  }
+  return lut;
+}
+
+export function thresholdLut(level: number): Uint8Array {
+  const lut = new Uint8Array(256 * 3);
+  for (let v = 0; v < 256; v++) lut.fill(v >= level ? 255 : 0, v * 3, v * 3 + 3);
+  return lut;
+}
+
+// ============================================
+// TRANSFORMS
+// ============================================
+
+/**
+ * The colour transform for a filter, or null when the filter is not a
+ * colour adjustment or would leave the image unchanged.
+ */
+export function buildColorTransform(filter: ExtendedPhotoFilter): ColorTransform | null {
+  if (!filter.enabled) return null;
+  const value = typeof filter.value === 'number' ? filter.value : 0;
+
+  if (filter.type === 'threshold') {
+    return { matrix: null, lut: null, luminanceMap: thresholdLut(value), preserveLuminosity: false, amount: 1 };
+  }
+  if (!isAdjustmentType(filter.type)) return null;
+
+  const amount = Math.min(1, Math.max(0, value / 100));
+  if (amount === 0) return null;
+
+  const transform: ColorTransform = { matrix: null, lut: null, luminanceMap: null, preserveLuminosity: false, amount };
+  const settings = filter.settings ?? createAdjustmentSettings(filter.type);
+
+  switch (filter.type) {
+    case 'levels': {
+      const levels = settings as LevelsSettings;
+      const master = levelsLut(levels.rgb);
+      transform.lut = {
+        red: composeLuts(master, levelsLut(levels.red)),
+        green: composeLuts(master, levelsLut(levels.green)),
+        blue: composeLuts(master, levelsLut(levels.blue)),
+      };
+      break;
+    }
+    case 'curves': {
+      const curves = settings as CurvesSettings;
+      const master = curveLut(curves.rgb);
+      transform.lut = {
+        red: composeLuts(master, curveLut(curves.red)),
+        green: composeLuts(master, curveLut(curves.green)),
+        blue: composeLuts(master, curveLut(curves.blue)),
+      };
+      break;
+    }
+    case 'colorBalance': {
+      const balance = settings as ColorBalanceSettings;
+      transform.lut = colorBalanceLuts(balance);
+      transform.preserveLuminosity = balance.preserveLuminosity;
+      break;
+    }
+    case 'channelMixer':
+      transform.matrix = channelMixerMatrix(settings as ChannelMixerSettings);
+      break;
+    case 'gradientMap':
+      transform.luminanceMap = gradientMapLut(settings as GradientMapSettings);
+      break;
+  }
+  return transform;
+}
+
+/** Apply a colour transform to RGBA pixels in place */
+export function applyColorTransform(data: Uint8ClampedArray, transform: ColorTransform): void {
+  const { matrix, lut, luminanceMap, preserveLuminosity, amount } = transform;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r0 = data[i]!;
+    const g0 = data[i + 1]!;
+    const b0 = data[i + 2]!;
+    let r = r0;
+    let g = g0;
+    let b = b0;
+
+    if (matrix) {
+      r = clampByte(matrix[0]! * r0 + matrix[1]! * g0 + matrix[2]! * b0 + matrix[3]! * 255);
+      g = clampByte(matrix[4]! * r0 + matrix[5]! * g0 + matrix[6]! * b0 + matrix[7]! * 255);
+      b = clampByte(matrix[8]! * r0 + matrix[9]! * g0 + matrix[10]! * b0 + matrix[11]! * 255);
+    }
+
+    if (luminanceMap) {
+      const index = clampByte(luma(r, g, b)) * 3;
+      r = luminanceMap[index]!;
+      g = luminanceMap[index + 1]!;
+      b = luminanceMap[index + 2]!;
+    } else if (lut) {
+      r = lut.red[r]!;
+      g = lut.green[g]!;
+      b = lut.blue[b]!;
+    }
+
+    if (preserveLuminosity) {
+      const shift = luma(r0, g0, b0) - luma(r, g, b);
+      r = clampByte(r + shift);
+      g = clampByte(g + shift);
+      b = clampByte(b + shift);
+    }
+
+    data[i] = r0 + (r - r0) * amount;
+    data[i + 1] = g0 + (g - g0) * amount;
+    data[i + 2] = b0 + (b - b0) * amount;
+  }
+}
+
+// ============================================
+// HIGH PASS
+// ============================================
+
+/** Three passes of a running-sum box blur per axis, on RGB only */
+function boxBlurRgb(image: PixelBuffer, radius: number): Float32Array {
+  const { width, height, data } = image;
+  let current = Float32Array.from(data);
+  let next = new Float32Array(data.length);
+
+  const pass = (length: number, lines: number, offset: (line: number, i: number) => number) => {
+    for (let line = 0; line < lines; line++) {
+      for (let c = 0; c < 3; c++) {
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) {
+          sum += current[offset(line, Math.min(length - 1, Math.max(0, i))) + c]!;
+        }
+        for (let i = 0; i < length; i++) {
+          next[offset(line, i) + c] = sum / (radius * 2 + 1);
+          const leaving = offset(line, Math.max(0, i - radius));
+          const entering = offset(line, Math.min(length - 1, i + radius + 1));
+          sum += current[entering + c]! - current[leaving + c]!;
+        }
+      }
+    }
+    [current, next] = [next, current];
+  };
+
+  for (let iteration = 0; iteration < 3; iteration++) {
+    pass(width, height, (y, x) => (y * width + x) * 4);
+    pass(height, width, (x, y) => (y * width + x) * 4);
+  }
+  return current;
+}
+
+/**
+ * High pass: the difference from a blurred copy around mid-grey, keeping
+ * only the detail finer than `radius` pixels. Writes in place.
+ */
+export function highPass(image: PixelBuffer, radius: number): void {
+  const boxRadius = Math.max(1, Math.round(radius / 2));
+  const blurred = boxBlurRgb(image, boxRadius);
+  const { data } = image;
+
+  for (let i = 0; i < data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = 128 + data[i + c]! - blurred[i + c]!;
+    }
+  }
+}
+
+/**
+ * Apply the colour adjustments and high pass filters in a list to pixels in
+ * place, in order. Other filter types are skipped.
+ */
+export function applyAdjustments(image: PixelBuffer, adjustments: ExtendedPhotoFilter[]): void {
+  adjustments.forEach(filter => {
+    if (!filter.enabled) return;
+    if (filter.type === 'highPass') {
+      const radius = typeof filter.value === 'number' ? filter.value : 0;
+      if (radius > 0) highPass(image, radius);
+      return;
+    }
+    const transform = buildColorTransform(filter);
+    if (transform) applyColorTransform(image.data, transform);
+  });
+}
+
+// ============================================
+// HISTOGRAM
+// ============================================
+
+export function computeHistogram(data: Uint8ClampedArray): Histogram {
+  const histogram: Histogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luminance: new Uint32Array(256),
+    total: 0,
+  };
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    const r = data[i]!;
+    const g = data[i + 1]!;
+    const b = data[i + 2]!;
+    histogram.red[r] = histogram.red[r]! + 1;
+    histogram.green[g] = histogram.green[g]! + 1;
+    histogram.blue[b] = histogram.blue[b]! + 1;
+    const l = clampByte(luma(r, g, b));
+    histogram.luminance[l] = histogram.luminance[l]! + 1;
+    histogram.total++;
+  }
+  return histogram;
+}
@@ -1,7 +1,12 @@
 import { filters } from 'fabric';
-import type { ExtendedPhotoFilter, ExtendedFilterType } from '../types';
+import type { ColorBalanceSettings, ExtendedPhotoFilter, ExtendedFilterType } from '../types';
+import { DEFAULT_COLOR_BALANCE } from '../types';
+import { ColorAdjustment, HighPass } from './adjustmentFilters';
+import { createAdjustmentSettings, isAdjustmentType } from './colorAdjustments';
 
-// Filter configuration with default values and ranges
+// Filter configuration with default values and ranges. For the structured
+// adjustments (levels, curves, color balance, channel mixer, gradient map)
+// the value is the amount applied; their settings hold the parameters.
 export const filterConfigs: Record<ExtendedFilterType, {
   label: string;
   defaultValue: number;
@@ -21,15 +26,15 @@ export const filterConfigs: Record<ExtendedFilterType, {
   sharpen: { label: 'Sharpen', defaultValue: 0, min: 0, max: 100, step: 1, unit: '%' },
   unsharpMask: { label: 'Unsharp Mask', defaultValue: 0, min: 0, max: 100, step: 1, unit: '%' },
   highPass: { label: 'High Pass', defaultValue: 0, min: 0, max: 100, step: 1, unit: 'px' },
-  levels: { label: 'Levels', defaultValue: 0, min: 0, max: 255, step: 1 },
-  curves: { label: 'Curves', defaultValue: 0, min: 0, max: 100, step: 1 },
+  levels: { label: 'Levels', defaultValue: 100, min: 0, max: 100, step: 1, unit: '%' },
+  curves: { label: 'Curves', defaultValue: 100, min: 0, max: 100, step: 1, unit: '%' },
   exposure: { label: 'Exposure', defaultValue: 0, min: -5, max: 5, step: 0.1, unit: 'EV' },
   vibrance: { label: 'Vibrance', defaultValue: 0, min: -100, max: 100, step: 1, unit: '%' },
-  colorBalance: { label: 'Color Balance', defaultValue: 0, min: -100, max: 100, step: 1 },
-  channelMixer: { label: 'Channel Mixer', defaultValue: 0, min: -200, max: 200, step: 1, unit: '%' },
+  colorBalance: { label: 'Color Balance', defaultValue: 100, min: 0, max: 100, step: 1, unit: '%' },
+  channelMixer: { label: 'Channel Mixer', defaultValue: 100, min: 0, max: 100, step: 1, unit: '%' },
   blackAndWhite: { label: 'Black & White', defaultValue: 0, min: 0, max: 100, step: 1, unit: '%' },
   photoFilter: { label: 'Photo Filter', defaultValue: 25, min: 0, max: 100, step: 1, unit: '%' },
-  gradientMap: { label: 'Gradient Map', defaultValue: 0, min: 0, max: 100, step: 1, unit: '%' },
+  gradientMap: { label: 'Gradient Map', defaultValue: 100, min: 0, max: 100, step: 1, unit: '%' },
   posterize: { label: 'Posterize', defaultValue: 4, min: 2, max: 255, step: 1, unit: 'levels' },
   threshold: { label: 'Threshold', defaultValue: 128, min: 0, max: 255, step: 1 },
   invert: { label: 'Invert', defaultValue: 100, min: 0, max: 100, step: 1, unit: '%' },
@@ -142,6 +147,17 @@ export function createFabricFilter(filter: ExtendedPhotoFilter): InstanceType<ty
       // Simulate exposure with brightness
       return new filters.Brightness({ brightness: value * 0.2 });
 
+    case 'levels':
+    case 'curves':
+    case 'colorBalance':
+    case 'channelMixer':
+    case 'gradientMap':
+    case 'threshold':
+      return new ColorAdjustment({ adjustment: filter });
+
+    case 'highPass':
+      return value > 0 ? new HighPass({ radius: value }) : null;
+
     case 'vignette':
       // Vignette needs custom implementation
       return null;
@@ -167,11 +183,26 @@ export function createFilter(type: ExtendedFilterType): ExtendedPhotoFilter {
     type,
     enabled: true,
     value: config?.defaultValue ?? 0,
+    ...(isAdjustmentType(type) ? { settings: createAdjustmentSettings(type) } : {}),
   };
 }
 
+const warmBalance: ColorBalanceSettings = {
+  ...DEFAULT_COLOR_BALANCE,
+  midtones: { cyanRed: 20, magentaGreen: 0, yellowBlue: -20 },
+};
+
+const coolBalance: ColorBalanceSettings = {
+  ...DEFAULT_COLOR_BALANCE,
+  midtones: { cyanRed: -20, magentaGreen: 0, yellowBlue: 20 },
+};
+
 // Preset filter combinations
-export const filterPresets = [
+export const filterPresets: Array<{
+  id: string;
+  name: string;
+  filters: Array<Pick<ExtendedPhotoFilter, 'type' | 'value' | 'settings'>>;
+}> = [
   {
     id: 'none',
     name: 'None',
@@ -190,7 +221,7 @@ export const filterPresets = [
     id: 'warm',
     name: 'Warm',
     filters: [
-      { type: 'colorBalance' as ExtendedFilterType, value: 20 },
+      { type: 'colorBalance' as ExtendedFilterType, value: 100, settings: warmBalance },
       { type: 'saturation' as ExtendedFilterType, value: 10 },
     ],
   },
@@ -198,7 +229,7 @@ export const filterPresets = [
     id: 'cool',
     name: 'Cool',
     filters: [
-      { type: 'colorBalance' as ExtendedFilterType, value: -20 },
+      { type: 'colorBalance' as ExtendedFilterType, value: 100, settings: coolBalance },
       { type: 'saturation' as ExtendedFilterType, value: -5 },
     ],
   },
@@ -267,5 +298,6 @@ export function applyFilterPreset(presetId: string): ExtendedPhotoFilter[] {
     type: f.type,
     enabled: true,
     value: f.value,
+    ...(f.settings ? { settings: structuredClone(f.settings) } : {}),
   }));
 }
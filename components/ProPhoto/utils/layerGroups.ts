@@ -0,0 +1,37 @@
+import type { PhotoLayerExtended } from '../types';
+
+// A group is a layer entry with isGroup set; its members point at it through
+// groupId and sit below it in the stack. Groups have no pixels of their own.
+
+/** The groups enclosing a layer, innermost first */
+export function groupAncestors(layers: PhotoLayerExtended[], layer: PhotoLayerExtended): PhotoLayerExtended[] {
+  const ancestors: PhotoLayerExtended[] = [];
+  let groupId = layer.groupId;
+  while (groupId && !ancestors.some(group => group.id === groupId)) {
+    const group = layers.find(l => l.id === groupId && l.isGroup);
+    if (!group) break;
+    ancestors.push(group);
+    groupId = group.groupId;
+  }
+  return ancestors;
+}
+
+/** Whether a collapsed group hides the layer in the layers panel */
+export function isLayerCollapsed(layers: PhotoLayerExtended[], layer: PhotoLayerExtended): boolean {
+  return groupAncestors(layers, layer).some(group => group.isExpanded === false);
+}
+
+/** Layers as they are drawn: groups removed, their visibility and opacity folded into their members */
+export function resolveGroups(layers: PhotoLayerExtended[]): PhotoLayerExtended[] {
+  return layers
+    .filter(layer => !layer.isGroup)
+    .map(layer => {
+      const ancestors = groupAncestors(layers, layer);
+      if (ancestors.length === 0) return layer;
+      return {
+        ...layer,
+        visible: layer.visible && ancestors.every(group => group.visible),
+        opacity: ancestors.reduce((opacity, group) => opacity * group.opacity, layer.opacity),
+      };
+    });
+}
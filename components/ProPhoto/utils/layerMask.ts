@@ -0,0 +1,178 @@
+import type { LayerMask, SelectionMask } from '../types';
+import type { AffineMatrix, PixelBuffer } from './selectionMask';
+import { createMask, featherMask, invertMask, parseHexColor, selectAllMask } from './selectionMask';
+
+export type MaskSource = 'revealAll' | 'hideAll' | 'selection';
+
+/** A mask bitmap in a JSON-safe form: PackBits runs, base64 encoded */
+export interface EncodedMask {
+  width: number;
+  height: number;
+  packBits: string;
+}
+
+// ============================================
+// CREATING MASKS
+// ============================================
+
+/** A new, enabled mask; without data the mask reveals the whole layer */
+export function createLayerMask(data?: SelectionMask): LayerMask {
+  return {
+    id: `mask-${Date.now()}`,
+    enabled: true,
+    linked: true,
+    inverted: false,
+    density: 100,
+    feather: 0,
+    data,
+  };
+}
+
+/** Mask bitmap for a layer of the given size */
+export function fillMaskData(source: Exclude<MaskSource, 'selection'>, width: number, height: number): SelectionMask {
+  return source === 'revealAll' ? selectAllMask(width, height) : createMask(width, height);
+}
+
+/**
+ * Maps mask pixels to document coordinates. Linked masks follow the layer's
+ * pixel grid; unlinked masks keep the placement frozen when they were unlinked.
+ */
+export function maskTransform(mask: LayerMask, layerWidth: number, layerHeight: number, layerTransform: AffineMatrix): AffineMatrix {
+  if (!mask.linked && mask.transform) return mask.transform;
+
+  const [a, b, c, d, e, f] = layerTransform;
+  const scaleX = mask.data ? layerWidth / mask.data.width : 1;
+  const scaleY = mask.data ? layerHeight / mask.data.height : 1;
+  return [a * scaleX, b * scaleX, c * scaleY, d * scaleY, e, f];
+}
+
+// ============================================
+// COMPOSITING
+// ============================================
+
+/**
+ * The coverage a mask contributes when the layer is composited: inverted,
+ * feathered, then faded towards fully revealed as density drops.
+ * Null when the mask is disabled or has nothing to hide.
+ */
+export function maskCoverage(mask: LayerMask): SelectionMask | null {
+  if (!mask.enabled || !mask.data) return null;
+
+  let coverage = mask.inverted ? invertMask(mask.data) : mask.data;
+  coverage = featherMask(coverage, mask.feather);
+
+  const density = Math.max(0, Math.min(100, mask.density)) / 100;
+  if (density < 1) {
+    for (let i = 0; i < coverage.data.length; i++) {
+      coverage.data[i] = 255 - (255 - coverage.data[i]!) * density;
+    }
+  }
+  return coverage;
+}
+
+/** Multiply the layer's alpha by the coverage (in place), e.g. to apply a mask permanently */
+export function applyMaskToPixels(image: PixelBuffer, coverage: SelectionMask): void {
+  if (image.width !== coverage.width || image.height !== coverage.height) {
+    throw new Error('Mask and layer must have the same size');
+  }
+  for (let i = 0; i < coverage.data.length; i++) {
+    image.data[i * 4 + 3] = (image.data[i * 4 + 3]! * coverage.data[i]!) / 255;
+  }
+}
+
+/** RGBA pixels carrying the coverage in alpha, for clipping */
+export function maskToAlphaPixels(mask: SelectionMask): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(mask.data.length * 4);
+  for (let i = 0; i < mask.data.length; i++) pixels[i * 4 + 3] = mask.data[i]!;
+  return pixels;
+}
+
+/** Opaque greyscale RGBA pixels, for display and for painting into */
+export function maskToGrayPixels(mask: SelectionMask): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(mask.data.length * 4);
+  for (let i = 0; i < mask.data.length; i++) {
+    const value = mask.data[i]!;
+    pixels[i * 4] = value;
+    pixels[i * 4 + 1] = value;
+    pixels[i * 4 + 2] = value;
+    pixels[i * 4 + 3] = 255;
+  }
+  return pixels;
+}
+
+/** Read a mask back from greyscale pixels (the red channel) */
+export function maskFromGrayPixels(image: PixelBuffer): SelectionMask {
+  const mask = createMask(image.width, image.height);
+  for (let i = 0; i < mask.data.length; i++) mask.data[i] = image.data[i * 4]!;
+  return mask;
+}
+
+/** The grey a colour paints into a mask: its luminance as a hex colour */
+export function maskPaintColor(color: string): string {
+  const [r, g, b] = parseHexColor(color);
+  const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b).toString(16).padStart(2, '0');
+  return `#${gray}${gray}${gray}`;
+}
+
+// ============================================
+// SERIALISATION
+// ============================================
+
+// PackBits: a header n >= 0 copies the next n + 1 bytes, n < 0 repeats the next byte 1 - n times
+function packBits(data: Uint8ClampedArray): Uint8Array {
+  // Worst case is all literals: one header per 128 bytes
+  const out = new Uint8Array(data.length + Math.ceil(data.length / 128));
+  let o = 0;
+  let i = 0;
+
+  while (i < data.length) {
+    let run = 1;
+    while (i + run < data.length && run < 128 && data[i + run] === data[i]) run++;
+
+    if (run > 1) {
+      out[o++] = (1 - run) & 255;
+      out[o++] = data[i]!;
+      i += run;
+      continue;
+    }
+
+    const start = i;
+    while (i < data.length && i - start < 128 && !(i + 1 < data.length && data[i + 1] === data[i])) i++;
+    out[o++] = i - start - 1;
+    out.set(data.subarray(start, i), o);
+    o += i - start;
+  }
+
+  return out.subarray(0, o);
+}
+
+function unpackBits(packed: Uint8Array, length: number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(length);
+  let i = 0;
+  let o = 0;
+
+  while (i < packed.length && o < length) {
+    const header = (packed[i++]! << 24) >> 24;
+    if (header >= 0) {
+      for (let n = 0; n <= header; n++) data[o++] = packed[i++]!;
+    } else if (header > -128) {
+      data.fill(packed[i++]!, o, o + 1 - header);
+      o += 1 - header;
+    }
+  }
+  return data;
+}
+
+export function encodeMask(mask: SelectionMask): EncodedMask {
+  const packed = packBits(mask.data);
+  let binary = '';
+  for (let i = 0; i < packed.length; i++) binary += String.fromCharCode(packed[i]!);
+  return { width: mask.width, height: mask.height, packBits: btoa(binary) };
+}
+
+export function decodeMask(encoded: EncodedMask): SelectionMask {
+  const binary = atob(encoded.packBits);
+  const packed = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) packed[i] = binary.charCodeAt(i);
+  return { width: encoded.width, height: encoded.height, data: unpackBits(packed, encoded.width * encoded.height) };
+}
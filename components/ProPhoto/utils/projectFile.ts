@@ -0,0 +1,48 @@
+import type { LayerMask, PhotoLayerExtended } from '../types';
+import type { EncodedMask } from './layerMask';
+import { decodeMask, encodeMask } from './layerMask';
+
+const PROJECT_FORMAT = 'lumina-prophoto';
+const PROJECT_VERSION = 1;
+
+interface SerializedLayerMask extends Omit<LayerMask, 'data'> {
+  data?: EncodedMask;
+}
+
+interface SerializedLayer extends Omit<PhotoLayerExtended, 'mask'> {
+  mask?: SerializedLayerMask;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  layers: SerializedLayer[];
+}
+
+/** Layers as a JSON project file; mask bitmaps are run-length encoded */
+export function serializeProject(layers: PhotoLayerExtended[]): string {
+  const project: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    layers: layers.map(({ mask, ...layer }) => ({
+      ...layer,
+      ...(mask && { mask: { ...mask, data: mask.data && encodeMask(mask.data) } }),
+    })),
+  };
+  return JSON.stringify(project);
+}
+
+export function parseProject(json: string): PhotoLayerExtended[] {
+  const project = JSON.parse(json) as Partial<ProjectFile>;
+  if (project.format !== PROJECT_FORMAT || !Array.isArray(project.layers)) {
+    throw new Error('Not a ProPhoto project file');
+  }
+  if ((project.version ?? 0) > PROJECT_VERSION) {
+    throw new Error(`Unsupported project version ${project.version}`);
+  }
+
+  return project.layers.map(({ mask, ...layer }) => ({
+    ...layer,
+    ...(mask && { mask: { ...mask, data: mask.data && decodeMask(mask.data) } }),
+  }));
+}
@@ -0,0 +1,229 @@
+import type { LayerMask, PhotoLayerExtended, SelectionMask } from '../types';
+import type { PsdDocument, PsdLayer, PsdLayerMask } from '../../../services/psdFormat';
+import type { PSDImageEncoder } from '../../../services/psdImport';
+import { pixelsToDataURL } from '../../../services/psdImport';
+import { groupAncestors } from './layerGroups';
+import type { PixelBuffer } from './selectionMask';
+
+/** A layer painted in document space, ready to be written to a file */
+export interface RenderedLayer {
+  /** Document position of the top-left pixel */
+  left: number;
+  top: number;
+  /** The layer's pixels before its opacity, blend mode and mask are applied */
+  pixels: PixelBuffer;
+  /** The mask bitmap (not inverted) over the same area as the pixels */
+  mask?: SelectionMask;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+function exportMask(mask: LayerMask, rendered: RenderedLayer): PsdLayerMask | undefined {
+  const { width, height } = rendered.pixels;
+  // Without a bitmap the mask reveals everything, or hides everything when inverted
+  if (!rendered.mask && !mask.inverted) return undefined;
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const value = rendered.mask ? rendered.mask.data[i]! : 255;
+    data[i] = mask.inverted ? 255 - value : value;
+  }
+
+  return {
+    left: rendered.left,
+    top: rendered.top,
+    width,
+    height,
+    data,
+    defaultColor: mask.inverted ? 0 : 255,
+    disabled: !mask.enabled,
+    density: mask.density / 100,
+    feather: mask.feather,
+  };
+}
+
+/**
+ * The layer stack as a PSD document. Adjustment layers have no pixels of their
+ * own and are left out, with a warning for each.
+ */
+export function layersToPsd(
+  layers: PhotoLayerExtended[],
+  rendered: Map<string, RenderedLayer>,
+  composite: PixelBuffer
+): { document: PsdDocument; warnings: string[] } {
+  const warnings: string[] = [];
+
+  const convert = (groupId: string | undefined): PsdLayer[] =>
+    layers
+      .filter(layer => groupAncestors(layers, layer)[0]?.id === groupId)
+      .flatMap((layer): PsdLayer[] => {
+        const base = { name: layer.name, opacity: layer.opacity, visible: layer.visible };
+
+        if (layer.isGroup) {
+          return [{
+            ...base,
+            left: 0,
+            top: 0,
+            blendMode: layer.blendMode === 'normal' ? 'pass-through' : layer.blendMode,
+            expanded: layer.isExpanded !== false,
+            children: convert(layer.id),
+          }];
+        }
+        if (layer.type === 'adjustment') {
+          warnings.push(`Adjustment layer "${layer.name}" was left out`);
+          return [];
+        }
+
+        const render = rendered.get(layer.id);
+        if (!render) {
+          warnings.push(`Layer "${layer.name}" could not be rendered`);
+          return [];
+        }
+
+        const mask = layer.mask && exportMask(layer.mask, render);
+        return [{
+          ...base,
+          left: render.left,
+          top: render.top,
+          pixels: { width: render.pixels.width, height: render.pixels.height, data: render.pixels.data },
+          blendMode: layer.blendMode,
+          ...(layer.clippingMask && { clipping: true }),
+          ...(mask && { mask }),
+        }];
+      });
+
+  return {
+    document: {
+      width: composite.width,
+      height: composite.height,
+      layers: convert(undefined),
+      composite: { width: composite.width, height: composite.height, data: composite.data },
+    },
+    warnings,
+  };
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+// PSD masks cover a rectangle of the document; ours cover the layer's pixels
+function importMask(mask: PsdLayerMask, layer: PsdLayer, width: number, height: number): LayerMask {
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const mx = layer.left + x - mask.left;
+      const my = layer.top + y - mask.top;
+      const inside = mx >= 0 && my >= 0 && mx < mask.width && my < mask.height;
+      data[y * width + x] = inside ? mask.data[my * mask.width + mx]! : mask.defaultColor;
+    }
+  }
+
+  return {
+    id: `mask-${Date.now()}`,
+    enabled: !mask.disabled,
+    linked: true,
+    inverted: false,
+    density: Math.round((mask.density ?? 1) * 100),
+    feather: mask.feather ?? 0,
+    data: { width, height, data },
+  };
+}
+
+/**
+ * ProPhoto layers from a PSD document, bottom to top. Text layers keep their
+ * rendered pixels; layers with no pixels are dropped.
+ */
+export function psdToLayers(
+  doc: PsdDocument,
+  encodeImage: PSDImageEncoder = pixelsToDataURL
+): { layers: PhotoLayerExtended[]; warnings: string[] } {
+  const stamp = Date.now();
+  const layers: PhotoLayerExtended[] = [];
+  const warnings: string[] = [];
+  let count = 0;
+  const nextId = () => `layer-${stamp}-${count++}`;
+
+  const base = (layer: PsdLayer, groupId: string | undefined) => ({
+    name: layer.name,
+    opacity: layer.opacity,
+    blendMode: layer.blendMode === 'pass-through' ? 'normal' as const : layer.blendMode,
+    visible: layer.visible,
+    locked: false,
+    filters: [],
+    effects: [],
+    rotation: 0,
+    skewX: 0,
+    skewY: 0,
+    ...(groupId && { groupId }),
+  });
+
+  const add = (list: PsdLayer[], groupId: string | undefined) => {
+    // Clipped layers clip to the nearest unclipped layer below them
+    let clipBase: string | undefined;
+
+    list.forEach(layer => {
+      if (layer.children) {
+        // Members go below the group's own entry
+        const id = nextId();
+        add(layer.children, id);
+        layers.push({
+          ...base(layer, groupId),
+          id,
+          type: 'raster',
+          content: '',
+          x: 0,
+          y: 0,
+          width: doc.width,
+          height: doc.height,
+          isGroup: true,
+          isExpanded: layer.expanded !== false,
+        });
+        clipBase = id;
+        return;
+      }
+
+      if (!layer.pixels) {
+        warnings.push(`Layer "${layer.name}" has no pixels and was skipped`);
+        return;
+      }
+      if (layer.text) warnings.push(`Text layer "${layer.name}" was imported as pixels`);
+
+      const { width, height } = layer.pixels;
+      const id = nextId();
+      layers.push({
+        ...base(layer, groupId),
+        id,
+        type: 'raster',
+        content: encodeImage(layer.pixels),
+        x: layer.left,
+        y: layer.top,
+        width,
+        height,
+        ...(layer.mask && { mask: importMask(layer.mask, layer, width, height) }),
+        ...(layer.clipping && clipBase && { clippingMask: clipBase }),
+      });
+      if (!layer.clipping) clipBase = id;
+    });
+  };
+
+  add(doc.layers, undefined);
+
+  // Flattened files only carry the composite
+  if (layers.length === 0 && doc.composite) {
+    layers.push({
+      ...base({ name: 'Background', left: 0, top: 0, opacity: 1, blendMode: 'normal', visible: true }, undefined),
+      id: nextId(),
+      type: 'raster',
+      content: encodeImage(doc.composite),
+      x: 0,
+      y: 0,
+      width: doc.width,
+      height: doc.height,
+    });
+  }
+
+  return { layers, warnings };
+}
@@ -0,0 +1,304 @@
+import type { BrushStroke, TonalRange } from '../types';
+import type { AffineMatrix, PixelBuffer } from './selectionMask';
+import { brushDynamics } from './brushPresets';
+
+/** One brush imprint along a stroke, in the pixel space being edited */
+export interface RetouchDab {
+  x: number;
+  y: number;
+  radius: number;
+  opacity: number;    // 0-1
+  hardness: number;   // 0-1, the fully opaque fraction of the radius
+}
+
+// Healing interpolates the boundary from at most this many samples
+const MAX_BOUNDARY_SAMPLES = 256;
+
+const LUMA = [0.299, 0.587, 0.114] as const;
+
+// ============================================
+// STROKES
+// ============================================
+
+/** The stroke mapped through `transform` (e.g. screen to layer pixels), brush size included */
+export function transformStroke(stroke: BrushStroke, transform: AffineMatrix): BrushStroke {
+  const [a, b, c, d, e, f] = transform;
+  const scale = Math.sqrt(Math.abs(a * d - b * c));
+  return {
+    ...stroke,
+    brush: { ...stroke.brush, size: stroke.brush.size * scale },
+    points: stroke.points.map(point => ({ ...point, x: a * point.x + c * point.y + e, y: b * point.x + d * point.y + f })),
+  };
+}
+
+/** Evenly spaced dabs along a stroke, following the brush spacing and pen pressure */
+export function strokeDabs(stroke: BrushStroke): RetouchDab[] {
+  const { brush, points } = stroke;
+  const spacing = Math.max(1, brush.size * (brush.spacing / 100));
+  const dabs: RetouchDab[] = [];
+
+  const addDab = (x: number, y: number, pressure: number) => {
+    const dynamics = brushDynamics(brush, pressure);
+    dabs.push({
+      x,
+      y,
+      radius: Math.max(0.5, dynamics.size / 2),
+      opacity: dynamics.opacity,
+      hardness: Math.max(0, Math.min(1, dynamics.hardness / 100)),
+    });
+  };
+
+  const [first, ...rest] = points;
+  if (!first) return dabs;
+  addDab(first.x, first.y, first.pressure);
+
+  rest.reduce((from, to) => {
+    const steps = Math.max(1, Math.floor(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      addDab(from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, from.pressure + (to.pressure - from.pressure) * t);
+    }
+    return to;
+  }, first);
+
+  return dabs;
+}
+
+// Dab weight at a distance from its centre, as a fraction of the radius
+function dabFalloff(distance: number, hardness: number): number {
+  if (distance >= 1) return 0;
+  if (distance <= hardness) return 1;
+  const s = (distance - hardness) / (1 - hardness);
+  return 1 - s * s * (3 - 2 * s);
+}
+
+// Visit the pixels a dab touches with their weight
+function forEachDabPixel(
+  width: number,
+  height: number,
+  dab: RetouchDab,
+  visit: (index: number, weight: number, dx: number, dy: number) => void
+): void {
+  const left = Math.max(0, Math.floor(dab.x - dab.radius));
+  const right = Math.min(width - 1, Math.ceil(dab.x + dab.radius));
+  const top = Math.max(0, Math.floor(dab.y - dab.radius));
+  const bottom = Math.min(height - 1, Math.ceil(dab.y + dab.radius));
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      const dx = x + 0.5 - dab.x;
+      const dy = y + 0.5 - dab.y;
+      const weight = dab.opacity * dabFalloff(Math.hypot(dx, dy) / dab.radius, dab.hardness);
+      if (weight > 0) visit(y * width + x, weight, Math.round(dx), Math.round(dy));
+    }
+  }
+}
+
+/**
+ * How strongly each pixel is painted by the stroke (0-1). Overlapping dabs
+ * don't build up beyond the brush opacity, as with a single stroke.
+ */
+export function strokeCoverage(width: number, height: number, dabs: RetouchDab[]): Float32Array {
+  const coverage = new Float32Array(width * height);
+  for (const dab of dabs) {
+    forEachDabPixel(width, height, dab, (i, weight) => {
+      if (weight > coverage[i]!) coverage[i] = weight;
+    });
+  }
+  return coverage;
+}
+
+// ============================================
+// SAMPLING
+// ============================================
+
+/**
+ * Sample `source` onto a width×height grid (nearest pixel). `transform` maps
+ * grid pixels to source pixels; outside the source is transparent, or the
+ * source repeats when `wrap` is set (for patterns).
+ */
+export function resamplePixels(
+  source: PixelBuffer,
+  width: number,
+  height: number,
+  transform: AffineMatrix,
+  wrap = false
+): PixelBuffer {
+  const [a, b, c, d, e, f] = transform;
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sx = Math.floor(a * (x + 0.5) + c * (y + 0.5) + e);
+      let sy = Math.floor(b * (x + 0.5) + d * (y + 0.5) + f);
+      if (wrap) {
+        sx = ((sx % source.width) + source.width) % source.width;
+        sy = ((sy % source.height) + source.height) % source.height;
+      } else if (sx < 0 || sy < 0 || sx >= source.width || sy >= source.height) {
+        continue;
+      }
+      const from = (sy * source.width + sx) * 4;
+      data.set(source.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+// ============================================
+// SOURCE TOOLS
+// ============================================
+
+/** Clone stamp, pattern stamp and history brush: paint `source` (aligned with the target) where covered */
+export function blendFromSource(target: PixelBuffer, source: PixelBuffer, coverage: Float32Array): void {
+  for (let i = 0; i < coverage.length; i++) {
+    const t = coverage[i]!;
+    if (!t) continue;
+    for (let c = i * 4; c < i * 4 + 4; c++) {
+      target.data[c] = target.data[c]! + (source.data[c]! - target.data[c]!) * t;
+    }
+  }
+}
+
+/**
+ * Healing brush: keeps the source's texture but takes colour and luminance
+ * from around the painted area. The difference between target and source
+ * along the edge of the stroke is interpolated across the inside (inverse
+ * distance weighting, a smooth approximation of a Poisson fill) and added
+ * to the source before it is painted in.
+ */
+export function healFromSource(target: PixelBuffer, source: PixelBuffer, coverage: Float32Array): void {
+  const { width, height } = target;
+  const boundary: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (coverage[i]) continue;
+      const touches =
+        (x > 0 && coverage[i - 1]) ||
+        (x < width - 1 && coverage[i + 1]) ||
+        (y > 0 && coverage[i - width]) ||
+        (y < height - 1 && coverage[i + width]);
+      if (touches) boundary.push(i);
+    }
+  }
+  if (boundary.length === 0) {
+    blendFromSource(target, source, coverage);
+    return;
+  }
+
+  const stride = Math.ceil(boundary.length / MAX_BOUNDARY_SAMPLES);
+  const samples = boundary.filter((_, n) => n % stride === 0).map(i => ({
+    x: i % width,
+    y: Math.floor(i / width),
+    diff: [0, 1, 2].map(c => target.data[i * 4 + c]! - source.data[i * 4 + c]!),
+  }));
+
+  const healed = { width, height, data: source.data.slice() };
+  for (let i = 0; i < coverage.length; i++) {
+    if (!coverage[i]) continue;
+
+    const x = i % width;
+    const y = Math.floor(i / width);
+    let total = 0;
+    const diff = [0, 0, 0];
+    for (const sample of samples) {
+      const weight = 1 / ((sample.x - x) ** 2 + (sample.y - y) ** 2);
+      total += weight;
+      for (let c = 0; c < 3; c++) diff[c] = diff[c]! + sample.diff[c]! * weight;
+    }
+    for (let c = 0; c < 3; c++) healed.data[i * 4 + c] = source.data[i * 4 + c]! + diff[c]! / total;
+    // The target keeps its own transparency
+    healed.data[i * 4 + 3] = target.data[i * 4 + 3]!;
+  }
+
+  blendFromSource(target, healed, coverage);
+}
+
+// ============================================
+// TONAL TOOLS
+// ============================================
+
+// Dodge and burn curves per tonal range; `amount` is the exposure (0-1) and v a channel (0-1)
+function toneChannel(v: number, mode: 'dodge' | 'burn', range: TonalRange, amount: number): number {
+  if (mode === 'dodge') {
+    if (range === 'highlights') return v * (1 + amount);
+    if (range === 'midtones') return v ** (1 / (1 + amount));
+    return amount + v - amount * v;
+  }
+  if (range === 'highlights') return v * (1 - amount);
+  if (range === 'midtones') return v ** (1 + amount);
+  return amount >= 1 ? 0 : (v - amount) / (1 - amount);
+}
+
+/** Dodge (lighten) or burn (darken) the covered pixels within a tonal range; exposure is 0-1 */
+export function dodgeBurn(
+  target: PixelBuffer,
+  coverage: Float32Array,
+  mode: 'dodge' | 'burn',
+  range: TonalRange,
+  exposure: number
+): void {
+  for (let i = 0; i < coverage.length; i++) {
+    const amount = coverage[i]! * exposure;
+    if (!amount) continue;
+    for (let c = i * 4; c < i * 4 + 3; c++) {
+      target.data[c] = toneChannel(target.data[c]! / 255, mode, range, amount) * 255;
+    }
+  }
+}
+
+/** Push the covered pixels' colours away from (saturate) or towards (desaturate) their grey; flow is 0-1 */
+export function sponge(target: PixelBuffer, coverage: Float32Array, mode: 'saturate' | 'desaturate', flow: number): void {
+  for (let i = 0; i < coverage.length; i++) {
+    const amount = coverage[i]! * flow;
+    if (!amount) continue;
+
+    const o = i * 4;
+    const luma = LUMA[0] * target.data[o]! + LUMA[1] * target.data[o + 1]! + LUMA[2] * target.data[o + 2]!;
+    const factor = mode === 'saturate' ? 1 + amount : 1 - amount;
+    for (let c = o; c < o + 3; c++) {
+      target.data[c] = luma + (target.data[c]! - luma) * factor;
+    }
+  }
+}
+
+/**
+ * Smudge: the brush picks up the pixels under the first dab and drags them
+ * along, taking on what it passes over. Higher strength carries colour further.
+ */
+export function smudge(target: PixelBuffer, dabs: RetouchDab[], strength: number): void {
+  const [first, ...rest] = dabs;
+  if (!first) return;
+
+  const { width, height, data } = target;
+  const reach = Math.ceil(Math.max(...dabs.map(dab => dab.radius)));
+  const side = reach * 2 + 1;
+  const picked = new Float32Array(side * side * 4);
+  const filled = new Uint8Array(side * side);
+
+  // What the brush holds at each offset from its centre
+  const pickUp = (dab: RetouchDab) => {
+    forEachDabPixel(width, height, { ...dab, opacity: 1, hardness: 1 }, (i, _, dx, dy) => {
+      const slot = (dy + reach) * side + dx + reach;
+      if (slot < 0 || slot >= filled.length) return;
+      for (let c = 0; c < 4; c++) {
+        const value = data[i * 4 + c]!;
+        picked[slot * 4 + c] = filled[slot] ? picked[slot * 4 + c]! * strength + value * (1 - strength) : value;
+      }
+      filled[slot] = 1;
+    });
+  };
+
+  pickUp(first);
+  for (const dab of rest) {
+    forEachDabPixel(width, height, dab, (i, weight, dx, dy) => {
+      const slot = (dy + reach) * side + dx + reach;
+      if (slot < 0 || slot >= filled.length || !filled[slot]) return;
+      for (let c = 0; c < 4; c++) {
+        data[i * 4 + c] = data[i * 4 + c]! + (picked[slot * 4 + c]! - data[i * 4 + c]!) * weight;
+      }
+    });
+    pickUp(dab);
+  }
+}
@@ -0,0 +1,705 @@
+import type { SelectionMask, SelectionMode } from '../types';
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Affine matrix [a, b, c, d, e, f] in the order used by CanvasRenderingContext2D.setTransform */
+export type AffineMatrix = [number, number, number, number, number, number];
+
+/** The parts of ImageData the mask operations read and write */
+export type PixelBuffer = Pick<ImageData, 'width' | 'height' | 'data'>;
+
+// ============================================
+// BASICS
+// ============================================
+
+export function createMask(width: number, height: number): SelectionMask {
+  return { width, height, data: new Uint8ClampedArray(width * height) };
+}
+
+export function selectAllMask(width: number, height: number): SelectionMask {
+  const mask = createMask(width, height);
+  mask.data.fill(255);
+  return mask;
+}
+
+export function invertMask(mask: SelectionMask): SelectionMask {
+  const result = createMask(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    result.data[i] = 255 - mask.data[i]!;
+  }
+  return result;
+}
+
+export function isMaskEmpty(mask: SelectionMask): boolean {
+  return mask.data.every(value => value === 0);
+}
+
+/** Bounding box of all partially or fully selected pixels, null for an empty mask */
+export function maskBounds(mask: SelectionMask): MaskRect | null {
+  const { width, height, data } = mask;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (data[row + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Merge a new shape into an existing selection.
+ * Add keeps the higher coverage, subtract scales the base by what the shape
+ * leaves uncovered and intersect keeps the lower coverage.
+ */
+export function combineMasks(base: SelectionMask | null, shape: SelectionMask, mode: SelectionMode): SelectionMask {
+  if (mode === 'replace') return shape;
+  if (!base) return mode === 'add' ? shape : createMask(shape.width, shape.height);
+  if (base.width !== shape.width || base.height !== shape.height) {
+    throw new Error('Selection masks must have the same size');
+  }
+
+  const result = createMask(base.width, base.height);
+  for (let i = 0; i < result.data.length; i++) {
+    const a = base.data[i]!;
+    const b = shape.data[i]!;
+    switch (mode) {
+      case 'add':
+        result.data[i] = Math.max(a, b);
+        break;
+      case 'subtract':
+        result.data[i] = (a * (255 - b)) / 255;
+        break;
+      case 'intersect':
+        result.data[i] = Math.min(a, b);
+        break;
+    }
+  }
+  return result;
+}
+
+// ============================================
+// SHAPES
+// ============================================
+
+// Add the horizontal coverage of the span [from, to) to a row accumulator
+function addSpanCoverage(row: Float32Array, from: number, to: number, weight: number): void {
+  const start = Math.max(0, from);
+  const end = Math.min(row.length, to);
+  if (end <= start) return;
+
+  const first = Math.floor(start);
+  const last = Math.floor(end);
+  if (first === last) {
+    row[first] = row[first]! + (end - start) * weight;
+    return;
+  }
+
+  row[first] = row[first]! + (first + 1 - start) * weight;
+  for (let x = first + 1; x < last; x++) row[x] = row[x]! + weight;
+  if (last < row.length) row[last] = row[last]! + (end - last) * weight;
+}
+
+/**
+ * Rasterise a closed polygon (even-odd rule). Anti-aliasing samples four
+ * sub-rows per pixel and uses exact horizontal coverage at span ends.
+ */
+export function polygonMask(width: number, height: number, points: MaskPoint[], antiAlias = true): SelectionMask {
+  const mask = createMask(width, height);
+  if (points.length < 3) return mask;
+
+  let minY = Infinity, maxY = -Infinity;
+  for (const point of points) {
+    minY = Math.min(minY, point.y);
+    maxY = Math.max(maxY, point.y);
+  }
+
+  const samples = antiAlias ? 4 : 1;
+  const weight = 255 / samples;
+  const row = new Float32Array(width);
+  const crossings: number[] = [];
+
+  for (let y = Math.max(0, Math.floor(minY)); y <= Math.min(height - 1, Math.ceil(maxY)); y++) {
+    row.fill(0);
+
+    for (let s = 0; s < samples; s++) {
+      const sampleY = y + (s + 0.5) / samples;
+      crossings.length = 0;
+
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i]!;
+        const b = points[j]!;
+        if ((a.y <= sampleY) !== (b.y <= sampleY)) {
+          crossings.push(a.x + ((sampleY - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((p, q) => p - q);
+
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const from = crossings[k]!;
+        const to = crossings[k + 1]!;
+        if (antiAlias) {
+          addSpanCoverage(row, from, to, weight);
+        } else {
+          // Pixel centres inside the span
+          for (let x = Math.max(0, Math.ceil(from - 0.5)); x < Math.min(width, Math.ceil(to - 0.5)); x++) {
+            row[x] = row[x]! + weight;
+          }
+        }
+      }
+    }
+
+    const offset = y * width;
+    for (let x = 0; x < width; x++) {
+      if (row[x]) mask.data[offset + x] = Math.round(row[x]!);
+    }
+  }
+
+  return mask;
+}
+
+export function rectanglePath(rect: MaskRect): MaskPoint[] {
+  const { x, y, width, height } = normalizeRect(rect);
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+}
+
+export function ellipsePath(rect: MaskRect): MaskPoint[] {
+  const { x, y, width, height } = normalizeRect(rect);
+  const rx = width / 2;
+  const ry = height / 2;
+  // Roughly one vertex every two pixels of circumference
+  const segments = Math.max(16, Math.ceil((Math.PI * (rx + ry)) / 2));
+
+  return Array.from({ length: segments }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2;
+    return { x: x + rx + Math.cos(angle) * rx, y: y + ry + Math.sin(angle) * ry };
+  });
+}
+
+/** Rectangles dragged up or left have a negative size */
+export function normalizeRect(rect: MaskRect): MaskRect {
+  return {
+    x: Math.min(rect.x, rect.x + rect.width),
+    y: Math.min(rect.y, rect.y + rect.height),
+    width: Math.abs(rect.width),
+    height: Math.abs(rect.height),
+  };
+}
+
+// ============================================
+// REFINING
+// ============================================
+
+// Box sizes whose three successive passes approximate a Gaussian of the given sigma
+function boxesForGauss(sigma: number): number[] {
+  const n = 3;
+  const ideal = Math.sqrt((12 * sigma * sigma) / n + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) lower--;
+  const upper = lower + 2;
+  const m = Math.round((12 * sigma * sigma - n * lower * lower - 4 * n * lower - 3 * n) / (-4 * lower - 4));
+  return Array.from({ length: n }, (_, i) => (i < m ? lower : upper));
+}
+
+// Running-sum box blur along one row or column, clamping at the ends
+function blurLine(src: Float32Array, dst: Float32Array, start: number, stride: number, length: number, radius: number): void {
+  const scale = 1 / (2 * radius + 1);
+  const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * stride]!;
+
+  let sum = 0;
+  for (let k = -radius; k <= radius; k++) sum += at(k);
+
+  for (let i = 0; i < length; i++) {
+    dst[start + i * stride] = sum * scale;
+    sum += at(i + radius + 1) - at(i - radius);
+  }
+}
+
+/** Soften the selection edge with a Gaussian of the given radius */
+export function featherMask(mask: SelectionMask, radius: number): SelectionMask {
+  const { width, height } = mask;
+  if (radius <= 0) return { width, height, data: mask.data.slice() };
+
+  let src = Float32Array.from(mask.data);
+  let dst = new Float32Array(src.length);
+
+  for (const size of boxesForGauss(radius)) {
+    const r = (size - 1) / 2;
+    if (r < 1) continue;
+    for (let y = 0; y < height; y++) blurLine(src, dst, y * width, 1, width, r);
+    [src, dst] = [dst, src];
+    for (let x = 0; x < width; x++) blurLine(src, dst, x, width, height, r);
+    [src, dst] = [dst, src];
+  }
+
+  return { width, height, data: Uint8ClampedArray.from(src) };
+}
+
+// Chamfer distance from every pixel to the nearest pixel that is at least half selected
+function distanceToSelection(mask: SelectionMask): Float32Array {
+  const { width, height, data } = mask;
+  const diagonal = Math.SQRT2;
+  const distance = new Float32Array(width * height);
+  for (let i = 0; i < distance.length; i++) distance[i] = data[i]! >= 128 ? 0 : Infinity;
+
+  const relax = (i: number, j: number, cost: number) => {
+    const candidate = distance[j]! + cost;
+    if (candidate < distance[i]!) distance[i] = candidate;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 1);
+      if (y > 0) {
+        relax(i, i - width, 1);
+        if (x > 0) relax(i, i - width - 1, diagonal);
+        if (x < width - 1) relax(i, i - width + 1, diagonal);
+      }
+    }
+  }
+
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 1);
+      if (y < height - 1) {
+        relax(i, i + width, 1);
+        if (x < width - 1) relax(i, i + width + 1, diagonal);
+        if (x > 0) relax(i, i + width - 1, diagonal);
+      }
+    }
+  }
+
+  return distance;
+}
+
+/** Grow the selection outward by the given number of pixels */
+export function expandMask(mask: SelectionMask, amount: number): SelectionMask {
+  const result = { width: mask.width, height: mask.height, data: mask.data.slice() };
+  if (amount <= 0) return result;
+
+  const distance = distanceToSelection(mask);
+  for (let i = 0; i < result.data.length; i++) {
+    if (distance[i]! <= amount) result.data[i] = 255;
+  }
+  return result;
+}
+
+/** Shrink the selection inward; edges on the document border stay put */
+export function contractMask(mask: SelectionMask, amount: number): SelectionMask {
+  return invertMask(expandMask(invertMask(mask), amount));
+}
+
+// ============================================
+// PIXEL-BASED SELECTION
+// ============================================
+
+function withinTolerance(data: Uint8ClampedArray, offset: number, color: ArrayLike<number>, tolerance: number): boolean {
+  return Math.abs(data[offset]! - color[0]!) <= tolerance &&
+    Math.abs(data[offset + 1]! - color[1]!) <= tolerance &&
+    Math.abs(data[offset + 2]! - color[2]!) <= tolerance &&
+    Math.abs(data[offset + 3]! - color[3]!) <= tolerance;
+}
+
+// 4-connected flood fill from the seed pixels over pixels accepted by `matches`
+function floodFill(mask: SelectionMask, seeds: number[], matches: (index: number) => boolean): void {
+  const { width, height, data } = mask;
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  for (const seed of seeds) {
+    if (!data[seed]) {
+      data[seed] = 255;
+      queue[tail++] = seed;
+    }
+  }
+
+  const visit = (i: number) => {
+    if (!data[i] && matches(i)) {
+      data[i] = 255;
+      queue[tail++] = i;
+    }
+  };
+
+  while (head < tail) {
+    const i = queue[head++]!;
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  }
+}
+
+export interface MagicWandOptions {
+  tolerance: number;
+  contiguous: boolean;
+  antiAlias: boolean;
+}
+
+/**
+ * Select pixels whose every channel is within `tolerance` of the clicked
+ * pixel, either connected to it (contiguous) or anywhere in the image.
+ */
+export function magicWandMask(image: PixelBuffer, x: number, y: number, options: MagicWandOptions): SelectionMask {
+  const { width, height, data } = image;
+  const mask = createMask(width, height);
+  const seedX = Math.floor(x);
+  const seedY = Math.floor(y);
+  if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return mask;
+
+  const seed = seedY * width + seedX;
+  const color = data.slice(seed * 4, seed * 4 + 4);
+
+  if (options.contiguous) {
+    floodFill(mask, [seed], i => withinTolerance(data, i * 4, color, options.tolerance));
+  } else {
+    for (let i = 0; i < mask.data.length; i++) {
+      if (withinTolerance(data, i * 4, color, options.tolerance)) mask.data[i] = 255;
+    }
+  }
+
+  return options.antiAlias ? featherMask(mask, 1) : mask;
+}
+
+const QUICK_SELECT_PALETTE_SIZE = 16;
+
+/**
+ * Quick selection: everything under the brush stroke, grown into connected
+ * pixels that match one of the dominant colours sampled by the brush.
+ */
+export function quickSelectMask(image: PixelBuffer, stroke: MaskPoint[], brushSize: number, tolerance: number): SelectionMask {
+  const { width, height, data } = image;
+  const mask = createMask(width, height);
+  const radius = Math.max(1, brushSize / 2);
+
+  // Pixels under the brush
+  const seeds = new Set<number>();
+  for (const point of stroke) {
+    for (let y = Math.max(0, Math.floor(point.y - radius)); y <= Math.min(height - 1, Math.ceil(point.y + radius)); y++) {
+      for (let x = Math.max(0, Math.floor(point.x - radius)); x <= Math.min(width - 1, Math.ceil(point.x + radius)); x++) {
+        if ((x + 0.5 - point.x) ** 2 + (y + 0.5 - point.y) ** 2 <= radius * radius) seeds.add(y * width + x);
+      }
+    }
+  }
+  if (seeds.size === 0) return mask;
+
+  // Average colour of the most common 4-bit-per-channel buckets
+  const buckets = new Map<number, { count: number; sum: [number, number, number, number] }>();
+  for (const i of seeds) {
+    const o = i * 4;
+    const key = ((data[o]! >> 4) << 12) | ((data[o + 1]! >> 4) << 8) | ((data[o + 2]! >> 4) << 4) | (data[o + 3]! >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0, 0] };
+    bucket.count++;
+    for (let c = 0; c < 4; c++) bucket.sum[c] = bucket.sum[c]! + data[o + c]!;
+    buckets.set(key, bucket);
+  }
+  const palette = [...buckets.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, QUICK_SELECT_PALETTE_SIZE)
+    .map(bucket => bucket.sum.map(total => total / bucket.count));
+
+  floodFill(mask, [...seeds], i => palette.some(color => withinTolerance(data, i * 4, color, tolerance)));
+  return featherMask(mask, 1);
+}
+
+// ============================================
+// EDGE SNAPPING (MAGNETIC LASSO)
+// ============================================
+
+/** Sobel gradient magnitude of the luminance, normalised to 0-1 */
+export function edgeStrength(image: PixelBuffer): Float32Array {
+  const { width, height, data } = image;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    luma[i] = (0.299 * data[o]! + 0.587 * data[o + 1]! + 0.114 * data[o + 2]!) * (data[o + 3]! / 255);
+  }
+
+  const edges = new Float32Array(width * height);
+  const at = (x: number, y: number) =>
+    luma[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))]!;
+  let max = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const magnitude = Math.hypot(gx, gy);
+      edges[y * width + x] = magnitude;
+      if (magnitude > max) max = magnitude;
+    }
+  }
+
+  if (max > 0) {
+    for (let i = 0; i < edges.length; i++) edges[i] = edges[i]! / max;
+  }
+  return edges;
+}
+
+/** Move a point to the strongest edge within `radius`, or leave it when there is no edge nearby */
+export function snapToEdge(edges: Float32Array, width: number, height: number, point: MaskPoint, radius: number): MaskPoint {
+  let best = point;
+  let bestStrength = 0.1;
+  let bestDistance = Infinity;
+
+  for (let y = Math.max(0, Math.floor(point.y - radius)); y <= Math.min(height - 1, Math.ceil(point.y + radius)); y++) {
+    for (let x = Math.max(0, Math.floor(point.x - radius)); x <= Math.min(width - 1, Math.ceil(point.x + radius)); x++) {
+      const distance = Math.hypot(x + 0.5 - point.x, y + 0.5 - point.y);
+      if (distance > radius) continue;
+      const strength = edges[y * width + x]!;
+      if (strength > bestStrength || (strength === bestStrength && distance < bestDistance)) {
+        best = { x: x + 0.5, y: y + 0.5 };
+        bestStrength = strength;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return best;
+}
+
+// Binary min-heap of pixel indices keyed by path cost
+class CostHeap {
+  private items: Array<{ index: number; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number, cost: number): void {
+    const items = this.items;
+    items.push({ index, cost });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent]!.cost <= cost) break;
+      items[i] = items[parent]!;
+      i = parent;
+    }
+    items[i] = { index, cost };
+  }
+
+  pop(): { index: number; cost: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (!top || !last || items.length === 0) return top;
+
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      let smallestCost = last.cost;
+      if (left < items.length && items[left]!.cost < smallestCost) {
+        smallest = left;
+        smallestCost = items[left]!.cost;
+      }
+      if (right < items.length && items[right]!.cost < smallestCost) smallest = right;
+      if (smallest === i) break;
+      items[i] = items[smallest]!;
+      i = smallest;
+    }
+    items[i] = last;
+    return top;
+  }
+}
+
+/**
+ * Cheapest 8-connected path between two points where strong edges are cheap
+ * to follow (livewire). The search is limited to the box around both points
+ * plus `margin` pixels.
+ */
+export function traceEdgePath(
+  edges: Float32Array,
+  width: number,
+  height: number,
+  from: MaskPoint,
+  to: MaskPoint,
+  margin = 16
+): MaskPoint[] {
+  const clampX = (x: number) => Math.min(width - 1, Math.max(0, Math.floor(x)));
+  const clampY = (y: number) => Math.min(height - 1, Math.max(0, Math.floor(y)));
+  const left = clampX(Math.min(from.x, to.x) - margin);
+  const top = clampY(Math.min(from.y, to.y) - margin);
+  const boxWidth = clampX(Math.max(from.x, to.x) + margin) - left + 1;
+  const boxHeight = clampY(Math.max(from.y, to.y) + margin) - top + 1;
+
+  const local = (x: number, y: number) => (clampY(y) - top) * boxWidth + (clampX(x) - left);
+  const start = local(from.x, from.y);
+  const goal = local(to.x, to.y);
+
+  const cost = new Float64Array(boxWidth * boxHeight).fill(Infinity);
+  const previous = new Int32Array(boxWidth * boxHeight).fill(-1);
+  const heap = new CostHeap();
+  cost[start] = 0;
+  heap.push(start, 0);
+
+  while (heap.size > 0) {
+    const current = heap.pop()!;
+    if (current.index === goal) break;
+    if (current.cost > cost[current.index]!) continue;
+
+    const cx = current.index % boxWidth;
+    const cy = Math.floor(current.index / boxWidth);
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (!dx && !dy) continue;
+        const nx = cx + dx;
+        const ny = cy + dy;
+        if (nx < 0 || ny < 0 || nx >= boxWidth || ny >= boxHeight) continue;
+
+        const next = ny * boxWidth + nx;
+        const step = (1.05 - edges[(ny + top) * width + nx + left]!) * (dx && dy ? Math.SQRT2 : 1);
+        const candidate = current.cost + step;
+        if (candidate < cost[next]!) {
+          cost[next] = candidate;
+          previous[next] = current.index;
+          heap.push(next, candidate);
+        }
+      }
+    }
+  }
+
+  const path: MaskPoint[] = [];
+  for (let i = goal; i !== -1; i = previous[i]!) {
+    path.push({ x: (i % boxWidth) + left + 0.5, y: Math.floor(i / boxWidth) + top + 0.5 });
+    if (i === start) break;
+  }
+  return path.reverse();
+}
+
+// ============================================
+// APPLYING A SELECTION
+// ============================================
+
+/**
+ * Resample a document-space mask onto a layer's own pixel grid.
+ * `transform` maps layer pixel coordinates to document coordinates.
+ */
+export function maskToLayerSpace(mask: SelectionMask, width: number, height: number, transform: AffineMatrix): SelectionMask {
+  const [a, b, c, d, e, f] = transform;
+  const result = createMask(width, height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const docX = Math.floor(a * (x + 0.5) + c * (y + 0.5) + e);
+      const docY = Math.floor(b * (x + 0.5) + d * (y + 0.5) + f);
+      if (docX >= 0 && docY >= 0 && docX < mask.width && docY < mask.height) {
+        result.data[y * width + x] = mask.data[docY * mask.width + docX]!;
+      }
+    }
+  }
+  return result;
+}
+
+export function parseHexColor(color: string): [number, number, number] {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(ch => ch + ch).join('') : hex;
+  const value = parseInt(full.substring(0, 6), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/** Paint a colour over the selected pixels (in place), weighted by coverage */
+export function fillSelection(image: PixelBuffer, mask: SelectionMask, color: string, opacity = 1): void {
+  const [r, g, b] = parseHexColor(color);
+  const { data } = image;
+
+  for (let i = 0; i < mask.data.length; i++) {
+    const alpha = (mask.data[i]! / 255) * opacity;
+    if (alpha <= 0) continue;
+
+    const o = i * 4;
+    const dstAlpha = data[o + 3]! / 255;
+    const outAlpha = alpha + dstAlpha * (1 - alpha);
+    data[o] = (r * alpha + data[o]! * dstAlpha * (1 - alpha)) / outAlpha;
+    data[o + 1] = (g * alpha + data[o + 1]! * dstAlpha * (1 - alpha)) / outAlpha;
+    data[o + 2] = (b * alpha + data[o + 2]! * dstAlpha * (1 - alpha)) / outAlpha;
+    data[o + 3] = outAlpha * 255;
+  }
+}
+
+/** Make the selected pixels transparent (in place), weighted by coverage */
+export function deleteSelection(image: PixelBuffer, mask: SelectionMask): void {
+  for (let i = 0; i < mask.data.length; i++) {
+    const coverage = mask.data[i]!;
+    if (coverage) image.data[i * 4 + 3] = (image.data[i * 4 + 3]! * (255 - coverage)) / 255;
+  }
+}
+
+/** Blend processed pixels into the target (in place) where selected, e.g. to limit a filter to the selection */
+export function blendSelection(target: PixelBuffer, processed: PixelBuffer, mask: SelectionMask): void {
+  for (let i = 0; i < mask.data.length; i++) {
+    const t = mask.data[i]! / 255;
+    if (!t) continue;
+    for (let c = i * 4; c < i * 4 + 4; c++) {
+      target.data[c] = target.data[c]! + (processed.data[c]! - target.data[c]!) * t;
+    }
+  }
+}
+
+/**
+ * Boundary between selected (at least half covered) and unselected pixels as
+ * line segments [x1, y1, x2, y2, ...] along pixel edges, for marching ants
+ */
+export function maskOutline(mask: SelectionMask): number[] {
+  const { width, height, data } = mask;
+  const selected = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && data[y * width + x]! >= 128;
+  const segments: number[] = [];
+
+  // Horizontal edges between row y - 1 and row y, merged into runs
+  for (let y = 0; y <= height; y++) {
+    let runStart = -1;
+    for (let x = 0; x <= width; x++) {
+      const boundary = x < width && selected(x, y - 1) !== selected(x, y);
+      if (boundary && runStart < 0) {
+        runStart = x;
+      } else if (!boundary && runStart >= 0) {
+        segments.push(runStart, y, x, y);
+        runStart = -1;
+      }
+    }
+  }
+
+  // Vertical edges between column x - 1 and column x
+  for (let x = 0; x <= width; x++) {
+    let runStart = -1;
+    for (let y = 0; y <= height; y++) {
+      const boundary = y < height && selected(x - 1, y) !== selected(x, y);
+      if (boundary && runStart < 0) {
+        runStart = y;
+      } else if (!boundary && runStart >= 0) {
+        segments.push(x, runStart, x, y);
+        runStart = -1;
+      }
+    }
+  }
+
+  return segments;
+}
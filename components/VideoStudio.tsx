@@ -367,10 +367,9 @@ const VideoStudio: React.FC = () => {
           operation = await pollVideoOperation(operation);
           if (operation.done) {
             clearInterval(pollInterval);
-            const videoData = operation.response?.generatedVideos?.[0]?.video;
-            const uri = videoData?.uri;
-            if (uri) {
-              const blob = await fetchVideoData(uri);
+            const videoData = operation.video;
+            if (videoData) {
+              const blob = await fetchVideoData(operation);
               const videoUrl = URL.createObjectURL(blob);
               const finalShots = [...storyboard.shots];
               finalShots[activeShotIndex] = {
@@ -436,10 +435,9 @@ const VideoStudio: React.FC = () => {
           operation = await pollVideoOperation(operation);
           if (operation.done) {
             clearInterval(pollInterval);
-            const videoData = operation.response?.generatedVideos?.[0]?.video;
-            const uri = videoData?.uri;
-            if (uri) {
-              const blob = await fetchVideoData(uri);
+            const videoData = operation.video;
+            if (videoData) {
+              const blob = await fetchVideoData(operation);
               const videoUrl = URL.createObjectURL(blob);
 
               const finalShots = [...storyboard.shots];
@@ -5,6 +5,7 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { roomCollaborationManager } from '../services/collaborationService';
+import type { DesignElement } from '../types';
 import type {
   CollaborationRoom,
   CollaborationResourceType,
@@ -16,6 +17,8 @@ import type {
   CollaborationVersion,
   RoomInvitation,
   RoomPresenceState,
+  MergeConflict,
+  MergedDesignState,
   UseCollaborationOptions,
   UseCollaborationReturn,
 } from '../types/collaboration';
@@ -32,6 +35,7 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
     onParticipantJoin,
     onParticipantLeave,
     onOperation,
+    onConflict,
     onCursorMove,
   } = options;
 
@@ -43,6 +47,7 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
   const [participants, setParticipants] = useState<RoomParticipant[]>([]);
   const [cursors, setCursors] = useState<Map<string, CursorPosition>>(new Map());
   const [selections, setSelections] = useState<Map<string, SelectionRange>>(new Map());
+  const [conflicts, setConflicts] = useState<MergeConflict[]>([]);
 
   // Track previous participants for join/leave detection
   const prevParticipantsRef = useRef<string[]>([]);
@@ -112,6 +117,10 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
       // Set up callbacks before joining
       roomCollaborationManager.setOnPresenceChange(handlePresenceChange);
       roomCollaborationManager.setOnOperationReceived((op) => onOperation?.(op));
+      roomCollaborationManager.setOnConflict((newConflicts) => {
+        setConflicts((prev) => [...prev, ...newConflicts]);
+        onConflict?.(newConflicts);
+      });
       roomCollaborationManager.setOnConnectionChange(setIsConnected);
       roomCollaborationManager.setOnError(setError);
 
@@ -132,7 +141,7 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
       setIsConnecting(false);
       return false;
     }
-  }, [resourceType, resourceId, handlePresenceChange, onOperation, isConnecting, isConnected]);
+  }, [resourceType, resourceId, handlePresenceChange, onOperation, onConflict, isConnecting, isConnected]);
 
   const disconnect = useCallback(async (): Promise<void> => {
     await roomCollaborationManager.leaveRoom();
@@ -141,6 +150,7 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
     setParticipants([]);
     setCursors(new Map());
     setSelections(new Map());
+    setConflicts([]);
     prevParticipantsRef.current = [];
   }, []);
 
@@ -187,6 +197,17 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
     return roomCollaborationManager.sendOperation(type, targetType, data, targetId);
   }, []);
 
+  const replayOperations = useCallback(async (
+    base: DesignElement[] = []
+  ): Promise<MergedDesignState> => {
+    setConflicts([]);
+    return roomCollaborationManager.replayOperations(base);
+  }, []);
+
+  const dismissConflicts = useCallback((): void => {
+    setConflicts([]);
+  }, []);
+
   // ============================================
   // Comments
   // ============================================
@@ -254,6 +275,9 @@ export function useCollaboration(options: UseCollaborationOptions): UseCollabora
 
     // Operations
     sendOperation,
+    replayOperations,
+    conflicts,
+    dismissConflicts,
 
     // Comments
     addComment,
@@ -32,11 +32,15 @@ import { ToastProvider } from './design-system';
 // Initialize services
 import { analytics } from './services/analytics';
 import { errorTracker } from './services/errorTracking';
+import { createAppAPIContext, pluginManager } from './services/pluginService';
 
 // Initialize analytics and error tracking
 analytics.init();
 errorTracker.init();
 
+// Give plugins the app API; the canvas registers itself while it is open
+pluginManager.setAPIContext(createAppAPIContext());
+
 // Register Service Worker
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
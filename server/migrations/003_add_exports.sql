@@ -0,0 +1,27 @@
+-- Lumina Studio D1 Database Schema
+-- Migration: 003_add_exports
+-- Created: 2026-10-19
+-- Description: Track project exports rendered by the client and stored in R2
+
+CREATE TABLE IF NOT EXISTS exports (
+    id TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    workspace_id TEXT NOT NULL,
+    requested_by TEXT,
+    format TEXT NOT NULL CHECK (format IN ('png', 'jpg', 'webp', 'svg', 'pdf', 'gif', 'mp4', 'webm', 'zip')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+    storage_key TEXT,
+    file_size INTEGER,
+    mime_type TEXT,
+    options_json TEXT,
+    error TEXT,
+    created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    completed_at INTEGER,
+    FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE,
+    FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE,
+    FOREIGN KEY (requested_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_exports_project ON exports(project_id);
+CREATE INDEX IF NOT EXISTS idx_exports_workspace ON exports(workspace_id);
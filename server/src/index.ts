@@ -13,6 +13,15 @@ import { secureHeaders } from 'hono/secure-headers';
 import { Webhook } from 'svix';
 import Stripe from 'stripe';
 import { Env, AIGenerationResponse } from './types/env';
+import { verifyClerkToken, parseList, SigningKeyUnavailableError } from './middleware/auth';
+import { checkQuota, recordUsage } from './services/quota';
+import { encodeBase64, getAIBackend, modelLabel } from './services/ai';
+import projectRoutes from './routes/projects';
+import assetRoutes, { sweepExpiredUploads } from './routes/assets';
+import brandKitRoutes from './routes/brandKits';
+import campaignRoutes from './routes/campaigns';
+import chatRoutes from './routes/chat';
+import exportRoutes from './routes/exports';
 
 // Create the main Hono app
 const app = new Hono<{ Bindings: Env }>();
@@ -324,38 +333,37 @@ const authMiddleware = async (c: any, next: any) => {
     return c.json({ error: 'Missing authorization header' }, 401);
   }
 
+  const issuer = c.env.CLERK_ISSUER;
+  if (!issuer) {
+    console.error('CLERK_ISSUER not configured');
+    return c.json({ error: 'Authentication configuration error' }, 500);
+  }
+
   const token = authHeader.substring(7);
 
   try {
-    // Decode JWT payload (base64url) to extract user ID
-    // Clerk JWTs have the user ID in the 'sub' claim
-    const parts = token.split('.');
-    if (parts.length !== 3) {
-      return c.json({ error: 'Invalid token format' }, 401);
-    }
-
-    // Decode the payload (second part)
-    const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
-
-    if (!payload.sub) {
-      return c.json({ error: 'Invalid token: missing user ID' }, 401);
-    }
-
-    // Verify token hasn't expired
-    const now = Math.floor(Date.now() / 1000);
-    if (payload.exp && payload.exp < now) {
-      return c.json({ error: 'Token expired' }, 401);
-    }
+    // Verify the Clerk session token against the instance's signing keys
+    const claims = await verifyClerkToken(token, {
+      issuer,
+      authorizedParties: parseList(c.env.CLERK_AUTHORIZED_PARTIES),
+      jwksUrl: c.env.CLERK_JWKS_URL,
+      cache: c.env.RATE_LIMIT_KV,
+    });
 
     // Set user context
-    c.set('userId', payload.sub);
-    c.set('sessionId', payload.sid || 'unknown');
-
-    return next();
+    c.set('userId', claims.sub);
+    c.set('sessionId', claims.sid || 'unknown');
   } catch (error) {
+    // Details stay in the logs; clients only learn whether to retry
     console.error('Auth error:', error);
-    return c.json({ error: 'Invalid token' }, 401);
+    const unavailable = error instanceof SigningKeyUnavailableError;
+    return c.json(
+      { error: unavailable ? 'Authentication temporarily unavailable' : 'Invalid token' },
+      unavailable ? 503 : 401
+    );
   }
+
+  return next();
 };
 
 // Protected routes
@@ -369,106 +377,6 @@ v1.use('/campaigns/*', authMiddleware);
 v1.use('/chat/*', authMiddleware);
 v1.use('/exports/*', authMiddleware);
 
-// ===========================================
-// Quota Helper Functions
-// ===========================================
-
-interface QuotaCheckResult {
-  allowed: boolean;
-  tier: string;
-  used: number;
-  limit: number;
-  remaining: number;
-  overageAllowed: boolean;
-}
-
-async function checkQuota(
-  db: D1Database,
-  userId: string,
-  usageType: string
-): Promise<QuotaCheckResult> {
-  const billingPeriod = new Date().toISOString().substring(0, 7); // YYYY-MM
-
-  // Get user tier
-  const user = await db.prepare(
-    'SELECT tier FROM users WHERE id = ?'
-  ).bind(userId).first();
-
-  const tier = (user?.tier as string) || 'free';
-
-  // Get quota limits for this tier and usage type
-  const quota = await db.prepare(
-    'SELECT monthly_limit, overage_allowed FROM tier_quotas WHERE tier = ? AND usage_type = ?'
-  ).bind(tier, usageType).first();
-
-  // Default limits if no quota record exists
-  const monthlyLimit = (quota?.monthly_limit as number) ?? 10;
-  const overageAllowed = (quota?.overage_allowed as number) === 1;
-
-  // Get current usage for this billing period
-  const usage = await db.prepare(`
-    SELECT COALESCE(SUM(quantity), 0) as total
-    FROM usage_records
-    WHERE user_id = ? AND usage_type = ? AND billing_period = ?
-  `).bind(userId, usageType, billingPeriod).first();
-
-  const used = (usage?.total as number) || 0;
-
-  // Check if unlimited (-1 means unlimited)
-  if (monthlyLimit === -1) {
-    return {
-      allowed: true,
-      tier,
-      used,
-      limit: -1,
-      remaining: -1,
-      overageAllowed: true,
-    };
-  }
-
-  const remaining = Math.max(0, monthlyLimit - used);
-  const allowed = remaining > 0 || overageAllowed;
-
-  return {
-    allowed,
-    tier,
-    used,
-    limit: monthlyLimit,
-    remaining,
-    overageAllowed,
-  };
-}
-
-async function recordUsage(
-  db: D1Database,
-  userId: string,
-  usageType: string,
-  quantity: number = 1,
-  metadata: { workspaceId?: string; projectId?: string; assetId?: string; modelUsed?: string } = {}
-): Promise<void> {
-  const billingPeriod = new Date().toISOString().substring(0, 7);
-  const now = Math.floor(Date.now() / 1000);
-  const usageId = `usage_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
-
-  await db.prepare(`
-    INSERT INTO usage_records (
-      id, user_id, workspace_id, usage_type, quantity,
-      model_used, project_id, asset_id, billing_period, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-  `).bind(
-    usageId,
-    userId,
-    metadata.workspaceId || null,
-    usageType,
-    quantity,
-    metadata.modelUsed || null,
-    metadata.projectId || null,
-    metadata.assetId || null,
-    billingPeriod,
-    now
-  ).run();
-}
-
 // Current user endpoint
 v1.get('/auth/me', authMiddleware, async (c) => {
   const userId = c.get('userId');
@@ -539,10 +447,9 @@ v1.get('/auth/quota', authMiddleware, async (c) => {
 });
 
 // ===========================================
-// Placeholder Route Groups
+// Workspaces
 // ===========================================
 
-// Workspaces
 v1.get('/workspaces', async (c) => {
   const userId = c.get('userId');
 
@@ -581,37 +488,16 @@ v1.post('/workspaces', async (c) => {
   return c.json(workspace, 201);
 });
 
-// Projects
-v1.get('/workspaces/:wsId/projects', async (c) => {
-  const { wsId } = c.req.param();
-
-  const projects = await c.env.DB.prepare(`
-    SELECT * FROM projects
-    WHERE workspace_id = ?
-    ORDER BY updated_at DESC
-  `).bind(wsId).all();
-
-  return c.json({ data: projects.results || [] });
-});
-
-v1.post('/workspaces/:wsId/projects', async (c) => {
-  const { wsId } = c.req.param();
-  const userId = c.get('userId');
-  const body = await c.req.json();
-
-  const projectId = `prj_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
-
-  await c.env.DB.prepare(`
-    INSERT INTO projects (id, workspace_id, owner_id, name, description, project_type, status, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, 'draft', strftime('%s', 'now'), strftime('%s', 'now'))
-  `).bind(projectId, wsId, userId, body.name, body.description || null, body.project_type).run();
-
-  const project = await c.env.DB.prepare(
-    'SELECT * FROM projects WHERE id = ?'
-  ).bind(projectId).first();
+// ===========================================
+// Resource Routes
+// ===========================================
 
-  return c.json(project, 201);
-});
+v1.route('/', projectRoutes);
+v1.route('/', assetRoutes);
+v1.route('/', brandKitRoutes);
+v1.route('/', campaignRoutes);
+v1.route('/', chatRoutes);
+v1.route('/', exportRoutes);
 
 // ===========================================
 // AI Generation Endpoints
@@ -647,25 +533,23 @@ v1.post('/ai/generate/image', async (c) => {
   const generationId = `gen_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
 
   try {
-    // Call Cloudflare Workers AI for image generation
-    // Using stable-diffusion-xl-base-1.0 model
-    const aiResponse = await c.env.AI.run('@cf/stabilityai/stable-diffusion-xl-base-1.0', {
-      prompt: body.prompt,
-      num_steps: body.quality === 'hd' ? 30 : body.quality === 'ultra' ? 50 : 20,
-    });
+    const backend = getAIBackend(c.env);
+    const model = modelLabel(backend.imageModel);
+    const image = await backend.generateImage(body.prompt, { quality: body.quality });
+    const extension = image.mimeType === 'image/svg+xml' ? 'svg' : 'png';
 
     // Store generated image in R2 if bucket is available
     let assetId: string | null = null;
     let cdnUrl: string | null = null;
 
-    if (c.env.ASSETS_BUCKET && aiResponse) {
+    if (c.env.ASSETS_BUCKET) {
       assetId = `asset_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
-      const storageKey = `generated/${userId}/${assetId}.png`;
+      const storageKey = `generated/${userId}/${assetId}.${extension}`;
 
       // Store image in R2
-      await c.env.ASSETS_BUCKET.put(storageKey, aiResponse, {
+      await c.env.ASSETS_BUCKET.put(storageKey, image.data, {
         httpMetadata: {
-          contentType: 'image/png',
+          contentType: image.mimeType,
         },
         customMetadata: {
           userId,
@@ -682,15 +566,18 @@ v1.post('/ai/generate/image', async (c) => {
           mime_type, file_size, asset_type, storage_key, processing_status,
           is_ai_generated, generation_prompt, generation_model,
           created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, 'image/png', 0, 'image', ?, 'completed', 1, ?, 'stable-diffusion-xl-base-1.0', ?, ?)
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'image', ?, 'completed', 1, ?, ?, ?, ?)
       `).bind(
         assetId,
         body.workspace_id || null,
         userId,
-        `generated-${assetId}.png`,
-        `generated-image.png`,
+        `generated-${assetId}.${extension}`,
+        `generated-image.${extension}`,
+        image.mimeType,
+        image.data.byteLength,
         storageKey,
         body.prompt.substring(0, 1000),
+        model,
         now,
         now
       ).run();
@@ -703,7 +590,7 @@ v1.post('/ai/generate/image', async (c) => {
       workspaceId: body.workspace_id,
       projectId: body.project_id,
       assetId: assetId || undefined,
-      modelUsed: 'stable-diffusion-xl-base-1.0',
+      modelUsed: model,
     });
 
     const generationTime = Date.now() - startTime;
@@ -716,17 +603,17 @@ v1.post('/ai/generate/image', async (c) => {
         id: assetId,
         workspace_id: body.workspace_id || '',
         uploaded_by: userId,
-        filename: `generated-${assetId}.png`,
-        original_filename: 'generated-image.png',
-        mime_type: 'image/png',
-        file_size: 0,
+        filename: `generated-${assetId}.${extension}`,
+        original_filename: `generated-image.${extension}`,
+        mime_type: image.mimeType,
+        file_size: image.data.byteLength,
         asset_type: 'image',
-        storage_key: `generated/${userId}/${assetId}.png`,
+        storage_key: `generated/${userId}/${assetId}.${extension}`,
         cdn_url: cdnUrl,
         processing_status: 'completed',
         is_ai_generated: 1,
         generation_prompt: body.prompt,
-        generation_model: 'stable-diffusion-xl-base-1.0',
+        generation_model: model,
         width: 1024,
         height: 1024,
         duration_seconds: null,
@@ -743,6 +630,8 @@ v1.post('/ai/generate/image', async (c) => {
         limit: quotaCheck.limit,
       },
       generation_time_ms: generationTime,
+      // Clients without asset storage access (the Workers AI provider) ask for the image inline
+      ...(body.inline ? { image: `data:${image.mimeType};base64,${encodeBase64(image.data)}` } : {}),
     };
 
     return c.json(response, 201);
@@ -908,7 +797,7 @@ v1.post('/ai/generate/text', async (c) => {
   const generationId = `gen_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
 
   try {
-    // Build system prompt based on context
+    // Build system prompt based on context; clients may send their own
     let systemPrompt = 'You are a helpful creative assistant for Lumina Studio, a creative design and content platform.';
 
     if (body.context === 'brand') {
@@ -919,26 +808,26 @@ v1.post('/ai/generate/text', async (c) => {
       systemPrompt = 'You are a creative director helping brainstorm design concepts, image descriptions, and visual ideas.';
     }
 
-    // Call Cloudflare Workers AI for text generation
-    // Using Meta Llama 3.1 8B Instruct model
-    const aiResponse = await c.env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: body.prompt },
-      ],
-      max_tokens: body.max_tokens || 1024,
+    if (typeof body.system === 'string' && body.system.trim()) {
+      systemPrompt = body.system;
+    }
+
+    const backend = getAIBackend(c.env);
+    const model = modelLabel(backend.textModel);
+    const generatedText = await backend.generateText([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: body.prompt },
+    ], {
+      maxTokens: body.max_tokens || 1024,
       temperature: body.temperature || 0.7,
+      schema: body.schema && typeof body.schema === 'object' ? body.schema : undefined,
     });
 
-    const generatedText = typeof aiResponse === 'object' && 'response' in aiResponse
-      ? (aiResponse as { response: string }).response
-      : String(aiResponse);
-
     // Record usage after successful generation
     await recordUsage(c.env.DB, userId, 'ai_text_generation', 1, {
       workspaceId: body.workspace_id,
       projectId: body.project_id,
-      modelUsed: 'llama-3.1-8b-instruct',
+      modelUsed: model,
     });
 
     const generationTime = Date.now() - startTime;
@@ -950,7 +839,7 @@ v1.post('/ai/generate/text', async (c) => {
       result: generatedText,
       prompt: body.prompt,
       context: body.context || 'general',
-      model: 'llama-3.1-8b-instruct',
+      model,
       usage: {
         type: 'ai_text_generation',
         remaining: newRemaining,
@@ -1472,4 +1361,18 @@ app.notFound((c) => {
   }, 404);
 });
 
-export default app;
+// ===========================================
+// Scheduled Jobs
+// ===========================================
+
+const scheduled: ExportedHandlerScheduledHandler<Env> = (_controller, env, ctx) => {
+  ctx.waitUntil(
+    sweepExpiredUploads(env)
+      .then((removed) => {
+        if (removed > 0) console.log(`Removed ${removed} expired uploads`);
+      })
+      .catch((error) => console.error('Expired upload sweep failed:', error))
+  );
+};
+
+export default { fetch: app.fetch, scheduled } satisfies ExportedHandler<Env>;
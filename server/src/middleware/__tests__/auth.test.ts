@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { SigningKeyUnavailableError, verifyClerkToken } from '../auth';
+import type { JWK, JWKSCache, VerifyTokenOptions } from '../auth';
+
+const ISSUER = 'https://clerk.example.test';
+const JWKS_URL = `${ISSUER}/.well-known/jwks.json`;
+
+interface SigningKey {
+  kid: string;
+  privateKey: CryptoKey;
+  jwk: JWK;
+}
+
+function base64Url(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function generateKey(kid: string): Promise<SigningKey> {
+  const pair = (await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  )) as CryptoKeyPair;
+  const { n, e } = (await crypto.subtle.exportKey('jwk', pair.publicKey)) as JsonWebKey;
+  return { kid, privateKey: pair.privateKey, jwk: { kty: 'RSA', kid, use: 'sig', alg: 'RS256', n, e } };
+}
+
+async function sign(key: SigningKey, claims: Record<string, unknown>, header: Record<string, unknown> = {}): Promise<string> {
+  const input = `${base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: key.kid, ...header }))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key.privateKey, new TextEncoder().encode(input));
+  return `${input}.${base64Url(new Uint8Array(signature))}`;
+}
+
+/** In-memory stand-in for the KV namespace */
+function createCache(): JWKSCache & { store: Map<string, string> } {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: (key) => Promise.resolve(store.has(key) ? JSON.parse(store.get(key)!) : null),
+    put: (key, value) => {
+      store.set(key, value);
+      return Promise.resolve();
+    },
+  };
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  sub: 'user_123',
+  sid: 'sess_456',
+  iss: ISSUER,
+  azp: 'https://app.example.test',
+  iat: now(),
+  nbf: now(),
+  exp: now() + 60,
+  ...overrides,
+});
+
+describe('verifyClerkToken', () => {
+  let primary: SigningKey;
+  let rotated: SigningKey;
+  let published: JWK[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let options: VerifyTokenOptions;
+
+  beforeAll(async () => {
+    primary = await generateKey('key-1');
+    rotated = await generateKey('key-2');
+  });
+
+  beforeEach(() => {
+    published = [primary.jwk];
+    fetchMock = vi.fn(() => Promise.resolve(new Response(JSON.stringify({ keys: published }))));
+    vi.stubGlobal('fetch', fetchMock);
+    options = { issuer: ISSUER, authorizedParties: ['https://app.example.test'], cache: createCache() };
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('accepts a valid token and returns its claims', async () => {
+    const result = await verifyClerkToken(await sign(primary, claims()), options);
+
+    expect(result.sub).toBe('user_123');
+    expect(result.sid).toBe('sess_456');
+    expect(fetchMock).toHaveBeenCalledWith(JWKS_URL, expect.anything());
+  });
+
+  it('rejects tokens signed by another key under a published kid', async () => {
+    const forged = await sign({ ...rotated, kid: 'key-1' }, claims());
+
+    await expect(verifyClerkToken(forged, options)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects tampered payloads', async () => {
+    const [header, , signature] = (await sign(primary, claims())).split('.');
+    const tampered = `${header}.${base64Url(JSON.stringify(claims({ sub: 'user_admin' })))}.${signature}`;
+
+    await expect(verifyClerkToken(tampered, options)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('rejects unsigned and non-RS256 tokens', async () => {
+    const unsigned = `${base64Url(JSON.stringify({ alg: 'none' }))}.${base64Url(JSON.stringify(claims()))}.`;
+
+    await expect(verifyClerkToken(unsigned, options)).rejects.toThrow('Unsupported token algorithm');
+    await expect(verifyClerkToken(await sign(primary, claims(), { alg: 'HS256' }), options)).rejects.toThrow(
+      'Unsupported token algorithm'
+    );
+  });
+
+  it('checks the issuer and authorized party', async () => {
+    await expect(
+      verifyClerkToken(await sign(primary, claims({ iss: 'https://evil.example.test' })), options)
+    ).rejects.toThrow('Invalid token issuer');
+    await expect(
+      verifyClerkToken(await sign(primary, claims({ azp: 'https://evil.example.test' })), options)
+    ).rejects.toThrow('Invalid authorized party');
+  });
+
+  it('tolerates clock skew on exp and nbf', async () => {
+    const expiredJustNow = await sign(primary, claims({ exp: now() - 3 }));
+    const notYetValid = await sign(primary, claims({ nbf: now() + 3 }));
+
+    await expect(verifyClerkToken(expiredJustNow, options)).resolves.toMatchObject({ sub: 'user_123' });
+    await expect(verifyClerkToken(notYetValid, options)).resolves.toMatchObject({ sub: 'user_123' });
+    await expect(verifyClerkToken(expiredJustNow, { ...options, clockSkewSeconds: 0 })).rejects.toThrow(
+      'Token expired'
+    );
+    await expect(verifyClerkToken(await sign(primary, claims({ exp: now() - 30 })), options)).rejects.toThrow(
+      'Token expired'
+    );
+  });
+
+  it('caches signing keys in KV', async () => {
+    const token = await sign(primary, claims());
+
+    await verifyClerkToken(token, options);
+    await verifyClerkToken(token, options);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect([...(options.cache as ReturnType<typeof createCache>).store.keys()]).toEqual([`clerk_jwks:${JWKS_URL}`]);
+  });
+
+  it('refetches keys after rotation, but not for every unknown kid', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await verifyClerkToken(await sign(primary, claims()), options);
+
+    published = [primary.jwk, rotated.jwk];
+    const fromRotatedKey = await sign(rotated, claims());
+    // Keys were fetched moments ago, so the unknown kid is not trusted yet
+    await expect(verifyClerkToken(fromRotatedKey, options)).rejects.toThrow('Unknown signing key');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 301_000);
+    await expect(verifyClerkToken(await sign(rotated, claims()), options)).resolves.toMatchObject({
+      sub: 'user_123',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports key retrieval failures apart from bad tokens', async () => {
+    const token = await sign(primary, claims());
+
+    fetchMock.mockResolvedValueOnce(new Response('upstream down', { status: 500 }));
+    await expect(verifyClerkToken(token, options)).rejects.toBeInstanceOf(SigningKeyUnavailableError);
+
+    fetchMock.mockRejectedValueOnce(new TypeError('network error'));
+    await expect(verifyClerkToken(token, options)).rejects.toBeInstanceOf(SigningKeyUnavailableError);
+
+    const failingCache: JWKSCache = { get: () => Promise.reject(new Error('KV down')), put: () => Promise.resolve() };
+    await expect(verifyClerkToken(token, { ...options, cache: failingCache })).rejects.toBeInstanceOf(
+      SigningKeyUnavailableError
+    );
+
+    await expect(verifyClerkToken(await sign(rotated, claims()), options)).rejects.not.toBeInstanceOf(
+      SigningKeyUnavailableError
+    );
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Lumina Studio API - Clerk JWT Verification
+ *
+ * Verifies Clerk session tokens (RS256) against the instance's JWKS.
+ * Signing keys are cached in KV so most requests don't hit Clerk.
+ */
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface JWK {
+  kty: string;
+  kid?: string;
+  use?: string;
+  alg?: string;
+  n?: string;
+  e?: string;
+}
+
+export interface ClerkTokenClaims {
+  sub: string;
+  iss: string;
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  azp?: string;
+  sid?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Subset of KVNamespace used for the key cache
+ */
+export interface JWKSCache {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface VerifyTokenOptions {
+  /** Clerk Frontend API URL, e.g. https://clerk.example.com */
+  issuer: string;
+  /** Origins allowed in the `azp` claim; unchecked when empty */
+  authorizedParties?: string[];
+  /** Defaults to `${issuer}/.well-known/jwks.json` */
+  jwksUrl?: string;
+  cache?: JWKSCache;
+  clockSkewSeconds?: number;
+}
+
+interface CachedJWKS {
+  keys: JWK[];
+  fetchedAt: number;
+}
+
+/**
+ * Signing keys couldn't be loaded from Clerk or KV. The token itself may be
+ * fine, so callers should answer with a server error rather than a 401.
+ */
+export class SigningKeyUnavailableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SigningKeyUnavailableError';
+  }
+}
+
+// ===========================================
+// Constants
+// ===========================================
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 5;
+
+// How long signing keys stay in KV
+const JWKS_CACHE_TTL_SECONDS = 3600;
+
+// Minimum time between refetches when a token names an unknown key,
+// so forged `kid` values can't make every request call Clerk
+const JWKS_REFRESH_INTERVAL_SECONDS = 300;
+
+const JWKS_CACHE_PREFIX = 'clerk_jwks:';
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function decodeJSONSegment(segment: string): Record<string, unknown> {
+  const value: unknown = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Invalid token format');
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Parse comma-separated config values (same format as ALLOWED_ORIGINS)
+ */
+export function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// ===========================================
+// JWKS
+// ===========================================
+
+async function fetchJWKS(url: string): Promise<JWK[]> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: 'application/json' } });
+  } catch (error) {
+    throw new SigningKeyUnavailableError('Failed to fetch JWKS', { cause: error });
+  }
+  if (!response.ok) {
+    throw new SigningKeyUnavailableError(`Failed to fetch JWKS: ${response.status}`);
+  }
+
+  const body = (await response.json().catch(() => null)) as { keys?: JWK[] } | null;
+  if (!Array.isArray(body?.keys)) {
+    throw new SigningKeyUnavailableError('Invalid JWKS response');
+  }
+  return body.keys;
+}
+
+async function readCachedJWKS(cache: JWKSCache | undefined, cacheKey: string): Promise<CachedJWKS | null> {
+  try {
+    return ((await cache?.get(cacheKey, 'json')) as CachedJWKS | null | undefined) ?? null;
+  } catch (error) {
+    throw new SigningKeyUnavailableError('Failed to read JWKS cache', { cause: error });
+  }
+}
+
+async function writeCachedJWKS(cache: JWKSCache | undefined, cacheKey: string, entry: CachedJWKS): Promise<void> {
+  try {
+    await cache?.put(cacheKey, JSON.stringify(entry), { expirationTtl: JWKS_CACHE_TTL_SECONDS });
+  } catch (error) {
+    throw new SigningKeyUnavailableError('Failed to write JWKS cache', { cause: error });
+  }
+}
+
+async function getSigningKey(kid: string, jwksUrl: string, cache?: JWKSCache): Promise<JWK> {
+  const cacheKey = `${JWKS_CACHE_PREFIX}${jwksUrl}`;
+  const now = Math.floor(Date.now() / 1000);
+
+  const cached = await readCachedJWKS(cache, cacheKey);
+  const cachedKey = cached?.keys.find((key) => key.kid === kid);
+  if (cachedKey) {
+    return cachedKey;
+  }
+
+  // Unknown key: refetch (Clerk may have rotated keys), unless we just did
+  if (cached && now - cached.fetchedAt < JWKS_REFRESH_INTERVAL_SECONDS) {
+    throw new Error('Unknown signing key');
+  }
+
+  const keys = await fetchJWKS(jwksUrl);
+  const entry: CachedJWKS = { keys, fetchedAt: now };
+  await writeCachedJWKS(cache, cacheKey, entry);
+
+  const key = keys.find((k) => k.kid === kid);
+  if (!key) {
+    throw new Error('Unknown signing key');
+  }
+  return key;
+}
+
+// ===========================================
+// Verification
+// ===========================================
+
+/**
+ * Verify a Clerk session token and return its claims.
+ * Throws if the token is not acceptable, or SigningKeyUnavailableError if
+ * the keys to check it against couldn't be loaded.
+ */
+export async function verifyClerkToken(
+  token: string,
+  options: VerifyTokenOptions
+): Promise<ClerkTokenClaims> {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Invalid token format');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = parts as [string, string, string];
+
+  let header: Record<string, unknown>;
+  let payload: Record<string, unknown>;
+  try {
+    header = decodeJSONSegment(headerSegment);
+    payload = decodeJSONSegment(payloadSegment);
+  } catch {
+    throw new Error('Invalid token format');
+  }
+
+  if (header.alg !== 'RS256') {
+    throw new Error('Unsupported token algorithm');
+  }
+  if (typeof header.kid !== 'string') {
+    throw new Error('Invalid token: missing key ID');
+  }
+
+  // Signature first, so nothing below trusts unverified claims
+  const issuer = options.issuer.replace(/\/+$/, '');
+  const jwk = await getSigningKey(
+    header.kid,
+    options.jwksUrl || `${issuer}/.well-known/jwks.json`,
+    options.cache
+  );
+  if (jwk.kty !== 'RSA' || (jwk.use && jwk.use !== 'sig') || (jwk.alg && jwk.alg !== 'RS256')) {
+    throw new Error('Unsupported signing key');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlDecode(signatureSegment),
+    new TextEncoder().encode(`${headerSegment}.${payloadSegment}`)
+  );
+  if (!valid) {
+    throw new Error('Invalid token signature');
+  }
+
+  if (payload.iss !== issuer) {
+    throw new Error('Invalid token issuer');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const skew = options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS;
+
+  if (typeof payload.exp !== 'number') {
+    throw new Error('Invalid token: missing expiry');
+  }
+  if (payload.exp + skew < now) {
+    throw new Error('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - skew > now) {
+    throw new Error('Token not yet valid');
+  }
+  if (typeof payload.iat === 'number' && payload.iat - skew > now) {
+    throw new Error('Token issued in the future');
+  }
+
+  const authorizedParties = options.authorizedParties || [];
+  if (
+    authorizedParties.length > 0 &&
+    payload.azp !== undefined &&
+    !authorizedParties.includes(payload.azp as string)
+  ) {
+    throw new Error('Invalid authorized party');
+  }
+
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new Error('Invalid token: missing user ID');
+  }
+
+  return payload as ClerkTokenClaims;
+}
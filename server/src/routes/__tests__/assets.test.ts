@@ -0,0 +1,126 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import assetRoutes, { sweepExpiredUploads } from '../assets';
+import type { UploadResponse } from '../../types/env';
+import { USERS, WORKSPACE_ID, setupRoutes } from './harness';
+import type { TestContext } from './harness';
+
+const bytes = new TextEncoder().encode('not really a png');
+
+describe('asset upload', () => {
+  let ctx: TestContext;
+
+  const reserve = async (userId: string = USERS.editor) => {
+    const res = await ctx.request(userId, `/workspaces/${WORKSPACE_ID}/assets/upload`, {
+      method: 'POST',
+      body: { filename: '../logo?.png', mime_type: 'image/png', file_size: bytes.byteLength },
+    });
+    expect(res.status).toBe(201);
+    return res.json<UploadResponse>();
+  };
+
+  const send = (userId: string, assetId: string, body: Uint8Array = bytes) =>
+    ctx.request(userId, `/assets/${assetId}/upload`, {
+      method: 'PUT',
+      body,
+      headers: { 'Content-Type': 'image/png', 'Content-Length': String(body.byteLength) },
+    });
+
+  const complete = (userId: string, uploadId: string) =>
+    ctx.request(userId, `/workspaces/${WORKSPACE_ID}/assets/upload/complete`, {
+      method: 'POST',
+      body: { upload_id: uploadId, width: 64, height: 32 },
+    });
+
+  beforeEach(async () => {
+    ctx = await setupRoutes(assetRoutes);
+  });
+
+  it('publishes an asset once its bytes are uploaded and confirmed', async () => {
+    const upload = await reserve();
+    expect(upload.upload_url).toBe(`/v1/assets/${upload.asset_id}/upload`);
+
+    // Pending uploads are not listed
+    const listBefore = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/assets`);
+    expect((await listBefore.json<{ data: unknown[] }>()).data).toEqual([]);
+
+    expect((await send(USERS.editor, upload.asset_id)).status).toBe(200);
+    const res = await complete(USERS.editor, upload.upload_id);
+    expect(res.status).toBe(200);
+
+    const asset = await res.json<{ storage_key: string; filename: string; processing_status: string; width: number }>();
+    expect(asset).toMatchObject({ filename: '.._logo.png', processing_status: 'completed', width: 64 });
+    expect(ctx.storage.objects.get(asset.storage_key)).toEqual({ data: bytes, contentType: 'image/png' });
+
+    const list = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/assets`);
+    expect((await list.json<{ data: Array<{ id: string }> }>()).data.map((a) => a.id)).toEqual([upload.asset_id]);
+    expect(ctx.db.query('SELECT version_number, file_size, created_by FROM asset_versions')).toEqual([
+      { version_number: 1, file_size: bytes.byteLength, created_by: USERS.editor },
+    ]);
+    expect(ctx.db.query("SELECT quantity FROM usage_records WHERE user_id = ? AND usage_type = 'storage_bytes'", USERS.editor))
+      .toEqual([{ quantity: bytes.byteLength }]);
+
+    const download = await ctx.request(USERS.viewer, `/assets/${upload.asset_id}/download`);
+    expect(new Uint8Array(await download.arrayBuffer())).toEqual(bytes);
+  });
+
+  it('only accepts the bytes and confirmation from the uploader', async () => {
+    const upload = await reserve(USERS.editor);
+
+    expect((await send(USERS.admin, upload.asset_id)).status).toBe(409);
+    expect(ctx.storage.objects.size).toBe(0);
+
+    expect((await send(USERS.editor, upload.asset_id)).status).toBe(200);
+    expect((await complete(USERS.admin, upload.upload_id)).status).toBe(404);
+    expect((await complete(USERS.editor, upload.upload_id)).status).toBe(200);
+
+    // Completed uploads cannot be overwritten
+    expect((await send(USERS.editor, upload.asset_id)).status).toBe(409);
+  });
+
+  it('rejects uploads after the upload URL expires', async () => {
+    const upload = await reserve();
+    ctx.db.query('UPDATE assets SET created_at = created_at - 3601 WHERE id = ?', upload.asset_id);
+
+    expect((await send(USERS.editor, upload.asset_id)).status).toBe(410);
+  });
+
+  it('sweeps expired pending uploads and their bytes', async () => {
+    const abandoned = await reserve();
+    expect((await send(USERS.editor, abandoned.asset_id)).status).toBe(200);
+    const fresh = await reserve();
+    const published = await reserve();
+    await send(USERS.editor, published.asset_id);
+    await complete(USERS.editor, published.upload_id);
+    ctx.db.query('UPDATE assets SET created_at = created_at - 3601 WHERE id IN (?, ?)', abandoned.asset_id, published.asset_id);
+
+    expect(await sweepExpiredUploads({ DB: ctx.db.DB, ASSETS_BUCKET: ctx.storage.bucket })).toBe(1);
+
+    const remaining = ctx.db.query<{ id: string }>('SELECT id FROM assets').map((row) => row.id);
+    expect(remaining).toHaveLength(2);
+    expect(remaining).toEqual(expect.arrayContaining([fresh.asset_id, published.asset_id]));
+    expect(ctx.storage.objects.size).toBe(1);
+    expect(await sweepExpiredUploads({ DB: ctx.db.DB, ASSETS_BUCKET: ctx.storage.bucket })).toBe(0);
+  });
+
+  it('checks the declared size and that the file arrived', async () => {
+    const upload = await reserve();
+
+    expect((await send(USERS.editor, upload.asset_id, new Uint8Array(3))).status).toBe(400);
+    expect((await complete(USERS.editor, upload.upload_id)).status).toBe(400);
+  });
+
+  it('keeps viewers and non-members out', async () => {
+    const viewer = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/assets/upload`, {
+      method: 'POST',
+      body: { filename: 'a.png', mime_type: 'image/png', file_size: 1 },
+    });
+    expect(viewer.status).toBe(403);
+
+    const upload = await reserve();
+    expect((await ctx.request(USERS.outsider, `/workspaces/${WORKSPACE_ID}/assets`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/assets/${upload.asset_id}`)).status).toBe(404);
+    expect((await send(USERS.outsider, upload.asset_id)).status).toBe(404);
+    expect((await send(USERS.viewer, upload.asset_id)).status).toBe(403);
+  });
+});
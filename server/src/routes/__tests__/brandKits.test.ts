@@ -0,0 +1,51 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import brandKitRoutes from '../brandKits';
+import type { BrandKit } from '../../types/env';
+import { USERS, WORKSPACE_ID, setupRoutes } from './harness';
+import type { TestContext } from './harness';
+
+describe('brand kit routes', () => {
+  let ctx: TestContext;
+
+  const createBrandKit = async (name: string, isDefault = false) => {
+    const res = await ctx.request(USERS.editor, `/workspaces/${WORKSPACE_ID}/brand-kits`, {
+      method: 'POST',
+      body: { name, is_default: isDefault },
+    });
+    expect(res.status).toBe(201);
+    return res.json<BrandKit>();
+  };
+
+  beforeEach(async () => {
+    ctx = await setupRoutes(brandKitRoutes);
+  });
+
+  it('keeps a single default brand kit per workspace', async () => {
+    const first = await createBrandKit('Primary', true);
+    const second = await createBrandKit('Seasonal', true);
+
+    expect(ctx.db.query('SELECT id, is_default FROM brand_kits ORDER BY name')).toEqual([
+      { id: first.id, is_default: 0 },
+      { id: second.id, is_default: 1 },
+    ]);
+  });
+
+  it('requires editors to write and admins to delete', async () => {
+    const kit = await createBrandKit('Primary');
+
+    const viewer = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/brand-kits`, { method: 'POST', body: { name: 'Nope' } });
+    expect(viewer.status).toBe(403);
+    expect((await ctx.request(USERS.viewer, `/brand-kits/${kit.id}`, { method: 'PATCH', body: { name: 'Nope' } })).status).toBe(403);
+    expect((await ctx.request(USERS.editor, `/brand-kits/${kit.id}`, { method: 'DELETE' })).status).toBe(403);
+    expect((await ctx.request(USERS.admin, `/brand-kits/${kit.id}`, { method: 'DELETE' })).status).toBe(200);
+  });
+
+  it('answers 404 to non-members', async () => {
+    const kit = await createBrandKit('Primary');
+
+    expect((await ctx.request(USERS.outsider, `/workspaces/${WORKSPACE_ID}/brand-kits`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/brand-kits/${kit.id}`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/brand-kits/${kit.id}`, { method: 'DELETE' })).status).toBe(404);
+  });
+});
@@ -0,0 +1,41 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import campaignRoutes from '../campaigns';
+import type { Campaign } from '../../types/env';
+import { USERS, WORKSPACE_ID, setupRoutes } from './harness';
+import type { TestContext } from './harness';
+
+describe('campaign routes', () => {
+  let ctx: TestContext;
+
+  const createCampaign = async () => {
+    const res = await ctx.request(USERS.editor, `/workspaces/${WORKSPACE_ID}/campaigns`, {
+      method: 'POST',
+      body: { name: 'Spring launch' },
+    });
+    expect(res.status).toBe(201);
+    return res.json<Campaign>();
+  };
+
+  beforeEach(async () => {
+    ctx = await setupRoutes(campaignRoutes);
+  });
+
+  it('requires editors to write and admins to delete', async () => {
+    const campaign = await createCampaign();
+
+    const viewer = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/campaigns`, { method: 'POST', body: { name: 'Nope' } });
+    expect(viewer.status).toBe(403);
+    expect((await ctx.request(USERS.viewer, `/campaigns/${campaign.id}/posts`, { method: 'POST', body: { platform: 'instagram' } })).status).toBe(403);
+    expect((await ctx.request(USERS.editor, `/campaigns/${campaign.id}`, { method: 'DELETE' })).status).toBe(403);
+    expect((await ctx.request(USERS.owner, `/campaigns/${campaign.id}`, { method: 'DELETE' })).status).toBe(200);
+  });
+
+  it('answers 404 to non-members', async () => {
+    const campaign = await createCampaign();
+
+    expect((await ctx.request(USERS.outsider, `/workspaces/${WORKSPACE_ID}/campaigns`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/campaigns/${campaign.id}`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/campaigns/${campaign.id}/posts`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,48 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import chatRoutes from '../chat';
+import type { ChatSession } from '../../types/env';
+import { OTHER_WORKSPACE_ID, USERS, WORKSPACE_ID, setupRoutes } from './harness';
+import type { TestContext } from './harness';
+
+describe('chat routes', () => {
+  let ctx: TestContext;
+
+  const createSession = async (userId: string, body: Record<string, unknown> = {}) =>
+    ctx.request(userId, '/chat/sessions', { method: 'POST', body: { title: 'Ideas', ...body } });
+
+  beforeEach(async () => {
+    ctx = await setupRoutes(chatRoutes);
+  });
+
+  it('hides sessions from everyone but their creator', async () => {
+    const session = await (await createSession(USERS.editor, { workspace_id: WORKSPACE_ID })).json<ChatSession>();
+
+    expect((await ctx.request(USERS.editor, `/chat/sessions/${session.id}`)).status).toBe(200);
+    // Workspace membership doesn't open another member's session
+    expect((await ctx.request(USERS.owner, `/chat/sessions/${session.id}`)).status).toBe(404);
+    expect((await ctx.request(USERS.owner, `/chat/sessions/${session.id}/messages`, { method: 'POST', body: { content: 'hi' } })).status).toBe(404);
+    expect((await ctx.request(USERS.owner, `/chat/sessions/${session.id}`, { method: 'DELETE' })).status).toBe(404);
+
+    const list = await ctx.request(USERS.owner, `/chat/sessions?workspace_id=${WORKSPACE_ID}`);
+    expect((await list.json<{ data: unknown[] }>()).data).toEqual([]);
+
+    expect((await ctx.request(USERS.editor, `/chat/sessions/${session.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect(ctx.db.query('SELECT id FROM chat_sessions')).toEqual([]);
+  });
+
+  it('requires membership to attach a session to a workspace or project', async () => {
+    ctx.db.query(
+      "INSERT INTO projects (id, workspace_id, owner_id, name, project_type) VALUES ('prj_1', ?, ?, 'Launch', 'design')",
+      WORKSPACE_ID, USERS.owner
+    );
+
+    expect((await createSession(USERS.outsider, { workspace_id: WORKSPACE_ID })).status).toBe(404);
+    expect((await createSession(USERS.outsider, { project_id: 'prj_1' })).status).toBe(404);
+    // A project from a different workspace than the one named
+    expect((await createSession(USERS.outsider, { workspace_id: OTHER_WORKSPACE_ID, project_id: 'prj_1' })).status).toBe(404);
+
+    expect((await createSession(USERS.viewer, { workspace_id: WORKSPACE_ID, project_id: 'prj_1' })).status).toBe(201);
+    expect((await createSession(USERS.outsider)).status).toBe(201);
+  });
+});
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import exportRoutes from '../exports';
+import type { Export } from '../../types/env';
+import { USERS, WORKSPACE_ID, setupRoutes } from './harness';
+import type { TestContext } from './harness';
+
+const PROJECT_ID = 'prj_launch';
+const pdf = new TextEncoder().encode('%PDF-1.7 rendered');
+
+describe('export routes', () => {
+  let ctx: TestContext;
+
+  const start = async (userId: string = USERS.editor) => {
+    const res = await ctx.request(userId, `/projects/${PROJECT_ID}/export`, { method: 'POST', body: { format: 'pdf' } });
+    expect(res.status).toBe(201);
+    return res.json<Export & { upload_url: string }>();
+  };
+
+  const upload = (userId: string, exportId: string) =>
+    ctx.request(userId, `/exports/${exportId}/file`, {
+      method: 'PUT',
+      body: pdf,
+      headers: { 'Content-Length': String(pdf.byteLength) },
+    });
+
+  beforeEach(async () => {
+    ctx = await setupRoutes(exportRoutes);
+    ctx.db.query(
+      "INSERT INTO projects (id, workspace_id, owner_id, name, project_type) VALUES (?, ?, ?, 'Launch', 'document')",
+      PROJECT_ID, WORKSPACE_ID, USERS.owner
+    );
+  });
+
+  it('stores the rendered file and serves it back', async () => {
+    const created = await start();
+    expect(created).toMatchObject({ status: 'pending', requested_by: USERS.editor, mime_type: 'application/pdf' });
+    expect(created.upload_url).toBe(`/v1/exports/${created.id}/file`);
+
+    expect((await ctx.request(USERS.viewer, `/exports/${created.id}/download`)).status).toBe(409);
+
+    const res = await upload(USERS.editor, created.id);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: 'completed', file_size: pdf.byteLength });
+
+    const download = await ctx.request(USERS.viewer, `/exports/${created.id}/download`);
+    expect(download.headers.get('Content-Type')).toBe('application/pdf');
+    expect(new Uint8Array(await download.arrayBuffer())).toEqual(pdf);
+    expect(ctx.db.query("SELECT quantity FROM usage_records WHERE usage_type = 'export_render'")).toEqual([{ quantity: 1 }]);
+  });
+
+  it('only takes the file from the user who requested the export', async () => {
+    const created = await start(USERS.editor);
+
+    expect((await upload(USERS.admin, created.id)).status).toBe(409);
+    expect(ctx.storage.objects.size).toBe(0);
+  });
+
+  it('keeps viewers and non-members out', async () => {
+    expect((await ctx.request(USERS.viewer, `/projects/${PROJECT_ID}/export`, { method: 'POST', body: { format: 'pdf' } })).status).toBe(403);
+
+    const created = await start();
+    expect((await ctx.request(USERS.outsider, `/projects/${PROJECT_ID}/exports`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/exports/${created.id}`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/exports/${created.id}/download`)).status).toBe(404);
+  });
+
+  it('keeps exports when the requesting user is deleted', async () => {
+    const created = await start(USERS.editor);
+    ctx.db.query('DELETE FROM users WHERE id = ?', USERS.editor);
+
+    const res = await ctx.request(USERS.viewer, `/exports/${created.id}`);
+    expect(await res.json()).toMatchObject({ id: created.id, requested_by: null });
+  });
+});
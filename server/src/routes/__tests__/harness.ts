@@ -0,0 +1,239 @@
+/// <reference types="node" />
+/**
+ * Lumina Studio API - Route Test Harness
+ *
+ * Runs the routes against stand-ins for the Worker bindings: D1 backed by an
+ * in-memory SQLite database with the real migrations applied, and R2 backed
+ * by a Map. The tests run in the node environment: the DOM shim drops
+ * Content-Length from requests, which the upload routes check.
+ */
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { resolve } from 'node:path';
+import initSqlJs from 'sql.js';
+import type { Database, SqlValue } from 'sql.js';
+import { Hono } from 'hono';
+import type { Env } from '../../types/env';
+
+const MIGRATIONS_DIR = resolve(__dirname, '../../../migrations');
+
+// ===========================================
+// D1
+// ===========================================
+
+// D1 stores booleans as 1/0 and rejects undefined
+function toSqlValue(value: unknown): SqlValue {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === undefined) throw new Error('D1_TYPE_ERROR: Type undefined is not supported');
+  return value as SqlValue;
+}
+
+class StubStatement {
+  constructor(
+    private readonly sqlite: Database,
+    private readonly query: string,
+    private readonly values: unknown[] = []
+  ) {}
+
+  bind(...values: unknown[]): StubStatement {
+    return new StubStatement(this.sqlite, this.query, values);
+  }
+
+  execute(): Array<Record<string, unknown>> {
+    const statement = this.sqlite.prepare(this.query);
+    try {
+      statement.bind(this.values.map(toSqlValue));
+      const rows: Array<Record<string, unknown>> = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  first<T>(column?: string): Promise<T | null> {
+    const row = this.execute()[0];
+    if (!row) return Promise.resolve(null);
+    return Promise.resolve((column ? row[column] ?? null : row) as T | null);
+  }
+
+  all<T>(): Promise<{ results: T[]; success: true; meta: Record<string, number> }> {
+    return Promise.resolve({ results: this.execute() as T[], success: true, meta: {} });
+  }
+
+  run(): Promise<{ results: []; success: true; meta: { changes: number } }> {
+    this.execute();
+    return Promise.resolve({ results: [], success: true, meta: { changes: this.sqlite.getRowsModified() } });
+  }
+}
+
+export interface TestDatabase {
+  DB: D1Database;
+  /** Direct access for seeding and assertions */
+  query: <T = Record<string, unknown>>(sql: string, ...values: unknown[]) => T[];
+}
+
+/**
+ * A fresh database with every migration applied and foreign keys enforced, as in D1
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const SQL = await initSqlJs();
+  const sqlite = new SQL.Database();
+  sqlite.run('PRAGMA foreign_keys = ON');
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith('.sql')).sort()) {
+    sqlite.exec(readFileSync(resolve(MIGRATIONS_DIR, file), 'utf8'));
+  }
+
+  const DB = {
+    prepare: (query: string) => new StubStatement(sqlite, query),
+    // D1 runs a batch as one transaction
+    batch: async (statements: StubStatement[]) => {
+      sqlite.run('BEGIN');
+      try {
+        const results = [];
+        for (const statement of statements) results.push(await statement.run());
+        sqlite.run('COMMIT');
+        return results;
+      } catch (error) {
+        sqlite.run('ROLLBACK');
+        throw error;
+      }
+    },
+  };
+
+  return {
+    DB: DB as unknown as D1Database,
+    query: <T>(sql: string, ...values: unknown[]) => new StubStatement(sqlite, sql, values).execute() as T[],
+  };
+}
+
+// ===========================================
+// R2
+// ===========================================
+
+interface StoredObject {
+  data: Uint8Array;
+  contentType?: string;
+}
+
+export interface TestBucket {
+  bucket: R2Bucket;
+  objects: Map<string, StoredObject>;
+}
+
+export function createTestBucket(): TestBucket {
+  const objects = new Map<string, StoredObject>();
+  const describe = (key: string, data: Uint8Array) => ({ key, size: data.byteLength, httpEtag: `"${key}:${data.byteLength}"` });
+
+  const bucket = {
+    put: async (key: string, value: BodyInit, options?: R2PutOptions) => {
+      const data = new Uint8Array(await new Response(value).arrayBuffer());
+      const httpMetadata = options?.httpMetadata;
+      const contentType = httpMetadata instanceof Headers
+        ? httpMetadata.get('Content-Type') ?? undefined
+        : httpMetadata?.contentType;
+      objects.set(key, { data, contentType });
+      return describe(key, data);
+    },
+    head: (key: string) => {
+      const object = objects.get(key);
+      return Promise.resolve(object ? describe(key, object.data) : null);
+    },
+    get: (key: string) => {
+      const object = objects.get(key);
+      return Promise.resolve(object ? { ...describe(key, object.data), body: new Response(object.data).body } : null);
+    },
+    delete: (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key);
+      return Promise.resolve();
+    },
+  };
+
+  return { bucket: bucket as unknown as R2Bucket, objects };
+}
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+/** Users of the seeded workspace by role, plus one outsider with a workspace of their own */
+export const USERS = {
+  owner: 'user_owner',
+  admin: 'user_admin',
+  editor: 'user_editor',
+  viewer: 'user_viewer',
+  outsider: 'user_outsider',
+} as const;
+
+export const WORKSPACE_ID = 'ws_team';
+export const OTHER_WORKSPACE_ID = 'ws_outsider';
+
+export function seedWorkspace(db: TestDatabase): void {
+  for (const [role, id] of Object.entries(USERS)) {
+    db.query('INSERT INTO users (id, email) VALUES (?, ?)', id, `${role}@example.test`);
+  }
+
+  db.query('INSERT INTO workspaces (id, name, slug, owner_id) VALUES (?, ?, ?, ?)', WORKSPACE_ID, 'Team', 'team', USERS.owner);
+  for (const role of ['owner', 'admin', 'editor', 'viewer'] as const) {
+    db.query(
+      'INSERT INTO workspace_members (id, workspace_id, user_id, role) VALUES (?, ?, ?, ?)',
+      `wm_${role}`, WORKSPACE_ID, USERS[role], role
+    );
+  }
+
+  db.query('INSERT INTO workspaces (id, name, slug, owner_id) VALUES (?, ?, ?, ?)', OTHER_WORKSPACE_ID, 'Outsider', 'outsider', USERS.outsider);
+  db.query(
+    'INSERT INTO workspace_members (id, workspace_id, user_id, role) VALUES (?, ?, ?, ?)',
+    'wm_outsider', OTHER_WORKSPACE_ID, USERS.outsider, 'owner'
+  );
+}
+
+// ===========================================
+// App
+// ===========================================
+
+export type TestClient = (userId: string, path: string, init?: { method?: string; body?: unknown; headers?: Record<string, string> }) => Promise<Response>;
+
+/**
+ * Mount routes behind a stand-in for the auth middleware. JSON bodies are
+ * serialized; anything else is sent as-is.
+ */
+export function createClient(routes: Hono<{ Bindings: Env }>, env: Partial<Env>): TestClient {
+  const app = new Hono<{ Bindings: Env }>();
+  app.use('*', async (c, next) => {
+    c.set('userId', c.req.header('X-Test-User') || '');
+    await next();
+  });
+  app.route('/', routes);
+
+  return (userId, path, init = {}) => {
+    const isRaw = init.body instanceof Uint8Array || typeof init.body === 'string';
+    return Promise.resolve(app.request(path, {
+      method: init.method ?? 'GET',
+      headers: {
+        'X-Test-User': userId,
+        ...(init.body !== undefined && !isRaw ? { 'Content-Type': 'application/json' } : {}),
+        ...init.headers,
+      },
+      body: init.body === undefined ? undefined : isRaw ? init.body as BodyInit : JSON.stringify(init.body),
+    }, { MAX_UPLOAD_SIZE_MB: '100', ...env }));
+  };
+}
+
+export interface TestContext {
+  db: TestDatabase;
+  storage: TestBucket;
+  request: TestClient;
+}
+
+/**
+ * A seeded database and an empty bucket behind the given routes
+ */
+export async function setupRoutes(routes: Hono<{ Bindings: Env }>): Promise<TestContext> {
+  const db = await createTestDatabase();
+  seedWorkspace(db);
+  const storage = createTestBucket();
+
+  return { db, storage, request: createClient(routes, { DB: db.DB, ASSETS_BUCKET: storage.bucket }) };
+}
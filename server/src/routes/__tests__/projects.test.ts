@@ -0,0 +1,64 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it } from 'vitest';
+import projectRoutes from '../projects';
+import { OTHER_WORKSPACE_ID, USERS, WORKSPACE_ID, setupRoutes } from './harness';
+import type { TestContext } from './harness';
+
+describe('project routes', () => {
+  let ctx: TestContext;
+
+  const createProject = async (userId: string = USERS.editor) => {
+    const res = await ctx.request(userId, `/workspaces/${WORKSPACE_ID}/projects`, {
+      method: 'POST',
+      body: { name: 'Launch', project_type: 'design', is_template: true },
+    });
+    expect(res.status).toBe(201);
+    return res.json<{ id: string; owner_id: string; is_template: number }>();
+  };
+
+  beforeEach(async () => {
+    ctx = await setupRoutes(projectRoutes);
+  });
+
+  it('lets editors create projects they own', async () => {
+    const project = await createProject();
+
+    expect(project).toMatchObject({ owner_id: USERS.editor, is_template: 1 });
+    const list = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/projects`);
+    expect((await list.json<{ data: Array<{ id: string }> }>()).data.map((p) => p.id)).toEqual([project.id]);
+  });
+
+  it('answers 404 to non-members so IDs are not confirmed', async () => {
+    const project = await createProject();
+
+    expect((await ctx.request(USERS.outsider, `/workspaces/${WORKSPACE_ID}/projects`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/projects/${project.id}`)).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/projects/${project.id}`, { method: 'PATCH', body: { name: 'Mine' } })).status).toBe(404);
+    expect((await ctx.request(USERS.outsider, `/projects/${project.id}`, { method: 'DELETE' })).status).toBe(404);
+    // Nor does a workspace the caller does belong to open another one's rows
+    expect((await ctx.request(USERS.editor, `/workspaces/${OTHER_WORKSPACE_ID}/projects`)).status).toBe(404);
+  });
+
+  it('answers 403 to viewers on writes', async () => {
+    const project = await createProject();
+
+    const create = await ctx.request(USERS.viewer, `/workspaces/${WORKSPACE_ID}/projects`, {
+      method: 'POST',
+      body: { name: 'Nope', project_type: 'design' },
+    });
+    expect(create.status).toBe(403);
+    expect((await ctx.request(USERS.viewer, `/projects/${project.id}`, { method: 'PATCH', body: { name: 'Nope' } })).status).toBe(403);
+    expect((await ctx.request(USERS.viewer, `/projects/${project.id}`)).status).toBe(200);
+  });
+
+  it('only lets the owner or an admin delete a project', async () => {
+    const project = await createProject();
+
+    expect((await ctx.request(USERS.viewer, `/projects/${project.id}`, { method: 'DELETE' })).status).toBe(403);
+    expect((await ctx.request(USERS.admin, `/projects/${project.id}`, { method: 'DELETE' })).status).toBe(200);
+
+    const own = await createProject();
+    expect((await ctx.request(USERS.editor, `/projects/${own.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect(ctx.db.query('SELECT id FROM projects')).toEqual([]);
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Lumina Studio API - Asset Routes
+ *
+ * Asset metadata lives in D1 and file contents in R2. Uploads go through
+ * the Worker in three steps:
+ *   1. POST /workspaces/:wsId/assets/upload          - reserve an asset, get an upload URL
+ *   2. PUT  /assets/:id/upload                       - send the file bytes
+ *   3. POST /workspaces/:wsId/assets/upload/complete - verify and publish the asset
+ * Uploads that are never completed are removed by sweepExpiredUploads.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { Asset, Env, UploadRequest, UploadResponse } from '../types/env';
+import { checkWorkspaceAccess, loadWorkspaceRow } from '../utils/access';
+import { paginatedQuery, parsePagination, updateRow } from '../utils/db';
+import { generateId } from '../utils/id';
+import { missingFields, pickFields, readJSONBody } from '../utils/validation';
+import type { FieldSpec } from '../utils/validation';
+import { checkQuota, recordUsage } from '../services/quota';
+
+const assets = new Hono<{ Bindings: Env }>();
+
+// Pending uploads must be sent within this window
+const UPLOAD_URL_TTL_SECONDS = 3600;
+
+const ASSET_TYPES = ['image', 'video', 'audio', 'document', 'font', 'model3d', 'other'] as const;
+
+const ASSET_FIELDS: FieldSpec = {
+  filename: 'string',
+  description: 'string',
+  alt_text: 'string',
+  tags_json: 'json',
+  width: 'number',
+  height: 'number',
+  duration_seconds: 'number',
+};
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function storageUnavailable(c: Context<{ Bindings: Env }>) {
+  return c.json({ error: 'Asset storage is not configured' }, 503);
+}
+
+function assetTypeForMime(mimeType: string): Asset['asset_type'] {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('font/') || mimeType === 'application/font-woff') return 'font';
+  if (mimeType.startsWith('model/')) return 'model3d';
+  if (mimeType === 'application/pdf' || mimeType.startsWith('text/') || mimeType.includes('document')) {
+    return 'document';
+  }
+  return 'other';
+}
+
+/**
+ * Keep storage keys and download names free of path separators and control characters
+ */
+function sanitizeFilename(filename: string): string {
+  const cleaned = filename
+    .replace(/[/\\]/g, '_')
+    .replace(/[^\w.\- ]/g, '')
+    .trim()
+    .substring(0, 200);
+  return cleaned || 'file';
+}
+
+/**
+ * Clients send `tags` as an array; it's stored in `tags_json`
+ */
+function normalizeTags(body: Record<string, unknown>): Record<string, unknown> {
+  return body.tags !== undefined && body.tags_json === undefined ? { ...body, tags_json: body.tags } : body;
+}
+
+function storageKey(workspaceId: string, assetId: string, filename: string, version = 1): string {
+  return `workspaces/${workspaceId}/assets/${assetId}/v${version}/${filename}`;
+}
+
+// ===========================================
+// Listing & Metadata
+// ===========================================
+
+assets.get('/workspaces/:wsId/assets', async (c) => {
+  const { wsId } = c.req.param();
+
+  const denied = await checkWorkspaceAccess(c, wsId);
+  if (denied) return denied;
+
+  // Pending uploads aren't assets yet
+  const conditions = ['workspace_id = ?', "processing_status != 'pending'"];
+  const binds: unknown[] = [wsId];
+
+  const type = c.req.query('type');
+  if (type) {
+    conditions.push('asset_type = ?');
+    binds.push(type);
+  }
+  const search = c.req.query('search');
+  if (search) {
+    conditions.push('(filename LIKE ? OR description LIKE ?)');
+    binds.push(`%${search}%`, `%${search}%`);
+  }
+  if (c.req.query('ai_generated') === 'true') {
+    conditions.push('is_ai_generated = 1');
+  }
+
+  const result = await paginatedQuery<Asset>(c.env.DB, {
+    from: `assets WHERE ${conditions.join(' AND ')}`,
+    orderBy: 'created_at DESC',
+    binds,
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+assets.get('/assets/:id', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'viewer', 'Asset not found');
+  if (error) return error;
+
+  return c.json(asset);
+});
+
+assets.patch('/assets/:id', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'editor', 'Asset not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(normalizeTags(body), ASSET_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (columns.length > 0) {
+    await updateRow(c.env.DB, 'assets', asset.id, columns, values);
+  }
+
+  const updated = await c.env.DB.prepare(
+    'SELECT * FROM assets WHERE id = ?'
+  ).bind(asset.id).first();
+
+  return c.json(updated);
+});
+
+assets.delete('/assets/:id', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'editor', 'Asset not found');
+  if (error) return error;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  const versions = await c.env.DB.prepare(
+    'SELECT storage_key FROM asset_versions WHERE asset_id = ?'
+  ).bind(asset.id).all<{ storage_key: string }>();
+
+  const keys = new Set([asset.storage_key, ...(versions.results || []).map((v) => v.storage_key)]);
+  await bucket.delete([...keys]);
+
+  await c.env.DB.prepare('DELETE FROM assets WHERE id = ?').bind(asset.id).run();
+
+  // Give the storage back to the uploader's quota
+  if (asset.processing_status !== 'pending') {
+    await recordUsage(c.env.DB, asset.uploaded_by, 'storage_bytes', -asset.file_size, {
+      workspaceId: asset.workspace_id,
+    });
+  }
+
+  return c.json({ success: true });
+});
+
+// ===========================================
+// Upload
+// ===========================================
+
+assets.post('/workspaces/:wsId/assets/upload', async (c) => {
+  const { wsId } = c.req.param();
+  const userId = c.get('userId');
+
+  const denied = await checkWorkspaceAccess(c, wsId, 'editor');
+  if (denied) return denied;
+
+  if (!c.env.ASSETS_BUCKET) return storageUnavailable(c);
+
+  const body = await readJSONBody(c.req) as (Partial<UploadRequest> & Record<string, unknown>) | null;
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const missing = missingFields(body, ['filename', 'mime_type', 'file_size']);
+  if (missing.length > 0) {
+    return c.json({ error: `Missing required fields: ${missing.join(', ')}` }, 400);
+  }
+
+  const { filename, mime_type: mimeType, file_size: fileSize } = body as UploadRequest;
+  if (typeof filename !== 'string' || typeof mimeType !== 'string') {
+    return c.json({ error: 'filename and mime_type must be strings' }, 400);
+  }
+  if (typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize <= 0) {
+    return c.json({ error: 'file_size must be a positive integer' }, 400);
+  }
+
+  const maxBytes = (parseInt(c.env.MAX_UPLOAD_SIZE_MB, 10) || 100) * 1024 * 1024;
+  if (fileSize > maxBytes) {
+    return c.json({ error: `File exceeds the ${c.env.MAX_UPLOAD_SIZE_MB} MB upload limit` }, 413);
+  }
+
+  const assetType = body.asset_type ?? assetTypeForMime(mimeType);
+  if (!ASSET_TYPES.includes(assetType as Asset['asset_type'])) {
+    return c.json({ error: `asset_type must be one of: ${ASSET_TYPES.join(', ')}` }, 400);
+  }
+
+  // Check storage quota before accepting the upload
+  const quotaCheck = await checkQuota(c.env.DB, userId, 'storage_bytes');
+  if (quotaCheck.limit !== -1 && !quotaCheck.overageAllowed && quotaCheck.used + fileSize > quotaCheck.limit) {
+    return c.json({
+      error: 'Quota exceeded',
+      message: 'This upload would exceed your storage limit.',
+      usage: {
+        type: 'storage_bytes',
+        used: quotaCheck.used,
+        limit: quotaCheck.limit,
+        remaining: quotaCheck.remaining,
+      },
+    }, 429);
+  }
+
+  const assetId = generateId('asset');
+  const safeName = sanitizeFilename(filename);
+
+  await c.env.DB.prepare(`
+    INSERT INTO assets (
+      id, workspace_id, uploaded_by, filename, original_filename, mime_type, file_size,
+      asset_type, storage_key, processing_status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(
+    assetId,
+    wsId,
+    userId,
+    safeName,
+    filename,
+    mimeType,
+    fileSize,
+    assetType,
+    storageKey(wsId, assetId, safeName)
+  ).run();
+
+  const response: UploadResponse = {
+    upload_id: assetId,
+    upload_url: `/v1/assets/${assetId}/upload`,
+    expires_at: Math.floor(Date.now() / 1000) + UPLOAD_URL_TTL_SECONDS,
+    asset_id: assetId,
+  };
+
+  return c.json(response, 201);
+});
+
+assets.put('/assets/:id/upload', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'editor', 'Asset not found');
+  if (error) return error;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  if (asset.processing_status !== 'pending' || asset.uploaded_by !== c.get('userId')) {
+    return c.json({ error: 'No pending upload for this asset' }, 409);
+  }
+  if (asset.created_at + UPLOAD_URL_TTL_SECONDS < Math.floor(Date.now() / 1000)) {
+    return c.json({ error: 'Upload URL expired' }, 410);
+  }
+
+  const contentLength = parseInt(c.req.header('Content-Length') || '', 10);
+  if (!contentLength || !c.req.raw.body) {
+    return c.json({ error: 'Content-Length is required' }, 411);
+  }
+  if (contentLength !== asset.file_size) {
+    return c.json({ error: 'Upload size does not match the declared file size' }, 400);
+  }
+
+  await bucket.put(asset.storage_key, c.req.raw.body, {
+    httpMetadata: { contentType: asset.mime_type },
+    customMetadata: { assetId: asset.id, workspaceId: asset.workspace_id },
+  });
+
+  return c.json({ success: true, asset_id: asset.id });
+});
+
+assets.post('/workspaces/:wsId/assets/upload/complete', async (c) => {
+  const { wsId } = c.req.param();
+  const userId = c.get('userId');
+
+  const denied = await checkWorkspaceAccess(c, wsId, 'editor');
+  if (denied) return denied;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  const body = await readJSONBody(c.req);
+  // upload_id and asset_id are the same value; accept either
+  const assetId = body?.upload_id ?? body?.asset_id;
+  if (!body || typeof assetId !== 'string') {
+    return c.json({ error: 'upload_id is required' }, 400);
+  }
+
+  const asset = await c.env.DB.prepare(
+    "SELECT * FROM assets WHERE id = ? AND workspace_id = ? AND processing_status = 'pending'"
+  ).bind(assetId, wsId).first<Asset>();
+
+  if (!asset || asset.uploaded_by !== userId) {
+    return c.json({ error: 'Upload not found' }, 404);
+  }
+
+  const object = await bucket.head(asset.storage_key);
+  if (!object) {
+    return c.json({ error: 'File has not been uploaded' }, 400);
+  }
+
+  // Optional dimensions and metadata reported by the client
+  const { columns, values, errors } = pickFields(normalizeTags(body), {
+    width: 'number',
+    height: 'number',
+    duration_seconds: 'number',
+    description: 'string',
+    alt_text: 'string',
+    tags_json: 'json',
+  });
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  await updateRow(
+    c.env.DB,
+    'assets',
+    asset.id,
+    ['file_size', 'processing_status', ...columns],
+    [object.size, 'completed', ...values]
+  );
+
+  await c.env.DB.prepare(`
+    INSERT INTO asset_versions (id, asset_id, version_number, storage_key, file_size, created_by, created_at)
+    VALUES (?, ?, 1, ?, ?, ?, strftime('%s', 'now'))
+  `).bind(generateId('av'), asset.id, asset.storage_key, object.size, userId).run();
+
+  await recordUsage(c.env.DB, userId, 'storage_bytes', object.size, {
+    workspaceId: wsId,
+    assetId: asset.id,
+  });
+
+  const completed = await c.env.DB.prepare(
+    'SELECT * FROM assets WHERE id = ?'
+  ).bind(asset.id).first();
+
+  return c.json(completed);
+});
+
+// ===========================================
+// Download, Duplicate & Versions
+// ===========================================
+
+assets.get('/assets/:id/download', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'viewer', 'Asset not found');
+  if (error) return error;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  const object = await bucket.get(asset.storage_key);
+  if (!object) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': asset.mime_type,
+      'Content-Length': String(object.size),
+      'Content-Disposition': `attachment; filename="${asset.filename}"`,
+      ETag: object.httpEtag,
+      'Cache-Control': 'private, max-age=3600',
+    },
+  });
+});
+
+assets.post('/assets/:id/duplicate', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'editor', 'Asset not found');
+  if (error) return error;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  if (asset.processing_status === 'pending') {
+    return c.json({ error: 'Asset upload is not complete' }, 409);
+  }
+
+  const userId = c.get('userId');
+  const quotaCheck = await checkQuota(c.env.DB, userId, 'storage_bytes');
+  if (quotaCheck.limit !== -1 && !quotaCheck.overageAllowed && quotaCheck.used + asset.file_size > quotaCheck.limit) {
+    return c.json({ error: 'Quota exceeded', message: 'Duplicating this asset would exceed your storage limit.' }, 429);
+  }
+
+  const source = await bucket.get(asset.storage_key);
+  if (!source) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  const copyId = generateId('asset');
+  const copyKey = storageKey(asset.workspace_id, copyId, asset.filename);
+  await bucket.put(copyKey, source.body, { httpMetadata: { contentType: asset.mime_type } });
+
+  await c.env.DB.prepare(`
+    INSERT INTO assets (
+      id, workspace_id, uploaded_by, filename, original_filename, mime_type, file_size, asset_type,
+      storage_key, processing_status, is_ai_generated, generation_prompt, generation_model,
+      width, height, duration_seconds, tags_json, description, alt_text, dominant_colors_json,
+      created_at, updated_at
+    )
+    SELECT ?, workspace_id, ?, filename, original_filename, mime_type, file_size, asset_type,
+      ?, 'completed', is_ai_generated, generation_prompt, generation_model,
+      width, height, duration_seconds, tags_json, description, alt_text, dominant_colors_json,
+      strftime('%s', 'now'), strftime('%s', 'now')
+    FROM assets WHERE id = ?
+  `).bind(copyId, userId, copyKey, asset.id).run();
+
+  await c.env.DB.prepare(`
+    INSERT INTO asset_versions (id, asset_id, version_number, storage_key, file_size, created_by, created_at)
+    VALUES (?, ?, 1, ?, ?, ?, strftime('%s', 'now'))
+  `).bind(generateId('av'), copyId, copyKey, asset.file_size, userId).run();
+
+  await recordUsage(c.env.DB, userId, 'storage_bytes', asset.file_size, {
+    workspaceId: asset.workspace_id,
+    assetId: copyId,
+  });
+
+  const copy = await c.env.DB.prepare(
+    'SELECT * FROM assets WHERE id = ?'
+  ).bind(copyId).first();
+
+  return c.json(copy, 201);
+});
+
+assets.get('/assets/:id/versions', async (c) => {
+  const { row: asset, error } = await loadWorkspaceRow<Asset>(c, 'assets', c.req.param('id'), 'viewer', 'Asset not found');
+  if (error) return error;
+
+  const versions = await c.env.DB.prepare(
+    'SELECT * FROM asset_versions WHERE asset_id = ? ORDER BY version_number DESC'
+  ).bind(asset.id).all();
+
+  return c.json({ data: versions.results || [] });
+});
+
+// ===========================================
+// Expired Uploads
+// ===========================================
+
+// Rows removed per sweep, within R2's limit of 1000 keys per delete
+const SWEEP_BATCH_SIZE = 500;
+
+/**
+ * Delete pending uploads whose upload window has passed, along with any
+ * bytes already sent for them. Runs from the scheduled handler; returns how
+ * many uploads were removed.
+ */
+export async function sweepExpiredUploads(
+  env: Pick<Env, 'DB' | 'ASSETS_BUCKET'>,
+  now = Math.floor(Date.now() / 1000)
+): Promise<number> {
+  const { results } = await env.DB.prepare(
+    "SELECT id, storage_key FROM assets WHERE processing_status = 'pending' AND created_at < ? LIMIT ?"
+  ).bind(now - UPLOAD_URL_TTL_SECONDS, SWEEP_BATCH_SIZE).all<Pick<Asset, 'id' | 'storage_key'>>();
+  if (results.length === 0) return 0;
+
+  // Objects first, so a failed delete leaves the rows for the next sweep
+  await env.ASSETS_BUCKET?.delete(results.map((asset) => asset.storage_key));
+  await env.DB.batch(
+    results.map((asset) =>
+      env.DB.prepare("DELETE FROM assets WHERE id = ? AND processing_status = 'pending'").bind(asset.id)
+    )
+  );
+
+  return results.length;
+}
+
+export default assets;
@@ -0,0 +1,139 @@
+/**
+ * Lumina Studio API - Brand Kit Routes
+ */
+
+import { Hono } from 'hono';
+import type { BrandKit, Env } from '../types/env';
+import { checkWorkspaceAccess, loadWorkspaceRow } from '../utils/access';
+import { paginatedQuery, parsePagination, updateRow } from '../utils/db';
+import { generateId } from '../utils/id';
+import { missingFields, pickFields, readJSONBody } from '../utils/validation';
+import type { FieldSpec } from '../utils/validation';
+
+const brandKits = new Hono<{ Bindings: Env }>();
+
+const BRAND_KIT_FIELDS: FieldSpec = {
+  name: 'string',
+  description: 'string',
+  personality: 'string',
+  tone_keywords_json: 'json',
+  primary_color: 'string',
+  secondary_color: 'string',
+  accent_color: 'string',
+  colors_json: 'json',
+  heading_font: 'string',
+  body_font: 'string',
+  fonts_json: 'json',
+  logo_primary_asset_id: 'string',
+  logo_dark_asset_id: 'string',
+  logo_icon_asset_id: 'string',
+  guidelines_asset_id: 'string',
+  is_default: 'boolean',
+};
+
+/**
+ * A workspace has at most one default kit
+ */
+async function clearOtherDefaults(db: D1Database, workspaceId: string, brandKitId: string): Promise<void> {
+  await db.prepare(
+    'UPDATE brand_kits SET is_default = 0 WHERE workspace_id = ? AND id != ? AND is_default = 1'
+  ).bind(workspaceId, brandKitId).run();
+}
+
+brandKits.get('/workspaces/:wsId/brand-kits', async (c) => {
+  const { wsId } = c.req.param();
+
+  const denied = await checkWorkspaceAccess(c, wsId);
+  if (denied) return denied;
+
+  const result = await paginatedQuery<BrandKit>(c.env.DB, {
+    from: 'brand_kits WHERE workspace_id = ?',
+    orderBy: 'is_default DESC, updated_at DESC',
+    binds: [wsId],
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+brandKits.post('/workspaces/:wsId/brand-kits', async (c) => {
+  const { wsId } = c.req.param();
+
+  const denied = await checkWorkspaceAccess(c, wsId, 'editor');
+  if (denied) return denied;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (missingFields(body, ['name']).length > 0) {
+    return c.json({ error: 'Missing required fields: name' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, BRAND_KIT_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  const brandKitId = generateId('bk');
+
+  await c.env.DB.prepare(`
+    INSERT INTO brand_kits (id, workspace_id, created_by, ${columns.join(', ')}, created_at, updated_at)
+    VALUES (?, ?, ?, ${columns.map(() => '?').join(', ')}, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(brandKitId, wsId, c.get('userId'), ...values).run();
+
+  if (body.is_default === true) {
+    await clearOtherDefaults(c.env.DB, wsId, brandKitId);
+  }
+
+  const brandKit = await c.env.DB.prepare(
+    'SELECT * FROM brand_kits WHERE id = ?'
+  ).bind(brandKitId).first();
+
+  return c.json(brandKit, 201);
+});
+
+brandKits.get('/brand-kits/:id', async (c) => {
+  const { row: brandKit, error } = await loadWorkspaceRow<BrandKit>(c, 'brand_kits', c.req.param('id'), 'viewer', 'Brand kit not found');
+  if (error) return error;
+
+  return c.json(brandKit);
+});
+
+brandKits.patch('/brand-kits/:id', async (c) => {
+  const { row: brandKit, error } = await loadWorkspaceRow<BrandKit>(c, 'brand_kits', c.req.param('id'), 'editor', 'Brand kit not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, BRAND_KIT_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (columns.length > 0) {
+    await updateRow(c.env.DB, 'brand_kits', brandKit.id, columns, values);
+  }
+  if (body.is_default === true) {
+    await clearOtherDefaults(c.env.DB, brandKit.workspace_id, brandKit.id);
+  }
+
+  const updated = await c.env.DB.prepare(
+    'SELECT * FROM brand_kits WHERE id = ?'
+  ).bind(brandKit.id).first();
+
+  return c.json(updated);
+});
+
+brandKits.delete('/brand-kits/:id', async (c) => {
+  const { row: brandKit, error } = await loadWorkspaceRow<BrandKit>(c, 'brand_kits', c.req.param('id'), 'admin', 'Brand kit not found');
+  if (error) return error;
+
+  await c.env.DB.prepare('DELETE FROM brand_kits WHERE id = ?').bind(brandKit.id).run();
+
+  return c.json({ success: true });
+});
+
+export default brandKits;
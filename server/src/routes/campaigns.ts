@@ -0,0 +1,256 @@
+/**
+ * Lumina Studio API - Campaign Routes
+ *
+ * Campaigns and their scheduled social posts.
+ */
+
+import { Hono } from 'hono';
+import type { Campaign, CampaignPost, Env } from '../types/env';
+import { checkWorkspaceAccess, loadWorkspaceRow } from '../utils/access';
+import { paginatedQuery, parsePagination, updateRow } from '../utils/db';
+import { generateId } from '../utils/id';
+import { missingFields, pickFields, readJSONBody } from '../utils/validation';
+import type { FieldSpec } from '../utils/validation';
+
+const campaigns = new Hono<{ Bindings: Env }>();
+
+const CAMPAIGN_FIELDS: FieldSpec = {
+  name: 'string',
+  description: 'string',
+  objective: 'string',
+  brand_kit_id: 'string',
+  start_date: 'number',
+  end_date: 'number',
+  status: ['draft', 'scheduled', 'active', 'paused', 'completed'],
+  platforms_json: 'json',
+  target_audience: 'string',
+  content_themes_json: 'json',
+};
+
+const POST_FIELDS: FieldSpec = {
+  platform: 'string',
+  headline: 'string',
+  body: 'string',
+  hashtags_json: 'json',
+  media_asset_ids_json: 'json',
+  scheduled_at: 'number',
+  published_at: 'number',
+  is_ai_generated: 'boolean',
+  generation_prompt: 'string',
+  sentiment: ['positive', 'neutral', 'bold', 'professional'],
+  status: ['draft', 'scheduled', 'published', 'failed'],
+};
+
+// ===========================================
+// Campaigns
+// ===========================================
+
+campaigns.get('/workspaces/:wsId/campaigns', async (c) => {
+  const { wsId } = c.req.param();
+
+  const denied = await checkWorkspaceAccess(c, wsId);
+  if (denied) return denied;
+
+  const conditions = ['workspace_id = ?'];
+  const binds: unknown[] = [wsId];
+
+  const status = c.req.query('status');
+  if (status) {
+    conditions.push('status = ?');
+    binds.push(status);
+  }
+
+  const result = await paginatedQuery<Campaign>(c.env.DB, {
+    from: `campaigns WHERE ${conditions.join(' AND ')}`,
+    orderBy: 'updated_at DESC',
+    binds,
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+campaigns.post('/workspaces/:wsId/campaigns', async (c) => {
+  const { wsId } = c.req.param();
+
+  const denied = await checkWorkspaceAccess(c, wsId, 'editor');
+  if (denied) return denied;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (missingFields(body, ['name']).length > 0) {
+    return c.json({ error: 'Missing required fields: name' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, CAMPAIGN_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  const campaignId = generateId('cmp');
+
+  await c.env.DB.prepare(`
+    INSERT INTO campaigns (id, workspace_id, created_by, ${columns.join(', ')}, created_at, updated_at)
+    VALUES (?, ?, ?, ${columns.map(() => '?').join(', ')}, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(campaignId, wsId, c.get('userId'), ...values).run();
+
+  const campaign = await c.env.DB.prepare(
+    'SELECT * FROM campaigns WHERE id = ?'
+  ).bind(campaignId).first();
+
+  return c.json(campaign, 201);
+});
+
+campaigns.get('/campaigns/:id', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'viewer', 'Campaign not found');
+  if (error) return error;
+
+  return c.json(campaign);
+});
+
+campaigns.patch('/campaigns/:id', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'editor', 'Campaign not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, CAMPAIGN_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (columns.length > 0) {
+    await updateRow(c.env.DB, 'campaigns', campaign.id, columns, values);
+  }
+
+  const updated = await c.env.DB.prepare(
+    'SELECT * FROM campaigns WHERE id = ?'
+  ).bind(campaign.id).first();
+
+  return c.json(updated);
+});
+
+campaigns.delete('/campaigns/:id', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'admin', 'Campaign not found');
+  if (error) return error;
+
+  await c.env.DB.prepare('DELETE FROM campaigns WHERE id = ?').bind(campaign.id).run();
+
+  return c.json({ success: true });
+});
+
+// ===========================================
+// Campaign Posts
+// ===========================================
+
+campaigns.get('/campaigns/:id/posts', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'viewer', 'Campaign not found');
+  if (error) return error;
+
+  const conditions = ['campaign_id = ?'];
+  const binds: unknown[] = [campaign.id];
+
+  const platform = c.req.query('platform');
+  if (platform) {
+    conditions.push('platform = ?');
+    binds.push(platform);
+  }
+  const status = c.req.query('status');
+  if (status) {
+    conditions.push('status = ?');
+    binds.push(status);
+  }
+
+  const result = await paginatedQuery<CampaignPost>(c.env.DB, {
+    from: `campaign_posts WHERE ${conditions.join(' AND ')}`,
+    orderBy: 'scheduled_at IS NULL, scheduled_at ASC, created_at ASC',
+    binds,
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+campaigns.post('/campaigns/:id/posts', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'editor', 'Campaign not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (missingFields(body, ['platform']).length > 0) {
+    return c.json({ error: 'Missing required fields: platform' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, POST_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  const postId = generateId('post');
+
+  await c.env.DB.prepare(`
+    INSERT INTO campaign_posts (id, campaign_id, ${columns.join(', ')}, created_at, updated_at)
+    VALUES (?, ?, ${columns.map(() => '?').join(', ')}, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(postId, campaign.id, ...values).run();
+
+  const post = await c.env.DB.prepare(
+    'SELECT * FROM campaign_posts WHERE id = ?'
+  ).bind(postId).first();
+
+  return c.json(post, 201);
+});
+
+campaigns.patch('/campaigns/:id/posts/:postId', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'editor', 'Campaign not found');
+  if (error) return error;
+
+  const post = await c.env.DB.prepare(
+    'SELECT id FROM campaign_posts WHERE id = ? AND campaign_id = ?'
+  ).bind(c.req.param('postId'), campaign.id).first<Pick<CampaignPost, 'id'>>();
+
+  if (!post) {
+    return c.json({ error: 'Post not found' }, 404);
+  }
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, POST_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (columns.length > 0) {
+    await updateRow(c.env.DB, 'campaign_posts', post.id, columns, values);
+  }
+
+  const updated = await c.env.DB.prepare(
+    'SELECT * FROM campaign_posts WHERE id = ?'
+  ).bind(post.id).first();
+
+  return c.json(updated);
+});
+
+campaigns.delete('/campaigns/:id/posts/:postId', async (c) => {
+  const { row: campaign, error } = await loadWorkspaceRow<Campaign>(c, 'campaigns', c.req.param('id'), 'editor', 'Campaign not found');
+  if (error) return error;
+
+  const result = await c.env.DB.prepare(
+    'DELETE FROM campaign_posts WHERE id = ? AND campaign_id = ?'
+  ).bind(c.req.param('postId'), campaign.id).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Post not found' }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+export default campaigns;
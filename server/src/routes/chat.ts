@@ -0,0 +1,209 @@
+/**
+ * Lumina Studio API - Chat Routes
+ *
+ * Assistant chat sessions. Sessions belong to the user who created them;
+ * sessions attached to a workspace also require membership.
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { ChatMessage, ChatSession, Env } from '../types/env';
+import { checkWorkspaceAccess } from '../utils/access';
+import { paginatedQuery, parsePagination } from '../utils/db';
+import { generateId } from '../utils/id';
+import { pickFields, readJSONBody } from '../utils/validation';
+import { checkQuota, recordUsage } from '../services/quota';
+import { getAIBackend, modelLabel } from '../services/ai';
+
+const chat = new Hono<{ Bindings: Env }>();
+
+// Earlier messages sent along as conversation context
+const HISTORY_LIMIT = 20;
+
+const SYSTEM_PROMPTS: Record<NonNullable<ChatSession['context_type']>, string> = {
+  general: 'You are a helpful creative assistant for Lumina Studio, a creative design and content platform.',
+  project: 'You are a creative director helping the user plan and refine a design or video project.',
+  brand: 'You are a brand strategist helping create compelling brand messaging that aligns with brand guidelines.',
+  campaign: 'You are a marketing expert helping create engaging social media posts, ad copy, and campaign content.',
+};
+
+function loadSession(c: Context<{ Bindings: Env }>, id: string): Promise<ChatSession | null> {
+  return c.env.DB.prepare(
+    'SELECT * FROM chat_sessions WHERE id = ? AND user_id = ?'
+  ).bind(id, c.get('userId')).first<ChatSession>();
+}
+
+chat.get('/chat/sessions', async (c) => {
+  const conditions = ['user_id = ?'];
+  const binds: unknown[] = [c.get('userId')];
+
+  const workspaceId = c.req.query('workspace_id');
+  if (workspaceId) {
+    conditions.push('workspace_id = ?');
+    binds.push(workspaceId);
+  }
+  const projectId = c.req.query('project_id');
+  if (projectId) {
+    conditions.push('project_id = ?');
+    binds.push(projectId);
+  }
+
+  const result = await paginatedQuery<ChatSession>(c.env.DB, {
+    from: `chat_sessions WHERE ${conditions.join(' AND ')}`,
+    orderBy: 'updated_at DESC',
+    binds,
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+chat.post('/chat/sessions', async (c) => {
+  const body = (await readJSONBody(c.req)) || {};
+
+  const { columns, values, errors } = pickFields(body, {
+    workspace_id: 'string',
+    project_id: 'string',
+    title: 'string',
+    context_type: ['general', 'project', 'brand', 'campaign'],
+    context_id: 'string',
+  });
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (typeof body.workspace_id === 'string') {
+    const denied = await checkWorkspaceAccess(c, body.workspace_id);
+    if (denied) return denied;
+  }
+  if (typeof body.project_id === 'string') {
+    const project = await c.env.DB.prepare(
+      'SELECT workspace_id FROM projects WHERE id = ?'
+    ).bind(body.project_id).first<{ workspace_id: string }>();
+
+    if (!project || (body.workspace_id !== undefined && project.workspace_id !== body.workspace_id)) {
+      return c.json({ error: 'Project not found' }, 404);
+    }
+    const denied = await checkWorkspaceAccess(c, project.workspace_id, 'viewer', 'Project not found');
+    if (denied) return denied;
+  }
+
+  const sessionId = generateId('chat');
+  const insertColumns = ['id', 'user_id', ...columns];
+
+  await c.env.DB.prepare(`
+    INSERT INTO chat_sessions (${insertColumns.join(', ')}, created_at, updated_at)
+    VALUES (${insertColumns.map(() => '?').join(', ')}, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(sessionId, c.get('userId'), ...values).run();
+
+  const session = await c.env.DB.prepare(
+    'SELECT * FROM chat_sessions WHERE id = ?'
+  ).bind(sessionId).first();
+
+  return c.json(session, 201);
+});
+
+chat.get('/chat/sessions/:id', async (c) => {
+  const session = await loadSession(c, c.req.param('id'));
+  if (!session) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  const messages = await c.env.DB.prepare(
+    'SELECT * FROM chat_messages WHERE session_id = ? ORDER BY created_at ASC, rowid ASC'
+  ).bind(session.id).all();
+
+  return c.json({ ...session, messages: messages.results || [] });
+});
+
+chat.delete('/chat/sessions/:id', async (c) => {
+  const result = await c.env.DB.prepare(
+    'DELETE FROM chat_sessions WHERE id = ? AND user_id = ?'
+  ).bind(c.req.param('id'), c.get('userId')).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+chat.post('/chat/sessions/:id/messages', async (c) => {
+  const userId = c.get('userId');
+  const session = await loadSession(c, c.req.param('id'));
+  if (!session) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  const body = await readJSONBody(c.req);
+  const content = body?.content;
+  if (typeof content !== 'string' || content.trim().length === 0) {
+    return c.json({ error: 'content is required' }, 400);
+  }
+
+  const quotaCheck = await checkQuota(c.env.DB, userId, 'ai_text_generation');
+  if (!quotaCheck.allowed) {
+    return c.json({
+      error: 'Quota exceeded',
+      message: `You have used ${quotaCheck.used} of ${quotaCheck.limit} text generations this month.`,
+      usage: {
+        type: 'ai_text_generation',
+        used: quotaCheck.used,
+        limit: quotaCheck.limit,
+        remaining: 0,
+      },
+    }, 429);
+  }
+
+  const history = await c.env.DB.prepare(`
+    SELECT role, content FROM chat_messages
+    WHERE session_id = ?
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT ?
+  `).bind(session.id, HISTORY_LIMIT).all<Pick<ChatMessage, 'role' | 'content'>>();
+
+  const userMessageId = generateId('msg');
+  await c.env.DB.prepare(`
+    INSERT INTO chat_messages (id, session_id, role, content, created_at)
+    VALUES (?, ?, 'user', ?, strftime('%s', 'now'))
+  `).bind(userMessageId, session.id, content).run();
+
+  try {
+    const backend = getAIBackend(c.env);
+    const reply = await backend.generateText([
+      { role: 'system', content: SYSTEM_PROMPTS[session.context_type || 'general'] },
+      ...(history.results || []).reverse(),
+      { role: 'user', content },
+    ], { maxTokens: 1024 });
+
+    const assistantMessageId = generateId('msg');
+    await c.env.DB.batch([
+      c.env.DB.prepare(`
+        INSERT INTO chat_messages (id, session_id, role, content, created_at)
+        VALUES (?, ?, 'assistant', ?, strftime('%s', 'now'))
+      `).bind(assistantMessageId, session.id, reply),
+      c.env.DB.prepare(
+        "UPDATE chat_sessions SET updated_at = strftime('%s', 'now'), title = COALESCE(title, ?) WHERE id = ?"
+      ).bind(content.substring(0, 80), session.id),
+    ]);
+
+    await recordUsage(c.env.DB, userId, 'ai_text_generation', 1, {
+      workspaceId: session.workspace_id || undefined,
+      projectId: session.project_id || undefined,
+      modelUsed: modelLabel(backend.textModel),
+    });
+
+    const messages = await c.env.DB.prepare(
+      'SELECT * FROM chat_messages WHERE id IN (?, ?) ORDER BY created_at ASC, rowid ASC'
+    ).bind(userMessageId, assistantMessageId).all();
+
+    return c.json({ data: messages.results || [] }, 201);
+  } catch (error) {
+    console.error('Chat generation error:', error);
+    return c.json({
+      error: error instanceof Error ? error.message : 'Chat generation failed',
+      message_id: userMessageId,
+    }, 500);
+  }
+});
+
+export default chat;
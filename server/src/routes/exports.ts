@@ -0,0 +1,180 @@
+/**
+ * Lumina Studio API - Export Routes
+ *
+ * Exports are rendered in the browser, so the API only tracks them and
+ * stores the result in R2:
+ *   1. POST /projects/:id/export - start an export, get an upload URL
+ *   2. PUT  /exports/:id/file    - upload the rendered file
+ *   3. GET  /exports/:id/download
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { Env, Export, Project } from '../types/env';
+import { loadWorkspaceRow } from '../utils/access';
+import { paginatedQuery, parsePagination, updateRow } from '../utils/db';
+import { generateId } from '../utils/id';
+import { readJSONBody } from '../utils/validation';
+import { checkQuota, recordUsage } from '../services/quota';
+
+const exportsRoutes = new Hono<{ Bindings: Env }>();
+
+const EXPORT_MIME_TYPES: Record<Export['format'], string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  zip: 'application/zip',
+};
+
+function storageUnavailable(c: Context<{ Bindings: Env }>) {
+  return c.json({ error: 'Export storage is not configured' }, 503);
+}
+
+exportsRoutes.post('/projects/:id/export', async (c) => {
+  const userId = c.get('userId');
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  if (!c.env.ASSETS_BUCKET) return storageUnavailable(c);
+
+  const body = await readJSONBody(c.req);
+  const format = body?.format as Export['format'] | undefined;
+  if (!format || !(format in EXPORT_MIME_TYPES)) {
+    return c.json({ error: `format must be one of: ${Object.keys(EXPORT_MIME_TYPES).join(', ')}` }, 400);
+  }
+
+  const quotaCheck = await checkQuota(c.env.DB, userId, 'export_render');
+  if (!quotaCheck.allowed) {
+    return c.json({
+      error: 'Quota exceeded',
+      message: `You have used ${quotaCheck.used} of ${quotaCheck.limit} exports this month.`,
+      usage: {
+        type: 'export_render',
+        used: quotaCheck.used,
+        limit: quotaCheck.limit,
+        remaining: 0,
+      },
+    }, 429);
+  }
+
+  const exportId = generateId('exp');
+
+  await c.env.DB.prepare(`
+    INSERT INTO exports (id, project_id, workspace_id, requested_by, format, status, mime_type, options_json, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(
+    exportId,
+    project.id,
+    project.workspace_id,
+    userId,
+    format,
+    EXPORT_MIME_TYPES[format],
+    body?.options !== undefined ? JSON.stringify(body.options) : null
+  ).run();
+
+  await recordUsage(c.env.DB, userId, 'export_render', 1, {
+    workspaceId: project.workspace_id,
+    projectId: project.id,
+  });
+
+  const created = await c.env.DB.prepare(
+    'SELECT * FROM exports WHERE id = ?'
+  ).bind(exportId).first();
+
+  return c.json({ ...created, upload_url: `/v1/exports/${exportId}/file` }, 201);
+});
+
+exportsRoutes.get('/projects/:id/exports', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  const result = await paginatedQuery<Export>(c.env.DB, {
+    from: 'exports WHERE project_id = ?',
+    orderBy: 'created_at DESC',
+    binds: [project.id],
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+exportsRoutes.get('/exports/:id', async (c) => {
+  const { row: exportRow, error } = await loadWorkspaceRow<Export>(c, 'exports', c.req.param('id'), 'viewer', 'Export not found');
+  if (error) return error;
+
+  return c.json(exportRow);
+});
+
+exportsRoutes.put('/exports/:id/file', async (c) => {
+  const { row: exportRow, error } = await loadWorkspaceRow<Export>(c, 'exports', c.req.param('id'), 'editor', 'Export not found');
+  if (error) return error;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  if (exportRow.requested_by !== c.get('userId') || exportRow.status === 'completed') {
+    return c.json({ error: 'No pending upload for this export' }, 409);
+  }
+
+  const contentLength = parseInt(c.req.header('Content-Length') || '', 10);
+  if (!contentLength || !c.req.raw.body) {
+    return c.json({ error: 'Content-Length is required' }, 411);
+  }
+
+  const maxBytes = (parseInt(c.env.MAX_UPLOAD_SIZE_MB, 10) || 100) * 1024 * 1024;
+  if (contentLength > maxBytes) {
+    return c.json({ error: `File exceeds the ${c.env.MAX_UPLOAD_SIZE_MB} MB upload limit` }, 413);
+  }
+
+  const key = `workspaces/${exportRow.workspace_id}/exports/${exportRow.id}.${exportRow.format}`;
+  const object = await bucket.put(key, c.req.raw.body, {
+    httpMetadata: { contentType: exportRow.mime_type || 'application/octet-stream' },
+    customMetadata: { exportId: exportRow.id, projectId: exportRow.project_id },
+  });
+
+  await updateRow(
+    c.env.DB,
+    'exports',
+    exportRow.id,
+    ['status', 'storage_key', 'file_size', 'error', 'completed_at'],
+    ['completed', key, object.size, null, Math.floor(Date.now() / 1000)]
+  );
+
+  const completed = await c.env.DB.prepare(
+    'SELECT * FROM exports WHERE id = ?'
+  ).bind(exportRow.id).first();
+
+  return c.json(completed);
+});
+
+exportsRoutes.get('/exports/:id/download', async (c) => {
+  const { row: exportRow, error } = await loadWorkspaceRow<Export>(c, 'exports', c.req.param('id'), 'viewer', 'Export not found');
+  if (error) return error;
+
+  const bucket = c.env.ASSETS_BUCKET;
+  if (!bucket) return storageUnavailable(c);
+
+  if (exportRow.status !== 'completed' || !exportRow.storage_key) {
+    return c.json({ error: 'Export is not ready', status: exportRow.status }, 409);
+  }
+
+  const object = await bucket.get(exportRow.storage_key);
+  if (!object) {
+    return c.json({ error: 'File not found' }, 404);
+  }
+
+  return new Response(object.body, {
+    headers: {
+      'Content-Type': exportRow.mime_type || 'application/octet-stream',
+      'Content-Length': String(object.size),
+      'Content-Disposition': `attachment; filename="export-${exportRow.id}.${exportRow.format}"`,
+      ETag: object.httpEtag,
+    },
+  });
+});
+
+export default exportsRoutes;
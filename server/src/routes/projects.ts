@@ -0,0 +1,386 @@
+/**
+ * Lumina Studio API - Project Routes
+ *
+ * Projects, version snapshots and video storyboards.
+ */
+
+import { Hono } from 'hono';
+import type { Env, Project, ProjectVersion, Storyboard } from '../types/env';
+import { checkWorkspaceAccess, hasRole, loadWorkspaceRow } from '../utils/access';
+import { paginatedQuery, parsePagination, updateRow } from '../utils/db';
+import { generateId } from '../utils/id';
+import { missingFields, pickFields, readJSONBody } from '../utils/validation';
+import type { FieldSpec } from '../utils/validation';
+
+const projects = new Hono<{ Bindings: Env }>();
+
+const PROJECT_TYPES = ['design', 'video', 'document', 'brand', 'campaign'] as const;
+const PROJECT_STATUSES = ['draft', 'in_progress', 'review', 'completed', 'archived'] as const;
+
+const PROJECT_FIELDS: FieldSpec = {
+  name: 'string',
+  description: 'string',
+  status: PROJECT_STATUSES,
+  is_template: 'boolean',
+  is_public: 'boolean',
+  thumbnail_url: 'string',
+  thumbnail_asset_id: 'string',
+};
+
+const STORYBOARD_FIELDS: FieldSpec = {
+  title: 'string',
+  master_concept: 'string',
+  aspect_ratio: ['16:9', '9:16', '1:1', '4:3', '3:2'],
+  audio_track_id: 'string',
+  audio_prompt: 'string',
+  total_duration_seconds: 'number',
+};
+
+// ===========================================
+// Projects
+// ===========================================
+
+projects.get('/workspaces/:wsId/projects', async (c) => {
+  const { wsId } = c.req.param();
+
+  const denied = await checkWorkspaceAccess(c, wsId);
+  if (denied) return denied;
+
+  const conditions = ['workspace_id = ?'];
+  const binds: unknown[] = [wsId];
+
+  const status = c.req.query('status');
+  if (status) {
+    conditions.push('status = ?');
+    binds.push(status);
+  }
+  const type = c.req.query('type');
+  if (type) {
+    conditions.push('project_type = ?');
+    binds.push(type);
+  }
+  const search = c.req.query('search');
+  if (search) {
+    conditions.push('name LIKE ?');
+    binds.push(`%${search}%`);
+  }
+
+  const result = await paginatedQuery<Project>(c.env.DB, {
+    from: `projects WHERE ${conditions.join(' AND ')}`,
+    orderBy: 'updated_at DESC',
+    binds,
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+projects.post('/workspaces/:wsId/projects', async (c) => {
+  const { wsId } = c.req.param();
+  const userId = c.get('userId');
+
+  const denied = await checkWorkspaceAccess(c, wsId, 'editor');
+  if (denied) return denied;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const missing = missingFields(body, ['name', 'project_type']);
+  if (missing.length > 0) {
+    return c.json({ error: `Missing required fields: ${missing.join(', ')}` }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, { ...PROJECT_FIELDS, project_type: PROJECT_TYPES });
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  const projectId = generateId('prj');
+
+  await c.env.DB.prepare(`
+    INSERT INTO projects (id, workspace_id, owner_id, ${columns.join(', ')}, created_at, updated_at)
+    VALUES (?, ?, ?, ${columns.map(() => '?').join(', ')}, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(projectId, wsId, userId, ...values).run();
+
+  const project = await c.env.DB.prepare(
+    'SELECT * FROM projects WHERE id = ?'
+  ).bind(projectId).first();
+
+  return c.json(project, 201);
+});
+
+projects.get('/projects/:id', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  await c.env.DB.prepare(
+    "UPDATE projects SET last_opened_at = strftime('%s', 'now') WHERE id = ?"
+  ).bind(project.id).run();
+
+  return c.json(project);
+});
+
+projects.patch('/projects/:id', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, PROJECT_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (columns.length > 0) {
+    await updateRow(c.env.DB, 'projects', project.id, columns, values);
+  }
+
+  const updated = await c.env.DB.prepare(
+    'SELECT * FROM projects WHERE id = ?'
+  ).bind(project.id).first();
+
+  return c.json(updated);
+});
+
+projects.delete('/projects/:id', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  // Only the project owner or a workspace admin can delete
+  const role = c.get('userRole');
+  if (project.owner_id !== c.get('userId') && !(role && hasRole(role, 'admin'))) {
+    return c.json({ error: 'Insufficient permissions' }, 403);
+  }
+
+  await c.env.DB.prepare('DELETE FROM projects WHERE id = ?').bind(project.id).run();
+
+  return c.json({ success: true });
+});
+
+// ===========================================
+// Versions
+// ===========================================
+
+async function createVersion(
+  db: D1Database,
+  projectId: string,
+  userId: string,
+  stateJson: string,
+  changeSummary: string | null
+): Promise<ProjectVersion | null> {
+  const latest = await db.prepare(
+    'SELECT MAX(version_number) as latest FROM project_versions WHERE project_id = ?'
+  ).bind(projectId).first<{ latest: number | null }>();
+
+  const versionNumber = (latest?.latest || 0) + 1;
+  const versionId = generateId('pv');
+
+  await db.batch([
+    db.prepare(`
+      INSERT INTO project_versions (id, project_id, version_number, state_json, changed_by, change_summary, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, strftime('%s', 'now'))
+    `).bind(versionId, projectId, versionNumber, stateJson, userId, changeSummary),
+    db.prepare(
+      "UPDATE projects SET current_version = ?, updated_at = strftime('%s', 'now') WHERE id = ?"
+    ).bind(versionNumber, projectId),
+  ]);
+
+  return db.prepare('SELECT * FROM project_versions WHERE id = ?').bind(versionId).first<ProjectVersion>();
+}
+
+projects.get('/projects/:id/versions', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  // State can be large, so the list leaves it out
+  const result = await paginatedQuery(c.env.DB, {
+    select: 'id, project_id, version_number, changed_by, change_summary, created_at',
+    from: 'project_versions WHERE project_id = ?',
+    orderBy: 'version_number DESC',
+    binds: [project.id],
+  }, parsePagination(c));
+
+  return c.json(result);
+});
+
+projects.post('/projects/:id/versions', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body || body.state === undefined) {
+    return c.json({ error: 'state is required' }, 400);
+  }
+  if (body.change_summary !== undefined && typeof body.change_summary !== 'string') {
+    return c.json({ error: 'change_summary must be a string' }, 400);
+  }
+
+  const version = await createVersion(
+    c.env.DB,
+    project.id,
+    c.get('userId'),
+    JSON.stringify(body.state),
+    body.change_summary || null
+  );
+
+  return c.json(version, 201);
+});
+
+projects.get('/projects/:id/versions/:version', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  const version = await c.env.DB.prepare(
+    'SELECT * FROM project_versions WHERE project_id = ? AND version_number = ?'
+  ).bind(project.id, parseInt(c.req.param('version'), 10)).first();
+
+  if (!version) {
+    return c.json({ error: 'Version not found' }, 404);
+  }
+
+  return c.json(version);
+});
+
+projects.post('/projects/:id/restore/:version', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  const versionNumber = parseInt(c.req.param('version'), 10);
+  const source = await c.env.DB.prepare(
+    'SELECT * FROM project_versions WHERE project_id = ? AND version_number = ?'
+  ).bind(project.id, versionNumber).first<ProjectVersion>();
+
+  if (!source) {
+    return c.json({ error: 'Version not found' }, 404);
+  }
+
+  // Restoring adds a new version, so history is never rewritten
+  const version = await createVersion(
+    c.env.DB,
+    project.id,
+    c.get('userId'),
+    source.state_json,
+    `Restored from version ${versionNumber}`
+  );
+
+  return c.json(version, 201);
+});
+
+// ===========================================
+// Storyboards
+// ===========================================
+
+projects.get('/projects/:id/storyboards', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  const storyboards = await c.env.DB.prepare(
+    'SELECT * FROM storyboards WHERE project_id = ? ORDER BY created_at ASC'
+  ).bind(project.id).all();
+
+  return c.json({ data: storyboards.results || [] });
+});
+
+projects.post('/projects/:id/storyboards', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+  if (missingFields(body, ['title']).length > 0) {
+    return c.json({ error: 'Missing required fields: title' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, STORYBOARD_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  const storyboardId = generateId('sb');
+
+  await c.env.DB.prepare(`
+    INSERT INTO storyboards (id, project_id, ${columns.join(', ')}, created_at, updated_at)
+    VALUES (?, ?, ${columns.map(() => '?').join(', ')}, strftime('%s', 'now'), strftime('%s', 'now'))
+  `).bind(storyboardId, project.id, ...values).run();
+
+  const storyboard = await c.env.DB.prepare(
+    'SELECT * FROM storyboards WHERE id = ?'
+  ).bind(storyboardId).first();
+
+  return c.json(storyboard, 201);
+});
+
+projects.get('/projects/:id/storyboards/:storyboardId', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'viewer', 'Project not found');
+  if (error) return error;
+
+  const storyboard = await c.env.DB.prepare(
+    'SELECT * FROM storyboards WHERE id = ? AND project_id = ?'
+  ).bind(c.req.param('storyboardId'), project.id).first();
+
+  if (!storyboard) {
+    return c.json({ error: 'Storyboard not found' }, 404);
+  }
+
+  const shots = await c.env.DB.prepare(
+    'SELECT * FROM storyboard_shots WHERE storyboard_id = ? ORDER BY position ASC'
+  ).bind(storyboard.id).all();
+
+  return c.json({ ...storyboard, shots: shots.results || [] });
+});
+
+projects.patch('/projects/:id/storyboards/:storyboardId', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  const storyboard = await c.env.DB.prepare(
+    'SELECT * FROM storyboards WHERE id = ? AND project_id = ?'
+  ).bind(c.req.param('storyboardId'), project.id).first<Storyboard>();
+
+  if (!storyboard) {
+    return c.json({ error: 'Storyboard not found' }, 404);
+  }
+
+  const body = await readJSONBody(c.req);
+  if (!body) {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { columns, values, errors } = pickFields(body, STORYBOARD_FIELDS);
+  if (errors.length > 0) {
+    return c.json({ error: 'Validation failed', details: { errors } }, 400);
+  }
+
+  if (columns.length > 0) {
+    await updateRow(c.env.DB, 'storyboards', storyboard.id, columns, values);
+  }
+
+  const updated = await c.env.DB.prepare(
+    'SELECT * FROM storyboards WHERE id = ?'
+  ).bind(storyboard.id).first();
+
+  return c.json(updated);
+});
+
+projects.delete('/projects/:id/storyboards/:storyboardId', async (c) => {
+  const { row: project, error } = await loadWorkspaceRow<Project>(c, 'projects', c.req.param('id'), 'editor', 'Project not found');
+  if (error) return error;
+
+  const result = await c.env.DB.prepare(
+    'DELETE FROM storyboards WHERE id = ? AND project_id = ?'
+  ).bind(c.req.param('storyboardId'), project.id).run();
+
+  if (!result.meta.changes) {
+    return c.json({ error: 'Storyboard not found' }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+export default projects;
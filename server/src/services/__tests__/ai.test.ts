@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { encodeBase64, getAIBackend, modelLabel } from '../ai';
+import type { Env } from '../../types/env';
+
+function env(overrides: Partial<Env> = {}): Env {
+  return { AI: { run: vi.fn() }, ...overrides } as unknown as Env;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getAIBackend', () => {
+  it('defaults to Workers AI and allows model overrides', async () => {
+    const run = vi.fn(() => Promise.resolve({ response: 'Hello' }));
+    const backend = getAIBackend(env({ AI: { run } as unknown as Env['AI'], AI_TEXT_MODEL: '@cf/meta/llama-3.3-70b-instruct' }));
+
+    expect(backend.id).toBe('workers-ai');
+    expect(modelLabel(backend.imageModel)).toBe('stable-diffusion-xl-base-1.0');
+    await expect(backend.generateText([{ role: 'user', content: 'Hi' }])).resolves.toBe('Hello');
+    expect(run).toHaveBeenCalledWith('@cf/meta/llama-3.3-70b-instruct', expect.objectContaining({ max_tokens: 1024 }));
+  });
+
+  it('calls OpenAI-compatible endpoints', async () => {
+    const fetchMock = vi.fn((_url: string, _init: RequestInit) => Promise.resolve(new Response(
+      JSON.stringify({ data: [{ b64_json: encodeBase64(new Uint8Array([137, 80, 78, 71])) }] })
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+    const backend = getAIBackend(env({ AI_PROVIDER: 'openai', AI_BASE_URL: 'http://ollama:11434/v1/', AI_API_KEY: 'sk-test' }));
+
+    const image = await backend.generateImage('A red fox');
+
+    expect(Array.from(image.data)).toEqual([137, 80, 78, 71]);
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('http://ollama:11434/v1/images/generations');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+  });
+
+  it('answers deterministically with the local stand-in', async () => {
+    const backend = getAIBackend(env({ AI_PROVIDER: 'local' }));
+    const messages = [{ role: 'user' as const, content: 'Tagline for a bakery' }];
+
+    const first = await backend.generateText(messages);
+    expect(first).toBe(await backend.generateText(messages));
+    expect(first).toContain('Tagline for a bakery');
+    expect((await backend.generateImage('bakery')).mimeType).toBe('image/svg+xml');
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Lumina Studio API - AI Backends
+ *
+ * Text and image generation behind one interface. AI_PROVIDER selects
+ * Workers AI (default), an OpenAI-compatible endpoint (AI_BASE_URL /
+ * AI_API_KEY) or the deterministic local stand-in for development and tests.
+ */
+
+import type { Env } from '../types/env';
+
+export type AIBackendId = 'workers-ai' | 'openai' | 'local';
+
+export interface ChatTurn {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface TextGenerationOptions {
+  maxTokens?: number;
+  temperature?: number;
+  /** JSON schema the reply must follow */
+  schema?: Record<string, unknown>;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface ImageGenerationOptions {
+  quality?: 'standard' | 'hd' | 'ultra';
+}
+
+export interface AIBackend {
+  id: AIBackendId;
+  textModel: string;
+  imageModel: string;
+  generateText(messages: ChatTurn[], options?: TextGenerationOptions): Promise<string>;
+  generateImage(prompt: string, options?: ImageGenerationOptions): Promise<GeneratedImage>;
+}
+
+const DEFAULT_MODELS: Record<AIBackendId, { text: string; image: string }> = {
+  'workers-ai': {
+    text: '@cf/meta/llama-3.1-8b-instruct',
+    image: '@cf/stabilityai/stable-diffusion-xl-base-1.0',
+  },
+  openai: {
+    text: 'gpt-4o-mini',
+    image: 'gpt-image-1',
+  },
+  local: {
+    text: 'local-text',
+    image: 'local-image',
+  },
+};
+
+/** Model name as recorded in usage and asset rows, e.g. 'llama-3.1-8b-instruct' */
+export function modelLabel(model: string): string {
+  return model.substring(model.lastIndexOf('/') + 1);
+}
+
+function workersAIBackend(env: Env, textModel: string, imageModel: string): AIBackend {
+  return {
+    id: 'workers-ai',
+    textModel,
+    imageModel,
+
+    async generateText(messages, options = {}) {
+      const aiResponse = await env.AI.run(textModel, {
+        messages,
+        max_tokens: options.maxTokens || 1024,
+        temperature: options.temperature ?? 0.7,
+        ...(options.schema ? { response_format: { type: 'json_schema', json_schema: options.schema } } : {}),
+      });
+
+      if (typeof aiResponse === 'object' && aiResponse !== null && 'response' in aiResponse) {
+        const { response } = aiResponse as { response: unknown };
+        return typeof response === 'string' ? response : JSON.stringify(response);
+      }
+      return String(aiResponse);
+    },
+
+    async generateImage(prompt, options = {}) {
+      const aiResponse = await env.AI.run(imageModel, {
+        prompt,
+        num_steps: options.quality === 'hd' ? 30 : options.quality === 'ultra' ? 50 : 20,
+      });
+
+      // SDXL streams PNG bytes; FLUX-style models return base64 in `image`
+      if (typeof aiResponse === 'object' && aiResponse !== null && 'image' in aiResponse) {
+        return { data: decodeBase64((aiResponse as { image: string }).image), mimeType: 'image/png' };
+      }
+      const data = new Uint8Array(await new Response(aiResponse as ReadableStream).arrayBuffer());
+      return { data, mimeType: 'image/png' };
+    },
+  };
+}
+
+function openAIBackend(env: Env, textModel: string, imageModel: string): AIBackend {
+  const baseUrl = (env.AI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  async function post<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(env.AI_API_KEY ? { Authorization: `Bearer ${env.AI_API_KEY}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(`AI endpoint returned ${response.status}: ${await response.text()}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  return {
+    id: 'openai',
+    textModel,
+    imageModel,
+
+    async generateText(messages, options = {}) {
+      const completion = await post<{ choices: Array<{ message: { content: string | null } }> }>('/chat/completions', {
+        model: textModel,
+        messages,
+        max_tokens: options.maxTokens || 1024,
+        temperature: options.temperature ?? 0.7,
+        ...(options.schema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: options.schema } } }
+          : {}),
+      });
+      return completion.choices[0]?.message.content || '';
+    },
+
+    async generateImage(prompt) {
+      const result = await post<{ data: Array<{ b64_json?: string; url?: string }> }>('/images/generations', {
+        model: imageModel,
+        prompt,
+        n: 1,
+        size: '1024x1024',
+      });
+
+      const image = result.data[0];
+      if (image?.b64_json) return { data: decodeBase64(image.b64_json), mimeType: 'image/png' };
+      if (image?.url) {
+        const response = await fetch(image.url);
+        return {
+          data: new Uint8Array(await response.arrayBuffer()),
+          mimeType: response.headers.get('Content-Type') || 'image/png',
+        };
+      }
+      throw new Error('AI endpoint did not return an image');
+    },
+  };
+}
+
+function hashString(value: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function localBackend(): AIBackend {
+  return {
+    id: 'local',
+    textModel: DEFAULT_MODELS.local.text,
+    imageModel: DEFAULT_MODELS.local.image,
+
+    generateText(messages, options = {}) {
+      const prompt = messages.filter(m => m.role === 'user').at(-1)?.content || '';
+      const digest = hashString(messages.map(m => m.content).join('\n')).toString(16);
+      if (options.schema) {
+        return Promise.resolve(JSON.stringify({ result: `local-${digest}` }));
+      }
+      return Promise.resolve(`[local ${digest}] ${prompt.substring(0, 200)}`);
+    },
+
+    generateImage(prompt) {
+      const hash = hashString(prompt);
+      const from = `#${(hash & 0xffffff).toString(16).padStart(6, '0')}`;
+      const to = `#${((hash >>> 8) & 0xffffff).toString(16).padStart(6, '0')}`;
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024">' +
+        `<defs><linearGradient id="g" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>` +
+        '<rect width="100%" height="100%" fill="url(#g)"/></svg>';
+      return Promise.resolve({ data: new TextEncoder().encode(svg), mimeType: 'image/svg+xml' });
+    },
+  };
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function getAIBackend(env: Env): AIBackend {
+  const id: AIBackendId = env.AI_PROVIDER === 'openai' || env.AI_PROVIDER === 'local' ? env.AI_PROVIDER : 'workers-ai';
+  if (id === 'local') return localBackend();
+
+  const textModel = env.AI_TEXT_MODEL || DEFAULT_MODELS[id].text;
+  const imageModel = env.AI_IMAGE_MODEL || DEFAULT_MODELS[id].image;
+  return id === 'openai' ? openAIBackend(env, textModel, imageModel) : workersAIBackend(env, textModel, imageModel);
+}
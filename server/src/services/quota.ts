@@ -0,0 +1,101 @@
+/**
+ * Lumina Studio API - Usage Quotas
+ *
+ * Monthly usage accounting against the limits in `tier_quotas`.
+ */
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  tier: string;
+  used: number;
+  limit: number;
+  remaining: number;
+  overageAllowed: boolean;
+}
+
+export async function checkQuota(
+  db: D1Database,
+  userId: string,
+  usageType: string
+): Promise<QuotaCheckResult> {
+  const billingPeriod = new Date().toISOString().substring(0, 7); // YYYY-MM
+
+  // Get user tier
+  const user = await db.prepare(
+    'SELECT tier FROM users WHERE id = ?'
+  ).bind(userId).first();
+
+  const tier = (user?.tier as string) || 'free';
+
+  // Get quota limits for this tier and usage type
+  const quota = await db.prepare(
+    'SELECT monthly_limit, overage_allowed FROM tier_quotas WHERE tier = ? AND usage_type = ?'
+  ).bind(tier, usageType).first();
+
+  // Default limits if no quota record exists
+  const monthlyLimit = (quota?.monthly_limit as number) ?? 10;
+  const overageAllowed = (quota?.overage_allowed as number) === 1;
+
+  // Get current usage for this billing period
+  const usage = await db.prepare(`
+    SELECT COALESCE(SUM(quantity), 0) as total
+    FROM usage_records
+    WHERE user_id = ? AND usage_type = ? AND billing_period = ?
+  `).bind(userId, usageType, billingPeriod).first();
+
+  const used = (usage?.total as number) || 0;
+
+  // Check if unlimited (-1 means unlimited)
+  if (monthlyLimit === -1) {
+    return {
+      allowed: true,
+      tier,
+      used,
+      limit: -1,
+      remaining: -1,
+      overageAllowed: true,
+    };
+  }
+
+  const remaining = Math.max(0, monthlyLimit - used);
+  const allowed = remaining > 0 || overageAllowed;
+
+  return {
+    allowed,
+    tier,
+    used,
+    limit: monthlyLimit,
+    remaining,
+    overageAllowed,
+  };
+}
+
+export async function recordUsage(
+  db: D1Database,
+  userId: string,
+  usageType: string,
+  quantity: number = 1,
+  metadata: { workspaceId?: string; projectId?: string; assetId?: string; modelUsed?: string } = {}
+): Promise<void> {
+  const billingPeriod = new Date().toISOString().substring(0, 7);
+  const now = Math.floor(Date.now() / 1000);
+  const usageId = `usage_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
+
+  await db.prepare(`
+    INSERT INTO usage_records (
+      id, user_id, workspace_id, usage_type, quantity,
+      model_used, project_id, asset_id, billing_period, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    usageId,
+    userId,
+    metadata.workspaceId || null,
+    usageType,
+    quantity,
+    metadata.modelUsed || null,
+    metadata.projectId || null,
+    metadata.assetId || null,
+    billingPeriod,
+    now
+  ).run();
+}
@@ -2,6 +2,14 @@
  * Lumina Studio API - Environment Type Definitions
  */
 
+/**
+ * The Workers AI binding as services/ai.ts calls it. Models are chosen by
+ * name at runtime, so inputs and outputs are checked there, not here.
+ */
+export interface WorkersAI {
+  run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+}
+
 export interface Env {
   // Cloudflare D1 Database
   DB: D1Database;
@@ -13,7 +21,14 @@ export interface Env {
   RATE_LIMIT_KV: KVNamespace;
 
   // Cloudflare Workers AI
-  AI: Ai;
+  AI: WorkersAI;
+
+  // AI backend selection (see services/ai.ts)
+  AI_PROVIDER?: 'workers-ai' | 'openai' | 'local';
+  AI_TEXT_MODEL?: string;
+  AI_IMAGE_MODEL?: string;
+  AI_BASE_URL?: string;
+  AI_API_KEY?: string;
 
   // Environment variables
   ENVIRONMENT: 'development' | 'staging' | 'production';
@@ -23,6 +38,11 @@ export interface Env {
   THUMBNAIL_SIZE: string;
   PREVIEW_SIZE: string;
 
+  // Clerk Authentication
+  CLERK_ISSUER: string;
+  CLERK_AUTHORIZED_PARTIES?: string;
+  CLERK_JWKS_URL?: string;
+
   // Clerk Authentication (secrets)
   CLERK_SECRET_KEY: string;
   CLERK_WEBHOOK_SECRET: string;
@@ -116,6 +136,16 @@ export interface Project {
   last_opened_at: number | null;
 }
 
+export interface ProjectVersion {
+  id: string;
+  project_id: string;
+  version_number: number;
+  state_json: string;
+  changed_by: string;
+  change_summary: string | null;
+  created_at: number;
+}
+
 export interface Asset {
   id: string;
   workspace_id: string;
@@ -142,6 +172,17 @@ export interface Asset {
   updated_at: number;
 }
 
+export interface AssetVersion {
+  id: string;
+  asset_id: string;
+  version_number: number;
+  storage_key: string;
+  file_size: number;
+  edit_operations_json: string | null;
+  created_by: string;
+  created_at: number;
+}
+
 export interface BrandKit {
   id: string;
   workspace_id: string;
@@ -293,6 +334,24 @@ export interface ChatMessage {
   created_at: number;
 }
 
+export interface Export {
+  id: string;
+  project_id: string;
+  workspace_id: string;
+  /** Null once the requesting user is deleted */
+  requested_by: string | null;
+  format: 'png' | 'jpg' | 'webp' | 'svg' | 'pdf' | 'gif' | 'mp4' | 'webm' | 'zip';
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  storage_key: string | null;
+  file_size: number | null;
+  mime_type: string | null;
+  options_json: string | null;
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+  completed_at: number | null;
+}
+
 export interface ActivityLog {
   id: string;
   user_id: string | null;
@@ -373,4 +432,6 @@ export interface AIGenerationResponse {
   };
   generation_time_ms?: number;
   error?: string;
+  /** Data URL of the generated image, when requested with `inline` */
+  image?: string;
 }
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { missingFields, pickFields } from '../validation';
+
+describe('pickFields', () => {
+  const spec = {
+    name: 'string',
+    is_default: 'boolean',
+    colors_json: 'json',
+    status: ['draft', 'active'],
+    start_date: 'number',
+  } as const;
+
+  it('converts whitelisted fields for storage and ignores the rest', () => {
+    const picked = pickFields(
+      { name: 'Spring', is_default: true, colors_json: ['#fff'], owner_id: 'user_evil', id: 'x' },
+      spec
+    );
+
+    expect(picked.errors).toEqual([]);
+    expect(picked.columns).toEqual(['name', 'is_default', 'colors_json']);
+    expect(picked.values).toEqual(['Spring', 1, '["#fff"]']);
+  });
+
+  it('reports type and enum errors', () => {
+    const picked = pickFields({ name: 42, status: 'deleted', start_date: 'tomorrow' }, spec);
+
+    expect(picked.columns).toEqual([]);
+    expect(picked.errors).toEqual([
+      'name must be a string',
+      'status must be one of: draft, active',
+      'start_date must be a number',
+    ]);
+  });
+
+  it('allows clearing fields with null', () => {
+    expect(pickFields({ start_date: null }, spec).values).toEqual([null]);
+  });
+});
+
+describe('missingFields', () => {
+  it('treats blank strings as missing', () => {
+    expect(missingFields({ name: '  ', project_type: 'design' }, ['name', 'project_type', 'file_size'])).toEqual([
+      'name',
+      'file_size',
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Lumina Studio API - Workspace Access Control
+ *
+ * Every workspace-scoped route checks the caller's `workspace_members` role.
+ * Non-members get a 404 so resource IDs from other workspaces aren't confirmed.
+ */
+
+import type { Context } from 'hono';
+import type { Env, WorkspaceMember } from '../types/env';
+
+export type WorkspaceRole = WorkspaceMember['role'];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export async function getWorkspaceRole(
+  db: D1Database,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const member = await db.prepare(
+    'SELECT role FROM workspace_members WHERE workspace_id = ? AND user_id = ?'
+  ).bind(workspaceId, userId).first<{ role: WorkspaceRole }>();
+
+  return member?.role || null;
+}
+
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * Check the current user's role in a workspace.
+ * Returns an error response to send back, or null when access is allowed.
+ * The role is stored on the context as `userRole`.
+ */
+export async function checkWorkspaceAccess(
+  c: Context<{ Bindings: Env }>,
+  workspaceId: string,
+  minimum: WorkspaceRole = 'viewer',
+  notFoundMessage = 'Workspace not found'
+): Promise<Response | null> {
+  const role = await getWorkspaceRole(c.env.DB, workspaceId, c.get('userId'));
+
+  if (!role) {
+    return c.json({ error: notFoundMessage }, 404);
+  }
+  if (!hasRole(role, minimum)) {
+    return c.json({ error: 'Insufficient permissions' }, 403);
+  }
+
+  c.set('userRole', role);
+  return null;
+}
+
+export type LoadedRow<T> = { row: T; error: null } | { row: null; error: Response };
+
+/**
+ * Load a row that has a `workspace_id` and check the caller's access to it.
+ * Missing rows and rows in other workspaces both answer 404.
+ */
+export async function loadWorkspaceRow<T extends { workspace_id: string }>(
+  c: Context<{ Bindings: Env }>,
+  table: string,
+  id: string,
+  minimum: WorkspaceRole,
+  notFoundMessage: string
+): Promise<LoadedRow<T>> {
+  const row = await c.env.DB.prepare(`SELECT * FROM ${table} WHERE id = ?`).bind(id).first<T>();
+
+  if (!row) {
+    return { row: null, error: c.json({ error: notFoundMessage }, 404) };
+  }
+
+  const error = await checkWorkspaceAccess(c, row.workspace_id, minimum, notFoundMessage);
+  return error ? { row: null, error } : { row, error: null };
+}
@@ -0,0 +1,93 @@
+/**
+ * Lumina Studio API - D1 Query Helpers
+ */
+
+import type { Context } from 'hono';
+import type { PaginatedResponse } from '../types/env';
+
+// ===========================================
+// Pagination
+// ===========================================
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  offset: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Read `?page=` and `?limit=` from the query string, clamped to sane bounds
+ */
+export function parsePagination(c: Context): Pagination {
+  const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+  const requested = parseInt(c.req.query('limit') || String(DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE;
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, requested));
+
+  return { page, limit, offset: (page - 1) * limit };
+}
+
+export interface ListQuery {
+  /** Columns to select; defaults to `*` */
+  select?: string;
+  /** Everything between FROM and ORDER BY, e.g. `projects WHERE workspace_id = ?` */
+  from: string;
+  orderBy: string;
+  binds: unknown[];
+}
+
+/**
+ * Run a list query and its count, returning one page of results
+ */
+export async function paginatedQuery<T>(
+  db: D1Database,
+  query: ListQuery,
+  pagination: Pagination
+): Promise<PaginatedResponse<T>> {
+  const [rows, count] = await Promise.all([
+    db.prepare(`SELECT ${query.select || '*'} FROM ${query.from} ORDER BY ${query.orderBy} LIMIT ? OFFSET ?`)
+      .bind(...query.binds, pagination.limit, pagination.offset)
+      .all<T>(),
+    db.prepare(`SELECT COUNT(*) as total FROM ${query.from}`)
+      .bind(...query.binds)
+      .first<{ total: number }>(),
+  ]);
+
+  const total = count?.total || 0;
+  const totalPages = Math.ceil(total / pagination.limit);
+
+  return {
+    data: rows.results || [],
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages,
+      hasMore: pagination.page < totalPages,
+    },
+  };
+}
+
+// ===========================================
+// Updates
+// ===========================================
+
+/**
+ * Update the given columns of a row and bump its `updated_at`.
+ * Column names must come from a whitelist, never from the request.
+ */
+export async function updateRow(
+  db: D1Database,
+  table: string,
+  id: string,
+  columns: string[],
+  values: unknown[]
+): Promise<void> {
+  const assignments = [...columns.map((column) => `${column} = ?`), "updated_at = strftime('%s', 'now')"];
+
+  await db.prepare(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = ?`)
+    .bind(...values, id)
+    .run();
+}
@@ -0,0 +1,10 @@
+/**
+ * Lumina Studio API - ID Generation
+ */
+
+/**
+ * Generate a prefixed record ID, e.g. `prj_3f9a1c0b7d2e4a6f`
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '').substring(0, 16)}`;
+}
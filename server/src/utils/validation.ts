@@ -0,0 +1,91 @@
+/**
+ * Lumina Studio API - Request Body Validation
+ *
+ * Maps JSON request bodies onto whitelisted table columns.
+ */
+
+/**
+ * How a body field is stored:
+ * - 'string' / 'number' are stored as-is
+ * - 'boolean' is stored as 1/0
+ * - 'json' is stringified into a `*_json` column
+ * - an array of strings is an enum
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | 'json' | readonly string[];
+
+export type FieldSpec = Record<string, FieldType>;
+
+export interface PickedFields {
+  columns: string[];
+  values: unknown[];
+  errors: string[];
+}
+
+function convert(field: string, type: FieldType, value: unknown): { value?: unknown; error?: string } {
+  if (value === null) {
+    return { value: null };
+  }
+
+  if (Array.isArray(type)) {
+    return type.includes(value as string)
+      ? { value }
+      : { error: `${field} must be one of: ${type.join(', ')}` };
+  }
+
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? { value } : { error: `${field} must be a string` };
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? { value } : { error: `${field} must be a number` };
+    case 'boolean':
+      return typeof value === 'boolean' ? { value: value ? 1 : 0 } : { error: `${field} must be a boolean` };
+    case 'json':
+      return { value: JSON.stringify(value) };
+    default:
+      return { error: `${field} has an unsupported type` };
+  }
+}
+
+/**
+ * Pick the fields in `spec` that are present in `body`, converted for storage.
+ * Unknown fields are ignored.
+ */
+export function pickFields(body: Record<string, unknown>, spec: FieldSpec): PickedFields {
+  const picked: PickedFields = { columns: [], values: [], errors: [] };
+
+  for (const [field, type] of Object.entries(spec)) {
+    if (body[field] === undefined) continue;
+
+    const result = convert(field, type, body[field]);
+    if (result.error) {
+      picked.errors.push(result.error);
+    } else {
+      picked.columns.push(field);
+      picked.values.push(result.value);
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Names of required fields that are missing or blank
+ */
+export function missingFields(body: Record<string, unknown>, required: string[]): string[] {
+  return required.filter((field) => {
+    const value = body[field];
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+  });
+}
+
+/**
+ * Parse a JSON object body; returns null for malformed or non-object bodies
+ */
+export async function readJSONBody(request: { json: () => Promise<unknown> }): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
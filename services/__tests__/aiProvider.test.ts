@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getAIProvider, parseJsonReply, setAIProvider, setConfiguredProviderId } from '../aiProvider';
+import type { AIProvider } from '../aiProvider';
+import { localProvider } from '../aiProviderLocal';
+import { saveOpenAIConfig } from '../aiProviderOpenAI';
+import { validateSchema } from '../designActions';
+import {
+  fetchVideoData,
+  generateSpeech,
+  generateStoryboardFromScript,
+  pollVideoOperation,
+  startVideoGeneration,
+} from '../geminiService';
+
+// The test config defines a platform Gemini key; these tests stand for a build without one
+vi.mock('../aiProviderGemini', async (importOriginal) => {
+  const actual = await importOriginal<{ geminiProvider: AIProvider }>();
+  return { ...actual, geminiProvider: { ...actual.geminiProvider, isAvailable: () => false } };
+});
+
+afterEach(() => {
+  setAIProvider(null);
+  setConfiguredProviderId(null);
+  saveOpenAIConfig(null);
+  vi.unstubAllGlobals();
+});
+
+describe('getAIProvider', () => {
+  it('falls back to the local stand-in without keys or endpoints', () => {
+    expect(getAIProvider('text').id).toBe('local');
+    expect(getAIProvider('video').id).toBe('local');
+  });
+
+  it('prefers the configured provider and honours overrides', () => {
+    saveOpenAIConfig({ baseUrl: 'http://localhost:11434/v1' });
+    setConfiguredProviderId('openai');
+
+    expect(getAIProvider('text').id).toBe('openai');
+    // The OpenAI-compatible adapter has no video capability
+    expect(getAIProvider('video').id).toBe('local');
+
+    setAIProvider('local', 'text');
+    expect(getAIProvider('text').id).toBe('local');
+    expect(getAIProvider('image').id).toBe('openai');
+
+    setAIProvider('workers-ai');
+    expect(() => getAIProvider('speech')).toThrow('Cloudflare Workers AI does not support speech');
+  });
+});
+
+describe('localProvider', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      accentColor: { type: 'string' },
+      mood: { type: 'string', enum: ['calm', 'bold'] },
+      score: { type: 'integer', minimum: 1, maximum: 10 },
+      tags: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['name', 'mood'],
+    additionalProperties: false,
+  } as const;
+
+  it('returns the same schema-conforming reply for the same request', async () => {
+    const first = await localProvider.text!.generate({ prompt: 'Autumn coffee launch poster', schema });
+    const second = await localProvider.text!.generate({ prompt: 'Autumn coffee launch poster', schema });
+    const other = await localProvider.text!.generate({ prompt: 'Winter tea launch poster', schema });
+
+    const value: unknown = JSON.parse(first.text);
+    expect(first.text).toBe(second.text);
+    expect(other.text).not.toBe(first.text);
+    expect(validateSchema(value, schema)).toEqual([]);
+    expect((value as { accentColor: string }).accentColor).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('generates placeholder images sized by aspect ratio', async () => {
+    const { dataUrl } = await localProvider.image!.generate({ prompt: 'Sunset <skyline>', aspectRatio: '16:9' });
+    const svg = atob(dataUrl.replace('data:image/svg+xml;base64,', ''));
+
+    expect(svg).toContain('width="1024" height="576"');
+    expect(svg).toContain('Sunset &#60;skyline&#62;');
+  });
+});
+
+describe('geminiService without network', () => {
+  it('runs text, speech and video helpers on the local stand-in', async () => {
+    const fetchMock = vi.fn(() => Promise.reject(new Error('No network in tests')));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const shots = await generateStoryboardFromScript('A barista opens the shop at dawn.') as Array<{ motionScore: number }>;
+    expect(shots).toHaveLength(3);
+    shots.forEach(shot => expect(shot.motionScore).toBeGreaterThanOrEqual(1));
+
+    const audio = await generateSpeech('Welcome to Lumina');
+    // 3 words of 0.18s at 24kHz, 16-bit samples
+    expect(atob(audio).length).toBe(3 * 4320 * 2);
+
+    const job = await pollVideoOperation(await startVideoGeneration('Steam rising from a cup', '9:16'));
+    expect(job.done).toBe(true);
+    const blob = await fetchVideoData(job);
+    expect(await blob.text()).toContain('width="576" height="1024"');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('openAIProvider', () => {
+  it('requests structured output from a compatible endpoint', async () => {
+    const fetchMock = vi.fn((_url: string, _init: RequestInit) => Promise.resolve(new Response(
+      JSON.stringify({ choices: [{ message: { content: '```json\n["a","b"]\n```' } }], usage: { total_tokens: 42 } }),
+      { status: 200 }
+    )));
+    vi.stubGlobal('fetch', fetchMock);
+    saveOpenAIConfig({ baseUrl: 'http://localhost:11434/v1/', textModel: 'llama3.1' });
+    setAIProvider('openai');
+
+    const result = await getAIProvider('text').text.generate({
+      prompt: 'Two tags',
+      system: 'Be brief',
+      schema: { type: 'array', items: { type: 'string' } },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0]!;
+    const body = JSON.parse(init.body as string) as Record<string, unknown>;
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(body).toMatchObject({
+      model: 'llama3.1',
+      messages: [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Two tags' }],
+      response_format: { type: 'json_schema' },
+    });
+    expect(result.tokensUsed).toBe(42);
+    expect(parseJsonReply(result.text, [])).toEqual(['a', 'b']);
+  });
+});
+
+describe('parseJsonReply', () => {
+  it('falls back when the reply is not JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(parseJsonReply('Sure! Here are your tags: a, b', ['fallback'])).toEqual(['fallback']);
+    expect(parseJsonReply('```json\n{"unterminated": \n```', null)).toBeNull();
+    expect(parseJsonReply('  ', [])).toEqual([]);
+  });
+});
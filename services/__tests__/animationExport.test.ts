@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import { Resvg } from '@resvg/resvg-js';
+import type { DesignElement } from '../../types';
+import type { AnimationSequence, AnimationTrack } from '../../types/animation';
+import { applyAnimationValues, animationScale, getFrameTimes, renderAnimation } from '../animationExport';
+import type { AnimationFrameRasterizer, VideoEncoderFactory, VideoEncoderSettings } from '../animationExport';
+import type { DecodedImage } from '../printExport';
+
+const rasterize: AnimationFrameRasterizer = ({ svg, width }) => {
+  const image = new Resvg(svg, { fitTo: { mode: 'width', value: width } }).render();
+  return Promise.resolve({ width: image.width, height: image.height, data: new Uint8Array(image.pixels) });
+};
+
+/** Keeps the frames it is given and hands back one byte per frame */
+function fakeEncoder() {
+  const frames: Array<{ frame: DecodedImage; timestamp: number; duration: number; keyFrame: boolean }> = [];
+  const settings: VideoEncoderSettings[] = [];
+  let closed = false;
+  const createEncoder: VideoEncoderFactory = config => {
+    settings.push(config);
+    return Promise.resolve({
+      encode: (frame, timestamp, duration, keyFrame) => {
+        frames.push({ frame, timestamp, duration, keyFrame });
+        return Promise.resolve();
+      },
+      finish: () => Promise.resolve({
+        codec: config.format === 'mp4' ? 'avc' as const : 'vp9' as const,
+        width: config.width,
+        height: config.height,
+        description: new Uint8Array([1]),
+        frames: frames.map(({ timestamp, duration, keyFrame }, i) => ({ data: new Uint8Array([i]), timestamp, duration, key: keyFrame })),
+      }),
+      close: () => { closed = true; },
+    });
+  };
+  return { createEncoder, frames, settings, isClosed: () => closed };
+}
+
+const box: DesignElement = {
+  id: 'box',
+  type: 'shape',
+  content: '',
+  x: 0,
+  y: 10,
+  width: 20,
+  height: 20,
+  zIndex: 1,
+  isVisible: true,
+  style: { backgroundColor: '#ff0000' },
+};
+
+const track = (property: AnimationTrack['property'], from: number | string, to: number | string): AnimationTrack => ({
+  id: property,
+  elementId: 'box',
+  property,
+  enabled: true,
+  keyframes: [
+    { id: 'a', time: 0, value: from, easing: 'linear' },
+    { id: 'b', time: 1000, value: to, easing: 'linear' },
+  ],
+});
+
+const sequence = (overrides: Partial<AnimationSequence> = {}): AnimationSequence => ({
+  id: 'slide',
+  name: 'Slide',
+  duration: 1000,
+  tracks: [track('x', 0, 80)],
+  loop: false,
+  autoPlay: false,
+  delay: 0,
+  ...overrides,
+});
+
+/** Left edge of the red box in the middle row */
+const redLeft = ({ width, height, data }: DecodedImage) => {
+  const row = Math.floor(height / 2) * width * 4;
+  for (let x = 0; x < width; x++) {
+    if (data[row + x * 4]! > 200 && data[row + x * 4 + 1]! < 50) return x;
+  }
+  return -1;
+};
+
+describe('getFrameTimes', () => {
+  it('ends on the final state unless the sequence loops', () => {
+    expect(getFrameTimes(sequence(), 4)).toEqual([0, 250, 500, 750, 1000]);
+    expect(getFrameTimes(sequence({ loop: true }), 4)).toEqual([0, 250, 500, 750]);
+    expect(getFrameTimes(sequence({ delay: 100, duration: 200 }), 10)).toEqual([0, 100, 200, 300]);
+    expect(() => getFrameTimes(sequence(), 0)).toThrow('Frame rate must be greater than zero');
+  });
+});
+
+describe('applyAnimationValues', () => {
+  it('sets geometry, opacity and colours on the animated elements only', () => {
+    const text: DesignElement = { ...box, id: 'title', type: 'text', content: 'Hi' };
+    const values = new Map([
+      ['box', [
+        { property: 'x' as const, value: 12, time: 0 },
+        { property: 'opacity' as const, value: 0.5, time: 0 },
+        { property: 'fill' as const, value: '#00ff00', time: 0 },
+        { property: 'borderRadius' as const, value: 4, time: 0 },
+        { property: 'scale' as const, value: 2, time: 0 },
+        { property: 'scaleY' as const, value: 0.5, time: 0 },
+      ]],
+      ['title', [{ property: 'fill' as const, value: '#0000ff', time: 0 }]],
+    ]);
+    const [shape, title] = applyAnimationValues([box, text], values);
+    expect(shape).toMatchObject({ x: 12, width: 20, style: { backgroundColor: '#00ff00', opacity: 0.5, borderRadius: '4px' } });
+    expect(title!.color).toBe('#0000ff');
+    expect(box.x).toBe(0);
+    expect(animationScale(values.get('box'))).toEqual([2, 1]);
+  });
+});
+
+describe('renderAnimation', () => {
+  const options = { width: 100, height: 40, fps: 4, rasterize };
+
+  it('renders every frame at its time and encodes a GIF', async () => {
+    const progress: number[] = [];
+    const result = await renderAnimation([box], sequence({ loop: true, tracks: [track('x', 0, 80), track('blur', 0, 4)] }), {
+      ...options,
+      format: 'gif',
+      onProgress: value => progress.push(value),
+    });
+    expect(result).toMatchObject({ mimeType: 'image/gif', width: 100, height: 40, frameCount: 4, duration: 1000 });
+    expect(new TextDecoder().decode(result.bytes.subarray(0, 6))).toBe('GIF89a');
+    expect(new TextDecoder().decode(result.bytes)).toContain('NETSCAPE2.0');
+    expect(progress).toEqual([25, 50, 74, 99, 100]);
+    expect(result.warnings).toEqual(['The blur animation of element box is not rendered in exported frames']);
+  });
+
+  it('steps the sequence frame by frame into the video encoder', async () => {
+    const encoder = fakeEncoder();
+    const result = await renderAnimation([box], sequence({ tracks: [track('x', 0, 80), track('scale', 1, 2)] }), {
+      ...options,
+      width: 101,
+      format: 'mp4',
+      keyFrameInterval: 1,
+      createEncoder: encoder.createEncoder,
+    });
+    // Video frames have even sizes
+    expect(encoder.settings).toEqual([{ format: 'mp4', width: 102, height: 40, fps: 4, bitrate: 500_000 }]);
+    expect(result).toMatchObject({ mimeType: 'video/mp4', frameCount: 5 });
+    expect(encoder.frames.map(({ timestamp, duration, keyFrame }) => [timestamp, duration, keyFrame])).toEqual([
+      [0, 250_000, true], [250_000, 250_000, false], [500_000, 250_000, false], [750_000, 250_000, false], [1_000_000, 250_000, true],
+    ]);
+    // The box moves 20 units a frame and grows about its centre, from 20 to 40 units wide;
+    // its left edge is at 0, 17.5, 35, 52.5 and 70 units, slightly stretched to 102 pixels
+    expect(encoder.frames.map(({ frame }) => redLeft(frame))).toEqual([0, 18, 36, 53, 71]);
+    expect(new TextDecoder().decode(result.bytes.subarray(4, 8))).toBe('ftyp');
+  });
+
+  it('stops at the next frame when cancelled', async () => {
+    const encoder = fakeEncoder();
+    const controller = new AbortController();
+    await expect(renderAnimation([box], sequence(), {
+      ...options,
+      format: 'webm',
+      createEncoder: encoder.createEncoder,
+      signal: controller.signal,
+      onProgress: () => controller.abort(new Error('Export cancelled')),
+    })).rejects.toThrow('Export cancelled');
+    expect(encoder.frames).toHaveLength(1);
+    expect(encoder.isClosed()).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { canvasHistoryService, findMergeBase } from '../canvasHistoryService';
+import type { CanvasElement, CanvasState, HistoryGraphNode } from '../canvasHistoryService';
+
+function el(id: string, props: Partial<CanvasElement> = {}): CanvasElement {
+  return { id, type: 'shape', x: 0, y: 0, width: 10, height: 10, ...props };
+}
+
+function state(...elements: CanvasElement[]): CanvasState {
+  return { elements, viewport: { x: 0, y: 0, zoom: 1 } };
+}
+
+function node(branchName: string, versionNumber: number, extra: Partial<HistoryGraphNode> = {}): HistoryGraphNode {
+  return {
+    branchName,
+    versionNumber,
+    parentVersion: versionNumber > 1 ? versionNumber - 1 : undefined,
+    ...extra,
+  };
+}
+
+describe('findMergeBase', () => {
+  const graph = [
+    node('main', 1), node('main', 2), node('main', 3), node('main', 4),
+    node('ab-test', 1, { parentBranch: 'main', parentVersion: 2 }),
+    node('ab-test', 2), node('ab-test', 3),
+  ];
+
+  it('finds the branch point', () => {
+    expect(findMergeBase(graph, { branch: 'main', version: 4 }, { branch: 'ab-test', version: 3 }))
+      .toEqual({ branch: 'main', version: 2 });
+  });
+
+  it('uses the last merge as the new base', () => {
+    const merged = [...graph, node('main', 5, { mergeSource: { branch: 'ab-test', version: 2 } })];
+
+    expect(findMergeBase(merged, { branch: 'main', version: 5 }, { branch: 'ab-test', version: 3 }))
+      .toEqual({ branch: 'ab-test', version: 2 });
+  });
+
+  it('treats legacy branches without a parent branch as forks of main', () => {
+    const legacy = [node('main', 1), node('main', 2), node('old', 1, { parentVersion: 1 })];
+
+    expect(findMergeBase(legacy, { branch: 'main', version: 2 }, { branch: 'old', version: 1 }))
+      .toEqual({ branch: 'main', version: 1 });
+  });
+});
+
+describe('canvasHistoryService.mergeCanvasStates', () => {
+  const base = state(el('a', { x: 0, fill: 'red' }), el('b'), el('c'));
+
+  it('merges non-overlapping edits from both branches', () => {
+    const ours = state(el('a', { x: 50, fill: 'red' }), el('b'), el('c'), el('ours-new'));
+    const theirs = state(el('a', { x: 0, fill: 'blue' }), el('theirs-new'), el('b'));
+
+    const result = canvasHistoryService.mergeCanvasStates(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.state.elements.map(e => e.id)).toEqual(['a', 'theirs-new', 'b', 'ours-new']);
+    expect(result.state.elements[0]).toMatchObject({ x: 50, fill: 'blue' });
+    expect(result.changedElements.sort()).toEqual(['a', 'c', 'theirs-new']);
+  });
+
+  it('reports conflicting properties and applies chosen resolutions', () => {
+    const ours = state(el('a', { x: 50, fill: 'green' }), el('b'), el('c'));
+    const theirs = state(el('a', { x: 50, fill: 'blue' }), el('b', { width: 99 }), el('c'));
+
+    const preview = canvasHistoryService.mergeCanvasStates(base, ours, theirs);
+    expect(preview.conflicts).toEqual([
+      { id: 'a:fill', elementId: 'a', kind: 'property', property: 'fill', base: 'red', ours: 'green', theirs: 'blue' },
+    ]);
+    expect(preview.state.elements[0]!.fill).toBe('green');
+
+    const resolved = canvasHistoryService.mergeCanvasStates(base, ours, theirs, { 'a:fill': 'theirs' });
+    expect(resolved.state.elements[0]).toMatchObject({ x: 50, fill: 'blue' });
+    expect(resolved.state.elements[1]!.width).toBe(99);
+  });
+
+  it('flags deletes of elements the other branch edited', () => {
+    const ours = state(el('a', { x: 0, fill: 'red' }), el('c'));
+    const theirs = state(el('a', { x: 0, fill: 'red' }), el('b', { height: 40 }), el('c'));
+
+    const kept = canvasHistoryService.mergeCanvasStates(base, ours, theirs, { 'b:delete': 'theirs' });
+
+    expect(kept.conflicts.map(c => c.id)).toEqual(['b:delete']);
+    expect(kept.state.elements.find(e => e.id === 'b')).toMatchObject({ height: 40 });
+
+    const dropped = canvasHistoryService.mergeCanvasStates(base, ours, theirs, { 'b:delete': 'ours' });
+    expect(dropped.state.elements.find(e => e.id === 'b')).toBeUndefined();
+  });
+
+  it('removes properties deleted on the other branch', () => {
+    const ours = state(el('a', { x: 0, fill: 'red' }), el('b'), el('c'));
+    const theirs = state(el('a', { x: 0 }), el('b'), el('c'));
+
+    const result = canvasHistoryService.mergeCanvasStates(base, ours, theirs);
+
+    expect(result.state.elements[0]).not.toHaveProperty('fill');
+  });
+});
+
+describe('canvasHistoryService.commitMerge', () => {
+  beforeEach(() => {
+    canvasHistoryService.initialize('project-1');
+  });
+
+  afterEach(() => {
+    canvasHistoryService.dispose();
+  });
+
+  it('refuses to commit with unresolved conflicts', () => {
+    const head = canvasHistoryService.pushState(state(el('a', { fill: 'green' })), 'Edit', 'update');
+    const preview = {
+      ...canvasHistoryService.mergeCanvasStates(
+        state(el('a', { fill: 'red' })),
+        head.canvasState,
+        state(el('a', { fill: 'blue' }))
+      ),
+      sourceBranch: 'ab-test',
+      targetBranch: 'main',
+      mergeBase: { branch: 'main', version: 1 },
+      sourceVersion: 3,
+      targetEntryId: head.id,
+      baseState: state(el('a', { fill: 'red' })),
+      oursState: head.canvasState,
+      theirsState: state(el('a', { fill: 'blue' })),
+    };
+
+    expect(() => canvasHistoryService.commitMerge(preview)).toThrow('1 merge conflict unresolved');
+
+    const entry = canvasHistoryService.commitMerge(preview, { 'a:fill': 'theirs' });
+    expect(entry.canvasState.elements[0]!.fill).toBe('blue');
+    expect(entry.mergeSource).toEqual({ branch: 'ab-test', version: 3 });
+    expect(entry.actionLabel).toBe('Merged from branch: ab-test');
+
+    expect(() => canvasHistoryService.commitMerge(preview, { 'a:fill': 'theirs' })).toThrow('History changed');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { OperationLog, compareOperations, happenedBefore, mergeOperations } from '../collaborationMerge';
+import type { DesignElement } from '../../types';
+import type { CollaborationOperation, OperationType } from '../../types/collaboration';
+
+function element(id: string, overrides: Partial<DesignElement> = {}): DesignElement {
+  return { id, type: 'shape', content: '', x: 0, y: 0, width: 100, height: 100, zIndex: 0, ...overrides };
+}
+
+function op(
+  id: string,
+  user: string,
+  clock: Record<string, number>,
+  type: OperationType,
+  targetId: string,
+  data: Record<string, any> = {}
+): CollaborationOperation {
+  return {
+    id,
+    room_id: 'room',
+    user_id: user,
+    operation_type: type,
+    target_type: 'element',
+    target_id: targetId,
+    operation_data: data,
+    vector_clock: clock,
+    client_timestamp: '',
+    server_timestamp: '',
+    is_applied: false,
+  };
+}
+
+/** Every ordering of the log must merge to the same elements */
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+describe('operation ordering', () => {
+  it('orders causes before effects and concurrent operations by user', () => {
+    const a1 = op('a1', 'alice', { alice: 1 }, 'update', 'e');
+    const b1 = op('b1', 'bob', { bob: 1 }, 'update', 'e');
+    const a2 = op('a2', 'alice', { alice: 2, bob: 1 }, 'update', 'e');
+
+    expect(happenedBefore(b1, a2)).toBe(true);
+    expect(happenedBefore(a1, b1)).toBe(false);
+    expect(happenedBefore(b1, a1)).toBe(false);
+    expect([a2, b1, a1].sort(compareOperations).map(o => o.id)).toEqual(['a1', 'b1', 'a2']);
+  });
+});
+
+describe('mergeOperations', () => {
+  const base = [element('e', { x: 10, style: { fill: 'red', stroke: 'black' } })];
+
+  it('converges on concurrent property edits regardless of arrival order', () => {
+    const log = [
+      op('a1', 'alice', { alice: 1 }, 'transform', 'e', { changes: { x: 50 } }),
+      op('b1', 'bob', { bob: 1 }, 'transform', 'e', { changes: { x: 80, y: 5 } }),
+      op('a2', 'alice', { alice: 2 }, 'style', 'e', { changes: { fill: 'blue' } }),
+      op('b2', 'bob', { bob: 2 }, 'style', 'e', { changes: { stroke: null } }),
+    ];
+
+    const results = permutations(log).map(order => mergeOperations(order, base));
+
+    for (const result of results) {
+      expect(result).toEqual(results[0]);
+    }
+    expect(results[0]!.elements[0]).toMatchObject({ x: 80, y: 5, style: { fill: 'blue' } });
+    expect(results[0]!.conflicts).toEqual([
+      expect.objectContaining({ kind: 'property', elementId: 'e', property: 'x' }),
+    ]);
+    expect(results[0]!.conflicts[0]!.winner.id).toBe('b1');
+    expect(results[0]!.conflicts[0]!.loser.id).toBe('a1');
+  });
+
+  it('lets a causally later edit win without reporting a conflict', () => {
+    const result = mergeOperations([
+      op('b2', 'bob', { alice: 1, bob: 1 }, 'update', 'e', { changes: { x: 1 } }),
+      op('a1', 'alice', { alice: 1 }, 'update', 'e', { changes: { x: 99 } }),
+    ], base);
+
+    expect(result.elements[0]!.x).toBe(1);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('keeps deletes over concurrent edits and reports them', () => {
+    const result = mergeOperations([
+      op('a1', 'alice', { alice: 1 }, 'delete', 'e'),
+      op('b1', 'bob', { bob: 1 }, 'update', 'e', { changes: { x: 5 } }),
+    ], base);
+
+    expect(result.elements).toEqual([]);
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ kind: 'delete', elementId: 'e' }),
+    ]);
+    expect(result.conflicts[0]!.winner.id).toBe('a1');
+    expect(result.conflicts[0]!.loser.id).toBe('b1');
+  });
+
+  it('inserts elements and separates z-order collisions deterministically', () => {
+    const log = [
+      op('a1', 'alice', { alice: 1 }, 'insert', 'n1', { element: element('n1', { zIndex: 3 }) }),
+      op('b1', 'bob', { bob: 1 }, 'insert', 'n2', { element: element('n2', { zIndex: 3 }) }),
+      op('a2', 'alice', { alice: 2 }, 'move', 'e', { zIndex: 5 }),
+    ];
+
+    const results = permutations(log).map(order => mergeOperations(order, base));
+
+    for (const result of results) {
+      expect(result.elements.map(el => [el.id, el.zIndex])).toEqual([['n1', 3], ['n2', 4], ['e', 5]]);
+    }
+  });
+
+  it('ignores operations for other targets and duplicate deliveries', () => {
+    const update = op('a1', 'alice', { alice: 1 }, 'update', 'e', { changes: { x: 20 } });
+    const comment = { ...op('c1', 'alice', { alice: 2 }, 'update', 'e', { changes: { x: 30 } }), target_type: 'comment' };
+
+    const result = mergeOperations([update, update, comment], base);
+
+    expect(result.elements[0]!.x).toBe(20);
+    expect(base[0]!.x).toBe(10);
+  });
+});
+
+describe('OperationLog', () => {
+  it('reports each conflict once as operations arrive', () => {
+    const log = new OperationLog([element('e')]);
+
+    expect(log.add(op('a1', 'alice', { alice: 1 }, 'update', 'e', { changes: { width: 10 } }))).toEqual([]);
+    expect(log.add(op('b1', 'bob', { bob: 1 }, 'update', 'e', { changes: { width: 20 } }))).toHaveLength(1);
+    expect(log.add(op('b1', 'bob', { bob: 1 }, 'update', 'e', { changes: { width: 20 } }))).toEqual([]);
+    expect(log.add(op('b2', 'bob', { alice: 1, bob: 2 }, 'update', 'e', { changes: { height: 5 } }))).toEqual([]);
+
+    expect(log.size).toBe(3);
+    expect(log.getState().elements[0]).toMatchObject({ width: 20, height: 5 });
+  });
+});
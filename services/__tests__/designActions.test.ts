@@ -0,0 +1,152 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  COMMAND_RESPONSE_SCHEMA,
+  applyDesignActions,
+  parseCommandResponse,
+  previewDesignActions,
+  serializeDesignContext,
+  validateSchema,
+} from '../designActions';
+import { aiDesignAssistant, providerDesignModel } from '../aiDesignAssistantService';
+import type { DesignModelRequest } from '../aiDesignAssistantService';
+import type { DesignElement } from '../../types';
+
+function element(id: string, overrides: Partial<DesignElement> = {}): DesignElement {
+  return { id, type: 'shape', content: '', x: 0, y: 0, width: 100, height: 40, zIndex: 0, ...overrides };
+}
+
+const canvas = [
+  element('logo', { type: 'image', content: `data:image/png;base64,${'A'.repeat(500)}`, color: '#ff5500', zIndex: 1 }),
+  element('headline', { type: 'text', content: 'Summer Sale', color: '#111111', fontSize: 32, zIndex: 2 }),
+  element('buy', { x: 10, y: 300, zIndex: 3 }),
+  element('more', { x: 200, y: 300, zIndex: 4 }),
+];
+
+const reply = (actions: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ commandType: 'layout', actions, explanation: 'Done.', confidence: 0.9, ...extra });
+
+describe('validateSchema', () => {
+  it('reports type, enum, range and unknown property errors', () => {
+    const errors = validateSchema(
+      {
+        commandType: 'dance',
+        actions: [{ type: 'update', targetId: 'a', properties: { width: -5, opacity: 1 } }],
+        explanation: 3,
+        confidence: 2,
+      },
+      COMMAND_RESPONSE_SCHEMA
+    );
+
+    expect(errors).toEqual([
+      '$.commandType must be one of generate, edit, style, layout, content',
+      '$.actions[0].properties.width must be >= 0',
+      '$.actions[0].properties.opacity is not allowed',
+      '$.explanation must be a string',
+      '$.confidence must be <= 1',
+    ]);
+  });
+});
+
+describe('parseCommandResponse', () => {
+  it('accepts actions that refer to existing or newly created elements', () => {
+    const parsed = parseCommandResponse(reply([
+      { type: 'create', properties: { id: 'badge', type: 'shape' } },
+      { type: 'update', targetId: 'badge', properties: { color: '#ff5500' } },
+    ]), canvas);
+
+    expect(parsed.commandType).toBe('layout');
+    expect(parsed.actions).toHaveLength(2);
+  });
+
+  it('rejects invalid JSON, schema violations and unknown targets', () => {
+    expect(() => parseCommandResponse('Sure! Here you go', canvas)).toThrow('not valid JSON');
+    expect(() => parseCommandResponse(reply([{ type: 'teleport', properties: {} }]), canvas))
+      .toThrow('$.actions[0].type must be one of');
+    expect(() => parseCommandResponse(reply([{ type: 'update', targetId: 'ghost', properties: { x: 1 } }]), canvas))
+      .toThrow('unknown element ghost');
+    expect(() => parseCommandResponse(reply([{ type: 'style', properties: { color: 'red' } }]), canvas))
+      .toThrow('targetId is required for style');
+  });
+});
+
+describe('serializeDesignContext', () => {
+  it('orders elements by z-index and drops embedded image data', () => {
+    const context = serializeDesignContext([...canvas].reverse(), ['headline', 'deleted']);
+
+    expect(context.selection).toEqual(['headline']);
+    expect(context.elements.map(el => el.id)).toEqual(['logo', 'headline', 'buy', 'more']);
+    expect(context.elements[0]!.content).toBe('[embedded image]');
+  });
+});
+
+describe('applyDesignActions', () => {
+  it('applies actions in order without mutating the input', () => {
+    const result = applyDesignActions(canvas, [
+      { type: 'update', targetId: 'headline', properties: { color: '#ff5500' } },
+      { type: 'move', targetId: 'more', properties: { x: 10, y: 350 } },
+      { type: 'style', targetId: 'buy', properties: { style: { borderRadius: '8px' }, color: '#fff' } },
+      { type: 'group', properties: { elementIds: ['buy', 'more'], groupId: 'buttons' } },
+      { type: 'create', properties: { id: 'badge', type: 'text', content: '-20%' } },
+      { type: 'delete', targetId: 'logo', properties: {} },
+    ]);
+
+    expect(result.map(el => el.id)).toEqual(['headline', 'buy', 'more', 'badge']);
+    expect(result[0]).toMatchObject({ color: '#ff5500' });
+    expect(result[1]).toMatchObject({ color: '#fff', style: { borderRadius: '8px' }, groupId: 'buttons' });
+    expect(result[2]).toMatchObject({ x: 10, y: 350, groupId: 'buttons' });
+    expect(result[3]).toMatchObject({ type: 'text', content: '-20%', zIndex: 5, isVisible: true });
+    expect(canvas[1]!.color).toBe('#111111');
+  });
+});
+
+describe('previewDesignActions', () => {
+  it('describes created, changed and removed elements', () => {
+    const preview = previewDesignActions(canvas, [
+      { type: 'update', targetId: 'headline', properties: { color: '#ff5500' } },
+      { type: 'style', targetId: 'buy', properties: { fontWeight: 'bold' } },
+      { type: 'delete', targetId: 'more', properties: {} },
+    ]);
+
+    expect(preview.changes).toEqual([
+      { elementId: 'headline', kind: 'update', label: '"Summer Sale"', properties: [{ property: 'color', before: '#111111', after: '#ff5500' }] },
+      { elementId: 'buy', kind: 'update', label: 'shape buy', properties: [{ property: 'style.fontWeight', before: undefined, after: 'bold' }] },
+      { elementId: 'more', kind: 'delete', label: 'shape more', properties: [] },
+    ]);
+    expect(preview.elements).toHaveLength(3);
+  });
+});
+
+describe('aiDesignAssistant.executeCommand', () => {
+  afterEach(() => {
+    aiDesignAssistant.setProvider(providerDesignModel);
+  });
+
+  it('sends the serialized canvas to the provider and previews the result', async () => {
+    const requests: DesignModelRequest[] = [];
+    aiDesignAssistant.setProvider({
+      id: 'fake',
+      generate: (request) => {
+        requests.push(request);
+        return Promise.resolve({
+          text: reply([
+            { type: 'update', targetId: 'headline', properties: { color: '#ff5500' } },
+            { type: 'move', targetId: 'more', properties: { x: 10, y: 350 } },
+          ]),
+          tokensUsed: 120,
+        });
+      },
+    });
+
+    const response = await aiDesignAssistant.executeCommand(
+      'make the headline match the logo color and stack the buttons',
+      { elements: canvas, selectedElements: ['headline'] }
+    );
+
+    expect(requests[0]!.schema).toBe(COMMAND_RESPONSE_SCHEMA);
+    expect(requests[0]!.prompt).toContain('"selection":["headline"]');
+    expect(requests[0]!.prompt).toContain('"color":"#ff5500"');
+    expect(response.confidence).toBe(0.9);
+    expect(response.preview!.changes.map(change => change.elementId)).toEqual(['headline', 'more']);
+    expect(canvas[1]!.color).toBe('#111111');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { Resvg } from '@resvg/resvg-js';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFRawStream, PDFStream } from 'pdf-lib';
+import type { DesignElement } from '../../types';
+import { designToSVG, parsePathData, prepareDesign, renderDesignRaster } from '../designRenderer';
+import type { DesignFontLoader, DesignRasterizer } from '../designRenderer';
+import { renderDesignPDF } from '../designPdf';
+import { decodeStreamData, parseContentStream, readContentStreams } from '../pdfContentStream';
+
+const FONT_PATH = resolve(__dirname, '../../node_modules/pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf');
+const FONT = new Uint8Array(readFileSync(FONT_PATH));
+const loadFont: DesignFontLoader = family => Promise.resolve(family === 'Liberation Sans' ? FONT : null);
+
+const element = (id: string, overrides: Partial<DesignElement>): DesignElement => ({
+  id,
+  type: 'shape',
+  content: '',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  zIndex: 1,
+  isVisible: true,
+  ...overrides,
+});
+
+// A 2×2 red PNG, drawn with resvg
+const RED_PNG = new Resvg('<svg xmlns="http://www.w3.org/2000/svg" width="2" height="2"><rect width="2" height="2" fill="#ff0000"/></svg>').render().asPng();
+const RED_PNG_URL = `data:image/png;base64,${Buffer.from(RED_PNG).toString('base64')}`;
+
+const design: DesignElement[] = [
+  element('title', {
+    type: 'text',
+    content: 'Lumina Studio renders text',
+    width: 160,
+    height: 60,
+    x: 20,
+    y: 10,
+    fontSize: 20,
+    zIndex: 3,
+    color: '#112233',
+    style: { fontFamily: 'Liberation Sans', fontWeight: 400, letterSpacing: 0 },
+  }),
+  element('photo', { type: 'image', content: RED_PNG_URL, x: 50, y: 80, mask: 'circle', rotation: 90, zIndex: 2 }),
+  element('badge', { x: 0, y: 150, width: 200, height: 50, zIndex: 1, style: { backgroundColor: '#0000ff', borderRadius: '8px', opacity: 0.5 } }),
+  element('hidden', { type: 'text', content: 'Hidden', isVisible: false }),
+];
+
+const options = { width: 200, height: 200, loadFont };
+
+describe('designRenderer', () => {
+  it('parses path data into absolute lines and curves', () => {
+    expect(parsePathData('M10 10 h20 v20 Q40 40 50 30 Z')).toEqual([
+      { type: 'M', x: 10, y: 10 },
+      { type: 'L', x: 30, y: 10 },
+      { type: 'L', x: 30, y: 30 },
+      { type: 'C', x1: 30 + (2 / 3) * 10, y1: 30 + (2 / 3) * 10, x2: 50 + (2 / 3) * -10, y2: 30 + (2 / 3) * 10, x: 50, y: 30 },
+      { type: 'Z' },
+    ]);
+    const arc = parsePathData('M0 0 A10 10 0 0 1 20 0');
+    expect(arc.slice(1).every(cmd => cmd.type === 'C')).toBe(true);
+    expect(arc[arc.length - 1]).toMatchObject({ x: 20, y: 0 });
+  });
+
+  it('wraps and centres text with the loaded font, and skips hidden elements', async () => {
+    const prepared = await prepareDesign(design, options);
+    expect(prepared.warnings).toEqual([]);
+    expect(prepared.elements.map(item => item.element.id)).toEqual(['badge', 'photo', 'title']);
+
+    const text = prepared.elements[2]!.text!;
+    expect(text.lines.map(line => line.text)).toEqual(['Lumina Studio', 'renders text']);
+    for (const line of text.lines) {
+      expect(line.width).toBeLessThanOrEqual(160);
+      expect(line.x).toBeCloseTo((160 - line.width) / 2, 5);
+    }
+    expect(text.lines[1]!.baseline - text.lines[0]!.baseline).toBeCloseTo(25, 5);
+
+    const svg = designToSVG(prepared);
+    expect(svg).toContain('@font-face{font-family:"Liberation Sans";font-weight:400');
+    expect(svg).toContain('>Lumina Studio</tspan>');
+    expect(svg).toContain('<clipPath id="clip-1">');
+    // Rotated 90° about the centre of the 100×100 box at (50, 80)
+    expect(svg).toContain('<g transform="matrix(0 1 -1 0 150 80)">');
+    expect(svg).not.toContain('Hidden');
+  });
+
+  it('rasterizes at the requested scale with a supplied rasterizer', async () => {
+    let pixels: Uint8Array | undefined;
+    const rasterize: DesignRasterizer = ({ svg, width, fonts, format }) => {
+      expect(format).toBe('png');
+      expect(fonts.map(font => font.program?.postScriptName)).toEqual(['LiberationSans']);
+      const rendered = new Resvg(svg, {
+        fitTo: { mode: 'width', value: width },
+        font: { loadSystemFonts: false, fontFiles: [FONT_PATH], defaultFontFamily: 'Liberation Sans' },
+      }).render();
+      pixels = rendered.pixels;
+      return Promise.resolve(new Blob([rendered.asPng()], { type: 'image/png' }));
+    };
+
+    const progress: number[] = [];
+    const { blob } = await renderDesignRaster(design, { ...options, format: 'png', scale: 2, rasterize, onProgress: p => progress.push(p) });
+    expect(blob.type).toBe('image/png');
+    expect(progress[progress.length - 1]).toBe(100);
+
+    const pixel = (x: number, y: number) => Array.from(pixels!.subarray((y * 400 + x) * 4, (y * 400 + x) * 4 + 4));
+    // Centre of the circular image, a corner it masks out, and the half-transparent badge
+    expect(pixel(200, 260)).toEqual([255, 0, 0, 255]);
+    expect(pixel(104, 164)).toEqual([255, 255, 255, 255]);
+    // Text is drawn in the title's colour
+    expect(Array.from({ length: 400 * 120 }, (_, i) => pixel(i % 400, Math.floor(i / 400))).some(([r, g, b]) => r === 0x11 && g === 0x22 && b === 0x33)).toBe(true);
+    pixel(20, 380).forEach((channel, i) => expect(channel).toBeCloseTo([127.5, 127.5, 255, 255][i]!, -1));
+  });
+
+  it('writes a vector PDF with live text in an embedded font', async () => {
+    const { bytes, warnings } = await renderDesignPDF(design, { ...options, title: 'Poster' });
+    expect(warnings).toEqual([]);
+
+    const pdf = await PDFDocument.load(bytes);
+    expect(pdf.getTitle()).toBe('Poster');
+    const page = pdf.getPage(0);
+    expect(page.getSize()).toEqual({ width: 200, height: 200 });
+
+    const fonts = page.node.Resources()!.lookup(PDFName.of('Font'), PDFDict);
+    const font = fonts.lookup(PDFName.of('F1'), PDFDict);
+    expect(font.lookup(PDFName.of('Subtype'))).toBe(PDFName.of('Type0'));
+    const cidFont = font.lookup(PDFName.of('DescendantFonts'), PDFArray).lookup(0, PDFDict);
+    const descriptor = cidFont.lookup(PDFName.of('FontDescriptor'), PDFDict);
+    expect(descriptor.lookup(PDFName.of('FontFile2'))).toBeInstanceOf(PDFRawStream);
+    expect(descriptor.lookup(PDFName.of('FontName'))).toBe(PDFName.of('LiberationSans'));
+
+    const toUnicode = new TextDecoder().decode(decodeStreamData(font.lookup(PDFName.of('ToUnicode'), PDFStream))!);
+    expect(toUnicode).toContain('<004c>'); // "L"
+
+    const operations = parseContentStream(readContentStreams(page.node.Contents()));
+    const operators = operations.map(operation => operation.operator);
+    expect(operators.filter(operator => operator === 'Tj')).toHaveLength(2);
+    expect(operators).toContain('Do');
+    expect(operators).toContain('gs');
+  });
+});
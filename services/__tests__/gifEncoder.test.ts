@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { createGifEncoder, mapToPalette, quantize } from '../gifEncoder';
+import type { DecodedImage } from '../printExport';
+
+interface GifFrame {
+  delay: number;
+  palette: number[][];
+  indices: number[];
+}
+
+/** Minimal GIF reader: frame delays, local palettes and decoded indices */
+function readGif(bytes: Uint8Array): { width: number; height: number; loops: number | null; frames: GifFrame[] } {
+  const u16 = (at: number) => bytes[at]! | (bytes[at + 1]! << 8);
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+  const width = u16(6);
+  const height = u16(8);
+  let at = 13;
+  let loops: number | null = null;
+  let delay = 0;
+  const frames: GifFrame[] = [];
+
+  const subBlocks = () => {
+    const data: number[] = [];
+    while (bytes[at] !== 0) {
+      const size = bytes[at]!;
+      data.push(...bytes.subarray(at + 1, at + 1 + size));
+      at += size + 1;
+    }
+    at++;
+    return data;
+  };
+
+  while (bytes[at] !== 0x3b) {
+    const introducer = bytes[at++];
+    if (introducer === 0x21) {
+      const label = bytes[at++];
+      const data = subBlocks();
+      if (label === 0xf9) delay = data[1]! | (data[2]! << 8);
+      if (label === 0xff && String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0') loops = data[12]! | (data[13]! << 8);
+      continue;
+    }
+    expect(introducer).toBe(0x2c);
+    const packed = bytes[at + 8]!;
+    at += 9;
+    const size = 2 << (packed & 7);
+    const palette = Array.from({ length: size }, (_, i) => [...bytes.subarray(at + i * 3, at + i * 3 + 3)]);
+    at += size * 3;
+    const minCodeSize = bytes[at++]!;
+    frames.push({ delay, palette, indices: lzwDecode(subBlocks(), minCodeSize) });
+  }
+  return { width, height, loops, frames };
+}
+
+function lzwDecode(data: number[], minCodeSize: number): number[] {
+  const clear = 1 << minCodeSize;
+  const out: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bit = 0;
+  const reset = () => {
+    table = Array.from({ length: clear + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3]! >> (bit & 7)) & 1) << i;
+    if (code === clear) {
+      reset();
+      continue;
+    }
+    if (code === clear + 1) break;
+    const entry: number[] = code < table.length ? table[code]! : [...previous!, previous![0]!];
+    out.push(...entry);
+    if (previous) table.push([...previous, entry[0]!]);
+    previous = entry;
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return out;
+}
+
+const solid = (width: number, height: number, pixel: (x: number, y: number) => number[]): DecodedImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set([...pixel(x, y), 255], (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+describe('createGifEncoder', () => {
+  it('writes exact colours, merges repeated frames and loops', () => {
+    const encoder = createGifEncoder({ width: 4, height: 2, repeat: 0 });
+    const split = solid(4, 2, x => (x < 2 ? [255, 0, 0] : [0, 0, 255]));
+    encoder.addFrame(split, 0);
+    encoder.addFrame(solid(4, 2, x => (x < 2 ? [255, 0, 0] : [0, 0, 255])), 100);
+    encoder.addFrame(solid(4, 2, () => [0, 128, 0]), 200);
+    const gif = readGif(encoder.finish(300));
+
+    expect(gif).toMatchObject({ width: 4, height: 2, loops: 0 });
+    expect(gif.frames.map(frame => frame.delay)).toEqual([20, 10]);
+    const [first, second] = gif.frames;
+    expect(first!.indices.map(index => first!.palette[index])).toEqual([
+      [255, 0, 0], [255, 0, 0], [0, 0, 255], [0, 0, 255],
+      [255, 0, 0], [255, 0, 0], [0, 0, 255], [0, 0, 255],
+    ]);
+    expect(new Set(second!.indices.map(index => second!.palette[index]!.join()))).toEqual(new Set(['0,128,0']));
+  });
+
+  it('plays once without a loop extension and rejects mismatched frames', () => {
+    const encoder = createGifEncoder({ width: 2, height: 2 });
+    expect(() => encoder.addFrame(solid(3, 2, () => [0, 0, 0]), 0)).toThrow('GIF frames must all be 2×2');
+    encoder.addFrame(solid(2, 2, () => [0, 0, 0]), 0);
+    expect(readGif(encoder.finish(40)).loops).toBeNull();
+  });
+
+  it('round-trips noisy frames through the full LZW code table', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31) % 256;
+    const frame = solid(96, 96, () => [random(), random(), random()]);
+    const encoder = createGifEncoder({ width: 96, height: 96, colors: 64, dither: 'none' });
+    encoder.addFrame(frame, 0);
+    const [decoded] = readGif(encoder.finish(100)).frames;
+
+    const palette = quantize(frame.data, 64);
+    expect(palette.length).toBe(64 * 3);
+    expect(decoded!.indices).toEqual([...mapToPalette(frame, palette, 'none')]);
+  });
+});
+
+describe('mapToPalette', () => {
+  const gray = solid(32, 32, () => [128, 128, 128]);
+  const blackAndWhite = new Uint8Array([0, 0, 0, 255, 255, 255]);
+  const whiteShare = (indices: Uint8Array) => indices.filter(index => index === 1).length / indices.length;
+
+  it('maps to the nearest colour without dithering', () => {
+    expect(whiteShare(mapToPalette(gray, blackAndWhite, 'none'))).toBe(1);
+  });
+
+  it('mixes colours to keep the average with Floyd-Steinberg and ordered dithering', () => {
+    expect(whiteShare(mapToPalette(gray, blackAndWhite, 'floyd-steinberg'))).toBeCloseTo(0.5, 1);
+    expect(whiteShare(mapToPalette(solid(32, 32, () => [140, 140, 140]), blackAndWhite, 'ordered'))).toBeGreaterThan(0);
+  });
+});
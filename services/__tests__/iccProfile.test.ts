@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createCMYKConverter, createGenericCMYKProfile, createSRGBProfile, parseICCProfile } from '../iccProfile';
+
+describe('createSRGBProfile', () => {
+  it('produces an ICC v2 RGB display profile', () => {
+    const profile = createSRGBProfile();
+    const view = new DataView(profile.buffer);
+
+    expect(view.getUint32(0)).toBe(profile.length);
+    expect(profile[8]).toBe(2);
+    expect(String.fromCharCode(...profile.subarray(12, 20))).toBe('mntrRGB ');
+    expect(String.fromCharCode(...profile.subarray(36, 40))).toBe('acsp');
+  });
+});
+
+describe('createGenericCMYKProfile', () => {
+  it('produces an ICC v2 CMYK output profile', () => {
+    const profile = parseICCProfile(createGenericCMYKProfile());
+    expect(profile).toMatchObject({ version: 2.1, deviceClass: 'prtr', colorSpace: 'CMYK', pcs: 'Lab', description: 'Lumina Generic CMYK' });
+  });
+});
+
+describe('createCMYKConverter', () => {
+  const convert = createCMYKConverter(parseICCProfile(createGenericCMYKProfile()));
+  // Interpolating the profile's 17-point grid keeps inks within 10%
+  const expectInks = (actual: number[], expected: number[]) =>
+    actual.forEach((ink, i) => expect(Math.abs(ink - expected[i]!)).toBeLessThanOrEqual(0.1));
+
+  it('separates sRGB colours through the profile', () => {
+    expectInks(convert(255, 255, 255), [0, 0, 0, 0]);
+    expectInks(convert(0, 0, 0), [0, 0, 0, 1]);
+    expectInks(convert(255, 0, 0), [0, 1, 1, 0]);
+    expectInks(convert(0, 0, 255), [1, 1, 0, 0]);
+    // Neutrals go to black only
+    expectInks(convert(128, 128, 128), [0, 0, 0, 0.5]);
+  });
+
+  it('rejects profiles that are not CMYK or not ICC', () => {
+    expect(() => createCMYKConverter(parseICCProfile(createSRGBProfile()))).toThrow('is for RGB, not CMYK');
+    expect(() => parseICCProfile(new Uint8Array(200))).toThrow('File is not an ICC profile');
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import type { DesignElement } from '../../types';
+import { cubicBezierEasing, getValueAtTime } from '../../types/animation';
+import type { AnimationSequence, AnimationTrack, EasingType, Keyframe } from '../../types/animation';
+import { lottieToSequence, sequenceToLottie } from '../lottieFormat';
+import type { LottieAnimation, LottieKeyframe, LottieProperty, LottieSplitPosition } from '../lottieFormat';
+
+const box: DesignElement = {
+  id: 'box',
+  type: 'shape',
+  content: '',
+  x: 0,
+  y: 10,
+  width: 20,
+  height: 20,
+  zIndex: 2,
+  isVisible: true,
+  style: { backgroundColor: '#ff0000', borderRadius: '4px' },
+};
+
+const title: DesignElement = {
+  id: 'title',
+  type: 'text',
+  content: 'Hello\nworld',
+  x: 40,
+  y: 40,
+  width: 120,
+  height: 60,
+  zIndex: 1,
+  isVisible: true,
+  fontSize: 20,
+  color: '#0000ff',
+  style: { fontFamily: 'Inter', fontWeight: 700, textAlign: 'center' },
+};
+
+const track = (
+  property: AnimationTrack['property'],
+  from: number | string,
+  to: number | string,
+  easing: EasingType = 'linear',
+  extra: Partial<Keyframe> = {},
+  elementId = 'box'
+): AnimationTrack => ({
+  id: property,
+  elementId,
+  property,
+  enabled: true,
+  keyframes: [
+    { id: 'a', time: 0, value: from, easing, ...extra },
+    { id: 'b', time: 1000, value: to, easing: 'linear' },
+  ],
+});
+
+const sequence = (tracks: AnimationTrack[]): AnimationSequence => ({
+  id: 'intro',
+  name: 'Intro',
+  duration: 1000,
+  tracks,
+  loop: false,
+  autoPlay: false,
+  delay: 0,
+});
+
+const keyframes = (property: LottieProperty | LottieSplitPosition | undefined) => (property as LottieProperty).k as LottieKeyframe[];
+
+describe('sequenceToLottie', () => {
+  it('maps tracks to layer keyframes with bezier easing', () => {
+    const { animation, warnings } = sequenceToLottie(sequence([
+      track('x', 0, 80),
+      track('opacity', 1, 0, 'easeOut'),
+      track('rotation', 0, 90, 'custom', { customEasing: [0.25, 0.1, 0.25, 1] }),
+      track('fill', '#ff0000', '#00ff00'),
+      track('blur', 0, 4),
+    ]), [box, title], { width: 200, height: 100, fps: 30 });
+
+    expect(animation).toMatchObject({ fr: 30, ip: 0, op: 30, w: 200, h: 100, nm: 'Intro' });
+    const [shape, text] = animation.layers;
+    expect(shape).toMatchObject({ ty: 4, ln: 'box', st: 0 });
+    expect(keyframes((shape!.ks.p as LottieSplitPosition).x)).toEqual([
+      { t: 0, s: [10], o: { x: [0], y: [0] }, i: { x: [1], y: [1] } },
+      { t: 30, s: [90] },
+    ]);
+    expect((shape!.ks.p as LottieSplitPosition).y).toEqual({ a: 0, k: 20 });
+    expect(keyframes(shape!.ks.o)[0]).toMatchObject({ s: [100], o: { x: [0.333], y: [1] }, i: { x: [0.667], y: [1] } });
+    expect(keyframes(shape!.ks.r)[0]).toMatchObject({ o: { x: [0.25], y: [0.1] }, i: { x: [0.25], y: [1] } });
+
+    const items = shape!.shapes![0]!.it!;
+    expect(items.map(item => item.ty)).toEqual(['rc', 'fl', 'tr']);
+    expect(items[0]).toMatchObject({ s: { a: 0, k: [20, 20] }, r: { a: 0, k: 4 } });
+    // Colours step in the timeline, so they hold
+    expect(keyframes(items[1]!.c)).toEqual([{ t: 0, s: [1, 0, 0, 1], h: 1 }, { t: 30, s: [0, 1, 0, 1] }]);
+
+    expect(text).toMatchObject({ ty: 5, ln: 'title' });
+    expect(text!.t!.d.k[0]!.s).toMatchObject({ t: 'Hello\rworld', s: 20, f: 'Inter-700', j: 2, fc: [0, 0, 1], sz: [120, 60] });
+    expect(animation.fonts!.list).toEqual([{ fName: 'Inter-700', fFamily: 'Inter', fStyle: 'Bold', ascent: 75 }]);
+    expect(warnings).toEqual(['Shape box: Blur animation is not exported']);
+  });
+
+  it('samples easings without a bezier curve at every frame', () => {
+    const elastic = track('x', 0, 100, 'easeOutElastic');
+    const { animation } = sequenceToLottie(sequence([elastic]), [box], { width: 200, height: 100, fps: 10 });
+    const x = keyframes((animation.layers[0]!.ks.p as LottieSplitPosition).x);
+
+    expect(x.map(keyframe => keyframe.t)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    x.forEach(keyframe => {
+      expect(keyframe.s![0]).toBeCloseTo(Number(getValueAtTime(elastic.keyframes, keyframe.t * 100)) + 10, 2);
+    });
+  });
+});
+
+describe('lottieToSequence', () => {
+  it('round-trips exported sequences into editable tracks', () => {
+    const tracks = [
+      track('x', 0, 80, 'easeOut'),
+      track('y', 10, 50, 'custom', { customEasing: [0.2, 0.6, 0.3, 1] }),
+      // Position and size keyed alike keep their keyframes
+      track('width', 20, 60, 'easeOut'),
+      track('scale', 1, 2),
+      track('opacity', 1, 0.5, 'easeInQuad'),
+      track('fill', '#ff0000', '#00ff00'),
+      track('x', 40, 0, 'linear', {}, 'title'),
+    ];
+    const { animation } = sequenceToLottie(sequence(tracks), [box, title], { width: 200, height: 100, fps: 25 });
+    const result = lottieToSequence(JSON.stringify(animation));
+
+    expect(result).toMatchObject({ width: 200, height: 100, fps: 25, unsupported: [] });
+    expect(result.sequence).toMatchObject({ name: 'Intro', duration: 1000 });
+    expect(result.elements.map(({ id, type, x, y, width, height }) => ({ id, type, x, y, width, height }))).toEqual([
+      { id: 'title', type: 'text', x: 40, y: 40, width: 120, height: 60 },
+      { id: 'box', type: 'shape', x: 0, y: 10, width: 20, height: 20 },
+    ]);
+    expect(result.elements[0]).toMatchObject({ content: 'Hello\nworld', fontSize: 20, color: '#0000ff', style: { fontFamily: 'Inter', fontWeight: 700, textAlign: 'center' } });
+    expect(result.elements[1]!.style).toMatchObject({ backgroundColor: '#ff0000', borderRadius: '4px' });
+
+    // The same values and easing at every keyframe
+    const imported = (elementId: string, property: AnimationTrack['property']) =>
+      result.sequence.tracks.find(t => t.elementId === elementId && t.property === property)!;
+    for (const original of tracks.filter(t => t.property !== 'fill')) {
+      const copy = imported(original.elementId, original.property);
+      for (const time of [0, 250, 500, 750, 1000]) {
+        expect(Number(getValueAtTime(copy.keyframes, time))).toBeCloseTo(Number(getValueAtTime(original.keyframes, time)), 1);
+      }
+    }
+    expect(imported('box', 'x').keyframes[0]!.easing).toBe('easeOut');
+    expect(imported('box', 'opacity').keyframes[0]!.easing).toBe('easeInQuad');
+    expect(imported('box', 'y').keyframes[0]).toMatchObject({ easing: 'custom', customEasing: [0.2, 0.6, 0.3, 1] });
+    expect(imported('box', 'fill').keyframes.map(kf => kf.value)).toEqual(['#ff0000', '#ff0000', '#00ff00']);
+  });
+
+  it('lists the features it leaves out, by layer', () => {
+    const animation: LottieAnimation = {
+      v: '5.9.0',
+      fr: 30,
+      ip: 0,
+      op: 60,
+      w: 100,
+      h: 100,
+      assets: [],
+      layers: [
+        { ty: 0, nm: 'Scene', ip: 0, op: 60, st: 0, ks: {} },
+        {
+          ty: 4,
+          nm: 'Dot',
+          ind: 2,
+          parent: 1,
+          ip: 0,
+          op: 60,
+          st: 0,
+          hasMask: true,
+          masksProperties: [{}],
+          ks: { p: { a: 0, k: [50, 50] }, a: { a: 0, k: [0, 0] } },
+          shapes: [
+            { ty: 'el', p: { a: 0, k: [0, 0] }, s: { a: 0, k: [10, 10] } },
+            {
+              ty: 'fl',
+              c: { a: 1, k: [{ t: 0, s: [1, 0, 0, 1], o: { x: 0, y: 0 }, i: { x: 1, y: 1 } }, { t: 30, s: [0, 0, 1, 1] }] },
+              o: { a: 0, k: 100 },
+            },
+            { ty: 'tm' },
+          ],
+        },
+      ],
+    };
+    const result = lottieToSequence(animation);
+
+    expect(result.unsupported).toEqual([
+      'Precompositions (Scene)',
+      'Parenting (Dot)',
+      'Masks (Dot)',
+      'Trim paths (Dot)',
+      'Colour transitions, imported as steps (Dot)',
+    ]);
+    expect(result.elements).toMatchObject([{ id: 'layer-2', x: 45, y: 45, width: 10, height: 10, style: { shape: 'ellipse' } }]);
+    expect(result.sequence.tracks[0]!.keyframes.map(kf => [kf.time, kf.value])).toEqual([[0, '#ff0000'], [1000, '#0000ff']]);
+  });
+
+  it('rejects files that are not Lottie animations', () => {
+    expect(() => lottieToSequence('{"layers": []}')).toThrow('The file is not a Lottie animation');
+    expect(() => lottieToSequence('not json')).toThrow('The file is not valid JSON');
+  });
+});
+
+describe('cubicBezierEasing', () => {
+  it('follows the CSS timing curve', () => {
+    expect(cubicBezierEasing(0.5, [0, 0, 1, 1])).toBeCloseTo(0.5, 5);
+    // CSS "ease"
+    expect(cubicBezierEasing(0.5, [0.25, 0.1, 0.25, 1])).toBeCloseTo(0.8024, 3);
+    expect(cubicBezierEasing(1, [0.25, 0.1, 0.25, 1])).toBe(1);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { Resvg } from '@resvg/resvg-js';
+import type { DesignElement } from '../../types';
+import type { Comment, CommentUser } from '../../types/comments';
+import { renderDOCX, renderPPTX } from '../officeExport';
+import type { OfficeImageConverter, OfficePage } from '../officeExport';
+import { openZip } from '../zipArchive';
+
+// A 4×2 red PNG, drawn with resvg
+const RED_PNG = new Resvg('<svg xmlns="http://www.w3.org/2000/svg" width="4" height="2"><rect width="4" height="2" fill="#ff0000"/></svg>').render().asPng();
+const RED_PNG_URL = `data:image/png;base64,${Buffer.from(RED_PNG).toString('base64')}`;
+// Only the WebP signature; the converter below never decodes it
+const WEBP_URL = `data:image/webp;base64,${Buffer.from('RIFF\0\0\0\0WEBPVP8 ').toString('base64')}`;
+
+const convertImage: OfficeImageConverter = () => Promise.resolve(new Uint8Array(RED_PNG));
+
+const element = (id: string, overrides: Partial<DesignElement>): DesignElement => ({
+  id,
+  type: 'shape',
+  content: '',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  zIndex: 1,
+  isVisible: true,
+  ...overrides,
+});
+
+const author: CommentUser = { id: 'u1', name: 'Grace', email: 'grace@example.com', color: '#000000' };
+
+const comment = (id: string, content: string, overrides: Partial<Comment> = {}): Comment => ({
+  id,
+  projectId: 'deck',
+  author,
+  content,
+  position: { x: 0, y: 0 },
+  annotationType: 'pin',
+  status: 'open',
+  priority: 'medium',
+  replies: [],
+  reactions: [],
+  attachments: [],
+  mentions: [],
+  tags: [],
+  createdAt: Number(id.slice(1)),
+  updatedAt: 0,
+  ...overrides,
+});
+
+const pages: OfficePage[] = [
+  {
+    name: 'Cover',
+    elements: [
+      element('title', {
+        type: 'text',
+        content: 'Quarterly <results>\nand plans',
+        x: 100,
+        y: 40,
+        width: 760,
+        height: 120,
+        fontSize: 48,
+        zIndex: 3,
+        color: '#112233',
+        style: { fontFamily: 'Poppins', fontWeight: 700, textAlign: 'left', lineHeight: 1.5, letterSpacing: '2px' },
+      }),
+      element('band', { y: 400, width: 960, height: 140, zIndex: 1, style: { backgroundColor: '#6366f1', borderRadius: '20px', opacity: 0.5 } }),
+      element('photo', { type: 'image', content: RED_PNG_URL, x: 100, y: 200, width: 200, height: 200, mask: 'circle', rotation: 90, zIndex: 2 }),
+      element('hidden', { type: 'text', content: 'Hidden', isVisible: false }),
+    ],
+    comments: [
+      comment('c2', 'Then introduce the roadmap', { replies: [{ id: 'r1', commentId: 'c2', author, content: 'Keep it short', createdAt: 3, mentions: [], reactions: [] }] }),
+      comment('c1', 'Open with the headline number'),
+      comment('c3', 'Fix the typo', { status: 'resolved' }),
+    ],
+  },
+  {
+    elements: [
+      element('logo', { type: 'image', content: WEBP_URL, x: 20, y: 20, width: 100, height: 50 }),
+      element('wave', { content: 'M0 0 L10 0 L10 10 Z', x: 400, y: 300, width: 100, height: 100, skewX: 20, style: { fill: '#00ff00' } }),
+    ],
+  },
+];
+
+const options = { width: 960, height: 540, title: 'Q3 review', author: 'Grace', convertImage };
+
+describe('renderPPTX', () => {
+  it('writes a slide per page with text boxes, native shapes, images and notes', async () => {
+    const progress: number[] = [];
+    const { bytes, warnings } = await renderPPTX(pages, { ...options, onProgress: p => progress.push(p) });
+    expect(warnings).toEqual([]);
+    expect(progress).toEqual([50, 100]);
+
+    const zip = openZip(bytes);
+    const types = await zip.readText('[Content_Types].xml');
+    expect(types).toContain('<Default Extension="png" ContentType="image/png"/>');
+    expect(types).toContain('PartName="/ppt/slides/slide2.xml"');
+    expect(types).toContain('PartName="/ppt/notesSlides/notesSlide1.xml"');
+
+    // 96 design units per inch
+    const presentation = await zip.readText('ppt/presentation.xml');
+    expect(presentation).toContain('<p:sldSz cx="9144000" cy="5143500"/>');
+    expect(presentation).toContain('<p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId3"/>');
+    expect(presentation).toContain('<p:notesMasterIdLst><p:notesMasterId r:id="rId7"/></p:notesMasterIdLst>');
+    expect(await zip.readText('docProps/core.xml')).toContain('<dc:title>Q3 review</dc:title>');
+
+    const slide = await zip.readText('ppt/slides/slide1.xml');
+    expect(slide).toContain('<p:cSld name="Cover">');
+    expect(slide).not.toContain('Hidden');
+    // Bottom to top: band, photo, title
+    expect(slide.indexOf('name="band"')).toBeLessThan(slide.indexOf('name="photo"'));
+    expect(slide.indexOf('name="photo"')).toBeLessThan(slide.indexOf('name="title"'));
+
+    // Text: 48px is 36pt, 1.5 line height is 54pt, 2px spacing is 1.5pt
+    expect(slide).toContain('<p:cNvSpPr txBox="1"/>');
+    expect(slide).toContain('<a:off x="952500" y="381000"/><a:ext cx="7239000" cy="1143000"/>');
+    expect(slide).toContain('<a:pPr algn="l"><a:lnSpc><a:spcPts val="5400"/></a:lnSpc></a:pPr>');
+    expect(slide).toContain('<a:rPr lang="en-US" sz="3600" b="1" spc="150" dirty="0"><a:solidFill><a:srgbClr val="112233"/></a:solidFill><a:latin typeface="Poppins"/>');
+    expect(slide).toContain('<a:t>Quarterly &lt;results&gt;</a:t>');
+    expect(slide).toContain('<a:t>and plans</a:t>');
+
+    // Shape: a half-transparent rounded rectangle
+    expect(slide).toContain('<a:prstGeom prst="roundRect"><a:avLst><a:gd name="adj" fmla="val 14286"/></a:avLst></a:prstGeom>');
+    expect(slide).toContain('<a:srgbClr val="6366F1"><a:alpha val="50000"/></a:srgbClr>');
+
+    // Image: rotated, cropped to cover its square box and masked to a circle
+    expect(slide).toContain('<a:xfrm rot="5400000">');
+    expect(slide).toContain('<a:srcRect l="25000" r="25000"/>');
+    expect(slide).toMatch(/<p:pic>.*<a:prstGeom prst="ellipse">/);
+    const rels = await zip.readText('ppt/slides/_rels/slide1.xml.rels');
+    expect(rels).toContain('Target="../media/image1.png"');
+    expect(rels).toContain('Target="../notesSlides/notesSlide1.xml"');
+    expect(zip.has('ppt/media/image1.png')).toBe(true);
+
+    // Open comments, oldest first, with replies indented
+    const notes = await zip.readText('ppt/notesSlides/notesSlide1.xml');
+    expect(notes.indexOf('Grace: Open with the headline number')).toBeLessThan(notes.indexOf('Grace: Then introduce the roadmap'));
+    expect(notes).toContain('<a:pPr marL="457200"/><a:r><a:rPr lang="en-US" dirty="0"/><a:t>Grace: Keep it short</a:t>');
+    expect(notes).not.toContain('Fix the typo');
+
+    // The second slide has no notes; its WebP is converted and the skewed shape is a free-form outline
+    const second = await zip.readText('ppt/slides/slide2.xml');
+    expect(await zip.readText('ppt/slides/_rels/slide2.xml.rels')).not.toContain('notesSlide');
+    expect(await zip.readText('ppt/slides/_rels/slide2.xml.rels')).toContain('Target="../media/image2.png"');
+    expect(second).toContain('<a:custGeom>');
+    expect(second).not.toContain(' rot="');
+  });
+
+  it('refuses an empty deck', async () => {
+    await expect(renderPPTX([], options)).rejects.toThrow('A deck needs at least one page');
+  });
+});
+
+describe('renderDOCX', () => {
+  it('flows text and images in reading order with shapes behind them', async () => {
+    const { bytes, warnings } = await renderDOCX(pages, { ...options, background: '#fafafa' });
+    expect(warnings).toEqual([]);
+
+    const zip = openZip(bytes);
+    expect(await zip.readText('[Content_Types].xml')).toContain('PartName="/word/document.xml"');
+    const document = await zip.readText('word/document.xml');
+
+    // Two sections at the design's size, 15 twips per unit; margins follow the content
+    const sections = document.match(/<w:sectPr>.*?<\/w:sectPr>/g)!;
+    expect(sections).toHaveLength(2);
+    expect(sections[0]).toContain('<w:pgSz w:w="14400" w:h="8100" w:orient="landscape"/>');
+    expect(sections[0]).toContain('<w:pgMar w:top="600" w:right="1500" w:bottom="2100" w:left="1500"');
+    // The first page's section ends in its last paragraph, the last one ends the body
+    expect(document).toContain(`${sections[0]}</w:pPr>`);
+    expect(document).toContain(`${sections[1]}</w:body>`);
+
+    // The title comes first: two paragraphs in its font, then the photo 40 units below it
+    expect(document).toContain('<w:rFonts w:ascii="Poppins" w:hAnsi="Poppins" w:cs="Poppins"/><w:b/><w:color w:val="112233"/><w:spacing w:val="30"/><w:sz w:val="72"/>');
+    expect(document).toContain('<w:t xml:space="preserve">Quarterly &lt;results&gt;</w:t>');
+    expect(document.indexOf('Quarterly')).toBeLessThan(document.indexOf('<wp:inline'));
+    expect(document).toContain('<w:spacing w:before="600" w:after="0"/><w:ind w:left="0" w:right="8400"/>');
+
+    // Background and band are anchored behind the text, in stacking order
+    const anchors = document.match(/<wp:anchor [^>]*>/g)!;
+    expect(anchors.slice(0, 2).every(anchor => anchor.includes('behindDoc="1"'))).toBe(true);
+    expect(document).toContain('<a:solidFill><a:srgbClr val="FAFAFA"/></a:solidFill>');
+    expect(document).toContain('<wp:positionV relativeFrom="page"><wp:posOffset>3810000</wp:posOffset></wp:positionV>');
+
+    const rels = await zip.readText('word/_rels/document.xml.rels');
+    expect(rels).toContain('Target="media/image1.png"');
+    expect(rels).toContain('Target="media/image2.png"');
+  });
+});
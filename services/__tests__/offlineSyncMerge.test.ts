@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { mergeEntity, mergeEntityDelete, reconcileSyncItem } from '../offlineSyncMerge';
+import type { SyncRpc } from '../offlineSyncMerge';
+import type { EntityType, SyncQueueItem } from '../offlineSyncService';
+
+/** In-memory stand-in for process_sync_item / apply_sync_merge */
+class FakeSyncServer {
+  versions = new Map<string, Array<{ version: number; data: unknown }>>();
+  queue = new Map<string, SyncQueueItem>();
+  calls: string[] = [];
+  /** Runs before each process_sync_item, e.g. to simulate another device */
+  beforeProcess?: () => void;
+
+  write(entityId: string, data: unknown): void {
+    const history = this.versions.get(entityId) ?? [];
+    history.push({ version: history.length + 1, data });
+    this.versions.set(entityId, history);
+  }
+
+  /** The server keeps its own copy of the queued row */
+  enqueue(item: SyncQueueItem): void {
+    this.queue.set(item.id, { ...item });
+  }
+
+  head(entityId: string) {
+    return this.versions.get(entityId)?.at(-1);
+  }
+
+  rpc: SyncRpc = (fn, params) => {
+    this.calls.push(fn);
+    const item = this.queue.get(params.p_queue_id as string);
+    if (!item) return Promise.resolve({ data: { success: false, error: 'Item not found' }, error: null });
+
+    if (fn === 'apply_sync_merge') {
+      item.entity_data = params.p_data;
+      item.base_version = params.p_base_version as number;
+    } else if (fn !== 'process_sync_item') {
+      return Promise.resolve({ data: null, error: { message: `Unknown function ${fn}` } });
+    }
+
+    this.beforeProcess?.();
+    const head = this.head(item.entity_id);
+    if (item.base_version !== undefined && head && head.version > item.base_version) {
+      return Promise.resolve({
+        data: { success: false, conflict: true, conflict_id: 'c1', server_data: head.data, server_version: head.version },
+        error: null,
+      });
+    }
+
+    this.write(item.entity_id, item.entity_data);
+    return Promise.resolve({ data: { success: true, version: this.head(item.entity_id)!.version }, error: null });
+  };
+}
+
+function queued(
+  entityType: EntityType,
+  base: unknown,
+  local: unknown,
+  operationType: SyncQueueItem['operation_type'] = 'update'
+): SyncQueueItem {
+  return {
+    id: 'q1',
+    user_id: 'u1',
+    device_id: 'd1',
+    operation_type: operationType,
+    entity_type: entityType,
+    entity_id: 'e1',
+    entity_data: local,
+    base_data: base,
+    base_version: 1,
+    local_timestamp: '',
+    version: 1,
+    conflict_status: 'none',
+    sync_status: 'pending',
+    retry_count: 0,
+    max_retries: 5,
+    created_at: '',
+  };
+}
+
+describe('mergeEntity', () => {
+  const base = { name: 'Launch', description: 'Draft', tags: ['a', 'b'], updated_at: 1 };
+
+  it('merges non-overlapping field edits', () => {
+    const local = { ...base, name: 'Launch v2', tags: ['a', 'b', 'local'], updated_at: 5 };
+    const server = { ...base, description: 'Final', tags: ['b', 'server'], updated_at: 9 };
+
+    const result = mergeEntity('project', base, local, server);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toEqual({ name: 'Launch v2', description: 'Final', tags: ['b', 'local', 'server'], updated_at: 9 });
+    expect(result.diff.map(d => [d.path, d.source])).toEqual([
+      ['name', 'local'],
+      ['description', 'server'],
+      ['tags', 'both'],
+    ]);
+  });
+
+  it('reports overlapping edits and applies resolutions', () => {
+    const local = { ...base, name: 'Mine' };
+    const server = { ...base, name: 'Theirs', description: 'Final' };
+
+    const result = mergeEntity('asset', base, local, server);
+    expect(result.conflicts).toEqual([
+      { path: 'name', kind: 'field', source: 'conflict', base: 'Launch', local: 'Mine', server: 'Theirs' },
+    ]);
+    expect(result.merged).toMatchObject({ name: 'Mine', description: 'Final' });
+
+    expect(mergeEntity('asset', base, local, server, { name: 'server' }).merged).toMatchObject({ name: 'Theirs' });
+  });
+
+  it('merges canvas elements by id and property', () => {
+    const canvasBase = {
+      elements: [{ id: 'a', x: 0, fill: 'red' }, { id: 'b', x: 0 }, { id: 'c', x: 0 }],
+      background: { color: '#fff', image: null },
+    };
+    const local = {
+      elements: [{ id: 'a', x: 10, fill: 'red' }, { id: 'b', x: 0 }, { id: 'c', x: 0 }, { id: 'new-local', x: 1 }],
+      background: { color: '#000', image: null },
+    };
+    const server = {
+      elements: [{ id: 'a', x: 0, fill: 'blue' }, { id: 'new-server', x: 2 }, { id: 'b', x: 0 }],
+      background: { color: '#fff', image: 'sky.png' },
+    };
+
+    const result = mergeEntity('canvas', canvasBase, local, server);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toEqual({
+      elements: [{ id: 'a', x: 10, fill: 'blue' }, { id: 'new-server', x: 2 }, { id: 'b', x: 0 }, { id: 'new-local', x: 1 }],
+      background: { color: '#000', image: 'sky.png' },
+    });
+    expect(result.diff.find(d => d.path === 'elements[c]')).toMatchObject({ kind: 'delete', source: 'server' });
+  });
+
+  it('flags elements deleted on one side and edited on the other', () => {
+    const canvasBase = { elements: [{ id: 'a', x: 0 }, { id: 'b', x: 0 }] };
+    const local = { elements: [{ id: 'a', x: 0 }, { id: 'b', x: 5 }] };
+    const server = { elements: [{ id: 'a', x: 1 }] };
+
+    const result = mergeEntity('canvas', canvasBase, local, server);
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ path: 'elements[b]', kind: 'delete', local: { id: 'b', x: 5 }, server: undefined }),
+    ]);
+    expect(result.merged).toEqual({ elements: [{ id: 'a', x: 1 }, { id: 'b', x: 5 }] });
+    expect(mergeEntity('canvas', canvasBase, local, server, { 'elements[b]': 'server' }).merged)
+      .toEqual({ elements: [{ id: 'a', x: 1 }] });
+  });
+});
+
+describe('mergeEntityDelete', () => {
+  it('only deletes entities unchanged on the server', () => {
+    expect(mergeEntityDelete({ name: 'x' }, { name: 'x' }).conflicts).toEqual([]);
+    expect(mergeEntityDelete({ name: 'x' }, { name: 'y' }).conflicts).toEqual([
+      { path: '', kind: 'delete', source: 'conflict', base: { name: 'x' }, server: { name: 'y' } },
+    ]);
+  });
+});
+
+describe('reconcileSyncItem', () => {
+  const base = { name: 'Launch', description: 'Draft' };
+
+  it('pushes changes without conflicts directly', async () => {
+    const server = new FakeSyncServer();
+    server.write('e1', base);
+    const item = queued('template', base, { ...base, name: 'Launch v2' });
+    server.enqueue(item);
+
+    const outcome = await reconcileSyncItem(item, server.rpc);
+
+    expect(outcome).toEqual({ status: 'synced', version: 2, data: { ...base, name: 'Launch v2' }, merged: false });
+    expect(server.calls).toEqual(['process_sync_item']);
+  });
+
+  it('merges with the server copy and resubmits', async () => {
+    const server = new FakeSyncServer();
+    server.write('e1', base);
+    server.write('e1', { ...base, description: 'Final' });
+    const item = queued('template', base, { ...base, name: 'Launch v2' });
+    server.enqueue(item);
+
+    const outcome = await reconcileSyncItem(item, server.rpc);
+
+    expect(outcome).toMatchObject({ status: 'synced', version: 3, merged: true });
+    expect(server.head('e1')!.data).toEqual({ name: 'Launch v2', description: 'Final' });
+    expect(server.calls).toEqual(['process_sync_item', 'apply_sync_merge']);
+  });
+
+  it('returns the structured diff when edits overlap', async () => {
+    const server = new FakeSyncServer();
+    server.write('e1', base);
+    server.write('e1', { ...base, name: 'Server name' });
+    const item = queued('template', base, { ...base, name: 'Local name' });
+    server.enqueue(item);
+
+    const outcome = await reconcileSyncItem(item, server.rpc);
+
+    expect(outcome.status).toBe('conflict');
+    if (outcome.status !== 'conflict') return;
+    expect(outcome.conflictId).toBe('c1');
+    expect(outcome.serverVersion).toBe(2);
+    expect(outcome.result.conflicts.map(c => c.path)).toEqual(['name']);
+    expect(server.head('e1')!.version).toBe(2);
+  });
+
+  it('gives up when the server keeps changing', async () => {
+    const server = new FakeSyncServer();
+    server.write('e1', base);
+    server.beforeProcess = () => server.write('e1', { ...base, description: `Edit ${server.calls.length}` });
+    const item = queued('template', base, { ...base, name: 'Launch v2' });
+    server.enqueue(item);
+
+    await expect(reconcileSyncItem(item, server.rpc)).rejects.toThrow('kept changing');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFName, PDFStream, StandardFonts, rgb } from 'pdf-lib';
+import { convertToPDFA, validatePDFA } from '../pdfArchive';
+import { decodeStreamData } from '../pdfContentStream';
+
+const noFonts = () => Promise.resolve(null);
+
+async function createFixture(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle('Annual report');
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const page = doc.addPage([612, 792]);
+  page.drawText('Archived text', { x: 50, y: 700, size: 12, font, color: rgb(0, 0, 0.5) });
+  return doc.save();
+}
+
+function codes(issues: Array<{ code: string }>): string[] {
+  return issues.map((issue) => issue.code);
+}
+
+describe('validatePDFA', () => {
+  it('reports missing metadata, unembedded fonts and device color', async () => {
+    const result = await validatePDFA(await createFixture(), '2b');
+
+    expect(result.isCompliant).toBe(false);
+    expect(codes(result.issues)).toEqual(
+      expect.arrayContaining(['MISSING_XMP', 'FONT_NOT_EMBEDDED', 'OUTPUT_INTENT_MISSING'])
+    );
+
+    const font = result.issues.find((issue) => issue.code === 'FONT_NOT_EMBEDDED')!;
+    expect(font.pageNumber).toBe(1);
+    expect(font.objectRef).toMatch(/^\d+ 0 R$/);
+    expect(font.location).toMatch(/^Page 1, Object \d+$/);
+    expect(font.fix).toBe('embed-fonts');
+    expect(font.id).toBe('font-001');
+  });
+
+  it('reports JavaScript as an action violation', async () => {
+    const doc = await PDFDocument.load(await createFixture());
+    doc.catalog.set(PDFName.of('OpenAction'), doc.context.obj({ S: 'JavaScript', JS: 'app.alert(1)' }));
+
+    const result = await validatePDFA(await doc.save(), '2b');
+    const script = result.issues.find((issue) => issue.code === 'JAVASCRIPT');
+    expect(script?.category).toBe('actions');
+    expect(script?.fix).toBe('remove-javascript');
+  });
+
+  it('only reports transparency for PDF/A-1', async () => {
+    const doc = await PDFDocument.load(await createFixture());
+    doc.getPage(0).drawRectangle({ x: 10, y: 10, width: 50, height: 50, opacity: 0.5 });
+    const bytes = await doc.save();
+
+    expect(codes((await validatePDFA(bytes, '1b')).issues)).toContain('TRANSPARENCY_USED');
+    expect(codes((await validatePDFA(bytes, '2b')).issues)).not.toContain('TRANSPARENCY_USED');
+  });
+});
+
+describe('convertToPDFA', () => {
+  it('writes PDF/A identification, an output intent and a file identifier', async () => {
+    const { bytes, applied, validation } = await convertToPDFA(await createFixture(), {
+      level: '2b',
+      loadFont: noFonts,
+    });
+
+    expect(applied).toEqual(expect.arrayContaining(['add-output-intent', 'write-metadata']));
+    for (const code of ['MISSING_XMP', 'PDFA_IDENTIFICATION', 'OUTPUT_INTENT_MISSING', 'FILE_ID_MISSING']) {
+      expect(codes(validation.issues)).not.toContain(code);
+    }
+
+    const doc = await PDFDocument.load(bytes);
+    const metadata = doc.catalog.lookup(PDFName.of('Metadata'), PDFStream);
+    const xmp = new TextDecoder().decode(decodeStreamData(metadata)!);
+    expect(xmp).toContain('<pdfaid:part>2</pdfaid:part>');
+    expect(xmp).toContain('<pdfaid:conformance>B</pdfaid:conformance>');
+    expect(xmp).toContain('Annual report');
+  });
+
+  it('reports fonts it could not embed', async () => {
+    const { unresolvedFonts, validation } = await convertToPDFA(await createFixture(), { loadFont: noFonts });
+
+    expect(unresolvedFonts).toEqual(['Helvetica']);
+    expect(codes(validation.issues)).toEqual(['FONT_NOT_EMBEDDED']);
+  });
+
+  it('removes JavaScript and flattens transparency for PDF/A-1', async () => {
+    const doc = await PDFDocument.load(await createFixture());
+    doc.catalog.set(PDFName.of('OpenAction'), doc.context.obj({ S: 'JavaScript', JS: 'app.alert(1)' }));
+    doc.getPage(0).drawRectangle({ x: 10, y: 10, width: 50, height: 50, opacity: 0.5 });
+
+    const { bytes, applied, validation } = await convertToPDFA(await doc.save(), {
+      level: '1b',
+      loadFont: noFonts,
+    });
+
+    expect(applied).toEqual(expect.arrayContaining(['remove-javascript', 'flatten-transparency']));
+    expect(codes(validation.issues)).not.toContain('JAVASCRIPT');
+    expect(codes(validation.issues)).not.toContain('TRANSPARENCY_USED');
+
+    const converted = await PDFDocument.load(bytes);
+    expect(converted.catalog.has(PDFName.of('OpenAction'))).toBe(false);
+    expect(converted.catalog.lookup(PDFName.of('Metadata'), PDFStream).dict.has(PDFName.of('Filter'))).toBe(false);
+  });
+
+  it('applies only the requested fixes', async () => {
+    const { applied, validation } = await convertToPDFA(await createFixture(), {
+      fixes: ['add-output-intent'],
+      loadFont: noFonts,
+    });
+
+    expect(applied).toEqual(['add-output-intent']);
+    expect(codes(validation.issues)).toContain('MISSING_XMP');
+  });
+});
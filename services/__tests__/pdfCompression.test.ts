@@ -0,0 +1,266 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+} from 'pdf-lib';
+import type { PDFRef } from 'pdf-lib';
+import { compressPDF } from '../pdfService';
+import { resampleImage, stripUnusedGlyphs, subsetEmbeddedFonts } from '../pdfCompression';
+import type { ImageCodec, RasterImage } from '../pdfCompression';
+import { decodeStreamData } from '../pdfContentStream';
+
+/** Stand-in for the canvas codec: records what it is asked to encode */
+function createFakeCodec() {
+  const encoded: RasterImage[] = [];
+  const codec: ImageCodec = {
+    decodeJPEG: () => Promise.reject(new Error('not used')),
+    encodeJPEG: (image) => {
+      encoded.push(image);
+      return Promise.resolve({ data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), channels: image.channels });
+    },
+  };
+  return { codec, encoded };
+}
+
+/** Noisy RGB pixels, so Flate can't shrink them much */
+function noise(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 3);
+  let seed = 42;
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    data[i] = seed >> 23;
+  }
+  return data;
+}
+
+function addImage(doc: PDFDocument, width: number, height: number): PDFRef {
+  return doc.context.register(
+    doc.context.flateStream(noise(width, height), {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: width,
+      Height: height,
+      ColorSpace: 'DeviceRGB',
+      BitsPerComponent: 8,
+    })
+  );
+}
+
+/** Paints an image at the given size in points */
+function drawImage(doc: PDFDocument, pageIndex: number, image: PDFRef, size: number): void {
+  const page = doc.getPage(pageIndex);
+  const name = page.node.newXObject('Im', image);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(size, 0, 0, size, 50, 50),
+    drawObject(name),
+    popGraphicsState()
+  );
+}
+
+function imageStreams(doc: PDFDocument): PDFRawStream[] {
+  return doc.context
+    .enumerateIndirectObjects()
+    .map(([, object]) => object)
+    .filter(
+      (object): object is PDFRawStream =>
+        object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image')
+    );
+}
+
+/** Minimal TrueType program: head, maxp, loca (long), glyf and a table renderers don't need */
+function buildTrueType(glyphs: Uint8Array[]): Uint8Array {
+  const head = new Uint8Array(54);
+  new DataView(head.buffer).setInt16(50, 1);
+  const maxp = new Uint8Array(6);
+  new DataView(maxp.buffer).setUint32(0, 0x00005000);
+  new DataView(maxp.buffer).setUint16(4, glyphs.length);
+
+  const loca = new DataView(new ArrayBuffer((glyphs.length + 1) * 4));
+  let offset = 0;
+  glyphs.forEach((glyph, i) => {
+    loca.setUint32(i * 4, offset);
+    offset += glyph.length;
+  });
+  loca.setUint32(glyphs.length * 4, offset);
+  const glyf = new Uint8Array(offset);
+  glyphs.reduce((at, glyph) => (glyf.set(glyph, at), at + glyph.length), 0);
+
+  const tables: Array<[string, Uint8Array]> = [
+    ['GSUB', new Uint8Array(64)],
+    ['glyf', glyf],
+    ['head', head],
+    ['loca', new Uint8Array(loca.buffer)],
+    ['maxp', maxp],
+  ];
+  const font = new Uint8Array(12 + tables.length * 16 + tables.reduce((n, [, d]) => n + d.length + 3, 0));
+  const view = new DataView(font.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, tables.length);
+  let dataOffset = 12 + tables.length * 16;
+  tables.forEach(([tag, data], i) => {
+    const record = 12 + i * 16;
+    for (let c = 0; c < 4; c++) view.setUint8(record + c, tag.charCodeAt(c));
+    view.setUint32(record + 8, dataOffset);
+    view.setUint32(record + 12, data.length);
+    font.set(data, dataOffset);
+    dataOffset += (data.length + 3) & ~3;
+  });
+  return font;
+}
+
+/** Simple glyph with one contour and filler outline data */
+const simpleGlyph = (fill: number) => new Uint8Array([0, 1, 0, 0, 0, 0, 0, 10, 0, 10, ...new Array<number>(30).fill(fill)]);
+
+/** Composite glyph with a single component */
+const compositeGlyph = (component: number) =>
+  new Uint8Array([0xff, 0xff, 0, 0, 0, 0, 0, 10, 0, 10, 0x00, 0x02, 0, component, 0, 0, 0, 0]);
+
+function glyphLengths(program: Uint8Array): number[] {
+  const view = new DataView(program.buffer, program.byteOffset, program.byteLength);
+  const tables = new Map<string, number>();
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    tables.set(String.fromCharCode(...program.subarray(record, record + 4)), view.getUint32(record + 8));
+  }
+  const loca = tables.get('loca')!;
+  const numGlyphs = view.getUint16(tables.get('maxp')! + 4);
+  return Array.from({ length: numGlyphs }, (_, i) => view.getUint32(loca + (i + 1) * 4) - view.getUint32(loca + i * 4));
+}
+
+describe('compressPDF', () => {
+  it('downsamples images above the preset resolution and re-encodes them as JPEG', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    // 600 px over 2 inches: 300 DPI
+    drawImage(doc, 0, addImage(doc, 600, 600), 144);
+    const { codec, encoded } = createFakeCodec();
+
+    const { bytes, report } = await compressPDF((await doc.save()).slice().buffer, {
+      preset: 'web',
+      imageCodec: codec,
+    });
+
+    expect(encoded).toHaveLength(1);
+    expect(encoded[0]).toMatchObject({ width: 300, height: 300 });
+    expect(report.imagesDownsampled).toBe(1);
+    expect(report.imagesRecompressed).toBe(1);
+    expect(report.compressedSize).toBe(bytes.length);
+    expect(report.compressedSize).toBeLessThan(report.originalSize / 10);
+
+    const [image] = imageStreams(await PDFDocument.load(bytes));
+    expect(image!.dict.lookup(PDFName.of('Filter'))).toBe(PDFName.of('DCTDecode'));
+    expect(image!.dict.get(PDFName.of('Width'))?.toString()).toBe('300');
+  });
+
+  it('leaves images shown near the target resolution alone', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    // 600 px over 3 inches: 200 DPI, below 1.5 x the 150 DPI target
+    drawImage(doc, 0, addImage(doc, 600, 600), 216);
+
+    const { report } = await compressPDF((await doc.save()).slice().buffer, {
+      preset: 'custom',
+      downscaleImages: true,
+      imageResolution: 150,
+    });
+
+    expect(report.imagesDownsampled).toBe(0);
+  });
+
+  it('downsamples losslessly when JPEG compression is off', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    drawImage(doc, 0, addImage(doc, 400, 400), 72);
+
+    const { bytes } = await compressPDF((await doc.save()).slice().buffer, {
+      downscaleImages: true,
+      imageResolution: 100,
+    });
+
+    const [image] = imageStreams(await PDFDocument.load(bytes));
+    expect(image!.dict.lookup(PDFName.of('Filter'))).toBe(PDFName.of('FlateDecode'));
+    expect(image!.dict.get(PDFName.of('Width'))?.toString()).toBe('100');
+    expect(decodeStreamData(image!)).toHaveLength(100 * 100 * 3);
+  });
+
+  it('merges identical images', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    doc.addPage();
+    drawImage(doc, 0, addImage(doc, 64, 64), 72);
+    drawImage(doc, 1, addImage(doc, 64, 64), 72);
+
+    const { bytes, report } = await compressPDF((await doc.save()).slice().buffer, { preset: 'archive' });
+
+    const compressed = await PDFDocument.load(bytes);
+    expect(report.duplicatesRemoved).toBe(1);
+    expect(imageStreams(compressed)).toHaveLength(1);
+  });
+
+  it('drops unreachable objects', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+    addImage(doc, 64, 64);
+
+    const { bytes, report } = await compressPDF((await doc.save()).slice().buffer);
+
+    expect(report.unusedObjectsRemoved).toBe(1);
+    expect(imageStreams(await PDFDocument.load(bytes))).toHaveLength(0);
+  });
+});
+
+describe('resampleImage', () => {
+  it('averages the source pixels each target pixel covers', () => {
+    const image: RasterImage = { width: 2, height: 2, channels: 1, data: new Uint8Array([0, 100, 200, 100]) };
+    expect(resampleImage(image, 1, 1).data).toEqual(new Uint8Array([100]));
+  });
+});
+
+describe('font subsetting', () => {
+  it('strips unused glyph outlines but keeps composite components', () => {
+    const program = buildTrueType([simpleGlyph(1), simpleGlyph(2), compositeGlyph(3), simpleGlyph(4)]);
+
+    const stripped = stripUnusedGlyphs(program, new Set([2]))!;
+
+    expect(glyphLengths(stripped)).toEqual([40, 0, 20, 40]);
+    expect(stripped.length).toBeLessThan(program.length);
+  });
+
+  it('subsets composite fonts to the glyphs shown and tags their names', async () => {
+    const doc = await PDFDocument.create();
+    const page = doc.addPage();
+    const { context } = doc;
+    const program = buildTrueType([simpleGlyph(1), simpleGlyph(2), simpleGlyph(3), simpleGlyph(4)]);
+    const fontFile = context.register(context.flateStream(program, { Length1: program.length }));
+    const descriptor = context.obj({ Type: 'FontDescriptor', FontName: 'TestSans', Flags: 32 });
+    descriptor.set(PDFName.of('FontFile2'), fontFile);
+    const cidFont = context.obj({
+      Type: 'Font',
+      Subtype: 'CIDFontType2',
+      BaseFont: 'TestSans',
+      CIDToGIDMap: 'Identity',
+      CIDSystemInfo: { Registry: 'Adobe', Ordering: 'Identity', Supplement: 0 },
+    });
+    cidFont.set(PDFName.of('FontDescriptor'), context.register(descriptor));
+    const font = context.obj({ Type: 'Font', Subtype: 'Type0', BaseFont: 'TestSans', Encoding: 'Identity-H' });
+    font.set(PDFName.of('DescendantFonts'), context.obj([context.register(cidFont)]));
+    const fontName = page.node.newFontDictionary('F', context.register(font));
+    page.node.addContentStream(
+      context.register(context.flateStream(`BT /${fontName.decodeText()} 12 Tf <0001> Tj ET`))
+    );
+
+    expect(subsetEmbeddedFonts(doc)).toBe(1);
+
+    const subsetProgram = descriptor.lookup(PDFName.of('FontFile2'), PDFStream);
+    expect(glyphLengths(decodeStreamData(subsetProgram)!)).toEqual([40, 40, 0, 0]);
+    expect(font.lookup(PDFName.of('BaseFont'), PDFName).decodeText()).toMatch(/^[A-Z]{6}\+TestSans$/);
+    expect(descriptor.lookup(PDFName.of('FontName'), PDFName).decodeText()).toMatch(/^[A-Z]{6}\+TestSans$/);
+  });
+});
@@ -0,0 +1,274 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+  StandardFonts,
+  concatTransformationMatrix,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+} from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { applyRedactions, encryptPDF, loadPDF, searchText, verifyRedactions } from '../pdfService';
+import {
+  decodeStreamData,
+  getFontMetrics,
+  latin1,
+  parseContentStream,
+  readContentStreams,
+  splitCharCodes,
+} from '../pdfContentStream';
+
+// The browser build of pdf.js needs APIs Node lacks; text extraction uses the legacy build
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'));
+vi.mock('pdfjs-dist/build/pdf.worker.min.mjs?url', () => ({ default: 'pdfjs-dist/legacy/build/pdf.worker.mjs' }));
+
+const PAGE_HEIGHT = 792;
+const NAME_REGION = { pageNumber: 1, rect: { x: 92, y: PAGE_HEIGHT - 715, width: 70, height: 20 } };
+const GREEN = [0, 200, 0];
+
+/** A page with text, a 10×10 green image at (400, 400) sized 40pt, a bookmark and two comments */
+async function createRichFixture(): Promise<ArrayBuffer> {
+  const doc = await PDFDocument.create();
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const page = doc.addPage([612, PAGE_HEIGHT]);
+  page.drawText('Client: John Smith', { x: 50, y: 700, size: 12, font });
+
+  const samples = new Uint8Array(10 * 10 * 3).map((_, i) => GREEN[i % 3]!);
+  const image = doc.context.flateStream(samples, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: 10,
+    Height: 10,
+    ColorSpace: 'DeviceRGB',
+    BitsPerComponent: 8,
+  });
+  page.node.setXObject(PDFName.of('Im1'), doc.context.register(image));
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(40, 0, 0, 40, 400, 400),
+    drawObject('Im1'),
+    popGraphicsState()
+  );
+
+  const outlines = doc.context.obj({ Type: 'Outlines', Count: 1 });
+  const outlinesRef = doc.context.register(outlines);
+  const bookmark = doc.context.obj({ Title: PDFHexString.fromText('Notes on John Smith'), Parent: outlinesRef });
+  const bookmarkRef = doc.context.register(bookmark);
+  outlines.set(PDFName.of('First'), bookmarkRef);
+  outlines.set(PDFName.of('Last'), bookmarkRef);
+  doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+
+  const comment = (rect: number[], contents: string) =>
+    doc.context.register(doc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Text',
+      Rect: rect,
+      Contents: PDFHexString.fromText(contents),
+    }));
+  page.node.set(PDFName.of('Annots'), doc.context.obj([
+    // Over the name, so removed with it
+    comment([100, 700, 120, 712], 'Check spelling'),
+    // Elsewhere on the page, so kept and scrubbed
+    comment([50, 100, 70, 120], 'Confirm address with John Smith'),
+  ]));
+
+  return (await doc.save()).slice().buffer;
+}
+
+/** RGB samples of the image the page draws */
+function pageImage(doc: PDFDocument): Uint8Array {
+  const page = doc.getPage(0);
+  const draw = parseContentStream(readContentStreams(page.node.Contents())).find((op) => op.operator === 'Do');
+  const name = draw?.operands[0]?.type === 'name' ? draw.operands[0].value : '';
+  const image = page.node.Resources()?.lookup(PDFName.of('XObject'), PDFDict).lookup(PDFName.of(name));
+  expect(image).toBeInstanceOf(PDFStream);
+  return decodeStreamData(image as PDFStream)!;
+}
+
+async function createFixture(): Promise<ArrayBuffer> {
+  const doc = await PDFDocument.create();
+  doc.setTitle('Case file for John Smith');
+  doc.setAuthor('Legal team');
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const page = doc.addPage([612, PAGE_HEIGHT]);
+
+  page.drawText('Client: John Smith', { x: 50, y: 700, size: 12, font });
+  page.drawText('Public information', { x: 50, y: 600, size: 12, font });
+  page.drawRectangle({ x: 300, y: 690, width: 40, height: 20, color: rgb(1, 0, 0) });
+
+  return (await doc.save()).slice().buffer;
+}
+
+/** Collects the text shown on the first page, decoded with each font's metrics */
+async function pageText(bytes: Uint8Array): Promise<string> {
+  const doc = await PDFDocument.load(bytes);
+  const page = doc.getPage(0);
+  const fonts = page.node.Resources()?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  let metrics = getFontMetrics(undefined);
+  let text = '';
+
+  for (const op of parseContentStream(readContentStreams(page.node.Contents()))) {
+    if (op.operator === 'Tf' && op.operands[0]?.type === 'name') {
+      metrics = getFontMetrics(fonts?.lookupMaybe(PDFName.of(op.operands[0].value), PDFDict));
+    }
+    const strings =
+      op.operator === 'TJ' && op.operands[0]?.type === 'array' ? op.operands[0].items : op.operands;
+    if (['Tj', 'TJ', "'", '"'].includes(op.operator)) {
+      for (const s of strings) {
+        if (s.type === 'string') {
+          text += splitCharCodes(s.bytes, metrics).map((c) => metrics.toUnicode(c)).join('');
+        }
+      }
+      text += '\n';
+    }
+  }
+  return text;
+}
+
+describe('applyRedactions', () => {
+  it('removes text inside the region and keeps text outside it', async () => {
+    const source = await createFixture();
+    // "John Smith" starts after "Client: " (~44pt at 12pt Helvetica)
+    const { bytes, report } = await applyRedactions(source, [NAME_REGION]);
+
+    const text = await pageText(bytes);
+    expect(text).not.toContain('John');
+    expect(text).not.toContain('Smith');
+    expect(text).toContain('Client:');
+    expect(text).toContain('Public information');
+    expect(report.glyphsRemoved).toBeGreaterThan(0);
+    expect(report.pagesAffected).toEqual([1]);
+  });
+
+  it('scrubs removed text from the document metadata', async () => {
+    const source = await createFixture();
+    const { bytes, report } = await applyRedactions(source, [
+      { pageNumber: 1, rect: { x: 92, y: PAGE_HEIGHT - 715, width: 70, height: 20 } },
+    ]);
+
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getTitle()).not.toContain('John Smith');
+    expect(doc.getTitle()).toContain('[REDACTED]');
+    expect(report.metadataFieldsScrubbed).toContain('Title');
+  });
+
+  it('removes vector paths that intersect the region', async () => {
+    const source = await createFixture();
+    const { report } = await applyRedactions(source, [
+      { pageNumber: 1, rect: { x: 310, y: PAGE_HEIGHT - 705, width: 10, height: 5 } },
+    ]);
+
+    expect(report.pathsRemoved).toBe(1);
+    expect(report.glyphsRemoved).toBe(0);
+  });
+
+  it('does not leave the original content stream in the file', async () => {
+    const source = await createFixture();
+    const { bytes } = await applyRedactions(
+      source,
+      [{ pageNumber: 1, rect: { x: 92, y: PAGE_HEIGHT - 715, width: 70, height: 20 } }],
+      { drawOverlay: false }
+    );
+
+    const doc = await PDFDocument.load(bytes);
+    const leftovers = doc.context
+      .enumerateIndirectObjects()
+      .map(([, obj]) => obj)
+      .filter((obj): obj is PDFRawStream => obj instanceof PDFRawStream)
+      .map((obj) => latin1(readContentStreams(obj)))
+      .filter((content) => content.includes('John'));
+
+    expect(leftovers).toHaveLength(0);
+  });
+
+  it('draws overlay boxes by default', async () => {
+    const source = await createFixture();
+    const { bytes } = await applyRedactions(source, [
+      { pageNumber: 1, rect: { x: 92, y: PAGE_HEIGHT - 715, width: 70, height: 20 }, overlayText: 'REDACTED' },
+    ]);
+
+    expect(await pageText(bytes)).toContain('REDACTED');
+  });
+
+  it('overwrites the image pixels under the region', async () => {
+    const source = await createRichFixture();
+    // Left half of the image: x 400-420, y 400-440 in PDF space
+    const { bytes, report } = await applyRedactions(
+      source,
+      [{ pageNumber: 1, rect: { x: 400, y: PAGE_HEIGHT - 440, width: 20, height: 40 } }],
+      { drawOverlay: false }
+    );
+
+    const pixels = pageImage(await PDFDocument.load(bytes));
+    const pixel = (col: number, row: number) => [...pixels.subarray((row * 10 + col) * 3, (row * 10 + col) * 3 + 3)];
+    for (let row = 0; row < 10; row++) {
+      expect(pixel(0, row)).toEqual([0, 0, 0]);
+      expect(pixel(4, row)).toEqual([0, 0, 0]);
+      expect(pixel(5, row)).toEqual(GREEN);
+      expect(pixel(9, row)).toEqual(GREEN);
+    }
+    expect(report.imagesScrubbed).toBe(1);
+
+    // The original, unscrubbed image is not kept as an orphan
+    const doc = await PDFDocument.load(bytes);
+    const images = doc.context
+      .enumerateIndirectObjects()
+      .map(([, obj]) => obj)
+      .filter((obj): obj is PDFStream => obj instanceof PDFStream && obj.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image'));
+    expect(images).toHaveLength(1);
+  });
+
+  it('scrubs bookmarks and removes or scrubs annotations', async () => {
+    const source = await createRichFixture();
+    const { bytes, report } = await applyRedactions(source, [NAME_REGION]);
+
+    const doc = await PDFDocument.load(bytes);
+    const outlines = doc.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+    const bookmark = outlines.lookup(PDFName.of('First'), PDFDict);
+    expect(bookmark.lookup(PDFName.of('Title'), PDFHexString).decodeText()).toBe('Notes on [REDACTED]');
+    expect(report.bookmarksScrubbed).toBe(1);
+
+    const annots = doc.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray);
+    expect(annots.size()).toBe(1);
+    expect(report.annotationsRemoved).toBe(1);
+    const remaining = annots.lookup(0, PDFDict).lookup(PDFName.of('Contents'), PDFHexString).decodeText();
+    expect(remaining).toBe('Confirm address with [REDACTED]');
+  });
+
+  it('leaves no extractable redacted text', async () => {
+    const source = await createRichFixture();
+    const before = (await loadPDF(source.slice(0))).proxy as PDFDocumentProxy;
+    expect(await searchText(before, 'John Smith')).toHaveLength(1);
+    await before.destroy();
+
+    const { bytes } = await applyRedactions(source, [NAME_REGION]);
+    const proxy = (await loadPDF(bytes.slice().buffer)).proxy as PDFDocumentProxy;
+    expect(await searchText(proxy, 'John')).toEqual([]);
+    expect(await searchText(proxy, 'Smith')).toEqual([]);
+    expect((await searchText(proxy, 'Client:')).map((result) => result.pageNumber)).toEqual([1]);
+    await proxy.destroy();
+
+    expect(await verifyRedactions(bytes.slice().buffer, ['John', 'Smith'])).toEqual([]);
+  });
+
+  it('rejects regions on pages that do not exist', async () => {
+    const source = await createFixture();
+    await expect(
+      applyRedactions(source, [{ pageNumber: 4, rect: { x: 0, y: 0, width: 10, height: 10 } }])
+    ).rejects.toThrow('Page 4 not found');
+  });
+
+  it('refuses encrypted documents', async () => {
+    const encrypted = await encryptPDF(await createFixture(), { userPassword: 'secret' });
+    await expect(
+      applyRedactions(encrypted.slice().buffer, [NAME_REGION])
+    ).rejects.toThrow('Encrypted PDFs cannot be redacted');
+  });
+});
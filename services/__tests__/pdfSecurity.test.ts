@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { decodePermissions, encodePermissions, md5, rc4 } from '../pdfSecurity';
+import { decryptPDF, encryptPDF, loadPDF, searchText } from '../pdfService';
+
+// The browser build of pdf.js needs APIs Node lacks; the checks below use the legacy build
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'));
+vi.mock('pdfjs-dist/build/pdf.worker.min.mjs?url', () => ({ default: 'pdfjs-dist/legacy/build/pdf.worker.mjs' }));
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Encrypted with qpdf 12 (`qpdf --encrypt user-pw owner-pw 40|128 --use-aes=y|256`)
+ * from a one-page document titled "Quarterly numbers" reading "Revenue up 12%"
+ */
+const qpdfFixture = (revision: 'r2' | 'r4' | 'r6') =>
+  readFileSync(resolve(__dirname, `../../test/fixtures/pdfs/qpdf-encrypted-${revision}.pdf`));
+
+async function pageTextMatches(data: ArrayBuffer, query: string, password?: string): Promise<number> {
+  const proxy = (await loadPDF(data, { password })).proxy as PDFDocumentProxy;
+  const results = await searchText(proxy, query);
+  return results.reduce((count, page) => count + page.matches.length, 0);
+}
+
+describe('pdfSecurity', () => {
+  describe('md5', () => {
+    it('matches the RFC 1321 test vectors', () => {
+      expect(toHex(md5(ascii('')))).toBe('d41d8cd98f00b204e9800998ecf8427e');
+      expect(toHex(md5(ascii('abc')))).toBe('900150983cd24fb0d6963f7d28e17f72');
+      expect(toHex(md5(ascii('12345678901234567890123456789012345678901234567890123456789012345678901234567890')))).toBe(
+        '57edf4a22be3c955ac49da2e2107b67a'
+      );
+    });
+  });
+
+  describe('rc4', () => {
+    it('matches the published test vector', () => {
+      expect(toHex(rc4(ascii('Key'), ascii('Plaintext')))).toBe('bbf316e8d940af0ad3');
+    });
+
+    it('is its own inverse', () => {
+      const key = ascii('secret');
+      expect(rc4(key, rc4(key, ascii('round trip')))).toEqual(ascii('round trip'));
+    });
+  });
+
+  describe('permissions', () => {
+    it('keeps the reserved bits set and clears denied permissions', () => {
+      const p = encodePermissions({ copying: false, modifying: false }, 4);
+      expect(p & 0b11).toBe(0);
+      expect(p & (1 << 6)).not.toBe(0);
+      expect(p).toBeLessThan(0);
+
+      const flags = decodePermissions(p);
+      expect(flags.copying).toBe(false);
+      expect(flags.modifying).toBe(false);
+      expect(flags.printing).toBe(true);
+      expect(flags.documentAssembly).toBe(true);
+    });
+
+    it('only grants high quality printing together with printing', () => {
+      const flags = decodePermissions(encodePermissions({ printing: false, printingHighQuality: true }, 6));
+      expect(flags.printing).toBe(false);
+      expect(flags.printingHighQuality).toBe(false);
+    });
+  });
+
+  describe('encryptPDF', () => {
+    it.each(['rc4-40', 'aes-128', 'aes-256'] as const)('encrypts strings and streams with %s', async (algorithm) => {
+      const doc = await PDFDocument.create();
+      doc.setTitle('Confidential merger memo');
+      const font = await doc.embedFont(StandardFonts.Helvetica);
+      doc.addPage([300, 400]).drawText('Top secret body', { x: 20, y: 300, font, size: 12 });
+      const source = (await doc.save({ useObjectStreams: false })).slice().buffer;
+
+      const encrypted = await encryptPDF(source, { algorithm, userPassword: 'open-me' });
+      const raw = new TextDecoder('latin1').decode(encrypted);
+
+      expect(raw).toContain('/Encrypt');
+      expect(raw).not.toContain('Confidential merger memo');
+      expect((await PDFDocument.load(encrypted, { ignoreEncryption: true })).isEncrypted).toBe(true);
+    });
+
+    it('refuses to encrypt an already encrypted document', async () => {
+      const doc = await PDFDocument.create();
+      doc.addPage();
+      const encrypted = await encryptPDF((await doc.save()).slice().buffer, { userPassword: 'a' });
+
+      await expect(encryptPDF(encrypted.slice().buffer, { userPassword: 'b' })).rejects.toThrow('already encrypted');
+    });
+  });
+
+  describe('decryptPDF', () => {
+    async function createEncrypted(algorithm: 'rc4-40' | 'aes-128' | 'aes-256'): Promise<Uint8Array> {
+      const doc = await PDFDocument.create();
+      doc.setTitle('Quarterly numbers');
+      const font = await doc.embedFont(StandardFonts.Helvetica);
+      doc.addPage([300, 400]).drawText('Revenue up', { x: 20, y: 300, font, size: 12 });
+      const source = (await doc.save({ useObjectStreams: false })).slice().buffer;
+      return encryptPDF(source, { algorithm, userPassword: 'user-pw', ownerPassword: 'owner-pw' });
+    }
+
+    it.each(['rc4-40', 'aes-128', 'aes-256'] as const)('restores %s documents with either password', async (algorithm) => {
+      const encrypted = await createEncrypted(algorithm);
+
+      for (const password of ['user-pw', 'owner-pw']) {
+        const decrypted = await decryptPDF(encrypted.slice().buffer, password);
+        const doc = await PDFDocument.load(decrypted);
+        expect(doc.isEncrypted).toBe(false);
+        expect(doc.getTitle()).toBe('Quarterly numbers');
+      }
+    });
+
+    it('rejects a wrong password', async () => {
+      const encrypted = await createEncrypted('aes-256');
+      await expect(decryptPDF(encrypted.slice().buffer, 'nope')).rejects.toThrow('Incorrect password');
+    });
+  });
+
+  describe('known answers', () => {
+    it.each(['r2', 'r4', 'r6'] as const)('opens the qpdf %s fixture with either password', async (revision) => {
+      const fixture = qpdfFixture(revision);
+
+      for (const password of ['user-pw', 'owner-pw']) {
+        const decrypted = await decryptPDF(fixture.slice().buffer, password);
+        const doc = await PDFDocument.load(decrypted);
+        expect(doc.isEncrypted).toBe(false);
+        expect(doc.getTitle()).toBe('Quarterly numbers');
+        expect(await pageTextMatches(decrypted.slice().buffer, 'Revenue up 12%')).toBe(1);
+      }
+      await expect(decryptPDF(fixture.slice().buffer, 'nope')).rejects.toThrow('Incorrect password');
+    });
+
+    it.each(['rc4-40', 'aes-128', 'aes-256'] as const)('writes %s documents pdf.js can open', async (algorithm) => {
+      const doc = await PDFDocument.create();
+      const font = await doc.embedFont(StandardFonts.Helvetica);
+      doc.addPage([300, 400]).drawText('Top secret body', { x: 20, y: 300, font, size: 12 });
+      const source = (await doc.save({ useObjectStreams: false })).slice().buffer;
+      const encrypted = await encryptPDF(source, { algorithm, userPassword: 'open-me', ownerPassword: 'owner-pw' });
+
+      expect(await pageTextMatches(encrypted.slice().buffer, 'Top secret body', 'open-me')).toBe(1);
+      await expect(pageTextMatches(encrypted.slice().buffer, 'Top secret body', 'wrong')).rejects.toThrow();
+    });
+  });
+});
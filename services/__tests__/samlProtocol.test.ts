@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  createMemoryReplayCache,
+  parseIdPMetadata,
+  validateSAMLResponse,
+} from '../samlProtocol';
+import type { SAMLValidationOptions } from '../samlProtocol';
+import { C14N_EXCLUSIVE, canonicalize, childElements, descendants, parseXML } from '../samlXml';
+import type { XMLElement } from '../samlXml';
+
+const IDP = 'https://idp.example.test/metadata';
+const SP = 'https://app.example.test/saml/ws_1';
+const ACS = 'https://app.example.test/auth/saml/callback';
+const REQUEST_ID = '_request-1';
+
+// ==========================================
+// Test fixtures
+// ==========================================
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/** DER TLV with definite length */
+function der(tag: number, ...content: Uint8Array[]): Uint8Array {
+  const body = new Uint8Array(content.reduce((n, c) => n + c.length, 0));
+  content.reduce((at, c) => (body.set(c, at), at + c.length), 0);
+  const length =
+    body.length < 0x80 ? [body.length] : body.length < 0x100 ? [0x81, body.length] : [0x82, body.length >> 8, body.length & 0xff];
+  return new Uint8Array([tag, ...length, ...body]);
+}
+
+/** Certificate wrapper around a public key; the issuer signature is never checked, so it's a dummy */
+function certificatePEM(spki: Uint8Array): string {
+  const name = der(0x30, der(0x31, der(0x30, der(0x06, new Uint8Array([0x55, 4, 3])), der(0x0c, new TextEncoder().encode('idp')))));
+  const algorithm = der(0x30, der(0x06, new Uint8Array([0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 1, 1, 11])), der(0x05));
+  const time = der(0x17, new TextEncoder().encode('250101000000Z'));
+  const tbs = der(0x30, der(0xa0, der(0x02, new Uint8Array([2]))), der(0x02, new Uint8Array([1])), algorithm, name, der(0x30, time, time), name, spki);
+  const cert = der(0x30, tbs, algorithm, der(0x03, new Uint8Array([0, 1, 2, 3])));
+  return `-----BEGIN CERTIFICATE-----\n${toBase64(cert)}\n-----END CERTIFICATE-----`;
+}
+
+async function generateKey() {
+  const pair = await crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  );
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey));
+  return { privateKey: pair.privateKey, certificate: certificatePEM(spki) };
+}
+
+const signatureTemplate = (id: string) =>
+  `<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:SignedInfo>` +
+  `<ds:CanonicalizationMethod Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"/>` +
+  `<ds:SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"/>` +
+  `<ds:Reference URI="#${id}"><ds:Transforms>` +
+  `<ds:Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"/>` +
+  `<ds:Transform Algorithm="http://www.w3.org/2001/10/xml-exc-c14n#"/></ds:Transforms>` +
+  `<ds:DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"/>` +
+  `<ds:DigestValue>DIGEST_${id}</ds:DigestValue></ds:Reference></ds:SignedInfo>` +
+  `<ds:SignatureValue>SIGNATURE_${id}</ds:SignatureValue></ds:Signature>`;
+
+interface ResponseOptions {
+  assertionId?: string;
+  audience?: string;
+  inResponseTo?: string;
+  notOnOrAfter?: string;
+  signAssertion?: boolean;
+  signResponse?: boolean;
+}
+
+function buildResponse(options: ResponseOptions = {}): string {
+  const assertionId = options.assertionId ?? '_assertion-1';
+  const expiry = options.notOnOrAfter ?? new Date(Date.now() + 300_000).toISOString();
+  const now = new Date().toISOString();
+
+  return (
+    `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_response-1" Version="2.0"` +
+    ` IssueInstant="${now}" Destination="${ACS}" InResponseTo="${options.inResponseTo ?? REQUEST_ID}">` +
+    `<saml:Issuer xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">${IDP}</saml:Issuer>` +
+    (options.signResponse ? signatureTemplate('_response-1') : '') +
+    `<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>` +
+    `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="${assertionId}" Version="2.0" IssueInstant="${now}">\n` +
+    `  <saml:Issuer>${IDP}</saml:Issuer>\n` +
+    (options.signAssertion !== false ? signatureTemplate(assertionId) : '') +
+    `  <saml:Subject>\n` +
+    `    <saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">ada@example.test</saml:NameID>\n` +
+    `    <saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">` +
+    `<saml:SubjectConfirmationData NotOnOrAfter="${expiry}" Recipient="${ACS}" InResponseTo="${options.inResponseTo ?? REQUEST_ID}"/>` +
+    `</saml:SubjectConfirmation>\n` +
+    `  </saml:Subject>\n` +
+    `  <saml:Conditions NotBefore="${now}" NotOnOrAfter="${expiry}">` +
+    `<saml:AudienceRestriction><saml:Audience>${options.audience ?? SP}</saml:Audience></saml:AudienceRestriction>` +
+    `</saml:Conditions>\n` +
+    `  <saml:AuthnStatement AuthnInstant="${now}" SessionIndex="_session-1"/>\n` +
+    `  <saml:AttributeStatement>` +
+    `<saml:Attribute Name="urn:oid:2.5.4.42" FriendlyName="givenName"><saml:AttributeValue>Ada &amp; Co</saml:AttributeValue></saml:Attribute>` +
+    `<saml:Attribute Name="groups"><saml:AttributeValue>design</saml:AttributeValue><saml:AttributeValue>admins</saml:AttributeValue></saml:Attribute>` +
+    `</saml:AttributeStatement>\n` +
+    `</saml:Assertion></samlp:Response>`
+  );
+}
+
+function findById(root: XMLElement, id: string): XMLElement {
+  return [root, ...descendants(root)].find(el => el.attributes.some(a => a.localName === 'ID' && a.value === id))!;
+}
+
+/** Fill in the digest and signature placeholders, innermost element first */
+async function sign(xml: string, privateKey: CryptoKey): Promise<string> {
+  const ids = [...xml.matchAll(/DIGEST_([^<]+)</g)].map(m => m[1]!).reverse();
+
+  for (const id of ids) {
+    const element = findById(parseXML(xml), id);
+    const signature = childElements(element).find(child => child.localName === 'Signature')!;
+    const content = canonicalize(element, { method: C14N_EXCLUSIVE, exclude: el => el === signature });
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content)));
+    xml = xml.replace(`DIGEST_${id}`, toBase64(digest));
+
+    const signedInfo = childElements(
+      childElements(findById(parseXML(xml), id)).find(child => child.localName === 'Signature')!
+    )[0]!;
+    const value = await crypto.subtle.sign(
+      'RSASSA-PKCS1-v1_5',
+      privateKey,
+      new TextEncoder().encode(canonicalize(signedInfo, { method: C14N_EXCLUSIVE }))
+    );
+    xml = xml.replace(`SIGNATURE_${id}`, toBase64(new Uint8Array(value)));
+  }
+
+  return xml;
+}
+
+// ==========================================
+// Tests
+// ==========================================
+
+describe('validateSAMLResponse', () => {
+  let idpKey: Awaited<ReturnType<typeof generateKey>>;
+  let otherKey: Awaited<ReturnType<typeof generateKey>>;
+
+  const options = (overrides: Partial<SAMLValidationOptions> = {}): SAMLValidationOptions => ({
+    idpEntityId: IDP,
+    certificate: idpKey.certificate,
+    spEntityId: SP,
+    acsUrl: ACS,
+    expectedRequestId: REQUEST_ID,
+    replayCache: createMemoryReplayCache(),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    idpKey = await generateKey();
+    otherKey = await generateKey();
+  });
+
+  it('accepts a signed assertion and extracts its subject and attributes', async () => {
+    const xml = await sign(buildResponse(), idpKey.privateKey);
+
+    const assertion = await validateSAMLResponse(xml, options());
+
+    expect(assertion).toMatchObject({
+      assertionId: '_assertion-1',
+      issuer: IDP,
+      nameId: 'ada@example.test',
+      sessionIndex: '_session-1',
+    });
+    expect(assertion.attributes).toEqual({
+      'urn:oid:2.5.4.42': 'Ada & Co',
+      givenName: 'Ada & Co',
+      groups: ['design', 'admins'],
+    });
+  });
+
+  it('accepts a signed response covering an unsigned assertion', async () => {
+    const xml = await sign(buildResponse({ signAssertion: false, signResponse: true }), idpKey.privateKey);
+
+    await expect(validateSAMLResponse(xml, options())).resolves.toMatchObject({ nameId: 'ada@example.test' });
+  });
+
+  it('rejects unsigned responses, tampering and other keys', async () => {
+    const signed = await sign(buildResponse(), idpKey.privateKey);
+
+    await expect(validateSAMLResponse(buildResponse({ signAssertion: false }), options())).rejects.toThrow(
+      'SAML response is not signed'
+    );
+    await expect(
+      validateSAMLResponse(signed.replace('ada@example.test', 'admin@example.test'), options())
+    ).rejects.toThrow('digest mismatch');
+    await expect(
+      validateSAMLResponse(signed, options({ certificate: otherKey.certificate }))
+    ).rejects.toThrow('Invalid signature');
+  });
+
+  it('rejects signature wrapping', async () => {
+    const signed = await sign(buildResponse(), idpKey.privateKey);
+    const evil = buildResponse({ assertionId: '_evil', signAssertion: false })
+      .match(/<saml:Assertion[\s\S]*<\/saml:Assertion>/)![0]
+      .replace('ada@example.test', 'admin@example.test');
+    const wrapped = signed.replace('<saml:Assertion', `${evil}<saml:Assertion`);
+
+    await expect(validateSAMLResponse(wrapped, options())).rejects.toThrow('exactly one assertion');
+  });
+
+  it('checks audience, expiry and InResponseTo', async () => {
+    const wrongAudience = await sign(buildResponse({ audience: 'https://other.test' }), idpKey.privateKey);
+    const expired = await sign(
+      buildResponse({ notOnOrAfter: new Date(Date.now() - 600_000).toISOString() }),
+      idpKey.privateKey
+    );
+    const unsolicited = await sign(buildResponse({ inResponseTo: '_someone-else' }), idpKey.privateKey);
+
+    await expect(validateSAMLResponse(wrongAudience, options())).rejects.toThrow('audience mismatch');
+    await expect(validateSAMLResponse(expired, options())).rejects.toThrow('expired');
+    await expect(validateSAMLResponse(unsolicited, options())).rejects.toThrow('does not answer our request');
+  });
+
+  it('refuses to accept the same assertion twice', async () => {
+    const xml = await sign(buildResponse(), idpKey.privateKey);
+    const replayCache = createMemoryReplayCache();
+
+    await validateSAMLResponse(xml, options({ replayCache }));
+    await expect(validateSAMLResponse(xml, options({ replayCache }))).rejects.toThrow('already been used');
+  });
+
+  it('rejects documents with a DTD', async () => {
+    const xml = `<!DOCTYPE r [<!ENTITY x "y">]>${await sign(buildResponse(), idpKey.privateKey)}`;
+
+    await expect(validateSAMLResponse(xml, options())).rejects.toThrow('DTDs are not allowed');
+  });
+});
+
+describe('canonicalize', () => {
+  it('produces exclusive canonical XML', () => {
+    const root = parseXML(
+      `<a:root xmlns:a="urn:a" xmlns:unused="urn:unused" xmlns="urn:default">` +
+        `<a:child z="1" a:y="2" b='x&#9;"&lt;' xmlns:b="urn:b"><empty/>text &amp; &#13;</a:child></a:root>`
+    );
+    const child = root.children[0] as XMLElement;
+
+    expect(canonicalize(child, { method: C14N_EXCLUSIVE })).toBe(
+      `<a:child xmlns:a="urn:a" b="x&#x9;&quot;&lt;" z="1" a:y="2">` +
+        `<empty xmlns="urn:default"></empty>text &amp; &#xD;</a:child>`
+    );
+  });
+});
+
+describe('parseIdPMetadata', () => {
+  it('reads entity ID, endpoints and signing certificates', () => {
+    const config = parseIdPMetadata(`<?xml version="1.0"?>
+      <md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="${IDP}">
+        <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+          <md:KeyDescriptor use="signing">
+            <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:X509Data>
+              <ds:X509Certificate>MIIBsigning</ds:X509Certificate>
+            </ds:X509Data></ds:KeyInfo>
+          </md:KeyDescriptor>
+          <md:KeyDescriptor use="encryption">
+            <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:X509Data>
+              <ds:X509Certificate>MIIBencryption</ds:X509Certificate>
+            </ds:X509Data></ds:KeyInfo>
+          </md:KeyDescriptor>
+          <md:NameIDFormat>urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress</md:NameIDFormat>
+          <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="https://idp.example.test/sso/post"/>
+          <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.example.test/sso"/>
+        </md:IDPSSODescriptor>
+      </md:EntityDescriptor>`);
+
+    expect(config).toEqual({
+      entity_id: IDP,
+      sso_url: 'https://idp.example.test/sso',
+      slo_url: undefined,
+      certificate: '-----BEGIN CERTIFICATE-----\nMIIBsigning\n-----END CERTIFICATE-----',
+      name_id_format: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress',
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { formatSketchImportReport, parseSketch, toDesignElements } from '../sketchImport';
+import { crc32, openZip, writeZip } from '../zipArchive';
+
+const color = (red: number, green: number, blue: number, alpha = 1) => ({ red, green, blue, alpha });
+const frame = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+const fill = (c: ReturnType<typeof color>) => ({ isEnabled: true, fillType: 0, color: c });
+
+const textLayer = (id: string, text: string, x = 0, y = 0) => ({
+  _class: 'text',
+  do_objectID: id,
+  name: id,
+  frame: frame(x, y, 100, 20),
+  attributedString: {
+    string: text,
+    attributes: [{
+      location: 0,
+      length: text.length,
+      attributes: {
+        MSAttributedStringFontAttribute: { attributes: { name: 'Inter-Bold', size: 18 } },
+        MSAttributedStringColorAttribute: color(0, 0, 0),
+        paragraphStyle: { alignment: 2 },
+      },
+    }],
+  },
+});
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const page = {
+  _class: 'page',
+  do_objectID: 'page-1',
+  name: 'Home',
+  layers: [{
+    _class: 'artboard',
+    do_objectID: 'board',
+    name: 'Desktop',
+    frame: frame(100, 50, 400, 300),
+    hasBackgroundColor: true,
+    backgroundColor: color(1, 1, 1),
+    layers: [
+      {
+        _class: 'rectangle',
+        do_objectID: 'card',
+        name: 'Card',
+        frame: frame(10, 10, 200, 100),
+        rotation: -15,
+        points: [0, 0, 0, 0].map(() => ({ point: '{0, 0}', curveFrom: '{0, 0}', curveTo: '{0, 0}', cornerRadius: 8 })),
+        style: {
+          fills: [fill(color(1, 0, 0)), fill(color(0, 0, 1, 0.5))],
+          borders: [{ isEnabled: true, fillType: 0, color: color(0, 0, 0), thickness: 2 }],
+          shadows: [{ isEnabled: true, color: color(0, 0, 0, 0.25), offsetX: 0, offsetY: 4, blurRadius: 8, spread: 0 }],
+          contextSettings: { opacity: 0.8, blendMode: 0 },
+        },
+      },
+      {
+        _class: 'group',
+        do_objectID: 'group',
+        name: 'Content',
+        frame: frame(20, 150, 300, 100),
+        layers: [
+          textLayer('title', 'Hello', 5, 5),
+          { _class: 'bitmap', do_objectID: 'photo', name: 'Photo', frame: frame(0, 40, 50, 50), image: { _ref: 'images/photo.png' } },
+          {
+            _class: 'shapePath',
+            do_objectID: 'arrow',
+            name: 'Arrow',
+            frame: frame(100, 0, 20, 10),
+            isClosed: false,
+            points: [
+              { point: '{0, 0}', curveFrom: '{0, 0}', curveTo: '{0, 0}' },
+              { point: '{1, 1}', curveFrom: '{1, 1}', curveTo: '{1, 1}' },
+            ],
+            style: { borders: [{ isEnabled: true, fillType: 0, color: color(0, 0, 0), thickness: 1 }] },
+          },
+        ],
+      },
+      {
+        _class: 'symbolInstance',
+        do_objectID: 'instance',
+        name: 'Button',
+        frame: frame(0, 260, 240, 40),
+        symbolID: 'button-symbol',
+        overrideValues: [{ overrideName: 'label_stringValue', value: 'Buy now' }],
+      },
+      { ...textLayer('hidden', 'Secret'), isVisible: false },
+      { _class: 'slice', do_objectID: 'slice', name: 'Export', frame: frame(0, 0, 10, 10) },
+    ],
+  }],
+};
+
+const symbolsPage = {
+  _class: 'page',
+  do_objectID: 'page-2',
+  name: 'Symbols',
+  layers: [{
+    _class: 'symbolMaster',
+    do_objectID: 'master',
+    symbolID: 'button-symbol',
+    name: 'Button/Primary',
+    frame: frame(0, 0, 120, 40),
+    layers: [
+      { _class: 'rectangle', do_objectID: 'bg', name: 'Background', frame: frame(0, 0, 120, 40), style: { fills: [fill(color(0, 0.5, 1))] } },
+      textLayer('label', 'Click', 10, 10),
+    ],
+  }],
+};
+
+const documentJson = {
+  pages: [{ _ref: 'pages/page-1' }, { _ref: 'pages/page-2' }],
+  layerStyles: { objects: [{ do_objectID: 'style-1', name: 'Surface', value: { fills: [fill(color(0.2, 0.2, 0.2))] } }] },
+  layerTextStyles: {
+    objects: [{
+      do_objectID: 'style-2',
+      name: 'Heading',
+      value: { textStyle: { encodedAttributes: { MSAttributedStringFontAttribute: { attributes: { name: 'Inter-SemiBold', size: 32 } } } } },
+    }],
+  },
+};
+
+const sketchFile = () => writeZip([
+  { name: 'document.json', data: JSON.stringify(documentJson) },
+  { name: 'meta.json', data: '{"version":136}' },
+  { name: 'pages/page-1.json', data: JSON.stringify(page) },
+  { name: 'pages/page-2.json', data: JSON.stringify(symbolsPage) },
+  { name: 'images/photo.png', data: PNG, store: true },
+]);
+
+describe('zipArchive', () => {
+  it('round trips stored and deflated entries', async () => {
+    const text = 'lumina '.repeat(200);
+    const archive = openZip(await writeZip([
+      { name: 'mimetype', data: 'application/x-test', store: true },
+      { name: 'docs/naïve.txt', data: text },
+    ]));
+
+    expect(archive.entries.map(entry => entry.name)).toEqual(['mimetype', 'docs/naïve.txt']);
+    expect(await archive.readText('mimetype')).toBe('application/x-test');
+    expect(await archive.readText('docs/naïve.txt')).toBe(text);
+    await expect(archive.read('missing')).rejects.toThrow('"missing" is not in the archive');
+  });
+
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('parseSketch', () => {
+  it('maps artboards, shapes, text, images and paths', async () => {
+    const { pages, elements, report } = await parseSketch(await sketchFile());
+
+    expect(pages.map(p => p.name)).toEqual(['Home']);
+    const board = elements[0]!;
+    expect(board).toMatchObject({ type: 'group', name: 'Desktop', x: 100, y: 50, width: 400, height: 300 });
+
+    const [background, card, group] = board.children!;
+    expect(background).toMatchObject({ type: 'rect', fill: '#ffffff' });
+    expect(card).toMatchObject({
+      type: 'rect',
+      x: 110,
+      y: 60,
+      rotation: 15,
+      cornerRadius: 8,
+      fill: 'rgba(0, 0, 255, 0.5)',
+      stroke: '#000000',
+      strokeWidth: 2,
+      opacity: 0.8,
+    });
+    expect(card!.effects).toEqual([{ type: 'shadow', color: 'rgba(0, 0, 0, 0.25)', blur: 8, offsetX: 0, offsetY: 4, spread: 0, inner: false }]);
+
+    const [title, photo, arrow] = group!.children!;
+    expect(title).toMatchObject({ type: 'text', text: 'Hello', x: 125, y: 205, fontFamily: 'Inter', fontWeight: 'bold', fontSize: 18, textAlign: 'center' });
+    expect(photo).toMatchObject({ type: 'image', src: 'data:image/png;base64,iVBORw0KGgo=' });
+    expect(arrow).toMatchObject({ type: 'path', pathData: 'M0 0 L20 10', viewBox: '0 0 20 10' });
+
+    expect(report.skipped.map(issue => issue.source)).toEqual(['Home / Desktop / hidden', 'Home / Desktop / Export']);
+  });
+
+  it('expands symbol instances with text overrides and returns the masters', async () => {
+    const { elements, symbols, report } = await parseSketch(await sketchFile());
+
+    const instance = elements[0]!.children![3]!;
+    expect(instance).toMatchObject({ type: 'group', name: 'Button', x: 100, y: 310, width: 240 });
+    // The instance is twice as wide as the master
+    expect(instance.children![0]).toMatchObject({ type: 'rect', x: 100, width: 240, fill: '#0080ff' });
+    expect(instance.children![1]).toMatchObject({ type: 'text', text: 'Buy now', x: 120 });
+
+    expect(symbols).toHaveLength(1);
+    expect(symbols[0]).toMatchObject({ id: 'button-symbol', name: 'Button/Primary', width: 120, height: 40 });
+    expect(symbols[0]!.elements[1]).toMatchObject({ text: 'Click', x: 10, y: 10 });
+    expect(report.imported).toBeGreaterThan(8);
+
+    const design = toDesignElements(symbols[0]!.elements);
+    expect(design.map(el => el.type)).toEqual(['shape', 'text']);
+    expect(design[1]).toMatchObject({ content: 'Click', color: '#000000', fontSize: 18, zIndex: 1 });
+  });
+
+  it('summarises shared styles and reports approximations', async () => {
+    const { sharedStyles, report } = await parseSketch(await sketchFile());
+    expect(sharedStyles).toEqual([
+      { id: 'style-1', name: 'Surface', kind: 'layer', fill: '#333333' },
+      { id: 'style-2', name: 'Heading', kind: 'text', fontFamily: 'Inter', fontWeight: '600', fontSize: 32 },
+    ]);
+    expect(formatSketchImportReport(report)).toContain('Skipped Home / Desktop / Export: Slices are export areas, not layers');
+    expect(report.approximated).toContainEqual({ source: 'Home / Desktop / Card', reason: 'Only the top fill is kept' });
+  });
+
+  it('rejects files that are not Sketch documents', async () => {
+    await expect(parseSketch(new Uint8Array(64))).rejects.toThrow('File is not a Sketch document');
+    await expect(parseSketch(await writeZip([{ name: 'a.txt', data: 'x' }]))).rejects.toThrow('before version 43');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseSVG, parseTransform, pathBounds, formatSVGImportReport } from '../svgImport';
+
+const svg = (body: string, attrs = 'width="200" height="100"') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attrs}>${body}</svg>`;
+
+describe('parseTransform', () => {
+  it('composes transform lists left to right', () => {
+    const m = parseTransform('translate(10, 20) scale(2)');
+    expect(m).toEqual([2, 0, 0, 2, 10, 20]);
+
+    const r = parseTransform('rotate(90 10 10)');
+    expect(r.map(v => Math.round(v * 1000) / 1000 || 0)).toEqual([0, 1, -1, 0, 20, 0]);
+  });
+});
+
+describe('pathBounds', () => {
+  it('measures lines, relative commands and curves', () => {
+    expect(pathBounds('M10 10 h30 v20 H10 Z')).toEqual({ x: 10, y: 10, width: 30, height: 20 });
+
+    const arc = pathBounds('M0 50 A50 50 0 0 1 100 50');
+    expect(arc.x).toBeCloseTo(0);
+    expect(arc.y).toBeCloseTo(0);
+    expect(arc.width).toBeCloseTo(100);
+    expect(arc.height).toBeCloseTo(50);
+
+    const curve = pathBounds('M0 0 C0 100 100 100 100 0');
+    expect(curve.height).toBeCloseTo(75);
+  });
+});
+
+describe('parseSVG', () => {
+  it('converts shapes with fills, strokes and transforms', () => {
+    const { elements, width, height, report } = parseSVG(svg(`
+      <rect id="card" x="10" y="10" width="50" height="20" rx="4" fill="#ff0000" stroke="blue" stroke-width="2"/>
+      <circle cx="100" cy="50" r="10" style="fill: rgb(0, 128, 0); fill-opacity: 0.5"/>
+      <rect x="0" y="0" width="10" height="10" transform="translate(150 50) rotate(45 5 5)"/>
+      <path d="M0 0 L20 0 L20 10 Z" transform="scale(2)" fill="none" stroke="#000"/>
+    `));
+
+    expect(width).toBe(200);
+    expect(height).toBe(100);
+    expect(report).toEqual({ imported: 4, skipped: [], approximated: [] });
+
+    expect(elements[0]).toEqual({
+      id: 'svg_card', name: 'card', type: 'rect',
+      x: 10, y: 10, width: 50, height: 20, cornerRadius: 4,
+      fill: '#ff0000', stroke: 'blue', strokeWidth: 2,
+    });
+    expect(elements[1]).toMatchObject({ type: 'circle', x: 90, y: 40, width: 20, height: 20, fill: 'rgba(0, 128, 0, 0.5)' });
+    expect(elements[2]).toMatchObject({ type: 'rect', x: 150, y: 50, width: 10, height: 10, rotation: 45 });
+    expect(elements[3]).toMatchObject({
+      type: 'path', x: 0, y: 0, width: 40, height: 20,
+      pathData: 'M0 0 L20 0 L20 10 Z', viewBox: '0 0 20 10', stroke: '#000', strokeWidth: 2,
+    });
+    expect(elements[3]!.fill).toBeUndefined();
+  });
+
+  it('keeps groups with inherited styles and resolves gradients', () => {
+    const { elements } = parseSVG(svg(`
+      <defs>
+        <linearGradient id="fade" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stop-color="#ffffff"/>
+          <stop offset="100%" stop-color="#000000" stop-opacity="0.5"/>
+        </linearGradient>
+        <linearGradient id="fade-copy" xlink:href="#fade"/>
+      </defs>
+      <g id="Layer_1" transform="translate(20 10)" fill="#123456" opacity="0.8">
+        <rect width="10" height="10"/>
+        <rect x="20" width="10" height="10" fill="url(#fade-copy)"/>
+        <text x="0" y="40" font-family="'Open Sans', sans-serif" font-size="12" text-anchor="middle">Hello  world</text>
+      </g>
+    `));
+
+    expect(elements).toHaveLength(1);
+    const group = elements[0]!;
+    expect(group).toMatchObject({ type: 'group', name: 'Layer_1', opacity: 0.8 });
+    expect(group.children).toHaveLength(3);
+
+    const [plain, gradient, text] = group.children!;
+    expect(plain).toMatchObject({ x: 20, y: 10, fill: '#123456' });
+    expect(gradient!.fill).toEqual({
+      type: 'linear',
+      angle: 90,
+      stops: [{ offset: 0, color: '#ffffff' }, { offset: 1, color: '#00000080' }],
+    });
+    expect(text).toMatchObject({
+      type: 'text', text: 'Hello world', fontFamily: 'Open Sans', fontSize: 12, textAlign: 'center', fill: '#123456',
+    });
+    expect(group.x).toBe(Math.min(plain!.x, gradient!.x, text!.x));
+  });
+
+  it('flattens groups and expands <use> references on request', () => {
+    const { elements } = parseSVG(svg(`
+      <defs><circle id="dot" r="5"/></defs>
+      <g><use href="#dot" x="10" y="10"/><use xlink:href="#dot" x="30" y="10"/></g>
+    `), { flattenGroups: true });
+
+    expect(elements.map(el => [el.type, el.x, el.y])).toEqual([['circle', 5, 5], ['circle', 25, 5]]);
+    expect(new Set(elements.map(el => el.id)).size).toBe(2);
+  });
+
+  it('scales content from the viewBox and maps images', () => {
+    const { elements } = parseSVG(
+      svg('<image href="photo.png" x="10" y="10" width="20" height="20"/>', 'width="100" height="100" viewBox="0 0 50 50"')
+    );
+
+    expect(elements[0]).toMatchObject({ type: 'image', src: 'photo.png', x: 20, y: 20, width: 40, height: 40 });
+  });
+
+  it('reports what could not be mapped', () => {
+    const { elements, report } = parseSVG(svg(`
+      <filter id="glow"><feGaussianBlur stdDeviation="2"/></filter>
+      <rect width="10" height="10" filter="url(#glow)"/>
+      <foreignObject width="10" height="10"/>
+      <use href="#missing"/>
+    `));
+
+    expect(elements).toHaveLength(1);
+    expect(report.skipped.map(issue => issue.source)).toEqual(['filter#glow', 'foreignObject', 'use']);
+    expect(formatSVGImportReport(report)).toContain('Approximated rect: Filter effect was ignored');
+  });
+
+  it('rejects documents that are not SVG', () => {
+    expect(() => parseSVG('<html><body/></html>')).toThrow('not a valid SVG');
+  });
+});
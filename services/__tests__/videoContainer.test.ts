@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { muxMP4, muxWebM } from '../videoContainer';
+import type { EncodedVideoTrack } from '../videoContainer';
+
+// Three frames at 25fps; the bytes stand in for encoded data
+const track = (codec: EncodedVideoTrack['codec']): EncodedVideoTrack => ({
+  codec,
+  width: 320,
+  height: 240,
+  description: codec === 'avc' ? new Uint8Array([1, 0x42, 0, 0x1f, 0xff, 0xe0, 0]) : undefined,
+  frames: [
+    { data: new Uint8Array([1, 1, 1, 1]), timestamp: 0, duration: 40_000, key: true },
+    { data: new Uint8Array([2, 2]), timestamp: 40_000, duration: 40_000, key: false },
+    { data: new Uint8Array([3, 3, 3]), timestamp: 80_000, duration: 40_000, key: true },
+  ],
+});
+
+const text = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+interface Box {
+  type: string;
+  start: number;
+  data: Uint8Array;
+}
+
+function readBoxes(bytes: Uint8Array, offset = 0): Box[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: Box[] = [];
+  for (let at = 0; at < bytes.length;) {
+    const size = view.getUint32(at);
+    boxes.push({ type: text(bytes.subarray(at + 4, at + 8)), start: offset + at, data: bytes.subarray(at + 8, at + size) });
+    at += size;
+  }
+  return boxes;
+}
+
+function findBox(bytes: Uint8Array, path: string[]): Box {
+  let box: Box | undefined;
+  let data = bytes;
+  for (const type of path) {
+    box = readBoxes(data).find(child => child.type === type);
+    expect(box, type).toBeDefined();
+    // stsd and dref hold a count before their children
+    data = type === 'stsd' || type === 'dref' ? box!.data.subarray(8) : box!.data;
+  }
+  return box!;
+}
+
+const u32s = (data: Uint8Array) => Array.from({ length: data.length / 4 }, (_, i) => new DataView(data.buffer, data.byteOffset).getUint32(i * 4));
+
+describe('muxMP4', () => {
+  it('writes the index ahead of the frames with sync samples and durations', () => {
+    const bytes = muxMP4(track('avc'));
+    expect(readBoxes(bytes).map(box => box.type)).toEqual(['ftyp', 'moov', 'mdat']);
+
+    const stbl = ['moov', 'trak', 'mdia', 'minf', 'stbl'];
+    // Full boxes start with a version and flags word
+    expect(u32s(findBox(bytes, [...stbl, 'stts']).data).slice(1)).toEqual([1, 3, 3600]);
+    expect(u32s(findBox(bytes, [...stbl, 'stss']).data).slice(1)).toEqual([2, 1, 3]);
+    expect(u32s(findBox(bytes, [...stbl, 'stsz']).data).slice(1)).toEqual([0, 3, 4, 2, 3]);
+    const [, , offset] = u32s(findBox(bytes, [...stbl, 'stco']).data);
+    expect([...bytes.subarray(offset, offset! + 9)]).toEqual([1, 1, 1, 1, 2, 2, 3, 3, 3]);
+
+    const avcC = findBox(bytes, [...stbl, 'stsd', 'avc1']).data.subarray(78);
+    expect(text(avcC.subarray(4, 8))).toBe('avcC');
+    // 120ms at the 90kHz media clock
+    expect(u32s(findBox(bytes, ['moov', 'trak', 'mdia', 'mdhd']).data)[4]).toBe(10_800);
+  });
+
+  it('refuses other codecs and missing configuration', () => {
+    expect(() => muxMP4(track('vp9'))).toThrow('MP4 export supports H.264 video, not VP9');
+    expect(() => muxMP4({ ...track('avc'), description: undefined })).toThrow('decoder configuration');
+  });
+});
+
+describe('muxWebM', () => {
+  /** EBML elements: IDs with their marker bits, sizes without */
+  function readElements(bytes: Uint8Array, offset = 0): Array<{ id: number; start: number; data: Uint8Array }> {
+    const elements = [];
+    for (let at = 0; at < bytes.length;) {
+      const start = at;
+      const idLength = Math.clz32(bytes[at]!) - 23;
+      let id = 0;
+      for (let i = 0; i < idLength; i++) id = id * 256 + bytes[at++]!;
+      const sizeLength = Math.clz32(bytes[at]!) - 23;
+      let size = bytes[at++]! & (0xff >> sizeLength);
+      for (let i = 1; i < sizeLength; i++) size = size * 256 + bytes[at++]!;
+      elements.push({ id, start: offset + start, data: bytes.subarray(at, at + size) });
+      at += size;
+    }
+    return elements;
+  }
+
+  it('starts a cluster at every key frame and indexes them in the cues', () => {
+    const bytes = muxWebM(track('vp9'));
+    const [header, segment] = readElements(bytes);
+    expect(header!.id).toBe(0x1a45dfa3);
+    expect(text(header!.data)).toContain('webm');
+    expect(segment!.id).toBe(0x18538067);
+
+    const children = readElements(segment!.data);
+    expect(children.map(child => child.id)).toEqual([0x114d9b74, 0x1549a966, 0x1654ae6b, 0x1f43b675, 0x1f43b675, 0x1c53bb6b]);
+    expect(text(children[2]!.data)).toContain('V_VP9');
+
+    const clusters = children.filter(child => child.id === 0x1f43b675).map(cluster => readElements(cluster.data));
+    // Timecode 0 with blocks at 0 and 40ms, then timecode 80 with one key block
+    expect(clusters[0]!.map(child => child.id)).toEqual([0xe7, 0xa3, 0xa3]);
+    expect([...clusters[0]![1]!.data.subarray(0, 4)]).toEqual([0x81, 0, 0, 0x80]);
+    expect([...clusters[0]![2]!.data]).toEqual([0x81, 0, 40, 0, 2, 2]);
+    expect([...clusters[1]![0]!.data]).toEqual([80]);
+
+    // Cue positions point at the clusters within the segment's data
+    const positions = readElements(children[5]!.data).map(point => {
+      const trackPositions = readElements(point.data).find(child => child.id === 0xb7)!;
+      const position = readElements(trackPositions.data).find(child => child.id === 0xf1)!.data;
+      return position.reduce((value, byte) => value * 256 + byte, 0);
+    });
+    expect(positions).toEqual([children[3]!.start, children[4]!.start]);
+  });
+
+  it('refuses H.264 video', () => {
+    expect(() => muxWebM(track('avc'))).toThrow('WebM cannot hold AVC video');
+  });
+});
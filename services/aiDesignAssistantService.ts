@@ -4,6 +4,16 @@
 // =============================================
 
 import { supabase } from '../lib/supabase';
+import type { DesignElement } from '../types';
+import { getAIProvider } from './aiProvider';
+import {
+  COMMAND_RESPONSE_SCHEMA,
+  parseCommandResponse,
+  previewDesignActions,
+  serializeDesignContext,
+} from './designActions';
+import type { DesignActionPreview } from './designActions';
+import type { JsonSchema } from './aiProvider';
 
 // =============================================
 // Types
@@ -25,6 +35,9 @@ export type CommandType = 'generate' | 'edit' | 'style' | 'layout' | 'content';
 
 export interface CommandContext {
   selectedElements?: string[];
+  /** Elements the command applies to; enables validation against real ids and previews */
+  elements?: DesignElement[];
+  canvasSize?: { width: number; height: number };
   currentCanvasState?: any;
   projectId?: string;
   viewport?: { x: number; y: number; zoom: number };
@@ -35,6 +48,8 @@ export interface CommandResponse {
   explanation: string;
   suggestions?: string[];
   confidence: number;
+  /** Resulting elements and per-element diff, not yet applied */
+  preview?: DesignActionPreview;
 }
 
 export interface DesignAction {
@@ -84,103 +99,102 @@ export interface StylePreset {
 }
 
 // =============================================
-// Command Parser
+// Model Provider
 // =============================================
 
-interface ParsedCommand {
-  intent: CommandType;
-  action: string;
-  targets: string[];
-  modifiers: Record<string, any>;
-  parameters: Record<string, any>;
+export interface DesignModelRequest {
+  system: string;
+  prompt: string;
+  /** JSON schema the reply must follow */
+  schema: JsonSchema;
 }
 
-function parseCommand(input: string): ParsedCommand {
-  const normalizedInput = input.toLowerCase().trim();
-
-  // Intent detection patterns
-  const intents: Record<CommandType, RegExp[]> = {
-    generate: [/^(create|add|generate|make|insert)/i],
-    edit: [/^(change|modify|edit|update|set)/i],
-    style: [/^(style|color|font|make.*bold|make.*italic)/i],
-    layout: [/^(move|align|center|position|resize|arrange)/i],
-    content: [/^(write|text|headline|copy|caption)/i],
-  };
+export interface DesignModelResponse {
+  text: string;
+  tokensUsed?: number;
+}
 
-  let intent: CommandType = 'edit';
-  for (const [type, patterns] of Object.entries(intents)) {
-    if (patterns.some((p) => p.test(normalizedInput))) {
-      intent = type as CommandType;
-      break;
-    }
-  }
+/**
+ * Language model that turns a command and design context into actions
+ */
+export interface DesignModelProvider {
+  id: string;
+  generate(request: DesignModelRequest): Promise<DesignModelResponse>;
+}
 
-  // Extract targets
-  const targetPatterns = [
-    /(?:the\s+)?(\w+)\s+(?:element|layer|object|text|image|shape)/i,
-    /(?:this|that|selected|current)\s+(\w+)/i,
-    /(\w+)\s+(?:to|into|as)/i,
-  ];
-
-  const targets: string[] = [];
-  for (const pattern of targetPatterns) {
-    const match = normalizedInput.match(pattern);
-    if (match) targets.push(match[1]);
-  }
+/** Uses whichever text provider is configured (see aiProvider) */
+export const providerDesignModel: DesignModelProvider = {
+  id: 'ai-provider',
+  async generate({ system, prompt, schema }) {
+    const result = await getAIProvider('text').text.generate({
+      prompt,
+      system,
+      schema,
+      temperature: 0.2,
+    });
 
-  // Extract modifiers
-  const modifiers: Record<string, any> = {};
-
-  // Color extraction
-  const colorMatch = normalizedInput.match(
-    /#[0-9a-f]{6}|#[0-9a-f]{3}|\b(red|blue|green|yellow|purple|orange|pink|black|white|gray|grey)\b/i
-  );
-  if (colorMatch) modifiers.color = colorMatch[0];
-
-  // Size extraction
-  const sizeMatch = normalizedInput.match(/(\d+)\s*(px|%|em|rem)/i);
-  if (sizeMatch) modifiers.size = { value: parseInt(sizeMatch[1]), unit: sizeMatch[2] };
-
-  // Direction extraction
-  const directionMatch = normalizedInput.match(/\b(left|right|top|bottom|center|middle)\b/i);
-  if (directionMatch) modifiers.direction = directionMatch[1].toLowerCase();
-
-  // Amount extraction
-  const amountMatch = normalizedInput.match(/\b(more|less|slightly|very|much)\b/i);
-  if (amountMatch) modifiers.amount = amountMatch[1].toLowerCase();
-
-  return {
-    intent,
-    action: normalizedInput.split(' ').slice(0, 2).join(' '),
-    targets,
-    modifiers,
-    parameters: {},
-  };
-}
+    return {
+      text: result.text,
+      tokensUsed: result.tokensUsed,
+    };
+  },
+};
+
+const SYSTEM_PROMPT = `You are the design assistant of a visual editor. You receive the canvas as JSON
+(elements with id, type, geometry, color, fontSize, zIndex, groupId and CSS style) plus the ids of the
+selected elements, and a command from the user.
+
+Reply with design actions that carry out the command:
+- create: properties describe the new element and must include type; give it an id if later actions refer to it
+- update: change element fields of targetId (content, fontSize, color, size, rotation, visibility)
+- move: change x, y or zIndex of targetId
+- style: set CSS properties (camelCase) of targetId, e.g. fontWeight, backgroundColor, borderRadius, boxShadow
+- delete: remove targetId
+- group: put properties.elementIds into one group
+
+Only refer to ids that exist in the canvas or that an earlier action created. Commands about "this",
+"it" or "the selection" mean the selected elements. Use exact values taken from the canvas when the user
+refers to other elements (e.g. "match the logo color"). Keep elements inside the canvas. If the command
+cannot be carried out, return no actions and explain why. Set confidence between 0 and 1.`;
 
 // =============================================
 // AI Design Assistant Service
 // =============================================
 
 class AIDesignAssistantService {
-  private apiKey: string | null = null;
+  private provider: DesignModelProvider = providerDesignModel;
+
+  setProvider(provider: DesignModelProvider): void {
+    this.provider = provider;
+  }
 
   // =============================================
   // Command Execution
   // =============================================
 
+  /**
+   * Send a command with the current elements and selection to the model.
+   * The returned actions are validated and, when elements are given,
+   * previewed without being applied.
+   */
   async executeCommand(
     commandText: string,
     context: CommandContext
   ): Promise<CommandResponse> {
     const startTime = Date.now();
-
     try {
-      // Parse the command locally first
-      const parsed = parseCommand(commandText);
-
-      // Generate actions based on parsed command
-      const actions = await this.generateActions(parsed, context);
+      const serialized = serializeDesignContext(context.elements ?? [], context.selectedElements, context.canvasSize);
+      const reply = await this.provider.generate({
+        system: SYSTEM_PROMPT,
+        prompt: `Canvas:\n${JSON.stringify(serialized)}\n\nCommand: ${commandText}`,
+        schema: COMMAND_RESPONSE_SCHEMA,
+      });
+
+      const { commandType, ...parsed } = parseCommandResponse(reply.text, context.elements);
+      const response: CommandResponse = {
+        ...parsed,
+        preview: context.elements ? previewDesignActions(context.elements, parsed.actions) : undefined,
+      };
 
       // Create history record
       const { data: { user } } = await supabase.auth.getUser();
@@ -188,182 +202,22 @@ class AIDesignAssistantService {
         await supabase.from('ai_command_history').insert({
           user_id: user.id,
           command_text: commandText,
-          command_type: parsed.intent,
-          context_data: context,
-          response_data: { actions, explanation: '', confidence: 0.85 },
+          command_type: commandType,
+          context_data: { selectedElements: context.selectedElements, projectId: context.projectId },
+          response_data: { actions: parsed.actions, explanation: parsed.explanation, confidence: parsed.confidence },
           execution_status: 'completed',
           execution_time_ms: Date.now() - startTime,
-          tokens_used: Math.ceil(commandText.length / 4),
+          tokens_used: reply.tokensUsed ?? Math.ceil((commandText.length + reply.text.length) / 4),
         });
       }
 
-      return {
-        actions,
-        explanation: this.generateExplanation(parsed, actions),
-        suggestions: this.generateSuggestions(parsed),
-        confidence: 0.85,
-      };
+      return response;
     } catch (error) {
       console.error('AI command execution failed:', error);
       throw error;
     }
   }
 
-  private async generateActions(
-    parsed: ParsedCommand,
-    context: CommandContext
-  ): Promise<DesignAction[]> {
-    const actions: DesignAction[] = [];
-    const selectedIds = context.selectedElements || [];
-
-    switch (parsed.intent) {
-      case 'style':
-        if (parsed.modifiers.color) {
-          for (const id of selectedIds) {
-            actions.push({
-              type: 'style',
-              targetId: id,
-              properties: { fill: parsed.modifiers.color },
-            });
-          }
-        }
-        if (parsed.action.includes('bold')) {
-          for (const id of selectedIds) {
-            actions.push({
-              type: 'style',
-              targetId: id,
-              properties: { fontWeight: 'bold' },
-            });
-          }
-        }
-        if (parsed.action.includes('shadow')) {
-          for (const id of selectedIds) {
-            actions.push({
-              type: 'style',
-              targetId: id,
-              properties: {
-                shadow: {
-                  color: 'rgba(0,0,0,0.2)',
-                  blur: 10,
-                  offsetX: 0,
-                  offsetY: 4,
-                },
-              },
-            });
-          }
-        }
-        break;
-
-      case 'layout':
-        if (parsed.modifiers.direction === 'center') {
-          for (const id of selectedIds) {
-            actions.push({
-              type: 'move',
-              targetId: id,
-              properties: { align: 'center' },
-            });
-          }
-        }
-        break;
-
-      case 'generate':
-        if (parsed.action.includes('button') || parsed.action.includes('cta')) {
-          actions.push({
-            type: 'create',
-            properties: {
-              type: 'button',
-              text: 'Click Here',
-              fill: parsed.modifiers.color || '#6366f1',
-              width: 160,
-              height: 48,
-              borderRadius: 8,
-            },
-          });
-        }
-        if (parsed.action.includes('text') || parsed.action.includes('headline')) {
-          actions.push({
-            type: 'create',
-            properties: {
-              type: 'text',
-              text: 'New Headline',
-              fontSize: 32,
-              fontWeight: 'bold',
-            },
-          });
-        }
-        break;
-
-      case 'content':
-        // Generate text content
-        const generatedText = await this.generateText(parsed.action);
-        for (const id of selectedIds) {
-          actions.push({
-            type: 'update',
-            targetId: id,
-            properties: { text: generatedText },
-          });
-        }
-        break;
-    }
-
-    return actions;
-  }
-
-  private generateExplanation(parsed: ParsedCommand, actions: DesignAction[]): string {
-    if (actions.length === 0) {
-      return "I couldn't understand that command. Try being more specific.";
-    }
-
-    const actionDescriptions = actions.map((a) => {
-      switch (a.type) {
-        case 'style':
-          return `Updated styling${a.targetId ? ` for element` : ''}`;
-        case 'move':
-          return `Repositioned element`;
-        case 'create':
-          return `Created new ${a.properties.type || 'element'}`;
-        case 'update':
-          return `Modified content`;
-        default:
-          return `Applied ${a.type}`;
-      }
-    });
-
-    return actionDescriptions.join('. ') + '.';
-  }
-
-  private generateSuggestions(parsed: ParsedCommand): string[] {
-    const suggestions: string[] = [];
-
-    if (parsed.intent === 'style') {
-      suggestions.push('Try "add a subtle shadow" for depth');
-      suggestions.push('Say "make it more minimal" for a cleaner look');
-    }
-
-    if (parsed.intent === 'generate') {
-      suggestions.push('Try "add a headline about [topic]"');
-      suggestions.push('Say "create a social media post layout"');
-    }
-
-    return suggestions.slice(0, 3);
-  }
-
-  private async generateText(prompt: string): Promise<string> {
-    // Simple text generation - in production, use actual AI
-    const templates: Record<string, string> = {
-      headline: 'Discover Something Amazing Today',
-      cta: 'Get Started Now',
-      caption: 'Your journey begins here.',
-      default: 'Sample text content',
-    };
-
-    for (const [key, value] of Object.entries(templates)) {
-      if (prompt.includes(key)) return value;
-    }
-
-    return templates.default;
-  }
-
   // =============================================
   // Command Templates
   // =============================================
@@ -0,0 +1,275 @@
+// =============================================
+// AI Provider
+// Provider-neutral text, image, video and speech capabilities
+// =============================================
+
+import { geminiProvider } from './aiProviderGemini';
+import { localProvider } from './aiProviderLocal';
+import { openAIProvider } from './aiProviderOpenAI';
+import { workersAIProvider } from './aiProviderWorkersAI';
+
+// =============================================
+// Types
+// =============================================
+
+export type AIProviderId = 'gemini' | 'openai' | 'workers-ai' | 'local';
+
+export type AICapability = 'text' | 'image' | 'video' | 'speech';
+
+/** Subset of JSON Schema used for structured model output */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+}
+
+/** Inline media, base64 encoded without the data URL prefix */
+export interface MediaInput {
+  data: string;
+  mimeType: string;
+}
+
+export type AIQuality = 'fast' | 'high';
+
+export interface TextRequest {
+  prompt: string;
+  system?: string;
+  /** When set, the reply is JSON following this schema */
+  schema?: JsonSchema;
+  media?: MediaInput[];
+  /** 'high' selects the provider's stronger (slower) model */
+  quality?: AIQuality;
+  /** Ground the answer with web search where the provider supports it */
+  search?: boolean;
+  temperature?: number;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+export interface TextResult {
+  text: string;
+  tokensUsed?: number;
+  grounding: GroundingSource[];
+}
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio?: ImageAspectRatio;
+  size?: '1K' | '2K' | '4K';
+  /** Image to edit instead of generating from scratch */
+  source?: MediaInput;
+}
+
+export interface ImageResult {
+  dataUrl: string;
+}
+
+export interface GeneratedVideo {
+  uri: string;
+  /** Provider-specific reference needed to extend the video */
+  handle?: unknown;
+}
+
+export interface VideoRequest {
+  prompt: string;
+  aspectRatio?: '16:9' | '9:16';
+  quality?: AIQuality;
+  /** Continue this video instead of starting a new one */
+  extend?: GeneratedVideo;
+}
+
+export interface VideoJob {
+  id: string;
+  provider: AIProviderId;
+  done: boolean;
+  video?: GeneratedVideo;
+  error?: string;
+  /** Provider-specific operation state used for polling */
+  handle?: unknown;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice?: string;
+}
+
+export interface SpeechResult {
+  /** Base64 encoded 16-bit mono PCM */
+  audio: string;
+  mimeType: string;
+  sampleRate: number;
+}
+
+export interface TextCapability {
+  generate(request: TextRequest): Promise<TextResult>;
+}
+
+export interface ImageCapability {
+  generate(request: ImageRequest): Promise<ImageResult>;
+}
+
+export interface VideoCapability {
+  start(request: VideoRequest): Promise<VideoJob>;
+  poll(job: VideoJob): Promise<VideoJob>;
+  fetch(video: GeneratedVideo): Promise<Blob>;
+}
+
+export interface SpeechCapability {
+  synthesize(request: SpeechRequest): Promise<SpeechResult>;
+  transcribe(audio: MediaInput): Promise<string>;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  name: string;
+  /** Whether credentials or an endpoint are configured */
+  isAvailable(): boolean;
+  text?: TextCapability;
+  image?: ImageCapability;
+  video?: VideoCapability;
+  speech?: SpeechCapability;
+}
+
+export type AIProviderWith<C extends AICapability> = AIProvider & Required<Pick<AIProvider, C>>;
+
+// =============================================
+// Registry
+// =============================================
+
+const PROVIDER_STORAGE_KEY = 'lumina_ai_provider';
+
+/** Remote providers tried in order when none is configured */
+const AUTO_ORDER: AIProviderId[] = ['gemini', 'openai', 'workers-ai'];
+
+const providers = new Map<AIProviderId, AIProvider>(
+  [geminiProvider, openAIProvider, workersAIProvider, localProvider].map(p => [p.id, p])
+);
+
+const overrides = new Map<AICapability | 'all', AIProviderId>();
+
+export function registerAIProvider(provider: AIProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function listAIProviders(): AIProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Force a provider for one capability, or for all of them. Pass null to go
+ * back to the configured provider (null for 'all' clears every override).
+ * Tests use this to pin the local fake.
+ */
+export function setAIProvider(id: AIProviderId | null, capability: AICapability | 'all' = 'all'): void {
+  if (id === null) {
+    if (capability === 'all') overrides.clear();
+    else overrides.delete(capability);
+  } else {
+    overrides.set(capability, id);
+  }
+}
+
+/**
+ * Provider chosen in Settings (localStorage) or at build time (VITE_AI_PROVIDER)
+ */
+export function getConfiguredProviderId(): AIProviderId | null {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE_KEY) : null;
+  const id = stored || import.meta.env.VITE_AI_PROVIDER;
+  return providers.has(id as AIProviderId) ? (id as AIProviderId) : null;
+}
+
+export function setConfiguredProviderId(id: AIProviderId | null): void {
+  if (id) {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(PROVIDER_STORAGE_KEY);
+  }
+}
+
+function supports<C extends AICapability>(provider: AIProvider | undefined, capability: C): provider is AIProviderWith<C> {
+  return !!provider && provider[capability] !== undefined;
+}
+
+/**
+ * Resolve the provider for a capability:
+ * 1. An override set with setAIProvider
+ * 2. The configured provider, if it is available and has the capability
+ * 3. The first available remote provider with the capability
+ * 4. The local stand-in, so the app keeps working offline and without keys
+ */
+export function getAIProvider<C extends AICapability>(capability: C): AIProviderWith<C> {
+  const overrideId = overrides.get(capability) ?? overrides.get('all');
+  if (overrideId) {
+    const provider = providers.get(overrideId);
+    if (!provider) throw new Error(`Unknown AI provider: ${overrideId}`);
+    if (!supports(provider, capability)) throw new Error(`${provider.name} does not support ${capability}`);
+    return provider;
+  }
+
+  const configuredId = getConfiguredProviderId();
+  const candidates = configuredId ? [configuredId, ...AUTO_ORDER] : AUTO_ORDER;
+  for (const id of candidates) {
+    const provider = providers.get(id);
+    if (supports(provider, capability) && provider.isAvailable()) return provider;
+  }
+
+  const local = providers.get('local');
+  if (!supports(local, capability)) throw new Error(`No AI provider supports ${capability}`);
+  return local;
+}
+
+/** Provider that created a job, e.g. to keep polling a video after the configuration changed */
+export function getAIProviderById<C extends AICapability>(id: AIProviderId, capability: C): AIProviderWith<C> {
+  const provider = providers.get(id);
+  if (!supports(provider, capability)) throw new Error(`AI provider ${id} does not support ${capability}`);
+  return provider;
+}
+
+// =============================================
+// Helpers
+// =============================================
+
+/**
+ * Parse a structured reply, tolerating markdown code fences around the JSON.
+ * Empty or malformed replies give the fallback.
+ */
+export function parseJsonReply<T>(text: string, fallback: T): T {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!trimmed) return fallback;
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch (error) {
+    console.error('Failed to parse AI reply as JSON', error);
+    return fallback;
+  }
+}
+
+export function toDataUrl(media: MediaInput): string {
+  return `data:${media.mimeType};base64,${media.data}`;
+}
+
+export function fromDataUrl(dataUrl: string): MediaInput {
+  const match = /^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/s.exec(dataUrl);
+  if (!match) throw new Error('Expected a base64 data URL');
+  return { mimeType: match[1]!, data: match[2]! };
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,233 @@
+// =============================================
+// Gemini Provider
+// Google Gemini / Veo adapter and BYOK key handling
+// =============================================
+
+import { GoogleGenAI, Modality } from '@google/genai';
+import type { GenerateVideosOperation, Part } from '@google/genai';
+import type { AIProvider, GroundingSource, MediaInput, VideoJob } from './aiProvider';
+
+// Model constants - Gemini 3 Pro for high quality
+const TEXT_FLASH = 'gemini-3-flash-preview';
+const TEXT_PRO = 'gemini-3-pro-preview';
+const IMAGE_PRO = 'gemini-3-pro-image-preview';
+const IMAGE_FLASH = 'gemini-2.5-flash-preview-04-17';
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+const VIDEO_HIGH_MODEL = 'veo-3.1-generate-preview';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Storage key for BYOK
+const BYOK_STORAGE_KEY = 'lumina_gemini_api_key';
+
+const getSessionKey = (): string | undefined =>
+  (window as Window & { __GEMINI_API_KEY__?: string }).__GEMINI_API_KEY__;
+
+/**
+ * Get the active API key with BYOK priority:
+ * 1. User's BYOK key from localStorage (highest priority)
+ * 2. Session key from window.__GEMINI_API_KEY__
+ * 3. Build-time environment variable (fallback for included credits)
+ */
+export const getActiveApiKey = (): { key: string; source: 'byok' | 'platform' } | null => {
+  // Priority 1: User's own key (BYOK)
+  const byokKey = typeof window !== 'undefined'
+    ? localStorage.getItem(BYOK_STORAGE_KEY) || getSessionKey()
+    : null;
+
+  if (byokKey && byokKey.length > 10) {
+    return { key: byokKey, source: 'byok' };
+  }
+
+  // Priority 2: Platform's included credits (build-time key)
+  const platformKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+  if (platformKey) {
+    return { key: platformKey, source: 'platform' };
+  }
+
+  return null;
+};
+
+/**
+ * Check if user has BYOK configured
+ */
+export const hasBYOK = (): boolean => {
+  if (typeof window === 'undefined') return false;
+  const key = localStorage.getItem(BYOK_STORAGE_KEY) || getSessionKey();
+  return !!key && key.length > 10;
+};
+
+/**
+ * Check if platform credits are available
+ */
+export const hasPlatformCredits = (): boolean => {
+  const platformKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+  return !!platformKey;
+};
+
+// Get AI client - prioritizes BYOK, falls back to platform credits
+export const getAIClient = () => {
+  const keyInfo = getActiveApiKey();
+
+  if (!keyInfo) {
+    throw new Error(
+      'No API key available. Either add your own Gemini API key in Settings, ' +
+      'or upgrade to a plan with included AI credits.'
+    );
+  }
+
+  return new GoogleGenAI({ apiKey: keyInfo.key });
+};
+
+/**
+ * Get AI client with explicit source tracking (for usage analytics)
+ */
+export const getAIClientWithSource = (): { client: GoogleGenAI; source: 'byok' | 'platform' } => {
+  const keyInfo = getActiveApiKey();
+
+  if (!keyInfo) {
+    throw new Error(
+      'No API key available. Either add your own Gemini API key in Settings, ' +
+      'or upgrade to a plan with included AI credits.'
+    );
+  }
+
+  return {
+    client: new GoogleGenAI({ apiKey: keyInfo.key }),
+    source: keyInfo.source
+  };
+};
+
+function mediaParts(media: MediaInput[] = []): Part[] {
+  return media.map(item => ({ inlineData: { data: item.data, mimeType: item.mimeType } }));
+}
+
+function toVideoJob(operation: GenerateVideosOperation): VideoJob {
+  const video = operation.response?.generatedVideos?.[0]?.video;
+  return {
+    id: operation.name || '',
+    provider: 'gemini',
+    done: !!operation.done,
+    video: video?.uri ? { uri: video.uri, handle: video } : undefined,
+    error: operation.error ? (typeof operation.error.message === 'string' ? operation.error.message : 'Video generation failed') : undefined,
+    handle: operation,
+  };
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  isAvailable: () => getActiveApiKey() !== null,
+
+  text: {
+    async generate({ prompt, system, schema, media, quality, search, temperature }) {
+      const ai = getAIClient();
+      const response = await ai.models.generateContent({
+        model: quality === 'high' ? TEXT_PRO : TEXT_FLASH,
+        contents: media?.length ? { parts: [...mediaParts(media), { text: prompt }] } : prompt,
+        config: {
+          systemInstruction: system,
+          temperature,
+          thinkingConfig: quality === 'high' ? { thinkingBudget: 16000 } : undefined,
+          tools: search ? [{ googleSearch: {} }] : undefined,
+          ...(schema ? { responseMimeType: 'application/json', responseJsonSchema: schema } : {}),
+        },
+      });
+
+      const grounding: GroundingSource[] = [];
+      for (const chunk of response.candidates?.[0]?.groundingMetadata?.groundingChunks || []) {
+        if (chunk.web?.uri) grounding.push({ uri: chunk.web.uri, title: chunk.web.title });
+      }
+
+      return {
+        text: response.text || '',
+        tokensUsed: response.usageMetadata?.totalTokenCount,
+        grounding,
+      };
+    },
+  },
+
+  image: {
+    async generate({ prompt, aspectRatio = '1:1', size = '2K', source }) {
+      const ai = getAIClient();
+      // Edits go to the Flash image model, new images to Pro
+      const response = source
+        ? await ai.models.generateContent({
+            model: IMAGE_FLASH,
+            contents: { parts: [...mediaParts([source]), { text: prompt }] },
+          })
+        : await ai.models.generateContent({
+            model: IMAGE_PRO,
+            contents: { parts: [{ text: prompt }] },
+            config: { imageConfig: { aspectRatio, imageSize: size } },
+          });
+
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return { dataUrl: `data:image/png;base64,${part.inlineData.data}` };
+        }
+      }
+      throw new Error('Gemini did not return image data');
+    },
+  },
+
+  video: {
+    async start({ prompt, aspectRatio = '16:9', quality, extend }) {
+      const ai = getAIClient();
+      const operation = await ai.models.generateVideos({
+        model: extend || quality === 'high' ? VIDEO_HIGH_MODEL : VIDEO_MODEL,
+        prompt,
+        video: extend?.handle as Parameters<typeof ai.models.generateVideos>[0]['video'],
+        config: { numberOfVideos: 1, resolution: '720p', aspectRatio },
+      });
+      return toVideoJob(operation);
+    },
+
+    async poll(job) {
+      const ai = getAIClient();
+      const operation = await ai.operations.getVideosOperation({ operation: job.handle as GenerateVideosOperation });
+      return toVideoJob(operation);
+    },
+
+    async fetch(video) {
+      const keyInfo = getActiveApiKey();
+      if (!keyInfo) throw new Error('No API key available for video fetch');
+      const response = await fetch(`${video.uri}&key=${keyInfo.key}`);
+      return await response.blob();
+    },
+  },
+
+  speech: {
+    async synthesize({ text, voice = 'Kore' }) {
+      const ai = getAIClient();
+      const response = await ai.models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice },
+            },
+          },
+        },
+      });
+      const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!audio) throw new Error('Gemini did not return audio');
+      return { audio, mimeType: 'audio/pcm', sampleRate: 24000 };
+    },
+
+    async transcribe(audio) {
+      const ai = getAIClient();
+      const response = await ai.models.generateContent({
+        model: TEXT_FLASH,
+        contents: {
+          parts: [
+            ...mediaParts([audio]),
+            { text: 'Transcribe this audio exactly. Provide timing if possible. No commentary.' }
+          ]
+        }
+      });
+      return response.text || '';
+    },
+  },
+};
@@ -0,0 +1,184 @@
+// =============================================
+// Local Provider
+// Deterministic offline stand-in for every AI capability
+// =============================================
+
+import type { AIProvider, ImageAspectRatio, JsonSchema } from './aiProvider';
+
+// Same input, same output: everything below is derived from a hash of the request
+
+function hashString(value: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32 */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hexColor(random: () => number): string {
+  return `#${Math.floor(random() * 0xffffff).toString(16).padStart(6, '0')}`;
+}
+
+function promptWords(prompt: string): string[] {
+  const words = prompt.toLowerCase().match(/[a-z][a-z-]{3,}/g) || [];
+  return words.length > 0 ? [...new Set(words)] : ['lumina', 'design'];
+}
+
+const ARRAY_LENGTH = 3;
+
+/** Build a value that satisfies the schema from seeded randomness */
+function sampleSchema(schema: JsonSchema, key: string, random: () => number, words: string[]): unknown {
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)]!;
+
+  if (schema.enum?.length) return pick(schema.enum);
+
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(schema.properties || {})) {
+        result[name] = sampleSchema(property, name, random, words);
+      }
+      return result;
+    }
+    case 'array':
+      return Array.from({ length: ARRAY_LENGTH }, () => sampleSchema(schema.items || { type: 'string' }, key, random, words));
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? Math.max(min, 100);
+      const value = min + random() * (max - min);
+      return schema.type === 'integer' ? Math.round(value) : Math.round(value * 100) / 100;
+    }
+    case 'boolean':
+      return random() < 0.5;
+    default:
+      if (/colou?r/i.test(key)) return hexColor(random);
+      return `${pick(words)} ${pick(words)}`;
+  }
+}
+
+const IMAGE_SIZES: Record<ImageAspectRatio, [number, number]> = {
+  '1:1': [1024, 1024],
+  '3:4': [768, 1024],
+  '4:3': [1024, 768],
+  '9:16': [576, 1024],
+  '16:9': [1024, 576],
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
+
+/** Gradient placeholder with the prompt as caption */
+function placeholderSvg(prompt: string, width: number, height: number, animate = false): string {
+  const random = createRandom(hashString(prompt));
+  const from = hexColor(random);
+  const to = hexColor(random);
+  const caption = escapeXml(prompt.length > 60 ? `${prompt.slice(0, 57)}...` : prompt);
+  const motion = animate
+    ? '<animateTransform attributeName="gradientTransform" type="rotate" from="0 .5 .5" to="360 .5 .5" dur="4s" repeatCount="indefinite"/>'
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/>${motion}</linearGradient></defs>` +
+    `<rect width="100%" height="100%" fill="url(#g)"/>` +
+    `<text x="50%" y="50%" fill="#ffffff" font-family="sans-serif" font-size="${Math.round(width / 32)}" text-anchor="middle">${caption}</text>` +
+    '</svg>';
+}
+
+function encodeUtf8Base64(value: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(value)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+const SAMPLE_RATE = 24000;
+
+/** A short tone per word, so longer text gives longer audio */
+function synthesizeTones(text: string): string {
+  const words = text.split(/\s+/).filter(Boolean).slice(0, 200);
+  const samplesPerWord = Math.round(SAMPLE_RATE * 0.18);
+  const pcm = new Int16Array(Math.max(1, words.length) * samplesPerWord);
+
+  words.forEach((word, w) => {
+    const frequency = 180 + (hashString(word) % 240);
+    for (let i = 0; i < samplesPerWord; i++) {
+      const envelope = Math.sin((Math.PI * i) / samplesPerWord);
+      pcm[w * samplesPerWord + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 8000);
+    }
+  });
+
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export const localProvider: AIProvider = {
+  id: 'local',
+  name: 'Offline stand-in',
+  isAvailable: () => true,
+
+  text: {
+    generate({ prompt, system, schema, media }) {
+      const seed = hashString(`${system ?? ''}\n${prompt}\n${(media || []).map(m => m.data.length).join(',')}`);
+      const words = promptWords(prompt);
+      const text = schema
+        ? JSON.stringify(sampleSchema(schema, '', createRandom(seed), words))
+        : `Offline preview response about ${words.slice(0, 5).join(', ')}. Connect an AI provider for real results.`;
+
+      return Promise.resolve({ text, tokensUsed: 0, grounding: [] });
+    },
+  },
+
+  image: {
+    generate({ prompt, aspectRatio = '1:1', source }) {
+      // Edits return the source unchanged
+      if (source) return Promise.resolve({ dataUrl: `data:${source.mimeType};base64,${source.data}` });
+      const [width, height] = IMAGE_SIZES[aspectRatio];
+      return Promise.resolve({ dataUrl: `data:image/svg+xml;base64,${encodeUtf8Base64(placeholderSvg(prompt, width, height))}` });
+    },
+  },
+
+  video: {
+    start({ prompt, aspectRatio = '16:9', extend }) {
+      const id = `local-${hashString(`${extend?.uri ?? ''}\n${prompt}`).toString(16)}`;
+      return Promise.resolve({
+        id,
+        provider: 'local',
+        done: true,
+        video: { uri: `local-video:${id}`, handle: { prompt, aspectRatio } },
+      });
+    },
+
+    poll: job => Promise.resolve(job),
+
+    /** An animated SVG placeholder: there is no offline video encoder */
+    fetch(video) {
+      const { prompt = video.uri, aspectRatio = '16:9' } = (video.handle || {}) as { prompt?: string; aspectRatio?: ImageAspectRatio };
+      const [width, height] = IMAGE_SIZES[aspectRatio];
+      return Promise.resolve(new Blob([placeholderSvg(prompt, width, height, true)], { type: 'image/svg+xml' }));
+    },
+  },
+
+  speech: {
+    synthesize: ({ text }) => Promise.resolve({ audio: synthesizeTones(text), mimeType: 'audio/pcm', sampleRate: SAMPLE_RATE }),
+
+    transcribe: audio => Promise.resolve(`[Offline transcript of ${Math.round(audio.data.length * 0.75)} bytes of ${audio.mimeType}]`),
+  },
+};
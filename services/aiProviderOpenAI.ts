@@ -0,0 +1,230 @@
+// =============================================
+// OpenAI-Compatible Provider
+// Any endpoint speaking the OpenAI REST API (OpenAI, Azure, Ollama, vLLM, ...)
+// =============================================
+
+import { blobToBase64 } from './aiProvider';
+import type { AIProvider, ImageAspectRatio, MediaInput } from './aiProvider';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  textModel: string;
+  /** Used for TextRequest.quality 'high' */
+  textHighModel: string;
+  imageModel: string;
+  speechModel: string;
+  transcriptionModel: string;
+}
+
+const CONFIG_STORAGE_KEY = 'lumina_openai_config';
+
+const DEFAULT_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: '',
+  textModel: 'gpt-4o-mini',
+  textHighModel: 'gpt-4o',
+  imageModel: 'gpt-image-1',
+  speechModel: 'gpt-4o-mini-tts',
+  transcriptionModel: 'whisper-1',
+};
+
+/**
+ * Endpoint settings: values saved in Settings override the VITE_OPENAI_*
+ * build-time variables. Local servers such as Ollama need no API key, so the
+ * provider counts as configured once a key or a custom base URL is set.
+ */
+export function getOpenAIConfig(): OpenAICompatibleConfig {
+  let stored: Partial<OpenAICompatibleConfig> = {};
+  try {
+    const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(CONFIG_STORAGE_KEY) : null;
+    if (raw) stored = JSON.parse(raw) as Partial<OpenAICompatibleConfig>;
+  } catch {
+    // Ignore malformed settings
+  }
+
+  const env = import.meta.env;
+  return {
+    baseUrl: (stored.baseUrl || env.VITE_OPENAI_BASE_URL || DEFAULT_CONFIG.baseUrl).replace(/\/$/, ''),
+    apiKey: stored.apiKey || env.VITE_OPENAI_API_KEY || DEFAULT_CONFIG.apiKey,
+    textModel: stored.textModel || env.VITE_OPENAI_TEXT_MODEL || DEFAULT_CONFIG.textModel,
+    textHighModel: stored.textHighModel || env.VITE_OPENAI_TEXT_MODEL || DEFAULT_CONFIG.textHighModel,
+    imageModel: stored.imageModel || env.VITE_OPENAI_IMAGE_MODEL || DEFAULT_CONFIG.imageModel,
+    speechModel: stored.speechModel || DEFAULT_CONFIG.speechModel,
+    transcriptionModel: stored.transcriptionModel || DEFAULT_CONFIG.transcriptionModel,
+  };
+}
+
+export function saveOpenAIConfig(config: Partial<OpenAICompatibleConfig> | null): void {
+  if (config) {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(CONFIG_STORAGE_KEY);
+  }
+}
+
+function isConfigured(config: OpenAICompatibleConfig): boolean {
+  return !!config.apiKey || config.baseUrl !== DEFAULT_CONFIG.baseUrl;
+}
+
+async function request(path: string, init: RequestInit): Promise<Response> {
+  const config = getOpenAIConfig();
+  const response = await fetch(`${config.baseUrl}${path}`, {
+    ...init,
+    headers: {
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    let message = `${response.status} ${response.statusText}`;
+    try {
+      const body = await response.json() as { error?: { message?: string } };
+      message = body.error?.message || message;
+    } catch {
+      // Keep the status text
+    }
+    throw new Error(`OpenAI-compatible request failed: ${message}`);
+  }
+  return response;
+}
+
+function postJson<T>(path: string, body: unknown): Promise<T> {
+  return request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }).then(response => response.json() as Promise<T>);
+}
+
+function mediaBlob(media: MediaInput): Blob {
+  const binary = atob(media.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: media.mimeType });
+}
+
+const IMAGE_SIZES: Record<ImageAspectRatio, string> = {
+  '1:1': '1024x1024',
+  '4:3': '1536x1024',
+  '16:9': '1536x1024',
+  '3:4': '1024x1536',
+  '9:16': '1024x1536',
+};
+
+/** Gemini voice names used in the UI mapped to the closest OpenAI voice */
+const VOICES: Record<string, string> = {
+  Kore: 'nova',
+  Puck: 'alloy',
+  Charon: 'onyx',
+  Zephyr: 'shimmer',
+  Fenrir: 'echo',
+};
+
+interface ChatCompletion {
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: { total_tokens?: number };
+}
+
+interface ImagesResponse {
+  data: Array<{ b64_json?: string; url?: string }>;
+}
+
+export const openAIProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI-compatible',
+  isAvailable: () => isConfigured(getOpenAIConfig()),
+
+  text: {
+    async generate({ prompt, system, schema, media, quality, temperature }) {
+      const config = getOpenAIConfig();
+      const unsupported = media?.find(item => !item.mimeType.startsWith('image/'));
+      if (unsupported) throw new Error(`OpenAI-compatible chat does not accept ${unsupported.mimeType} input`);
+
+      const content = media?.length
+        ? [
+            ...media.map(item => ({ type: 'image_url', image_url: { url: `data:${item.mimeType};base64,${item.data}` } })),
+            { type: 'text', text: prompt },
+          ]
+        : prompt;
+
+      const completion = await postJson<ChatCompletion>('/chat/completions', {
+        model: quality === 'high' ? config.textHighModel : config.textModel,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content },
+        ],
+        temperature,
+        response_format: schema
+          ? { type: 'json_schema', json_schema: { name: 'response', schema, strict: false } }
+          : undefined,
+      });
+
+      return {
+        text: completion.choices[0]?.message.content || '',
+        tokensUsed: completion.usage?.total_tokens,
+        grounding: [],
+      };
+    },
+  },
+
+  image: {
+    async generate({ prompt, aspectRatio = '1:1', source }) {
+      const config = getOpenAIConfig();
+      let result: ImagesResponse;
+
+      if (source) {
+        const form = new FormData();
+        form.append('model', config.imageModel);
+        form.append('prompt', prompt);
+        form.append('image', mediaBlob(source), 'image.png');
+        result = await request('/images/edits', { method: 'POST', body: form })
+          .then(response => response.json() as Promise<ImagesResponse>);
+      } else {
+        result = await postJson<ImagesResponse>('/images/generations', {
+          model: config.imageModel,
+          prompt,
+          size: IMAGE_SIZES[aspectRatio],
+          n: 1,
+        });
+      }
+
+      const image = result.data[0];
+      if (image?.b64_json) return { dataUrl: `data:image/png;base64,${image.b64_json}` };
+      if (image?.url) {
+        const blob = await fetch(image.url).then(response => response.blob());
+        return { dataUrl: `data:${blob.type || 'image/png'};base64,${await blobToBase64(blob)}` };
+      }
+      throw new Error('OpenAI-compatible endpoint did not return an image');
+    },
+  },
+
+  speech: {
+    async synthesize({ text, voice = 'Kore' }) {
+      const config = getOpenAIConfig();
+      const response = await request('/audio/speech', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: config.speechModel,
+          input: text,
+          voice: VOICES[voice] || voice,
+          response_format: 'pcm',
+        }),
+      });
+      // 'pcm' is 24kHz 16-bit mono, the same format Gemini TTS returns
+      return { audio: await blobToBase64(await response.blob()), mimeType: 'audio/pcm', sampleRate: 24000 };
+    },
+
+    async transcribe(audio) {
+      const config = getOpenAIConfig();
+      const form = new FormData();
+      form.append('model', config.transcriptionModel);
+      form.append('file', mediaBlob(audio), `audio.${audio.mimeType.split('/')[1] || 'wav'}`);
+      const result = await request('/audio/transcriptions', { method: 'POST', body: form })
+        .then(response => response.json() as Promise<{ text: string }>);
+      return result.text;
+    },
+  },
+};
@@ -0,0 +1,76 @@
+// =============================================
+// Workers AI Provider
+// Text and image generation through the Lumina API Worker
+// =============================================
+
+import type { AIProvider } from './aiProvider';
+
+type ClerkWindow = Window & {
+  Clerk?: { session?: { getToken(): Promise<string | null> } | null };
+};
+
+function apiUrl(): string | undefined {
+  return import.meta.env.VITE_API_URL;
+}
+
+function clerkSession() {
+  return typeof window !== 'undefined' ? (window as ClerkWindow).Clerk?.session : undefined;
+}
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  const token = await clerkSession()?.getToken();
+  const response = await fetch(`${apiUrl()}/v1${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json() as T & { error?: string; message?: string };
+  if (!response.ok) {
+    throw new Error(result.message || result.error || `Workers AI request failed: ${response.status}`);
+  }
+  return result;
+}
+
+/**
+ * The Worker picks the model (Workers AI by default, see AI_PROVIDER in
+ * wrangler.toml) and counts the request against the user's quota.
+ */
+export const workersAIProvider: AIProvider = {
+  id: 'workers-ai',
+  name: 'Cloudflare Workers AI',
+  isAvailable: () => !!apiUrl() && !!clerkSession(),
+
+  text: {
+    async generate({ prompt, system, schema, media, quality, temperature }) {
+      if (media?.length) throw new Error('Workers AI text generation does not accept media input');
+
+      const result = await post<{ result: string; tokens_used?: number }>('/ai/generate/text', {
+        prompt,
+        system,
+        schema,
+        temperature,
+        quality,
+      });
+      return { text: result.result, tokensUsed: result.tokens_used, grounding: [] };
+    },
+  },
+
+  image: {
+    async generate({ prompt, aspectRatio, size, source }) {
+      if (source) throw new Error('Workers AI does not support image editing');
+
+      const result = await post<{ image?: string }>('/ai/generate/image', {
+        prompt,
+        aspect_ratio: aspectRatio,
+        quality: size === '4K' ? 'ultra' : size === '2K' ? 'hd' : 'standard',
+        inline: true,
+      });
+      if (!result.image) throw new Error('Workers AI did not return image data');
+      return { dataUrl: result.image };
+    },
+  },
+};
@@ -0,0 +1,424 @@
+// ============================================
+// LUMINA ANIMATION EXPORT
+// Frame-accurate offline rendering of animation sequences to animated GIF,
+// WebM and MP4: each frame is sampled at the chosen frame rate, laid out
+// with the design renderer, rasterized and streamed into the encoder
+// ============================================
+
+import type { DesignElement } from '../types';
+import type { AnimationSequence, InterpolatedValue } from '../types/animation';
+import type { GifDither } from '../types/export';
+import { getSequenceValuesAtTime } from './animationService';
+import { drawSVGOnCanvas, designToSVG, prepareDesign } from './designRenderer';
+import type { DesignFont, DesignRenderOptions, PreparedDesign } from './designRenderer';
+import { createGifEncoder } from './gifEncoder';
+import { multiplyMatrix } from './pdfContentStream';
+import type { Matrix } from './pdfContentStream';
+import type { DecodedImage } from './printExport';
+import { muxMP4, muxWebM } from './videoContainer';
+import type { EncodedVideoFrame, EncodedVideoTrack, VideoCodec } from './videoContainer';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AnimationFormat = 'gif' | 'webm' | 'mp4';
+
+export interface FrameRasterizeRequest {
+  svg: string;
+  /** Output size in pixels */
+  width: number;
+  height: number;
+  /** Loaded fonts, for rasterizers that cannot read @font-face rules */
+  fonts: DesignFont[];
+}
+
+/** Draws one frame's SVG and returns its pixels */
+export type AnimationFrameRasterizer = (request: FrameRasterizeRequest) => Promise<DecodedImage>;
+
+export interface VideoEncoderSettings {
+  format: 'webm' | 'mp4';
+  width: number;
+  height: number;
+  fps: number;
+  /** Bits per second */
+  bitrate: number;
+}
+
+/** Compresses frames for a video container; times in microseconds */
+export interface VideoFrameEncoder {
+  encode(frame: DecodedImage, timestamp: number, duration: number, keyFrame: boolean): Promise<void>;
+  finish(): Promise<EncodedVideoTrack>;
+  /** Releases the encoder without finishing, e.g. when the export is cancelled */
+  close(): void;
+}
+
+export type VideoEncoderFactory = (settings: VideoEncoderSettings) => Promise<VideoFrameEncoder>;
+
+export interface AnimationExportOptions extends Omit<DesignRenderOptions, 'onProgress'> {
+  format: AnimationFormat;
+  fps: number;
+  /** Pixels per design unit; defaults to 1 */
+  scale?: number;
+  /** GIF palette size per frame, 2-256 */
+  colors?: number;
+  /** GIF dithering; defaults to Floyd-Steinberg */
+  dither?: GifDither;
+  /** WebM and MP4 bits per second; defaults to a rate for the frame size */
+  bitrate?: number;
+  /** Seconds between video key frames; defaults to 2 */
+  keyFrameInterval?: number;
+  /** Defaults to drawing each frame onto a browser canvas */
+  rasterize?: AnimationFrameRasterizer;
+  /** Defaults to the browser's WebCodecs encoder */
+  createEncoder?: VideoEncoderFactory;
+  /** Called with 0-100 as frames are rendered */
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface AnimationExportResult {
+  bytes: Uint8Array;
+  mimeType: string;
+  width: number;
+  height: number;
+  frameCount: number;
+  /** Milliseconds */
+  duration: number;
+  warnings: string[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const ANIMATION_MIME_TYPES: Record<AnimationFormat, string> = {
+  gif: 'image/gif',
+  webm: 'video/webm',
+  mp4: 'video/mp4',
+};
+
+const DEFAULT_KEY_FRAME_INTERVAL = 2;
+
+// Encoders keep a few frames in flight; more would only hold pixels in memory
+const MAX_ENCODE_QUEUE = 4;
+
+// ============================================
+// FRAME STATE
+// ============================================
+
+const numeric = (value: number | string) => {
+  const number = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * The elements as they stand at one instant of the animation. Scale is not
+ * applied here: it is a transform, see `animationScale`.
+ */
+export function applyAnimationValues(
+  elements: DesignElement[],
+  values: Map<string, InterpolatedValue[]>
+): DesignElement[] {
+  return elements.map(el => {
+    const animated = values.get(el.id);
+    if (!animated) return el;
+
+    const style: Record<string, unknown> = { ...(el.style as Record<string, unknown> | undefined) };
+    const next: DesignElement = { ...el, style };
+    for (const { property, value } of animated) {
+      const number = numeric(value);
+      switch (property) {
+        case 'x':
+        case 'y':
+        case 'width':
+        case 'height':
+        case 'rotation':
+          if (number !== undefined) next[property] = number;
+          break;
+        case 'opacity':
+        case 'strokeWidth':
+          if (number !== undefined) style[property] = number;
+          break;
+        case 'borderRadius':
+          style.borderRadius = typeof value === 'number' ? `${value}px` : value;
+          break;
+        case 'fill':
+          if (el.type === 'text') next.color = String(value);
+          else style.backgroundColor = String(value);
+          break;
+        case 'stroke':
+          style.stroke = String(value);
+          break;
+      }
+    }
+    return next;
+  });
+}
+
+/** Horizontal and vertical scale of an element at one instant */
+export function animationScale(values: InterpolatedValue[] | undefined): [number, number] {
+  let scale = 1;
+  let scaleX = 1;
+  let scaleY = 1;
+  for (const { property, value } of values ?? []) {
+    const number = numeric(value);
+    if (number === undefined) continue;
+    if (property === 'scale') scale = number;
+    if (property === 'scaleX') scaleX = number;
+    if (property === 'scaleY') scaleY = number;
+  }
+  return [scale * scaleX, scale * scaleY];
+}
+
+/** Scales prepared elements about their centres, before their own transform */
+function applyScale(design: PreparedDesign, values: Map<string, InterpolatedValue[]>): PreparedDesign {
+  return {
+    ...design,
+    elements: design.elements.map(prepared => {
+      const [sx, sy] = animationScale(values.get(prepared.element.id));
+      if (sx === 1 && sy === 1) return prepared;
+      const { width, height } = prepared.element;
+      const scale: Matrix = [sx, 0, 0, sy, (width / 2) * (1 - sx), (height / 2) * (1 - sy)];
+      return { ...prepared, matrix: multiplyMatrix(scale, prepared.matrix) };
+    }),
+  };
+}
+
+/** Loaders that hand out what the first frame loaded, so later frames fetch nothing */
+function reuseResources(design: PreparedDesign): Pick<DesignRenderOptions, 'loadFont' | 'loadImage'> {
+  const fonts = new Map(design.fonts.flatMap(font => (font.data ? [[`${font.family}|${font.weight}|${font.italic}`, font.data] as const] : [])));
+  const images = new Map(design.elements.flatMap(prepared => (prepared.image ? [[prepared.element.content, prepared.image.data] as const] : [])));
+  return {
+    loadFont: (family, weight, italic) => Promise.resolve(fonts.get(`${family}|${weight}|${italic}`) ?? null),
+    loadImage: src => {
+      const data = images.get(src);
+      return data ? Promise.resolve(data) : Promise.reject(new Error('The image did not load for the first frame'));
+    },
+  };
+}
+
+/**
+ * Frame times in ms. A looping sequence leaves out its end, which is where
+ * it starts again; one that plays once ends on its final state.
+ */
+export function getFrameTimes(sequence: AnimationSequence, fps: number): number[] {
+  if (!(fps > 0)) throw new Error('Frame rate must be greater than zero');
+  const total = Math.max(0, sequence.delay) + Math.max(0, sequence.duration);
+  const count = Math.max(1, Math.ceil((total * fps) / 1000 - 1e-9)) + (sequence.loop ? 0 : 1);
+  return Array.from({ length: count }, (_, i) => Math.min(total, (i * 1000) / fps));
+}
+
+// ============================================
+// BROWSER DEFAULTS
+// ============================================
+
+export const rasterizeFrameInBrowser: AnimationFrameRasterizer = async ({ svg, width, height }) => {
+  const canvas = await drawSVGOnCanvas(svg, width, height);
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, width, height);
+  return { width, height, data };
+};
+
+/** H.264 baseline profile, at the lowest level that fits the frame size */
+function avcCodecString(width: number, height: number): string {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  const level = macroblocks <= 3600 ? 0x1f : macroblocks <= 8192 ? 0x28 : macroblocks <= 22080 ? 0x32 : macroblocks <= 36864 ? 0x33 : 0x3c;
+  return `avc1.4200${level.toString(16)}`;
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength).slice()
+    : new Uint8Array(source).slice();
+}
+
+/** Encodes with WebCodecs: VP9 (or VP8) for WebM, H.264 for MP4 */
+export const createBrowserVideoEncoder: VideoEncoderFactory = async ({ format, width, height, fps, bitrate }) => {
+  if (typeof VideoEncoder === 'undefined') throw new Error('This browser cannot encode video');
+
+  const candidates: Array<[VideoCodec, string]> = format === 'webm'
+    ? [['vp9', 'vp09.00.40.08'], ['vp8', 'vp8']]
+    : [['avc', avcCodecString(width, height)]];
+  let chosen: { codec: VideoCodec; config: VideoEncoderConfig } | undefined;
+  for (const [codec, codecString] of candidates) {
+    const config = {
+      codec: codecString,
+      width,
+      height,
+      bitrate,
+      framerate: fps,
+      ...(codec === 'avc' && { avc: { format: 'avc' as const } }),
+    };
+    const support = await VideoEncoder.isConfigSupported(config);
+    if (support.supported) {
+      chosen = { codec, config };
+      break;
+    }
+  }
+  if (!chosen) throw new Error(`This browser cannot encode ${format === 'mp4' ? 'H.264' : 'VP8 or VP9'} video`);
+  const { codec, config } = chosen;
+
+  const frames: EncodedVideoFrame[] = [];
+  let description: Uint8Array | undefined;
+  let failure: Error | undefined;
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      frames.push({ data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, key: chunk.type === 'key' });
+      if (metadata?.decoderConfig?.description) description = toBytes(metadata.decoderConfig.description);
+    },
+    error: error => { failure = error; },
+  });
+  encoder.configure(config);
+
+  return {
+    async encode(frame, timestamp, duration, keyFrame) {
+      if (failure) throw failure;
+      const videoFrame = new VideoFrame(frame.data, {
+        format: 'RGBA',
+        codedWidth: frame.width,
+        codedHeight: frame.height,
+        timestamp,
+        duration,
+      });
+      encoder.encode(videoFrame, { keyFrame });
+      videoFrame.close();
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !failure) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+    },
+    async finish() {
+      await encoder.flush();
+      encoder.close();
+      if (failure) throw failure;
+      return { codec, width, height, description, frames };
+    },
+    close() {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+};
+
+// ============================================
+// RENDERING
+// ============================================
+
+/** Bits per second for a frame size and rate: about 0.1 bit per pixel per frame */
+const defaultBitrate = (width: number, height: number, fps: number) => Math.max(500_000, Math.round(width * height * fps * 0.1));
+
+/**
+ * Render an animation sequence over the design to an animated GIF, WebM or
+ * MP4. Frames are sampled every 1/fps seconds from the start of the
+ * sequence's delay, so the output matches the timeline frame for frame.
+ * Pass `rasterize` (and `createEncoder` for video) to render without a
+ * browser. Aborting `signal` stops at the next frame and rejects with the
+ * signal's reason.
+ */
+export async function renderAnimation(
+  elements: DesignElement[],
+  sequence: AnimationSequence,
+  options: AnimationExportOptions
+): Promise<AnimationExportResult> {
+  const {
+    format,
+    fps,
+    scale = 1,
+    keyFrameInterval = DEFAULT_KEY_FRAME_INTERVAL,
+    rasterize = rasterizeFrameInBrowser,
+    createEncoder = createBrowserVideoEncoder,
+    onProgress,
+    signal,
+  } = options;
+  if (!(scale > 0)) throw new Error('Export scale must be greater than zero');
+  signal?.throwIfAborted();
+
+  const times = getFrameTimes(sequence, fps);
+  const duration = (times.length * 1000) / fps;
+  const delay = Math.max(0, sequence.delay);
+
+  // Video codecs work on 2×2 blocks of colour, so video frames have even sizes
+  const even = (size: number) => Math.max(2, 2 * Math.round(size / 2));
+  let width = Math.max(1, Math.round(options.width * scale));
+  let height = Math.max(1, Math.round(options.height * scale));
+  if (format !== 'gif') {
+    width = even(width);
+    height = even(height);
+  }
+
+  const warnings = new Set<string>();
+  const ids = new Set(elements.map(el => el.id));
+  for (const track of sequence.tracks) {
+    if (!track.enabled || !ids.has(track.elementId)) continue;
+    if (track.property === 'blur' || track.property === 'shadow') {
+      warnings.add(`The ${track.property} animation of element ${track.elementId} is not rendered in exported frames`);
+    }
+  }
+
+  const gif = format === 'gif'
+    ? createGifEncoder({
+      width,
+      height,
+      colors: options.colors,
+      dither: options.dither,
+      repeat: sequence.loop ? Math.max(0, sequence.loopCount ?? -1) : 1,
+    })
+    : undefined;
+  const video = format === 'gif'
+    ? undefined
+    : await createEncoder({ format, width, height, fps, bitrate: options.bitrate ?? defaultBitrate(width, height, fps) });
+
+  try {
+    const keyEvery = Math.max(1, Math.round(keyFrameInterval * fps));
+    let resources: Pick<DesignRenderOptions, 'loadFont' | 'loadImage'> = { loadFont: options.loadFont, loadImage: options.loadImage };
+
+    for (let i = 0; i < times.length; i++) {
+      signal?.throwIfAborted();
+      const time = times[i]!;
+      const values = getSequenceValuesAtTime(sequence, Math.max(0, time - delay));
+
+      const prepared = await prepareDesign(applyAnimationValues(elements, values), {
+        width: options.width,
+        height: options.height,
+        background: options.background,
+        ...resources,
+      });
+      if (i === 0) resources = reuseResources(prepared);
+      prepared.warnings.forEach(warning => warnings.add(warning));
+
+      const design = applyScale(prepared, values);
+      const frame = await rasterize({ svg: designToSVG(design), width, height, fonts: design.fonts });
+      signal?.throwIfAborted();
+
+      if (gif) {
+        gif.addFrame(frame, time);
+      } else {
+        const timestamp = Math.round((i * 1_000_000) / fps);
+        const next = Math.round(((i + 1) * 1_000_000) / fps);
+        await video!.encode(frame, timestamp, next - timestamp, i % keyEvery === 0);
+      }
+      onProgress?.(Math.round(((i + 1) / times.length) * 99));
+    }
+
+    let bytes: Uint8Array;
+    if (gif) {
+      bytes = gif.finish(duration);
+    } else {
+      const track = await video!.finish();
+      bytes = format === 'webm' ? muxWebM(track) : muxMP4(track);
+    }
+    onProgress?.(100);
+
+    return {
+      bytes,
+      mimeType: ANIMATION_MIME_TYPES[format],
+      width,
+      height,
+      frameCount: times.length,
+      duration,
+      warnings: [...warnings],
+    };
+  } finally {
+    video?.close();
+  }
+}
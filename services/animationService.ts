@@ -21,6 +21,8 @@ import type {
   InterpolatedValue
 } from '../types/animation';
 import type { DesignElement } from '../types';
+import { lottieToSequence, sequenceToLottie } from './lottieFormat';
+import type { LottieExportResult, LottieImportResult } from './lottieFormat';
 
 // ============================================================================
 // STORAGE KEYS
@@ -32,6 +34,37 @@ const STORAGE_KEYS = {
   CUSTOM_PRESETS: 'lumina_animation_presets'
 };
 
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+/**
+ * Interpolated values of every enabled track of a sequence at a time in ms,
+ * grouped by element
+ */
+export function getSequenceValuesAtTime(sequence: AnimationSequence, time: number): Map<string, InterpolatedValue[]> {
+  const result = new Map<string, InterpolatedValue[]>();
+
+  sequence.tracks.forEach(track => {
+    if (!track.enabled || track.keyframes.length === 0) return;
+
+    const value = getValueAtTime(track.keyframes, time);
+    if (value === null) return;
+
+    if (!result.has(track.elementId)) {
+      result.set(track.elementId, []);
+    }
+
+    result.get(track.elementId)!.push({
+      property: track.property,
+      value,
+      time
+    });
+  });
+
+  return result;
+}
+
 // ============================================================================
 // ANIMATION MANAGER
 // ============================================================================
@@ -581,27 +614,7 @@ class AnimationManager {
     const sequence = this.getActiveSequence();
     if (!sequence) return new Map();
 
-    const t = time ?? this.playbackState.currentTime;
-    const result = new Map<string, InterpolatedValue[]>();
-
-    sequence.tracks.forEach(track => {
-      if (!track.enabled || track.keyframes.length === 0) return;
-
-      const value = getValueAtTime(track.keyframes, t);
-      if (value === null) return;
-
-      if (!result.has(track.elementId)) {
-        result.set(track.elementId, []);
-      }
-
-      result.get(track.elementId)!.push({
-        property: track.property,
-        value,
-        time: t
-      });
-    });
-
-    return result;
+    return getSequenceValuesAtTime(sequence, time ?? this.playbackState.currentTime);
   }
 
   // ============================================================================
@@ -801,6 +814,35 @@ class AnimationManager {
     return lines.join('\n');
   }
 
+  /**
+   * Export animation as Lottie (Bodymovin) JSON, at the project's frame rate
+   */
+  exportToLottie(
+    sequenceId: string,
+    elements: DesignElement[],
+    size: { width: number; height: number }
+  ): LottieExportResult | null {
+    const sequence = this.project.sequences.find(s => s.id === sequenceId);
+    if (!sequence) return null;
+
+    return sequenceToLottie(sequence, elements, { ...size, fps: this.project.fps });
+  }
+
+  /**
+   * Import a Lottie file as a new active sequence. The caller adds the
+   * returned elements to the design; `unsupported` lists what was left out.
+   */
+  importFromLottie(source: string | object): LottieImportResult {
+    const result = lottieToSequence(source);
+
+    this.project.sequences.push(result.sequence);
+    this.project.activeSequenceId = result.sequence.id;
+    this.saveToStorage();
+    this.onSequenceChange?.(result.sequence);
+
+    return result;
+  }
+
   private propertyToCss(property: AnimatableProperty): string {
     const map: Record<AnimatableProperty, string> = {
       x: 'transform: translateX',
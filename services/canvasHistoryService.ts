@@ -41,6 +41,8 @@ export interface HistoryEntry {
   changedElements: string[];
   delta?: StateDelta;
   parentVersion?: number;
+  parentBranch?: string;
+  mergeSource?: BranchVersion;
   branchName: string;
   isCheckpoint: boolean;
   isAutosave: boolean;
@@ -76,6 +78,41 @@ export interface Branch {
   lastModified: Date;
 }
 
+export interface BranchVersion {
+  branch: string;
+  version: number;
+}
+
+export type MergeResolution = 'ours' | 'theirs';
+
+export interface CanvasMergeConflict {
+  id: string;
+  elementId: string;
+  // 'delete': one side removed the element while the other changed it
+  kind: 'property' | 'delete';
+  property?: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface CanvasMergeResult {
+  state: CanvasState;
+  conflicts: CanvasMergeConflict[];
+  changedElements: string[];
+}
+
+export interface MergePreview extends CanvasMergeResult {
+  sourceBranch: string;
+  targetBranch: string;
+  mergeBase: BranchVersion | null;
+  sourceVersion: number;
+  targetEntryId: string;
+  baseState: CanvasState;
+  oursState: CanvasState;
+  theirsState: CanvasState;
+}
+
 export interface HistoryNavigationResult {
   success: boolean;
   entry?: HistoryEntry;
@@ -83,6 +120,101 @@ export interface HistoryNavigationResult {
   error?: string;
 }
 
+// ============================================
+// Merge Base
+// ============================================
+
+export type HistoryGraphNode = Pick<
+  HistoryEntry,
+  'branchName' | 'versionNumber' | 'parentVersion' | 'parentBranch' | 'mergeSource'
+>;
+
+interface HistoryGraphRow {
+  branch_name: string;
+  version_number: number;
+  parent_version: number | null;
+  parent_branch: string | null;
+  merge_source_branch: string | null;
+  merge_source_version: number | null;
+}
+
+interface HistoryRow extends HistoryGraphRow {
+  id: string;
+  project_id: string;
+  action_label: string;
+  action_type: HistoryActionType;
+  canvas_state: CanvasState;
+  thumbnail_url: string | null;
+  changed_elements: string[] | null;
+  delta: StateDelta | null;
+  is_checkpoint: boolean;
+  is_autosave: boolean;
+  created_at: string;
+}
+
+const nodeKey = (point: BranchVersion) => `${point.branch}@${point.version}`;
+
+function mergeSourceOf(row: Pick<HistoryGraphRow, 'merge_source_branch' | 'merge_source_version'>): BranchVersion | undefined {
+  return row.merge_source_branch && row.merge_source_version !== null
+    ? { branch: row.merge_source_branch, version: row.merge_source_version }
+    : undefined;
+}
+
+function nodeParents(node: HistoryGraphNode): BranchVersion[] {
+  const parents: BranchVersion[] = [];
+
+  if (node.parentVersion !== undefined) {
+    if (node.parentBranch && node.parentBranch !== node.branchName) {
+      parents.push({ branch: node.parentBranch, version: node.parentVersion });
+    } else if (!node.parentBranch && node.branchName !== 'main' && node.versionNumber === 1) {
+      // Branches created before parent_branch was recorded came from main
+      parents.push({ branch: 'main', version: node.parentVersion });
+    } else {
+      parents.push({ branch: node.branchName, version: node.parentVersion });
+    }
+  }
+
+  if (node.mergeSource) parents.push(node.mergeSource);
+  return parents;
+}
+
+/**
+ * Lowest common ancestor of two history entries, following branch points
+ * and earlier merges. Returns null if the histories never meet.
+ */
+export function findMergeBase(
+  nodes: HistoryGraphNode[],
+  ours: BranchVersion,
+  theirs: BranchVersion
+): BranchVersion | null {
+  const byKey = new Map(nodes.map(n => [nodeKey({ branch: n.branchName, version: n.versionNumber }), n]));
+
+  const ancestors = (start: BranchVersion): Map<string, BranchVersion> => {
+    const seen = new Map<string, BranchVersion>();
+    const queue = [start];
+    while (queue.length > 0) {
+      const point = queue.shift()!;
+      const key = nodeKey(point);
+      if (seen.has(key)) continue;
+      seen.set(key, point);
+
+      const node = byKey.get(key);
+      if (node) queue.push(...nodeParents(node));
+    }
+    return seen;
+  };
+
+  const oursAncestors = ancestors(ours);
+  const common = Array.from(ancestors(theirs).entries()).filter(([key]) => oursAncestors.has(key));
+
+  // Drop common ancestors that are behind another common ancestor
+  const best = common.filter(([key]) =>
+    !common.some(([otherKey, other]) => otherKey !== key && ancestors(other).has(key))
+  );
+
+  return best[0]?.[1] || null;
+}
+
 // ============================================
 // Canvas History Service Class
 // ============================================
@@ -186,7 +318,7 @@ class CanvasHistoryService {
     this.notifyHistoryChange();
 
     // Sync to database (async, don't await)
-    this.syncToDatabase(entry);
+    this.syncToDatabase(entry).catch(error => console.error('Failed to sync history to database:', error));
 
     return entry;
   }
@@ -273,7 +405,7 @@ class CanvasHistoryService {
     entry.isCheckpoint = true;
 
     // Update in database
-    this.syncToDatabase(entry);
+    this.syncToDatabase(entry).catch(error => console.error('Failed to sync history to database:', error));
 
     return entry;
   }
@@ -308,6 +440,7 @@ class CanvasHistoryService {
         canvas_state: currentEntry.canvasState,
         changed_elements: [],
         parent_version: currentEntry.versionNumber,
+        parent_branch: this.currentBranch,
         branch_name: branchName,
         is_checkpoint: true,
         is_autosave: false,
@@ -368,7 +501,7 @@ class CanvasHistoryService {
     // Group by branch
     const branchMap = new Map<string, Branch>();
 
-    for (const row of data) {
+    for (const row of data as Array<Pick<HistoryRow, 'branch_name' | 'version_number' | 'created_at'>>) {
       const existing = branchMap.get(row.branch_name);
       if (!existing || row.version_number > existing.headVersion) {
         branchMap.set(row.branch_name, {
@@ -383,24 +516,246 @@ class CanvasHistoryService {
     return Array.from(branchMap.values());
   }
 
+  /**
+   * Three-way merge of another branch into the current position.
+   * Returns false when the merge has conflicts that need resolving;
+   * use prepareMerge/commitMerge to resolve them.
+   */
   async mergeBranch(sourceBranch: string): Promise<boolean> {
-    if (!this.currentProjectId || sourceBranch === this.currentBranch) return false;
+    const preview = await this.prepareMerge(sourceBranch);
+    if (!preview || preview.conflicts.length > 0) return false;
+
+    this.commitMerge(preview);
+    return true;
+  }
+
+  /**
+   * Find the common ancestor of the current entry and the source branch head,
+   * merge both sides' changes and report conflicting properties
+   */
+  async prepareMerge(sourceBranch: string): Promise<MergePreview | null> {
+    if (!this.currentProjectId || sourceBranch === this.currentBranch) return null;
+
+    const currentEntry = this.getCurrentEntry();
+    if (!currentEntry) return null;
 
     // Load source branch head
     const sourceHistory = await this.loadBranchHistory(sourceBranch);
-    if (sourceHistory.length === 0) return false;
-
     const sourceHead = sourceHistory[sourceHistory.length - 1];
+    if (!sourceHead) return null;
+
+    const graph = await this.loadHistoryGraph();
+    const mergeBase = findMergeBase(
+      graph,
+      { branch: this.currentBranch, version: currentEntry.versionNumber },
+      { branch: sourceBranch, version: sourceHead.versionNumber }
+    );
 
-    // Create merge entry in current branch
-    this.pushState(
-      sourceHead.canvasState,
-      `Merged from branch: ${sourceBranch}`,
+    const baseState = mergeBase
+      ? await this.loadStateAt(mergeBase)
+      : { ...currentEntry.canvasState, elements: [] };
+    if (!baseState) return null;
+
+    const result = this.mergeCanvasStates(baseState, currentEntry.canvasState, sourceHead.canvasState);
+
+    return {
+      ...result,
+      sourceBranch,
+      targetBranch: this.currentBranch,
+      mergeBase,
+      sourceVersion: sourceHead.versionNumber,
+      targetEntryId: currentEntry.id,
+      baseState,
+      oursState: currentEntry.canvasState,
+      theirsState: sourceHead.canvasState,
+    };
+  }
+
+  /**
+   * Commit a prepared merge. Every conflict needs a resolution.
+   */
+  commitMerge(preview: MergePreview, resolutions: Record<string, MergeResolution> = {}): HistoryEntry {
+    if (this.getCurrentEntry()?.id !== preview.targetEntryId) {
+      throw new Error('History changed since the merge was prepared');
+    }
+
+    const unresolved = preview.conflicts.filter(conflict => !resolutions[conflict.id]);
+    if (unresolved.length > 0) {
+      throw new Error(`${unresolved.length} merge conflict${unresolved.length === 1 ? '' : 's'} unresolved`);
+    }
+
+    const { state, changedElements } = this.mergeCanvasStates(
+      preview.baseState,
+      preview.oursState,
+      preview.theirsState,
+      resolutions
+    );
+
+    const entry = this.pushState(
+      state,
+      `Merged from branch: ${preview.sourceBranch}`,
       'bulk',
-      sourceHead.changedElements
+      changedElements
     );
+    entry.mergeSource = { branch: preview.sourceBranch, version: preview.sourceVersion };
 
-    return true;
+    // Update in database
+    void this.syncToDatabase(entry);
+
+    return entry;
+  }
+
+  /**
+   * Merge per-element property deltas of two states against their common base.
+   * Conflicting properties take the resolution given for them, or ours by default.
+   */
+  mergeCanvasStates(
+    base: CanvasState,
+    ours: CanvasState,
+    theirs: CanvasState,
+    resolutions: Record<string, MergeResolution> = {}
+  ): CanvasMergeResult {
+    const oursDelta = this.calculateDelta(base, ours);
+    const theirsDelta = this.calculateDelta(base, theirs);
+
+    const baseMap = new Map(base.elements.map(e => [e.id, e]));
+    const oursMap = new Map(ours.elements.map(e => [e.id, e]));
+    const theirsMap = new Map(theirs.elements.map(e => [e.id, e]));
+    const oursModified = new Map((oursDelta.modified || []).map(m => [m.id, m]));
+    const theirsModified = new Map((theirsDelta.modified || []).map(m => [m.id, m]));
+
+    const conflicts: CanvasMergeConflict[] = [];
+    const merged = new Map<string, CanvasElement | null>();
+    const changed = new Set<string>();
+
+    const pick = (conflict: CanvasMergeConflict): MergeResolution => {
+      conflicts.push(conflict);
+      return resolutions[conflict.id] || 'ours';
+    };
+
+    // Properties changed on both sides against the same base
+    const mergeProperties = (
+      id: string,
+      start: CanvasElement,
+      oursChanges: Partial<CanvasElement>,
+      theirsChanges: Partial<CanvasElement>,
+      baseValues: Partial<CanvasElement>
+    ): CanvasElement => {
+      const result: Record<string, unknown> = { ...start, ...oursChanges };
+      let theirsApplied = false;
+
+      for (const [key, value] of Object.entries(theirsChanges)) {
+        if (!(key in oursChanges)) {
+          result[key] = value;
+          theirsApplied = true;
+          continue;
+        }
+
+        const oursValue = (oursChanges as Record<string, unknown>)[key];
+        if (JSON.stringify(oursValue) === JSON.stringify(value)) continue;
+
+        const resolution = pick({
+          id: `${id}:${key}`,
+          elementId: id,
+          kind: 'property',
+          property: key,
+          base: (baseValues as Record<string, unknown>)[key],
+          ours: oursValue,
+          theirs: value,
+        });
+        if (resolution === 'theirs') {
+          result[key] = value;
+          theirsApplied = true;
+        }
+      }
+
+      for (const key of Object.keys(result)) {
+        if (result[key] === undefined) delete result[key];
+      }
+      if (theirsApplied) changed.add(id);
+      return result as CanvasElement;
+    };
+
+    for (const element of theirsDelta.added || []) {
+      const oursElement = oursMap.get(element.id);
+      if (!oursElement) {
+        merged.set(element.id, element);
+        changed.add(element.id);
+      } else {
+        // Added on both sides: compare the two versions property by property
+        const diff = this.getChangedProperties(oursElement, element);
+        merged.set(element.id, mergeProperties(element.id, oursElement, diff.before, diff.after, {}));
+      }
+    }
+
+    for (const [id, baseElement] of baseMap) {
+      const oursElement = oursMap.get(id);
+      const theirsElement = theirsMap.get(id);
+      const oursChange = oursModified.get(id);
+      const theirsChange = theirsModified.get(id);
+
+      if (!oursElement && !theirsElement) continue;
+
+      if (!oursElement || !theirsElement) {
+        // Deleted on one side: fine unless the other side changed it
+        const survivorChange = oursElement ? oursChange : theirsChange;
+        if (!survivorChange) {
+          merged.set(id, null);
+          if (!theirsElement) changed.add(id);
+          continue;
+        }
+
+        const resolution = pick({
+          id: `${id}:delete`,
+          elementId: id,
+          kind: 'delete',
+          base: baseElement,
+          ours: oursElement,
+          theirs: theirsElement,
+        });
+        merged.set(id, resolution === 'ours' ? oursElement || null : theirsElement || null);
+        if (resolution === 'theirs') changed.add(id);
+        continue;
+      }
+
+      if (theirsChange) {
+        merged.set(id, mergeProperties(id, oursElement, oursChange?.after || {}, theirsChange.after, theirsChange.before));
+      }
+    }
+
+    // Ours keeps its order; elements new in theirs follow their predecessor there
+    const elements: CanvasElement[] = [];
+    for (const element of ours.elements) {
+      const result = merged.has(element.id) ? merged.get(element.id) : element;
+      if (result) elements.push(result);
+    }
+    theirs.elements.forEach((element, index) => {
+      if (oursMap.has(element.id) || baseMap.has(element.id)) return;
+      const result = merged.get(element.id);
+      if (!result) return;
+
+      const previous = theirs.elements[index - 1];
+      const at = previous ? elements.findIndex(e => e.id === previous.id) : -1;
+      elements.splice(at + 1, 0, result);
+    });
+    for (const [id, result] of merged) {
+      // Deleted by us but kept by resolving a conflict in favour of theirs
+      if (result && !oursMap.has(id) && baseMap.has(id)) elements.push(result);
+    }
+
+    const oursGuides = new Set((ours.guides || []).map(g => g.id));
+    const baseGuides = new Set((base.guides || []).map(g => g.id));
+    const addedGuides = (theirs.guides || []).filter(g => !oursGuides.has(g.id) && !baseGuides.has(g.id));
+
+    return {
+      state: this.cloneState({
+        ...ours,
+        elements,
+        ...(ours.guides || addedGuides.length > 0 ? { guides: [...(ours.guides || []), ...addedGuides] } : {}),
+      }),
+      conflicts,
+      changedElements: Array.from(changed),
+    };
   }
 
   // ============================================
@@ -411,7 +766,7 @@ class CanvasHistoryService {
     if (this.autosaveTimer) return;
 
     this.autosaveTimer = window.setInterval(() => {
-      this.performAutosave();
+      this.performAutosave().catch(error => console.error('Autosave failed:', error));
     }, this.AUTOSAVE_INTERVAL);
   }
 
@@ -638,6 +993,9 @@ class CanvasHistoryService {
         changed_elements: entry.changedElements,
         delta: entry.delta,
         parent_version: entry.parentVersion,
+        parent_branch: entry.parentBranch,
+        merge_source_branch: entry.mergeSource?.branch,
+        merge_source_version: entry.mergeSource?.version,
         branch_name: entry.branchName,
         is_checkpoint: entry.isCheckpoint,
         is_autosave: entry.isAutosave,
@@ -682,17 +1040,19 @@ class CanvasHistoryService {
       return [];
     }
 
-    return data.map(row => ({
+    return (data as HistoryRow[]).map(row => ({
       id: row.id,
       projectId: row.project_id,
       versionNumber: row.version_number,
       actionLabel: row.action_label,
-      actionType: row.action_type as HistoryActionType,
-      canvasState: row.canvas_state as CanvasState,
-      thumbnailUrl: row.thumbnail_url,
+      actionType: row.action_type,
+      canvasState: row.canvas_state,
+      thumbnailUrl: row.thumbnail_url ?? undefined,
       changedElements: row.changed_elements || [],
-      delta: row.delta as StateDelta | undefined,
-      parentVersion: row.parent_version,
+      delta: row.delta ?? undefined,
+      parentVersion: row.parent_version ?? undefined,
+      parentBranch: row.parent_branch || undefined,
+      mergeSource: mergeSourceOf(row),
       branchName: row.branch_name,
       isCheckpoint: row.is_checkpoint,
       isAutosave: row.is_autosave,
@@ -700,6 +1060,59 @@ class CanvasHistoryService {
     }));
   }
 
+  private async loadHistoryGraph(): Promise<HistoryGraphNode[]> {
+    if (!this.currentProjectId) return [];
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('canvas_history')
+      .select('branch_name, version_number, parent_version, parent_branch, merge_source_branch, merge_source_version')
+      .eq('user_id', user.id)
+      .eq('project_id', this.currentProjectId)
+      .eq('is_autosave', false);
+
+    if (error || !data) {
+      console.error('Failed to load history graph:', error);
+      return [];
+    }
+
+    return (data as HistoryGraphRow[]).map(row => ({
+      branchName: row.branch_name,
+      versionNumber: row.version_number,
+      parentVersion: row.parent_version ?? undefined,
+      parentBranch: row.parent_branch || undefined,
+      mergeSource: mergeSourceOf(row),
+    }));
+  }
+
+  private async loadStateAt(point: BranchVersion): Promise<CanvasState | null> {
+    const local = this.localHistory.find(
+      e => e.branchName === point.branch && e.versionNumber === point.version
+    );
+    if (local) return local.canvasState;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || !this.currentProjectId) return null;
+
+    const { data, error } = await supabase
+      .from('canvas_history')
+      .select('canvas_state')
+      .eq('user_id', user.id)
+      .eq('project_id', this.currentProjectId)
+      .eq('branch_name', point.branch)
+      .eq('version_number', point.version)
+      .single();
+
+    if (error || !data) {
+      console.error('Failed to load merge base:', error);
+      return null;
+    }
+
+    return (data as { canvas_state: CanvasState }).canvas_state;
+  }
+
   // ============================================
   // Utilities
   // ============================================
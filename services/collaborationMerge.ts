@@ -0,0 +1,281 @@
+/**
+ * Collaboration Merge
+ *
+ * Deterministic merge of concurrent design operations:
+ * - Total order that respects causality (vector clocks), ties broken by user and ID
+ * - Last-writer-wins per element property and per style key
+ * - Deletes win over concurrent edits
+ * - Z-order collisions resolved by operation order
+ *
+ * Every replica that sees the same set of operations converges on the same
+ * elements, whatever order the operations arrived in.
+ */
+
+import type { DesignElement } from '../types';
+import type {
+  CollaborationOperation,
+  ElementOperationData,
+  MergeConflict,
+  MergedDesignState,
+} from '../types/collaboration';
+
+const ELEMENT_TARGET = 'element';
+
+interface ElementRecord {
+  element: DesignElement | null;
+  createdBy: CollaborationOperation | null;
+  deletedBy: CollaborationOperation | null;
+  writers: Map<string, CollaborationOperation>;
+  zStamp: number;
+}
+
+// ============================================
+// Ordering
+// ============================================
+
+function clockSum(clock: Record<string, number> | null | undefined): number {
+  return Object.values(clock ?? {}).reduce((sum, tick) => sum + tick, 0);
+}
+
+/**
+ * True if a is in b's causal past
+ */
+export function happenedBefore(a: CollaborationOperation, b: CollaborationOperation): boolean {
+  const before = a.vector_clock ?? {};
+  const after = b.vector_clock ?? {};
+  let strictly = false;
+
+  for (const user of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const x = before[user] ?? 0;
+    const y = after[user] ?? 0;
+    if (x > y) return false;
+    if (x < y) strictly = true;
+  }
+
+  return strictly;
+}
+
+export function isConcurrent(a: CollaborationOperation, b: CollaborationOperation): boolean {
+  return a.id !== b.id && !happenedBefore(a, b) && !happenedBefore(b, a);
+}
+
+/**
+ * Total order over operations. An operation's clock sum grows with each
+ * causal step, so sorting by it first never puts an effect before its cause.
+ */
+export function compareOperations(a: CollaborationOperation, b: CollaborationOperation): number {
+  const bySum = clockSum(a.vector_clock) - clockSum(b.vector_clock);
+  if (bySum !== 0) return bySum;
+  if (a.user_id !== b.user_id) return a.user_id < b.user_id ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+// ============================================
+// Replay
+// ============================================
+
+function elementChanges(operation: CollaborationOperation): Record<string, unknown> | null {
+  const data = operation.operation_data as ElementOperationData;
+
+  switch (operation.operation_type) {
+    case 'update':
+    case 'transform':
+    case 'style':
+      return data.changes ?? {};
+    case 'move':
+      return typeof data.zIndex === 'number' ? { zIndex: data.zIndex } : null;
+    default:
+      return null;
+  }
+}
+
+function conflictKey(conflict: MergeConflict): string {
+  return [conflict.kind, conflict.elementId, conflict.property ?? '', conflict.winner.id, conflict.loser.id].join('|');
+}
+
+/**
+ * Replay operations on top of a base snapshot.
+ * Only operations with target_type 'element' are applied; duplicates are ignored.
+ */
+export function mergeOperations(
+  operations: CollaborationOperation[],
+  base: DesignElement[] = []
+): MergedDesignState {
+  const records = new Map<string, ElementRecord>();
+  const conflicts: MergeConflict[] = [];
+
+  for (const element of base) {
+    records.set(element.id, {
+      element: { ...element },
+      createdBy: null,
+      deletedBy: null,
+      writers: new Map(),
+      zStamp: -1,
+    });
+  }
+
+  const unique = new Map(operations.map(op => [op.id, op]));
+  const ordered = [...unique.values()]
+    .filter(op => op.target_type === ELEMENT_TARGET)
+    .sort(compareOperations);
+
+  ordered.forEach((operation, sequence) => {
+    const data = operation.operation_data as ElementOperationData;
+    const elementId = operation.target_id ?? data.element?.id;
+    if (!elementId) return;
+
+    const record = records.get(elementId);
+
+    if (operation.operation_type === 'insert') {
+      if (!data.element) return;
+      if (record?.element && record.createdBy && isConcurrent(record.createdBy, operation)) {
+        conflicts.push({ kind: 'insert', elementId, winner: operation, loser: record.createdBy });
+      }
+      records.set(elementId, {
+        element: { ...data.element, id: elementId },
+        createdBy: operation,
+        deletedBy: null,
+        writers: new Map(),
+        zStamp: sequence,
+      });
+      return;
+    }
+
+    if (!record) return;
+
+    if (operation.operation_type === 'delete') {
+      if (!record.element) return;
+      const losers = new Set([...record.writers.values()].filter(writer => isConcurrent(writer, operation)));
+      for (const loser of losers) {
+        conflicts.push({ kind: 'delete', elementId, winner: operation, loser });
+      }
+      record.element = null;
+      record.deletedBy = operation;
+      return;
+    }
+
+    const changes = elementChanges(operation);
+    if (!changes) return;
+
+    if (!record.element) {
+      if (record.deletedBy && isConcurrent(record.deletedBy, operation)) {
+        conflicts.push({ kind: 'delete', elementId, winner: record.deletedBy, loser: operation });
+      }
+      return;
+    }
+
+    const isStyle = operation.operation_type === 'style';
+    const element: Record<string, unknown> = record.element as unknown as Record<string, unknown>;
+    const style: Record<string, unknown> = isStyle
+      ? { ...((record.element.style as Record<string, unknown> | undefined) ?? {}) }
+      : {};
+
+    for (const [key, value] of Object.entries(changes)) {
+      if (!isStyle && key === 'id') continue;
+
+      const property = isStyle ? `style.${key}` : key;
+      const previous = record.writers.get(property);
+      if (previous && previous.user_id !== operation.user_id && isConcurrent(previous, operation)) {
+        conflicts.push({ kind: 'property', elementId, property, winner: operation, loser: previous });
+      }
+      record.writers.set(property, operation);
+
+      const target = isStyle ? style : element;
+      if (value === null) {
+        delete target[key];
+      } else {
+        target[key] = value;
+      }
+      if (property === 'zIndex') record.zStamp = sequence;
+    }
+
+    if (isStyle) record.element.style = style;
+  });
+
+  return { elements: orderElements(records), conflicts };
+}
+
+/**
+ * Stack live elements by zIndex. Equal zIndex values (two users moving
+ * different elements into the same slot) are separated in operation order.
+ */
+function orderElements(records: Map<string, ElementRecord>): DesignElement[] {
+  const live = [...records.values()].filter(
+    (record): record is ElementRecord & { element: DesignElement } => record.element !== null
+  );
+
+  live.sort((a, b) =>
+    a.element.zIndex - b.element.zIndex ||
+    a.zStamp - b.zStamp ||
+    (a.element.id < b.element.id ? -1 : a.element.id > b.element.id ? 1 : 0)
+  );
+
+  let previous = -Infinity;
+  return live.map(({ element }) => {
+    const zIndex = element.zIndex > previous ? element.zIndex : previous + 1;
+    previous = zIndex;
+    return zIndex === element.zIndex ? element : { ...element, zIndex };
+  });
+}
+
+// ============================================
+// Operation Log
+// ============================================
+
+/**
+ * Accumulates operations as they arrive and reports each conflict once
+ */
+export class OperationLog {
+  private operations = new Map<string, CollaborationOperation>();
+  private reported = new Set<string>();
+  private base: DesignElement[];
+  private state: MergedDesignState;
+
+  constructor(base: DesignElement[] = []) {
+    this.base = base;
+    this.state = { elements: base.map(element => ({ ...element })), conflicts: [] };
+  }
+
+  /**
+   * Add operations and return conflicts not reported before
+   */
+  add(...operations: CollaborationOperation[]): MergeConflict[] {
+    let changed = false;
+    for (const operation of operations) {
+      if (!this.operations.has(operation.id)) {
+        this.operations.set(operation.id, operation);
+        changed = true;
+      }
+    }
+    if (!changed) return [];
+
+    this.state = mergeOperations([...this.operations.values()], this.base);
+
+    const fresh = this.state.conflicts.filter(conflict => !this.reported.has(conflictKey(conflict)));
+    fresh.forEach(conflict => this.reported.add(conflictKey(conflict)));
+    return fresh;
+  }
+
+  has(operationId: string): boolean {
+    return this.operations.has(operationId);
+  }
+
+  get size(): number {
+    return this.operations.size;
+  }
+
+  getState(): MergedDesignState {
+    return this.state;
+  }
+
+  /**
+   * Start over from a new snapshot, dropping all operations
+   */
+  reset(base: DesignElement[] = []): void {
+    this.operations.clear();
+    this.reported.clear();
+    this.base = base;
+    this.state = { elements: base.map(element => ({ ...element })), conflicts: [] };
+  }
+}
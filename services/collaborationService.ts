@@ -4,6 +4,8 @@
 
 import { supabase } from '../lib/supabase';
 import type { RealtimeChannel, RealtimePresenceState } from '@supabase/supabase-js';
+import type { DesignElement } from '../types';
+import { OperationLog } from './collaborationMerge';
 import {
   generateRandomColor,
   ACTIVITY_LABELS
@@ -33,7 +35,9 @@ import type {
   OperationType,
   CollaborationVersion,
   RoomInvitation,
-  RoomPresenceState
+  RoomPresenceState,
+  MergeConflict,
+  MergedDesignState
 } from '../types/collaboration';
 
 // ============================================================================
@@ -45,6 +49,8 @@ const STORAGE_KEYS = {
   CACHED_SESSIONS: 'lumina_collab_sessions'
 };
 
+const OPERATION_PAGE_SIZE = 500;
+
 // ============================================================================
 // COLLABORATION MANAGER
 // ============================================================================
@@ -613,6 +619,7 @@ class RoomCollaborationManager {
   private currentRoom: CollaborationRoom | null = null;
   private userId: string | null = null;
   private vectorClock: Record<string, number> = {};
+  private operationLog = new OperationLog();
 
   // State
   private roomPresence: RoomPresenceState = {
@@ -625,6 +632,7 @@ class RoomCollaborationManager {
   // Callbacks
   private onPresenceChange: ((state: RoomPresenceState) => void) | null = null;
   private onOperationReceived: ((operation: CollaborationOperation) => void) | null = null;
+  private onConflict: ((conflicts: MergeConflict[]) => void) | null = null;
   private onCommentChange: ((comment: any, action: 'insert' | 'update' | 'delete') => void) | null = null;
   private onConnectionChange: ((connected: boolean) => void) | null = null;
   private onError: ((error: string) => void) | null = null;
@@ -839,6 +847,7 @@ class RoomCollaborationManager {
     this.roomChannel.on('broadcast', { event: 'operation' }, ({ payload }) => {
       if (payload.user_id !== this.userId) {
         this.mergeVectorClock(payload.vector_clock);
+        this.recordOperations([payload as CollaborationOperation]);
         this.onOperationReceived?.(payload);
       }
     });
@@ -900,6 +909,7 @@ class RoomCollaborationManager {
     this.currentRoom = null;
     this.userId = null;
     this.vectorClock = {};
+    this.operationLog.reset();
     this.isConnected = false;
     this.roomPresence = {
       participants: [],
@@ -1018,6 +1028,8 @@ class RoomCollaborationManager {
       return null;
     }
 
+    this.recordOperations([data as CollaborationOperation]);
+
     // Broadcast to others
     if (this.roomChannel && this.isConnected) {
       this.roomChannel.send({
@@ -1031,9 +1043,10 @@ class RoomCollaborationManager {
   }
 
   /**
-   * Get operation history
+   * Get operation history, oldest first. Operations sharing a timestamp are
+   * ordered by id, so `offset` pages through them without gaps.
    */
-  async getOperationHistory(since?: Date, limit = 100): Promise<CollaborationOperation[]> {
+  async getOperationHistory(since?: Date, limit = 100, offset = 0): Promise<CollaborationOperation[]> {
     if (!this.currentRoom) return [];
 
     let query = supabase
@@ -1041,7 +1054,8 @@ class RoomCollaborationManager {
       .select('*')
       .eq('room_id', this.currentRoom.id)
       .order('server_timestamp', { ascending: true })
-      .limit(limit);
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
 
     if (since) {
       query = query.gte('server_timestamp', since.toISOString());
@@ -1058,10 +1072,35 @@ class RoomCollaborationManager {
     for (const op of data || []) {
       this.mergeVectorClock(op.vector_clock);
     }
+    this.recordOperations((data || []) as CollaborationOperation[]);
 
     return data || [];
   }
 
+  /**
+   * Rebuild the merged design state from the full operation history,
+   * starting from a snapshot of the elements
+   */
+  async replayOperations(base: DesignElement[] = []): Promise<MergedDesignState> {
+    this.operationLog.reset(base);
+
+    // Page by position rather than timestamp: a burst of operations can share
+    // one server_timestamp and span several pages
+    for (let offset = 0; ; offset += OPERATION_PAGE_SIZE) {
+      const page = await this.getOperationHistory(undefined, OPERATION_PAGE_SIZE, offset);
+      if (page.length < OPERATION_PAGE_SIZE) break;
+    }
+
+    return this.operationLog.getState();
+  }
+
+  /**
+   * Merged design state from the operations seen so far
+   */
+  getMergedState(): MergedDesignState {
+    return this.operationLog.getState();
+  }
+
   // ============================================================================
   // COMMENTS
   // ============================================================================
@@ -1328,6 +1367,10 @@ class RoomCollaborationManager {
     this.onOperationReceived = callback;
   }
 
+  setOnConflict(callback: (conflicts: MergeConflict[]) => void): void {
+    this.onConflict = callback;
+  }
+
   setOnCommentChange(callback: (comment: any, action: 'insert' | 'update' | 'delete') => void): void {
     this.onCommentChange = callback;
   }
@@ -1395,6 +1438,13 @@ class RoomCollaborationManager {
     this.onPresenceChange?.(this.roomPresence);
   }
 
+  private recordOperations(operations: CollaborationOperation[]): void {
+    const conflicts = this.operationLog.add(...operations);
+    if (conflicts.length > 0) {
+      this.onConflict?.(conflicts);
+    }
+  }
+
   private mergeVectorClock(remoteClock: Record<string, number>): void {
     for (const [userId, timestamp] of Object.entries(remoteClock)) {
       this.vectorClock[userId] = Math.max(
@@ -0,0 +1,394 @@
+// =============================================
+// Design Actions
+// Schema, validation and application of AI design actions
+// =============================================
+
+import type { DesignElement } from '../types';
+import type { CommandResponse, CommandType, DesignAction } from './aiDesignAssistantService';
+import type { JsonSchema } from './aiProvider';
+
+// =============================================
+// Types
+// =============================================
+
+export type { JsonSchema };
+
+export interface PropertyChange {
+  property: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ElementChange {
+  elementId: string;
+  kind: 'create' | 'update' | 'delete';
+  label: string;
+  properties: PropertyChange[];
+}
+
+export interface DesignActionPreview {
+  elements: DesignElement[];
+  changes: ElementChange[];
+}
+
+export interface SerializedDesignContext {
+  canvas?: { width: number; height: number };
+  selection: string[];
+  elements: Array<Partial<DesignElement>>;
+}
+
+// =============================================
+// Schema
+// =============================================
+
+const COMMAND_TYPES: readonly CommandType[] = ['generate', 'edit', 'style', 'layout', 'content'];
+
+const ACTION_TYPES: ReadonlyArray<DesignAction['type']> = ['create', 'update', 'delete', 'move', 'style', 'group'];
+
+/** DesignElement fields the model may set */
+const ELEMENT_PROPERTIES: Record<string, JsonSchema> = {
+  id: { type: 'string', description: 'Only for create: a new id later actions can refer to' },
+  type: { type: 'string', enum: ['text', 'image', 'shape'] },
+  content: { type: 'string', description: 'Text for text elements, URL for images' },
+  x: { type: 'number' },
+  y: { type: 'number' },
+  width: { type: 'number', minimum: 0 },
+  height: { type: 'number', minimum: 0 },
+  rotation: { type: 'number' },
+  skewX: { type: 'number' },
+  skewY: { type: 'number' },
+  fontSize: { type: 'number', minimum: 1 },
+  color: { type: 'string', description: 'CSS color' },
+  zIndex: { type: 'integer' },
+  isVisible: { type: 'boolean' },
+  isLocked: { type: 'boolean' },
+  groupId: { type: 'string' },
+  style: {
+    type: 'object',
+    description: 'CSS properties in camelCase, e.g. fontWeight, backgroundColor, borderRadius',
+    additionalProperties: true,
+  },
+  elementIds: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Only for group: the elements to group',
+  },
+};
+
+export const DESIGN_ACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['type', 'properties'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: ACTION_TYPES },
+    targetId: { type: 'string', description: 'Element to change; required except for create and group' },
+    properties: { type: 'object', properties: ELEMENT_PROPERTIES, additionalProperties: false },
+  },
+};
+
+export const COMMAND_RESPONSE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['commandType', 'actions', 'explanation', 'confidence'],
+  additionalProperties: false,
+  properties: {
+    commandType: { type: 'string', enum: COMMAND_TYPES },
+    actions: { type: 'array', items: DESIGN_ACTION_SCHEMA },
+    explanation: { type: 'string', description: 'One or two sentences describing the changes' },
+    suggestions: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+// =============================================
+// Validation
+// =============================================
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+/**
+ * Validate a value against a schema, returning one message per problem
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const matches = schema.type === 'integer'
+      ? Number.isInteger(value)
+      : actual === schema.type && !(actual === 'number' && !Number.isFinite(value));
+    if (!matches) return [`${path} must be ${schema.type === 'integer' ? 'an integer' : `a ${schema.type}`}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (actual === 'object' && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(child, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a model reply. Besides the schema, every action must
+ * refer to elements that exist by the time it runs (checked when the
+ * elements are known).
+ */
+export function parseCommandResponse(
+  text: string,
+  elements?: DesignElement[]
+): CommandResponse & { commandType: CommandType } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The AI response was not valid JSON');
+  }
+
+  const errors = validateSchema(json, COMMAND_RESPONSE_SCHEMA);
+  const response = json as CommandResponse & { commandType: CommandType };
+
+  if (errors.length === 0) {
+    const known = new Set(elements?.map(el => el.id));
+    const exists = (id: string) => !elements || known.has(id);
+    response.actions.forEach((action, i) => {
+      const path = `$.actions[${i}]`;
+      if (action.type === 'create') {
+        if (!action.properties.type) errors.push(`${path}.properties.type is required for create`);
+        if (typeof action.properties.id === 'string') known.add(action.properties.id);
+      } else if (action.type === 'group') {
+        const ids = (action.properties.elementIds as string[] | undefined) ?? [];
+        if (ids.length < 2) errors.push(`${path}.properties.elementIds needs at least two elements`);
+        ids.filter(id => !exists(id)).forEach(id => errors.push(`${path} refers to unknown element ${id}`));
+      } else if (!action.targetId) {
+        errors.push(`${path}.targetId is required for ${action.type}`);
+      } else if (!exists(action.targetId)) {
+        errors.push(`${path} refers to unknown element ${action.targetId}`);
+      } else if (action.type === 'delete') {
+        known.delete(action.targetId);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`The AI response did not match the action schema: ${errors.slice(0, 5).join('; ')}`);
+  }
+
+  return response;
+}
+
+// =============================================
+// Serialization
+// =============================================
+
+const SERIALIZED_FIELDS: Array<keyof DesignElement> = [
+  'id', 'type', 'content', 'x', 'y', 'width', 'height', 'rotation', 'fontSize',
+  'color', 'zIndex', 'groupId', 'isVisible', 'isLocked', 'style',
+];
+
+const MAX_CONTENT_LENGTH = 200;
+
+/**
+ * Compact description of the canvas for the model: geometry and styling
+ * only, long content (image data URLs, paragraphs) truncated
+ */
+export function serializeDesignContext(
+  elements: DesignElement[],
+  selection: string[] = [],
+  canvas?: { width: number; height: number }
+): SerializedDesignContext {
+  return {
+    canvas,
+    selection: selection.filter(id => elements.some(el => el.id === id)),
+    elements: [...elements]
+      .sort((a, b) => a.zIndex - b.zIndex)
+      .map(el => {
+        const entry: Partial<DesignElement> = {};
+        for (const field of SERIALIZED_FIELDS) {
+          const value: unknown = el[field];
+          if (value === undefined || value === null) continue;
+          if (field === 'content' && typeof value === 'string' && value.length > MAX_CONTENT_LENGTH) {
+            (entry as Record<string, unknown>)[field] = value.startsWith('data:')
+              ? '[embedded image]'
+              : `${value.slice(0, MAX_CONTENT_LENGTH)}…`;
+            continue;
+          }
+          (entry as Record<string, unknown>)[field] = value;
+        }
+        return entry;
+      }),
+  };
+}
+
+// =============================================
+// Application
+// =============================================
+
+let createdCount = 0;
+
+function newElementId(): string {
+  createdCount += 1;
+  return `ai_${Date.now().toString(36)}_${createdCount}`;
+}
+
+function elementFields(properties: Record<string, unknown>): Partial<DesignElement> {
+  const { elementIds: _elementIds, id: _id, ...fields } = properties;
+  return fields as Partial<DesignElement>;
+}
+
+/**
+ * Apply actions to a copy of the elements. Actions run in order, so a
+ * create can be followed by updates to the element it made.
+ */
+export function applyDesignActions(elements: DesignElement[], actions: DesignAction[]): DesignElement[] {
+  let result = elements.map(el => ({ ...el }));
+  const maxZ = () => result.reduce((max, el) => Math.max(max, el.zIndex), 0);
+  const update = (id: string, change: (el: DesignElement) => DesignElement) => {
+    result = result.map(el => (el.id === id ? change(el) : el));
+  };
+
+  for (const action of actions) {
+    const properties = action.properties ?? {};
+
+    switch (action.type) {
+      case 'create': {
+        const id = typeof properties.id === 'string' && !result.some(el => el.id === properties.id)
+          ? properties.id
+          : newElementId();
+        result.push({
+          content: '',
+          x: 0,
+          y: 0,
+          width: 200,
+          height: properties.type === 'text' ? 40 : 200,
+          isVisible: true,
+          ...elementFields(properties),
+          type: (properties.type as DesignElement['type']) ?? 'shape',
+          id,
+          zIndex: typeof properties.zIndex === 'number' ? properties.zIndex : maxZ() + 1,
+        });
+        break;
+      }
+      case 'update':
+      case 'move':
+        if (action.targetId) update(action.targetId, el => ({ ...el, ...elementFields(properties) }));
+        break;
+      case 'style':
+        if (action.targetId) {
+          update(action.targetId, el => {
+            const { style, color, ...rest } = elementFields(properties) as Record<string, unknown>;
+            return {
+              ...el,
+              ...(typeof color === 'string' ? { color } : {}),
+              style: {
+                ...(el.style as Record<string, unknown> | undefined),
+                ...(style as Record<string, unknown> | undefined),
+                ...rest,
+              },
+            };
+          });
+        }
+        break;
+      case 'delete':
+        result = result.filter(el => el.id !== action.targetId);
+        break;
+      case 'group': {
+        const ids = (properties.elementIds as string[] | undefined) ?? [];
+        const groupId = typeof properties.groupId === 'string' ? properties.groupId : `group_${newElementId()}`;
+        result = result.map(el => (ids.includes(el.id) ? { ...el, groupId } : el));
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+function elementLabel(el: DesignElement): string {
+  if (el.type === 'text' && el.content) {
+    return `"${el.content.length > 24 ? `${el.content.slice(0, 24)}…` : el.content}"`;
+  }
+  return `${el.type} ${el.id}`;
+}
+
+function propertyChanges(before: Record<string, unknown>, after: Record<string, unknown>, prefix = ''): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const a = before[key];
+    const b = after[key];
+    if (key === 'style' && !prefix) {
+      changes.push(...propertyChanges(
+        (a as Record<string, unknown> | undefined) ?? {},
+        (b as Record<string, unknown> | undefined) ?? {},
+        'style.'
+      ));
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ property: `${prefix}${key}`, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Apply actions without committing them and describe the result per element
+ */
+export function previewDesignActions(elements: DesignElement[], actions: DesignAction[]): DesignActionPreview {
+  const next = applyDesignActions(elements, actions);
+  const beforeById = new Map(elements.map(el => [el.id, el]));
+  const afterIds = new Set(next.map(el => el.id));
+  const changes: ElementChange[] = [];
+
+  for (const el of next) {
+    const previous = beforeById.get(el.id);
+    if (!previous) {
+      changes.push({
+        elementId: el.id,
+        kind: 'create',
+        label: elementLabel(el),
+        properties: propertyChanges({}, el as unknown as Record<string, unknown>),
+      });
+      continue;
+    }
+    const properties = propertyChanges(
+      previous as unknown as Record<string, unknown>,
+      el as unknown as Record<string, unknown>
+    );
+    if (properties.length > 0) {
+      changes.push({ elementId: el.id, kind: 'update', label: elementLabel(previous), properties });
+    }
+  }
+
+  for (const el of elements) {
+    if (!afterIds.has(el.id)) {
+      changes.push({ elementId: el.id, kind: 'delete', label: elementLabel(el), properties: [] });
+    }
+  }
+
+  return { elements: next, changes };
+}
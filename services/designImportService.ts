@@ -4,12 +4,16 @@
 // =============================================
 
 import { supabase } from '../lib/supabase';
+import { formatSVGImportReport, parseSVG } from './svgImport';
+import { formatPSDImportReport, parsePSD } from './psdImport';
+import { formatSketchImportReport, parseSketch, toDesignElements } from './sketchImport';
+import { componentLibrary } from './componentLibraryService';
 
 // =============================================
 // Types
 // =============================================
 
-export type ImportSource = 'figma' | 'canva' | 'sketch' | 'psd' | 'xd';
+export type ImportSource = 'figma' | 'canva' | 'sketch' | 'psd' | 'xd' | 'svg';
 export type ImportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'partial';
 
 export interface DesignImport {
@@ -99,12 +103,15 @@ export interface ImportElementMapping {
 
 export interface LuminaElement {
   id: string;
+  name?: string;
   type: 'rect' | 'circle' | 'text' | 'image' | 'group' | 'path' | 'line';
   x: number;
   y: number;
   width: number;
   height: number;
   rotation?: number;
+  skewX?: number;
+  cornerRadius?: number;
   fill?: string | any;
   stroke?: string;
   strokeWidth?: number;
@@ -115,6 +122,8 @@ export interface LuminaElement {
   fontWeight?: string;
   textAlign?: string;
   src?: string;
+  pathData?: string;
+  viewBox?: string; // pathData coordinates mapped onto the element box
   children?: LuminaElement[];
   effects?: any[];
 }
@@ -642,13 +651,116 @@ class DesignImportService {
   }
 
   private async importFromSketch(file: File, options: ImportOptions): Promise<string | null> {
-    // Sketch files are ZIP archives - would need proper parsing
-    throw new Error('Sketch import coming soon. Please export as SVG from Sketch.');
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data: importRecord } = await supabase
+      .from('design_imports')
+      .insert({
+        user_id: user.id,
+        source_type: 'sketch',
+        source_file_name: file.name,
+        source_file_size: file.size,
+        import_options: options,
+        status: 'processing',
+      })
+      .select('id')
+      .single();
+
+    if (!importRecord) return null;
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const { elements, pages, symbols, sharedStyles, mappings, width, height, report } = await parseSketch(bytes, options);
+      const warnings = formatSketchImportReport(report);
+
+      // Symbols become reusable components
+      const components = symbols.map(symbol => componentLibrary.createComponent(toDesignElements(symbol.elements), {
+        name: symbol.name,
+        category: 'custom',
+        description: `Imported from ${file.name}`,
+        tags: ['sketch'],
+      }));
+
+      if (mappings.length > 0) {
+        await supabase.from('import_element_mappings').insert(
+          mappings.map(m => ({ ...m, import_id: importRecord.id }))
+        );
+      }
+
+      await supabase
+        .from('design_imports')
+        .update({
+          status: report.skipped.length > 0 || report.approximated.length > 0 ? 'partial' : 'completed',
+          progress_percent: 100,
+          result_data: {
+            elements,
+            pages,
+            name: file.name.replace(/\.sketch$/i, ''),
+            width,
+            height,
+            sharedStyles,
+            components: components.map(component => ({ id: component.id, name: component.name })),
+            report,
+          },
+          warnings: warnings.length > 0 ? warnings : null,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', importRecord.id);
+
+      return importRecord.id;
+    } catch (err: any) {
+      await supabase
+        .from('design_imports')
+        .update({ status: 'failed', errors: [err.message] })
+        .eq('id', importRecord.id);
+      return null;
+    }
   }
 
   private async importFromPSD(file: File, options: ImportOptions): Promise<string | null> {
-    // PSD parsing requires specialized library
-    throw new Error('PSD import coming soon. Please export as PNG from Photoshop.');
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data: importRecord } = await supabase
+      .from('design_imports')
+      .insert({
+        user_id: user.id,
+        source_type: 'psd',
+        source_file_name: file.name,
+        source_file_size: file.size,
+        import_options: options,
+        status: 'processing',
+      })
+      .select('id')
+      .single();
+
+    if (!importRecord) return null;
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const { elements, width, height, report } = await parsePSD(bytes, options);
+      const warnings = formatPSDImportReport(report);
+
+      await supabase
+        .from('design_imports')
+        .update({
+          status: report.skipped.length > 0 || report.approximated.length > 0 ? 'partial' : 'completed',
+          progress_percent: 100,
+          result_data: { elements, name: file.name.replace(/\.psd$/i, ''), width, height, report },
+          warnings: warnings.length > 0 ? warnings : null,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', importRecord.id);
+
+      return importRecord.id;
+    } catch (err: any) {
+      await supabase
+        .from('design_imports')
+        .update({ status: 'failed', errors: [err.message] })
+        .eq('id', importRecord.id);
+      return null;
+    }
   }
 
   private async importFromSVG(file: File, options: ImportOptions): Promise<string | null> {
@@ -659,7 +771,7 @@ class DesignImportService {
       .from('design_imports')
       .insert({
         user_id: user.id,
-        source_type: 'sketch', // Using sketch type for SVG
+        source_type: 'svg',
         source_file_name: file.name,
         source_file_size: file.size,
         import_options: options,
@@ -672,31 +784,16 @@ class DesignImportService {
 
     try {
       const svgText = await file.text();
-      const parser = new DOMParser();
-      const svgDoc = parser.parseFromString(svgText, 'image/svg+xml');
-      const svgElement = svgDoc.documentElement;
-
-      const width = parseInt(svgElement.getAttribute('width') || '800');
-      const height = parseInt(svgElement.getAttribute('height') || '600');
-
-      // For now, import SVG as a single element
-      // Full SVG parsing would convert each path/shape individually
-      const element: LuminaElement = {
-        id: `svg_${Date.now()}`,
-        type: 'image',
-        x: 0,
-        y: 0,
-        width,
-        height,
-        src: URL.createObjectURL(file),
-      };
+      const { elements, width, height, report } = parseSVG(svgText, options);
+      const warnings = formatSVGImportReport(report);
 
       await supabase
         .from('design_imports')
         .update({
-          status: 'completed',
+          status: report.skipped.length > 0 ? 'partial' : 'completed',
           progress_percent: 100,
-          result_data: { elements: [element] },
+          result_data: { elements, name: file.name.replace(/\.svg$/i, ''), width, height, report },
+          warnings: warnings.length > 0 ? warnings : null,
           completed_at: new Date().toISOString(),
         })
         .eq('id', importRecord.id);
@@ -0,0 +1,417 @@
+// ============================================
+// LUMINA DESIGN PDF
+// Vector PDF export of canvas designs: shapes as paths, images as
+// XObjects and text as live text in embedded TrueType fonts
+// ============================================
+
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import type { PDFContext, PDFPage, PDFRef } from 'pdf-lib';
+import type { DesignElement } from '../types';
+import type { ContentOperand, ContentOperation, Matrix } from './pdfContentStream';
+import { name, num, serializeContentStream } from './pdfContentStream';
+import { cssColor, prepareDesign, rectPath } from './designRenderer';
+import type { CssColor, DesignFont, DesignRenderOptions, PathCommand, PreparedDesign, PreparedElement } from './designRenderer';
+import type { TrueTypeProgram } from './trueType';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DesignPDFOptions extends DesignRenderOptions {
+  title?: string;
+}
+
+export interface DesignPDFResult {
+  bytes: Uint8Array;
+  warnings: string[];
+}
+
+/** An embedded image XObject and its size in pixels */
+export interface PdfImage {
+  ref: PDFRef;
+  width: number;
+  height: number;
+}
+
+/**
+ * How colours and images are written. The default keeps everything in
+ * DeviceRGB; print output converts to CMYK.
+ */
+export interface PdfColorTarget {
+  /** The operator setting the fill (or stroke) colour, from RGB components in 0-1 */
+  setColor: (rgb: [number, number, number], stroke: boolean) => ContentOperation;
+  /** Embeds an element's image, or returns null after adding a warning */
+  embedImage: (item: PreparedElement) => Promise<PdfImage | null>;
+  /** Mix opacity into colours over white paper instead of using transparency */
+  flattenTransparency?: boolean;
+}
+
+export interface DrawDesignOptions {
+  target?: PdfColorTarget;
+  /** How far the background extends past the design's edges, in design units */
+  bleed?: number;
+}
+
+/** How the text of one DesignFont is written */
+interface PdfFont {
+  resource: string;
+  encode: (text: string) => Uint8Array;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PRODUCER = 'Lumina Studio';
+
+/** Used for text whose font could not be loaded or embedded */
+const FALLBACK_FONT = 'Helvetica';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const op = (operator: string, ...operands: ContentOperand[]): ContentOperation => ({ operator, operands });
+
+const hexString = (bytes: Uint8Array): ContentOperand => ({ type: 'string', bytes, hex: true });
+
+export function pathOperations(path: PathCommand[]): ContentOperation[] {
+  return path.map(cmd => {
+    switch (cmd.type) {
+      case 'M':
+        return op('m', num(cmd.x), num(cmd.y));
+      case 'L':
+        return op('l', num(cmd.x), num(cmd.y));
+      case 'C':
+        return op('c', num(cmd.x1), num(cmd.y1), num(cmd.x2), num(cmd.y2), num(cmd.x), num(cmd.y));
+      case 'Z':
+        return op('h');
+    }
+  });
+}
+
+const matrixOperands = (m: Matrix) => m.map(num);
+
+// ============================================
+// FONTS
+// ============================================
+
+function toUnicodeCMap(glyphs: Map<number, string>): Uint8Array {
+  const hex = (value: number) => value.toString(16).padStart(4, '0');
+  const utf16 = (text: string) => Array.from({ length: text.length }, (_, i) => hex(text.charCodeAt(i))).join('');
+  const entries = [...glyphs].map(([glyph, text]) => `<${hex(glyph)}> <${utf16(text)}>`);
+
+  const blocks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar`);
+  }
+
+  return new TextEncoder().encode([
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end',
+  ].join('\n'));
+}
+
+/**
+ * A Type 0 font over the whole TrueType program, addressed by glyph id
+ * (Identity-H), with a ToUnicode map so the text stays searchable.
+ */
+function embedTrueType(context: PDFContext, font: DesignFont, program: TrueTypeProgram, glyphs: Map<number, string>): PDFRef {
+  const data = font.data!;
+  const scale = (value: number) => Math.round((value * 1000) / program.unitsPerEm);
+  const fontName = program.postScriptName || font.family.replace(/[^\x21-\x7e]|[[\](){}<>/%]/g, '');
+  const flags = (program.isFixedPitch ? 1 : 0) | (program.isSerif ? 2 : 0) | 32 | (program.isItalic ? 64 : 0);
+
+  const descriptor = context.obj({
+    Type: 'FontDescriptor',
+    FontName: fontName,
+    Flags: flags,
+    FontBBox: program.bbox.map(scale),
+    ItalicAngle: program.italicAngle,
+    Ascent: scale(program.ascent),
+    Descent: scale(program.descent),
+    CapHeight: scale(program.capHeight),
+    StemV: program.isBold ? 120 : 80,
+    FontFile2: context.register(context.flateStream(data, { Length1: data.length })),
+  });
+
+  const widths = [...glyphs.keys()]
+    .sort((a, b) => a - b)
+    .flatMap(glyph => [glyph, [scale(program.advanceWidth(glyph))]]);
+
+  const cidFont = context.obj({
+    Type: 'Font',
+    Subtype: 'CIDFontType2',
+    BaseFont: fontName,
+    CIDSystemInfo: { Registry: PDFString.of('Adobe'), Ordering: PDFString.of('Identity'), Supplement: 0 },
+    FontDescriptor: context.register(descriptor),
+    CIDToGIDMap: 'Identity',
+    W: widths,
+  });
+
+  return context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'Type0',
+    BaseFont: fontName,
+    Encoding: 'Identity-H',
+    DescendantFonts: [context.register(cidFont)],
+    ToUnicode: context.register(context.flateStream(toUnicodeCMap(glyphs))),
+  }));
+}
+
+// ============================================
+// DRAWING
+// ============================================
+
+/** DeviceRGB colours, with PNG and JPEG images embedded as they are */
+function rgbTarget(pdfDoc: PDFDocument, warnings: string[]): PdfColorTarget {
+  const images = new Map<Uint8Array, PdfImage | null>();
+  return {
+    setColor: (rgb, stroke) => op(stroke ? 'RG' : 'rg', ...rgb.map(num)),
+    embedImage: async item => {
+      const image = item.image!;
+      if (!images.has(image.data)) {
+        let embedded: PdfImage | null = null;
+        try {
+          if (image.mimeType === 'image/png') embedded = await pdfDoc.embedPng(image.data);
+          else if (image.mimeType === 'image/jpeg') embedded = await pdfDoc.embedJpg(image.data);
+          else warnings.push(`Image ${item.element.id} is ${image.mimeType} and was left out; PDF export supports PNG and JPEG`);
+        } catch (error) {
+          warnings.push(`Image ${item.element.id} could not be embedded: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        images.set(image.data, embedded);
+      }
+      return images.get(image.data)!;
+    },
+  };
+}
+
+/**
+ * Content operations that draw a prepared design in design space (top-down,
+ * one unit per design pixel; the caller maps it onto the page). Fonts,
+ * images and graphics states are added to the page's resources, and
+ * problems are added to `warnings`.
+ */
+export async function drawDesign(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  design: PreparedDesign,
+  warnings: string[],
+  { target = rgbTarget(pdfDoc, warnings), bleed = 0 }: DrawDesignOptions = {}
+): Promise<ContentOperation[]> {
+  const { context } = pdfDoc;
+  const resources = { font: 0, image: 0, state: 0 };
+
+  // Fonts: one Type 0 font per loaded program, covering the glyphs in use
+  const fonts = new Map<DesignFont, PdfFont>();
+  let fallback: PdfFont | undefined;
+  const glyphsByFont = new Map<DesignFont, Map<number, string>>();
+  for (const item of design.elements) {
+    const font = item.text?.font;
+    if (!font?.program) continue;
+    const glyphs = glyphsByFont.get(font) ?? new Map<number, string>();
+    for (const line of item.text!.lines) {
+      for (const char of line.text) glyphs.set(font.program.glyphIndex(char.codePointAt(0)!), char);
+    }
+    glyphsByFont.set(font, glyphs);
+  }
+
+  const fontFor = (font: DesignFont): PdfFont => {
+    const existing = fonts.get(font);
+    if (existing) return existing;
+
+    const program = font.program;
+    if (program && font.data && program.embeddable) {
+      const resource = `F${++resources.font}`;
+      page.node.setFontDictionary(PDFName.of(resource), embedTrueType(context, font, program, glyphsByFont.get(font) ?? new Map<number, string>()));
+      const pdfFont: PdfFont = {
+        resource,
+        encode: text => {
+          const codes = Array.from(text, char => program.glyphIndex(char.codePointAt(0)!));
+          const bytes = new Uint8Array(codes.length * 2);
+          codes.forEach((glyph, i) => {
+            bytes[i * 2] = glyph >> 8;
+            bytes[i * 2 + 1] = glyph & 0xff;
+          });
+          return bytes;
+        },
+      };
+      fonts.set(font, pdfFont);
+      return pdfFont;
+    }
+
+    if (program && !program.embeddable) {
+      warnings.push(`Font "${font.family}" does not allow embedding; its text uses ${FALLBACK_FONT}`);
+    }
+    if (!fallback) {
+      const resource = `F${++resources.font}`;
+      page.node.setFontDictionary(PDFName.of(resource), context.register(context.obj({
+        Type: 'Font',
+        Subtype: 'Type1',
+        BaseFont: FALLBACK_FONT,
+        Encoding: 'WinAnsiEncoding',
+      })));
+      // WinAnsi matches Latin-1 for the characters kept here
+      fallback = {
+        resource,
+        encode: text => Uint8Array.from(text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?'), char => char.charCodeAt(0)),
+      };
+    }
+    fonts.set(font, fallback);
+    return fallback;
+  };
+
+  // Graphics states for opacity, shared between elements with equal values
+  const states = new Map<string, string>();
+  const stateFor = (fillAlpha: number, strokeAlpha: number): string => {
+    const key = `${fillAlpha}/${strokeAlpha}`;
+    let resource = states.get(key);
+    if (!resource) {
+      resource = `GS${++resources.state}`;
+      page.node.setExtGState(PDFName.of(resource), context.obj({ Type: 'ExtGState', ca: fillAlpha, CA: strokeAlpha }));
+      states.set(key, resource);
+    }
+    return resource;
+  };
+
+  // Without transparency, a colour at partial opacity becomes its tint over white paper
+  const flatten = target.flattenTransparency ?? false;
+  const colorOp = (color: CssColor, opacity: number, stroke: boolean) => {
+    const alpha = color.alpha * opacity;
+    const rgb = flatten ? color.rgb.map(c => 1 - alpha * (1 - c)) as CssColor['rgb'] : color.rgb;
+    return target.setColor(rgb, stroke);
+  };
+
+  const operations: ContentOperation[] = [];
+
+  const background = cssColor(design.background);
+  if (background && background.alpha > 0) {
+    operations.push(
+      colorOp(background, 1, false),
+      op('re', num(-bleed), num(-bleed), num(design.width + bleed * 2), num(design.height + bleed * 2)),
+      op('f')
+    );
+  }
+
+  for (const item of design.elements) {
+    const { element, matrix, opacity } = item;
+    const body: ContentOperation[] = [];
+    let fillAlpha = 1;
+    let strokeAlpha = 1;
+
+    if (item.text) {
+      const { font, fontSize, color, letterSpacing, lines } = item.text;
+      const pdfFont = fontFor(font);
+      const fill = cssColor(color);
+      if (fill) {
+        fillAlpha = fill.alpha;
+        body.push(
+          op('BT'),
+          op('Tf', name(pdfFont.resource), num(fontSize)),
+          op('Tc', num(letterSpacing)),
+          colorOp(fill, opacity, false)
+        );
+        for (const line of lines) {
+          if (!line.text) continue;
+          // Flip each line back upright in the top-down space
+          body.push(
+            op('Tm', num(1), num(0), num(0), num(-1), num(line.x), num(line.baseline)),
+            op('Tj', hexString(pdfFont.encode(line.text)))
+          );
+        }
+        body.push(op('ET'));
+      }
+    } else if (item.image) {
+      const image = await target.embedImage(item);
+      if (!image) continue;
+      if (flatten && opacity < 1) warnings.push(`Image ${element.id} is drawn fully opaque; transparency is not allowed in this PDF`);
+      const resource = `Im${++resources.image}`;
+      page.node.setXObject(PDFName.of(resource), image.ref);
+
+      // Cover the box like object-fit: cover, centred and clipped
+      const { width, height } = element;
+      const scale = Math.max(width / image.width, height / image.height);
+      const drawWidth = image.width * scale;
+      const drawHeight = image.height * scale;
+      body.push(
+        ...pathOperations(rectPath(width, height)),
+        op('W'),
+        op('n'),
+        op('cm', num(drawWidth), num(0), num(0), num(-drawHeight), num((width - drawWidth) / 2), num((height + drawHeight) / 2)),
+        op('Do', name(resource))
+      );
+    } else if (item.shape) {
+      const { path, fill, stroke, strokeWidth } = item.shape;
+      const fillColor = fill ? cssColor(fill) : null;
+      const strokeColor = stroke && strokeWidth > 0 ? cssColor(stroke) : null;
+      if (!fillColor && !strokeColor) continue;
+
+      if (fillColor) {
+        fillAlpha = fillColor.alpha;
+        body.push(colorOp(fillColor, opacity, false));
+      }
+      if (strokeColor) {
+        strokeAlpha = strokeColor.alpha;
+        body.push(colorOp(strokeColor, opacity, true), op('w', num(strokeWidth)));
+      }
+      body.push(...pathOperations(path), op(fillColor && strokeColor ? 'B' : fillColor ? 'f' : 'S'));
+    }
+
+    if (body.length === 0) continue;
+
+    operations.push(op('q'), op('cm', ...matrixOperands(matrix)));
+    if (!flatten && (opacity * fillAlpha < 1 || opacity * strokeAlpha < 1)) {
+      operations.push(op('gs', name(stateFor(opacity * fillAlpha, opacity * strokeAlpha))));
+    }
+    if (item.clip) operations.push(...pathOperations(item.clip), op('W'), op('n'));
+    operations.push(...body, op('Q'));
+  }
+
+  return operations;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Render the design as a single-page vector PDF, one point per design unit.
+ * Text is drawn with its loaded font embedded; text whose font could not be
+ * loaded or embedded is set in Helvetica. PNG and JPEG images are embedded,
+ * other image types are left out with a warning.
+ */
+export async function renderDesignPDF(elements: DesignElement[], options: DesignPDFOptions): Promise<DesignPDFResult> {
+  const design = await prepareDesign(elements, options);
+  const warnings = [...design.warnings];
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setProducer(PRODUCER);
+  pdfDoc.setCreator(PRODUCER);
+  if (options.title) pdfDoc.setTitle(options.title);
+
+  const page = pdfDoc.addPage([design.width, design.height]);
+
+  // Design space runs top-down; PDF user space runs bottom-up
+  const operations: ContentOperation[] = [
+    op('cm', num(1), num(0), num(0), num(-1), num(0), num(design.height)),
+    ...await drawDesign(pdfDoc, page, design, warnings),
+  ];
+
+  page.node.addContentStream(pdfDoc.context.register(pdfDoc.context.flateStream(serializeContentStream(operations))));
+  options.onProgress?.(100);
+
+  return { bytes: await pdfDoc.save(), warnings };
+}
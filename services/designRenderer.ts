@@ -0,0 +1,955 @@
+// ============================================
+// LUMINA DESIGN RENDERER
+// Lays out canvas designs (DesignElement lists) and renders them to SVG
+// and to PNG/WebP, in the browser or headlessly with a supplied rasterizer
+// ============================================
+
+import type { DesignElement, MaskType } from '../types';
+import { parseColor } from '../types/designTokens';
+import type { Matrix } from './pdfContentStream';
+import { fetchGoogleFontFile } from './fontService';
+import { pathBounds } from './svgImport';
+import { parseTrueType } from './trueType';
+import type { TrueTypeProgram } from './trueType';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RasterFormat = 'png' | 'webp';
+
+/** Supplies a TrueType program for a font variant, or null when there is none */
+export type DesignFontLoader = (
+  family: string,
+  weight: number,
+  italic: boolean
+) => Promise<ArrayBuffer | Uint8Array | null>;
+
+/** Fetches the encoded bytes of an image element's source */
+export type DesignImageLoader = (src: string) => Promise<Uint8Array>;
+
+export interface DesignRenderOptions {
+  width: number;
+  height: number;
+  /** Colour behind the elements; defaults to white */
+  background?: string;
+  /** Defaults to Google Fonts */
+  loadFont?: DesignFontLoader;
+  /** Defaults to fetch, with data URLs decoded in place */
+  loadImage?: DesignImageLoader;
+  /** Called with 0-100 as fonts and images load */
+  onProgress?: (progress: number) => void;
+}
+
+export interface DesignFont {
+  family: string;
+  weight: number;
+  italic: boolean;
+  /** The TrueType program; missing when the font could not be loaded */
+  data?: Uint8Array;
+  program?: TrueTypeProgram;
+}
+
+export interface DesignImage {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface TextLine {
+  text: string;
+  /** Start of the line and its baseline, in element space */
+  x: number;
+  baseline: number;
+  width: number;
+}
+
+export interface TextLayout {
+  font: DesignFont;
+  fontSize: number;
+  color: string;
+  letterSpacing: number;
+  lines: TextLine[];
+}
+
+/** Font, size and paragraph settings of a text element, from its style */
+export interface TextStyle {
+  family: string;
+  weight: number;
+  italic: boolean;
+  fontSize: number;
+  color: string;
+  letterSpacing: number;
+  /** Distance between baselines, in px */
+  lineHeight: number;
+  align: 'left' | 'center' | 'right' | 'justify';
+}
+
+/** A parsed CSS colour, channels 0-1 */
+export interface CssColor {
+  rgb: [number, number, number];
+  alpha: number;
+}
+
+export interface ShapePaint {
+  /** Outline in element space */
+  path: PathCommand[];
+  /** What the outline was drawn from, for formats with native shapes */
+  geometry: { type: 'rect'; radius: number } | { type: 'ellipse' } | { type: 'path' };
+  fill?: string;
+  stroke?: string;
+  strokeWidth: number;
+}
+
+/** A visible element with its transform and loaded resources */
+export interface PreparedElement {
+  element: DesignElement;
+  /** Element space (0,0 at the box's top-left) to page space */
+  matrix: Matrix;
+  opacity: number;
+  /** Clip outline in element space, from the element's mask */
+  clip?: PathCommand[];
+  text?: TextLayout;
+  image?: DesignImage;
+  shape?: ShapePaint;
+}
+
+export interface PreparedDesign {
+  width: number;
+  height: number;
+  background: string;
+  /** Bottom to top */
+  elements: PreparedElement[];
+  fonts: DesignFont[];
+  warnings: string[];
+}
+
+export type PathCommand =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+export interface RasterizeRequest {
+  svg: string;
+  /** Output size in pixels */
+  width: number;
+  height: number;
+  format: RasterFormat;
+  quality?: number;
+  /** Loaded fonts, for rasterizers that cannot read @font-face rules */
+  fonts: DesignFont[];
+}
+
+export type DesignRasterizer = (request: RasterizeRequest) => Promise<Blob>;
+
+export interface DesignRasterOptions extends DesignRenderOptions {
+  format: RasterFormat;
+  /** Pixels per design unit; defaults to 1 */
+  scale?: number;
+  /** 0-1, for WebP */
+  quality?: number;
+  /** Defaults to drawing the SVG onto a browser canvas */
+  rasterize?: DesignRasterizer;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Text defaults match how the Canvas editor shows text elements
+const DEFAULT_FONT_FAMILY = 'Inter';
+const DEFAULT_FONT_WEIGHT = 900;
+const DEFAULT_FONT_SIZE = 16;
+const DEFAULT_TEXT_COLOR = '#0f172a';
+const DEFAULT_LINE_HEIGHT = 1.25;
+const DEFAULT_LETTER_SPACING_EM = -0.05;
+
+/** Average advance, in em, when a font could not be loaded */
+const FALLBACK_ADVANCE = 0.55;
+const FALLBACK_ASCENT = 0.8;
+const FALLBACK_DESCENT = 0.2;
+
+const ROUNDED_MASK_RADIUS = 24;
+
+/** Mask outlines as fractions of the element box, as drawn by the Canvas editor */
+const MASK_POLYGONS: Partial<Record<MaskType, Array<[number, number]>>> = {
+  star: [[0.5, 0], [0.61, 0.35], [0.98, 0.35], [0.68, 0.57], [0.79, 0.91], [0.5, 0.7], [0.21, 0.91], [0.32, 0.57], [0.02, 0.35], [0.39, 0.35]],
+  diamond: [[0.5, 0], [1, 0.5], [0.5, 1], [0, 0.5]],
+};
+
+/** Control point distance for quarter-circle Béziers */
+const KAPPA = 0.5522847498;
+
+const FONT_WEIGHTS: Record<string, number> = { normal: 400, bold: 700, lighter: 300, bolder: 800 };
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  gray: '#808080',
+  grey: '#808080',
+};
+
+const TEXT_ALIGNS = ['left', 'center', 'right', 'justify'];
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+/**
+ * Element space to page space. Rotation and skew turn about the box centre,
+ * like the CSS transform the Canvas editor applies.
+ */
+export function elementMatrix(el: DesignElement): Matrix {
+  const rad = (deg: number | undefined) => ((deg ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(rad(el.rotation));
+  const sin = Math.sin(rad(el.rotation));
+  const toCentre: Matrix = [1, 0, 0, 1, -el.width / 2, -el.height / 2];
+  const skew: Matrix = [1, Math.tan(rad(el.skewY)), Math.tan(rad(el.skewX)), 1, 0, 0];
+  const rotate: Matrix = [cos, sin, -sin, cos, 0, 0];
+  const place: Matrix = [1, 0, 0, 1, el.x + el.width / 2, el.y + el.height / 2];
+  return multiply(multiply(multiply(toCentre, skew), rotate), place);
+}
+
+export function transformPath(path: PathCommand[], m: Matrix): PathCommand[] {
+  const x = (px: number, py: number) => m[0] * px + m[2] * py + m[4];
+  const y = (px: number, py: number) => m[1] * px + m[3] * py + m[5];
+  return path.map(cmd => {
+    switch (cmd.type) {
+      case 'Z':
+        return cmd;
+      case 'C':
+        return {
+          type: 'C',
+          x1: x(cmd.x1, cmd.y1),
+          y1: y(cmd.x1, cmd.y1),
+          x2: x(cmd.x2, cmd.y2),
+          y2: y(cmd.x2, cmd.y2),
+          x: x(cmd.x, cmd.y),
+          y: y(cmd.x, cmd.y),
+        };
+      default:
+        return { type: cmd.type, x: x(cmd.x, cmd.y), y: y(cmd.x, cmd.y) };
+    }
+  });
+}
+
+export function pathToSVG(path: PathCommand[]): string {
+  return path
+    .map(cmd => {
+      switch (cmd.type) {
+        case 'Z':
+          return 'Z';
+        case 'C':
+          return `C${round(cmd.x1)} ${round(cmd.y1)} ${round(cmd.x2)} ${round(cmd.y2)} ${round(cmd.x)} ${round(cmd.y)}`;
+        default:
+          return `${cmd.type}${round(cmd.x)} ${round(cmd.y)}`;
+      }
+    })
+    .join(' ');
+}
+
+/** Rectangle with (clamped) rounded corners */
+export function rectPath(width: number, height: number, radius = 0): PathCommand[] {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  if (r === 0) {
+    return [
+      { type: 'M', x: 0, y: 0 },
+      { type: 'L', x: width, y: 0 },
+      { type: 'L', x: width, y: height },
+      { type: 'L', x: 0, y: height },
+      { type: 'Z' },
+    ];
+  }
+  const k = r * (1 - KAPPA);
+  return [
+    { type: 'M', x: r, y: 0 },
+    { type: 'L', x: width - r, y: 0 },
+    { type: 'C', x1: width - k, y1: 0, x2: width, y2: k, x: width, y: r },
+    { type: 'L', x: width, y: height - r },
+    { type: 'C', x1: width, y1: height - k, x2: width - k, y2: height, x: width - r, y: height },
+    { type: 'L', x: r, y: height },
+    { type: 'C', x1: k, y1: height, x2: 0, y2: height - k, x: 0, y: height - r },
+    { type: 'L', x: 0, y: r },
+    { type: 'C', x1: 0, y1: k, x2: k, y2: 0, x: r, y: 0 },
+    { type: 'Z' },
+  ];
+}
+
+export function ellipsePath(width: number, height: number): PathCommand[] {
+  const rx = width / 2;
+  const ry = height / 2;
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    { type: 'M', x: width, y: ry },
+    { type: 'C', x1: width, y1: ry + ky, x2: rx + kx, y2: height, x: rx, y: height },
+    { type: 'C', x1: rx - kx, y1: height, x2: 0, y2: ry + ky, x: 0, y: ry },
+    { type: 'C', x1: 0, y1: ry - ky, x2: rx - kx, y2: 0, x: rx, y: 0 },
+    { type: 'C', x1: rx + kx, y1: 0, x2: width, y2: ry - ky, x: width, y: ry },
+    { type: 'Z' },
+  ];
+}
+
+/** Endpoint arc to cubic Béziers (SVG 1.1 implementation notes, F.6.5) */
+function arcToCubics(
+  from: { x: number; y: number },
+  rxIn: number,
+  ryIn: number,
+  xAxisRotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: { x: number; y: number }
+): PathCommand[] {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) return [{ type: 'L', x: to.x, y: to.y }];
+
+  const phi = (xAxisRotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // At most a quarter turn per curve
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (theta: number) => ({
+    x: cos * rx * Math.cos(theta) - sin * ry * Math.sin(theta) + cx,
+    y: sin * rx * Math.cos(theta) + cos * ry * Math.sin(theta) + cy,
+  });
+  const tangent = (theta: number) => ({
+    x: -cos * rx * Math.sin(theta) - sin * ry * Math.cos(theta),
+    y: -sin * rx * Math.sin(theta) + cos * ry * Math.cos(theta),
+  });
+
+  const curves: PathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const a = start + i * step;
+    const b = a + step;
+    const p0 = point(a);
+    const p3 = i === segments - 1 ? to : point(b);
+    const t0 = tangent(a);
+    const t1 = tangent(b);
+    curves.push({
+      type: 'C',
+      x1: p0.x + k * t0.x,
+      y1: p0.y + k * t0.y,
+      x2: p3.x - k * t1.x,
+      y2: p3.y - k * t1.y,
+      x: p3.x,
+      y: p3.y,
+    });
+  }
+  return curves;
+}
+
+/**
+ * SVG path data as absolute moves, lines and cubic curves. Quadratic curves
+ * and arcs are converted; parsing stops at the first malformed command.
+ */
+export function parsePathData(d: string): PathCommand[] {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const path: PathCommand[] = [];
+  let i = 0;
+  let command = '';
+  let current = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  let lastControl: { x: number; y: number } | null = null;
+  let lastCommand = '';
+
+  const next = () => Number(tokens[i++]);
+  const hasNumber = () => i < tokens.length && !/^[a-zA-Z]$/.test(tokens[i] ?? '');
+  const reflect = (types: string) =>
+    lastControl && types.includes(lastCommand)
+      ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+      : current;
+
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i] ?? '')) {
+      command = tokens[i++] ?? '';
+    } else if (!command) {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    const abs = (x: number, y: number) => (relative ? { x: current.x + x, y: current.y + y } : { x, y });
+    const upper = command.toUpperCase();
+
+    if (upper === 'Z') {
+      path.push({ type: 'Z' });
+      current = start;
+      lastControl = null;
+      lastCommand = upper;
+      continue;
+    }
+    if (!hasNumber()) break;
+
+    switch (upper) {
+      case 'M':
+        current = abs(next(), next());
+        start = current;
+        path.push({ type: 'M', ...current });
+        // Further pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        lastControl = null;
+        break;
+      case 'L':
+        current = abs(next(), next());
+        path.push({ type: 'L', ...current });
+        lastControl = null;
+        break;
+      case 'H': {
+        const x = next();
+        current = { x: relative ? current.x + x : x, y: current.y };
+        path.push({ type: 'L', ...current });
+        lastControl = null;
+        break;
+      }
+      case 'V': {
+        const y = next();
+        current = { x: current.x, y: relative ? current.y + y : y };
+        path.push({ type: 'L', ...current });
+        lastControl = null;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        const c1 = upper === 'C' ? abs(next(), next()) : reflect('CS');
+        const c2 = abs(next(), next());
+        const end = abs(next(), next());
+        path.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end });
+        lastControl = c2;
+        current = end;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const c = upper === 'Q' ? abs(next(), next()) : reflect('QT');
+        const end = abs(next(), next());
+        path.push({
+          type: 'C',
+          x1: current.x + (2 / 3) * (c.x - current.x),
+          y1: current.y + (2 / 3) * (c.y - current.y),
+          x2: end.x + (2 / 3) * (c.x - end.x),
+          y2: end.y + (2 / 3) * (c.y - end.y),
+          ...end,
+        });
+        lastControl = c;
+        current = end;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const end = abs(next(), next());
+        path.push(...arcToCubics(current, rx, ry, rotation, largeArc, sweep, end));
+        current = end;
+        lastControl = null;
+        break;
+      }
+      default:
+        return path;
+    }
+    lastCommand = upper;
+  }
+
+  return path;
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+type ElementStyle = Record<string, unknown>;
+
+const styleOf = (el: DesignElement): ElementStyle => (el.style as ElementStyle | undefined) ?? {};
+
+function styleString(style: ElementStyle, key: string): string | undefined {
+  const value = style[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/** A CSS length in px; em and % resolve against the given basis */
+function cssLength(value: unknown, basis: number): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return undefined;
+  const match = /^(-?\d*\.?\d+)(px|em|%)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const amount = Number(match[1]);
+  if (match[2] === 'em') return amount * basis;
+  if (match[2] === '%') return (amount / 100) * basis;
+  return amount;
+}
+
+function fontWeight(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') return FONT_WEIGHTS[value] ?? (Number(value) || DEFAULT_FONT_WEIGHT);
+  return DEFAULT_FONT_WEIGHT;
+}
+
+/** Null for transparent; colours that cannot be parsed are drawn black */
+export function cssColor(value: string): CssColor | null {
+  const color = value.trim().toLowerCase();
+  if (color === 'transparent' || color === 'none') return null;
+  const hex = NAMED_COLORS[color] ?? color.replace(/^#([\da-f])([\da-f])([\da-f])$/, '#$1$1$2$2$3$3');
+  const parsed = parseColor(hex);
+  if (!parsed) return { rgb: [0, 0, 0], alpha: 1 };
+  return { rgb: [parsed.r / 255, parsed.g / 255, parsed.b / 255], alpha: parsed.a };
+}
+
+export function elementOpacity(el: DesignElement): number {
+  const value = styleOf(el).opacity;
+  const opacity = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : 1;
+  return Number.isFinite(opacity) ? Math.max(0, Math.min(1, opacity)) : 1;
+}
+
+function maskPath(mask: MaskType | undefined, width: number, height: number): PathCommand[] | undefined {
+  if (mask === 'circle') return ellipsePath(width, height);
+  if (mask === 'rounded') return rectPath(width, height, ROUNDED_MASK_RADIUS);
+
+  const polygon = mask && MASK_POLYGONS[mask];
+  if (!polygon) return undefined;
+  return [
+    ...polygon.map(([px, py], i): PathCommand => ({ type: i === 0 ? 'M' : 'L', x: px * width, y: py * height })),
+    { type: 'Z' },
+  ];
+}
+
+/** Outline and paint of a shape element, from its camelCase CSS style */
+export function shapePaint(el: DesignElement): ShapePaint {
+  const style = styleOf(el);
+  const border = /^(\d*\.?\d+)px\s+\w+\s+(.+)$/.exec(styleString(style, 'border') ?? '');
+  const stroke = styleString(style, 'stroke') ?? border?.[2];
+  const strokeWidth = stroke ? cssLength(style.strokeWidth, 1) ?? Number(border?.[1] ?? 1) : 0;
+  const fill = styleString(style, 'backgroundColor') ?? styleString(style, 'fill') ?? el.color ?? (stroke ? undefined : '#000000');
+
+  const radius = style.borderRadius;
+  const shape = styleString(style, 'shape');
+  let path: PathCommand[];
+  let geometry: ShapePaint['geometry'] = { type: 'path' };
+
+  if (shape === 'circle' || shape === 'ellipse' || (typeof radius === 'string' && parseFloat(radius) >= 50 && radius.endsWith('%'))) {
+    path = ellipsePath(el.width, el.height);
+    geometry = { type: 'ellipse' };
+  } else if (el.content && (shape === 'path' || shape === undefined) && /^\s*[Mm]/.test(el.content)) {
+    // Path data is drawn from its viewBox (or its own bounds) into the box
+    const viewBox = styleString(style, 'viewBox')?.split(/[\s,]+/).map(Number);
+    const bounds = pathBounds(el.content);
+    const [vx, vy, vw, vh] = viewBox?.length === 4 && viewBox.every(Number.isFinite)
+      ? viewBox as [number, number, number, number]
+      : [bounds.x, bounds.y, bounds.width || 1, bounds.height || 1];
+    const sx = el.width / (vw || 1);
+    const sy = el.height / (vh || 1);
+    path = transformPath(parsePathData(el.content), [sx, 0, 0, sy, -vx * sx, -vy * sy]);
+  } else {
+    const cornerRadius = Math.max(0, Math.min(cssLength(radius, Math.min(el.width, el.height)) ?? 0, el.width / 2, el.height / 2));
+    path = rectPath(el.width, el.height, cornerRadius);
+    geometry = { type: 'rect', radius: cornerRadius };
+  }
+
+  return { path, geometry, ...(fill && { fill }), ...(stroke && { stroke }), strokeWidth };
+}
+
+// ============================================
+// TEXT LAYOUT
+// ============================================
+
+const fontKey = (family: string, weight: number, italic: boolean) => `${family}|${weight}|${italic ? 'italic' : 'normal'}`;
+
+export function textStyleOf(el: DesignElement): TextStyle {
+  const style = styleOf(el);
+  const family = styleString(style, 'fontFamily')?.split(',')[0]?.replace(/["']/g, '').trim();
+  const fontSize = el.fontSize ?? DEFAULT_FONT_SIZE;
+  const align = styleString(style, 'textAlign');
+  return {
+    family: family || DEFAULT_FONT_FAMILY,
+    weight: fontWeight(style.fontWeight),
+    italic: styleString(style, 'fontStyle') === 'italic',
+    fontSize,
+    color: el.color ?? styleString(style, 'color') ?? DEFAULT_TEXT_COLOR,
+    letterSpacing: cssLength(style.letterSpacing, fontSize) ?? DEFAULT_LETTER_SPACING_EM * fontSize,
+    lineHeight: (typeof style.lineHeight === 'number' ? style.lineHeight : Number(style.lineHeight) || DEFAULT_LINE_HEIGHT) * fontSize,
+    align: !align ? 'center' : TEXT_ALIGNS.includes(align) ? align as TextStyle['align'] : 'left',
+  };
+}
+
+/** Advance width of a string in px, without letter spacing */
+export function measureText(text: string, font: DesignFont, fontSize: number): number {
+  const program = font.program;
+  if (!program) return text.length * FALLBACK_ADVANCE * fontSize;
+
+  let units = 0;
+  for (const char of text) {
+    units += program.advanceWidth(program.glyphIndex(char.codePointAt(0) ?? 0));
+  }
+  return (units * fontSize) / program.unitsPerEm;
+}
+
+/**
+ * Word-wrapped lines of a text element, positioned like the Canvas editor's
+ * text boxes: lines start at the top of the box and are centred by default.
+ * Words longer than the box overflow it rather than being broken.
+ */
+export function layoutText(el: DesignElement, font: DesignFont): TextLayout {
+  const { fontSize, color, letterSpacing, lineHeight, align } = textStyleOf(el);
+
+  const width = (text: string) => measureText(text, font, fontSize) + letterSpacing * [...text].length;
+  const lines: string[] = [];
+  for (const paragraph of el.content.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && width(candidate) > el.width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  // The baseline sits in the line box like CSS half-leading places it
+  const program = font.program;
+  const ascent = program ? (program.ascent / program.unitsPerEm) * fontSize : FALLBACK_ASCENT * fontSize;
+  const descent = program ? (-program.descent / program.unitsPerEm) * fontSize : FALLBACK_DESCENT * fontSize;
+  const firstBaseline = (lineHeight - ascent - descent) / 2 + ascent;
+
+  return {
+    font,
+    fontSize,
+    color,
+    letterSpacing,
+    lines: lines.map((text, index) => {
+      const lineWidth = width(text);
+      const x = align === 'right' ? el.width - lineWidth : align === 'center' ? (el.width - lineWidth) / 2 : 0;
+      return { text, x, baseline: firstBaseline + index * lineHeight, width: lineWidth };
+    }),
+  };
+}
+
+// ============================================
+// RESOURCES
+// ============================================
+
+/** Google Fonts variant names: "regular", "italic", "700", "700italic" */
+const loadGoogleFont: DesignFontLoader = async (family, weight, italic) => {
+  const variant = `${weight === 400 ? '' : weight}${italic ? 'italic' : ''}` || 'regular';
+  try {
+    return await fetchGoogleFontFile(family, variant);
+  } catch {
+    return null;
+  }
+};
+
+const loadImageSource: DesignImageLoader = async (src) => {
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`Image request failed with status ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Image type from the file's signature */
+export function sniffImageType(bytes: Uint8Array): string | undefined {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (/^\s*(<\?xml|<svg)/.test(ascii(0, 256))) return 'image/svg+xml';
+  return undefined;
+}
+
+async function loadImage(src: string, load: DesignImageLoader): Promise<DesignImage> {
+  const dataUrl = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(src);
+  const data = dataUrl
+    ? dataUrl[2] ? decodeBase64(dataUrl[3]!) : new TextEncoder().encode(decodeURIComponent(dataUrl[3]!))
+    : await load(src);
+  const mimeType = sniffImageType(data) ?? dataUrl?.[1];
+  if (!mimeType) throw new Error('Unrecognised image format');
+  return { data, mimeType };
+}
+
+const describe = (el: DesignElement) =>
+  el.type === 'text' ? `Text "${el.content.slice(0, 24)}"` : `${el.type === 'image' ? 'Image' : 'Shape'} ${el.id}`;
+
+/**
+ * Resolve what every visible element needs to be drawn: fonts, image data,
+ * text layout, outlines and transforms. Resources that fail to load are
+ * reported as warnings; text then falls back to a generic font and images
+ * are left out.
+ */
+export async function prepareDesign(elements: DesignElement[], options: DesignRenderOptions): Promise<PreparedDesign> {
+  const { loadFont = loadGoogleFont, loadImage: fetchImage = loadImageSource, onProgress } = options;
+  const warnings: string[] = [];
+  const visible = elements.filter(el => el.isVisible !== false).sort((a, b) => a.zIndex - b.zIndex);
+
+  const fontRequests = new Map<string, { family: string; weight: number; italic: boolean }>();
+  for (const el of visible) {
+    if (el.type !== 'text') continue;
+    const { family, weight, italic } = textStyleOf(el);
+    fontRequests.set(fontKey(family, weight, italic), { family, weight, italic });
+  }
+  const imageSources = [...new Set(visible.filter(el => el.type === 'image' && el.content).map(el => el.content))];
+
+  const total = fontRequests.size + imageSources.length;
+  let done = 0;
+  const advance = () => onProgress?.(total === 0 ? 100 : Math.round((++done / total) * 100));
+
+  const fonts = new Map<string, DesignFont>();
+  await Promise.all([...fontRequests].map(async ([key, request]) => {
+    const font: DesignFont = { ...request };
+    try {
+      // Fall back to the regular variant when the family lacks the weight
+      const source = (await loadFont(request.family, request.weight, request.italic))
+        ?? (request.weight !== 400 || request.italic ? await loadFont(request.family, 400, false) : null);
+      if (source) {
+        font.data = source instanceof Uint8Array ? source : new Uint8Array(source);
+        font.program = parseTrueType(font.data);
+      } else {
+        warnings.push(`Font "${request.family}" could not be loaded`);
+      }
+    } catch (error) {
+      delete font.data;
+      warnings.push(`Font "${request.family}" could not be used: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    fonts.set(key, font);
+    advance();
+  }));
+
+  const images = new Map<string, DesignImage>();
+  await Promise.all(imageSources.map(async src => {
+    try {
+      images.set(src, await loadImage(src, fetchImage));
+    } catch (error) {
+      warnings.push(`Image ${src.slice(0, 64)} could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    advance();
+  }));
+
+  const prepared = visible.flatMap((el): PreparedElement[] => {
+    const base = {
+      element: el,
+      matrix: elementMatrix(el),
+      opacity: elementOpacity(el),
+      ...(el.type !== 'text' && el.mask && el.mask !== 'none' && { clip: maskPath(el.mask, el.width, el.height) }),
+    };
+
+    if (el.type === 'text') {
+      const { family, weight, italic } = textStyleOf(el);
+      return [{ ...base, text: layoutText(el, fonts.get(fontKey(family, weight, italic))!) }];
+    }
+    if (el.type === 'image') {
+      const image = images.get(el.content);
+      if (!image) {
+        if (!el.content) warnings.push(`${describe(el)} has no source and was left out`);
+        return [];
+      }
+      return [{ ...base, image }];
+    }
+    return [{ ...base, shape: shapePaint(el) }];
+  });
+
+  onProgress?.(100);
+  return {
+    width: options.width,
+    height: options.height,
+    background: options.background ?? '#ffffff',
+    elements: prepared,
+    fonts: [...fonts.values()],
+    warnings,
+  };
+}
+
+// ============================================
+// SVG
+// ============================================
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * The prepared design as a standalone SVG document. Images are inlined;
+ * loaded fonts are inlined as @font-face rules unless `embedFonts` is false.
+ */
+export function designToSVG(design: PreparedDesign, { embedFonts = true }: { embedFonts?: boolean } = {}): string {
+  const defs: string[] = [];
+
+  if (embedFonts) {
+    const faces = design.fonts
+      .filter(font => font.data)
+      .map(font =>
+        `@font-face{font-family:${JSON.stringify(font.family)};font-weight:${font.weight};font-style:${font.italic ? 'italic' : 'normal'};` +
+        `src:url(data:font/ttf;base64,${encodeBase64(font.data!)}) format("truetype")}`
+      );
+    if (faces.length > 0) defs.push(`<style>${faces.join('')}</style>`);
+  }
+
+  const body = design.elements.map((item, index) => {
+    const { element, matrix, opacity } = item;
+    let content = '';
+
+    if (item.text) {
+      const { font, fontSize, color, letterSpacing, lines } = item.text;
+      const attributes = [
+        `font-family="${escapeXml(`'${font.family}', sans-serif`)}"`,
+        `font-size="${round(fontSize)}"`,
+        `font-weight="${font.weight}"`,
+        font.italic && 'font-style="italic"',
+        `fill="${escapeXml(color)}"`,
+        letterSpacing !== 0 && `letter-spacing="${round(letterSpacing)}"`,
+      ].filter(Boolean).join(' ');
+      const spans = lines
+        .filter(line => line.text)
+        .map(line => `<tspan x="${round(line.x)}" y="${round(line.baseline)}">${escapeXml(line.text)}</tspan>`)
+        .join('');
+      content = `<text ${attributes} xml:space="preserve">${spans}</text>`;
+    } else if (item.image) {
+      const href = `data:${item.image.mimeType};base64,${encodeBase64(item.image.data)}`;
+      content = `<image href="${href}" width="${round(element.width)}" height="${round(element.height)}" preserveAspectRatio="xMidYMid slice"/>`;
+    } else if (item.shape) {
+      const { path, fill, stroke, strokeWidth } = item.shape;
+      content = `<path d="${pathToSVG(path)}" fill="${fill ? escapeXml(fill) : 'none'}"` +
+        (stroke ? ` stroke="${escapeXml(stroke)}" stroke-width="${round(strokeWidth)}"` : '') + '/>';
+    }
+
+    // Images fill their box like object-fit: cover, so they are clipped to it
+    const clip = item.clip ?? (item.image ? rectPath(element.width, element.height) : undefined);
+    if (clip) {
+      defs.push(`<clipPath id="clip-${index}"><path d="${pathToSVG(clip)}"/></clipPath>`);
+      content = `<g clip-path="url(#clip-${index})">${content}</g>`;
+    }
+
+    return `<g transform="matrix(${matrix.map(round).join(' ')})"${opacity < 1 ? ` opacity="${round(opacity)}"` : ''}>${content}</g>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${design.width}" height="${design.height}" viewBox="0 0 ${design.width} ${design.height}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    `<rect width="${design.width}" height="${design.height}" fill="${escapeXml(design.background)}"/>`,
+    ...body,
+    '</svg>',
+  ].filter(Boolean).join('\n');
+}
+
+export async function renderDesignSVG(
+  elements: DesignElement[],
+  options: DesignRenderOptions
+): Promise<{ svg: string; warnings: string[] }> {
+  const design = await prepareDesign(elements, options);
+  return { svg: designToSVG(design), warnings: design.warnings };
+}
+
+// ============================================
+// RASTER
+// ============================================
+
+/** Draws the SVG onto a canvas; fonts and images are already inlined in it */
+/** Draws an SVG document onto a new canvas of the given size */
+export async function drawSVGOnCanvas(svg: string, width: number, height: number): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const rasterizeInBrowser: DesignRasterizer = async ({ svg, width, height, format, quality }) => {
+  const canvas = await drawSVGOnCanvas(svg, width, height);
+  const type = `image/${format}`;
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error('The canvas could not be encoded');
+  // Browsers that cannot encode a type fall back to PNG
+  if (blob.type !== type) throw new Error(`This browser cannot encode ${format.toUpperCase()}`);
+  return blob;
+};
+
+/**
+ * Render the design to PNG or WebP at `scale` pixels per design unit.
+ * Pass `rasterize` to render without a browser, e.g. with resvg in tests.
+ */
+export async function renderDesignRaster(
+  elements: DesignElement[],
+  options: DesignRasterOptions
+): Promise<{ blob: Blob; warnings: string[] }> {
+  const { format, scale = 1, quality, rasterize = rasterizeInBrowser } = options;
+  if (!(scale > 0)) throw new Error('Export scale must be greater than zero');
+
+  const design = await prepareDesign(elements, options);
+  const blob = await rasterize({
+    svg: designToSVG(design),
+    width: Math.round(design.width * scale),
+    height: Math.round(design.height * scale),
+    format,
+    quality,
+    fonts: design.fonts,
+  });
+  return { blob, warnings: design.warnings };
+}
@@ -157,6 +157,27 @@ export function isFontLoaded(fontFamily: string): boolean {
   return loadedFonts.has(fontFamily);
 }
 
+// Download the TrueType file of a family variant (e.g. 'regular', '700italic'),
+// for embedding into documents rather than loading into the page
+export async function fetchGoogleFontFile(
+  fontFamily: string,
+  variant: string = 'regular'
+): Promise<ArrayBuffer> {
+  const fonts = await fetchGoogleFonts();
+  const url = fonts.find(f => f.family === fontFamily)?.files?.[variant];
+
+  if (!url) {
+    throw new Error(`Font file not available: ${fontFamily} ${variant}`);
+  }
+
+  const response = await fetch(url.replace(/^http:/, 'https:'));
+  if (!response.ok) {
+    throw new Error(`Failed to download font: ${fontFamily}`);
+  }
+
+  return response.arrayBuffer();
+}
+
 // ============================================
 // FONT VARIANTS
 // ============================================
@@ -381,6 +402,7 @@ export default {
   loadFont,
   loadFonts,
   isFontLoaded,
+  fetchGoogleFontFile,
   getFontVariants,
   getFontPairings,
   suggestPairings,
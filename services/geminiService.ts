@@ -1,123 +1,34 @@
-
-import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
 import { VideoAspectRatio } from "../types";
-
-// Model constants - Gemini 3 Pro for high quality
-const TEXT_FLASH = 'gemini-3-flash-preview';
-const TEXT_PRO = 'gemini-3-pro-preview';
-const IMAGE_PRO = 'gemini-3-pro-image-preview';
-const IMAGE_FLASH = 'gemini-2.5-flash-preview-04-17';
-const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
-const VIDEO_HIGH_MODEL = 'veo-3.1-generate-preview';
-const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
-const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
-
-// Storage key for BYOK
-const BYOK_STORAGE_KEY = 'lumina_gemini_api_key';
-
-/**
- * Get the active API key with BYOK priority:
- * 1. User's BYOK key from localStorage (highest priority)
- * 2. Session key from window.__GEMINI_API_KEY__
- * 3. Build-time environment variable (fallback for included credits)
- */
-export const getActiveApiKey = (): { key: string; source: 'byok' | 'platform' } | null => {
-  // Priority 1: User's own key (BYOK)
-  const byokKey = typeof window !== 'undefined'
-    ? localStorage.getItem(BYOK_STORAGE_KEY) || (window as any).__GEMINI_API_KEY__
-    : null;
-
-  if (byokKey && byokKey.length > 10) {
-    return { key: byokKey, source: 'byok' };
-  }
-
-  // Priority 2: Platform's included credits (build-time key)
-  const platformKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-  if (platformKey) {
-    return { key: platformKey, source: 'platform' };
-  }
-
-  return null;
-};
-
-/**
- * Check if user has BYOK configured
- */
-export const hasBYOK = (): boolean => {
-  if (typeof window === 'undefined') return false;
-  const key = localStorage.getItem(BYOK_STORAGE_KEY) || (window as any).__GEMINI_API_KEY__;
-  return !!key && key.length > 10;
-};
-
-/**
- * Check if platform credits are available
- */
-export const hasPlatformCredits = (): boolean => {
-  const platformKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
-  return !!platformKey;
-};
-
-// Get AI client - prioritizes BYOK, falls back to platform credits
-export const getAIClient = () => {
-  const keyInfo = getActiveApiKey();
-
-  if (!keyInfo) {
-    throw new Error(
-      'No API key available. Either add your own Gemini API key in Settings, ' +
-      'or upgrade to a plan with included AI credits.'
-    );
-  }
-
-  return new GoogleGenAI({ apiKey: keyInfo.key });
-};
-
-/**
- * Get AI client with explicit source tracking (for usage analytics)
- */
-export const getAIClientWithSource = (): { client: GoogleGenAI; source: 'byok' | 'platform' } => {
-  const keyInfo = getActiveApiKey();
-
-  if (!keyInfo) {
-    throw new Error(
-      'No API key available. Either add your own Gemini API key in Settings, ' +
-      'or upgrade to a plan with included AI credits.'
-    );
-  }
-
-  return {
-    client: new GoogleGenAI({ apiKey: keyInfo.key }),
-    source: keyInfo.source
-  };
-};
+import { getAIProvider, getAIProviderById, parseJsonReply } from "./aiProvider";
+import type { GeneratedVideo, JsonSchema, VideoJob } from "./aiProvider";
+
+// Key handling lives with the Gemini adapter; re-exported for existing callers
+export {
+  getActiveApiKey,
+  hasBYOK,
+  hasPlatformCredits,
+  getAIClient,
+  getAIClientWithSource,
+} from "./aiProviderGemini";
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+async function generateJson<T>(prompt: string, schema: JsonSchema, fallback: T, quality: 'fast' | 'high' = 'fast'): Promise<T> {
+  const result = await getAIProvider('text').text.generate({ prompt, schema, quality });
+  return parseJsonReply(result.text, fallback);
+}
 
 /**
- * AI Image Editing using Gemini 2.5 Flash Image.
+ * AI Image Editing.
  * Supports prompting changes relative to an existing image.
  */
 export async function editImage(base64Data: string, prompt: string, mimeType: string = 'image/png') {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: IMAGE_FLASH,
-    contents: {
-      parts: [
-        { inlineData: { data: base64Data, mimeType } },
-        { text: prompt }
-      ]
-    }
-  });
-
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    } else if (part.text) {
-      console.log("Model response text:", part.text);
-    }
-  }
-  throw new Error("Generative image edit failed to return image data.");
+  const result = await getAIProvider('image').image.generate({ prompt, source: { data: base64Data, mimeType } });
+  return result.dataUrl;
 }
 
 /**
- * Fast text generation using Gemini 3 Flash by default.
+ * Fast text generation by default; `think` uses the provider's stronger model.
  */
 export async function generateText(prompt: string, options: { 
   systemInstruction?: string, 
@@ -125,26 +36,16 @@ export async function generateText(prompt: string, options: {
   think?: boolean,
   fast?: boolean
 } = { fast: true }) {
-  const ai = getAIClient();
-  const model = options.think ? TEXT_PRO : TEXT_FLASH;
-  const config: any = { 
-    systemInstruction: options.systemInstruction,
-    thinkingConfig: options.think ? { thinkingBudget: 16000 } : undefined
-  };
-  
-  if (options.useSearch) {
-    config.tools = [{ googleSearch: {} }];
-  }
-
-  const response = await ai.models.generateContent({
-    model,
-    contents: prompt,
-    config
+  const result = await getAIProvider('text').text.generate({
+    prompt,
+    system: options.systemInstruction,
+    quality: options.think ? 'high' : 'fast',
+    search: options.useSearch,
   });
-  
+
   return {
-    text: response.text,
-    grounding: response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+    text: result.text,
+    grounding: result.grounding
   };
 }
 
@@ -152,47 +53,30 @@ export async function generateText(prompt: string, options: {
  * Smart Asset Recommendations: Analyzes a source asset and a library to suggest matches.
  */
 export async function suggestRelatedAssets(sourceAsset: any, library: any[]) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: `Analyze this asset: ${JSON.stringify(sourceAsset)}. 
+  return generateJson<string[]>(
+    `Analyze this asset: ${JSON.stringify(sourceAsset)}. 
     From this library: ${JSON.stringify(library.map(a => ({id: a.id, name: a.name, type: a.type, tags: a.tags})))}.
     Suggest the top 3 assets that would complement this one (e.g. same style, useful for the same project, or visually similar).
     Return ONLY a JSON array of asset IDs.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
-  });
-  return JSON.parse(response.text || "[]");
+    STRING_LIST,
+    []
+  );
 }
 
 /**
- * Semantic Audio Search: Uses Gemini to rank tracks based on intent.
+ * Semantic Audio Search: Uses the text model to rank tracks based on intent.
  */
 export async function semanticAudioSearch(query: string, tracks: any[]) {
-  const ai = getAIClient();
   const trackContext = tracks.map(t => ({ id: t.id, name: t.name, genre: t.genre, tags: t.tags, bpm: t.bpm }));
-  
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: `User is looking for music with this prompt: "${query}". 
-    Rank these tracks from most to least relevant. Return ONLY a JSON array of track IDs.
-    Tracks: ${JSON.stringify(trackContext)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
-  });
 
   try {
-    return JSON.parse(response.text || "[]") as string[];
+    return await generateJson<string[]>(
+      `User is looking for music with this prompt: "${query}". 
+    Rank these tracks from most to least relevant. Return ONLY a JSON array of track IDs.
+    Tracks: ${JSON.stringify(trackContext)}`,
+      STRING_LIST,
+      []
+    );
   } catch (e) {
     console.error("Failed to parse semantic search results", e);
     return [];
@@ -203,187 +87,107 @@ export async function semanticAudioSearch(query: string, tracks: any[]) {
  * Intelligent Redaction: Scans text for PII.
  */
 export async function scanForSensitiveData(text: string) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: `Identify all sensitive data (names, emails, phones, dates, locations) in this text: "${text}". Return as a JSON array of unique strings found.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
-  });
-  return JSON.parse(response.text || "[]");
+  return generateJson<string[]>(
+    `Identify all sensitive data (names, emails, phones, dates, locations) in this text: "${text}". Return as a JSON array of unique strings found.`,
+    STRING_LIST,
+    []
+  );
 }
 
 /**
  * Document Reflow: Converts raw text into structured hierarchy.
  */
 export async function reflowDocumentText(text: string) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_PRO,
-    contents: `Reflow this text into a professional document structure with headings and body content. Keep the meaning identical but improve hierarchy: "${text}"`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            type: { type: Type.STRING, description: "heading or body" },
-            content: { type: Type.STRING }
-          },
-          required: ["type", "content"]
-        }
+  return generateJson<Array<{ type: string; content: string }>>(
+    `Reflow this text into a professional document structure with headings and body content. Keep the meaning identical but improve hierarchy: "${text}"`,
+    {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', description: "heading or body" },
+          content: { type: 'string' }
+        },
+        required: ["type", "content"]
       }
-    }
-  });
-  return JSON.parse(response.text || "[]");
+    },
+    [],
+    'high'
+  );
 }
 
 /**
- * Text-to-Speech generation via Gemini TTS.
+ * Text-to-Speech. Returns base64 16-bit PCM at 24kHz.
  */
 export async function generateSpeech(text: string, voiceName: 'Kore' | 'Puck' | 'Charon' | 'Zephyr' | 'Fenrir' = 'Kore') {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TTS_MODEL,
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName },
-        },
-      },
-    },
-  });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  const result = await getAIProvider('speech').speech.synthesize({ text, voice: voiceName });
+  return result.audio;
 }
 
 /**
- * Audio Transcription using Gemini 3 Flash.
+ * Audio Transcription.
  */
 export async function transcribeAudio(base64Audio: string, mimeType: string = 'audio/wav') {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: {
-      parts: [
-        { inlineData: { data: base64Audio, mimeType } },
-        { text: "Transcribe this audio exactly. Provide timing if possible. No commentary." }
-      ]
-    }
-  });
-  return response.text;
+  return getAIProvider('speech').speech.transcribe({ data: base64Audio, mimeType });
 }
 
 /**
  * High-speed image and video analysis.
  */
 export async function analyzeMedia(prompt: string, mediaData: { data: string, mimeType: string }) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: {
-      parts: [
-        { inlineData: mediaData },
-        { text: prompt }
-      ]
-    }
-  });
-  return response.text;
+  const result = await getAIProvider('text').text.generate({ prompt, media: [mediaData] });
+  return result.text;
 }
 
 /**
  * Deep Video Understanding.
  */
 export async function analyzeVideoContent(base64Video: string, prompt: string, mimeType: string = 'video/mp4') {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: {
-      parts: [
-        { inlineData: { data: base64Video, mimeType } },
-        { text: prompt }
-      ]
-    }
-  });
-  return response.text;
+  const result = await getAIProvider('text').text.generate({ prompt, media: [{ data: base64Video, mimeType }] });
+  return result.text;
 }
 
 /**
- * High-quality 2K/4K image generation with Gemini 3 Pro Image.
+ * High-quality 2K/4K image generation.
  * Supports: "1:1", "3:4", "4:3", "9:16", "16:9"
  */
 export async function generateHighQualityImage(prompt: string, aspectRatio: "1:1" | "4:3" | "16:9" | "9:16" = "1:1", size: "1K" | "2K" | "4K" = "2K") {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: IMAGE_PRO,
-    contents: { parts: [{ text: prompt }] },
-    config: {
-      imageConfig: {
-        aspectRatio,
-        imageSize: size
-      }
-    }
-  });
-
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  throw new Error("Image generation failed");
+  const result = await getAIProvider('image').image.generate({ prompt, aspectRatio, size });
+  return result.dataUrl;
 }
 
 /**
  * Storyboard synthesis from script.
  */
 export async function generateStoryboardFromScript(script: string) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_PRO,
-    contents: `Analyze script and generate 4 cinematic shots. Script: ${script}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            prompt: { type: Type.STRING },
-            camera: { type: Type.STRING },
-            lighting: { type: Type.STRING },
-            lensType: { type: Type.STRING },
-            motionDescription: { type: Type.STRING },
-            cinematicDetail: { type: Type.STRING },
-            motionScore: { type: Type.INTEGER }
-          }
+  return generateJson<any[]>(
+    `Analyze script and generate 4 cinematic shots. Script: ${script}`,
+    {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          prompt: { type: 'string' },
+          camera: { type: 'string' },
+          lighting: { type: 'string' },
+          lensType: { type: 'string' },
+          motionDescription: { type: 'string' },
+          cinematicDetail: { type: 'string' },
+          motionScore: { type: 'integer', minimum: 1, maximum: 10 }
         }
       }
-    }
-  });
-  return JSON.parse(response.text || "[]");
+    },
+    [],
+    'high'
+  );
 }
 
 export async function generateStyleSuggestions(prompt: string) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: `Suggest 6 distinct artistic styles for: "${prompt}". Return as JSON array of strings.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
-  });
-  return JSON.parse(response.text || "[]");
+  return generateJson<string[]>(
+    `Suggest 6 distinct artistic styles for: "${prompt}". Return as JSON array of strings.`,
+    STRING_LIST,
+    []
+  );
 }
 
 export async function generateBatchImages(prompt: string, count: number, aspectRatio: any) {
@@ -393,138 +197,94 @@ export async function generateBatchImages(prompt: string, count: number, aspectR
 
 // Fix for Canvas.tsx: Add generateBackground
 export async function generateBackground(subject: string, prompt: string) {
-  const ai = getAIClient();
   const fullPrompt = `Generate a cinematic high-quality background for: ${subject}. Artistic style: ${prompt}`;
-  const response = await ai.models.generateContent({
-    model: IMAGE_PRO,
-    contents: { parts: [{ text: fullPrompt }] },
-    config: {
-      imageConfig: {
-        aspectRatio: "16:9",
-        imageSize: "2K"
-      }
-    }
-  });
-
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-  throw new Error("Background generation failed");
+  return generateHighQualityImage(fullPrompt, "16:9", "2K");
 }
 
 // Fix for AssetHub.tsx: Add suggestAssetMetadata
 export async function suggestAssetMetadata(name: string, type: string) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: `Suggest professional tags and a description for an asset named "${name}" of type "${type}". Return JSON with "tags" (string array) and "description" (string).`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-          description: { type: Type.STRING }
-        },
-        required: ["tags", "description"]
-      }
-    }
-  });
-  return JSON.parse(response.text || "{}");
+  return generateJson<{ tags?: string[]; description?: string }>(
+    `Suggest professional tags and a description for an asset named "${name}" of type "${type}". Return JSON with "tags" (string array) and "description" (string).`,
+    {
+      type: 'object',
+      properties: {
+        tags: STRING_LIST,
+        description: { type: 'string' }
+      },
+      required: ["tags", "description"]
+    },
+    {}
+  );
 }
 
 // Fix for AssetHub.tsx: Add analyzeAssetDeep
 export async function analyzeAssetDeep(name: string, description: string, tags: string[]) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_PRO,
-    contents: `Deeply analyze this asset context for production readiness: Name: ${name}, Description: ${description}, Tags: ${tags.join(', ')}. Return JSON with "composition", "alignment", and "quality" insights.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          composition: { type: Type.STRING },
-          alignment: { type: Type.STRING },
-          quality: { type: Type.STRING }
-        },
-        required: ["composition", "alignment", "quality"]
-      }
-    }
-  });
-  return JSON.parse(response.text || "{}");
+  return generateJson<{ composition?: string; alignment?: string; quality?: string }>(
+    `Deeply analyze this asset context for production readiness: Name: ${name}, Description: ${description}, Tags: ${tags.join(', ')}. Return JSON with "composition", "alignment", and "quality" insights.`,
+    {
+      type: 'object',
+      properties: {
+        composition: { type: 'string' },
+        alignment: { type: 'string' },
+        quality: { type: 'string' }
+      },
+      required: ["composition", "alignment", "quality"]
+    },
+    {},
+    'high'
+  );
 }
 
 // Fix for AssetHub.tsx: Add bulkSuggestTags
 export async function bulkSuggestTags(assets: {name: string, type: string}[]) {
-  const ai = getAIClient();
-  const response = await ai.models.generateContent({
-    model: TEXT_FLASH,
-    contents: `Suggest professional metadata tags for these assets: ${JSON.stringify(assets)}. Return a JSON array of objects with "name" and "tags" (string array).`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            tags: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ["name", "tags"]
-        }
+  return generateJson<Array<{ name: string; tags: string[] }>>(
+    `Suggest professional metadata tags for these assets: ${JSON.stringify(assets)}. Return a JSON array of objects with "name" and "tags" (string array).`,
+    {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          tags: STRING_LIST
+        },
+        required: ["name", "tags"]
       }
-    }
-  });
-  return JSON.parse(response.text || "[]");
+    },
+    []
+  );
 }
 
-// Helper to map UI ratios to supported native Veo ratios (16:9 or 9:16)
+// Helper to map UI ratios to supported native video ratios (16:9 or 9:16)
 const mapAspectRatio = (ratio: VideoAspectRatio): "16:9" | "9:16" => {
   if (ratio === '9:16') return '9:16';
-  return '16:9'; // Default for landscape or square-like ratios in Veo
+  return '16:9'; // Default for landscape or square-like ratios
 };
 
 export async function generateAnimatedLoop(prompt: string, aspectRatio: VideoAspectRatio = "16:9") {
-  const ai = getAIClient();
   const loopPrompt = `A seamless 3-second animated loop: ${prompt}. Cinematic.`;
-  return await ai.models.generateVideos({
-    model: VIDEO_MODEL,
-    prompt: loopPrompt,
-    config: { numberOfVideos: 1, resolution: '720p', aspectRatio: mapAspectRatio(aspectRatio) }
-  });
+  return getAIProvider('video').video.start({ prompt: loopPrompt, aspectRatio: mapAspectRatio(aspectRatio) });
 }
 
 export async function startVideoGeneration(prompt: string, aspectRatio: VideoAspectRatio = "16:9") {
-  const ai = getAIClient();
-  return await ai.models.generateVideos({
-    model: VIDEO_MODEL,
-    prompt,
-    config: { numberOfVideos: 1, resolution: '720p', aspectRatio: mapAspectRatio(aspectRatio) }
-  });
+  return getAIProvider('video').video.start({ prompt, aspectRatio: mapAspectRatio(aspectRatio) });
 }
 
-export async function pollVideoOperation(operationId: any) {
-  const ai = getAIClient();
-  return await ai.operations.getVideosOperation({ operation: operationId });
+/** Jobs are polled by the provider that started them */
+export async function pollVideoOperation(job: VideoJob) {
+  return getAIProviderById(job.provider, 'video').video.poll(job);
 }
 
-export async function fetchVideoData(uri: string) {
-  const keyInfo = getActiveApiKey();
-  if (!keyInfo) throw new Error('No API key available for video fetch');
-  const response = await fetch(`${uri}&key=${keyInfo.key}`);
-  return await response.blob();
+export async function fetchVideoData(job: VideoJob) {
+  if (!job.video) throw new Error(job.error || 'Video is not ready');
+  return getAIProviderById(job.provider, 'video').video.fetch(job.video);
 }
 
-export async function extendVideo(previousVideo: any, prompt: string, aspectRatio: VideoAspectRatio) {
-  const ai = getAIClient();
-  return await ai.models.generateVideos({
-    model: VIDEO_HIGH_MODEL,
+export async function extendVideo(previousVideo: GeneratedVideo, prompt: string, aspectRatio: VideoAspectRatio) {
+  return getAIProvider('video').video.start({
     prompt,
-    video: previousVideo,
-    config: { numberOfVideos: 1, resolution: '720p', aspectRatio: mapAspectRatio(aspectRatio) }
+    extend: previousVideo,
+    quality: 'high',
+    aspectRatio: mapAspectRatio(aspectRatio)
   });
 }
 
@@ -0,0 +1,395 @@
+// ============================================
+// LUMINA GIF ENCODER
+// Animated GIFs: per-frame median-cut palettes, Floyd-Steinberg or ordered
+// dithering, LZW compression, and identical frames merged into one
+// ============================================
+
+import type { GifDither } from '../types/export';
+import type { DecodedImage } from './printExport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  /** Palette size per frame, 2-256; defaults to 256 */
+  colors?: number;
+  /** Defaults to Floyd-Steinberg error diffusion */
+  dither?: GifDither;
+  /** Times to play; 0 repeats forever, 1 (the default) plays once */
+  repeat?: number;
+}
+
+export interface GifEncoder {
+  /** Adds a frame shown from `time` (ms) until the next frame or `endTime` */
+  addFrame(frame: DecodedImage, time: number): void;
+  finish(endTime: number): Uint8Array;
+}
+
+interface IndexedFrame {
+  palette: Uint8Array;
+  indices: Uint8Array;
+  time: number;
+  pixels: DecodedImage['data'];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MAX_CODE = 4095;
+
+// 4×4 Bayer matrix, thresholds 0-15
+const BAYER = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Spread of the ordered dither, in 8-bit levels
+const ORDERED_SPREAD = 32;
+
+// ============================================
+// QUANTIZATION
+// ============================================
+
+// Colours are counted at 5 bits per channel
+const key15 = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface ColorBox {
+  colors: number[];
+  count: number;
+}
+
+function boxRange(box: ColorBox): { channel: number; range: number } {
+  let best = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel++) {
+    const shift = 10 - channel * 5;
+    let min = 31;
+    let max = 0;
+    for (const color of box.colors) {
+      const value = (color >> shift) & 31;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > best.range) best = { channel, range: max - min };
+  }
+  return best;
+}
+
+/** Median-cut palette of at most `size` colours, as RGB triples */
+export function quantize(pixels: DecodedImage['data'], size: number): Uint8Array {
+  const histogram = new Uint32Array(32768);
+  for (let i = 0; i < pixels.length; i += 4) histogram[key15(pixels[i]!, pixels[i + 1]!, pixels[i + 2]!)]!++;
+
+  const all: number[] = [];
+  let total = 0;
+  histogram.forEach((count, color) => {
+    if (count === 0) return;
+    all.push(color);
+    total += count;
+  });
+  const boxes: ColorBox[] = [{ colors: all, count: total }];
+
+  // Split the most populous box that still holds more than one colour along its widest channel
+  while (boxes.length < size) {
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i]!.colors.length > 1 && (target < 0 || boxes[i]!.count > boxes[target]!.count)) target = i;
+    }
+    if (target < 0) break;
+
+    const box = boxes[target]!;
+    const shift = 10 - boxRange(box).channel * 5;
+    box.colors.sort((a, b) => ((a >> shift) & 31) - ((b >> shift) & 31));
+
+    let half = 0;
+    let split = 0;
+    while (split < box.colors.length - 1 && half + histogram[box.colors[split]!]! <= box.count / 2) {
+      half += histogram[box.colors[split++]!]!;
+    }
+    if (split === 0) half = histogram[box.colors[split++]!]!;
+
+    boxes.splice(target, 1,
+      { colors: box.colors.slice(0, split), count: half },
+      { colors: box.colors.slice(split), count: box.count - half });
+  }
+
+  // Each box becomes the count-weighted mean of its colours
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, i) => {
+    const sum = [0, 0, 0];
+    for (const color of box.colors) {
+      const count = histogram[color]!;
+      sum[0]! += (((color >> 10) & 31) * 8 + 4) * count;
+      sum[1]! += (((color >> 5) & 31) * 8 + 4) * count;
+      sum[2]! += ((color & 31) * 8 + 4) * count;
+    }
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sum[c]! / (box.count || 1));
+  });
+
+  // Exact colours survive when the image has few enough of them
+  if (all.length <= size) {
+    const exact = new Map<number, [number, number, number]>();
+    for (let i = 0; i < pixels.length && exact.size <= size; i += 4) {
+      exact.set((pixels[i]! << 16) | (pixels[i + 1]! << 8) | pixels[i + 2]!, [pixels[i]!, pixels[i + 1]!, pixels[i + 2]!]);
+    }
+    if (exact.size <= size) return new Uint8Array([...exact.values()].flat());
+  }
+  return palette;
+}
+
+/** Palette indices for every pixel, dithered as requested */
+export function mapToPalette(frame: DecodedImage, palette: Uint8Array, dither: GifDither): Uint8Array {
+  const { width, height, data } = frame;
+  const colors = palette.length / 3;
+  const indices = new Uint8Array(width * height);
+
+  const nearestTo = (r: number, g: number, b: number) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < colors; i++) {
+      const dr = palette[i * 3]! - r;
+      const dg = palette[i * 3 + 1]! - g;
+      const db = palette[i * 3 + 2]! - b;
+      const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  // Exact matches are looked up by full colour; dithered colours by their 15-bit bucket
+  const exact = new Map<number, number>();
+  const buckets = new Int16Array(32768).fill(-1);
+  const nearest = (r: number, g: number, b: number) => {
+    if (dither === 'none') {
+      const color = (r << 16) | (g << 8) | b;
+      let index = exact.get(color);
+      if (index === undefined) exact.set(color, (index = nearestTo(r, g, b)));
+      return index;
+    }
+    const bucket = key15(r, g, b);
+    if (buckets[bucket]! < 0) buckets[bucket] = nearestTo(r, g, b);
+    return buckets[bucket]!;
+  };
+  const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : Math.round(value));
+
+  if (dither === 'floyd-steinberg') {
+    // Error carried to the current and the next row, three channels per pixel
+    let current = new Float32Array((width + 2) * 3);
+    let next = new Float32Array((width + 2) * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = (y * width + x) * 4;
+        const e = (x + 1) * 3;
+        const r = clamp(data[p]! + current[e]!);
+        const g = clamp(data[p + 1]! + current[e + 1]!);
+        const b = clamp(data[p + 2]! + current[e + 2]!);
+        const index = nearest(r, g, b);
+        indices[y * width + x] = index;
+
+        const error = [r - palette[index * 3]!, g - palette[index * 3 + 1]!, b - palette[index * 3 + 2]!];
+        for (let c = 0; c < 3; c++) {
+          current[e + 3 + c]! += (error[c]! * 7) / 16;
+          next[e - 3 + c]! += (error[c]! * 3) / 16;
+          next[e + c]! += (error[c]! * 5) / 16;
+          next[e + 3 + c]! += error[c]! / 16;
+        }
+      }
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+    return indices;
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      const offset = dither === 'ordered' ? ((BAYER[(y & 3) * 4 + (x & 3)]! + 0.5) / 16 - 0.5) * ORDERED_SPREAD : 0;
+      indices[y * width + x] = offset === 0
+        ? nearest(data[p]!, data[p + 1]!, data[p + 2]!)
+        : nearest(clamp(data[p]! + offset), clamp(data[p + 1]! + offset), clamp(data[p + 2]! + offset));
+    }
+  }
+  return indices;
+}
+
+// ============================================
+// LZW
+// ============================================
+
+/** Growable byte buffer */
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]!);
+  }
+
+  u16(value: number): void {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/** GIF LZW image data, split into sub-blocks */
+function lzwEncode(out: ByteWriter, indices: Uint8Array, minCodeSize: number): void {
+  out.byte(minCodeSize);
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const write = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+
+  write(clearCode, codeSize);
+  let prefix = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i]!;
+    const key = (prefix << 8) | index;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix, codeSize);
+    if (nextCode <= MAX_CODE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      // The table is full: start over
+      write(clearCode, codeSize);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = index;
+  }
+  write(prefix, codeSize);
+  write(endCode, codeSize);
+  if (bitCount > 0) block[blockLength++] = bitBuffer & 0xff;
+  if (blockLength > 0) flushBlock();
+  out.byte(0);
+}
+
+// ============================================
+// ENCODER
+// ============================================
+
+const samePixels = (a: DecodedImage['data'], b: DecodedImage['data']) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+};
+
+/**
+ * Streams frames into an animated GIF. Frame delays are in hundredths of a
+ * second, taken between rounded frame times so that they add up to the
+ * animation's length.
+ */
+export function createGifEncoder(options: GifEncoderOptions): GifEncoder {
+  const { width, height, dither = 'floyd-steinberg', repeat = 1 } = options;
+  const colors = Math.max(2, Math.min(256, Math.round(options.colors ?? 256)));
+  if (!(width > 0 && height > 0 && width <= 0xffff && height <= 0xffff)) {
+    throw new Error('GIF frames must be between 1 and 65535 pixels across');
+  }
+
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.u16(width);
+  out.u16(height);
+  out.bytes([0, 0, 0]); // No global colour table; each frame brings its own
+
+  if (repeat !== 1) {
+    // NETSCAPE2.0 application extension: the loop count excludes the first play
+    out.bytes([0x21, 0xff, 11]);
+    out.ascii('NETSCAPE2.0');
+    out.bytes([3, 1]);
+    out.u16(repeat === 0 ? 0 : Math.min(0xffff, repeat - 1));
+    out.byte(0);
+  }
+
+  let pending: IndexedFrame | null = null;
+
+  const writeFrame = (frame: IndexedFrame, endTime: number) => {
+    const delay = Math.max(1, Math.round(endTime / 10) - Math.round(frame.time / 10));
+    const bits = Math.max(1, Math.ceil(Math.log2(frame.palette.length / 3)));
+
+    // Graphic control extension: no disposal, no transparency
+    out.bytes([0x21, 0xf9, 4, 0x04]);
+    out.u16(delay);
+    out.bytes([0, 0]);
+
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(width);
+    out.u16(height);
+    out.byte(0x80 | (bits - 1));
+    const table = new Uint8Array(3 << bits);
+    table.set(frame.palette);
+    out.bytes(table);
+
+    lzwEncode(out, frame.indices, Math.max(2, bits));
+  };
+
+  return {
+    addFrame(frame, time) {
+      if (frame.width !== width || frame.height !== height) {
+        throw new Error(`GIF frames must all be ${width}×${height}`);
+      }
+      if (pending && samePixels(pending.pixels, frame.data)) return;
+      if (pending) writeFrame(pending, time);
+
+      const palette = quantize(frame.data, colors);
+      pending = { palette, indices: mapToPalette(frame, palette, dither), time, pixels: frame.data };
+    },
+    finish(endTime) {
+      if (!pending) throw new Error('A GIF needs at least one frame');
+      writeFrame(pending, endTime);
+      pending = null;
+      out.byte(0x3b);
+      return out.toBytes();
+    },
+  };
+}
@@ -0,0 +1,504 @@
+// ============================================
+// LUMINA ICC PROFILES
+// Reads ICC colour profiles, converts sRGB colours to the CMYK of an
+// output profile, and builds the sRGB and generic CMYK profiles that
+// are embedded when no other profile is supplied
+// ============================================
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RenderingIntent = 'perceptual' | 'relative';
+
+export interface ICCProfile {
+  data: Uint8Array;
+  /** Major and minor version, e.g. 2.1 */
+  version: number;
+  /** Profile class signature, e.g. 'prtr' for output profiles */
+  deviceClass: string;
+  /** Data colour space signature without padding, e.g. 'CMYK' */
+  colorSpace: string;
+  /** Profile connection space, 'Lab' or 'XYZ' */
+  pcs: string;
+  description: string;
+}
+
+/** Components in 0-1 */
+export type CMYK = [number, number, number, number];
+
+/** Converts an sRGB colour with components in 0-255 */
+export type CMYKConverter = (r: number, g: number, b: number) => CMYK;
+
+/** An 8- or 16-bit lookup table (lut8Type / lut16Type), normalised to 0-1 */
+interface Lut {
+  inputs: number;
+  outputs: number;
+  grid: number;
+  precision: 8 | 16;
+  matrix: number[];
+  inputCurves: Float64Array[];
+  clut: Float64Array;
+  outputCurves: Float64Array[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** The PCS illuminant */
+const D50: [number, number, number] = [0.9642, 1.0, 0.8249];
+
+/** sRGB primaries adapted to D50, as in the sRGB profile's colorant tags */
+const SRGB_TO_XYZ = [
+  0.4361, 0.3851, 0.1431,
+  0.2225, 0.7169, 0.0606,
+  0.0139, 0.0971, 0.7141,
+];
+
+const XYZ_TO_SRGB = invert3(SRGB_TO_XYZ);
+
+/** Grid points per axis of the sRGB cube a converter samples */
+const CONVERTER_GRID = 33;
+
+/** Grid points of the generic profile's tables */
+const GENERIC_BTOA_GRID = 17;
+const GENERIC_ATOB_GRID = 9;
+
+export const GENERIC_CMYK_DESCRIPTION = 'Lumina Generic CMYK';
+
+// ============================================
+// COLOUR MATH
+// ============================================
+
+function invert3(m: number[]): number[] {
+  const [a, b, c, d, e, f, g, h, i] = m as [number, number, number, number, number, number, number, number, number];
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const transform3 = (m: number[], [x, y, z]: number[]) => [
+  m[0]! * x! + m[1]! * y! + m[2]! * z!,
+  m[3]! * x! + m[4]! * y! + m[5]! * z!,
+  m[6]! * x! + m[7]! * y! + m[8]! * z!,
+];
+
+const decodeSRGB = (v: number) => (v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4));
+const encodeSRGB = (v: number) => (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+
+function xyzToLab(xyz: number[]): [number, number, number] {
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const [fx, fy, fz] = xyz.map((v, i) => f(v / D50[i]!)) as [number, number, number];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToXYZ([l, a, b]: number[]): number[] {
+  const fy = (l! + 16) / 116;
+  const f = (t: number) => (t > 6 / 29 ? t * t * t : (116 * t - 16) * 27 / 24389);
+  return [f(fy + a! / 500) * D50[0], f(fy) * D50[1], f(fy - b! / 200) * D50[2]];
+}
+
+/** sRGB components in 0-1 to D50 XYZ */
+export function srgbToXYZ(r: number, g: number, b: number): number[] {
+  return transform3(SRGB_TO_XYZ, [decodeSRGB(r), decodeSRGB(g), decodeSRGB(b)]);
+}
+
+/** sRGB components in 0-1 to CIELAB under D50 */
+export function srgbToLab(r: number, g: number, b: number): [number, number, number] {
+  return xyzToLab(srgbToXYZ(r, g, b));
+}
+
+// ============================================
+// READING
+// ============================================
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+const signature = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function tagTable(data: Uint8Array): Map<string, { offset: number; length: number }> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tags = new Map<string, { offset: number; length: number }>();
+  const count = view.getUint32(128);
+  for (let i = 0; i < count; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > data.length) break;
+    tags.set(signature(data, entry), { offset: view.getUint32(entry + 4), length: view.getUint32(entry + 8) });
+  }
+  return tags;
+}
+
+function readDescription(data: Uint8Array, offset: number): string {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const type = signature(data, offset);
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8);
+    return String.fromCharCode(...data.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '');
+  }
+  if (type === 'mluc' && view.getUint32(offset + 8) > 0) {
+    // The first record; text is UTF-16BE
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    return Array.from({ length: length / 2 }, (_, i) => String.fromCharCode(view.getUint16(start + i * 2))).join('');
+  }
+  return '';
+}
+
+/** Reads a profile's header and description */
+export function parseICCProfile(data: Uint8Array): ICCProfile {
+  if (data.length < 132 || signature(data, 36) !== 'acsp') {
+    throw new Error('File is not an ICC profile');
+  }
+  const description = tagTable(data).get('desc');
+  return {
+    data,
+    version: data[8]! + (data[9]! >> 4) / 10,
+    deviceClass: signature(data, 12),
+    colorSpace: signature(data, 16).trim(),
+    pcs: signature(data, 20).trim(),
+    description: description ? readDescription(data, description.offset) : '',
+  };
+}
+
+function readLut(profile: ICCProfile, tag: string): Lut {
+  const { data } = profile;
+  const entry = tagTable(data).get(tag);
+  if (!entry) throw new Error(`ICC profile has no ${tag} tag`);
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const start = entry.offset;
+  const type = signature(data, start);
+  if (type !== 'mft1' && type !== 'mft2') {
+    throw new Error(`ICC ${tag} tag is ${type.trim()}, which is not supported; use a version 2 profile`);
+  }
+
+  const inputs = data[start + 8]!;
+  const outputs = data[start + 9]!;
+  const grid = data[start + 10]!;
+  const matrix = Array.from({ length: 9 }, (_, i) => view.getInt32(start + 12 + i * 4) / 65536);
+
+  const precision = type === 'mft1' ? 8 : 16;
+  const inputEntries = precision === 8 ? 256 : view.getUint16(start + 48);
+  const outputEntries = precision === 8 ? 256 : view.getUint16(start + 50);
+  let position = start + (precision === 8 ? 48 : 52);
+
+  const read = (count: number) => {
+    const values = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      values[i] = precision === 8 ? data[position + i]! / 255 : view.getUint16(position + i * 2) / 65535;
+    }
+    position += count * (precision / 8);
+    return values;
+  };
+
+  const inputCurves = Array.from({ length: inputs }, () => read(inputEntries));
+  const clut = read(Math.pow(grid, inputs) * outputs);
+  const outputCurves = Array.from({ length: outputs }, () => read(outputEntries));
+  return { inputs, outputs, grid, precision, matrix, inputCurves, clut, outputCurves };
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+function curve(table: Float64Array, value: number): number {
+  const position = clamp01(value) * (table.length - 1);
+  const index = Math.min(Math.floor(position), table.length - 2);
+  const t = position - index;
+  return table[index]! * (1 - t) + table[index + 1]! * t;
+}
+
+/** Multilinear interpolation in the lut's grid; the first input varies slowest */
+function interpolate(lut: Lut, input: number[]): number[] {
+  const { grid, inputs, outputs, clut } = lut;
+  const base: number[] = [];
+  const fraction: number[] = [];
+  for (const value of input) {
+    const position = clamp01(value) * (grid - 1);
+    const index = Math.min(Math.floor(position), grid - 2);
+    base.push(index);
+    fraction.push(position - index);
+  }
+
+  const result = new Array<number>(outputs).fill(0);
+  for (let corner = 0; corner < 1 << inputs; corner++) {
+    let weight = 1;
+    let index = 0;
+    for (let d = 0; d < inputs; d++) {
+      const bit = (corner >> (inputs - 1 - d)) & 1;
+      weight *= bit ? fraction[d]! : 1 - fraction[d]!;
+      index = index * grid + base[d]! + bit;
+    }
+    if (weight === 0) continue;
+    for (let o = 0; o < outputs; o++) result[o]! += weight * clut[index * outputs + o]!;
+  }
+  return result;
+}
+
+function evaluateLut(lut: Lut, input: number[]): number[] {
+  const curved = input.map((value, i) => curve(lut.inputCurves[i]!, value));
+  return interpolate(lut, curved).map((value, i) => curve(lut.outputCurves[i]!, value));
+}
+
+/** CIELAB or XYZ as the normalised input of a lut */
+function encodePCS(lab: [number, number, number], pcs: string, lut: Lut): number[] {
+  if (pcs === 'XYZ') {
+    // u1Fixed15: 1.0 is 0x8000; the matrix only applies to XYZ input
+    const xyz = transform3(lut.matrix, labToXYZ(lab));
+    return xyz.map(v => (v * 0x8000) / 0xffff);
+  }
+  // Version 2 Lab encoding: L 100 and a/b 127 sit at 0xff00 of 0xffff
+  const scale = lut.precision === 16 ? 0xff00 / 0xffff : 1;
+  return [(lab[0] / 100) * scale, ((lab[1] + 128) / 255) * scale, ((lab[2] + 128) / 255) * scale];
+}
+
+/**
+ * A converter from sRGB to the CMYK of an output profile, through the
+ * profile's BToA table for the rendering intent. The table is sampled
+ * once over an sRGB cube, so converting image pixels stays cheap.
+ */
+export function createCMYKConverter(profile: ICCProfile, intent: RenderingIntent = 'relative'): CMYKConverter {
+  if (profile.colorSpace !== 'CMYK') {
+    throw new Error(`ICC profile "${profile.description}" is for ${profile.colorSpace}, not CMYK`);
+  }
+  if (profile.pcs !== 'Lab' && profile.pcs !== 'XYZ') {
+    throw new Error(`ICC profile "${profile.description}" has an unknown connection space`);
+  }
+
+  const tags = tagTable(profile.data);
+  const tag = intent === 'relative' && tags.has('B2A1') ? 'B2A1' : 'B2A0';
+  const lut = readLut(profile, tag);
+  if (lut.inputs !== 3 || lut.outputs !== 4) {
+    throw new Error(`ICC ${tag} tag does not map to CMYK`);
+  }
+
+  const n = CONVERTER_GRID;
+  const cube = new Float32Array(n * n * n * 4);
+  for (let r = 0; r < n; r++) {
+    for (let g = 0; g < n; g++) {
+      for (let b = 0; b < n; b++) {
+        const lab = srgbToLab(r / (n - 1), g / (n - 1), b / (n - 1));
+        cube.set(evaluateLut(lut, encodePCS(lab, profile.pcs, lut)), ((r * n + g) * n + b) * 4);
+      }
+    }
+  }
+
+  return (r, g, b) => {
+    const axis = (value: number) => {
+      const position = (Math.min(255, Math.max(0, value)) / 255) * (n - 1);
+      const index = Math.min(Math.floor(position), n - 2);
+      return [index, position - index] as const;
+    };
+    const [ri, rt] = axis(r);
+    const [gi, gt] = axis(g);
+    const [bi, bt] = axis(b);
+
+    const cmyk: CMYK = [0, 0, 0, 0];
+    for (let corner = 0; corner < 8; corner++) {
+      const dr = corner >> 2;
+      const dg = (corner >> 1) & 1;
+      const db = corner & 1;
+      const weight = (dr ? rt : 1 - rt) * (dg ? gt : 1 - gt) * (db ? bt : 1 - bt);
+      if (weight === 0) continue;
+      const offset = (((ri + dr) * n + gi + dg) * n + bi + db) * 4;
+      for (let c = 0; c < 4; c++) cmyk[c] = cmyk[c]! + weight * cube[offset + c]!;
+    }
+    return cmyk.map(clamp01) as CMYK;
+  };
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+const fixed = (value: number) => Math.round(value * 65536);
+
+function xyzTag(x: number, y: number, z: number): Uint8Array {
+  const data = new DataView(new ArrayBuffer(20));
+  ascii('XYZ ').forEach((b, i) => data.setUint8(i, b));
+  data.setInt32(8, fixed(x));
+  data.setInt32(12, fixed(y));
+  data.setInt32(16, fixed(z));
+  return new Uint8Array(data.buffer);
+}
+
+function textTag(value: string): Uint8Array {
+  const data = new Uint8Array(8 + value.length + 1);
+  data.set(ascii('text'));
+  data.set(ascii(value), 8);
+  return data;
+}
+
+function descriptionTag(value: string): Uint8Array {
+  const data = new Uint8Array(12 + value.length + 1 + 8 + 3 + 67);
+  data.set(ascii('desc'));
+  new DataView(data.buffer).setUint32(8, value.length + 1);
+  data.set(ascii(value), 12);
+  return data;
+}
+
+/**
+ * A lut16Type tag whose grid is filled by sampling `sample` at normalised
+ * grid coordinates. Input curves map encoded input onto the grid and
+ * default to identity; output curves are identity.
+ */
+function lut16Tag(
+  inputs: number,
+  outputs: number,
+  grid: number,
+  sample: (input: number[]) => number[],
+  inputCurves?: Array<(value: number) => number>
+): Uint8Array {
+  const points = Math.pow(grid, inputs);
+  const inputEntries = inputCurves ? 256 : 2;
+  const size = 52 + inputs * inputEntries * 2 + points * outputs * 2 + outputs * 4;
+  const view = new DataView(new ArrayBuffer(size));
+  ascii('mft2').forEach((b, i) => view.setUint8(i, b));
+  view.setUint8(8, inputs);
+  view.setUint8(9, outputs);
+  view.setUint8(10, grid);
+  [0, 4, 8].forEach(i => view.setInt32(12 + i * 4, 65536));
+  view.setUint16(48, inputEntries);
+  view.setUint16(50, 2);
+
+  let position = 52;
+  const write = (value: number) => {
+    view.setUint16(position, Math.round(clamp01(value) * 65535));
+    position += 2;
+  };
+  for (let i = 0; i < inputs; i++) {
+    for (let entry = 0; entry < inputEntries; entry++) {
+      const value = entry / (inputEntries - 1);
+      write(inputCurves?.[i]?.(value) ?? value);
+    }
+  }
+  for (let point = 0; point < points; point++) {
+    const input: number[] = [];
+    for (let d = inputs - 1, rest = point; d >= 0; d--, rest = Math.floor(rest / grid)) {
+      input[d] = (rest % grid) / (grid - 1);
+    }
+    sample(input).forEach(write);
+  }
+  for (let i = 0; i < outputs; i++) [0, 1].forEach(write);
+  return new Uint8Array(view.buffer);
+}
+
+/** Lays out the header, tag table and tag data; identical data is shared */
+function writeProfile(header: { deviceClass: string; colorSpace: string; pcs: string }, tags: Array<[string, Uint8Array]>): Uint8Array {
+  const align = (n: number) => (n + 3) & ~3;
+  const offsets = new Map<Uint8Array, number>();
+  let size = 128 + 4 + tags.length * 12;
+  for (const [, data] of tags) {
+    if (!offsets.has(data)) {
+      offsets.set(data, size);
+      size = align(size + data.length);
+    }
+  }
+
+  const profile = new Uint8Array(size);
+  const view = new DataView(profile.buffer);
+  view.setUint32(0, size);
+  view.setUint32(8, 0x02100000); // version 2.1
+  profile.set(ascii(header.deviceClass + header.colorSpace.padEnd(4) + header.pcs.padEnd(4)), 12);
+  [2024, 1, 1, 0, 0, 0].forEach((value, i) => view.setUint16(24 + i * 2, value));
+  profile.set(ascii('acsp'), 36);
+  view.setInt32(68, fixed(D50[0]));
+  view.setInt32(72, fixed(D50[1]));
+  view.setInt32(76, fixed(D50[2]));
+
+  view.setUint32(128, tags.length);
+  tags.forEach(([signature, data], i) => {
+    const entry = 132 + i * 12;
+    profile.set(ascii(signature), entry);
+    view.setUint32(entry + 4, offsets.get(data)!);
+    view.setUint32(entry + 8, data.length);
+  });
+  for (const [data, offset] of offsets) profile.set(data, offset);
+
+  return profile;
+}
+
+/**
+ * Builds an ICC v2 display profile for sRGB (IEC 61966-2.1): D50-adapted
+ * primaries and the sRGB tone curve sampled at 1024 points. Generated at
+ * runtime so no binary profile has to be bundled.
+ */
+export function createSRGBProfile(): Uint8Array {
+  const samples = 1024;
+  const curve = new DataView(new ArrayBuffer(12 + samples * 2));
+  ascii('curv').forEach((b, i) => curve.setUint8(i, b));
+  curve.setUint32(8, samples);
+  for (let i = 0; i < samples; i++) {
+    curve.setUint16(12 + i * 2, Math.round(decodeSRGB(i / (samples - 1)) * 65535));
+  }
+  const trc = new Uint8Array(curve.buffer);
+
+  return writeProfile({ deviceClass: 'mntr', colorSpace: 'RGB', pcs: 'XYZ' }, [
+    ['desc', descriptionTag('sRGB IEC61966-2.1')],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(...D50)],
+    ['rXYZ', xyzTag(SRGB_TO_XYZ[0]!, SRGB_TO_XYZ[3]!, SRGB_TO_XYZ[6]!)],
+    ['gXYZ', xyzTag(SRGB_TO_XYZ[1]!, SRGB_TO_XYZ[4]!, SRGB_TO_XYZ[7]!)],
+    ['bXYZ', xyzTag(SRGB_TO_XYZ[2]!, SRGB_TO_XYZ[5]!, SRGB_TO_XYZ[8]!)],
+    ['rTRC', trc],
+    ['gTRC', trc],
+    ['bTRC', trc],
+  ]);
+}
+
+/** Full grey component replacement: the darkest ink share goes to black */
+function genericSeparation(r: number, g: number, b: number): CMYK {
+  const k = 1 - Math.max(r, g, b);
+  if (k >= 1) return [0, 0, 0, 1];
+  return [(1 - r - k) / (1 - k), (1 - g - k) / (1 - k), (1 - b - k) / (1 - k), k];
+}
+
+/**
+ * Builds an ICC v2 output profile for a generic CMYK press. Inks mix like
+ * ideal subtractive primaries over sRGB, with full grey component
+ * replacement, which keeps total ink under 300% and sets neutral text in
+ * black only. Used when the printer has not supplied a profile.
+ */
+export function createGenericCMYKProfile(): Uint8Array {
+  // Lab as encoded in version 2 lut16 tables, where L 100 sits at 0xff00
+  const lab16 = 0xffff / 0xff00;
+  const fromLab = ([l, a, b]: number[]) => [l! / 100 / lab16, (a! + 128) / 255 / lab16, (b! + 128) / 255 / lab16];
+
+  const aToB = lut16Tag(4, 3, GENERIC_ATOB_GRID, ([c, m, y, k]) => {
+    const rgb = [c!, m!, y!].map(ink => (1 - ink) * (1 - k!));
+    return fromLab(srgbToLab(rgb[0]!, rgb[1]!, rgb[2]!));
+  });
+
+  // The input curves spread L 0-100 and a/b -128-128 over the grid, so
+  // paper white and the neutral axis fall on grid points
+  const bToA = lut16Tag(3, 4, GENERIC_BTOA_GRID, ([l, a, b]) => {
+    const linear = transform3(XYZ_TO_SRGB, labToXYZ([l! * 100, a! * 256 - 128, b! * 256 - 128]));
+    // Whole 8-bit steps, so rounding noise near black does not turn into colour
+    const [red, green, blue] = linear.map(v => Math.round(encodeSRGB(clamp01(v)) * 255) / 255) as [number, number, number];
+    return genericSeparation(red, green, blue);
+  }, [
+    value => value * lab16,
+    value => (value * lab16 * 255) / 256,
+    value => (value * lab16 * 255) / 256,
+  ]);
+  // Every colour counts as in gamut
+  const gamut = lut16Tag(3, 1, 2, () => [0]);
+
+  return writeProfile({ deviceClass: 'prtr', colorSpace: 'CMYK', pcs: 'Lab' }, [
+    ['desc', descriptionTag(GENERIC_CMYK_DESCRIPTION)],
+    ['cprt', textTag('No copyright, use freely')],
+    ['wtpt', xyzTag(...D50)],
+    ['A2B0', aToB],
+    ['A2B1', aToB],
+    ['A2B2', aToB],
+    ['B2A0', bToA],
+    ['B2A1', bToA],
+    ['B2A2', bToA],
+    ['gamt', gamut],
+  ]);
+}
@@ -0,0 +1,1065 @@
+// ============================================
+// LUMINA LOTTIE FORMAT
+// Converting animation sequences to and from Lottie (Bodymovin) JSON:
+// shape, text and image layers with transform, opacity, colour and size
+// keyframes, and easing as bezier handles
+// ============================================
+
+import type { DesignElement } from '../types';
+import { PROPERTY_INFO, generateAnimationId, getValueAtTime } from '../types/animation';
+import type { AnimatableProperty, AnimationSequence, AnimationTrack, EasingType, Keyframe } from '../types/animation';
+import { cssColor, elementOpacity, shapePaint, textStyleOf } from './designRenderer';
+import type { PathCommand, TextStyle } from './designRenderer';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Bezier easing handle: one value per dimension, or one for all */
+export interface LottieHandle {
+  x: number | number[];
+  y: number | number[];
+}
+
+export interface LottieKeyframe {
+  /** Frame, in the layer's time */
+  t: number;
+  s?: number[];
+  /** End value, in files from before Bodymovin 5.5 */
+  e?: number[];
+  o?: LottieHandle;
+  i?: LottieHandle;
+  /** 1 holds the value until the next keyframe */
+  h?: number;
+  /** Spatial tangents of a motion path */
+  to?: number[];
+  ti?: number[];
+}
+
+export interface LottieProperty {
+  a: number;
+  k: number | number[] | LottieKeyframe[];
+  /** Expression source */
+  x?: string;
+}
+
+/** Position with its dimensions animated separately */
+export interface LottieSplitPosition {
+  s: true;
+  x: LottieProperty;
+  y: LottieProperty;
+}
+
+export interface LottieTransform {
+  a?: LottieProperty;
+  p?: LottieProperty | LottieSplitPosition;
+  s?: LottieProperty;
+  r?: LottieProperty;
+  o?: LottieProperty;
+  sk?: LottieProperty;
+  sa?: LottieProperty;
+}
+
+/** Cubic bezier path; tangents are relative to their vertex */
+export interface LottieBezier {
+  v: number[][];
+  i: number[][];
+  o: number[][];
+  c: boolean;
+}
+
+/** An item of a shape layer: a group, a geometry, a paint or a group transform */
+export interface LottieShape extends LottieTransform {
+  ty: string;
+  nm?: string;
+  hd?: boolean;
+  it?: LottieShape[];
+  /** Path, for `sh` */
+  ks?: { a: number; k: LottieBezier | LottieKeyframe[] };
+  /** Colour, for fills and strokes */
+  c?: LottieProperty;
+  /** Stroke width */
+  w?: LottieProperty;
+  d?: number;
+  lc?: number;
+  lj?: number;
+  ml?: number;
+}
+
+export interface LottieTextDocument {
+  t: string;
+  /** Font size */
+  s: number;
+  /** Font name, from the font list */
+  f: string;
+  fc: number[];
+  /** Justification: 0 left, 1 right, 2 centre, 3 justified */
+  j: number;
+  /** Tracking, in thousandths of an em */
+  tr: number;
+  lh: number;
+  ls?: number;
+  /** Box size and position; point text has neither */
+  sz?: number[];
+  ps?: number[];
+}
+
+export interface LottieTextData {
+  d: { k: Array<{ s: LottieTextDocument; t: number }> };
+  p: Record<string, unknown>;
+  m: { g: number; a: LottieProperty };
+  a: unknown[];
+}
+
+export interface LottieLayer {
+  ty: number;
+  nm?: string;
+  /** Layer id; Lumina writes the element's id here */
+  ln?: string;
+  ind?: number;
+  parent?: number;
+  ip: number;
+  op: number;
+  st: number;
+  sr?: number;
+  ks: LottieTransform;
+  ao?: number;
+  ddd?: number;
+  hd?: boolean;
+  bm?: number;
+  shapes?: LottieShape[];
+  refId?: string;
+  t?: LottieTextData;
+  /** Solid colour and size */
+  sc?: string;
+  sw?: number;
+  sh?: number;
+  hasMask?: boolean;
+  masksProperties?: unknown[];
+  ef?: unknown[];
+  tt?: number;
+  td?: number;
+  tm?: unknown;
+}
+
+export interface LottieAsset {
+  id: string;
+  w?: number;
+  h?: number;
+  u?: string;
+  p?: string;
+  /** 1 when `p` is a data URL */
+  e?: number;
+  layers?: LottieLayer[];
+}
+
+export interface LottieFont {
+  fName: string;
+  fFamily: string;
+  fStyle: string;
+  ascent: number;
+}
+
+export interface LottieAnimation {
+  v: string;
+  fr: number;
+  ip: number;
+  op: number;
+  w: number;
+  h: number;
+  nm?: string;
+  ddd?: number;
+  assets: LottieAsset[];
+  layers: LottieLayer[];
+  fonts?: { list: LottieFont[] };
+  markers?: unknown[];
+}
+
+export interface LottieExportOptions {
+  /** Composition size, in design units */
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface LottieExportResult {
+  animation: LottieAnimation;
+  /** What could not be expressed in Lottie */
+  warnings: string[];
+}
+
+export interface LottieImportResult {
+  sequence: AnimationSequence;
+  /** One element per imported layer, top layer last */
+  elements: DesignElement[];
+  width: number;
+  height: number;
+  fps: number;
+  /** Lottie features that were left out or approximated, with the layers using them */
+  unsupported: string[];
+}
+
+type Bezier = [number, number, number, number];
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const BODYMOVIN_VERSION = '5.7.4';
+
+const LAYER_TYPE = {
+  precomp: 0,
+  solid: 1,
+  image: 2,
+  null: 3,
+  shape: 4,
+  text: 5,
+} as const;
+
+const LAYER_TYPE_NAMES: Record<number, string> = {
+  0: 'Precompositions',
+  3: 'Null layers',
+  6: 'Audio layers',
+  13: 'Cameras',
+};
+
+const SHAPE_ITEM_NAMES: Record<string, string> = {
+  gf: 'Gradient fills',
+  gs: 'Gradient strokes',
+  tm: 'Trim paths',
+  rp: 'Repeaters',
+  mm: 'Merge paths',
+  rd: 'Rounded corners',
+  sr: 'Stars and polygons',
+  tw: 'Twists',
+  op: 'Offset paths',
+  pb: 'Pucker and bloat',
+  zz: 'Zig zags',
+};
+
+// Easings whose curves are exactly a cubic bezier
+const EASING_BEZIERS: Array<[EasingType, Bezier]> = [
+  ['linear', [0, 0, 1, 1]],
+  ['easeIn', [1 / 3, 0, 2 / 3, 0]],
+  ['easeInCubic', [1 / 3, 0, 2 / 3, 0]],
+  ['easeOut', [1 / 3, 1, 2 / 3, 1]],
+  ['easeOutCubic', [1 / 3, 1, 2 / 3, 1]],
+  ['easeInQuad', [1 / 3, 0, 2 / 3, 1 / 3]],
+  ['easeOutQuad', [1 / 3, 2 / 3, 2 / 3, 1]],
+];
+
+const TEXT_JUSTIFY: Record<TextStyle['align'], number> = { left: 0, right: 1, center: 2, justify: 3 };
+const TEXT_ALIGN = ['left', 'right', 'center', 'justify'] as const;
+
+// Properties each layer type can carry, beyond position, rotation, scale and opacity
+const LAYER_PROPERTIES: Record<DesignElement['type'], AnimatableProperty[]> = {
+  shape: ['width', 'height', 'fill', 'stroke', 'strokeWidth', 'borderRadius'],
+  text: ['fill'],
+  image: ['width', 'height'],
+};
+const TRANSFORM_PROPERTIES: AnimatableProperty[] = ['x', 'y', 'rotation', 'scale', 'scaleX', 'scaleY', 'opacity'];
+
+// Glyph metrics assumed for point text, whose box Lottie does not store
+const POINT_TEXT_ADVANCE = 0.6;
+const POINT_TEXT_ASCENT = 0.8;
+
+// ============================================
+// HELPERS
+// ============================================
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const describe = (el: DesignElement) =>
+  el.type === 'text' ? `Text "${el.content.slice(0, 24)}"` : `${el.type === 'image' ? 'Image' : 'Shape'} ${el.id}`;
+
+const sortedKeyframes = (track: AnimationTrack) => [...track.keyframes].sort((a, b) => a.time - b.time);
+
+const numberAt = (track: AnimationTrack, time: number) => {
+  const value = getValueAtTime(track.keyframes, time);
+  const number = typeof value === 'number' ? value : parseFloat(value ?? '');
+  return Number.isFinite(number) ? number : 0;
+};
+
+const rgbOf = (color: string) => (cssColor(color)?.rgb ?? [0, 0, 0]).map(round);
+
+function hexColor(rgb: number[], alpha = 1): string {
+  const hex = (value: number) => Math.round(Math.max(0, Math.min(1, value)) * 255).toString(16).padStart(2, '0');
+  return `#${hex(rgb[0] ?? 0)}${hex(rgb[1] ?? 0)}${hex(rgb[2] ?? 0)}${alpha < 1 ? hex(alpha) : ''}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/** A property's input: an animated track, or a fixed value */
+type Component = AnimationTrack | number;
+
+/** Bezier handles of a keyframe's easing, or null when no single curve matches it */
+function easingBezier(keyframe: Keyframe): Bezier | null {
+  if (keyframe.easing === 'custom') return keyframe.customEasing ?? [0, 0, 1, 1];
+  return EASING_BEZIERS.find(([easing]) => easing === keyframe.easing)?.[1] ?? null;
+}
+
+const sameTiming = (a: AnimationTrack, b: AnimationTrack) => {
+  const ka = sortedKeyframes(a);
+  const kb = sortedKeyframes(b);
+  return ka.length === kb.length && ka.every((kf, i) =>
+    kf.time === kb[i]!.time && kf.easing === kb[i]!.easing && String(kf.customEasing) === String(kb[i]!.customEasing));
+};
+
+/**
+ * A Lottie property combined from tracks and fixed values. Segments whose
+ * easing is a cubic bezier keep their keyframes; others (elastic, bounce,
+ * spring, ease-in-out) and tracks keyed at different times are sampled at
+ * every frame, so playback matches the timeline.
+ */
+function animatedProperty(components: Component[], combine: (values: number[]) => number[], fps: number): LottieProperty {
+  const valuesAt = (time: number) =>
+    combine(components.map(component => (typeof component === 'number' ? component : numberAt(component, time)))).map(round);
+  const tracks = components.filter((component): component is AnimationTrack => typeof component !== 'number');
+  if (tracks.length === 0) {
+    const value = valuesAt(0);
+    return { a: 0, k: value.length === 1 ? value[0]! : value };
+  }
+
+  const frame = (time: number) => round((time * fps) / 1000);
+  const dims = valuesAt(0).length;
+  const handles = ([x1, y1, x2, y2]: Bezier) => ({
+    o: { x: Array<number>(dims).fill(round(x1)), y: Array<number>(dims).fill(round(y1)) },
+    i: { x: Array<number>(dims).fill(round(x2)), y: Array<number>(dims).fill(round(y2)) },
+  });
+  const keyframes: LottieKeyframe[] = [];
+  const sample = (from: number, to: number) => {
+    const count = Math.max(1, Math.ceil(((to - from) * fps) / 1000 - 1e-9));
+    for (let i = 0; i < count; i++) {
+      const time = from + (i * 1000) / fps;
+      keyframes.push({ t: frame(time), s: valuesAt(time), ...handles([0, 0, 1, 1]) });
+    }
+  };
+
+  const [first, ...rest] = tracks;
+  const keys = sortedKeyframes(first!);
+  if (rest.every(track => sameTiming(track, first!))) {
+    keys.forEach((keyframe, i) => {
+      const next = keys[i + 1];
+      if (!next) return;
+      const bezier = easingBezier(keyframe);
+      if (bezier) keyframes.push({ t: frame(keyframe.time), s: valuesAt(keyframe.time), ...handles(bezier) });
+      else sample(keyframe.time, next.time);
+    });
+    const last = keys[keys.length - 1]!;
+    keyframes.push({ t: frame(last.time), s: valuesAt(last.time) });
+  } else {
+    const times = tracks.flatMap(track => track.keyframes.map(keyframe => keyframe.time));
+    const end = Math.max(...times);
+    sample(Math.min(...times), end);
+    keyframes.push({ t: frame(end), s: valuesAt(end) });
+  }
+  return { a: 1, k: keyframes };
+}
+
+/** Colours step between keyframes in the timeline, so they hold in Lottie too */
+function colorProperty(track: AnimationTrack | undefined, color: string, fps: number): LottieProperty {
+  if (!track) return { a: 0, k: [...rgbOf(color), 1] };
+  const keys = sortedKeyframes(track);
+  return {
+    a: 1,
+    k: keys.map((keyframe, i) => ({
+      t: round((keyframe.time * fps) / 1000),
+      s: [...rgbOf(String(keyframe.value)), 1],
+      ...(i < keys.length - 1 && { h: 1 }),
+    })),
+  };
+}
+
+/** Lottie bezier outlines from path commands, one per subpath */
+function pathToBeziers(path: PathCommand[]): LottieBezier[] {
+  const shapes: LottieBezier[] = [];
+  let current: LottieBezier | null = null;
+  for (const command of path) {
+    if (command.type === 'M') {
+      current = { v: [[round(command.x), round(command.y)]], i: [[0, 0]], o: [[0, 0]], c: false };
+      shapes.push(current);
+      continue;
+    }
+    if (!current) continue;
+    const last = current.v.length - 1;
+    const [lx, ly] = current.v[last]!;
+    if (command.type === 'L') {
+      current.v.push([round(command.x), round(command.y)]);
+      current.i.push([0, 0]);
+      current.o.push([0, 0]);
+    } else if (command.type === 'C') {
+      current.o[last] = [round(command.x1 - lx!), round(command.y1 - ly!)];
+      current.v.push([round(command.x), round(command.y)]);
+      current.i.push([round(command.x2 - command.x), round(command.y2 - command.y)]);
+      current.o.push([0, 0]);
+    } else {
+      current.c = true;
+      // A closing point on the start vertex merges into it
+      const [fx, fy] = current.v[0]!;
+      if (last > 0 && lx === fx && ly === fy) {
+        current.i[0] = current.i[last]!;
+        current.v.pop();
+        current.i.pop();
+        current.o.pop();
+      }
+      current = null;
+    }
+  }
+  return shapes;
+}
+
+/**
+ * A sequence as a Lottie composition of the given size: one layer per
+ * element, top layer first. Shapes become shape layers with native
+ * rectangles and ellipses, text becomes text layers and images image layers
+ * with embedded or linked assets. Elements pivot about their centres, as in
+ * the editor.
+ */
+export function sequenceToLottie(
+  sequence: AnimationSequence,
+  elements: DesignElement[],
+  options: LottieExportOptions
+): LottieExportResult {
+  const { width, height, fps } = options;
+  if (!(fps > 0)) throw new Error('Frame rate must be greater than zero');
+
+  const warnings: string[] = [];
+  const total = Math.max(0, sequence.delay) + Math.max(0, sequence.duration);
+  const outPoint = Math.max(1, Math.ceil((total * fps) / 1000 - 1e-9));
+  const startFrame = round((Math.max(0, sequence.delay) * fps) / 1000);
+  const assets: LottieAsset[] = [];
+  const fonts = new Map<string, LottieFont>();
+
+  const ids = new Set(elements.map(el => el.id));
+  const missing = new Set(sequence.tracks.filter(track => !ids.has(track.elementId)).map(track => track.elementId));
+  missing.forEach(id => warnings.push(`Tracks for element ${id} are skipped; it is not in the design`));
+
+  const layers = [...elements].sort((a, b) => b.zIndex - a.zIndex).map((el, index): LottieLayer => {
+    const tracks = new Map<AnimatableProperty, AnimationTrack>();
+    for (const track of sequence.tracks) {
+      if (track.enabled && track.elementId === el.id && track.keyframes.length > 0 && !tracks.has(track.property)) {
+        tracks.set(track.property, track);
+      }
+    }
+    for (const property of tracks.keys()) {
+      if (!TRANSFORM_PROPERTIES.includes(property) && !LAYER_PROPERTIES[el.type].includes(property)) {
+        warnings.push(`${describe(el)}: ${PROPERTY_INFO[property].label} animation is not exported`);
+      }
+    }
+    if (el.skewX || el.skewY) warnings.push(`${describe(el)} is skewed, which is not exported`);
+
+    const component = (property: AnimatableProperty, fallback: number): Component => tracks.get(property) ?? fallback;
+    const w0 = el.width || 1;
+    const h0 = el.height || 1;
+    const boxWidth = component('width', el.width);
+    const boxHeight = component('height', el.height);
+    const scales = [component('scale', 1), component('scaleX', 1), component('scaleY', 1)];
+
+    // Shapes are redrawn at their animated size; images and text boxes have a fixed size and scale instead
+    const redrawn = el.type === 'shape';
+    const ks: LottieTransform = {
+      a: redrawn
+        ? animatedProperty([boxWidth, boxHeight], ([w, h]) => [w! / 2, h! / 2, 0], fps)
+        : { a: 0, k: [round(w0 / 2), round(h0 / 2), 0] },
+      p: {
+        s: true,
+        x: animatedProperty([component('x', el.x), boxWidth], ([x, w]) => [x! + w! / 2], fps),
+        y: animatedProperty([component('y', el.y), boxHeight], ([y, h]) => [y! + h! / 2], fps),
+      },
+      s: el.type === 'image'
+        ? animatedProperty([...scales, boxWidth, boxHeight], ([s, sx, sy, w, h]) => [s! * sx! * (w! / w0) * 100, s! * sy! * (h! / h0) * 100, 100], fps)
+        : animatedProperty(scales, ([s, sx, sy]) => [s! * sx! * 100, s! * sy! * 100, 100], fps),
+      r: animatedProperty([component('rotation', el.rotation ?? 0)], ([r]) => [r!], fps),
+      o: animatedProperty([component('opacity', elementOpacity(el))], ([o]) => [o! * 100], fps),
+    };
+
+    const layer: LottieLayer = {
+      ddd: 0,
+      ind: index + 1,
+      ty: LAYER_TYPE.shape,
+      nm: describe(el),
+      ln: el.id,
+      sr: 1,
+      ks,
+      ao: 0,
+      ip: 0,
+      op: outPoint,
+      st: startFrame,
+      bm: 0,
+      ...(el.isVisible === false && { hd: true }),
+    };
+
+    if (el.type === 'image') {
+      if (el.mask && el.mask !== 'none') warnings.push(`${describe(el)} has a ${el.mask} mask, which is not exported`);
+      const id = `image_${assets.length}`;
+      const embedded = el.content.startsWith('data:');
+      assets.push({ id, w: round(w0), h: round(h0), u: '', p: el.content, e: embedded ? 1 : 0 });
+      return { ...layer, ty: LAYER_TYPE.image, refId: id };
+    }
+
+    if (el.type === 'text') {
+      const style = textStyleOf(el);
+      const fName = `${style.family.replace(/\s+/g, '')}-${style.weight}${style.italic ? 'Italic' : ''}`;
+      fonts.set(fName, {
+        fName,
+        fFamily: style.family,
+        fStyle: [style.weight >= 700 ? 'Bold' : style.weight <= 300 ? 'Light' : '', style.italic ? 'Italic' : ''].join(' ').trim() || 'Regular',
+        ascent: 75,
+      });
+      const document = (color: string): LottieTextDocument => ({
+        s: style.fontSize,
+        f: fName,
+        t: el.content.replace(/\r?\n/g, '\r'),
+        j: TEXT_JUSTIFY[style.align],
+        tr: round((style.letterSpacing / style.fontSize) * 1000),
+        lh: round(style.lineHeight),
+        ls: 0,
+        fc: rgbOf(color),
+        sz: [round(w0), round(h0)],
+        ps: [0, 0],
+      });
+      const fill = tracks.get('fill');
+      return {
+        ...layer,
+        ty: LAYER_TYPE.text,
+        t: {
+          d: {
+            k: fill
+              ? sortedKeyframes(fill).map(keyframe => ({ s: document(String(keyframe.value)), t: round((keyframe.time * fps) / 1000) }))
+              : [{ s: document(style.color), t: 0 }],
+          },
+          p: {},
+          m: { g: 1, a: { a: 0, k: [0, 0] } },
+          a: [],
+        },
+      };
+    }
+
+    const paint = shapePaint(el);
+    const size = animatedProperty([boxWidth, boxHeight], ([w, h]) => [w!, h!], fps);
+    const centre = animatedProperty([boxWidth, boxHeight], ([w, h]) => [w! / 2, h! / 2], fps);
+    let geometry: LottieShape[];
+    let groupScale: LottieProperty = { a: 0, k: [100, 100] };
+    if (paint.geometry.type === 'rect') {
+      const radius = tracks.get('borderRadius');
+      geometry = [{ ty: 'rc', d: 1, p: centre, s: size, r: radius ? animatedProperty([radius], ([r]) => [r!], fps) : { a: 0, k: round(paint.geometry.radius) } }];
+    } else if (paint.geometry.type === 'ellipse') {
+      geometry = [{ ty: 'el', d: 1, p: centre, s: size }];
+    } else {
+      // Paths are laid out at the element's size and stretched with it
+      geometry = pathToBeziers(paint.path).map(bezier => ({ ty: 'sh', d: 1, ks: { a: 0, k: bezier } }));
+      groupScale = animatedProperty([boxWidth, boxHeight], ([w, h]) => [(w! / w0) * 100, (h! / h0) * 100], fps);
+    }
+
+    const items: LottieShape[] = [...geometry];
+    const strokeTrack = tracks.get('stroke');
+    if (paint.stroke || strokeTrack) {
+      items.push({
+        ty: 'st',
+        c: colorProperty(strokeTrack, paint.stroke ?? '#000000', fps),
+        o: { a: 0, k: round((cssColor(paint.stroke ?? '#000000')?.alpha ?? 1) * 100) },
+        w: animatedProperty([component('strokeWidth', paint.strokeWidth || 1)], ([sw]) => [sw!], fps),
+        lc: 2,
+        lj: 2,
+        ml: 4,
+      });
+    }
+    const fillTrack = tracks.get('fill');
+    const fill = paint.fill && cssColor(paint.fill);
+    if (paint.fill && /gradient\(/.test(paint.fill)) warnings.push(`${describe(el)} has a gradient fill, which is exported as black`);
+    if (fill || fillTrack) {
+      items.push({
+        ty: 'fl',
+        c: colorProperty(fillTrack, paint.fill ?? '#000000', fps),
+        o: { a: 0, k: round((fill ? fill.alpha : 1) * 100) },
+        r: { a: 0, k: 1 },
+      });
+    }
+    items.push({
+      ty: 'tr',
+      p: { a: 0, k: [0, 0] },
+      a: { a: 0, k: [0, 0] },
+      s: groupScale,
+      r: { a: 0, k: 0 },
+      o: { a: 0, k: 100 },
+      sk: { a: 0, k: 0 },
+      sa: { a: 0, k: 0 },
+    });
+
+    return { ...layer, shapes: [{ ty: 'gr', nm: 'Shape', it: items }] };
+  });
+
+  return {
+    animation: {
+      v: BODYMOVIN_VERSION,
+      fr: fps,
+      ip: 0,
+      op: outPoint,
+      w: Math.round(width),
+      h: Math.round(height),
+      nm: sequence.name,
+      ddd: 0,
+      assets,
+      ...(fonts.size > 0 && { fonts: { list: [...fonts.values()] } }),
+      layers,
+      markers: [],
+    },
+    warnings: [...new Set(warnings)],
+  };
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+interface ReadKeyframe {
+  time: number;
+  value: number[];
+  easing: EasingType;
+  customEasing?: Bezier;
+}
+
+/** A property's value, or its keyframes with times in ms */
+interface ReadProperty {
+  value: number[];
+  keyframes?: ReadKeyframe[];
+  /** Some keyframe blends into a different next value */
+  interpolated?: boolean;
+}
+
+function isLottie(data: unknown): data is LottieAnimation {
+  return isObject(data)
+    && typeof data.fr === 'number' && data.fr > 0
+    && typeof data.w === 'number' && typeof data.h === 'number'
+    && typeof data.ip === 'number' && typeof data.op === 'number'
+    && Array.isArray(data.layers);
+}
+
+const isKeyframes = (k: LottieProperty['k']): k is LottieKeyframe[] =>
+  Array.isArray(k) && k.length > 0 && isObject(k[0]);
+
+const asArray = (value: number | number[] | undefined) => (Array.isArray(value) ? value : [value ?? 0]);
+
+const handleValue = (value: number | number[] | undefined, fallback: number) =>
+  (Array.isArray(value) ? value[0] : value) ?? fallback;
+
+function easingFromBezier(bezier: Bezier): Pick<ReadKeyframe, 'easing' | 'customEasing'> {
+  const [x1, y1, x2, y2] = bezier;
+  if (Math.abs(x1 - y1) < 1e-3 && Math.abs(x2 - y2) < 1e-3) return { easing: 'linear' };
+  const match = EASING_BEZIERS.find(([, handles]) => handles.every((value, i) => Math.abs(value - bezier[i]!) < 0.01));
+  return match ? { easing: match[0] } : { easing: 'custom', customEasing: bezier.map(round) as Bezier };
+}
+
+/** Element bounds in layer space */
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function boundsOf(points: number[][]): Bounds {
+  const xs = points.map(point => point[0] ?? 0);
+  const ys = points.map(point => point[1] ?? 0);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+function beziersToPath(beziers: LottieBezier[], offset: number[]): { d: string; points: number[][] } {
+  const points: number[][] = [];
+  const point = (p: number[]) => {
+    const at = [round((p[0] ?? 0) + (offset[0] ?? 0)), round((p[1] ?? 0) + (offset[1] ?? 0))];
+    points.push(at);
+    return `${at[0]} ${at[1]}`;
+  };
+  const add = (a: number[], b: number[] | undefined) => [(a[0] ?? 0) + (b?.[0] ?? 0), (a[1] ?? 0) + (b?.[1] ?? 0)];
+  const d = beziers.map(({ v, i, o, c }) => {
+    if (v.length === 0) return '';
+    const segment = (from: number, to: number) =>
+      `C${point(add(v[from]!, o[from]))} ${point(add(v[to]!, i[to]))} ${point(v[to]!)}`;
+    const parts = [`M${point(v[0]!)}`];
+    for (let k = 1; k < v.length; k++) parts.push(segment(k - 1, k));
+    if (c) parts.push(segment(v.length - 1, 0), 'Z');
+    return parts.join(' ');
+  }).join(' ');
+  return { d, points };
+}
+
+/**
+ * Lottie JSON as a new sequence and the elements its tracks animate. Shape,
+ * solid, text and image layers are imported; Lottie features without a
+ * counterpart in the timeline are listed in `unsupported`, with the layers
+ * that use them.
+ */
+export function lottieToSequence(source: unknown): LottieImportResult {
+  let data = source;
+  if (typeof source === 'string') {
+    try {
+      data = JSON.parse(source);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+  }
+  if (!isLottie(data)) throw new Error('The file is not a Lottie animation');
+  const animation = data;
+  const fps = animation.fr;
+
+  const unsupported = new Map<string, Set<string>>();
+  const tracks: AnimationTrack[] = [];
+  const elements: DesignElement[] = [];
+  const usedIds = new Set<string>();
+  const parents = new Set(animation.layers.map(layer => layer.parent).filter(parent => parent !== undefined));
+
+  animation.layers.forEach((layer, index) => {
+    const name = layer.nm || `Layer ${layer.ind ?? index + 1}`;
+    const note = (feature: string) => {
+      if (!unsupported.has(feature)) unsupported.set(feature, new Set());
+      unsupported.get(feature)!.add(name);
+    };
+
+    if (layer.td) return; // Matte sources are not drawn themselves
+    if (layer.ty !== LAYER_TYPE.solid && layer.ty !== LAYER_TYPE.image && layer.ty !== LAYER_TYPE.shape && layer.ty !== LAYER_TYPE.text) {
+      // Null layers only move their children; they are reported through parenting
+      if (layer.ty !== LAYER_TYPE.null || layer.ind === undefined || !parents.has(layer.ind)) note(LAYER_TYPE_NAMES[layer.ty] ?? `Layers of type ${layer.ty}`);
+      return;
+    }
+
+    if (layer.parent !== undefined) note('Parenting');
+    if (layer.hasMask || (layer.masksProperties?.length ?? 0) > 0) note('Masks');
+    if (layer.tt) note('Track mattes');
+    if ((layer.ef?.length ?? 0) > 0) note('Effects');
+    if (layer.tm !== undefined) note('Time remapping');
+    if (layer.ddd) note('3D layers');
+    if (layer.ao) note('Auto-orient');
+    if (layer.bm) note('Blend modes');
+    if (layer.ip > animation.ip || layer.op < animation.op) note('Layers that start or end partway through');
+
+    const stretch = layer.sr ?? 1;
+    const toMs = (frame: number) => round(((frame * stretch + (layer.st ?? 0) - animation.ip) * 1000) / fps);
+
+    /** A property's first value and, when animated, its keyframes */
+    const read = (property: LottieProperty | undefined, fallback: number[]): ReadProperty => {
+      if (!property) return { value: fallback };
+      if (typeof property.x === 'string') note('Expressions');
+      if (!isKeyframes(property.k)) {
+        const value = asArray(property.k);
+        return { value: fallback.map((d, i) => value[i] ?? d) };
+      }
+
+      const source = property.k;
+      const keyframes: ReadKeyframe[] = [];
+      let interpolated = false;
+      let previous: number[] = fallback;
+      source.forEach((keyframe, i) => {
+        const value = fallback.map((d, dim) => (keyframe.s ?? previous)[dim] ?? d);
+        const next = source[i + 1];
+        if ((keyframe.to ?? []).some(Boolean) || (keyframe.ti ?? []).some(Boolean)) note('Curved motion paths, imported as straight lines');
+
+        const time = toMs(keyframe.t);
+        if (!next) {
+          keyframes.push({ time, value, easing: 'linear' });
+        } else if (keyframe.h === 1) {
+          // Held until the next keyframe: keep the value to just before it
+          keyframes.push({ time, value, easing: 'linear' }, { time: Math.max(time, toMs(next.t) - 1), value, easing: 'linear' });
+        } else {
+          interpolated ||= (next.s ?? keyframe.e ?? value).join() !== value.join();
+          keyframes.push({
+            time,
+            value,
+            ...easingFromBezier([
+              handleValue(keyframe.o?.x, 0),
+              handleValue(keyframe.o?.y, 0),
+              handleValue(keyframe.i?.x, 1),
+              handleValue(keyframe.i?.y, 1),
+            ]),
+          });
+        }
+        previous = keyframe.e ?? value;
+      });
+      return { value: keyframes[0]!.value, keyframes, interpolated };
+    };
+
+    let id = layer.ln || `layer-${layer.ind ?? index + 1}`;
+    while (usedIds.has(id)) id = `${id}-${index}`;
+    usedIds.add(id);
+
+    const addTrack = (property: AnimatableProperty, keyframes: ReadKeyframe[], value: (values: number[], time: number) => number | string) => {
+      tracks.push({
+        id: generateAnimationId('track'),
+        elementId: id,
+        property,
+        enabled: true,
+        keyframes: keyframes.map(keyframe => {
+          const result = value(keyframe.value, keyframe.time);
+          return {
+            id: generateAnimationId('kf'),
+            time: Math.max(0, keyframe.time),
+            value: typeof result === 'number' ? round(result) : result,
+            easing: keyframe.easing,
+            ...(keyframe.customEasing && { customEasing: keyframe.customEasing }),
+          };
+        }),
+      });
+    };
+
+    /** A colour property: hex values, stepping between keyframes as timeline colours do */
+    const readColor = (property: LottieProperty | undefined, opacity: LottieProperty | undefined, target: AnimatableProperty) => {
+      const color = read(property, [0, 0, 0, 1]);
+      const alpha = read(opacity, [100]);
+      if (alpha.keyframes) note('Fill and stroke opacity animation');
+      if (color.keyframes) {
+        if (color.interpolated) note('Colour transitions, imported as steps');
+        addTrack(target, color.keyframes, values => hexColor(values));
+      }
+      return hexColor(color.value, (alpha.value[0] ?? 100) / 100);
+    };
+
+    // Transform: the element's centre follows the layer's anchor point
+    const ks = layer.ks ?? {};
+    const anchor = read(ks.a, [0, 0]);
+    const split = ks.p && 's' in ks.p && ks.p.s === true ? ks.p : undefined;
+    const position = split ? undefined : read(ks.p as LottieProperty | undefined, [0, 0]);
+    const positionX = split ? read(split.x, [0]) : position!;
+    const positionY = split ? read(split.y, [0]) : position!;
+    const yIndex = split ? 0 : 1;
+    const rotation = read(ks.r, [0]);
+    const scale = read(ks.s, [100, 100]);
+    const opacity = read(ks.o, [100]);
+    const skew = read(ks.sk, [0]);
+    if (skew.keyframes || skew.value[0]) note('Skew');
+
+    // A fixed scale is applied to the box; an animated one becomes scale tracks
+    const sx = scale.value[0]! / 100;
+    const sy = scale.value[1]! / 100;
+    const foldX = scale.keyframes ? 1 : Math.abs(sx);
+    const foldY = scale.keyframes ? 1 : Math.abs(sy);
+
+    // Content, in layer space
+    let geometryCentre: ReadProperty | undefined;
+    let element: Omit<DesignElement, 'id' | 'x' | 'y' | 'width' | 'height' | 'zIndex'> | undefined;
+    let bounds: Bounds = { x: 0, y: 0, width: 0, height: 0 };
+    let scalesContent = true;
+
+    if (layer.ty === LAYER_TYPE.solid) {
+      bounds = { x: 0, y: 0, width: layer.sw ?? 0, height: layer.sh ?? 0 };
+      element = { type: 'shape', content: '', style: { backgroundColor: layer.sc ?? '#000000' } };
+    } else if (layer.ty === LAYER_TYPE.image) {
+      const asset = animation.assets?.find(candidate => candidate.id === layer.refId);
+      if (!asset || asset.layers || !asset.p) {
+        note('Image layers without an image asset');
+        return;
+      }
+      bounds = { x: 0, y: 0, width: asset.w ?? 0, height: asset.h ?? 0 };
+      element = { type: 'image', content: asset.e ? asset.p : `${asset.u ?? ''}${asset.p}` };
+    } else if (layer.ty === LAYER_TYPE.text) {
+      const documents = layer.t?.d?.k ?? [];
+      const document = documents[0]?.s;
+      if (!document) {
+        note('Text layers without text');
+        return;
+      }
+      if ((layer.t?.a?.length ?? 0) > 0) note('Text animators');
+      const withoutColor = ({ fc: _fc, ...rest }: LottieTextDocument) => JSON.stringify(rest);
+      if (documents.some(({ s }) => withoutColor(s) !== withoutColor(document))) {
+        note('Text that changes over time');
+      } else if (documents.length > 1) {
+        addTrack('fill', documents.map(({ s, t }) => ({ time: toMs(t), value: s.fc, easing: 'linear' })), values => hexColor(values));
+      }
+
+      const font = animation.fonts?.list.find(candidate => candidate.fName === document.f);
+      const fontStyle = font?.fStyle.toLowerCase() ?? document.f.toLowerCase();
+      const lines = document.t.split(/\r\n|\r|\n/);
+      const lineHeight = document.lh || document.s * 1.2;
+      if (document.sz) {
+        bounds = { x: document.ps?.[0] ?? 0, y: document.ps?.[1] ?? 0, width: document.sz[0] ?? 0, height: document.sz[1] ?? 0 };
+      } else {
+        // Point text starts at the first baseline
+        const width = Math.max(...lines.map(line => line.length)) * document.s * POINT_TEXT_ADVANCE;
+        const x = document.j === 1 ? -width : document.j === 2 ? -width / 2 : 0;
+        bounds = { x, y: -document.s * POINT_TEXT_ASCENT, width, height: lines.length * lineHeight };
+      }
+      scalesContent = false;
+      element = {
+        type: 'text',
+        content: lines.join('\n'),
+        fontSize: document.s,
+        color: hexColor(document.fc),
+        style: {
+          fontFamily: font?.fFamily ?? document.f,
+          fontWeight: /black|heavy/.test(fontStyle) ? 900 : /bold/.test(fontStyle) ? 700 : /medium/.test(fontStyle) ? 500 : /light|thin/.test(fontStyle) ? 300 : 400,
+          ...(/italic|oblique/.test(fontStyle) && { fontStyle: 'italic' }),
+          textAlign: TEXT_ALIGN[document.j] ?? 'left',
+          letterSpacing: `${round((document.tr / 1000) * document.s)}px`,
+          lineHeight: round(lineHeight / document.s),
+        },
+      };
+    } else {
+      // Shape layer: the top-most geometry, fill and stroke, with group offsets
+      const geometries: Array<{ shape: LottieShape; offset: number[] }> = [];
+      let fill: LottieShape | undefined;
+      let stroke: LottieShape | undefined;
+      const walk = (items: LottieShape[], offset: number[]) => {
+        for (const item of items) {
+          if (item.hd) continue;
+          if (item.ty === 'gr') {
+            const transform = item.it?.find(child => child.ty === 'tr');
+            const position = read(transform?.p as LottieProperty | undefined, [0, 0]);
+            const anchor = read(transform?.a, [0, 0]);
+            const rotation = read(transform?.r, [0]);
+            const scale = read(transform?.s, [100, 100]);
+            if (position.keyframes || anchor.keyframes || rotation.keyframes || scale.keyframes
+              || rotation.value[0] !== 0 || scale.value.some(value => value !== 100)) {
+              note('Transformed shape groups');
+            }
+            walk(item.it ?? [], [offset[0]! + position.value[0]! - anchor.value[0]!, offset[1]! + position.value[1]! - anchor.value[1]!]);
+          } else if (item.ty === 'rc' || item.ty === 'el' || item.ty === 'sh') {
+            geometries.push({ shape: item, offset });
+          } else if (item.ty === 'fl') {
+            fill ??= item;
+          } else if (item.ty === 'st') {
+            stroke ??= item;
+          } else if (item.ty !== 'tr') {
+            note(SHAPE_ITEM_NAMES[item.ty] ?? `Shape items of type "${item.ty}"`);
+          }
+        }
+      };
+      walk(layer.shapes ?? [], [0, 0]);
+      if (geometries.length === 0) {
+        note('Shape layers without a shape');
+        return;
+      }
+
+      const paths = geometries.every(({ shape }) => shape.ty === 'sh') ? geometries : [geometries[0]!];
+      if (paths.length < geometries.length) note('Several shapes in one layer; only the first is imported');
+      const style: Record<string, unknown> = {};
+      const first = paths[0]!;
+
+      if (first.shape.ty === 'sh') {
+        const beziers = paths.map(({ shape, offset }) => {
+          const k = shape.ks?.k;
+          if (Array.isArray(k)) {
+            note('Path animation');
+            const frames = k as unknown as LottieKeyframe[] & Array<{ s?: LottieBezier[] }>;
+            return { bezier: frames[0]?.s?.[0], offset };
+          }
+          return { bezier: k, offset };
+        }).filter((entry): entry is { bezier: LottieBezier; offset: number[] } => !!entry.bezier);
+        const parts = beziers.map(({ bezier, offset }) => beziersToPath([bezier], offset));
+        bounds = boundsOf(parts.flatMap(part => part.points));
+        style.viewBox = `${bounds.x} ${bounds.y} ${bounds.width || 1} ${bounds.height || 1}`;
+        element = { type: 'shape', content: parts.map(part => part.d).join(' '), style };
+      } else {
+        const centre = read(first.shape.p as LottieProperty | undefined, [0, 0]);
+        const size = read(first.shape.s, [0, 0]);
+        geometryCentre = centre;
+        bounds = {
+          x: centre.value[0]! + first.offset[0]! - size.value[0]! / 2,
+          y: centre.value[1]! + first.offset[1]! - size.value[1]! / 2,
+          width: size.value[0]!,
+          height: size.value[1]!,
+        };
+        if (size.keyframes) {
+          addTrack('width', size.keyframes, ([w]) => w! * foldX);
+          addTrack('height', size.keyframes, ([, h]) => h! * foldY);
+        }
+        if (first.shape.ty === 'el') {
+          style.shape = 'ellipse';
+        } else {
+          const radius = read(first.shape.r, [0]);
+          if (radius.keyframes) addTrack('borderRadius', radius.keyframes, ([r]) => r!);
+          if (radius.value[0]) style.borderRadius = `${round(radius.value[0])}px`;
+        }
+        element = { type: 'shape', content: '', style };
+      }
+
+      style.backgroundColor = fill ? readColor(fill.c, fill.o, 'fill') : 'transparent';
+      if (stroke) {
+        style.stroke = readColor(stroke.c, stroke.o, 'stroke');
+        const strokeWidth = read(stroke.w, [1]);
+        if (strokeWidth.keyframes) addTrack('strokeWidth', strokeWidth.keyframes, ([w]) => w!);
+        style.strokeWidth = round(strokeWidth.value[0]!);
+      }
+    }
+
+    // Shapes exported from Lumina keep their centre on an anchor that moves with their size
+    const keyed = (property: ReadProperty | undefined) =>
+      JSON.stringify(property?.keyframes?.map(({ time, value }) => [time, value[0], value[1]]));
+    const centred = !!anchor.keyframes && keyed(geometryCentre) === keyed(anchor);
+    if (anchor.keyframes && !centred) note('Anchor point animation');
+    if (geometryCentre?.keyframes && !centred) note('Animated shape positions');
+
+    const angle = (rotation.value[0]! * Math.PI) / 180;
+    const dx = bounds.x + bounds.width / 2 - anchor.value[0]!;
+    const dy = bounds.y + bounds.height / 2 - anchor.value[1]!;
+    if ((rotation.keyframes || scale.keyframes) && Math.hypot(dx, dy) > 0.5) {
+      note('Rotation or scale about an off-centre anchor point');
+    }
+
+    const width = bounds.width * foldX;
+    const height = bounds.height * foldY;
+    const offsetX = Math.cos(angle) * dx * sx - Math.sin(angle) * dy * sy;
+    const offsetY = Math.sin(angle) * dx * sx + Math.cos(angle) * dy * sy;
+
+    // The box's corner, from its centre and its size at the time
+    const sizeAt = (property: 'width' | 'height', time: number, fallback: number) => {
+      const sizeTrack = tracks.find(candidate => candidate.elementId === id && candidate.property === property);
+      return sizeTrack ? numberAt(sizeTrack, time) : fallback;
+    };
+    if (positionX.keyframes) {
+      addTrack('x', positionX.keyframes, (values, time) => values[0]! + offsetX - sizeAt('width', time, width) / 2);
+    }
+    if (positionY.keyframes) {
+      addTrack('y', positionY.keyframes, (values, time) => values[yIndex]! + offsetY - sizeAt('height', time, height) / 2);
+    }
+    if (rotation.keyframes) addTrack('rotation', rotation.keyframes, ([r]) => r!);
+    if (scale.keyframes) {
+      if (scale.keyframes.every(keyframe => keyframe.value[0] === keyframe.value[1])) {
+        addTrack('scale', scale.keyframes, ([s]) => s! / 100);
+      } else {
+        addTrack('scaleX', scale.keyframes, ([s]) => s! / 100);
+        addTrack('scaleY', scale.keyframes, ([, s]) => s! / 100);
+      }
+    }
+    if (opacity.keyframes) addTrack('opacity', opacity.keyframes, ([o]) => o! / 100);
+
+    const elementStyle: Record<string, unknown> = { ...(element.style as Record<string, unknown> | undefined) };
+    if (!opacity.keyframes && opacity.value[0]! < 100) elementStyle.opacity = round(opacity.value[0]! / 100);
+    elements.push({
+      ...element,
+      ...(!scalesContent && !scale.keyframes && element.fontSize && { fontSize: round(element.fontSize * Math.abs(sy)) }),
+      id,
+      x: round(positionX.value[0]! + offsetX - width / 2),
+      y: round(positionY.value[yIndex]! + offsetY - height / 2),
+      width: round(width),
+      height: round(height),
+      ...(rotation.value[0] && !rotation.keyframes && { rotation: round(rotation.value[0]) }),
+      zIndex: animation.layers.length - index,
+      isVisible: !layer.hd,
+      style: elementStyle,
+    });
+  });
+
+  return {
+    sequence: {
+      id: generateAnimationId('seq'),
+      name: animation.nm || 'Lottie animation',
+      duration: round(((animation.op - animation.ip) * 1000) / fps),
+      tracks,
+      loop: true,
+      autoPlay: false,
+      delay: 0,
+    },
+    elements: elements.reverse(),
+    width: animation.w,
+    height: animation.h,
+    fps,
+    unsupported: [...unsupported].map(([feature, layers]) => `${feature} (${[...layers].join(', ')})`),
+  };
+}
@@ -0,0 +1,884 @@
+// ============================================
+// LUMINA OFFICE EXPORT
+// PowerPoint decks and Word documents from canvas designs: editable text
+// boxes, native shapes, positioned images and speaker notes from comments
+// ============================================
+
+import type { DesignElement } from '../types';
+import type { Comment } from '../types/comments';
+import { cssColor, elementMatrix, elementOpacity, prepareDesign, textStyleOf, transformPath } from './designRenderer';
+import type { DesignImage, DesignRenderOptions, PathCommand, PreparedElement, TextStyle } from './designRenderer';
+import { writeZip } from './zipArchive';
+import type { ZipWriteEntry } from './zipArchive';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** One slide of a deck, or one page of a document */
+export interface OfficePage {
+  name?: string;
+  elements: DesignElement[];
+  /** Open comments on the page; they become the slide's speaker notes */
+  comments?: Comment[];
+}
+
+/** Re-encodes an image Office files cannot hold (WebP, SVG) as PNG */
+export type OfficeImageConverter = (image: DesignImage) => Promise<Uint8Array>;
+
+/** Fonts are referenced by name, so no font loader is needed */
+export interface OfficeExportOptions extends Omit<DesignRenderOptions, 'loadFont'> {
+  title?: string;
+  author?: string;
+  /** Defaults to re-encoding through a browser canvas */
+  convertImage?: OfficeImageConverter;
+}
+
+export interface OfficeExportResult {
+  bytes: Uint8Array;
+  warnings: string[];
+}
+
+/** A visible element; text keeps its style and is left for Office to wrap */
+type OfficeItem = Omit<PreparedElement, 'text'> & { text?: TextStyle };
+
+/** An unrotated box in page space, in design units */
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+type Geometry =
+  | { preset: 'rect' | 'ellipse' }
+  | { preset: 'roundRect'; adjust: number }
+  | { path: PathCommand[]; width: number; height: number };
+
+interface OfficeMedia {
+  /** File name in the package's media folder */
+  name: string;
+  width?: number;
+  height?: number;
+}
+
+interface MediaStore {
+  entries: ZipWriteEntry[];
+  extensions: Set<string>;
+  add: (image: DesignImage, label: string) => Promise<OfficeMedia | null>;
+}
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+/** A Word paragraph: its pPr children and its runs */
+interface WordParagraph {
+  properties: string;
+  runs: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const APPLICATION = 'Lumina Studio';
+
+/** English Metric Units: 914400 per inch, 12700 per point */
+const EMU_PER_PX = 9525;
+const EMU_PER_PT = 12700;
+const EMU_PER_TWIP = 635;
+const TWIPS_PER_PX = 15;
+
+/** PowerPoint's slide size limits, 1in to 56in */
+const MIN_SLIDE_EMU = 914400;
+const MAX_SLIDE_EMU = 51206400;
+
+/** Word's largest page, 22in */
+const MAX_PAGE_TWIPS = 31680;
+
+const NOTES_WIDTH = 6858000;
+const NOTES_HEIGHT = 9144000;
+
+/** Image types every Office version reads, and their file extensions */
+const OFFICE_IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+};
+
+const NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+  wps: 'http://schemas.microsoft.com/office/word/2010/wordprocessingShape',
+  relationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types',
+};
+
+const REL = {
+  officeDocument: `${NS.r}/officeDocument`,
+  extendedProperties: `${NS.r}/extended-properties`,
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  slide: `${NS.r}/slide`,
+  slideMaster: `${NS.r}/slideMaster`,
+  slideLayout: `${NS.r}/slideLayout`,
+  notesMaster: `${NS.r}/notesMaster`,
+  notesSlide: `${NS.r}/notesSlide`,
+  theme: `${NS.r}/theme`,
+  presProps: `${NS.r}/presProps`,
+  tableStyles: `${NS.r}/tableStyles`,
+  styles: `${NS.r}/styles`,
+  image: `${NS.r}/image`,
+};
+
+const PML = 'application/vnd.openxmlformats-officedocument.presentationml';
+const WML = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+const CONTENT_TYPE = {
+  presentation: `${PML}.presentation.main+xml`,
+  slideMaster: `${PML}.slideMaster+xml`,
+  slideLayout: `${PML}.slideLayout+xml`,
+  slide: `${PML}.slide+xml`,
+  notesMaster: `${PML}.notesMaster+xml`,
+  notesSlide: `${PML}.notesSlide+xml`,
+  presProps: `${PML}.presProps+xml`,
+  tableStyles: `${PML}.tableStyles+xml`,
+  theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+  document: `${WML}.document.main+xml`,
+  styles: `${WML}.styles+xml`,
+  core: 'application/vnd.openxmlformats-package.core-properties+xml',
+  app: 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const GROUP_PROPERTIES = '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+
+const COLOR_MAP = 'bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+  'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"';
+
+const THEME_COLORS: Array<[string, string]> = [
+  ['dk1', '000000'], ['lt1', 'FFFFFF'], ['dk2', '0F172A'], ['lt2', 'F1F5F9'],
+  ['accent1', '6366F1'], ['accent2', '8B5CF6'], ['accent3', 'EC4899'],
+  ['accent4', 'F59E0B'], ['accent5', '10B981'], ['accent6', '0EA5E9'],
+  ['hlink', '2563EB'], ['folHlink', '7C3AED'],
+];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** Escapes markup and drops characters XML 1.0 cannot hold */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, '')
+    .replace(/[<>&"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' })[char]!);
+}
+
+function relationshipsXml(relationships: Relationship[]): string {
+  const items = relationships.map((rel, i) => `<Relationship Id="rId${i + 1}" Type="${rel.type}" Target="${escapeXml(rel.target)}"/>`);
+  return `${XML_DECLARATION}<Relationships xmlns="${NS.relationships}">${items.join('')}</Relationships>`;
+}
+
+function contentTypesXml(extensions: Iterable<string>, overrides: Array<[string, string]>): string {
+  const defaults = [
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    ...[...extensions].map(ext => `<Default Extension="${ext}" ContentType="image/${ext}"/>`),
+  ];
+  const parts = overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`);
+  return `${XML_DECLARATION}<Types xmlns="${NS.contentTypes}">${defaults.join('')}${parts.join('')}</Types>`;
+}
+
+function corePropertiesXml(options: OfficeExportOptions): string {
+  const created = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  return `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    (options.title ? `<dc:title>${escapeXml(options.title)}</dc:title>` : '') +
+    (options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : '') +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>` +
+    '</cp:coreProperties>';
+}
+
+function appPropertiesXml(extra = ''): string {
+  return `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+    `<Application>${APPLICATION}</Application>${extra}</Properties>`;
+}
+
+const describe = (el: DesignElement) =>
+  el.type === 'text' ? `Text "${el.content.slice(0, 24)}"` : `${el.type === 'image' ? 'Image' : 'Shape'} ${el.id}`;
+
+/** Pixel size from a PNG, GIF or JPEG header */
+function imageSize(data: Uint8Array, mimeType: string): { width: number; height: number } | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (mimeType === 'image/png' && data.length >= 24) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (mimeType === 'image/gif' && data.length >= 10) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (mimeType === 'image/jpeg') {
+    let at = 2;
+    while (at + 9 < data.length && data[at] === 0xff) {
+      const marker = data[at + 1]!;
+      // Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: view.getUint16(at + 7), height: view.getUint16(at + 5) };
+      }
+      at += 2 + view.getUint16(at + 2);
+    }
+  }
+  return undefined;
+}
+
+/** Re-encodes an image as PNG through the browser's image decoder */
+export const convertImageInBrowser: OfficeImageConverter = async ({ data, mimeType }) => {
+  if (typeof createImageBitmap === 'undefined') {
+    throw new Error('Converting images needs a browser; pass convertImage');
+  }
+  const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: mimeType }));
+  let blob: Blob | null;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context not available');
+    ctx.drawImage(bitmap, 0, 0);
+    blob = await canvas.convertToBlob({ type: 'image/png' });
+  } else {
+    const canvas = Object.assign(document.createElement('canvas'), { width: bitmap.width, height: bitmap.height });
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context not available');
+    ctx.drawImage(bitmap, 0, 0);
+    blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  }
+  bitmap.close();
+  if (!blob) throw new Error('Failed to encode image');
+  return new Uint8Array(await blob.arrayBuffer());
+};
+
+/** Image parts of a package; each image is stored once however often it is placed */
+function createMediaStore(folder: string, convert: OfficeImageConverter, warnings: string[]): MediaStore {
+  const entries: ZipWriteEntry[] = [];
+  const extensions = new Set<string>();
+  const stored = new Map<DesignImage, OfficeMedia | null>();
+
+  const add = async (image: DesignImage, label: string): Promise<OfficeMedia | null> => {
+    if (stored.has(image)) return stored.get(image)!;
+
+    let media: OfficeMedia | null = null;
+    let { data, mimeType } = image;
+    try {
+      if (!OFFICE_IMAGE_TYPES[mimeType]) {
+        data = await convert(image);
+        mimeType = 'image/png';
+      }
+      const extension = OFFICE_IMAGE_TYPES[mimeType]!;
+      media = { name: `image${entries.length + 1}.${extension}`, ...imageSize(data, mimeType) };
+      entries.push({ name: `${folder}/${media.name}`, data, store: true });
+      extensions.add(extension);
+    } catch (error) {
+      warnings.push(`${label} is ${image.mimeType}, which could not be converted for Office: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    stored.set(image, media);
+    return media;
+  };
+
+  return { entries, extensions, add };
+}
+
+/**
+ * The visible elements of a page, bottom to top. Images and shapes are
+ * prepared like they are for the other renderers; text is not laid out,
+ * since PowerPoint and Word wrap it in the fonts they have.
+ */
+async function loadPage(page: OfficePage, options: OfficeExportOptions, warnings: string[]): Promise<OfficeItem[]> {
+  const visible = page.elements.filter(el => el.isVisible !== false).sort((a, b) => a.zIndex - b.zIndex);
+  const { elements, warnings: loadWarnings } = await prepareDesign(visible.filter(el => el.type !== 'text'), {
+    ...options,
+    onProgress: undefined,
+  });
+  warnings.push(...loadWarnings);
+
+  const prepared = new Map(elements.map(item => [item.element, item]));
+  return visible.flatMap((el): OfficeItem[] => {
+    if (el.type === 'text') {
+      return [{ element: el, matrix: elementMatrix(el), opacity: elementOpacity(el), text: textStyleOf(el) }];
+    }
+    const item = prepared.get(el);
+    return item ? [{ ...item, text: undefined }] : [];
+  });
+}
+
+/**
+ * Where an item sits and how it is outlined. Office rotates boxes about
+ * their centre like the Canvas editor does, but cannot skew them: skewed
+ * shapes become free-form outlines, other skewed elements are placed
+ * unskewed.
+ */
+function placeItem(item: OfficeItem, warnings: string[]): { frame: Frame; geometry: Geometry } {
+  const { element: el, shape, clip } = item;
+  const frame: Frame = { x: el.x, y: el.y, width: el.width, height: el.height, rotation: el.rotation ?? 0 };
+  const skewed = Boolean(el.skewX || el.skewY);
+
+  if (shape && skewed) {
+    const outline = transformPath(shape.path, item.matrix);
+    const points = outline.flatMap(cmd => (cmd.type === 'Z' ? [] : cmd.type === 'C' ? [[cmd.x1, cmd.y1], [cmd.x2, cmd.y2], [cmd.x, cmd.y]] : [[cmd.x, cmd.y]]));
+    const xs = points.map(([x]) => x!);
+    const ys = points.map(([, y]) => y!);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const width = Math.max(...xs) - x;
+    const height = Math.max(...ys) - y;
+    return {
+      frame: { x, y, width, height, rotation: 0 },
+      geometry: { path: transformPath(outline, [1, 0, 0, 1, -x, -y]), width, height },
+    };
+  }
+  if (skewed) warnings.push(`${describe(el)} is skewed, which Office cannot show; it is placed without the skew`);
+
+  if (shape) {
+    const { geometry } = shape;
+    if (geometry.type === 'ellipse') return { frame, geometry: { preset: 'ellipse' } };
+    if (geometry.type === 'rect') {
+      return {
+        frame,
+        geometry: geometry.radius > 0
+          ? { preset: 'roundRect', adjust: Math.min(50000, Math.round((geometry.radius / Math.min(el.width, el.height)) * 100000)) }
+          : { preset: 'rect' },
+      };
+    }
+    return { frame, geometry: { path: shape.path, width: el.width, height: el.height } };
+  }
+  if (el.mask === 'circle') return { frame, geometry: { preset: 'ellipse' } };
+  if (clip) return { frame, geometry: { path: clip, width: el.width, height: el.height } };
+  return { frame, geometry: { preset: 'rect' } };
+}
+
+// ============================================
+// DRAWINGML
+// ============================================
+
+/** Design units to EMU, for one output's scale */
+type EmuScale = (value: number) => number;
+
+function xfrmXml(frame: Frame, emu: EmuScale): string {
+  const rotation = Math.round((((frame.rotation % 360) + 360) % 360) * 60000);
+  return `<a:xfrm${rotation ? ` rot="${rotation}"` : ''}><a:off x="${emu(frame.x)}" y="${emu(frame.y)}"/>` +
+    `<a:ext cx="${Math.max(1, emu(frame.width))}" cy="${Math.max(1, emu(frame.height))}"/></a:xfrm>`;
+}
+
+function geometryXml(geometry: Geometry, emu: EmuScale): string {
+  if ('path' in geometry) {
+    const pt = (x: number, y: number) => `<a:pt x="${emu(x)}" y="${emu(y)}"/>`;
+    const commands = geometry.path.map(cmd => {
+      switch (cmd.type) {
+        case 'M':
+          return `<a:moveTo>${pt(cmd.x, cmd.y)}</a:moveTo>`;
+        case 'L':
+          return `<a:lnTo>${pt(cmd.x, cmd.y)}</a:lnTo>`;
+        case 'C':
+          return `<a:cubicBezTo>${pt(cmd.x1, cmd.y1)}${pt(cmd.x2, cmd.y2)}${pt(cmd.x, cmd.y)}</a:cubicBezTo>`;
+        default:
+          return '<a:close/>';
+      }
+    });
+    const w = Math.max(1, emu(geometry.width));
+    const h = Math.max(1, emu(geometry.height));
+    return '<a:custGeom><a:avLst/><a:gdLst/><a:ahLst/><a:cxnLst/><a:rect l="0" t="0" r="r" b="b"/>' +
+      `<a:pathLst><a:path w="${w}" h="${h}">${commands.join('')}</a:path></a:pathLst></a:custGeom>`;
+  }
+  const adjust = geometry.preset === 'roundRect' ? `<a:avLst><a:gd name="adj" fmla="val ${geometry.adjust}"/></a:avLst>` : '<a:avLst/>';
+  return `<a:prstGeom prst="${geometry.preset}">${adjust}</a:prstGeom>`;
+}
+
+function hexColor(rgb: [number, number, number]): string {
+  return rgb.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/** An srgbClr with the colour's alpha and the element's opacity */
+function colorXml(value: string, opacity: number): string | null {
+  const color = cssColor(value);
+  if (!color) return null;
+  const alpha = Math.round(color.alpha * opacity * 100000);
+  return alpha < 100000
+    ? `<a:srgbClr val="${hexColor(color.rgb)}"><a:alpha val="${alpha}"/></a:srgbClr>`
+    : `<a:srgbClr val="${hexColor(color.rgb)}"/>`;
+}
+
+function fillXml(value: string | undefined, opacity: number): string {
+  const color = value ? colorXml(value, opacity) : null;
+  return color ? `<a:solidFill>${color}</a:solidFill>` : '<a:noFill/>';
+}
+
+/** spPr contents of a shape: outline, fill and stroke */
+function shapePropertiesXml(item: OfficeItem, frame: Frame, geometry: Geometry, emu: EmuScale): string {
+  const { fill, stroke, strokeWidth } = item.shape!;
+  const strokeColor = stroke && strokeWidth > 0 ? colorXml(stroke, item.opacity) : null;
+  const line = strokeColor
+    ? `<a:ln w="${Math.max(1, emu(strokeWidth))}"><a:solidFill>${strokeColor}</a:solidFill></a:ln>`
+    : '<a:ln><a:noFill/></a:ln>';
+  return xfrmXml(frame, emu) + geometryXml(geometry, emu) + fillXml(fill, item.opacity) + line;
+}
+
+/** blipFill contents: the image, cropped to cover its box like the Canvas editor draws it */
+function blipXml(relId: string, media: OfficeMedia, frame: Frame, opacity: number): string {
+  const alpha = Math.round(opacity * 100000);
+  let crop = '';
+  if (media.width && media.height && frame.width > 0 && frame.height > 0) {
+    const imageRatio = media.width / media.height;
+    const boxRatio = frame.width / frame.height;
+    const cut = (visible: number) => Math.round(((1 - visible) / 2) * 100000);
+    if (imageRatio > boxRatio) {
+      const side = cut(boxRatio / imageRatio);
+      if (side > 0) crop = `<a:srcRect l="${side}" r="${side}"/>`;
+    } else if (imageRatio < boxRatio) {
+      const side = cut(imageRatio / boxRatio);
+      if (side > 0) crop = `<a:srcRect t="${side}" b="${side}"/>`;
+    }
+  }
+  const blip = alpha < 100000 ? `<a:blip r:embed="${relId}"><a:alphaModFix amt="${alpha}"/></a:blip>` : `<a:blip r:embed="${relId}"/>`;
+  return `${blip}${crop}<a:stretch><a:fillRect/></a:stretch>`;
+}
+
+// ============================================
+// POWERPOINT
+// ============================================
+
+/** Run properties of a text element; sizes are in hundredths of a point */
+function slideRunPropertiesXml(style: TextStyle, opacity: number, ptPerUnit: number, tag: 'a:rPr' | 'a:endParaRPr'): string {
+  const size = Math.min(400000, Math.max(100, Math.round(style.fontSize * ptPerUnit * 100)));
+  const spacing = Math.round(style.letterSpacing * ptPerUnit * 100);
+  const color = colorXml(style.color, opacity);
+  const typeface = escapeXml(style.family);
+  return `<${tag} lang="en-US" sz="${size}"${style.weight >= 600 ? ' b="1"' : ''}${style.italic ? ' i="1"' : ''}` +
+    `${spacing ? ` spc="${spacing}"` : ''} dirty="0">${color ? `<a:solidFill>${color}</a:solidFill>` : '<a:noFill/>'}` +
+    `<a:latin typeface="${typeface}"/><a:cs typeface="${typeface}"/></${tag}>`;
+}
+
+function slideTextXml(item: OfficeItem, ptPerUnit: number): string {
+  const style = item.text!;
+  const align = { left: 'l', center: 'ctr', right: 'r', justify: 'just' }[style.align];
+  const lineSpacing = Math.round(style.lineHeight * ptPerUnit * 100);
+  const paragraphs = item.element.content.split('\n').map(line =>
+    `<a:p><a:pPr algn="${align}"><a:lnSpc><a:spcPts val="${lineSpacing}"/></a:lnSpc></a:pPr>` +
+    (line ? `<a:r>${slideRunPropertiesXml(style, item.opacity, ptPerUnit, 'a:rPr')}<a:t>${escapeXml(line)}</a:t></a:r>` : '') +
+    `${slideRunPropertiesXml(style, item.opacity, ptPerUnit, 'a:endParaRPr')}</a:p>`
+  );
+  return '<p:txBody><a:bodyPr wrap="square" lIns="0" tIns="0" rIns="0" bIns="0" rtlCol="0" anchor="t"><a:noAutofit/></a:bodyPr>' +
+    `<a:lstStyle/>${paragraphs.join('')}</p:txBody>`;
+}
+
+/** Speaker notes from a page's open comments, oldest first, with their replies indented */
+function commentNotes(comments: Comment[] = []): Array<{ text: string; level: number }> {
+  return comments
+    .filter(comment => comment.status === 'open')
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .flatMap(comment => [
+      { text: `${comment.author.name}: ${comment.content}`, level: 0 },
+      ...comment.replies.map(reply => ({ text: `${reply.author.name}: ${reply.content}`, level: 1 })),
+    ]);
+}
+
+function notesSlideXml(notes: Array<{ text: string; level: number }>): string {
+  const paragraphs = notes.map(({ text, level }) =>
+    `<a:p>${level > 0 ? `<a:pPr marL="${level * 457200}"/>` : ''}<a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXml(text)}</a:t></a:r></a:p>`
+  );
+  return `${XML_DECLARATION}<p:notes xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"><p:cSld><p:spTree>${GROUP_PROPERTIES}` +
+    '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="sldImg"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>' +
+    '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+    '<p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/>' +
+    `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs.join('')}</p:txBody></p:sp>` +
+    '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>';
+}
+
+function themeXml(): string {
+  const colors = THEME_COLORS.map(([slot, hex]) => `<a:${slot}><a:srgbClr val="${hex}"/></a:${slot}>`).join('');
+  const font = '<a:latin typeface="Inter"/><a:ea typeface=""/><a:cs typeface=""/>';
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const lines = [6350, 12700, 19050].map(w => `<a:ln w="${w}">${fill}</a:ln>`).join('');
+  return `${XML_DECLARATION}<a:theme xmlns:a="${NS.a}" name="${APPLICATION}"><a:themeElements>` +
+    `<a:clrScheme name="${APPLICATION}">${colors}</a:clrScheme>` +
+    `<a:fontScheme name="${APPLICATION}"><a:majorFont>${font}</a:majorFont><a:minorFont>${font}</a:minorFont></a:fontScheme>` +
+    `<a:fmtScheme name="${APPLICATION}"><a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst><a:lnStyleLst>${lines}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>` +
+    `<a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst></a:fmtScheme>` +
+    '</a:themeElements></a:theme>';
+}
+
+const SLIDE_MASTER_XML = `${XML_DECLARATION}<p:sldMaster xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}">` +
+  `<p:cSld><p:spTree>${GROUP_PROPERTIES}</p:spTree></p:cSld><p:clrMap ${COLOR_MAP}/>` +
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>';
+
+const SLIDE_LAYOUT_XML = `${XML_DECLARATION}<p:sldLayout xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}" type="blank" preserve="1">` +
+  `<p:cSld name="Blank"><p:spTree>${GROUP_PROPERTIES}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+
+const NOTES_MASTER_XML = `${XML_DECLARATION}<p:notesMaster xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"><p:cSld><p:spTree>${GROUP_PROPERTIES}` +
+  '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/><p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+  '<p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr>' +
+  '<p:spPr><a:xfrm><a:off x="685800" y="685800"/><a:ext cx="5486400" cy="3429000"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr></p:sp>' +
+  '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+  '<p:nvPr><p:ph type="body" sz="quarter" idx="3"/></p:nvPr></p:nvSpPr>' +
+  '<p:spPr><a:xfrm><a:off x="685800" y="4400550"/><a:ext cx="5486400" cy="3600450"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>' +
+  '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>' +
+  `</p:spTree></p:cSld><p:clrMap ${COLOR_MAP}/></p:notesMaster>`;
+
+/**
+ * Export pages as a PowerPoint deck, one slide per page at the design's
+ * size (96 design units per inch, scaled down to PowerPoint's largest
+ * slide when needed). Text elements become text boxes in their font,
+ * shapes become native shapes and images are placed and cropped like on
+ * the canvas. Open comments become speaker notes. WebP and SVG images are
+ * converted to PNG; images that cannot be converted are left out with a
+ * warning.
+ */
+export async function renderPPTX(pages: OfficePage[], options: OfficeExportOptions): Promise<OfficeExportResult> {
+  if (pages.length === 0) throw new Error('A deck needs at least one page');
+
+  const { width, height } = options;
+  let scale = EMU_PER_PX;
+  if (Math.max(width, height) * scale > MAX_SLIDE_EMU) scale = MAX_SLIDE_EMU / Math.max(width, height);
+  if (Math.min(width, height) * scale < MIN_SLIDE_EMU) scale = MIN_SLIDE_EMU / Math.min(width, height);
+  const emu: EmuScale = value => Math.round(value * scale);
+  const ptPerUnit = scale / EMU_PER_PT;
+
+  const warnings: string[] = [];
+  const media = createMediaStore('ppt/media', options.convertImage ?? convertImageInBrowser, warnings);
+  const background = fillXml(options.background ?? '#ffffff', 1);
+  const parts: ZipWriteEntry[] = [];
+  let notesCount = 0;
+
+  for (const [index, page] of pages.entries()) {
+    const items = await loadPage(page, options, warnings);
+    const rels: Relationship[] = [{ type: REL.slideLayout, target: '../slideLayouts/slideLayout1.xml' }];
+    const relId = (type: string, target: string) => {
+      const existing = rels.findIndex(rel => rel.type === type && rel.target === target);
+      if (existing >= 0) return `rId${existing + 1}`;
+      rels.push({ type, target });
+      return `rId${rels.length}`;
+    };
+
+    const shapes: string[] = [];
+    for (const item of items) {
+      const id = shapes.length + 2;
+      const name = escapeXml(item.element.id);
+      const { frame, geometry } = placeItem(item, warnings);
+
+      if (item.text) {
+        shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+          `<p:spPr>${xfrmXml(frame, emu)}${geometryXml({ preset: 'rect' }, emu)}<a:noFill/></p:spPr>${slideTextXml(item, ptPerUnit)}</p:sp>`);
+      } else if (item.image) {
+        const stored = await media.add(item.image, describe(item.element));
+        if (!stored) continue;
+        const blip = blipXml(relId(REL.image, `../media/${stored.name}`), stored, frame, item.opacity);
+        shapes.push(`<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="${name}"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+          `<p:blipFill>${blip}</p:blipFill><p:spPr>${xfrmXml(frame, emu)}${geometryXml(geometry, emu)}</p:spPr></p:pic>`);
+      } else if (item.shape) {
+        shapes.push(`<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+          `<p:spPr>${shapePropertiesXml(item, frame, geometry, emu)}</p:spPr></p:sp>`);
+      }
+    }
+
+    const slide = index + 1;
+    const notes = commentNotes(page.comments);
+    if (notes.length > 0) {
+      notesCount++;
+      relId(REL.notesSlide, `../notesSlides/notesSlide${notesCount}.xml`);
+      parts.push(
+        { name: `ppt/notesSlides/notesSlide${notesCount}.xml`, data: notesSlideXml(notes) },
+        {
+          name: `ppt/notesSlides/_rels/notesSlide${notesCount}.xml.rels`,
+          data: relationshipsXml([
+            { type: REL.notesMaster, target: '../notesMasters/notesMaster1.xml' },
+            { type: REL.slide, target: `../slides/slide${slide}.xml` },
+          ]),
+        }
+      );
+    }
+
+    const slideName = page.name ? ` name="${escapeXml(page.name)}"` : '';
+    parts.push(
+      {
+        name: `ppt/slides/slide${slide}.xml`,
+        data: `${XML_DECLARATION}<p:sld xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}">` +
+          `<p:cSld${slideName}><p:bg><p:bgPr>${background}<a:effectLst/></p:bgPr></p:bg><p:spTree>${GROUP_PROPERTIES}${shapes.join('')}</p:spTree></p:cSld>` +
+          '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>',
+      },
+      { name: `ppt/slides/_rels/slide${slide}.xml.rels`, data: relationshipsXml(rels) }
+    );
+    options.onProgress?.(Math.round((slide / pages.length) * 100));
+  }
+
+  // Presentation parts: master, layout, slides, then the optional notes master
+  const presentationRels: Relationship[] = [
+    { type: REL.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+    ...pages.map((_, i) => ({ type: REL.slide, target: `slides/slide${i + 1}.xml` })),
+    { type: REL.theme, target: 'theme/theme1.xml' },
+    { type: REL.presProps, target: 'presProps.xml' },
+    { type: REL.tableStyles, target: 'tableStyles.xml' },
+    ...(notesCount > 0 ? [{ type: REL.notesMaster, target: 'notesMasters/notesMaster1.xml' }] : []),
+  ];
+  const slideIds = pages.map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 2}"/>`).join('');
+  const notesMasterId = notesCount > 0 ? `<p:notesMasterIdLst><p:notesMasterId r:id="rId${presentationRels.length}"/></p:notesMasterIdLst>` : '';
+  const presentation = `${XML_DECLARATION}<p:presentation xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}" saveSubsetFonts="1">` +
+    `<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>${notesMasterId}` +
+    `<p:sldIdLst>${slideIds}</p:sldIdLst><p:sldSz cx="${emu(width)}" cy="${emu(height)}"/>` +
+    `<p:notesSz cx="${NOTES_WIDTH}" cy="${NOTES_HEIGHT}"/></p:presentation>`;
+
+  const overrides: Array<[string, string]> = [
+    ['/ppt/presentation.xml', CONTENT_TYPE.presentation],
+    ['/ppt/slideMasters/slideMaster1.xml', CONTENT_TYPE.slideMaster],
+    ['/ppt/slideLayouts/slideLayout1.xml', CONTENT_TYPE.slideLayout],
+    ...pages.map((_, i): [string, string] => [`/ppt/slides/slide${i + 1}.xml`, CONTENT_TYPE.slide]),
+    ['/ppt/theme/theme1.xml', CONTENT_TYPE.theme],
+    ['/ppt/presProps.xml', CONTENT_TYPE.presProps],
+    ['/ppt/tableStyles.xml', CONTENT_TYPE.tableStyles],
+    ...(notesCount > 0
+      ? [
+        ['/ppt/notesMasters/notesMaster1.xml', CONTENT_TYPE.notesMaster] as [string, string],
+        ['/ppt/theme/theme2.xml', CONTENT_TYPE.theme] as [string, string],
+        ...Array.from({ length: notesCount }, (_, i): [string, string] => [`/ppt/notesSlides/notesSlide${i + 1}.xml`, CONTENT_TYPE.notesSlide]),
+      ]
+      : []),
+    ['/docProps/core.xml', CONTENT_TYPE.core],
+    ['/docProps/app.xml', CONTENT_TYPE.app],
+  ];
+
+  const bytes = await writeZip([
+    { name: '[Content_Types].xml', data: contentTypesXml(media.extensions, overrides) },
+    {
+      name: '_rels/.rels',
+      data: relationshipsXml([
+        { type: REL.officeDocument, target: 'ppt/presentation.xml' },
+        { type: REL.coreProperties, target: 'docProps/core.xml' },
+        { type: REL.extendedProperties, target: 'docProps/app.xml' },
+      ]),
+    },
+    { name: 'docProps/core.xml', data: corePropertiesXml(options) },
+    { name: 'docProps/app.xml', data: appPropertiesXml(`<Slides>${pages.length}</Slides><Notes>${notesCount}</Notes>`) },
+    { name: 'ppt/presentation.xml', data: presentation },
+    { name: 'ppt/_rels/presentation.xml.rels', data: relationshipsXml(presentationRels) },
+    { name: 'ppt/presProps.xml', data: `${XML_DECLARATION}<p:presentationPr xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"/>` },
+    { name: 'ppt/tableStyles.xml', data: `${XML_DECLARATION}<a:tblStyleLst xmlns:a="${NS.a}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>` },
+    { name: 'ppt/theme/theme1.xml', data: themeXml() },
+    { name: 'ppt/slideMasters/slideMaster1.xml', data: SLIDE_MASTER_XML },
+    {
+      name: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      data: relationshipsXml([
+        { type: REL.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+        { type: REL.theme, target: '../theme/theme1.xml' },
+      ]),
+    },
+    { name: 'ppt/slideLayouts/slideLayout1.xml', data: SLIDE_LAYOUT_XML },
+    {
+      name: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      data: relationshipsXml([{ type: REL.slideMaster, target: '../slideMasters/slideMaster1.xml' }]),
+    },
+    ...(notesCount > 0
+      ? [
+        { name: 'ppt/notesMasters/notesMaster1.xml', data: NOTES_MASTER_XML },
+        { name: 'ppt/notesMasters/_rels/notesMaster1.xml.rels', data: relationshipsXml([{ type: REL.theme, target: '../theme/theme2.xml' }]) },
+        { name: 'ppt/theme/theme2.xml', data: themeXml() },
+      ]
+      : []),
+    ...parts,
+    ...media.entries,
+  ]);
+
+  return { bytes, warnings };
+}
+
+// ============================================
+// WORD
+// ============================================
+
+function wordRunXml(style: TextStyle, text: string, ptPerUnit: number): string {
+  const font = escapeXml(style.family);
+  const color = cssColor(style.color);
+  const halfPoints = Math.max(2, Math.round(style.fontSize * ptPerUnit * 2));
+  const spacing = Math.round(style.letterSpacing * ptPerUnit * 20);
+  return `<w:r><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>` +
+    `${style.weight >= 600 ? '<w:b/>' : ''}${style.italic ? '<w:i/>' : ''}` +
+    `${color ? `<w:color w:val="${hexColor(color.rgb)}"/>` : ''}${spacing ? `<w:spacing w:val="${spacing}"/>` : ''}` +
+    `<w:sz w:val="${halfPoints}"/><w:szCs w:val="${halfPoints}"/></w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraphXml({ properties, runs }: WordParagraph): string {
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function sectionXml(width: number, height: number, margins: { top: number; right: number; bottom: number; left: number }): string {
+  return `<w:sectPr><w:pgSz w:w="${width}" w:h="${height}"${width > height ? ' w:orient="landscape"' : ''}/>` +
+    `<w:pgMar w:top="${margins.top}" w:right="${margins.right}" w:bottom="${margins.bottom}" w:left="${margins.left}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>`;
+}
+
+const STYLES_XML = `${XML_DECLARATION}<w:styles xmlns:w="${NS.w}"><w:docDefaults>` +
+  '<w:rPrDefault><w:rPr><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style></w:styles>';
+
+/**
+ * Export pages as a Word document for document-style templates, one
+ * section per page at the design's size. Text and images flow in reading
+ * order (top to bottom, then left to right): text as paragraphs in its
+ * font, indented to its box, images inline at their size. The gaps
+ * between them become paragraph spacing and the page margins follow the
+ * content. Shapes and a non-white background are placed behind the text.
+ */
+export async function renderDOCX(pages: OfficePage[], options: OfficeExportOptions): Promise<OfficeExportResult> {
+  if (pages.length === 0) throw new Error('A document needs at least one page');
+
+  const { width, height } = options;
+  const twipsPerUnit = Math.min(TWIPS_PER_PX, MAX_PAGE_TWIPS / Math.max(width, height));
+  const twips = (value: number) => Math.max(0, Math.round(value * twipsPerUnit));
+  const emu: EmuScale = value => Math.round(value * twipsPerUnit * EMU_PER_TWIP);
+  const ptPerUnit = twipsPerUnit / 20;
+
+  const warnings: string[] = [];
+  const media = createMediaStore('word/media', options.convertImage ?? convertImageInBrowser, warnings);
+  const rels: Relationship[] = [{ type: REL.styles, target: 'styles.xml' }];
+  const imageRel = (name: string) => {
+    const existing = rels.findIndex(rel => rel.target === `media/${name}`);
+    if (existing >= 0) return `rId${existing + 1}`;
+    rels.push({ type: REL.image, target: `media/${name}` });
+    return `rId${rels.length}`;
+  };
+
+  const background = cssColor(options.background ?? '#ffffff');
+  const body: string[] = [];
+  let drawingId = 0;
+
+  const anchorXml = (frame: Frame, spPr: string, depth: number) => {
+    const id = ++drawingId;
+    return `<w:r><w:drawing><wp:anchor distT="0" distB="0" distL="0" distR="0" simplePos="0" relativeHeight="${depth}" behindDoc="1" locked="0" layoutInCell="1" allowOverlap="1">` +
+      '<wp:simplePos x="0" y="0"/>' +
+      `<wp:positionH relativeFrom="page"><wp:posOffset>${emu(frame.x)}</wp:posOffset></wp:positionH>` +
+      `<wp:positionV relativeFrom="page"><wp:posOffset>${emu(frame.y)}</wp:posOffset></wp:positionV>` +
+      `<wp:extent cx="${Math.max(1, emu(frame.width))}" cy="${Math.max(1, emu(frame.height))}"/><wp:effectExtent l="0" t="0" r="0" b="0"/><wp:wrapNone/>` +
+      `<wp:docPr id="${id}" name="Shape ${id}"/><wp:cNvGraphicFramePr/>` +
+      `<a:graphic><a:graphicData uri="${NS.wps}"><wps:wsp><wps:cNvSpPr/><wps:spPr>${spPr}</wps:spPr><wps:bodyPr/></wps:wsp></a:graphicData></a:graphic>` +
+      '</wp:anchor></w:drawing></w:r>';
+  };
+
+  for (const [index, page] of pages.entries()) {
+    const items = await loadPage(page, options, warnings);
+    const anchors: string[] = [];
+    if (background && hexColor(background.rgb) !== 'FFFFFF') {
+      const frame: Frame = { x: 0, y: 0, width, height, rotation: 0 };
+      const spPr = `${xfrmXml(frame, emu)}${geometryXml({ preset: 'rect' }, emu)}${fillXml(options.background, 1)}<a:ln><a:noFill/></a:ln>`;
+      anchors.push(anchorXml(frame, spPr, 1));
+    }
+
+    const flow: Array<{ item: OfficeItem; frame: Frame; geometry: Geometry }> = [];
+    for (const item of items) {
+      const placed = placeItem(item, warnings);
+      if (item.shape) {
+        const local = { ...placed.frame, x: 0, y: 0 };
+        anchors.push(anchorXml(placed.frame, shapePropertiesXml(item, local, placed.geometry, emu), anchors.length + 2));
+      } else {
+        flow.push({ item, ...placed });
+      }
+    }
+    // Reading order; sort is stable, so overlapping elements keep their stacking order
+    flow.sort((a, b) => a.frame.y - b.frame.y || a.frame.x - b.frame.x);
+
+    const left = flow.length > 0 ? Math.max(0, Math.min(...flow.map(({ frame }) => frame.x))) : 0;
+    const right = flow.length > 0 ? Math.min(width, Math.max(...flow.map(({ frame }) => frame.x + frame.width))) : width;
+    const top = flow.length > 0 ? Math.max(0, Math.min(...flow.map(({ frame }) => frame.y))) : 0;
+    const bottom = flow.length > 0 ? Math.min(height, Math.max(...flow.map(({ frame }) => frame.y + frame.height))) : height;
+
+    const paragraphs: WordParagraph[] = [];
+    let cursor = top;
+    for (const { item, frame, geometry } of flow) {
+      const before = twips(frame.y - cursor);
+      const indent = `<w:ind w:left="${twips(frame.x - left)}" w:right="${twips(right - frame.x - frame.width)}"/>`;
+      cursor = Math.max(cursor, frame.y + frame.height);
+
+      if (item.text) {
+        const style = item.text;
+        const jc = { left: 'left', center: 'center', right: 'right', justify: 'both' }[style.align];
+        item.element.content.split('\n').forEach((line, i) => {
+          paragraphs.push({
+            properties: `<w:spacing w:before="${i === 0 ? before : 0}" w:after="0" w:line="${twips(style.lineHeight)}" w:lineRule="exact"/>${indent}<w:jc w:val="${jc}"/>`,
+            runs: line ? wordRunXml(style, line, ptPerUnit) : '',
+          });
+        });
+      } else if (item.image) {
+        const stored = await media.add(item.image, describe(item.element));
+        if (!stored) continue;
+        const id = ++drawingId;
+        const name = escapeXml(item.element.id);
+        const local = { ...frame, x: 0, y: 0 };
+        const picture = `<pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="${name}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+          `<pic:blipFill>${blipXml(imageRel(stored.name), stored, frame, item.opacity)}</pic:blipFill>` +
+          `<pic:spPr>${xfrmXml(local, emu)}${geometryXml(geometry, emu)}</pic:spPr></pic:pic>`;
+        paragraphs.push({
+          properties: `<w:spacing w:before="${before}" w:after="0"/>${indent}`,
+          runs: `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+            `<wp:extent cx="${Math.max(1, emu(frame.width))}" cy="${Math.max(1, emu(frame.height))}"/><wp:effectExtent l="0" t="0" r="0" b="0"/>` +
+            `<wp:docPr id="${id}" name="${name}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>` +
+            `<a:graphic><a:graphicData uri="${NS.pic}">${picture}</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`,
+        });
+      }
+    }
+
+    // Shapes are anchored to the page's first paragraph
+    if (paragraphs.length === 0) paragraphs.push({ properties: '', runs: '' });
+    paragraphs[0]!.runs = anchors.join('') + paragraphs[0]!.runs;
+
+    const section = sectionXml(twips(width), twips(height), {
+      top: twips(top),
+      right: twips(width - right),
+      bottom: twips(height - bottom),
+      left: twips(left),
+    });
+    if (index < pages.length - 1) {
+      // Every section but the last ends in its last paragraph
+      const last = paragraphs[paragraphs.length - 1]!;
+      last.properties += section;
+      body.push(...paragraphs.map(paragraphXml));
+    } else {
+      body.push(...paragraphs.map(paragraphXml), section);
+    }
+    options.onProgress?.(Math.round(((index + 1) / pages.length) * 100));
+  }
+
+  const document = `${XML_DECLARATION}<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}" xmlns:wps="${NS.wps}">` +
+    `<w:body>${body.join('')}</w:body></w:document>`;
+
+  const bytes = await writeZip([
+    {
+      name: '[Content_Types].xml',
+      data: contentTypesXml(media.extensions, [
+        ['/word/document.xml', CONTENT_TYPE.document],
+        ['/word/styles.xml', CONTENT_TYPE.styles],
+        ['/docProps/core.xml', CONTENT_TYPE.core],
+        ['/docProps/app.xml', CONTENT_TYPE.app],
+      ]),
+    },
+    {
+      name: '_rels/.rels',
+      data: relationshipsXml([
+        { type: REL.officeDocument, target: 'word/document.xml' },
+        { type: REL.coreProperties, target: 'docProps/core.xml' },
+        { type: REL.extendedProperties, target: 'docProps/app.xml' },
+      ]),
+    },
+    { name: 'docProps/core.xml', data: corePropertiesXml(options) },
+    { name: 'docProps/app.xml', data: appPropertiesXml(`<Pages>${pages.length}</Pages>`) },
+    { name: 'word/document.xml', data: document },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/_rels/document.xml.rels', data: relationshipsXml(rels) },
+    ...media.entries,
+  ]);
+
+  return { bytes, warnings };
+}
@@ -0,0 +1,370 @@
+// =============================================
+// Offline Sync Merge
+// Three-way merge of offline edits with the server copy
+// =============================================
+
+import type { EntityType, SyncQueueItem } from './offlineSyncService';
+
+// =============================================
+// Types
+// =============================================
+
+export type FieldResolution = 'local' | 'server';
+
+/**
+ * Which side a merged field came from. 'both' means both sides made the
+ * same change (or set fields were combined); 'conflict' needs a decision.
+ */
+export type FieldSource = 'local' | 'server' | 'both' | 'conflict';
+
+export interface FieldDiff {
+  /** Dotted path; items of id-keyed arrays appear as `elements[<id>]` */
+  path: string;
+  kind: 'field' | 'delete';
+  source: FieldSource;
+  base?: unknown;
+  local?: unknown;
+  server?: unknown;
+}
+
+export interface SyncMergeResult {
+  merged: unknown;
+  /** Every field that changed on either side */
+  diff: FieldDiff[];
+  /** The subset of diff still needing a resolution */
+  conflicts: FieldDiff[];
+}
+
+export interface EntityMergeRules {
+  /** Arrays of primitives merged as sets: additions and removals from both sides are kept */
+  setFields: string[];
+  /** Fields maintained by the server; its value is always kept */
+  serverFields: string[];
+}
+
+export const ENTITY_MERGE_RULES: Record<EntityType, EntityMergeRules> = {
+  project: {
+    setFields: ['tags', 'collaborators'],
+    serverFields: ['updated_at', 'current_version', 'last_opened_at'],
+  },
+  asset: {
+    setFields: ['tags', 'dominant_colors'],
+    serverFields: ['updated_at', 'processing_status', 'cdn_url', 'storage_key', 'file_size'],
+  },
+  template: {
+    setFields: ['tags', 'categories'],
+    serverFields: ['updated_at', 'downloads', 'rating', 'rating_count'],
+  },
+  canvas: {
+    setFields: [],
+    serverFields: ['updated_at'],
+  },
+};
+
+/**
+ * Minimal shape of `supabase.rpc`, so an in-memory server can stand in for it
+ */
+export type SyncRpc = (
+  fn: string,
+  params: Record<string, unknown>
+) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+
+interface SyncRpcResponse {
+  success?: boolean;
+  conflict?: boolean;
+  conflict_id?: string;
+  server_data?: unknown;
+  server_version?: number;
+  version?: number;
+  error?: string;
+}
+
+export type SyncOutcome =
+  | { status: 'synced'; version: number; data: unknown; merged: boolean }
+  | {
+      status: 'conflict';
+      conflictId?: string;
+      serverData: unknown;
+      serverVersion: number;
+      result: SyncMergeResult;
+    };
+
+/** How often a merge is retried when the server moves on while merging */
+const MAX_MERGE_ATTEMPTS = 3;
+
+// =============================================
+// Value Helpers
+// =============================================
+
+type PlainObject = Record<string, unknown>;
+type KeyedItem = PlainObject & { id: string };
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isKeyedArray(value: unknown): value is KeyedItem[] {
+  return Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.id === 'string');
+}
+
+function isPrimitiveArray(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.every(item => item === null || typeof item !== 'object');
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false;
+
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (!deepEqual(a[key], b[key])) return false;
+  }
+  return true;
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// =============================================
+// Merge
+// =============================================
+
+class MergeContext {
+  diff: FieldDiff[] = [];
+
+  constructor(
+    private rules: EntityMergeRules,
+    private resolutions: Record<string, FieldResolution>
+  ) {}
+
+  value(path: string, base: unknown, local: unknown, server: unknown): unknown {
+    if (this.rules.serverFields.includes(path)) return server;
+
+    const localChanged = !deepEqual(base, local);
+    const serverChanged = !deepEqual(base, server);
+
+    if (!localChanged && !serverChanged) return local;
+    if (deepEqual(local, server)) {
+      this.diff.push({ path, kind: 'field', source: 'both', base, local, server });
+      return local;
+    }
+    if (!serverChanged) {
+      this.diff.push({ path, kind: 'field', source: 'local', base, local, server });
+      return local;
+    }
+    if (!localChanged) {
+      this.diff.push({ path, kind: 'field', source: 'server', base, local, server });
+      return server;
+    }
+
+    // Both sides changed the same value - descend where the shape allows it
+    if (isPlainObject(local) && isPlainObject(server) && (base === undefined || isPlainObject(base))) {
+      return this.object(path, base ?? {}, local, server);
+    }
+    if (isKeyedArray(local) && isKeyedArray(server) && (base === undefined || isKeyedArray(base))) {
+      return this.keyedArray(path, base ?? [], local, server);
+    }
+    if (
+      this.rules.setFields.includes(path) &&
+      isPrimitiveArray(local) &&
+      isPrimitiveArray(server) &&
+      (base === undefined || isPrimitiveArray(base))
+    ) {
+      const merged = mergeSets(base ?? [], local, server);
+      this.diff.push({ path, kind: 'field', source: 'both', base, local, server });
+      return merged;
+    }
+
+    return this.conflict({ path, kind: 'field', source: 'conflict', base, local, server });
+  }
+
+  private conflict(entry: FieldDiff): unknown {
+    this.diff.push(entry);
+    return this.resolutions[entry.path] === 'server' ? entry.server : entry.local;
+  }
+
+  private object(path: string, base: PlainObject, local: PlainObject, server: PlainObject): PlainObject {
+    const result: PlainObject = {};
+    const keys = new Set([...Object.keys(local), ...Object.keys(server), ...Object.keys(base)]);
+
+    for (const key of keys) {
+      const value = this.value(childPath(path, key), base[key], local[key], server[key]);
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+
+  private keyedArray(path: string, base: KeyedItem[], local: KeyedItem[], server: KeyedItem[]): KeyedItem[] {
+    const baseById = new Map(base.map(item => [item.id, item]));
+    const localById = new Map(local.map(item => [item.id, item]));
+    const serverById = new Map(server.map(item => [item.id, item]));
+    const merged = new Map<string, KeyedItem>();
+
+    for (const id of new Set([...localById.keys(), ...serverById.keys()])) {
+      const itemPath = `${path}[${id}]`;
+      const b = baseById.get(id);
+      const l = localById.get(id);
+      const s = serverById.get(id);
+
+      if (l && s) {
+        merged.set(id, this.value(itemPath, b, l, s) as KeyedItem);
+        continue;
+      }
+
+      const kept = (l ?? s)!;
+      if (!b) {
+        // Added on one side only
+        this.diff.push({ path: itemPath, kind: 'field', source: l ? 'local' : 'server', local: l, server: s });
+        merged.set(id, kept);
+        continue;
+      }
+
+      // Removed on one side: clean if the other side left it alone
+      if (deepEqual(b, kept)) {
+        this.diff.push({ path: itemPath, kind: 'delete', source: l ? 'server' : 'local', base: b, local: l, server: s });
+        continue;
+      }
+      const resolved = this.conflict({ path: itemPath, kind: 'delete', source: 'conflict', base: b, local: l, server: s });
+      if (resolved) merged.set(id, resolved as KeyedItem);
+    }
+
+    // Keep the order of the side that reordered; place the other side's additions after their predecessor
+    const localReordered = !sameOrder(base, local);
+    const primary = localReordered || sameOrder(base, server) ? local : server;
+    const secondary = primary === local ? server : local;
+
+    const order = primary.map(item => item.id).filter(id => merged.has(id));
+    secondary.forEach((item, i) => {
+      if (order.includes(item.id) || !merged.has(item.id)) return;
+      const previous = i > 0 ? order.indexOf(secondary[i - 1]!.id) : -1;
+      order.splice(previous + 1, 0, item.id);
+    });
+
+    return order.map(id => merged.get(id)!);
+  }
+}
+
+function sameOrder(a: KeyedItem[], b: KeyedItem[]): boolean {
+  const ids = new Set(b.map(item => item.id));
+  const shared = a.map(item => item.id).filter(id => ids.has(id));
+  const ordered = b.map(item => item.id).filter(id => shared.includes(id));
+  return shared.every((id, i) => ordered[i] === id);
+}
+
+function mergeSets(base: unknown[], local: unknown[], server: unknown[]): unknown[] {
+  const removed = new Set([
+    ...base.filter(item => !local.includes(item)),
+    ...base.filter(item => !server.includes(item)),
+  ]);
+  const result = local.filter(item => !removed.has(item));
+  for (const item of server) {
+    if (!removed.has(item) && !result.includes(item)) result.push(item);
+  }
+  return result;
+}
+
+/**
+ * Merge an entity edited offline (local) with the copy on the server, field
+ * by field, relative to the version the offline edit started from (base).
+ * Non-overlapping edits merge automatically; unresolved conflicts keep the
+ * local value until a resolution for their path is given.
+ */
+export function mergeEntity(
+  entityType: EntityType,
+  base: unknown,
+  local: unknown,
+  server: unknown,
+  resolutions: Record<string, FieldResolution> = {}
+): SyncMergeResult {
+  const context = new MergeContext(ENTITY_MERGE_RULES[entityType], resolutions);
+  const merged = context.value('', base ?? undefined, local, server);
+
+  return {
+    merged,
+    diff: context.diff,
+    conflicts: context.diff.filter(entry => entry.source === 'conflict'),
+  };
+}
+
+/**
+ * Merge the deletion of an entity with the server copy: deleting is only
+ * safe when nobody changed the entity since it was last synced
+ */
+export function mergeEntityDelete(
+  base: unknown,
+  server: unknown,
+  resolutions: Record<string, FieldResolution> = {}
+): SyncMergeResult {
+  if (deepEqual(base, server)) {
+    return { merged: null, diff: [{ path: '', kind: 'delete', source: 'local', base, server }], conflicts: [] };
+  }
+
+  const conflict: FieldDiff = { path: '', kind: 'delete', source: 'conflict', base, server };
+  return {
+    merged: resolutions[''] === 'server' ? server : null,
+    diff: [conflict],
+    conflicts: [conflict],
+  };
+}
+
+// =============================================
+// Sync
+// =============================================
+
+async function callSync(rpc: SyncRpc, fn: string, params: Record<string, unknown>): Promise<SyncRpcResponse> {
+  const { data, error } = await rpc(fn, params);
+  if (error) throw new Error(error.message);
+  return (data ?? {}) as SyncRpcResponse;
+}
+
+/**
+ * Push a queued change to the server. When the server reports a conflict the
+ * change is merged with the server copy and resubmitted; conflicts that need
+ * a decision are returned for the Offline Mode UI.
+ */
+export async function reconcileSyncItem(item: SyncQueueItem, rpc: SyncRpc): Promise<SyncOutcome> {
+  let response = await callSync(rpc, 'process_sync_item', { p_queue_id: item.id });
+  let data: unknown = item.entity_data;
+  let merged = false;
+
+  for (let attempt = 0; ; attempt++) {
+    if (response.success) {
+      return { status: 'synced', version: response.version ?? 0, data, merged };
+    }
+    if (!response.conflict) {
+      throw new Error(response.error || 'Unknown error');
+    }
+
+    const serverVersion = response.server_version ?? 0;
+    const result = item.operation_type === 'delete'
+      ? mergeEntityDelete(item.base_data, response.server_data)
+      : mergeEntity(item.entity_type, item.base_data, item.entity_data, response.server_data);
+
+    if (result.conflicts.length === 0 && attempt >= MAX_MERGE_ATTEMPTS) {
+      throw new Error('Server copy kept changing while merging');
+    }
+    if (result.conflicts.length > 0) {
+      return {
+        status: 'conflict',
+        conflictId: response.conflict_id,
+        serverData: response.server_data,
+        serverVersion,
+        result,
+      };
+    }
+
+    data = result.merged;
+    merged = true;
+    response = await callSync(rpc, 'apply_sync_merge', {
+      p_queue_id: item.id,
+      p_conflict_id: response.conflict_id,
+      p_data: data,
+      p_base_version: serverVersion,
+    });
+  }
+}
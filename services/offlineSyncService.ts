@@ -4,6 +4,8 @@
 // =============================================
 
 import { supabase } from '../lib/supabase';
+import { mergeEntity, mergeEntityDelete, reconcileSyncItem } from './offlineSyncMerge';
+import type { FieldDiff, FieldResolution, SyncMergeResult, SyncRpc } from './offlineSyncMerge';
 
 // =============================================
 // Types
@@ -21,6 +23,7 @@ export interface SyncQueueItem {
   entity_type: EntityType;
   entity_id: string;
   entity_data?: any;
+  base_data?: any; // Last synced copy the change was made against
   local_timestamp: string;
   server_timestamp?: string;
   version: number;
@@ -28,6 +31,7 @@ export interface SyncQueueItem {
   conflict_status: 'none' | 'detected' | 'resolved' | 'rejected';
   conflict_resolution?: ConflictResolution;
   conflict_data?: any;
+  conflict_diff?: FieldDiff[];
   sync_status: SyncStatus;
   retry_count: number;
   max_retries: number;
@@ -38,10 +42,13 @@ export interface SyncQueueItem {
 
 export interface SyncConflict {
   id: string;
+  sync_queue_id?: string;
   entity_type: EntityType;
   entity_id: string;
+  base_data?: any;
   local_data: any;
   server_data: any;
+  server_version?: number;
   local_timestamp: string;
   server_timestamp: string;
   resolution?: ConflictResolution;
@@ -252,13 +259,15 @@ class OfflineStorage {
 
 class OfflineSyncService {
   private storage: OfflineStorage;
+  private rpc: SyncRpc;
   private deviceId: string;
   private isOnline: boolean = navigator.onLine;
   private syncInProgress: boolean = false;
   private listeners: Set<(status: { isOnline: boolean; pendingCount: number }) => void> = new Set();
 
-  constructor() {
+  constructor(rpc: SyncRpc = (fn, params) => supabase.rpc(fn, params)) {
     this.storage = new OfflineStorage();
+    this.rpc = rpc;
     this.deviceId = this.getOrCreateDeviceId();
     this.setupEventListeners();
   }
@@ -386,6 +395,10 @@ class OfflineSyncService {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
 
+    const baseData = operationType === 'create'
+      ? undefined
+      : await this.storage.getCachedData(this.cacheKey(entityType, entityId));
+
     const queueId = await this.storage.addToSyncQueue({
       user_id: user.id,
       device_id: this.deviceId,
@@ -393,6 +406,7 @@ class OfflineSyncService {
       entity_type: entityType,
       entity_id: entityId,
       entity_data: entityData,
+      base_data: baseData ?? undefined,
       local_timestamp: new Date().toISOString(),
       version: 1,
       base_version: baseVersion,
@@ -443,25 +457,23 @@ class OfflineSyncService {
     try {
       await this.storage.updateSyncItem(item.id, { sync_status: 'syncing' });
 
-      // Call server sync function
-      const { data, error } = await supabase.rpc('process_sync_item', {
-        p_queue_id: item.id,
-      });
-
-      if (error) throw error;
+      // Call server sync function, merging with the server copy on conflict
+      const outcome = await reconcileSyncItem(item, this.rpc);
 
-      if (data?.conflict) {
-        // Handle conflict
+      if (outcome.status === 'conflict') {
+        // Overlapping edits - wait for a resolution
         await this.storage.updateSyncItem(item.id, {
           sync_status: 'conflict',
           conflict_status: 'detected',
-          conflict_data: data.server_data,
+          conflict_data: outcome.serverData,
+          conflict_diff: outcome.result.diff,
         });
-      } else if (data?.success) {
-        // Success - remove from queue
-        await this.storage.removeSyncItem(item.id);
       } else {
-        throw new Error(data?.error || 'Unknown error');
+        // Success - remove from queue and keep the synced copy as the next base
+        await this.storage.removeSyncItem(item.id);
+        if (item.operation_type !== 'delete') {
+          await this.storage.cacheData(this.cacheKey(item.entity_type, item.entity_id), item.entity_type, outcome.data);
+        }
       }
     } catch (err: any) {
       const retryCount = item.retry_count + 1;
@@ -505,7 +517,7 @@ class OfflineSyncService {
         // Cache the changes
         for (const change of data) {
           await this.storage.cacheData(
-            `${entityType}:${change.entity_id}`,
+            this.cacheKey(entityType, change.entity_id),
             entityType,
             change.data
           );
@@ -554,15 +566,30 @@ class OfflineSyncService {
     return data || [];
   }
 
+  /**
+   * Field-by-field merge of a conflict for review. Non-overlapping edits are
+   * merged automatically; pass resolutions for the paths still in conflict.
+   */
+  mergeConflict(conflict: SyncConflict, resolutions: Record<string, FieldResolution> = {}): SyncMergeResult {
+    if (conflict.local_data === null) {
+      return mergeEntityDelete(conflict.base_data, conflict.server_data, resolutions);
+    }
+    return mergeEntity(conflict.entity_type, conflict.base_data, conflict.local_data, conflict.server_data, resolutions);
+  }
+
   async resolveConflict(
     conflictId: string,
     resolution: ConflictResolution,
     resolvedData?: any
   ): Promise<boolean> {
+    if (resolution === 'merged' && resolvedData === undefined) {
+      throw new Error('Merged resolution requires the merged data');
+    }
+
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return false;
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from('sync_conflicts')
       .update({
         resolution,
@@ -570,22 +597,62 @@ class OfflineSyncService {
         resolved_by: user.id,
         resolved_at: new Date().toISOString(),
       })
-      .eq('id', conflictId);
+      .eq('id', conflictId)
+      .select()
+      .single();
 
     if (error) {
       console.error('Failed to resolve conflict:', error);
       return false;
     }
 
+    await this.applyResolution(data as SyncConflict, resolution, resolvedData);
+
     // Re-sync with resolution
     await this.syncAll();
     return true;
   }
 
+  /**
+   * Drop the queued change, or re-queue it on top of the server copy
+   */
+  private async applyResolution(
+    conflict: SyncConflict,
+    resolution: ConflictResolution,
+    resolvedData?: any
+  ): Promise<void> {
+    if (resolution === 'server_wins') {
+      if (conflict.sync_queue_id) await this.storage.removeSyncItem(conflict.sync_queue_id);
+      await this.storage.cacheData(this.cacheKey(conflict.entity_type, conflict.entity_id), conflict.entity_type, conflict.server_data);
+      return;
+    }
+    if (!conflict.sync_queue_id) return;
+
+    try {
+      await this.storage.updateSyncItem(conflict.sync_queue_id, {
+        entity_data: resolution === 'local_wins' ? conflict.local_data : resolvedData,
+        base_data: conflict.server_data,
+        base_version: conflict.server_version,
+        sync_status: 'pending',
+        conflict_status: 'resolved',
+        conflict_resolution: resolution,
+        conflict_diff: undefined,
+        retry_count: 0,
+      });
+    } catch (err) {
+      // Queued on another device - nothing to re-queue here
+      console.warn('Conflict has no local change to re-queue:', err);
+    }
+  }
+
   // =============================================
   // Cache Operations
   // =============================================
 
+  private cacheKey(entityType: EntityType, entityId: string): string {
+    return `${entityType}:${entityId}`;
+  }
+
   async getCached<T>(key: string): Promise<T | null> {
     return this.storage.getCachedData<T>(key);
   }
@@ -0,0 +1,1872 @@
+// ============================================
+// LUMINA PDF ARCHIVE
+// PDF/A-1, PDF/A-2 and PDF/A-3 conformance checks and conversion:
+// font embedding, output intents, XMP identification and removal
+// of features the conformance level forbids
+// ============================================
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument as PDFLibDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  StandardFontEmbedder,
+  StandardFonts,
+} from 'pdf-lib';
+import type { PDFContext, PDFObject } from 'pdf-lib';
+import {
+  decodeStreamData,
+  getFilterNames,
+  lookupNumber,
+  operandName,
+  dictEntry,
+  parseContentStream,
+  readContentStreams,
+  removeUnreachableObjects,
+} from './pdfContentStream';
+import { decryptDocumentObjects, randomBytes } from './pdfSecurity';
+import { fetchGoogleFontFile } from './fontService';
+import { createSRGBProfile } from './iccProfile';
+import { parseTrueType } from './trueType';
+import type { TrueTypeProgram } from './trueType';
+import type { PDFMetadata } from '../components/PDFSuite/types';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PDFALevel = '1a' | '1b' | '2a' | '2b' | '2u' | '3a' | '3b' | '3u';
+
+export type PDFAIssueSeverity = 'error' | 'warning' | 'info';
+
+export type PDFAIssueCategory =
+  | 'fonts'
+  | 'color'
+  | 'transparency'
+  | 'metadata'
+  | 'structure'
+  | 'actions'
+  | 'encryption'
+  | 'annotations';
+
+/** Transformations applied by convertToPDFA; each issue names the one that resolves it */
+export type PDFAFixAction =
+  | 'decrypt'
+  | 'remove-javascript'
+  | 'remove-actions'
+  | 'fix-embedded-files'
+  | 'fix-optional-content'
+  | 'fix-forms'
+  | 'flatten-transparency'
+  | 'fix-graphics-state'
+  | 'fix-xobjects'
+  | 'fix-annotations'
+  | 'embed-fonts'
+  | 'reencode-streams'
+  | 'add-output-intent'
+  | 'write-metadata';
+
+export interface PDFAIssue {
+  id: string;
+  category: PDFAIssueCategory;
+  severity: PDFAIssueSeverity;
+  code: string;
+  message: string;
+  description: string;
+  location?: string;
+  suggestion?: string;
+  autoFixable: boolean;
+  fix?: PDFAFixAction;
+  pageNumber?: number;
+  /** Indirect object the issue was found in, e.g. "12 0 R" */
+  objectRef?: string;
+}
+
+export interface PDFAValidationResult {
+  isCompliant: boolean;
+  targetLevel: PDFALevel;
+  totalIssues: number;
+  errors: number;
+  warnings: number;
+  info: number;
+  issues: PDFAIssue[];
+  timestamp: number;
+  duration: number;
+}
+
+export interface PDFAConversionOptions {
+  /** Defaults to PDF/A-2b */
+  level?: PDFALevel;
+  /** Transformations to run; defaults to all of them */
+  fixes?: PDFAFixAction[];
+  /** Password for encrypted input */
+  password?: string;
+  metadata?: Partial<PDFMetadata>;
+  /**
+   * Supplies a TrueType program for a non-embedded font. Defaults to
+   * metric-compatible Google Fonts substitutes for the standard 14 fonts.
+   */
+  loadFont?: (baseFont: string) => Promise<ArrayBuffer | Uint8Array | null>;
+}
+
+export interface PDFAConversionResult {
+  bytes: Uint8Array;
+  applied: PDFAFixAction[];
+  /** Fonts that could not be embedded */
+  unresolvedFonts: string[];
+  /** Validation of the converted document */
+  validation: PDFAValidationResult;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** All fixes, in the order convertToPDFA applies them */
+export const PDFA_FIX_ACTIONS: PDFAFixAction[] = [
+  'decrypt',
+  'remove-javascript',
+  'remove-actions',
+  'fix-embedded-files',
+  'fix-optional-content',
+  'fix-forms',
+  'flatten-transparency',
+  'fix-graphics-state',
+  'fix-xobjects',
+  'fix-annotations',
+  'embed-fonts',
+  'reencode-streams',
+  'add-output-intent',
+  'write-metadata',
+];
+
+const FORBIDDEN_ACTIONS = new Set([
+  'Launch',
+  'Sound',
+  'Movie',
+  'ResetForm',
+  'ImportData',
+  'Hide',
+  'SetOCGState',
+  'Rendition',
+  'Trans',
+  'GoTo3DView',
+]);
+
+const ALLOWED_NAMED_ACTIONS = new Set(['NextPage', 'PrevPage', 'FirstPage', 'LastPage']);
+
+const PDFA1_ANNOTATIONS = new Set([
+  'Text', 'Link', 'FreeText', 'Line', 'Square', 'Circle', 'Highlight', 'Underline',
+  'Squiggly', 'StrikeOut', 'Stamp', 'Ink', 'Popup', 'Widget', 'PrinterMark', 'TrapNet',
+]);
+
+const PDFA2_ANNOTATIONS = new Set([
+  ...PDFA1_ANNOTATIONS,
+  'Polygon', 'PolyLine', 'Caret', 'Watermark', 'Redact',
+]);
+
+// Annotation flags (ISO 32000-1, table 165)
+const ANNOT_INVISIBLE = 1 << 0;
+const ANNOT_HIDDEN = 1 << 1;
+const ANNOT_PRINT = 1 << 2;
+const ANNOT_NO_VIEW = 1 << 5;
+
+const SUBSTITUTE_FAMILIES: Array<[RegExp, string]> = [
+  [/^(Helvetica|Arial)/i, 'Arimo'],
+  [/^Times/i, 'Tinos'],
+  [/^Courier/i, 'Cousine'],
+];
+
+const PRODUCER = 'Lumina PDF Suite';
+
+interface RuleText {
+  category: PDFAIssueCategory;
+  severity: PDFAIssueSeverity;
+  message: string;
+  description: string;
+  suggestion?: string;
+  fix?: PDFAFixAction;
+}
+
+const RULES: Record<string, RuleText> = {
+  ENCRYPTED: {
+    category: 'encryption',
+    severity: 'error',
+    message: 'Document is encrypted',
+    description: 'PDF/A forbids encryption so the archive stays readable without a password.',
+    suggestion: 'Remove the password protection.',
+    fix: 'decrypt',
+  },
+  FILE_ID_MISSING: {
+    category: 'structure',
+    severity: 'error',
+    message: 'File identifier missing',
+    description: 'The trailer must contain an /ID entry.',
+    suggestion: 'Generate a file identifier.',
+    fix: 'write-metadata',
+  },
+  MISSING_XMP: {
+    category: 'metadata',
+    severity: 'error',
+    message: 'Missing XMP metadata',
+    description: 'An XMP metadata stream with the PDF/A identification schema is required.',
+    suggestion: 'Write XMP metadata with pdfaid:part and pdfaid:conformance.',
+    fix: 'write-metadata',
+  },
+  PDFA_IDENTIFICATION: {
+    category: 'metadata',
+    severity: 'error',
+    message: 'PDF/A identification missing or wrong',
+    description: 'The XMP pdfaid:part and pdfaid:conformance entries do not declare the target level.',
+    suggestion: 'Rewrite the PDF/A identification schema.',
+    fix: 'write-metadata',
+  },
+  METADATA_FILTERED: {
+    category: 'metadata',
+    severity: 'error',
+    message: 'Compressed metadata stream',
+    description: 'PDF/A-1 requires the XMP metadata stream to be stored without filters.',
+    suggestion: 'Rewrite the metadata stream uncompressed.',
+    fix: 'write-metadata',
+  },
+  METADATA_MISMATCH: {
+    category: 'metadata',
+    severity: 'error',
+    message: 'Document info and XMP disagree',
+    description: 'The document information dictionary entry is not reflected in the XMP metadata.',
+    suggestion: 'Synchronise the XMP metadata with the document information.',
+    fix: 'write-metadata',
+  },
+  OUTPUT_INTENT_MISSING: {
+    category: 'color',
+    severity: 'error',
+    message: 'Device color without output intent',
+    description: 'Device-dependent color is used but the document has no PDF/A output intent.',
+    suggestion: 'Add an sRGB output intent.',
+    fix: 'add-output-intent',
+  },
+  OUTPUT_INTENT_MISMATCH: {
+    category: 'color',
+    severity: 'error',
+    message: 'Device color does not match output intent',
+    description: 'The color space is not covered by the output intent ICC profile.',
+    suggestion: 'Convert the content to an ICC-based color space or use a matching output intent.',
+  },
+  OUTPUT_INTENT_INVALID: {
+    category: 'color',
+    severity: 'error',
+    message: 'Invalid output intent profile',
+    description: 'The output intent ICC profile is missing, unreadable or not allowed at this conformance level.',
+    suggestion: 'Replace the output intent with a valid ICC profile.',
+  },
+  OUTPUT_INTENT_CONFLICT: {
+    category: 'color',
+    severity: 'error',
+    message: 'Conflicting output intents',
+    description: 'All output intents must use the same destination profile.',
+    suggestion: 'Remove the conflicting output intents.',
+  },
+  FONT_NOT_EMBEDDED: {
+    category: 'fonts',
+    severity: 'error',
+    message: 'Font not embedded',
+    description: 'PDF/A requires every font program to be embedded.',
+    suggestion: 'Embed the font or a metric-compatible substitute.',
+    fix: 'embed-fonts',
+  },
+  CID_FONT_NOT_EMBEDDED: {
+    category: 'fonts',
+    severity: 'error',
+    message: 'Composite font not embedded',
+    description: 'The CID font program is not embedded and cannot be substituted automatically.',
+    suggestion: 'Re-create the document with embedded fonts.',
+  },
+  FONT_OPENTYPE: {
+    category: 'fonts',
+    severity: 'error',
+    message: 'OpenType font program',
+    description: 'PDF/A-1 does not allow embedded OpenType font programs.',
+    suggestion: 'Target PDF/A-2 or later.',
+  },
+  FONT_NO_UNICODE: {
+    category: 'fonts',
+    severity: 'error',
+    message: 'No Unicode mapping',
+    description: 'Text in this font cannot be mapped to Unicode, which the "a" and "u" levels require.',
+    suggestion: 'Add a ToUnicode map or target a "b" level.',
+  },
+  TRANSPARENCY_USED: {
+    category: 'transparency',
+    severity: 'error',
+    message: 'Transparency used',
+    description: 'PDF/A-1 does not support soft masks, constant alpha or blend modes.',
+    suggestion: 'Flatten transparency or target PDF/A-2 or later.',
+    fix: 'flatten-transparency',
+  },
+  TRANSPARENCY_GROUP: {
+    category: 'transparency',
+    severity: 'error',
+    message: 'Transparency group',
+    description: 'PDF/A-1 does not allow transparency group attributes on pages or forms.',
+    suggestion: 'Flatten transparency or target PDF/A-2 or later.',
+    fix: 'flatten-transparency',
+  },
+  TRANSFER_FUNCTION: {
+    category: 'color',
+    severity: 'error',
+    message: 'Transfer function used',
+    description: 'Graphics states may not define transfer functions.',
+    suggestion: 'Remove the transfer function.',
+    fix: 'fix-graphics-state',
+  },
+  IMAGE_INTERPOLATE: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Image interpolation requested',
+    description: 'Images may not request interpolation, as its result depends on the viewer.',
+    suggestion: 'Turn interpolation off.',
+    fix: 'fix-xobjects',
+  },
+  IMAGE_ALTERNATES: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Alternate images or OPI',
+    description: 'Images and forms may not carry alternates or OPI references.',
+    suggestion: 'Remove the alternates.',
+    fix: 'fix-xobjects',
+  },
+  POSTSCRIPT: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Embedded PostScript',
+    description: 'PostScript fragments are not allowed in PDF/A.',
+    suggestion: 'Remove the PostScript fragments.',
+    fix: 'fix-xobjects',
+  },
+  POSTSCRIPT_XOBJECT: {
+    category: 'structure',
+    severity: 'error',
+    message: 'PostScript XObject',
+    description: 'PostScript XObjects are not allowed in PDF/A.',
+    suggestion: 'Re-create the content without PostScript XObjects.',
+  },
+  REFERENCE_XOBJECT: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Reference XObject',
+    description: 'Forms may not import content from external documents.',
+    suggestion: 'Re-create the content without reference XObjects.',
+  },
+  JPEG2000: {
+    category: 'structure',
+    severity: 'error',
+    message: 'JPEG 2000 image',
+    description: 'PDF/A-1 does not allow JPEG 2000 compression.',
+    suggestion: 'Target PDF/A-2 or later.',
+  },
+  LZW_COMPRESSION: {
+    category: 'structure',
+    severity: 'error',
+    message: 'LZW compression',
+    description: 'LZW compressed streams are not allowed in PDF/A.',
+    suggestion: 'Re-compress the stream with Flate.',
+    fix: 'reencode-streams',
+  },
+  EXTERNAL_STREAM: {
+    category: 'structure',
+    severity: 'error',
+    message: 'External stream data',
+    description: 'Stream data must be stored in the file, not referenced externally.',
+    suggestion: 'Re-create the content with embedded data.',
+  },
+  JAVASCRIPT: {
+    category: 'actions',
+    severity: 'error',
+    message: 'JavaScript present',
+    description: 'JavaScript is not allowed in PDF/A documents.',
+    suggestion: 'Remove JavaScript actions and scripts.',
+    fix: 'remove-javascript',
+  },
+  FORBIDDEN_ACTION: {
+    category: 'actions',
+    severity: 'error',
+    message: 'Forbidden action',
+    description: 'Launch, sound, movie, form reset/import and similar actions are not allowed.',
+    suggestion: 'Remove the action.',
+    fix: 'remove-actions',
+  },
+  ADDITIONAL_ACTIONS: {
+    category: 'actions',
+    severity: 'error',
+    message: 'Additional actions present',
+    description: 'Trigger events (/AA) are not allowed on the document, pages, annotations or fields.',
+    suggestion: 'Remove the additional actions.',
+    fix: 'remove-actions',
+  },
+  EMBEDDED_FILES: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Embedded files',
+    description: 'PDF/A-1 and PDF/A-2 do not allow arbitrary embedded files.',
+    suggestion: 'Remove the attachments or target PDF/A-3.',
+    fix: 'fix-embedded-files',
+  },
+  EMBEDDED_FILE_RELATIONSHIP: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Embedded file relationship missing',
+    description: 'PDF/A-3 attachments must declare an AFRelationship, a MIME type and be listed in the catalog /AF.',
+    suggestion: 'Add the associated file entries.',
+    fix: 'fix-embedded-files',
+  },
+  OPTIONAL_CONTENT: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Optional content',
+    description: 'PDF/A-1 does not allow optional content (layers).',
+    suggestion: 'Remove the layers or target PDF/A-2 or later.',
+    fix: 'fix-optional-content',
+  },
+  OPTIONAL_CONTENT_CONFIG: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Invalid optional content configuration',
+    description: 'Every optional content configuration needs a /Name and may not use /AS.',
+    suggestion: 'Name the configurations and remove /AS.',
+    fix: 'fix-optional-content',
+  },
+  FORM_NEED_APPEARANCES: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Form relies on viewer appearances',
+    description: 'NeedAppearances asks the viewer to draw form fields, so their appearance is not fixed.',
+    suggestion: 'Generate appearance streams for all fields.',
+    fix: 'fix-forms',
+  },
+  FORM_XFA: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'XFA form data',
+    description: 'XFA forms are not allowed in PDF/A.',
+    suggestion: 'Remove the XFA form.',
+    fix: 'fix-forms',
+  },
+  ANNOTATION_FORBIDDEN: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Annotation type not allowed',
+    description: 'This annotation type is not allowed at the target conformance level.',
+    suggestion: 'Remove the annotation.',
+    fix: 'fix-annotations',
+  },
+  ANNOTATION_FLAGS: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Annotation not printable',
+    description: 'Annotations must have the Print flag set and may not be hidden.',
+    suggestion: 'Set the Print flag and clear the Hidden, Invisible and NoView flags.',
+    fix: 'fix-annotations',
+  },
+  ANNOTATION_TRANSPARENCY: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Transparent annotation',
+    description: 'PDF/A-1 requires annotation opacity (/CA) to be 1.0.',
+    suggestion: 'Make the annotation opaque.',
+    fix: 'fix-annotations',
+  },
+  ANNOTATION_APPEARANCE_STATES: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Rollover or down appearance',
+    description: 'Annotation appearance dictionaries may only contain the normal (/N) appearance.',
+    suggestion: 'Remove the /R and /D appearances.',
+    fix: 'fix-annotations',
+  },
+  WIDGET_APPEARANCE_MISSING: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Form field without appearance',
+    description: 'Form field widgets must carry an appearance stream.',
+    suggestion: 'Generate appearance streams for all fields.',
+    fix: 'fix-forms',
+  },
+  ANNOTATION_APPEARANCE_MISSING: {
+    category: 'annotations',
+    severity: 'error',
+    message: 'Annotation without appearance',
+    description: 'Annotations other than links and popups must carry an appearance stream.',
+    suggestion: 'Re-create the annotation or flatten it into the page.',
+  },
+  MISSING_TAGS: {
+    category: 'structure',
+    severity: 'error',
+    message: 'Document not tagged',
+    description: 'The "a" conformance levels require a tagged document with a structure tree.',
+    suggestion: 'Add structure tags or target a "b" level (e.g., PDF/A-2b).',
+  },
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function getPart(level: PDFALevel): 1 | 2 | 3 {
+  return Number(level[0]) as 1 | 2 | 3;
+}
+
+function getConformance(level: PDFALevel): 'A' | 'B' | 'U' {
+  return level[1]!.toUpperCase() as 'A' | 'B' | 'U';
+}
+
+function nameOf(value: unknown): string | undefined {
+  return value instanceof PDFName ? value.decodeText() : undefined;
+}
+
+function fontNameOf(font: PDFDict): string {
+  return (nameOf(font.lookup(PDFName.of('BaseFont'))) ?? 'Unnamed font').replace(/^[A-Z]{6}\+/, '');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** XMP dates carry second precision to match the info dictionary */
+function xmpDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+const hex = (bytes: Uint8Array) => PDFHexString.of(Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(''));
+
+/** Collects the values of a name tree (e.g. /EmbeddedFiles) */
+function nameTreeValues(node: unknown, seen = new Set<PDFDict>()): PDFObject[] {
+  if (!(node instanceof PDFDict) || seen.has(node)) return [];
+  seen.add(node);
+
+  const values: PDFObject[] = [];
+  const names = node.lookup(PDFName.of('Names'));
+  if (names instanceof PDFArray) {
+    for (let i = 1; i < names.size(); i += 2) values.push(names.get(i));
+  }
+  const kids = node.lookup(PDFName.of('Kids'));
+  if (kids instanceof PDFArray) {
+    for (let i = 0; i < kids.size(); i++) values.push(...nameTreeValues(kids.lookup(i), seen));
+  }
+  return values;
+}
+
+/** Visits every dictionary in the document, including direct ones nested in other objects */
+function forEachDict(context: PDFContext, visit: (dict: PDFDict, ref: PDFRef) => void): void {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const pending: unknown[] = [object instanceof PDFStream ? object.dict : object];
+    while (pending.length > 0) {
+      const value = pending.pop();
+      if (value instanceof PDFDict) {
+        visit(value, ref);
+        pending.push(...value.values());
+      } else if (value instanceof PDFArray) {
+        pending.push(...value.asArray());
+      }
+    }
+  }
+}
+
+/** Follows an action's /Next chain */
+function actionChain(action: PDFDict, seen = new Set<PDFDict>()): PDFDict[] {
+  if (seen.has(action)) return [];
+  seen.add(action);
+
+  const chain = [action];
+  const next = action.lookup(PDFName.of('Next'));
+  if (next instanceof PDFDict) {
+    chain.push(...actionChain(next, seen));
+  } else if (next instanceof PDFArray) {
+    for (let i = 0; i < next.size(); i++) {
+      const item = next.lookup(i);
+      if (item instanceof PDFDict) chain.push(...actionChain(item, seen));
+    }
+  }
+  return chain;
+}
+
+function classifyAction(action: PDFDict): 'javascript' | 'forbidden' | null {
+  let result: 'javascript' | 'forbidden' | null = null;
+  for (const item of actionChain(action)) {
+    const type = nameOf(item.lookup(PDFName.of('S')));
+    if (type === 'JavaScript') return 'javascript';
+    if (
+      (type && FORBIDDEN_ACTIONS.has(type)) ||
+      (type === 'Named' && !ALLOWED_NAMED_ACTIONS.has(nameOf(item.lookup(PDFName.of('N'))) ?? ''))
+    ) {
+      result = 'forbidden';
+    }
+  }
+  return result;
+}
+
+function isTransparencyGroup(dict: PDFDict): boolean {
+  const group = dict.lookup(PDFName.of('Group'));
+  return group instanceof PDFDict && group.lookup(PDFName.of('S')) === PDFName.of('Transparency');
+}
+
+function isFontEmbedded(font: PDFDict): boolean {
+  const subtype = font.lookup(PDFName.of('Subtype'));
+  if (subtype === PDFName.of('Type3')) return true;
+
+  let descriptorOwner: PDFDict | undefined = font;
+  if (subtype === PDFName.of('Type0')) {
+    const descendants = font.lookup(PDFName.of('DescendantFonts'));
+    descriptorOwner = descendants instanceof PDFArray ? descendants.lookupMaybe(0, PDFDict) : undefined;
+  }
+
+  const descriptor = descriptorOwner?.lookup(PDFName.of('FontDescriptor'));
+  return (
+    descriptor instanceof PDFDict &&
+    ['FontFile', 'FontFile2', 'FontFile3'].some((key) => descriptor.has(PDFName.of(key)))
+  );
+}
+
+// ============================================
+// DOCUMENT INVENTORY
+// ============================================
+
+type DeviceColorSpace = 'DeviceRGB' | 'DeviceCMYK' | 'DeviceGray';
+
+interface DocumentInventory {
+  /** Each resource maps to the first page it is used on */
+  fonts: Map<PDFDict, number>;
+  images: Map<PDFStream, number>;
+  forms: Map<PDFStream, number>;
+  extGStates: Map<PDFDict, number>;
+  annotations: Map<PDFDict, number>;
+  deviceColor: Map<number, Set<DeviceColorSpace>>;
+}
+
+const DEVICE_SPACE_ALIASES: Record<string, DeviceColorSpace> = {
+  DeviceRGB: 'DeviceRGB',
+  RGB: 'DeviceRGB',
+  DeviceCMYK: 'DeviceCMYK',
+  CMYK: 'DeviceCMYK',
+  DeviceGray: 'DeviceGray',
+  G: 'DeviceGray',
+};
+
+/**
+ * Walks every page's content, resources (recursively through forms,
+ * patterns and Type3 fonts) and annotation appearances, recording the
+ * resources in use and which device color spaces each page paints with.
+ */
+function inventoryDocument(pdfDoc: PDFLibDocument): DocumentInventory {
+  const inventory: DocumentInventory = {
+    fonts: new Map(),
+    images: new Map(),
+    forms: new Map(),
+    extGStates: new Map(),
+    annotations: new Map(),
+    deviceColor: new Map(),
+  };
+
+  pdfDoc.getPages().forEach((page, index) => {
+    const pageNumber = index + 1;
+    const deviceColor = new Set<DeviceColorSpace>();
+    const visitedResources = new Set<PDFDict>();
+    inventory.deviceColor.set(pageNumber, deviceColor);
+
+    const addColorSpace = (space: unknown, resources: PDFDict | undefined, depth = 0): void => {
+      if (depth > 4) return;
+      if (space instanceof PDFName) {
+        const name = space.decodeText();
+        const device = DEVICE_SPACE_ALIASES[name];
+        if (device) {
+          deviceColor.add(device);
+          return;
+        }
+        const named = resources?.lookupMaybe(PDFName.of('ColorSpace'), PDFDict)?.lookup(PDFName.of(name));
+        if (named) addColorSpace(named, resources, depth + 1);
+      } else if (space instanceof PDFArray) {
+        const family = nameOf(space.lookup(0));
+        if (family === 'Indexed' || family === 'I' || family === 'Pattern') {
+          addColorSpace(space.lookup(1), resources, depth + 1);
+        } else if (family === 'Separation' || family === 'DeviceN') {
+          addColorSpace(space.lookup(2), resources, depth + 1);
+        }
+      }
+    };
+
+    const scanContent = (data: Uint8Array, resources: PDFDict | undefined): void => {
+      let operations;
+      try {
+        operations = parseContentStream(data);
+      } catch {
+        return;
+      }
+      for (const op of operations) {
+        switch (op.operator) {
+          case 'rg':
+          case 'RG':
+            deviceColor.add('DeviceRGB');
+            break;
+          case 'k':
+          case 'K':
+            deviceColor.add('DeviceCMYK');
+            break;
+          case 'g':
+          case 'G':
+            deviceColor.add('DeviceGray');
+            break;
+          case 'cs':
+          case 'CS': {
+            const space = operandName(op.operands[0]);
+            if (space) addColorSpace(PDFName.of(space), resources);
+            break;
+          }
+          case 'BI': {
+            const space = operandName(dictEntry(op.operands[0], 'CS', 'ColorSpace'));
+            const isMask = dictEntry(op.operands[0], 'IM', 'ImageMask');
+            if (space && !(isMask?.type === 'boolean' && isMask.value)) {
+              addColorSpace(PDFName.of(space), resources);
+            }
+            break;
+          }
+        }
+      }
+    };
+
+    const visitForm = (form: PDFStream, inherited: PDFDict | undefined): void => {
+      if (inventory.forms.has(form)) return;
+      inventory.forms.set(form, pageNumber);
+      const resources = form.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? inherited;
+      scanContent(decodeStreamData(form) ?? new Uint8Array(0), resources);
+      visitResources(resources);
+    };
+
+    const visitResources = (resources: PDFDict | undefined): void => {
+      if (!resources || visitedResources.has(resources)) return;
+      visitedResources.add(resources);
+
+      const fonts = resources.lookupMaybe(PDFName.of('Font'), PDFDict);
+      for (const [, ref] of fonts?.entries() ?? []) {
+        const font = pdfDoc.context.lookup(ref);
+        if (!(font instanceof PDFDict)) continue;
+        if (!inventory.fonts.has(font)) inventory.fonts.set(font, pageNumber);
+        if (font.lookup(PDFName.of('Subtype')) === PDFName.of('Type3')) {
+          visitResources(font.lookupMaybe(PDFName.of('Resources'), PDFDict));
+        }
+      }
+
+      const xobjects = resources.lookupMaybe(PDFName.of('XObject'), PDFDict);
+      for (const [, ref] of xobjects?.entries() ?? []) {
+        const xobject = pdfDoc.context.lookup(ref);
+        if (!(xobject instanceof PDFStream)) continue;
+        const subtype = xobject.dict.lookup(PDFName.of('Subtype'));
+        if (subtype === PDFName.of('Image')) {
+          if (!inventory.images.has(xobject)) inventory.images.set(xobject, pageNumber);
+          if (xobject.dict.lookup(PDFName.of('ImageMask')) !== PDFBool.True) {
+            addColorSpace(xobject.dict.lookup(PDFName.of('ColorSpace')), resources);
+          }
+        } else if (subtype === PDFName.of('Form')) {
+          visitForm(xobject, resources);
+        }
+      }
+
+      const states = resources.lookupMaybe(PDFName.of('ExtGState'), PDFDict);
+      for (const [, ref] of states?.entries() ?? []) {
+        const state = pdfDoc.context.lookup(ref);
+        if (!(state instanceof PDFDict)) continue;
+        if (!inventory.extGStates.has(state)) inventory.extGStates.set(state, pageNumber);
+        const softMask = state.lookup(PDFName.of('SMask'));
+        const group = softMask instanceof PDFDict ? softMask.lookup(PDFName.of('G')) : undefined;
+        if (group instanceof PDFStream) visitForm(group, resources);
+      }
+
+      const patterns = resources.lookupMaybe(PDFName.of('Pattern'), PDFDict);
+      for (const [, ref] of patterns?.entries() ?? []) {
+        const pattern = pdfDoc.context.lookup(ref);
+        if (pattern instanceof PDFStream) {
+          visitForm(pattern, resources);
+        } else if (pattern instanceof PDFDict) {
+          const shading = pattern.lookup(PDFName.of('Shading'));
+          const shadingDict = shading instanceof PDFStream ? shading.dict : shading;
+          if (shadingDict instanceof PDFDict) addColorSpace(shadingDict.lookup(PDFName.of('ColorSpace')), resources);
+        }
+      }
+
+      const shadings = resources.lookupMaybe(PDFName.of('Shading'), PDFDict);
+      for (const [, ref] of shadings?.entries() ?? []) {
+        const shading = pdfDoc.context.lookup(ref);
+        const shadingDict = shading instanceof PDFStream ? shading.dict : shading;
+        if (shadingDict instanceof PDFDict) addColorSpace(shadingDict.lookup(PDFName.of('ColorSpace')), resources);
+      }
+    };
+
+    const resources = page.node.Resources();
+    scanContent(readContentStreams(page.node.Contents()), resources);
+    visitResources(resources);
+
+    const annots = page.node.Annots();
+    for (let i = 0; i < (annots?.size() ?? 0); i++) {
+      const annot = annots!.lookup(i);
+      if (!(annot instanceof PDFDict)) continue;
+      inventory.annotations.set(annot, pageNumber);
+
+      const appearance = annot.lookupMaybe(PDFName.of('AP'), PDFDict)?.lookup(PDFName.of('N'));
+      const streams =
+        appearance instanceof PDFStream
+          ? [appearance]
+          : appearance instanceof PDFDict
+            ? appearance.values().map((v) => pdfDoc.context.lookup(v)).filter((v): v is PDFStream => v instanceof PDFStream)
+            : [];
+      streams.forEach((stream) => visitForm(stream, undefined));
+    }
+  });
+
+  return inventory;
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+interface IssueContext {
+  pageNumber?: number;
+  ref?: PDFRef;
+  /** Extra detail appended to the rule description */
+  detail?: string;
+}
+
+const CATEGORY_PREFIX: Record<PDFAIssueCategory, string> = {
+  fonts: 'font',
+  color: 'color',
+  transparency: 'trans',
+  metadata: 'meta',
+  structure: 'struct',
+  actions: 'action',
+  encryption: 'enc',
+  annotations: 'annot',
+};
+
+function createIssueList() {
+  const issues: PDFAIssue[] = [];
+  const seen = new Set<string>();
+  const counters = new Map<PDFAIssueCategory, number>();
+
+  const add = (code: keyof typeof RULES, { pageNumber, ref, detail }: IssueContext = {}): void => {
+    const rule = RULES[code]!;
+    const objectRef = ref?.toString();
+    const key = `${code}|${objectRef ?? ''}|${pageNumber ?? ''}|${detail ?? ''}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const count = (counters.get(rule.category) ?? 0) + 1;
+    counters.set(rule.category, count);
+
+    const location = [
+      pageNumber !== undefined ? `Page ${pageNumber}` : undefined,
+      ref ? `Object ${ref.objectNumber}` : undefined,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    issues.push({
+      id: `${CATEGORY_PREFIX[rule.category]}-${String(count).padStart(3, '0')}`,
+      category: rule.category,
+      severity: rule.severity,
+      code,
+      message: rule.message,
+      description: detail ? `${rule.description} ${detail}` : rule.description,
+      location: location || undefined,
+      suggestion: rule.suggestion,
+      autoFixable: rule.fix !== undefined,
+      fix: rule.fix,
+      pageNumber,
+      objectRef,
+    });
+  };
+
+  return { issues, add };
+}
+
+function readProfileHeader(profile: unknown): { colorSpace: string; majorVersion: number } | null {
+  if (!(profile instanceof PDFStream)) return null;
+  const data = decodeStreamData(profile);
+  if (!data || data.length < 128) return null;
+  return {
+    colorSpace: String.fromCharCode(...data.subarray(16, 20)),
+    majorVersion: data[8]!,
+  };
+}
+
+function getOutputIntentProfiles(pdfDoc: PDFLibDocument): PDFStream[] {
+  const intents = pdfDoc.catalog.lookup(PDFName.of('OutputIntents'));
+  const profiles: PDFStream[] = [];
+  if (!(intents instanceof PDFArray)) return profiles;
+
+  for (let i = 0; i < intents.size(); i++) {
+    const intent = intents.lookup(i);
+    if (!(intent instanceof PDFDict)) continue;
+    const profile = intent.lookup(PDFName.of('DestOutputProfile'));
+    if (profile instanceof PDFStream) profiles.push(profile);
+  }
+  return profiles;
+}
+
+function getPDFAIntentProfile(pdfDoc: PDFLibDocument): PDFStream | undefined {
+  const intents = pdfDoc.catalog.lookup(PDFName.of('OutputIntents'));
+  if (!(intents instanceof PDFArray)) return undefined;
+
+  for (let i = 0; i < intents.size(); i++) {
+    const intent = intents.lookup(i);
+    if (intent instanceof PDFDict && intent.lookup(PDFName.of('S')) === PDFName.of('GTS_PDFA1')) {
+      const profile = intent.lookup(PDFName.of('DestOutputProfile'));
+      return profile instanceof PDFStream ? profile : undefined;
+    }
+  }
+  return undefined;
+}
+
+function readXmp(pdfDoc: PDFLibDocument): { text: string; filtered: boolean } | null {
+  const metadata = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+  if (!(metadata instanceof PDFStream)) return null;
+  const data = decodeStreamData(metadata);
+  return {
+    text: data ? new TextDecoder().decode(data) : '',
+    filtered: getFilterNames(metadata.dict).length > 0,
+  };
+}
+
+function xmpProperty(xmp: string, property: string): string | undefined {
+  const element = new RegExp(`<${property}>\\s*([^<]*?)\\s*</${property}>`).exec(xmp);
+  if (element) return element[1];
+  const attribute = new RegExp(`${property}\\s*=\\s*["']([^"']*)["']`).exec(xmp);
+  return attribute?.[1];
+}
+
+function hasUnicodeMapping(font: PDFDict): boolean {
+  if (font.has(PDFName.of('ToUnicode'))) return true;
+  const subtype = font.lookup(PDFName.of('Subtype'));
+  if (subtype === PDFName.of('Type0')) {
+    const encoding = nameOf(font.lookup(PDFName.of('Encoding')));
+    return encoding !== undefined && encoding !== 'Identity-H' && encoding !== 'Identity-V';
+  }
+  if (subtype === PDFName.of('Type3')) return false;
+  return resolveSimpleEncoding(font) !== null;
+}
+
+/**
+ * Checks a document against the PDF/A rules for the given level and
+ * reports each violation with the page and object it was found in.
+ * Covers the machine-checkable requirements of ISO 19005-1/2/3 that
+ * convertToPDFA can act on, plus the tagging and Unicode requirements of
+ * the "a" and "u" levels.
+ */
+export async function validatePDFA(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  targetLevel: PDFALevel = '2b'
+): Promise<PDFAValidationResult> {
+  const startTime = Date.now();
+  const part = getPart(targetLevel);
+  const conformance = getConformance(targetLevel);
+  const pdfDoc = await PDFLibDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  const { context, catalog } = pdfDoc;
+  const { issues, add } = createIssueList();
+
+  // Stale objects from incremental updates don't count
+  removeUnreachableObjects(context);
+  const catalogRef = context.trailerInfo.Root instanceof PDFRef ? context.trailerInfo.Root : undefined;
+
+  // Document level
+  if (pdfDoc.isEncrypted) add('ENCRYPTED');
+  if (!(context.trailerInfo.ID instanceof PDFArray)) add('FILE_ID_MISSING');
+
+  const xmp = readXmp(pdfDoc);
+  if (!xmp) {
+    add('MISSING_XMP', { ref: catalogRef });
+  } else {
+    const declaredPart = xmpProperty(xmp.text, 'pdfaid:part');
+    const declaredConformance = xmpProperty(xmp.text, 'pdfaid:conformance');
+    if (declaredPart !== String(part) || declaredConformance?.toUpperCase() !== conformance) {
+      add('PDFA_IDENTIFICATION', {
+        detail: declaredPart ? `Declared: PDF/A-${declaredPart}${(declaredConformance ?? '').toLowerCase()}.` : undefined,
+      });
+    }
+    if (part === 1 && xmp.filtered) add('METADATA_FILTERED');
+
+    const info = context.lookup(context.trailerInfo.Info);
+    if (info instanceof PDFDict && !pdfDoc.isEncrypted) {
+      const entries: Array<[string, string | undefined]> = [
+        ['Title', pdfDoc.getTitle()],
+        ['Author', pdfDoc.getAuthor()],
+        ['Subject', pdfDoc.getSubject()],
+        ['Keywords', pdfDoc.getKeywords()],
+        ['Creator', pdfDoc.getCreator()],
+        ['Producer', pdfDoc.getProducer()],
+      ];
+      for (const [key, value] of entries) {
+        if (value && !xmp.text.includes(escapeXml(value))) {
+          add('METADATA_MISMATCH', { detail: `Entry: ${key}.` });
+        }
+      }
+    }
+  }
+
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  if (names?.has(PDFName.of('JavaScript'))) add('JAVASCRIPT', { ref: catalogRef, detail: 'Document-level scripts.' });
+
+  const embeddedFiles = nameTreeValues(names?.lookup(PDFName.of('EmbeddedFiles')));
+  if (embeddedFiles.length > 0) {
+    if (part < 3) {
+      add('EMBEDDED_FILES', { detail: `${embeddedFiles.length} attachment(s).` });
+    } else {
+      const associated = catalog.lookup(PDFName.of('AF'));
+      for (const value of embeddedFiles) {
+        const spec = context.lookup(value);
+        if (!(spec instanceof PDFDict)) continue;
+        const stream = spec.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+        const listed = associated instanceof PDFArray && associated.asArray().some((v) => v === value);
+        if (
+          !spec.has(PDFName.of('AFRelationship')) ||
+          !(stream instanceof PDFStream && stream.dict.has(PDFName.of('Subtype'))) ||
+          !listed
+        ) {
+          add('EMBEDDED_FILE_RELATIONSHIP', { ref: value instanceof PDFRef ? value : undefined });
+        }
+      }
+    }
+  }
+
+  const ocProperties = catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  if (ocProperties) {
+    if (part === 1) {
+      add('OPTIONAL_CONTENT', { ref: catalogRef });
+    } else {
+      const configs = [ocProperties.lookup(PDFName.of('D'))];
+      const alternates = ocProperties.lookup(PDFName.of('Configs'));
+      if (alternates instanceof PDFArray) configs.push(...alternates.asArray().map((c) => context.lookup(c)));
+      if (configs.some((c) => c instanceof PDFDict && (!c.has(PDFName.of('Name')) || c.has(PDFName.of('AS'))))) {
+        add('OPTIONAL_CONTENT_CONFIG', { ref: catalogRef });
+      }
+    }
+  }
+
+  const acroForm = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm?.lookup(PDFName.of('NeedAppearances')) === PDFBool.True) add('FORM_NEED_APPEARANCES');
+  if (acroForm?.has(PDFName.of('XFA'))) add('FORM_XFA');
+
+  if (conformance === 'A') {
+    const markInfo = catalog.lookupMaybe(PDFName.of('MarkInfo'), PDFDict);
+    if (markInfo?.lookup(PDFName.of('Marked')) !== PDFBool.True || !catalog.has(PDFName.of('StructTreeRoot'))) {
+      add('MISSING_TAGS');
+    }
+  }
+
+  // Output intents
+  const intentProfile = getPDFAIntentProfile(pdfDoc);
+  const intentHeader = readProfileHeader(intentProfile);
+  if (intentProfile && (!intentHeader || (part === 1 && intentHeader.majorVersion > 2))) {
+    add('OUTPUT_INTENT_INVALID');
+  }
+  if (new Set(getOutputIntentProfiles(pdfDoc)).size > 1) add('OUTPUT_INTENT_CONFLICT');
+
+  // Page content and resources
+  const inventory = inventoryDocument(pdfDoc);
+  const refs = new Map<PDFObject, PDFRef>();
+  for (const [ref, object] of context.enumerateIndirectObjects()) refs.set(object, ref);
+
+  pdfDoc.getPages().forEach((page, index) => {
+    const pageNumber = index + 1;
+    if (part === 1 && isTransparencyGroup(page.node)) add('TRANSPARENCY_GROUP', { pageNumber, ref: page.ref });
+
+    const used = inventory.deviceColor.get(pageNumber) ?? new Set();
+    const intentSpace = intentHeader?.colorSpace;
+    for (const space of used) {
+      const covered =
+        (space === 'DeviceRGB' && intentSpace === 'RGB ') ||
+        (space === 'DeviceCMYK' && intentSpace === 'CMYK') ||
+        (space === 'DeviceGray' && intentSpace !== undefined);
+      if (covered) continue;
+      // Only an RGB (or gray) intent can be added automatically
+      const fixable = !intentProfile && space !== 'DeviceCMYK';
+      add(fixable ? 'OUTPUT_INTENT_MISSING' : 'OUTPUT_INTENT_MISMATCH', { pageNumber, detail: `Uses ${space}.` });
+    }
+  });
+
+  for (const [font, pageNumber] of inventory.fonts) {
+    const ref = refs.get(font);
+    const detail = `Font: ${fontNameOf(font)}.`;
+    const subtype = font.lookup(PDFName.of('Subtype'));
+
+    if (!isFontEmbedded(font)) {
+      add(subtype === PDFName.of('Type0') ? 'CID_FONT_NOT_EMBEDDED' : 'FONT_NOT_EMBEDDED', { pageNumber, ref, detail });
+    } else if (part === 1) {
+      const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+      const program = descriptor?.lookup(PDFName.of('FontFile3'));
+      if (program instanceof PDFStream && program.dict.lookup(PDFName.of('Subtype')) === PDFName.of('OpenType')) {
+        add('FONT_OPENTYPE', { pageNumber, ref, detail });
+      }
+    }
+    if (conformance !== 'B' && !hasUnicodeMapping(font)) {
+      add('FONT_NO_UNICODE', { pageNumber, ref, detail });
+    }
+  }
+
+  for (const [state, pageNumber] of inventory.extGStates) {
+    const ref = refs.get(state);
+    if (state.has(PDFName.of('TR'))) add('TRANSFER_FUNCTION', { pageNumber, ref });
+    const tr2 = state.lookup(PDFName.of('TR2'));
+    if (tr2 && tr2 !== PDFName.of('Default')) add('TRANSFER_FUNCTION', { pageNumber, ref });
+
+    if (part === 1) {
+      const softMask = state.lookup(PDFName.of('SMask'));
+      const blendMode = nameOf(state.lookup(PDFName.of('BM')));
+      const opacity = Math.min(lookupNumber(state, 'CA') ?? 1, lookupNumber(state, 'ca') ?? 1);
+      if (
+        (softMask && softMask !== PDFName.of('None')) ||
+        opacity < 1 ||
+        (blendMode && blendMode !== 'Normal' && blendMode !== 'Compatible')
+      ) {
+        add('TRANSPARENCY_USED', { pageNumber, ref, detail: 'Graphics state.' });
+      }
+    }
+  }
+
+  for (const [image, pageNumber] of inventory.images) {
+    const ref = refs.get(image);
+    const dict = image.dict;
+    if (dict.lookup(PDFName.of('Interpolate')) === PDFBool.True) add('IMAGE_INTERPOLATE', { pageNumber, ref });
+    if (dict.has(PDFName.of('Alternates')) || dict.has(PDFName.of('OPI'))) add('IMAGE_ALTERNATES', { pageNumber, ref });
+    if (part === 1) {
+      if (dict.has(PDFName.of('SMask')) || (lookupNumber(dict, 'SMaskInData') ?? 0) > 0) {
+        add('TRANSPARENCY_USED', { pageNumber, ref, detail: 'Image soft mask.' });
+      }
+      if (getFilterNames(dict).includes('JPXDecode')) add('JPEG2000', { pageNumber, ref });
+    }
+  }
+
+  for (const [form, pageNumber] of inventory.forms) {
+    const ref = refs.get(form);
+    const dict = form.dict;
+    if (dict.has(PDFName.of('OPI'))) add('IMAGE_ALTERNATES', { pageNumber, ref });
+    if (dict.has(PDFName.of('PS')) || dict.lookup(PDFName.of('Subtype2')) === PDFName.of('PS')) {
+      add('POSTSCRIPT', { pageNumber, ref });
+    }
+    if (dict.has(PDFName.of('Ref'))) add('REFERENCE_XOBJECT', { pageNumber, ref });
+    if (part === 1 && isTransparencyGroup(dict)) add('TRANSPARENCY_GROUP', { pageNumber, ref });
+  }
+
+  const allowedAnnotations = part === 1 ? PDFA1_ANNOTATIONS : PDFA2_ANNOTATIONS;
+  for (const [annot, pageNumber] of inventory.annotations) {
+    const ref = refs.get(annot);
+    const subtype = nameOf(annot.lookup(PDFName.of('Subtype'))) ?? '';
+    if (!allowedAnnotations.has(subtype) && !(part === 3 && subtype === 'FileAttachment')) {
+      add('ANNOTATION_FORBIDDEN', { pageNumber, ref, detail: `Type: ${subtype || 'unknown'}.` });
+      continue;
+    }
+    if (subtype === 'Popup') continue;
+
+    const flags = lookupNumber(annot, 'F') ?? 0;
+    if (!(flags & ANNOT_PRINT) || flags & (ANNOT_HIDDEN | ANNOT_INVISIBLE | ANNOT_NO_VIEW)) {
+      add('ANNOTATION_FLAGS', { pageNumber, ref });
+    }
+    if (part === 1 && (lookupNumber(annot, 'CA') ?? 1) < 1) add('ANNOTATION_TRANSPARENCY', { pageNumber, ref });
+
+    const appearance = annot.lookupMaybe(PDFName.of('AP'), PDFDict);
+    if (appearance?.has(PDFName.of('D')) || appearance?.has(PDFName.of('R'))) {
+      add('ANNOTATION_APPEARANCE_STATES', { pageNumber, ref });
+    }
+
+    const rect = annot.lookupMaybe(PDFName.of('Rect'), PDFArray);
+    const [x1, y1, x2, y2] = [0, 1, 2, 3].map((i) => {
+      const value = rect?.lookup(i);
+      return value instanceof PDFNumber ? value.asNumber() : 0;
+    });
+    const hasArea = Math.abs(x2! - x1!) > 0 && Math.abs(y2! - y1!) > 0;
+    if (part > 1 && subtype !== 'Link' && hasArea && !appearance?.has(PDFName.of('N'))) {
+      add(subtype === 'Widget' ? 'WIDGET_APPEARANCE_MISSING' : 'ANNOTATION_APPEARANCE_MISSING', { pageNumber, ref });
+    }
+  }
+
+  // Object level: actions and stream encodings anywhere in the file
+  const pageOf = new Map<string, number>();
+  pdfDoc.getPages().forEach((page, index) => pageOf.set(page.ref.toString(), index + 1));
+  for (const [annot, pageNumber] of inventory.annotations) {
+    const ref = refs.get(annot);
+    if (ref) pageOf.set(ref.toString(), pageNumber);
+  }
+
+  forEachDict(context, (dict, ref) => {
+    const pageNumber = pageOf.get(ref.toString());
+    for (const key of ['A', 'OpenAction']) {
+      const action = dict.lookup(PDFName.of(key));
+      if (!(action instanceof PDFDict)) continue;
+      const kind = classifyAction(action);
+      if (kind === 'javascript') add('JAVASCRIPT', { pageNumber, ref });
+      if (kind === 'forbidden') add('FORBIDDEN_ACTION', { pageNumber, ref });
+    }
+    if (dict.has(PDFName.of('AA'))) add('ADDITIONAL_ACTIONS', { pageNumber, ref });
+  });
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFStream)) continue;
+    const pageNumber = pageOf.get(ref.toString());
+    if (getFilterNames(object.dict).includes('LZWDecode')) add('LZW_COMPRESSION', { pageNumber, ref });
+    if (['F', 'FFilter', 'FDecodeParms'].some((key) => object.dict.has(PDFName.of(key)))) {
+      add('EXTERNAL_STREAM', { pageNumber, ref });
+    }
+  }
+
+  const errors = issues.filter((i) => i.severity === 'error').length;
+  const warnings = issues.filter((i) => i.severity === 'warning').length;
+  const info = issues.filter((i) => i.severity === 'info').length;
+
+  return {
+    isCompliant: errors === 0,
+    targetLevel,
+    totalIssues: issues.length,
+    errors,
+    warnings,
+    info,
+    issues,
+    timestamp: Date.now(),
+    duration: Date.now() - startTime,
+  };
+}
+
+// ============================================
+// FONT EMBEDDING
+// ============================================
+
+let winAnsiTable: { byCode: Map<number, { unicode: number; name: string }>; byName: Map<string, number> } | null = null;
+
+/** WinAnsiEncoding, taken from pdf-lib's standard font encoder */
+function getWinAnsiTable() {
+  if (!winAnsiTable) {
+    const encoding = StandardFontEmbedder.for(
+      StandardFonts.Helvetica as unknown as Parameters<typeof StandardFontEmbedder.for>[0]
+    ).encoding;
+    const byCode = new Map<number, { unicode: number; name: string }>();
+    const byName = new Map<string, number>();
+    for (const codePoint of encoding.supportedCodePoints) {
+      const { code, name } = encoding.encodeUnicodeCodePoint(codePoint);
+      if (!byCode.has(code)) byCode.set(code, { unicode: codePoint, name });
+      if (!byName.has(name)) byName.set(name, codePoint);
+    }
+    winAnsiTable = { byCode, byName };
+  }
+  return winAnsiTable;
+}
+
+/**
+ * Maps a simple font's character codes to Unicode and builds the
+ * WinAnsi-based /Encoding PDF/A requires for non-symbolic TrueType fonts.
+ * Returns null for encodings that can't be expressed that way (MacRoman,
+ * symbolic fonts, unknown glyph names).
+ */
+function resolveSimpleEncoding(
+  font: PDFDict
+): { unicodes: Array<number | undefined>; differences: Array<[number, string]> } | null {
+  const subtype = font.lookup(PDFName.of('Subtype'));
+  if (subtype === PDFName.of('Type0') || subtype === PDFName.of('Type3')) return null;
+  if (/^(Symbol|ZapfDingbats)/.test(fontNameOf(font))) return null;
+
+  const { byCode, byName } = getWinAnsiTable();
+  const encoding = font.lookup(PDFName.of('Encoding'));
+  const baseEncoding =
+    encoding instanceof PDFDict ? nameOf(encoding.lookup(PDFName.of('BaseEncoding'))) : nameOf(encoding);
+  if (baseEncoding && baseEncoding !== 'WinAnsiEncoding' && baseEncoding !== 'StandardEncoding') return null;
+
+  const unicodes: Array<number | undefined> = [];
+  const differences: Array<[number, string]> = [];
+  for (let code = 0; code < 256; code++) {
+    unicodes[code] = byCode.get(code)?.unicode;
+  }
+
+  if (baseEncoding !== 'WinAnsiEncoding') {
+    // StandardEncoding shares the printable ASCII range except for the quotes
+    for (let code = 128; code < 256; code++) unicodes[code] = undefined;
+    unicodes[0x27] = 0x2019;
+    unicodes[0x60] = 0x2018;
+    differences.push([0x27, 'quoteright'], [0x60, 'quoteleft']);
+  }
+
+  const diffArray = encoding instanceof PDFDict ? encoding.lookup(PDFName.of('Differences')) : undefined;
+  if (diffArray instanceof PDFArray) {
+    let code = 0;
+    for (let i = 0; i < diffArray.size(); i++) {
+      const item = diffArray.lookup(i);
+      if (item instanceof PDFNumber) {
+        code = item.asNumber();
+      } else if (item instanceof PDFName) {
+        const glyphName = item.decodeText();
+        const uniMatch = /^uni([0-9A-Fa-f]{4})$/.exec(glyphName);
+        const unicode = byName.get(glyphName) ?? (uniMatch ? parseInt(uniMatch[1]!, 16) : undefined);
+        if (unicode === undefined && glyphName !== '.notdef') return null;
+        unicodes[code] = unicode;
+        const existing = differences.findIndex(([c]) => c === code);
+        if (existing >= 0) differences.splice(existing, 1);
+        if (byCode.get(code)?.name !== glyphName) differences.push([code, glyphName]);
+        code++;
+      }
+    }
+  }
+
+  return { unicodes, differences };
+}
+
+/** Default font source: metric-compatible substitutes for the standard 14 fonts */
+async function loadSubstituteFont(baseFont: string): Promise<ArrayBuffer | null> {
+  const family = SUBSTITUTE_FAMILIES.find(([pattern]) => pattern.test(baseFont))?.[1];
+  if (!family) return null;
+
+  const bold = /bold/i.test(baseFont);
+  const italic = /italic|oblique/i.test(baseFont);
+  const variant = bold ? (italic ? '700italic' : '700') : italic ? 'italic' : 'regular';
+  try {
+    return await fetchGoogleFontFile(family, variant);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replaces every non-embedded simple font with an embedded TrueType font.
+ * Widths are taken from the embedded program so they agree with the
+ * glyphs PDF/A viewers will draw. Returns the fonts that could not be
+ * embedded.
+ */
+async function embedFonts(
+  pdfDoc: PDFLibDocument,
+  loadFont: (baseFont: string) => Promise<ArrayBuffer | Uint8Array | null>
+): Promise<{ changed: boolean; unresolved: string[] }> {
+  const { context } = pdfDoc;
+  const unresolved = new Set<string>();
+  const programs = new Map<string, Promise<{ program: TrueTypeProgram; file: PDFRef } | null>>();
+  let changed = false;
+
+  const loadProgram = (baseFont: string) => {
+    if (!programs.has(baseFont)) {
+      programs.set(
+        baseFont,
+        (async () => {
+          const source = await loadFont(baseFont);
+          if (!source) return null;
+          const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+          const program = parseTrueType(bytes);
+          if (!program.embeddable) return null;
+          const file = context.register(context.flateStream(bytes, { Length1: bytes.length }));
+          return { program, file };
+        })().catch(() => null)
+      );
+    }
+    return programs.get(baseFont)!;
+  };
+
+  for (const font of inventoryDocument(pdfDoc).fonts.keys()) {
+    if (isFontEmbedded(font)) continue;
+    const baseFont = fontNameOf(font);
+    const encoding = resolveSimpleEncoding(font);
+    const embedded = encoding ? await loadProgram(baseFont) : null;
+    if (!encoding || !embedded) {
+      unresolved.add(baseFont);
+      continue;
+    }
+
+    const { program, file } = embedded;
+    const scale = (value: number) => Math.round((value * 1000) / program.unitsPerEm);
+    const fontName = program.postScriptName || baseFont.replace(/[^\x21-\x7e]/g, '');
+    const flags =
+      (program.isFixedPitch ? 1 : 0) | (program.isSerif ? 2 : 0) | 32 | (program.isItalic ? 64 : 0);
+
+    const descriptor = context.obj({
+      Type: 'FontDescriptor',
+      FontName: PDFName.of(fontName),
+      Flags: flags,
+      FontBBox: program.bbox.map(scale),
+      ItalicAngle: program.italicAngle,
+      Ascent: scale(program.ascent),
+      Descent: scale(program.descent),
+      CapHeight: scale(program.capHeight),
+      StemV: program.isBold ? 120 : 80,
+    });
+    descriptor.set(PDFName.of('FontFile2'), file);
+
+    const widths = encoding.unicodes.map((unicode) =>
+      scale(program.advanceWidth(unicode === undefined ? 0 : program.glyphIndex(unicode)))
+    );
+
+    font.set(PDFName.of('Subtype'), PDFName.of('TrueType'));
+    font.set(PDFName.of('BaseFont'), PDFName.of(fontName));
+    font.set(PDFName.of('FirstChar'), PDFNumber.of(0));
+    font.set(PDFName.of('LastChar'), PDFNumber.of(255));
+    font.set(PDFName.of('Widths'), context.obj(widths));
+    font.set(PDFName.of('FontDescriptor'), context.register(descriptor));
+    font.set(
+      PDFName.of('Encoding'),
+      encoding.differences.length > 0
+        ? context.obj({
+            Type: 'Encoding',
+            BaseEncoding: 'WinAnsiEncoding',
+            Differences: encoding.differences.flatMap(([code, glyph]) => [code, PDFName.of(glyph)]),
+          })
+        : PDFName.of('WinAnsiEncoding')
+    );
+    changed = true;
+  }
+
+  return { changed, unresolved: [...unresolved] };
+}
+
+// ============================================
+// CONVERSION
+// ============================================
+
+function removeJavaScript(pdfDoc: PDFLibDocument): boolean {
+  let changed = false;
+  const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  if (names?.has(PDFName.of('JavaScript'))) {
+    names.delete(PDFName.of('JavaScript'));
+    changed = true;
+  }
+
+  forEachDict(pdfDoc.context, (dict) => {
+    for (const key of ['A', 'OpenAction']) {
+      const action = dict.lookup(PDFName.of(key));
+      if (action instanceof PDFDict && classifyAction(action) === 'javascript') {
+        dict.delete(PDFName.of(key));
+        changed = true;
+      }
+    }
+  });
+  return changed;
+}
+
+function removeForbiddenActions(pdfDoc: PDFLibDocument): boolean {
+  let changed = false;
+  forEachDict(pdfDoc.context, (dict) => {
+    if (dict.has(PDFName.of('AA'))) {
+      dict.delete(PDFName.of('AA'));
+      changed = true;
+    }
+    for (const key of ['A', 'OpenAction']) {
+      const action = dict.lookup(PDFName.of(key));
+      if (action instanceof PDFDict && classifyAction(action) !== null) {
+        dict.delete(PDFName.of(key));
+        changed = true;
+      }
+    }
+  });
+  return changed;
+}
+
+function fixEmbeddedFiles(pdfDoc: PDFLibDocument, part: number): boolean {
+  const { catalog, context } = pdfDoc;
+  const names = catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const embeddedFiles = nameTreeValues(names?.lookup(PDFName.of('EmbeddedFiles')));
+  if (embeddedFiles.length === 0) return false;
+
+  if (part < 3) {
+    names!.delete(PDFName.of('EmbeddedFiles'));
+    catalog.delete(PDFName.of('AF'));
+    return true;
+  }
+
+  const existing = catalog.lookup(PDFName.of('AF'));
+  const associated = existing instanceof PDFArray ? existing : context.obj([]);
+  for (const value of embeddedFiles) {
+    const spec = context.lookup(value);
+    if (!(spec instanceof PDFDict)) continue;
+    if (!spec.has(PDFName.of('AFRelationship'))) {
+      spec.set(PDFName.of('AFRelationship'), PDFName.of('Unspecified'));
+    }
+    const stream = spec.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+    if (stream instanceof PDFStream && !stream.dict.has(PDFName.of('Subtype'))) {
+      stream.dict.set(PDFName.of('Subtype'), PDFName.of('application/octet-stream'));
+    }
+    if (!associated.asArray().includes(value)) associated.push(value);
+  }
+  catalog.set(PDFName.of('AF'), associated);
+  return true;
+}
+
+function fixOptionalContent(pdfDoc: PDFLibDocument, part: number): boolean {
+  const { catalog, context } = pdfDoc;
+  const ocProperties = catalog.lookupMaybe(PDFName.of('OCProperties'), PDFDict);
+  if (!ocProperties) return false;
+
+  if (part === 1) {
+    catalog.delete(PDFName.of('OCProperties'));
+    forEachDict(context, (dict) => dict.delete(PDFName.of('OC')));
+    return true;
+  }
+
+  const configs = [ocProperties.lookup(PDFName.of('D'))];
+  const alternates = ocProperties.lookup(PDFName.of('Configs'));
+  if (alternates instanceof PDFArray) configs.push(...alternates.asArray().map((c) => context.lookup(c)));
+  configs.forEach((config, i) => {
+    if (!(config instanceof PDFDict)) return;
+    if (!config.has(PDFName.of('Name'))) {
+      config.set(PDFName.of('Name'), PDFString.of(i === 0 ? 'Default' : `Configuration ${i}`));
+    }
+    config.delete(PDFName.of('AS'));
+  });
+  return true;
+}
+
+function fixForms(pdfDoc: PDFLibDocument): boolean {
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (!acroForm) return false;
+
+  const widgetsWithoutAppearance = pdfDoc
+    .getPages()
+    .flatMap((page) => page.node.Annots()?.asArray().map((a) => pdfDoc.context.lookup(a)) ?? [])
+    .some(
+      (annot) =>
+        annot instanceof PDFDict &&
+        annot.lookup(PDFName.of('Subtype')) === PDFName.of('Widget') &&
+        !annot.lookupMaybe(PDFName.of('AP'), PDFDict)?.has(PDFName.of('N'))
+    );
+  const needAppearances = acroForm.lookup(PDFName.of('NeedAppearances')) === PDFBool.True;
+  if (!needAppearances && !widgetsWithoutAppearance && !acroForm.has(PDFName.of('XFA'))) return false;
+
+  if (needAppearances || widgetsWithoutAppearance) {
+    try {
+      const form = pdfDoc.getForm();
+      form.getFields().forEach((field) => form.markFieldAsDirty(field.ref));
+      form.updateFieldAppearances();
+    } catch (error) {
+      console.warn('Could not generate form field appearances:', error);
+    }
+  }
+  acroForm.delete(PDFName.of('NeedAppearances'));
+  acroForm.delete(PDFName.of('XFA'));
+  return true;
+}
+
+function flattenTransparency(pdfDoc: PDFLibDocument): boolean {
+  const inventory = inventoryDocument(pdfDoc);
+  let changed = false;
+
+  for (const state of inventory.extGStates.keys()) {
+    const softMask = state.lookup(PDFName.of('SMask'));
+    const blendMode = nameOf(state.lookup(PDFName.of('BM')));
+    const opacity = Math.min(lookupNumber(state, 'CA') ?? 1, lookupNumber(state, 'ca') ?? 1);
+    if (
+      (softMask && softMask !== PDFName.of('None')) ||
+      opacity < 1 ||
+      (blendMode && blendMode !== 'Normal' && blendMode !== 'Compatible')
+    ) {
+      // Set explicit values: a missing entry would keep the previous state's value
+      state.set(PDFName.of('SMask'), PDFName.of('None'));
+      state.set(PDFName.of('CA'), PDFNumber.of(1));
+      state.set(PDFName.of('ca'), PDFNumber.of(1));
+      state.set(PDFName.of('BM'), PDFName.of('Normal'));
+      changed = true;
+    }
+  }
+
+  for (const image of inventory.images.keys()) {
+    if (image.dict.has(PDFName.of('SMask')) || image.dict.has(PDFName.of('SMaskInData'))) {
+      image.dict.delete(PDFName.of('SMask'));
+      image.dict.delete(PDFName.of('SMaskInData'));
+      changed = true;
+    }
+  }
+
+  const owners = [...pdfDoc.getPages().map((page) => page.node as PDFDict), ...[...inventory.forms.keys()].map((f) => f.dict)];
+  for (const dict of owners) {
+    if (isTransparencyGroup(dict)) {
+      dict.delete(PDFName.of('Group'));
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function fixGraphicsStates(pdfDoc: PDFLibDocument): boolean {
+  let changed = false;
+  for (const state of inventoryDocument(pdfDoc).extGStates.keys()) {
+    if (state.has(PDFName.of('TR'))) {
+      state.delete(PDFName.of('TR'));
+      changed = true;
+    }
+    const tr2 = state.lookup(PDFName.of('TR2'));
+    if (tr2 && tr2 !== PDFName.of('Default')) {
+      state.set(PDFName.of('TR2'), PDFName.of('Default'));
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function fixXObjects(pdfDoc: PDFLibDocument): boolean {
+  const inventory = inventoryDocument(pdfDoc);
+  let changed = false;
+  const remove = (dict: PDFDict, key: string) => {
+    if (dict.has(PDFName.of(key))) {
+      dict.delete(PDFName.of(key));
+      changed = true;
+    }
+  };
+
+  for (const image of inventory.images.keys()) {
+    if (image.dict.lookup(PDFName.of('Interpolate')) === PDFBool.True) {
+      image.dict.set(PDFName.of('Interpolate'), PDFBool.False);
+      changed = true;
+    }
+    remove(image.dict, 'Alternates');
+    remove(image.dict, 'OPI');
+  }
+
+  for (const form of inventory.forms.keys()) {
+    remove(form.dict, 'OPI');
+    remove(form.dict, 'PS');
+    if (form.dict.lookup(PDFName.of('Subtype2')) === PDFName.of('PS')) remove(form.dict, 'Subtype2');
+  }
+  return changed;
+}
+
+function fixAnnotations(pdfDoc: PDFLibDocument, part: number): boolean {
+  const allowed = part === 1 ? PDFA1_ANNOTATIONS : PDFA2_ANNOTATIONS;
+  let changed = false;
+
+  for (const page of pdfDoc.getPages()) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+
+    for (let i = annots.size() - 1; i >= 0; i--) {
+      const annot = annots.lookup(i);
+      if (!(annot instanceof PDFDict)) continue;
+      const subtype = nameOf(annot.lookup(PDFName.of('Subtype'))) ?? '';
+
+      if (!allowed.has(subtype) && !(part === 3 && subtype === 'FileAttachment')) {
+        annots.remove(i);
+        changed = true;
+        continue;
+      }
+      if (subtype === 'Popup') continue;
+
+      const flags = lookupNumber(annot, 'F') ?? 0;
+      const fixedFlags = (flags | ANNOT_PRINT) & ~(ANNOT_HIDDEN | ANNOT_INVISIBLE | ANNOT_NO_VIEW);
+      if (fixedFlags !== flags) {
+        annot.set(PDFName.of('F'), PDFNumber.of(fixedFlags));
+        changed = true;
+      }
+      if (part === 1 && (lookupNumber(annot, 'CA') ?? 1) < 1) {
+        annot.set(PDFName.of('CA'), PDFNumber.of(1));
+        changed = true;
+      }
+      const appearance = annot.lookupMaybe(PDFName.of('AP'), PDFDict);
+      if (appearance?.has(PDFName.of('D')) || appearance?.has(PDFName.of('R'))) {
+        appearance.delete(PDFName.of('D'));
+        appearance.delete(PDFName.of('R'));
+        changed = true;
+      }
+    }
+  }
+  return changed;
+}
+
+/** Re-compresses LZW streams with Flate, which every PDF/A level allows */
+function reencodeStreams(context: PDFContext): boolean {
+  let changed = false;
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (!(object instanceof PDFRawStream) || !getFilterNames(object.dict).includes('LZWDecode')) continue;
+    const data = decodeStreamData(object);
+    if (!data) continue;
+
+    const replacement = context.flateStream(data);
+    for (const [key, value] of object.dict.entries()) {
+      if (!['Filter', 'DecodeParms', 'Length'].includes(key.decodeText())) replacement.dict.set(key, value);
+    }
+    context.assign(ref, replacement);
+    changed = true;
+  }
+  return changed;
+}
+
+function addOutputIntent(pdfDoc: PDFLibDocument): boolean {
+  const { catalog, context } = pdfDoc;
+  if (getPDFAIntentProfile(pdfDoc)) return false;
+
+  // Reuse an existing profile: PDF/A-2 requires all intents to share one
+  const existingProfile = getOutputIntentProfiles(pdfDoc)[0];
+  const existingHeader = readProfileHeader(existingProfile);
+  const profileRef = existingProfile
+    ? (context.getObjectRef(existingProfile) ?? context.register(existingProfile))
+    : context.register(context.flateStream(createSRGBProfile(), { N: 3 }));
+  const condition = existingProfile ? `${existingHeader?.colorSpace.trim() ?? 'Custom'} output` : 'sRGB IEC61966-2.1';
+
+  const intent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of(condition),
+    Info: PDFString.of(condition),
+    RegistryName: PDFString.of('http://www.color.org'),
+  });
+  intent.set(PDFName.of('DestOutputProfile'), profileRef);
+
+  const intents = catalog.lookup(PDFName.of('OutputIntents'));
+  if (intents instanceof PDFArray) {
+    intents.push(context.register(intent));
+  } else {
+    catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(intent)]));
+  }
+  return true;
+}
+
+/**
+ * Writes the info dictionary and an XMP packet with the PDF/A
+ * identification schema, keeping both in sync, and ensures the trailer
+ * carries a file identifier.
+ */
+function writeMetadata(pdfDoc: PDFLibDocument, level: PDFALevel, metadata: Partial<PDFMetadata>): void {
+  const { context, catalog } = pdfDoc;
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const created = metadata.creationDate ?? pdfDoc.getCreationDate() ?? now;
+  const createdRounded = new Date(Math.floor(created.getTime() / 1000) * 1000);
+
+  const title = metadata.title ?? pdfDoc.getTitle();
+  const author = metadata.author ?? pdfDoc.getAuthor();
+  const subject = metadata.subject ?? pdfDoc.getSubject();
+  const keywords = metadata.keywords ?? pdfDoc.getKeywords();
+  const creator = metadata.creator ?? pdfDoc.getCreator() ?? PRODUCER;
+
+  if (title) pdfDoc.setTitle(title);
+  if (author) pdfDoc.setAuthor(author);
+  if (subject) pdfDoc.setSubject(subject);
+  if (keywords) {
+    const info = context.lookup(context.trailerInfo.Info);
+    if (info instanceof PDFDict) info.set(PDFName.of('Keywords'), PDFHexString.fromText(keywords));
+  }
+  pdfDoc.setCreator(creator);
+  pdfDoc.setProducer(PRODUCER);
+  pdfDoc.setCreationDate(createdRounded);
+  pdfDoc.setModificationDate(now);
+
+  const alt = (value: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+  const properties = [
+    `<pdfaid:part>${getPart(level)}</pdfaid:part>`,
+    `<pdfaid:conformance>${getConformance(level)}</pdfaid:conformance>`,
+    '<dc:format>application/pdf</dc:format>',
+    title ? `<dc:title>${alt(title)}</dc:title>` : '',
+    author ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>` : '',
+    subject ? `<dc:description>${alt(subject)}</dc:description>` : '',
+    keywords ? `<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>` : '',
+    `<pdf:Producer>${PRODUCER}</pdf:Producer>`,
+    `<xmp:CreatorTool>${escapeXml(creator)}</xmp:CreatorTool>`,
+    `<xmp:CreateDate>${xmpDate(createdRounded)}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${xmpDate(now)}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${xmpDate(now)}</xmp:MetadataDate>`,
+  ].filter(Boolean);
+
+  const xmp = [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    '  xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"',
+    '  xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '  xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    '  xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...properties.map((p) => `  ${p}`),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+
+  // PDF/A-1 forbids filters on the metadata stream
+  const stream = context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' });
+  catalog.set(PDFName.of('Metadata'), context.register(stream));
+
+  if (!(context.trailerInfo.ID instanceof PDFArray)) {
+    const id = randomBytes(16);
+    context.trailerInfo.ID = context.obj([hex(id), hex(id)]);
+  }
+}
+
+/**
+ * Converts a document to the given PDF/A level by applying the selected
+ * fixes in dependency order (decryption first, metadata last), then
+ * validates the result. Violations without an automatic fix (e.g. missing
+ * structure tags or CMYK content without a CMYK intent) remain in the
+ * returned validation.
+ */
+export async function convertToPDFA(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  options: PDFAConversionOptions = {}
+): Promise<PDFAConversionResult> {
+  const level = options.level ?? '2b';
+  const part = getPart(level);
+  const fixes = new Set(options.fixes ?? PDFA_FIX_ACTIONS);
+  const applied: PDFAFixAction[] = [];
+  let unresolvedFonts: string[] = [];
+
+  const pdfDoc = await PDFLibDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  const { context } = pdfDoc;
+
+  if (pdfDoc.isEncrypted) {
+    if (!fixes.has('decrypt')) {
+      throw new Error('Encrypted documents cannot be converted to PDF/A');
+    }
+    await decryptDocumentObjects(context, options.password);
+    applied.push('decrypt');
+  }
+
+  const run = (action: PDFAFixAction, fix: () => boolean) => {
+    if (fixes.has(action) && fix()) applied.push(action);
+  };
+
+  run('remove-javascript', () => removeJavaScript(pdfDoc));
+  run('remove-actions', () => removeForbiddenActions(pdfDoc));
+  run('fix-embedded-files', () => fixEmbeddedFiles(pdfDoc, part));
+  run('fix-optional-content', () => fixOptionalContent(pdfDoc, part));
+  run('fix-forms', () => fixForms(pdfDoc));
+  if (part === 1) run('flatten-transparency', () => flattenTransparency(pdfDoc));
+  run('fix-graphics-state', () => fixGraphicsStates(pdfDoc));
+  run('fix-xobjects', () => fixXObjects(pdfDoc));
+  run('fix-annotations', () => fixAnnotations(pdfDoc, part));
+
+  // Write fonts added by form appearances before looking for unembedded ones
+  await pdfDoc.flush();
+
+  if (fixes.has('embed-fonts')) {
+    const result = await embedFonts(pdfDoc, options.loadFont ?? loadSubstituteFont);
+    unresolvedFonts = result.unresolved;
+    if (result.changed) applied.push('embed-fonts');
+  }
+
+  run('reencode-streams', () => reencodeStreams(context));
+  run('add-output-intent', () => addOutputIntent(pdfDoc));
+  if (fixes.has('write-metadata')) {
+    writeMetadata(pdfDoc, level, options.metadata ?? {});
+    applied.push('write-metadata');
+  }
+
+  removeUnreachableObjects(context);
+
+  // PDF/A-1 is based on PDF 1.4, which has no object or cross-reference streams
+  const bytes = await pdfDoc.save({
+    useObjectStreams: part > 1,
+    addDefaultPage: false,
+    updateFieldAppearances: false,
+  });
+
+  return {
+    bytes,
+    applied,
+    unresolvedFonts,
+    validation: await validatePDFA(bytes, level),
+  };
+}
@@ -0,0 +1,864 @@
+// ============================================
+// LUMINA PDF COMPRESSION
+// Image downsampling and recompression, duplicate stream merging and
+// TrueType glyph stripping for compressPDF
+// ============================================
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+} from 'pdf-lib';
+import type { PDFDocument as PDFLibDocument, PDFContext, PDFObject } from 'pdf-lib';
+import {
+  IDENTITY_MATRIX,
+  decodeStreamData,
+  getFilterNames,
+  getFontMetrics,
+  lookupNumber,
+  multiplyMatrix,
+  operandName,
+  operandNumber,
+  parseContentStream,
+  readContentStreams,
+  splitCharCodes,
+} from './pdfContentStream';
+import type { ContentOperand, ContentOperation, Matrix } from './pdfContentStream';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** 8-bit pixels, interleaved, without alpha */
+export interface RasterImage {
+  width: number;
+  height: number;
+  channels: 1 | 3;
+  data: Uint8Array;
+}
+
+/**
+ * JPEG decoding and encoding. The default implementation uses the
+ * browser's canvas; pass another codec to compress outside the browser.
+ */
+export interface ImageCodec {
+  decodeJPEG(data: Uint8Array): Promise<RasterImage>;
+  /** Returns the JPEG bytes and the number of color components they carry */
+  encodeJPEG(image: RasterImage, quality: number): Promise<{ data: Uint8Array; channels: 1 | 3 }>;
+}
+
+export interface ImageOptimizationOptions {
+  /** Images placed above this resolution are resampled down to it */
+  targetDPI?: number;
+  /** JPEG quality from 0 to 1; undefined keeps lossless images lossless */
+  jpegQuality?: number;
+  convertToGrayscale?: boolean;
+}
+
+export interface ImageOptimizationResult {
+  recompressed: number;
+  downsampled: number;
+  /** Images that could not be decoded (CMYK, indexed, JPEG 2000, ...) */
+  skipped: number;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Only resample when it gains at least this factor, as Acrobat does */
+const DOWNSAMPLE_THRESHOLD = 1.5;
+
+/** Images smaller than this (in pixels per side) aren't worth re-encoding */
+const MIN_IMAGE_SIZE = 16;
+
+/** TrueType tables PDF renderers use; the rest is dropped when subsetting */
+const RENDERING_TABLES = new Set(['cmap', 'cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'name', 'OS/2', 'post', 'prep']);
+
+// ============================================
+// CONTENT TRAVERSAL
+// ============================================
+
+interface ContentVisitor {
+  /** An image XObject painted with the given CTM; null when the placement is unknown */
+  image?(image: PDFStream, ctm: Matrix | null): void;
+  /** A string shown with the given font */
+  text?(font: PDFDict, bytes: Uint8Array): void;
+}
+
+/**
+ * Walks page contents, form XObjects, tiling patterns, Type3 glyphs and
+ * annotation appearances, tracking the CTM through q/Q/cm so image
+ * placements are known in page space.
+ */
+function walkDocumentContent(pdfDoc: PDFLibDocument, visitor: ContentVisitor): void {
+  const { context } = pdfDoc;
+  const parsed = new Map<PDFStream, ContentOperation[]>();
+
+  const parse = (data: Uint8Array): ContentOperation[] => {
+    try {
+      return parseContentStream(data);
+    } catch {
+      return [];
+    }
+  };
+
+  // Forms are often painted many times; parse each one once
+  const parseStream = (stream: PDFStream): ContentOperation[] => {
+    if (!parsed.has(stream)) parsed.set(stream, parse(decodeStreamData(stream) ?? new Uint8Array(0)));
+    return parsed.get(stream)!;
+  };
+
+  const walk = (
+    operations: ContentOperation[],
+    resources: PDFDict | undefined,
+    baseCTM: Matrix | null,
+    depth: number
+  ): void => {
+    if (depth > 12) return;
+
+    const stack: Array<Matrix | null> = [];
+    let ctm = baseCTM;
+    let font: PDFDict | undefined;
+    const lookupResource = (category: string, key: string | undefined) =>
+      key ? resources?.lookupMaybe(PDFName.of(category), PDFDict)?.lookup(PDFName.of(key)) : undefined;
+
+    for (const op of operations) {
+      switch (op.operator) {
+        case 'q':
+          stack.push(ctm);
+          break;
+        case 'Q':
+          if (stack.length > 0) ctm = stack.pop()!;
+          break;
+        case 'cm':
+          if (ctm) {
+            const m = op.operands.map((o) => operandNumber(o)) as Matrix;
+            ctm = multiplyMatrix(m, ctm);
+          }
+          break;
+        case 'Tf': {
+          const value = lookupResource('Font', operandName(op.operands[0]));
+          font = value instanceof PDFDict ? value : undefined;
+          if (font && font.lookup(PDFName.of('Subtype')) === PDFName.of('Type3')) {
+            visitType3(font, depth);
+          }
+          break;
+        }
+        case 'Tj':
+        case "'":
+        case '"':
+        case 'TJ': {
+          if (!font || !visitor.text) break;
+          const operand = op.operator === 'TJ' ? op.operands[0] : op.operands[op.operands.length - 1];
+          const strings: ContentOperand[] = operand?.type === 'array' ? operand.items : operand ? [operand] : [];
+          for (const s of strings) {
+            if (s.type === 'string') visitor.text(font, s.bytes);
+          }
+          break;
+        }
+        case 'Do': {
+          const xobject = lookupResource('XObject', operandName(op.operands[0]));
+          if (!(xobject instanceof PDFStream)) break;
+          const subtype = xobject.dict.lookup(PDFName.of('Subtype'));
+          if (subtype === PDFName.of('Image')) {
+            visitor.image?.(xobject, ctm);
+          } else if (subtype === PDFName.of('Form')) {
+            visitForm(xobject, resources, ctm, depth);
+          }
+          break;
+        }
+        case 'scn':
+        case 'SCN': {
+          const pattern = lookupResource('Pattern', operandName(op.operands[op.operands.length - 1]));
+          // Pattern space is the default space of the page, not the current CTM
+          if (pattern instanceof PDFStream) visitForm(pattern, resources, null, depth);
+          break;
+        }
+      }
+    }
+  };
+
+  const visitForm = (form: PDFStream, inherited: PDFDict | undefined, ctm: Matrix | null, depth: number): void => {
+    const matrixArray = form.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray);
+    const matrix = matrixArray
+      ? (matrixArray.asArray().map((v) => (v instanceof PDFNumber ? v.asNumber() : 0)) as Matrix)
+      : IDENTITY_MATRIX;
+    const resources = form.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? inherited;
+    walk(parseStream(form), resources, ctm ? multiplyMatrix(matrix, ctm) : null, depth + 1);
+  };
+
+  const visitedType3 = new Set<PDFDict>();
+  const visitType3 = (font: PDFDict, depth: number): void => {
+    if (visitedType3.has(font)) return;
+    visitedType3.add(font);
+    const procs = font.lookupMaybe(PDFName.of('CharProcs'), PDFDict);
+    const resources = font.lookupMaybe(PDFName.of('Resources'), PDFDict);
+    for (const value of procs?.values() ?? []) {
+      const proc = context.lookup(value);
+      if (proc instanceof PDFStream) walk(parseStream(proc), resources, null, depth + 1);
+    }
+  };
+
+  for (const page of pdfDoc.getPages()) {
+    walk(parse(readContentStreams(page.node.Contents())), page.node.Resources(), IDENTITY_MATRIX, 0);
+
+    const annots = page.node.Annots();
+    for (let i = 0; i < (annots?.size() ?? 0); i++) {
+      const appearances = annots!.lookupMaybe(i, PDFDict)?.lookupMaybe(PDFName.of('AP'), PDFDict);
+      for (const value of appearances?.values() ?? []) {
+        const appearance = context.lookup(value);
+        const streams =
+          appearance instanceof PDFStream
+            ? [appearance]
+            : appearance instanceof PDFDict
+              ? appearance.values().map((v) => context.lookup(v))
+              : [];
+        for (const stream of streams) {
+          if (stream instanceof PDFStream) visitForm(stream, undefined, null, 0);
+        }
+      }
+    }
+  }
+}
+
+// ============================================
+// IMAGES
+// ============================================
+
+function colorComponents(space: PDFObject | undefined, context: PDFContext): 1 | 3 | null {
+  const value = space instanceof PDFRef ? context.lookup(space) : space;
+  if (value === PDFName.of('DeviceGray') || value === PDFName.of('CalGray')) return 1;
+  if (value === PDFName.of('DeviceRGB') || value === PDFName.of('CalRGB')) return 3;
+  if (value instanceof PDFArray) {
+    const family = value.lookup(0);
+    if (family === PDFName.of('CalGray')) return 1;
+    if (family === PDFName.of('CalRGB')) return 3;
+    if (family === PDFName.of('ICCBased')) {
+      const profile = value.lookup(1);
+      const n = profile instanceof PDFStream ? lookupNumber(profile.dict, 'N') : undefined;
+      return n === 1 || n === 3 ? n : null;
+    }
+  }
+  return null;
+}
+
+/** Decodes an image XObject to 8-bit pixels, or returns null for formats left untouched */
+async function decodeImage(image: PDFStream, context: PDFContext, codec?: ImageCodec): Promise<RasterImage | null> {
+  const dict = image.dict;
+  const channels = colorComponents(dict.get(PDFName.of('ColorSpace')), context);
+  const width = lookupNumber(dict, 'Width') ?? 0;
+  const height = lookupNumber(dict, 'Height') ?? 0;
+  if (
+    !channels ||
+    dict.lookup(PDFName.of('ImageMask')) === PDFBool.True ||
+    dict.has(PDFName.of('Decode')) ||
+    // A color key mask refers to sample values, which lossy coding changes
+    dict.lookup(PDFName.of('Mask')) instanceof PDFArray ||
+    (lookupNumber(dict, 'BitsPerComponent') ?? 8) !== 8 ||
+    width < MIN_IMAGE_SIZE ||
+    height < MIN_IMAGE_SIZE
+  ) {
+    return null;
+  }
+
+  const filters = getFilterNames(dict);
+  if (filters.length > 0 && filters[filters.length - 1] === 'DCTDecode') {
+    if (!codec || filters.length > 1 || !(image instanceof PDFRawStream)) return null;
+    try {
+      const decoded = await codec.decodeJPEG(image.contents);
+      if (decoded.width !== width || decoded.height !== height) return null;
+      return decoded.channels === channels ? decoded : convertChannels(decoded, channels);
+    } catch {
+      return null;
+    }
+  }
+
+  const data = decodeStreamData(image);
+  if (!data || data.length < width * height * channels) return null;
+  return { width, height, channels, data: data.subarray(0, width * height * channels) };
+}
+
+function convertChannels(image: RasterImage, channels: 1 | 3): RasterImage {
+  if (image.channels === channels) return image;
+  const pixels = image.width * image.height;
+  const data = new Uint8Array(pixels * channels);
+  for (let i = 0; i < pixels; i++) {
+    if (channels === 1) {
+      const r = image.data[i * 3]!;
+      const g = image.data[i * 3 + 1]!;
+      const b = image.data[i * 3 + 2]!;
+      data[i] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+    } else {
+      data.fill(image.data[i]!, i * 3, i * 3 + 3);
+    }
+  }
+  return { ...image, channels, data };
+}
+
+/** Area-averaging resample, which avoids the aliasing of nearest-neighbour scaling */
+export function resampleImage(image: RasterImage, width: number, height: number): RasterImage {
+  const { channels } = image;
+  const data = new Uint8Array(width * height * channels);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = y * scaleY;
+    const y1 = Math.min(image.height, y0 + scaleY);
+    for (let x = 0; x < width; x++) {
+      const x0 = x * scaleX;
+      const x1 = Math.min(image.width, x0 + scaleX);
+      const sums = [0, 0, 0];
+      let area = 0;
+
+      for (let sy = Math.floor(y0); sy < y1; sy++) {
+        const wy = Math.min(sy + 1, y1) - Math.max(sy, y0);
+        for (let sx = Math.floor(x0); sx < x1; sx++) {
+          const weight = wy * (Math.min(sx + 1, x1) - Math.max(sx, x0));
+          const offset = (sy * image.width + sx) * channels;
+          for (let c = 0; c < channels; c++) sums[c]! += image.data[offset + c]! * weight;
+          area += weight;
+        }
+      }
+
+      const target = (y * width + x) * channels;
+      for (let c = 0; c < channels; c++) data[target + c] = Math.round(sums[c]! / area);
+    }
+  }
+
+  return { width, height, channels, data };
+}
+
+/** Effective resolution of an image placement: pixels per inch along its shorter axis */
+function placementDPI(image: PDFStream, ctm: Matrix): number {
+  const width = lookupNumber(image.dict, 'Width') ?? 0;
+  const height = lookupNumber(image.dict, 'Height') ?? 0;
+  const displayWidth = Math.hypot(ctm[0], ctm[1]) / 72;
+  const displayHeight = Math.hypot(ctm[2], ctm[3]) / 72;
+  if (displayWidth === 0 || displayHeight === 0) return Infinity;
+  return Math.min(width / displayWidth, height / displayHeight);
+}
+
+/**
+ * Downsamples images placed above the target resolution and re-encodes
+ * them as JPEG. An image keeps its original encoding when the result
+ * would not be smaller. Images with an unknown placement (patterns,
+ * annotation appearances) are recompressed but not resampled.
+ */
+export async function optimizeImages(
+  pdfDoc: PDFLibDocument,
+  options: ImageOptimizationOptions,
+  codec?: ImageCodec
+): Promise<ImageOptimizationResult> {
+  const { context } = pdfDoc;
+  const result: ImageOptimizationResult = { recompressed: 0, downsampled: 0, skipped: 0, bytesBefore: 0, bytesAfter: 0 };
+
+  // Highest resolution each image is shown at; Infinity when unknown
+  const resolutions = new Map<PDFStream, number>();
+  walkDocumentContent(pdfDoc, {
+    image(image, ctm) {
+      const dpi = ctm ? placementDPI(image, ctm) : Infinity;
+      resolutions.set(image, Math.max(resolutions.get(image) ?? 0, dpi));
+    },
+  });
+
+  for (const [image, dpi] of resolutions) {
+    const ref = context.getObjectRef(image);
+    if (!ref || !(image instanceof PDFRawStream)) continue;
+
+    const isJPEG = getFilterNames(image.dict).includes('DCTDecode');
+    const scale = options.targetDPI && Number.isFinite(dpi) && dpi > options.targetDPI * DOWNSAMPLE_THRESHOLD
+      ? options.targetDPI / dpi
+      : 1;
+    const grayscale = options.convertToGrayscale && colorComponents(image.dict.get(PDFName.of('ColorSpace')), context) === 3;
+    if (scale === 1 && !grayscale && options.jpegQuality === undefined) continue;
+
+    const decoded = await decodeImage(image, context, codec);
+    if (!decoded) {
+      result.skipped++;
+      continue;
+    }
+
+    let raster = grayscale ? convertChannels(decoded, 1) : decoded;
+    if (scale < 1) {
+      raster = resampleImage(
+        raster,
+        Math.max(1, Math.round(raster.width * scale)),
+        Math.max(1, Math.round(raster.height * scale))
+      );
+    }
+
+    // JPEG sources are re-encoded as JPEG even without a quality setting
+    const quality = options.jpegQuality ?? (isJPEG ? 0.92 : undefined);
+    let replacement: PDFRawStream;
+    let channels: 1 | 3 = raster.channels;
+    if (quality !== undefined && codec) {
+      const encoded = await codec.encodeJPEG(raster, quality);
+      channels = encoded.channels;
+      replacement = context.stream(encoded.data, { Filter: 'DCTDecode' });
+    } else {
+      replacement = context.flateStream(raster.data);
+    }
+
+    if (replacement.contents.length >= image.contents.length) continue;
+
+    for (const [key, value] of image.dict.entries()) {
+      const name = key.decodeText();
+      if (!['Filter', 'DecodeParms', 'Length', 'Width', 'Height', 'ColorSpace', 'BitsPerComponent'].includes(name)) {
+        replacement.dict.set(key, value);
+      }
+    }
+    replacement.dict.set(PDFName.of('Width'), PDFNumber.of(raster.width));
+    replacement.dict.set(PDFName.of('Height'), PDFNumber.of(raster.height));
+    replacement.dict.set(PDFName.of('BitsPerComponent'), PDFNumber.of(8));
+    const colorSpace = image.dict.get(PDFName.of('ColorSpace'));
+    replacement.dict.set(
+      PDFName.of('ColorSpace'),
+      colorSpace && !grayscale && colorComponents(colorSpace, context) === channels
+        ? colorSpace
+        : PDFName.of(channels === 1 ? 'DeviceGray' : 'DeviceRGB')
+    );
+
+    result.bytesBefore += image.contents.length;
+    result.bytesAfter += replacement.contents.length;
+    result.recompressed++;
+    if (scale < 1) result.downsampled++;
+    context.assign(ref, replacement);
+  }
+
+  return result;
+}
+
+/** Image codec backed by the browser's canvas; null outside the browser */
+export function createCanvasImageCodec(): ImageCodec | null {
+  if (typeof createImageBitmap === 'undefined') return null;
+
+  const createCanvas = (width: number, height: number) => {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  };
+
+  return {
+    async decodeJPEG(data) {
+      const bitmap = await createImageBitmap(new Blob([data.slice()], { type: 'image/jpeg' }));
+      const canvas = createCanvas(bitmap.width, bitmap.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context not available');
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+
+      const rgba = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+      const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+      for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+        rgb[j] = rgba[i]!;
+        rgb[j + 1] = rgba[i + 1]!;
+        rgb[j + 2] = rgba[i + 2]!;
+      }
+      return { width: canvas.width, height: canvas.height, channels: 3, data: rgb };
+    },
+
+    async encodeJPEG(image, quality) {
+      const canvas = createCanvas(image.width, image.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas 2D context not available');
+
+      const pixels = ctx.createImageData(image.width, image.height);
+      for (let i = 0, j = 0; j < pixels.data.length; i += image.channels, j += 4) {
+        pixels.data[j] = image.data[i]!;
+        pixels.data[j + 1] = image.data[i + (image.channels === 3 ? 1 : 0)]!;
+        pixels.data[j + 2] = image.data[i + (image.channels === 3 ? 2 : 0)]!;
+        pixels.data[j + 3] = 255;
+      }
+      ctx.putImageData(pixels, 0, 0);
+
+      const blob =
+        canvas instanceof OffscreenCanvas
+          ? await canvas.convertToBlob({ type: 'image/jpeg', quality })
+          : await new Promise<Blob>((resolve, reject) =>
+              canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('JPEG encoding failed'))), 'image/jpeg', quality)
+            );
+      // Canvas always writes three-component JPEGs
+      return { data: new Uint8Array(await blob.arrayBuffer()), channels: 3 };
+    },
+  };
+}
+
+// ============================================
+// DEDUPLICATION
+// ============================================
+
+function serializeValue(value: unknown, canonical: Map<string, string>): string {
+  if (value instanceof PDFRef) {
+    const key = value.toString();
+    return canonical.get(key) ?? key;
+  }
+  if (value instanceof PDFDict) {
+    return `<<${value
+      .entries()
+      .filter(([key]) => key !== PDFName.of('Length'))
+      .map(([key, v]) => `${key.toString()} ${serializeValue(v, canonical)}`)
+      .sort()
+      .join(' ')}>>`;
+  }
+  if (value instanceof PDFArray) {
+    return `[${value.asArray().map((v) => serializeValue(v, canonical)).join(' ')}]`;
+  }
+  return String(value);
+}
+
+/** FNV-1a over the raw stream bytes, used to bucket candidates before comparing */
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i]!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+/**
+ * Streams have no identity of their own, so any two identical ones can be
+ * shared. Of the dictionaries only fonts are merged: pages, annotations
+ * and form fields are identified by their object.
+ */
+function isDedupCandidate(object: PDFObject): boolean {
+  if (object instanceof PDFRawStream) return true;
+  if (!(object instanceof PDFDict)) return false;
+  const type = object.lookup(PDFName.of('Type'));
+  return type === PDFName.of('Font') || type === PDFName.of('FontDescriptor');
+}
+
+function replaceRefs(value: unknown, replacements: Map<string, PDFRef>): void {
+  const pending: unknown[] = [value];
+  while (pending.length > 0) {
+    const item = pending.pop();
+    if (item instanceof PDFDict || item instanceof PDFStream) {
+      const dict = item instanceof PDFStream ? item.dict : item;
+      for (const [key, v] of dict.entries()) {
+        const replacement = v instanceof PDFRef ? replacements.get(v.toString()) : undefined;
+        if (replacement) dict.set(key, replacement);
+        else pending.push(v);
+      }
+    } else if (item instanceof PDFArray) {
+      for (let i = 0; i < item.size(); i++) {
+        const v = item.get(i);
+        const replacement = v instanceof PDFRef ? replacements.get(v.toString()) : undefined;
+        if (replacement) item.set(i, replacement);
+        else pending.push(v);
+      }
+    }
+  }
+}
+
+/**
+ * Points references to identical streams (images, font programs, ICC
+ * profiles, forms) and font dictionaries at a single copy. Runs until no more merges happen, so fonts become
+ * identical once their font programs have been merged. Returns the number
+ * of objects made redundant; they are dropped by the unreachable-object
+ * sweep.
+ */
+export function deduplicateObjects(context: PDFContext): number {
+  const canonical = new Map<string, string>();
+  const replacements = new Map<string, PDFRef>();
+
+  let merged = true;
+  while (merged) {
+    merged = false;
+    const seen = new Map<string, Array<{ ref: PDFRef; object: PDFObject }>>();
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      if (replacements.has(ref.toString()) || !isDedupCandidate(object)) continue;
+
+      const dictKey = serializeValue(object instanceof PDFStream ? object.dict : object, canonical);
+      const contents = object instanceof PDFRawStream ? object.contents : undefined;
+      const key = contents ? `${dictKey}#${contents.length}:${hashBytes(contents)}` : dictKey;
+      const bucket = seen.get(key) ?? [];
+      const original = bucket.find(
+        (entry) => !contents || bytesEqual((entry.object as PDFRawStream).contents, contents)
+      );
+
+      if (original) {
+        replacements.set(ref.toString(), original.ref);
+        canonical.set(ref.toString(), original.ref.toString());
+        merged = true;
+      } else {
+        bucket.push({ ref, object });
+        seen.set(key, bucket);
+      }
+    }
+  }
+
+  if (replacements.size > 0) {
+    for (const [, object] of context.enumerateIndirectObjects()) replaceRefs(object, replacements);
+    replaceRefs(context.trailerInfo.Root, replacements);
+  }
+  return replacements.size;
+}
+
+// ============================================
+// FONT SUBSETTING
+// ============================================
+
+interface TrueTypeTable {
+  tag: string;
+  data: Uint8Array;
+}
+
+function readTables(bytes: Uint8Array): TrueTypeTable[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tables: TrueTypeTable[] = [];
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    const offset = view.getUint32(record + 8);
+    const length = view.getUint32(record + 12);
+    tables.push({
+      tag: String.fromCharCode(...bytes.subarray(record, record + 4)),
+      data: bytes.subarray(offset, offset + length),
+    });
+  }
+  return tables;
+}
+
+function tableChecksum(data: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum = (sum + (((data[i] ?? 0) << 24) | ((data[i + 1] ?? 0) << 16) | ((data[i + 2] ?? 0) << 8) | (data[i + 3] ?? 0))) >>> 0;
+  }
+  return sum;
+}
+
+function writeFont(tables: TrueTypeTable[]): Uint8Array {
+  const numTables = tables.length;
+  const searchRange = 2 ** Math.floor(Math.log2(numTables)) * 16;
+  let size = 12 + numTables * 16;
+  const offsets = tables.map((table) => {
+    const offset = size;
+    size += (table.data.length + 3) & ~3;
+    return offset;
+  });
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x00010000);
+  view.setUint16(4, numTables);
+  view.setUint16(6, searchRange);
+  view.setUint16(8, Math.floor(Math.log2(numTables)));
+  view.setUint16(10, numTables * 16 - searchRange);
+
+  tables.forEach((table, i) => {
+    const record = 12 + i * 16;
+    for (let c = 0; c < 4; c++) view.setUint8(record + c, table.tag.charCodeAt(c));
+    view.setUint32(record + 4, tableChecksum(table.data));
+    view.setUint32(record + 8, offsets[i]!);
+    view.setUint32(record + 12, table.data.length);
+    bytes.set(table.data, offsets[i]);
+  });
+
+  const head = tables.findIndex((t) => t.tag === 'head');
+  if (head >= 0) view.setUint32(offsets[head]! + 8, (0xb1b0afba - tableChecksum(bytes)) >>> 0);
+  return bytes;
+}
+
+/**
+ * Strips the outlines of unused glyphs from a TrueType program. Glyph
+ * ids are kept, so the font's CIDToGIDMap and widths stay valid; glyphs
+ * referenced by used composite glyphs are kept as well. Returns null when
+ * the program can't be parsed.
+ */
+export function stripUnusedGlyphs(program: Uint8Array, usedGlyphs: Set<number>): Uint8Array | null {
+  let tables: TrueTypeTable[];
+  try {
+    tables = readTables(program);
+  } catch {
+    return null;
+  }
+  const find = (tag: string) => tables.find((t) => t.tag === tag)?.data;
+  const head = find('head');
+  const loca = find('loca');
+  const glyf = find('glyf');
+  const maxp = find('maxp');
+  if (!head || !loca || !glyf || !maxp || head.length < 54 || maxp.length < 6) return null;
+
+  const headView = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const numGlyphs = new DataView(maxp.buffer, maxp.byteOffset, maxp.byteLength).getUint16(4);
+  const longOffsets = headView.getInt16(50) === 1;
+  const locaView = new DataView(loca.buffer, loca.byteOffset, loca.byteLength);
+  const glyphOffset = (gid: number) => (longOffsets ? locaView.getUint32(gid * 4) : locaView.getUint16(gid * 2) * 2);
+  if (loca.length < (numGlyphs + 1) * (longOffsets ? 4 : 2)) return null;
+
+  const glyphData = (gid: number) => glyf.subarray(glyphOffset(gid), glyphOffset(gid + 1));
+
+  // Close over composite glyph components
+  const keep = new Set<number>([0]);
+  const pending = [...usedGlyphs].filter((gid) => gid < numGlyphs);
+  while (pending.length > 0) {
+    const gid = pending.pop()!;
+    if (keep.has(gid) && gid !== 0) continue;
+    keep.add(gid);
+
+    const data = glyphData(gid);
+    if (data.length < 10) continue;
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (view.getInt16(0) >= 0) continue;
+
+    let offset = 10;
+    let flags = 0x20;
+    while (flags & 0x20 && offset + 4 <= data.length) {
+      flags = view.getUint16(offset);
+      const component = view.getUint16(offset + 2);
+      if (component < numGlyphs && !keep.has(component)) pending.push(component);
+      offset += 4 + (flags & 0x0001 ? 4 : 2);
+      offset += flags & 0x0008 ? 2 : flags & 0x0040 ? 4 : flags & 0x0080 ? 8 : 0;
+    }
+  }
+
+  const newGlyf: number[] = [];
+  const newLoca = new DataView(new ArrayBuffer((numGlyphs + 1) * 4));
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    newLoca.setUint32(gid * 4, newGlyf.length);
+    if (keep.has(gid)) {
+      newGlyf.push(...glyphData(gid));
+      while (newGlyf.length % 4 !== 0) newGlyf.push(0);
+    }
+  }
+  newLoca.setUint32(numGlyphs * 4, newGlyf.length);
+
+  const newHead = head.slice();
+  const newHeadView = new DataView(newHead.buffer);
+  newHeadView.setUint32(8, 0);
+  newHeadView.setInt16(50, 1);
+
+  return writeFont(
+    tables
+      .filter((t) => RENDERING_TABLES.has(t.tag))
+      .map((t) => {
+        if (t.tag === 'head') return { tag: t.tag, data: newHead };
+        if (t.tag === 'loca') return { tag: t.tag, data: new Uint8Array(newLoca.buffer) };
+        if (t.tag === 'glyf') return { tag: t.tag, data: Uint8Array.from(newGlyf) };
+        return t;
+      })
+      .sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0))
+  );
+}
+
+const isSubsetName = (value: unknown): boolean =>
+  value instanceof PDFName && /^[A-Z]{6}\+/.test(value.decodeText());
+
+function subsetTag(glyphs: Set<number>): string {
+  let hash = 0x811c9dc5;
+  for (const gid of [...glyphs].sort((a, b) => a - b)) {
+    hash = Math.imul(hash ^ gid, 0x01000193);
+  }
+  let tag = '';
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + ((hash >>> 0) % 26));
+    hash = Math.floor((hash >>> 0) / 26);
+  }
+  return tag;
+}
+
+/**
+ * Subsets embedded TrueType programs of composite fonts (Identity-H/V
+ * encoded, as written by pdf-lib and most office exporters) to the glyphs
+ * the document shows. Fonts that are already subset or that form fields
+ * may type with are left alone. Returns the number of font programs
+ * subset.
+ */
+export function subsetEmbeddedFonts(pdfDoc: PDFLibDocument): number {
+  const { context, catalog } = pdfDoc;
+
+  const formFonts = new Set<PDFDict>();
+  const formResources = catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)?.lookupMaybe(PDFName.of('DR'), PDFDict);
+  for (const value of formResources?.lookupMaybe(PDFName.of('Font'), PDFDict)?.values() ?? []) {
+    const font = context.lookup(value);
+    if (font instanceof PDFDict) formFonts.add(font);
+  }
+
+  // Glyphs used per font program; a program shared by several fonts gets their union
+  const programs = new Map<PDFStream, { glyphs: Set<number>; fonts: Set<PDFDict>; excluded: boolean }>();
+  const metricsCache = new Map<PDFDict, ReturnType<typeof getFontMetrics>>();
+
+  walkDocumentContent(pdfDoc, {
+    text(font, bytes) {
+      if (font.lookup(PDFName.of('Subtype')) !== PDFName.of('Type0')) return;
+      const encoding = font.lookup(PDFName.of('Encoding'));
+      if (encoding !== PDFName.of('Identity-H') && encoding !== PDFName.of('Identity-V')) return;
+
+      const cidFont = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict);
+      if (cidFont?.lookup(PDFName.of('Subtype')) !== PDFName.of('CIDFontType2')) return;
+      const program = cidFont.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)?.lookup(PDFName.of('FontFile2'));
+      if (!(program instanceof PDFStream)) return;
+
+      const entry = programs.get(program) ?? { glyphs: new Set(), fonts: new Set(), excluded: false };
+      programs.set(program, entry);
+      entry.fonts.add(font);
+      if (formFonts.has(font) || isSubsetName(font.lookup(PDFName.of('BaseFont')))) {
+        entry.excluded = true;
+        return;
+      }
+
+      const cidToGid = cidFont.lookup(PDFName.of('CIDToGIDMap'));
+      const map = cidToGid instanceof PDFStream ? decodeStreamData(cidToGid) : null;
+      if (cidToGid instanceof PDFStream && !map) {
+        entry.excluded = true;
+        return;
+      }
+
+      if (!metricsCache.has(font)) metricsCache.set(font, getFontMetrics(font));
+      for (const cid of splitCharCodes(bytes, metricsCache.get(font)!)) {
+        entry.glyphs.add(map ? ((map[cid * 2] ?? 0) << 8) | (map[cid * 2 + 1] ?? 0) : cid);
+      }
+    },
+  });
+
+  // Form fonts that are never shown still need their program intact
+  for (const font of formFonts) {
+    const cidFont = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict);
+    const program = cidFont?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict)?.lookup(PDFName.of('FontFile2'));
+    const entry = program instanceof PDFStream ? programs.get(program) : undefined;
+    if (entry) entry.excluded = true;
+  }
+
+  let subset = 0;
+  for (const [program, { glyphs, fonts, excluded }] of programs) {
+    const ref = context.getObjectRef(program);
+    const data = decodeStreamData(program);
+    if (excluded || !ref || !data) continue;
+
+    const stripped = stripUnusedGlyphs(data, glyphs);
+    if (!stripped || stripped.length >= data.length) continue;
+
+    context.assign(ref, context.flateStream(stripped, { Length1: stripped.length }));
+
+    const tag = subsetTag(glyphs);
+    const rename = (dict: PDFDict | undefined, key: string) => {
+      const value = dict?.lookup(PDFName.of(key));
+      if (dict && value instanceof PDFName && !isSubsetName(value)) dict.set(PDFName.of(key), PDFName.of(`${tag}+${value.decodeText()}`));
+    };
+    for (const font of fonts) {
+      const cidFont = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict);
+      rename(font, 'BaseFont');
+      rename(cidFont, 'BaseFont');
+      rename(cidFont?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict), 'FontName');
+    }
+    subset++;
+  }
+  return subset;
+}
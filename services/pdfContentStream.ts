@@ -0,0 +1,950 @@
+// ============================================
+// LUMINA PDF CONTENT STREAM
+// Low-level content stream parsing, object graph and font
+// helpers used by the pdf-lib based operations in pdfService
+// ============================================
+
+import {
+  PDFArray,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFHexString,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import type { PDFContext } from 'pdf-lib';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ContentOperand =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'string'; bytes: Uint8Array; hex: boolean }
+  | { type: 'array'; items: ContentOperand[] }
+  | { type: 'dict'; entries: Array<[string, ContentOperand]> }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'null' };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentOperand[];
+  /** Raw sample data for inline images (BI ... ID ... EI) */
+  inlineImageData?: Uint8Array;
+}
+
+/** Affine transform [a b c d e f] as used by the `cm` and `Tm` operators */
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Box {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isWhitespace = (byte: number | undefined): boolean =>
+  byte !== undefined && WHITESPACE.has(byte);
+
+const isRegular = (byte: number | undefined): boolean =>
+  byte !== undefined && !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+
+type Token =
+  | ContentOperand
+  | { type: 'operator'; value: string }
+  | { type: 'arrayStart' }
+  | { type: 'arrayEnd' }
+  | { type: 'dictStart' }
+  | { type: 'dictEnd' };
+
+class ContentTokenizer {
+  pos = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done(): boolean {
+    this.skipWhitespaceAndComments();
+    return this.pos >= this.bytes.length;
+  }
+
+  private skipWhitespaceAndComments(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos]!;
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  next(): Token | null {
+    this.skipWhitespaceAndComments();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) return null;
+
+    const byte = bytes[this.pos]!;
+
+    if (byte === 0x28) return this.readLiteralString();
+    if (byte === 0x3c) {
+      if (bytes[this.pos + 1] === 0x3c) {
+        this.pos += 2;
+        return { type: 'dictStart' };
+      }
+      return this.readHexString();
+    }
+    if (byte === 0x3e && bytes[this.pos + 1] === 0x3e) {
+      this.pos += 2;
+      return { type: 'dictEnd' };
+    }
+    if (byte === 0x5b) {
+      this.pos++;
+      return { type: 'arrayStart' };
+    }
+    if (byte === 0x5d) {
+      this.pos++;
+      return { type: 'arrayEnd' };
+    }
+    if (byte === 0x2f) return this.readName();
+
+    // Stray delimiter - skip it rather than looping forever
+    if (!isRegular(byte)) {
+      this.pos++;
+      return this.next();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) this.pos++;
+    const word = latin1(bytes.subarray(start, this.pos));
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: 'number', value: parseFloat(word) };
+    }
+    if (word === 'true' || word === 'false') return { type: 'boolean', value: word === 'true' };
+    if (word === 'null') return { type: 'null' };
+    return { type: 'operator', value: word };
+  }
+
+  private readName(): ContentOperand {
+    const { bytes } = this;
+    this.pos++; // skip '/'
+    let name = '';
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) {
+      const byte = bytes[this.pos]!;
+      if (byte === 0x23 && this.pos + 2 < bytes.length) {
+        const hex = latin1(bytes.subarray(this.pos + 1, this.pos + 3));
+        if (/^[0-9a-fA-F]{2}$/.test(hex)) {
+          name += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 3;
+          continue;
+        }
+      }
+      name += String.fromCharCode(byte);
+      this.pos++;
+    }
+    return { type: 'name', value: name };
+  }
+
+  private readLiteralString(): ContentOperand {
+    const { bytes } = this;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++; // skip '('
+
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++]!;
+      if (byte === 0x5c) {
+        const escaped = bytes[this.pos++];
+        if (escaped === undefined) break;
+        switch (escaped) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d:
+            // Line continuation (\r or \r\n)
+            if (bytes[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (escaped >= 0x30 && escaped <= 0x37) {
+              let octal = escaped - 0x30;
+              for (let i = 0; i < 2; i++) {
+                const digit = bytes[this.pos];
+                if (digit === undefined || digit < 0x30 || digit > 0x37) break;
+                octal = octal * 8 + (digit - 0x30);
+                this.pos++;
+              }
+              out.push(octal & 0xff);
+            } else {
+              out.push(escaped);
+            }
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        out.push(byte);
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) break;
+        out.push(byte);
+      } else {
+        out.push(byte);
+      }
+    }
+
+    return { type: 'string', bytes: Uint8Array.from(out), hex: false };
+  }
+
+  private readHexString(): ContentOperand {
+    const { bytes } = this;
+    this.pos++; // skip '<'
+    let hex = '';
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const char = String.fromCharCode(bytes[this.pos]!);
+      if (/[0-9a-fA-F]/.test(char)) hex += char;
+      this.pos++;
+    }
+    this.pos++; // skip '>'
+    if (hex.length % 2 === 1) hex += '0';
+    const out = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return { type: 'string', bytes: out, hex: true };
+  }
+
+  /**
+   * Reads inline image data following the ID operator. The data ends at the
+   * first "EI" that is surrounded by whitespace.
+   */
+  readInlineImageData(): Uint8Array {
+    const { bytes } = this;
+    // Exactly one whitespace byte separates ID from the data
+    if (isWhitespace(bytes[this.pos])) this.pos++;
+    const start = this.pos;
+
+    while (this.pos < bytes.length) {
+      if (
+        bytes[this.pos] === 0x45 &&
+        bytes[this.pos + 1] === 0x49 &&
+        isWhitespace(bytes[this.pos - 1]) &&
+        (this.pos + 2 >= bytes.length || isWhitespace(bytes[this.pos + 2]))
+      ) {
+        const data = bytes.slice(start, this.pos - 1);
+        this.pos += 2;
+        return data;
+      }
+      this.pos++;
+    }
+
+    return bytes.slice(start);
+  }
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parses a decoded content stream into a flat list of operations.
+ * Inline images are returned as a single `BI` operation whose operands hold
+ * the image dictionary and whose `inlineImageData` holds the samples.
+ */
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const tokenizer = new ContentTokenizer(bytes);
+  const operations: ContentOperation[] = [];
+  const stack: ContentOperand[] = [];
+  const containers: Array<{ kind: 'array' | 'dict'; items: ContentOperand[] }> = [];
+
+  const push = (operand: ContentOperand) => {
+    const container = containers[containers.length - 1];
+    if (container) {
+      container.items.push(operand);
+    } else {
+      stack.push(operand);
+    }
+  };
+
+  while (!tokenizer.done) {
+    const token = tokenizer.next();
+    if (!token) break;
+
+    switch (token.type) {
+      case 'arrayStart':
+        containers.push({ kind: 'array', items: [] });
+        break;
+      case 'dictStart':
+        containers.push({ kind: 'dict', items: [] });
+        break;
+      case 'arrayEnd':
+      case 'dictEnd': {
+        const container = containers.pop();
+        if (!container) break;
+        push(
+          container.kind === 'array'
+            ? { type: 'array', items: container.items }
+            : { type: 'dict', entries: pairEntries(container.items) }
+        );
+        break;
+      }
+      case 'operator':
+        if (containers.length > 0) {
+          // Operators never appear inside arrays; treat as a malformed token
+          break;
+        }
+        if (token.value === 'BI') {
+          const dictItems: ContentOperand[] = [];
+          while (!tokenizer.done) {
+            const inner = tokenizer.next();
+            if (!inner) break;
+            if (inner.type === 'operator' && inner.value === 'ID') break;
+            if (inner.type === 'operator' || inner.type === 'arrayEnd' || inner.type === 'dictEnd') continue;
+            if (inner.type === 'arrayStart' || inner.type === 'dictStart') {
+              // Decode arrays (e.g. /D [1 0]) are read item by item below
+              const items: ContentOperand[] = [];
+              let next = tokenizer.next();
+              while (next && next.type !== 'arrayEnd' && next.type !== 'dictEnd') {
+                if (next.type !== 'operator' && next.type !== 'arrayStart' && next.type !== 'dictStart') {
+                  items.push(next);
+                }
+                next = tokenizer.next();
+              }
+              dictItems.push({ type: 'array', items });
+              continue;
+            }
+            dictItems.push(inner);
+          }
+          const data = tokenizer.readInlineImageData();
+          operations.push({
+            operator: 'BI',
+            operands: [{ type: 'dict', entries: pairEntries(dictItems) }],
+            inlineImageData: data,
+          });
+          stack.length = 0;
+          break;
+        }
+        operations.push({ operator: token.value, operands: stack.splice(0) });
+        break;
+      default:
+        push(token);
+    }
+  }
+
+  return operations;
+}
+
+function pairEntries(items: ContentOperand[]): Array<[string, ContentOperand]> {
+  const entries: Array<[string, ContentOperand]> = [];
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    const key = items[i]!;
+    if (key.type === 'name') entries.push([key.value, items[i + 1]!]);
+  }
+  return entries;
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+export function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return '0';
+  if (Number.isInteger(value)) return String(value);
+  const fixed = value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+  return fixed === '-0' ? '0' : fixed;
+}
+
+function escapeName(name: string): string {
+  let out = '';
+  for (const char of name) {
+    const code = char.charCodeAt(0);
+    if (code < 0x21 || code > 0x7e || DELIMITERS.has(code) || code === 0x23) {
+      out += `#${code.toString(16).padStart(2, '0')}`;
+    } else {
+      out += char;
+    }
+  }
+  return `/${out}`;
+}
+
+function writeOperand(operand: ContentOperand): string {
+  switch (operand.type) {
+    case 'number':
+      return formatNumber(operand.value);
+    case 'name':
+      return escapeName(operand.value);
+    case 'boolean':
+      return operand.value ? 'true' : 'false';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `[${operand.items.map(writeOperand).join(' ')}]`;
+    case 'dict':
+      return `<<${operand.entries.map(([key, value]) => `${escapeName(key)} ${writeOperand(value)}`).join(' ')}>>`;
+    case 'string':
+      if (operand.hex) {
+        return `<${Array.from(operand.bytes, (b) => b.toString(16).padStart(2, '0')).join('')}>`;
+      }
+      return `(${Array.from(operand.bytes, (b) => {
+        if (b === 0x28 || b === 0x29 || b === 0x5c) return `\\${String.fromCharCode(b)}`;
+        if (b < 0x20 || b > 0x7e) return `\\${b.toString(8).padStart(3, '0')}`;
+        return String.fromCharCode(b);
+      }).join('')})`;
+  }
+}
+
+/**
+ * Serializes operations back into content stream bytes.
+ */
+export function serializeContentStream(operations: ContentOperation[]): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let text = '';
+
+  const flushText = () => {
+    if (text) {
+      chunks.push(fromLatin1(text));
+      text = '';
+    }
+  };
+
+  for (const op of operations) {
+    if (op.operator === 'BI') {
+      const dict = op.operands[0];
+      const entries = dict?.type === 'dict' ? dict.entries : [];
+      text += `BI ${entries.map(([key, value]) => `${escapeName(key)} ${writeOperand(value)}`).join(' ')} ID `;
+      flushText();
+      chunks.push(op.inlineImageData ?? new Uint8Array(0));
+      text += '\nEI\n';
+      continue;
+    }
+    const operands = op.operands.map(writeOperand).join(' ');
+    text += operands ? `${operands} ${op.operator}\n` : `${op.operator}\n`;
+  }
+  flushText();
+
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// ============================================
+// OPERAND HELPERS
+// ============================================
+
+export const num = (value: number): ContentOperand => ({ type: 'number', value });
+export const name = (value: string): ContentOperand => ({ type: 'name', value });
+
+export function operandNumber(operand: ContentOperand | undefined, fallback = 0): number {
+  return operand?.type === 'number' ? operand.value : fallback;
+}
+
+export function operandName(operand: ContentOperand | undefined): string | undefined {
+  return operand?.type === 'name' ? operand.value : undefined;
+}
+
+export function dictEntry(operand: ContentOperand | undefined, ...keys: string[]): ContentOperand | undefined {
+  if (operand?.type !== 'dict') return undefined;
+  for (const key of keys) {
+    const entry = operand.entries.find(([k]) => k === key);
+    if (entry) return entry[1];
+  }
+  return undefined;
+}
+
+// ============================================
+// GEOMETRY
+// ============================================
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Returns m1 × m2 (apply m1 first, then m2) */
+export function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+export function invertMatrix(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+export function transformPoint(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+/** Axis-aligned bounding box of a rectangle after transformation */
+export function transformBox(m: Matrix, box: Box): Box {
+  const corners = [
+    transformPoint(m, box.x1, box.y1),
+    transformPoint(m, box.x2, box.y1),
+    transformPoint(m, box.x1, box.y2),
+    transformPoint(m, box.x2, box.y2),
+  ];
+  const xs = corners.map((c) => c[0]);
+  const ys = corners.map((c) => c[1]);
+  return {
+    x1: Math.min(...xs),
+    y1: Math.min(...ys),
+    x2: Math.max(...xs),
+    y2: Math.max(...ys),
+  };
+}
+
+export function boxesIntersect(a: Box, b: Box): boolean {
+  return a.x1 < b.x2 && a.x2 > b.x1 && a.y1 < b.y2 && a.y2 > b.y1;
+}
+
+export function extendBox(box: Box | null, x: number, y: number): Box {
+  if (!box) return { x1: x, y1: y, x2: x, y2: y };
+  return {
+    x1: Math.min(box.x1, x),
+    y1: Math.min(box.y1, y),
+    x2: Math.max(box.x2, x),
+    y2: Math.max(box.y2, y),
+  };
+}
+
+// ============================================
+// STREAM DECODING
+// ============================================
+
+/**
+ * Decodes a stream's data, including PNG and TIFF predictors which
+ * pdf-lib's decoder does not undo. Returns null for filters that cannot be
+ * decoded in the browser without a codec (DCT, JPX, JBIG2, CCITT).
+ */
+export function decodeStreamData(stream: PDFStream): Uint8Array | null {
+  if (!(stream instanceof PDFRawStream)) {
+    return stream.getContents();
+  }
+
+  const filters = getFilterNames(stream.dict);
+  if (filters.some((f) => !DECODABLE_FILTERS.has(f))) return null;
+
+  let data: Uint8Array;
+  try {
+    data = filters.length > 0 ? decodePDFRawStream(stream).decode() : stream.contents;
+  } catch {
+    return null;
+  }
+
+  const parms = stream.dict.lookup(PDFName.of('DecodeParms'));
+  const parmsDict =
+    parms instanceof PDFDict
+      ? parms
+      : parms instanceof PDFArray
+        ? parms.lookupMaybe(parms.size() - 1, PDFDict)
+        : undefined;
+
+  if (parmsDict) {
+    const predictor = lookupNumber(parmsDict, 'Predictor') ?? 1;
+    if (predictor > 1) {
+      return undoPredictor(data, predictor, {
+        colors: lookupNumber(parmsDict, 'Colors') ?? 1,
+        bitsPerComponent: lookupNumber(parmsDict, 'BitsPerComponent') ?? 8,
+        columns: lookupNumber(parmsDict, 'Columns') ?? 1,
+      });
+    }
+  }
+
+  return data;
+}
+
+const DECODABLE_FILTERS = new Set([
+  'FlateDecode',
+  'LZWDecode',
+  'ASCII85Decode',
+  'ASCIIHexDecode',
+  'RunLengthDecode',
+]);
+
+export function getFilterNames(dict: PDFDict): string[] {
+  const filter = dict.lookup(PDFName.of('Filter'));
+  if (filter instanceof PDFName) return [filter.decodeText()];
+  if (filter instanceof PDFArray) {
+    return filter.asArray().map((f) => (f instanceof PDFName ? f.decodeText() : ''));
+  }
+  return [];
+}
+
+function undoPredictor(
+  data: Uint8Array,
+  predictor: number,
+  { colors, bitsPerComponent, columns }: { colors: number; bitsPerComponent: number; columns: number }
+): Uint8Array {
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  if (predictor === 2) {
+    // TIFF predictor (8-bit components only)
+    const out = data.slice();
+    if (bitsPerComponent !== 8) return out;
+    for (let row = 0; row * rowLength < out.length; row++) {
+      const start = row * rowLength;
+      for (let i = bytesPerPixel; i < rowLength && start + i < out.length; i++) {
+        out[start + i] = (out[start + i]! + out[start + i - bytesPerPixel]!) & 0xff;
+      }
+    }
+    return out;
+  }
+
+  // PNG predictors: each row is prefixed with a filter-type byte
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+  let prev = new Uint8Array(rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filterType = data[row * (rowLength + 1)]!;
+    const src = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+    const cur = out.subarray(row * rowLength, (row + 1) * rowLength);
+
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? cur[i - bytesPerPixel]! : 0;
+      const up = prev[i]!;
+      const upLeft = i >= bytesPerPixel ? prev[i - bytesPerPixel]! : 0;
+      let value = src[i]!;
+      switch (filterType) {
+        case 1: value += left; break;
+        case 2: value += up; break;
+        case 3: value += Math.floor((left + up) / 2); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value += pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+          break;
+        }
+      }
+      cur[i] = value & 0xff;
+    }
+    prev = cur;
+  }
+
+  return out;
+}
+
+/**
+ * Returns the decoded, concatenated content of a page or form `Contents`
+ * entry (a single stream or an array of streams).
+ */
+export function readContentStreams(contents: unknown): Uint8Array {
+  const streams: PDFStream[] = [];
+  if (contents instanceof PDFStream) {
+    streams.push(contents);
+  } else if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) {
+      const stream = contents.lookup(i);
+      if (stream instanceof PDFStream) streams.push(stream);
+    }
+  }
+
+  const parts = streams.map((stream) => decodeStreamData(stream) ?? new Uint8Array(0));
+  const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+    out[offset++] = 0x0a;
+  }
+  return out;
+}
+
+// ============================================
+// FONT METRICS
+// ============================================
+
+export interface FontMetrics {
+  /** Number of bytes per character code in shown strings */
+  bytesPerCode: 1 | 2;
+  /** Glyph advance width in thousandths of text space units */
+  widthOf(code: number): number;
+  /** Best-effort Unicode text for a character code */
+  toUnicode(code: number): string;
+}
+
+const STANDARD_FONT_NAMES = new Set<string>(Object.values(StandardFonts));
+
+/**
+ * Builds width and Unicode lookups for a font dictionary. Simple fonts use
+ * /Widths (falling back to the standard 14 metrics), composite fonts use the
+ * descendant's /W array and a 2-byte encoding.
+ */
+export function getFontMetrics(font: PDFDict | undefined): FontMetrics {
+  if (!font) {
+    return { bytesPerCode: 1, widthOf: () => 500, toUnicode: (code) => String.fromCharCode(code) };
+  }
+
+  const unicodeMap = parseToUnicode(font.lookup(PDFName.of('ToUnicode')));
+  const subtype = font.lookup(PDFName.of('Subtype'));
+
+  if (subtype === PDFName.of('Type0')) {
+    const descendants = font.lookup(PDFName.of('DescendantFonts'));
+    const descendant = descendants instanceof PDFArray ? descendants.lookupMaybe(0, PDFDict) : undefined;
+    const defaultWidth = (descendant && lookupNumber(descendant, 'DW')) ?? 1000;
+    const widths = parseCIDWidths(descendant?.lookup(PDFName.of('W')));
+    return {
+      bytesPerCode: 2,
+      widthOf: (code) => widths.get(code) ?? defaultWidth,
+      toUnicode: (code) => unicodeMap.get(code) ?? '',
+    };
+  }
+
+  const firstChar = lookupNumber(font, 'FirstChar') ?? 0;
+  const widthsArray = font.lookup(PDFName.of('Widths'));
+  const descriptor = font.lookup(PDFName.of('FontDescriptor'));
+  const missingWidth = (descriptor instanceof PDFDict && lookupNumber(descriptor, 'MissingWidth')) || 0;
+
+  // Type3 glyph widths are in glyph space, scaled by /FontMatrix
+  let widthScale = 1;
+  const fontMatrix = font.lookup(PDFName.of('FontMatrix'));
+  if (subtype === PDFName.of('Type3') && fontMatrix instanceof PDFArray) {
+    const a = fontMatrix.lookup(0);
+    if (a instanceof PDFNumber) widthScale = a.asNumber() * 1000;
+  }
+
+  let standardEmbedder: StandardFontEmbedder | undefined;
+  const baseFont = font.lookup(PDFName.of('BaseFont'));
+  if (!(widthsArray instanceof PDFArray) && baseFont instanceof PDFName) {
+    const fontName = baseFont.decodeText().replace(/^[A-Z]{6}\+/, '');
+    if (STANDARD_FONT_NAMES.has(fontName)) {
+      standardEmbedder = StandardFontEmbedder.for(
+        fontName as unknown as Parameters<typeof StandardFontEmbedder.for>[0]
+      );
+    }
+  }
+
+  return {
+    bytesPerCode: 1,
+    widthOf: (code) => {
+      if (widthsArray instanceof PDFArray) {
+        const width = widthsArray.lookup(code - firstChar);
+        return width instanceof PDFNumber ? width.asNumber() * widthScale : missingWidth || 500;
+      }
+      if (standardEmbedder) {
+        try {
+          return standardEmbedder.widthOfTextAtSize(String.fromCharCode(code), 1000);
+        } catch {
+          return 500;
+        }
+      }
+      return missingWidth || 500;
+    },
+    toUnicode: (code) => unicodeMap.get(code) ?? String.fromCharCode(code),
+  };
+}
+
+function parseCIDWidths(w: unknown): Map<number, number> {
+  const widths = new Map<number, number>();
+  if (!(w instanceof PDFArray)) return widths;
+
+  const items = w.asArray().map((_, i) => w.lookup(i));
+  let i = 0;
+  while (i < items.length) {
+    const first = items[i];
+    const second = items[i + 1];
+    if (!(first instanceof PDFNumber)) break;
+
+    if (second instanceof PDFArray) {
+      const start = first.asNumber();
+      for (let j = 0; j < second.size(); j++) {
+        const width = second.lookup(j);
+        if (width instanceof PDFNumber) widths.set(start + j, width.asNumber());
+      }
+      i += 2;
+    } else if (second instanceof PDFNumber && items[i + 2] instanceof PDFNumber) {
+      const width = (items[i + 2] as PDFNumber).asNumber();
+      for (let cid = first.asNumber(); cid <= second.asNumber(); cid++) {
+        widths.set(cid, width);
+      }
+      i += 3;
+    } else {
+      break;
+    }
+  }
+
+  return widths;
+}
+
+function parseToUnicode(stream: unknown): Map<number, string> {
+  const map = new Map<number, string>();
+  if (!(stream instanceof PDFStream)) return map;
+
+  const data = decodeStreamData(stream);
+  if (!data) return map;
+  const text = latin1(data);
+
+  const hexToString = (hex: string): string => {
+    if (hex.length === 2) return String.fromCharCode(parseInt(hex, 16));
+    let out = '';
+    for (let i = 0; i + 4 <= hex.length; i += 4) {
+      out += String.fromCharCode(parseInt(hex.substr(i, 4), 16));
+    }
+    return out;
+  };
+
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(entry[1]!, 16), hexToString(entry[2]!));
+    }
+  }
+
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const body = block[1]!;
+    const rangeRe = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<([0-9a-fA-F]*)>|\[([^\]]*)\])/g;
+    for (const entry of body.matchAll(rangeRe)) {
+      const start = parseInt(entry[1]!, 16);
+      const end = parseInt(entry[2]!, 16);
+      if (entry[4] !== undefined) {
+        const base = hexToString(entry[4]);
+        const lastCode = base.charCodeAt(base.length - 1);
+        for (let code = start; code <= end && code - start < 65536; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(lastCode + (code - start)));
+        }
+      } else if (entry[5] !== undefined) {
+        const values = [...entry[5].matchAll(/<([0-9a-fA-F]*)>/g)].map((m) => hexToString(m[1]!));
+        values.forEach((value, offset) => map.set(start + offset, value));
+      }
+    }
+  }
+
+  return map;
+}
+
+/** Splits shown string bytes into character codes for the given font */
+export function splitCharCodes(bytes: Uint8Array, metrics: FontMetrics): number[] {
+  const codes: number[] = [];
+  if (metrics.bytesPerCode === 2) {
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+      codes.push((bytes[i]! << 8) | bytes[i + 1]!);
+    }
+  } else {
+    bytes.forEach((byte) => codes.push(byte));
+  }
+  return codes;
+}
+
+export function encodeCharCodes(codes: number[], metrics: FontMetrics): Uint8Array {
+  if (metrics.bytesPerCode === 2) {
+    const out = new Uint8Array(codes.length * 2);
+    codes.forEach((code, i) => {
+      out[i * 2] = (code >> 8) & 0xff;
+      out[i * 2 + 1] = code & 0xff;
+    });
+    return out;
+  }
+  return Uint8Array.from(codes);
+}
+
+// ============================================
+// OBJECT GRAPH
+// ============================================
+
+/**
+ * Deletes every indirect object that is no longer reachable from the
+ * trailer. pdf-lib writes all objects in its context on save, so replaced
+ * content streams and images would otherwise survive in the output.
+ * Returns the number of objects removed.
+ */
+export function removeUnreachableObjects(context: PDFContext): number {
+  const reachable = new Set<string>();
+  const pending: unknown[] = [
+    context.trailerInfo.Root,
+    context.trailerInfo.Info,
+    context.trailerInfo.Encrypt,
+  ];
+
+  while (pending.length > 0) {
+    const value = pending.pop();
+    if (value instanceof PDFRef) {
+      const key = value.toString();
+      if (reachable.has(key)) continue;
+      reachable.add(key);
+      pending.push(context.lookup(value));
+    } else if (value instanceof PDFDict) {
+      pending.push(...value.values());
+    } else if (value instanceof PDFArray) {
+      pending.push(...value.asArray());
+    } else if (value instanceof PDFStream) {
+      pending.push(...value.dict.values());
+    }
+  }
+
+  let removed = 0;
+  for (const [ref] of context.enumerateIndirectObjects()) {
+    if (!reachable.has(ref.toString())) {
+      context.delete(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+// ============================================
+// MISC
+// ============================================
+
+export function lookupNumber(dict: PDFDict, key: string): number | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+/** Decodes a PDF text string object (literal or hex) to a JS string */
+export function decodePDFText(value: unknown): string | undefined {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return value.decodeText();
+  }
+  return undefined;
+}
+
+export function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]!);
+  return out;
+}
+
+export function fromLatin1(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0xff;
+  return out;
+}
@@ -0,0 +1,718 @@
+// ============================================
+// LUMINA PDF SECURITY
+// Standard security handler (ISO 32000) key derivation and
+// object encryption/decryption: RC4 40-bit (R2), AES-128 (R4), AES-256 (R6)
+// ============================================
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+} from 'pdf-lib';
+import type { PDFContext, PDFObject } from 'pdf-lib';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PDFEncryptionAlgorithm = 'rc4-40' | 'aes-128' | 'aes-256';
+
+export interface PDFPermissionFlags {
+  printing?: boolean;
+  /** Allows faithful (high-resolution) printing; otherwise printing is degraded */
+  printingHighQuality?: boolean;
+  copying?: boolean;
+  modifying?: boolean;
+  annotating?: boolean;
+  fillingForms?: boolean;
+  contentAccessibility?: boolean;
+  documentAssembly?: boolean;
+}
+
+export interface SecurityHandler {
+  /** Entries of the /Encrypt dictionary */
+  encryptDict: Record<string, PDFObject>;
+  /** Encrypts a string or stream belonging to the given object */
+  encrypt(data: Uint8Array, objectNumber: number, generation: number): Promise<Uint8Array>;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PASSWORD_PADDING = Uint8Array.from([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+]);
+
+const AES_SALT = Uint8Array.from([0x73, 0x41, 0x6c, 0x54]); // "sAlT"
+
+// ============================================
+// PERMISSIONS
+// ============================================
+
+/**
+ * Builds the /P value. Bits 1-2 must be 0, bits 7-8 and 13-32 must be 1;
+ * bits 9-12 only exist for revision 3 and later.
+ */
+export function encodePermissions(flags: PDFPermissionFlags, revision: number): number {
+  const allowed = (value: boolean | undefined) => value !== false;
+  let p = 0xfffff0c0;
+
+  if (allowed(flags.printing)) p |= 1 << 2;
+  if (allowed(flags.modifying)) p |= 1 << 3;
+  if (allowed(flags.copying)) p |= 1 << 4;
+  if (allowed(flags.annotating)) p |= 1 << 5;
+
+  if (revision >= 3) {
+    if (allowed(flags.fillingForms)) p |= 1 << 8;
+    if (allowed(flags.contentAccessibility)) p |= 1 << 9;
+    if (allowed(flags.documentAssembly)) p |= 1 << 10;
+    if (allowed(flags.printing) && allowed(flags.printingHighQuality)) p |= 1 << 11;
+  } else {
+    p |= 0xf00;
+  }
+
+  return p | 0; // signed 32-bit, as stored in the file
+}
+
+export function decodePermissions(p: number): Required<PDFPermissionFlags> {
+  const bit = (n: number) => (p & (1 << (n - 1))) !== 0;
+  return {
+    printing: bit(3),
+    printingHighQuality: bit(3) && bit(12),
+    modifying: bit(4),
+    copying: bit(5),
+    annotating: bit(6),
+    fillingForms: bit(6) || bit(9),
+    contentAccessibility: bit(10),
+    documentAssembly: bit(11),
+  };
+}
+
+// ============================================
+// PRIMITIVES
+// ============================================
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function randomBytes(length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  crypto.getRandomValues(out);
+  return out;
+}
+
+function int32LE(value: number): Uint8Array {
+  return Uint8Array.from([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff]);
+}
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+/** MD5 digest (not available in WebCrypto, required by revisions 2-4) */
+export function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = (((data.length + 8) >> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(data);
+  buffer[data.length] = 0x80;
+  const bitLength = data.length * 8;
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 2 ** 32), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89 | 0;
+  let c0 = 0x98badcfe | 0;
+  let d0 = 0x10325476;
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const temp = d;
+      d = c;
+      c = b;
+      const sum = (a + f + MD5_CONSTANTS[i]! + view.getInt32(chunk + g * 4, true)) | 0;
+      const shift = MD5_SHIFTS[i]!;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+      a = temp;
+    }
+
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  return concatBytes(int32LE(a0), int32LE(b0), int32LE(c0), int32LE(d0));
+}
+
+/** RC4 stream cipher (encryption and decryption are the same operation) */
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const s = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) s[i] = i;
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i]! + key[i % key.length]!) & 0xff;
+    [s[i], s[j]] = [s[j]!, s[i]!];
+  }
+
+  const out = new Uint8Array(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + s[i]!) & 0xff;
+    [s[i], s[j]] = [s[j]!, s[i]!];
+    out[n] = data[n]! ^ s[(s[i]! + s[j]!) & 0xff]!;
+  }
+  return out;
+}
+
+async function sha(algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+}
+
+/**
+ * AES-CBC encryption. WebCrypto always applies PKCS#7 padding; for
+ * unpadded input (a multiple of 16 bytes) the padding block is dropped,
+ * which leaves the preceding ciphertext blocks unchanged.
+ */
+async function aesCbcEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  padding = true
+): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, ['encrypt']);
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource)
+  );
+  return padding ? encrypted : encrypted.subarray(0, data.length);
+}
+
+/**
+ * AES-CBC decryption. For unpadded input a block that decrypts to a full
+ * padding block is appended first, so WebCrypto's padding check passes.
+ */
+async function aesCbcDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  padding = true
+): Promise<Uint8Array> {
+  let input = data;
+  if (!padding) {
+    const previous = data.length > 0 ? data.subarray(data.length - 16) : iv;
+    const paddingBlock = await aesCbcEncrypt(key, previous, new Uint8Array(16).fill(16), false);
+    input = concatBytes(data, paddingBlock);
+  }
+  const cryptoKey = await crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, ['decrypt']);
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, input as BufferSource)
+  );
+}
+
+// ============================================
+// KEY DERIVATION - REVISIONS 2-4
+// ============================================
+
+function padPassword(password: string): Uint8Array {
+  // Revisions 2-4 use PDFDocEncoding; Latin-1 covers the common range
+  const bytes = Uint8Array.from(Array.from(password.slice(0, 32), (c) => c.charCodeAt(0) & 0xff));
+  return concatBytes(bytes, PASSWORD_PADDING.subarray(0, 32 - bytes.length));
+}
+
+function computeOwnerKey(ownerPassword: string, revision: number, keyLength: number): Uint8Array {
+  let hash = md5(padPassword(ownerPassword));
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash);
+  }
+  return hash.subarray(0, keyLength);
+}
+
+function computeOwnerValue(ownerPassword: string, userPassword: string, revision: number, keyLength: number): Uint8Array {
+  const key = computeOwnerKey(ownerPassword || userPassword, revision, keyLength);
+
+  let value = rc4(key, padPassword(userPassword));
+  if (revision >= 3) {
+    for (let i = 1; i <= 19; i++) {
+      value = rc4(key.map((b) => b ^ i), value);
+    }
+  }
+  return value;
+}
+
+function computeFileKey(
+  paddedUserPassword: Uint8Array,
+  ownerValue: Uint8Array,
+  permissions: number,
+  documentId: Uint8Array,
+  revision: number,
+  keyLength: number,
+  encryptMetadata = true
+): Uint8Array {
+  let hash = md5(
+    concatBytes(
+      paddedUserPassword,
+      ownerValue,
+      int32LE(permissions),
+      documentId,
+      revision >= 4 && !encryptMetadata ? Uint8Array.from([0xff, 0xff, 0xff, 0xff]) : new Uint8Array(0)
+    )
+  );
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) hash = md5(hash.subarray(0, keyLength));
+  }
+  return hash.slice(0, keyLength);
+}
+
+/** Algorithm 1: per-object key for revisions 2-4 */
+function computeObjectKey(fileKey: Uint8Array, objectNumber: number, generation: number, aes: boolean): Uint8Array {
+  return md5(
+    concatBytes(
+      fileKey,
+      Uint8Array.from([objectNumber & 0xff, (objectNumber >> 8) & 0xff, (objectNumber >> 16) & 0xff]),
+      Uint8Array.from([generation & 0xff, (generation >> 8) & 0xff]),
+      aes ? AES_SALT : new Uint8Array(0)
+    )
+  ).subarray(0, Math.min(fileKey.length + 5, 16));
+}
+
+function computeUserValue(fileKey: Uint8Array, documentId: Uint8Array, revision: number): Uint8Array {
+  if (revision === 2) return rc4(fileKey, PASSWORD_PADDING);
+
+  let value = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, documentId)));
+  for (let i = 1; i <= 19; i++) {
+    value = rc4(fileKey.map((b) => b ^ i), value);
+  }
+  return concatBytes(value, new Uint8Array(16));
+}
+
+// ============================================
+// KEY DERIVATION - REVISION 6
+// ============================================
+
+function encodePasswordR6(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC')).subarray(0, 127);
+}
+
+/** Algorithm 2.B: the iterated SHA-2 hash used by revision 6 */
+async function hashR6(password: Uint8Array, salt: Uint8Array, userKey: Uint8Array): Promise<Uint8Array> {
+  let k = await sha('SHA-256', concatBytes(password, salt, userKey));
+  let e = new Uint8Array(0);
+
+  for (let round = 0; round < 64 || e[e.length - 1]! > round - 32; round++) {
+    const block = concatBytes(password, k, userKey);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+
+    e = await aesCbcEncrypt(k.subarray(0, 16), k.subarray(16, 32), k1, false);
+
+    const remainder = e.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    k = await sha(remainder === 0 ? 'SHA-256' : remainder === 1 ? 'SHA-384' : 'SHA-512', e);
+  }
+
+  return k.subarray(0, 32);
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+const hex = (bytes: Uint8Array) => PDFHexString.of(Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(''));
+
+/**
+ * Creates a standard security handler for the given passwords. An empty
+ * user password opens without a prompt but still enforces permissions; a
+ * missing owner password is replaced by a random one so the permissions
+ * can't be lifted by opening with the user password.
+ */
+export async function createSecurityHandler(
+  context: PDFContext,
+  options: {
+    algorithm: PDFEncryptionAlgorithm;
+    userPassword: string;
+    ownerPassword?: string;
+    permissions: PDFPermissionFlags;
+    documentId: Uint8Array;
+  }
+): Promise<SecurityHandler> {
+  const { algorithm, userPassword, documentId } = options;
+  const ownerPassword =
+    options.ownerPassword || Array.from(randomBytes(16), (b) => b.toString(16).padStart(2, '0')).join('');
+
+  if (algorithm === 'aes-256') {
+    const revision = 6;
+    const p = encodePermissions(options.permissions, revision);
+    const fileKey = randomBytes(32);
+    const user = encodePasswordR6(userPassword);
+    const owner = encodePasswordR6(ownerPassword);
+
+    const userValidationSalt = randomBytes(8);
+    const userKeySalt = randomBytes(8);
+    const u = concatBytes(await hashR6(user, userValidationSalt, new Uint8Array(0)), userValidationSalt, userKeySalt);
+    const ue = await aesCbcEncrypt(await hashR6(user, userKeySalt, new Uint8Array(0)), new Uint8Array(16), fileKey, false);
+
+    const ownerValidationSalt = randomBytes(8);
+    const ownerKeySalt = randomBytes(8);
+    const o = concatBytes(await hashR6(owner, ownerValidationSalt, u), ownerValidationSalt, ownerKeySalt);
+    const oe = await aesCbcEncrypt(await hashR6(owner, ownerKeySalt, u), new Uint8Array(16), fileKey, false);
+
+    const permsBlock = concatBytes(
+      int32LE(p),
+      Uint8Array.from([0xff, 0xff, 0xff, 0xff, 0x54, 0x61, 0x64, 0x62]), // "Tadb": metadata encrypted
+      randomBytes(4)
+    );
+    const perms = await aesCbcEncrypt(fileKey, new Uint8Array(16), permsBlock, false);
+
+    return {
+      encryptDict: {
+        Filter: PDFName.of('Standard'),
+        V: context.obj(5),
+        R: context.obj(revision),
+        Length: context.obj(256),
+        CF: context.obj({ StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: 32 } }),
+        StmF: PDFName.of('StdCF'),
+        StrF: PDFName.of('StdCF'),
+        O: hex(o),
+        U: hex(u),
+        OE: hex(oe),
+        UE: hex(ue),
+        Perms: hex(perms),
+        P: context.obj(p),
+      },
+      encrypt: async (data) => {
+        const iv = randomBytes(16);
+        return concatBytes(iv, await aesCbcEncrypt(fileKey, iv, data));
+      },
+    };
+  }
+
+  const revision = algorithm === 'aes-128' ? 4 : 2;
+  const keyLength = algorithm === 'aes-128' ? 16 : 5;
+  const p = encodePermissions(options.permissions, revision);
+  const o = computeOwnerValue(ownerPassword, userPassword, revision, keyLength);
+  const fileKey = computeFileKey(padPassword(userPassword), o, p, documentId, revision, keyLength);
+  const u = computeUserValue(fileKey, documentId, revision);
+
+  const objectKey = (objectNumber: number, generation: number) =>
+    computeObjectKey(fileKey, objectNumber, generation, algorithm === 'aes-128');
+
+  if (algorithm === 'aes-128') {
+    return {
+      encryptDict: {
+        Filter: PDFName.of('Standard'),
+        V: context.obj(4),
+        R: context.obj(revision),
+        Length: context.obj(128),
+        CF: context.obj({ StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV2', Length: 16 } }),
+        StmF: PDFName.of('StdCF'),
+        StrF: PDFName.of('StdCF'),
+        O: hex(o),
+        U: hex(u),
+        P: context.obj(p),
+      },
+      encrypt: async (data, objectNumber, generation) => {
+        const iv = randomBytes(16);
+        return concatBytes(iv, await aesCbcEncrypt(objectKey(objectNumber, generation), iv, data));
+      },
+    };
+  }
+
+  return {
+    encryptDict: {
+      Filter: PDFName.of('Standard'),
+      V: context.obj(1),
+      R: context.obj(revision),
+      O: hex(o),
+      U: hex(u),
+      P: context.obj(p),
+    },
+    encrypt: (data, objectNumber, generation) =>
+      Promise.resolve(rc4(objectKey(objectNumber, generation), data)),
+  };
+}
+
+// ============================================
+// DOCUMENT ENCRYPTION
+// ============================================
+
+async function encryptValue(
+  value: PDFObject,
+  handler: SecurityHandler,
+  ref: PDFRef
+): Promise<PDFObject> {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return hex(await handler.encrypt(value.asBytes(), ref.objectNumber, ref.generationNumber));
+  }
+  if (value instanceof PDFArray) {
+    for (let i = 0; i < value.size(); i++) {
+      value.set(i, await encryptValue(value.get(i), handler, ref));
+    }
+  } else if (value instanceof PDFDict) {
+    await encryptDictStrings(value, handler, ref);
+  }
+  return value;
+}
+
+async function encryptDictStrings(dict: PDFDict, handler: SecurityHandler, ref: PDFRef): Promise<void> {
+  for (const [key, value] of dict.entries()) {
+    dict.set(key, await encryptValue(value, handler, ref));
+  }
+}
+
+/**
+ * Encrypts every string and stream in the document in place and installs
+ * the /Encrypt dictionary and file identifier in the trailer. The document
+ * must be saved without object streams afterwards, since objects inside an
+ * object stream are not encrypted individually.
+ */
+export async function encryptDocumentObjects(
+  context: PDFContext,
+  handler: SecurityHandler,
+  documentId: Uint8Array
+): Promise<void> {
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      const type = object.dict.lookup(PDFName.of('Type'));
+      if (type === PDFName.of('XRef')) continue;
+
+      await encryptDictStrings(object.dict, handler, ref);
+      const encrypted = await handler.encrypt(object.getContents(), ref.objectNumber, ref.generationNumber);
+      context.assign(ref, PDFRawStream.of(object.dict, encrypted));
+    } else if (object instanceof PDFDict || object instanceof PDFArray) {
+      await encryptValue(object, handler, ref);
+    } else if (object instanceof PDFString || object instanceof PDFHexString) {
+      context.assign(ref, await encryptValue(object, handler, ref));
+    }
+  }
+
+  context.trailerInfo.Encrypt = context.register(context.obj(handler.encryptDict));
+  context.trailerInfo.ID = context.obj([hex(documentId), hex(documentId)]);
+}
+
+/** Reads the first element of the trailer /ID array, if present */
+export function getDocumentId(context: PDFContext): Uint8Array | undefined {
+  const id = context.trailerInfo.ID;
+  if (id instanceof PDFArray) {
+    const first = id.lookup(0);
+    if (first instanceof PDFHexString || first instanceof PDFString) return first.asBytes();
+  }
+  return undefined;
+}
+
+// ============================================
+// DOCUMENT DECRYPTION
+// ============================================
+
+type CryptMethod = 'none' | 'rc4' | 'aes-128' | 'aes-256';
+
+interface DecryptionHandler {
+  decryptString(data: Uint8Array, objectNumber: number, generation: number): Promise<Uint8Array>;
+  decryptStream(data: Uint8Array, objectNumber: number, generation: number): Promise<Uint8Array>;
+  encryptMetadata: boolean;
+}
+
+const bytesEqual = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+function stringBytes(dict: PDFDict, key: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : new Uint8Array(0);
+}
+
+function numberEntry(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+}
+
+function getCryptMethod(encrypt: PDFDict, filterKey: 'StmF' | 'StrF', version: number): CryptMethod {
+  if (version < 4) return 'rc4';
+
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'none';
+
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookupMaybe(filterName, PDFDict) : undefined;
+  const method = filter?.lookup(PDFName.of('CFM'));
+  if (method === PDFName.of('AESV2')) return 'aes-128';
+  if (method === PDFName.of('AESV3')) return 'aes-256';
+  if (method === PDFName.of('V2')) return 'rc4';
+  return 'none';
+}
+
+/** Algorithm 2.A: authenticates a revision 5/6 password and unwraps the file key */
+async function openFileKeyR6(encrypt: PDFDict, password: string, revision: number): Promise<Uint8Array | null> {
+  const pw = encodePasswordR6(password);
+  const o = stringBytes(encrypt, 'O');
+  const u = stringBytes(encrypt, 'U');
+  const hash = (salt: Uint8Array, userKey: Uint8Array) =>
+    revision === 5 ? sha('SHA-256', concatBytes(pw, salt, userKey)) : hashR6(pw, salt, userKey);
+
+  const userKey = u.subarray(0, 48);
+  if (bytesEqual(await hash(o.subarray(32, 40), userKey), o.subarray(0, 32))) {
+    const key = await hash(o.subarray(40, 48), userKey);
+    return aesCbcDecrypt(key, new Uint8Array(16), stringBytes(encrypt, 'OE'), false);
+  }
+  if (bytesEqual(await hash(u.subarray(32, 40), new Uint8Array(0)), u.subarray(0, 32))) {
+    const key = await hash(u.subarray(40, 48), new Uint8Array(0));
+    return aesCbcDecrypt(key, new Uint8Array(16), stringBytes(encrypt, 'UE'), false);
+  }
+  return null;
+}
+
+/** Algorithms 6 and 7: tries the password as the user password, then as the owner password */
+function openFileKeyR4(encrypt: PDFDict, password: string, documentId: Uint8Array, revision: number): Uint8Array | null {
+  const keyLength = revision === 2 ? 5 : numberEntry(encrypt, 'Length', 40) / 8;
+  const o = stringBytes(encrypt, 'O').subarray(0, 32);
+  const u = stringBytes(encrypt, 'U');
+  const p = numberEntry(encrypt, 'P', -1);
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+
+  const tryUserPassword = (padded: Uint8Array) => {
+    const fileKey = computeFileKey(padded, o, p, documentId, revision, keyLength, encryptMetadata);
+    const expected = computeUserValue(fileKey, documentId, revision);
+    const length = revision === 2 ? 32 : 16;
+    return bytesEqual(expected.subarray(0, length), u.subarray(0, length)) ? fileKey : null;
+  };
+
+  const userKey = tryUserPassword(padPassword(password));
+  if (userKey) return userKey;
+
+  const ownerKey = computeOwnerKey(password, revision, keyLength);
+  let paddedUser = o;
+  if (revision === 2) {
+    paddedUser = rc4(ownerKey, o);
+  } else {
+    for (let i = 19; i >= 0; i--) {
+      paddedUser = rc4(ownerKey.map((b) => b ^ i), paddedUser);
+    }
+  }
+  return tryUserPassword(paddedUser);
+}
+
+async function openSecurityHandler(
+  encrypt: PDFDict,
+  password: string,
+  documentId: Uint8Array
+): Promise<DecryptionHandler> {
+  if (encrypt.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('Unsupported security handler');
+  }
+
+  const version = numberEntry(encrypt, 'V', 0);
+  const revision = numberEntry(encrypt, 'R', 2);
+  const fileKey =
+    revision >= 5
+      ? await openFileKeyR6(encrypt, password, revision)
+      : openFileKeyR4(encrypt, password, documentId, revision);
+  if (!fileKey) {
+    throw new Error('Incorrect password');
+  }
+
+  const decryptWith = (method: CryptMethod) => async (data: Uint8Array, objectNumber: number, generation: number) => {
+    if (method === 'none') return data;
+    if (method === 'rc4') return rc4(computeObjectKey(fileKey, objectNumber, generation, false), data);
+    // Empty strings may be written as a bare initialization vector
+    if (data.length < 32) return new Uint8Array(0);
+    const key = method === 'aes-256' ? fileKey : computeObjectKey(fileKey, objectNumber, generation, true);
+    return aesCbcDecrypt(key, data.subarray(0, 16), data.subarray(16));
+  };
+
+  return {
+    decryptString: decryptWith(getCryptMethod(encrypt, 'StrF', version)),
+    decryptStream: decryptWith(getCryptMethod(encrypt, 'StmF', version)),
+    encryptMetadata: encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False,
+  };
+}
+
+async function decryptValue(
+  value: PDFObject,
+  handler: DecryptionHandler,
+  ref: PDFRef
+): Promise<PDFObject> {
+  if (value instanceof PDFString || value instanceof PDFHexString) {
+    return hex(await handler.decryptString(value.asBytes(), ref.objectNumber, ref.generationNumber));
+  }
+  if (value instanceof PDFArray) {
+    for (let i = 0; i < value.size(); i++) {
+      value.set(i, await decryptValue(value.get(i), handler, ref));
+    }
+  } else if (value instanceof PDFDict) {
+    for (const [key, entry] of value.entries()) {
+      value.set(key, await decryptValue(entry, handler, ref));
+    }
+  }
+  return value;
+}
+
+/**
+ * Decrypts every string and stream in place and removes /Encrypt from the
+ * trailer. The document must have been loaded with `ignoreEncryption`.
+ * Objects stored in compressed object streams are parsed by pdf-lib before
+ * they can be decrypted, so such files are only partially recoverable.
+ */
+export async function decryptDocumentObjects(context: PDFContext, password = ''): Promise<void> {
+  const encryptRef = context.trailerInfo.Encrypt;
+  const encrypt = encryptRef ? context.lookup(encryptRef) : undefined;
+  if (!(encrypt instanceof PDFDict)) return;
+
+  const handler = await openSecurityHandler(encrypt, password, getDocumentId(context) ?? new Uint8Array(0));
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef || object === encrypt) continue;
+
+    if (object instanceof PDFStream) {
+      const type = object.dict.lookup(PDFName.of('Type'));
+      if (type === PDFName.of('XRef')) continue;
+
+      await decryptValue(object.dict, handler, ref);
+      if (type === PDFName.of('Metadata') && !handler.encryptMetadata) continue;
+
+      const decrypted = await handler.decryptStream(object.getContents(), ref.objectNumber, ref.generationNumber);
+      context.assign(ref, PDFRawStream.of(object.dict, decrypted));
+    } else if (object instanceof PDFDict || object instanceof PDFArray) {
+      await decryptValue(object, handler, ref);
+    } else if (object instanceof PDFString || object instanceof PDFHexString) {
+      context.assign(ref, await decryptValue(object, handler, ref));
+    }
+  }
+
+  delete context.trailerInfo.Encrypt;
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+}
@@ -4,7 +4,62 @@
 // ============================================
 
 // pdf-lib is imported statically (smaller, works well with bundlers)
-import { PDFDocument as PDFLibDocument, StandardFonts, rgb, degrees } from 'pdf-lib';
+import {
+  PDFDocument as PDFLibDocument,
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  StandardFonts,
+  rgb,
+  degrees,
+} from 'pdf-lib';
+import {
+  IDENTITY_MATRIX,
+  boxesIntersect,
+  decodePDFText,
+  decodeStreamData,
+  encodeCharCodes,
+  extendBox,
+  getFilterNames,
+  getFontMetrics,
+  invertMatrix,
+  lookupNumber,
+  multiplyMatrix,
+  num,
+  operandName,
+  operandNumber,
+  parseContentStream,
+  readContentStreams,
+  removeUnreachableObjects,
+  serializeContentStream,
+  splitCharCodes,
+  transformBox,
+  transformPoint,
+} from './pdfContentStream';
+import type { Box, ContentOperand, ContentOperation, FontMetrics, Matrix } from './pdfContentStream';
+import {
+  createSecurityHandler,
+  decodePermissions,
+  decryptDocumentObjects,
+  encryptDocumentObjects,
+  getDocumentId,
+  randomBytes,
+} from './pdfSecurity';
+import type { PDFEncryptionAlgorithm, PDFPermissionFlags } from './pdfSecurity';
+import { convertToPDFA } from './pdfArchive';
+import {
+  createCanvasImageCodec,
+  deduplicateObjects,
+  optimizeImages,
+  subsetEmbeddedFonts,
+} from './pdfCompression';
+import type { ImageCodec } from './pdfCompression';
+import type { PDFALevel } from './pdfArchive';
 
 // pdfjs-dist is loaded dynamically (larger, needs worker configuration)
 // Use Vite's ?url import for the worker to handle bundling correctly
@@ -33,10 +88,15 @@ import type {
 // DOCUMENT LOADING
 // ============================================
 
-export async function loadPDF(source: File | string | ArrayBuffer): Promise<{
+export async function loadPDF(
+  source: File | string | ArrayBuffer,
+  options: { password?: string } = {}
+): Promise<{
   proxy: any;
   metadata: PDFMetadata;
   pageCount: number;
+  isEncrypted: boolean;
+  permissions?: Required<PDFPermissionFlags>;
 }> {
   // Ensure pdfjs is loaded
   const pdfjs = await loadPdfjsLib();
@@ -63,7 +123,9 @@ export async function loadPDF(source: File | string | ArrayBuffer): Promise<{
     data = source;
   }
 
-  const loadingTask = pdfjs.getDocument({ data });
+  // pdf.js rejects with a PasswordException when the password is missing
+  // or wrong; see getPasswordErrorReason
+  const loadingTask = pdfjs.getDocument({ data, password: options.password });
   const proxy = await loadingTask.promise;
 
   // Extract metadata
@@ -82,13 +144,32 @@ export async function loadPDF(source: File | string | ArrayBuffer): Promise<{
     version: info?.PDFFormatVersion as string | undefined,
   };
 
+  // pdf.js only reports permissions for documents with an /Encrypt dictionary
+  const permissionFlags = await proxy.getPermissions();
+
   return {
     proxy,
     metadata,
     pageCount: proxy.numPages,
+    isEncrypted: permissionFlags !== null,
+    permissions: permissionFlags
+      ? decodePermissions(permissionFlags.reduce((p, flag) => p | flag, 0))
+      : undefined,
   };
 }
 
+/**
+ * Classifies an error thrown by loadPDF: 'required' when the document needs
+ * a password that wasn't given, 'incorrect' when the given one was wrong.
+ */
+export function getPasswordErrorReason(error: unknown): 'required' | 'incorrect' | null {
+  if (error instanceof Error && error.name === 'PasswordException') {
+    const code = (error as Error & { code?: number }).code;
+    return code === pdfjs.PasswordResponses.INCORRECT_PASSWORD ? 'incorrect' : 'required';
+  }
+  return null;
+}
+
 // ============================================
 // BOOKMARKS / OUTLINE
 // ============================================
@@ -660,6 +741,7 @@ export async function validatePDF(source: File | ArrayBuffer): Promise<{
   error?: string;
   pageCount?: number;
   isEncrypted?: boolean;
+  requiresPassword?: boolean;
 }> {
   try {
     const pdfjs = await loadPdfjsLib();
@@ -670,9 +752,13 @@ export async function validatePDF(source: File | ArrayBuffer): Promise<{
     return {
       isValid: true,
       pageCount: proxy.numPages,
-      isEncrypted: false, // pdf.js handles encrypted PDFs transparently if no password needed
+      // Documents with only an owner password open without a prompt
+      isEncrypted: (await proxy.getPermissions()) !== null,
     };
   } catch (error) {
+    if (getPasswordErrorReason(error)) {
+      return { isValid: true, isEncrypted: true, requiresPassword: true };
+    }
     return {
       isValid: false,
       error: error instanceof Error ? error.message : 'Unknown error validating PDF',
@@ -899,39 +985,153 @@ export async function applyPageChanges(
 }
 
 // ============================================
-// COMPRESSION (Simplified - would need server for full optimization)
+// COMPRESSION
 // ============================================
 
+export type CompressionPreset = 'web' | 'print' | 'archive' | 'custom';
+export type CompressionImageQuality = 'minimum' | 'low' | 'medium' | 'high' | 'maximum';
+
 export interface CompressionOptions {
-  preset?: 'web' | 'print' | 'archive' | 'custom';
+  /** Fills in the options that aren't set; 'custom' (the default) only applies lossless steps */
+  preset?: CompressionPreset;
   removeMetadata?: boolean;
   linearize?: boolean;
+  /** Target resolution in DPI for downsampling */
+  imageResolution?: number;
+  downscaleImages?: boolean;
+  /** Re-encode images as JPEG at imageQuality */
+  compressImages?: boolean;
+  imageQuality?: CompressionImageQuality;
+  convertToGrayscale?: boolean;
+  /** Strip unused glyphs from embedded TrueType fonts */
+  subsetFonts?: boolean;
+  /** JPEG codec; defaults to the browser canvas */
+  imageCodec?: ImageCodec;
+}
+
+export interface CompressionReport {
+  originalSize: number;
+  compressedSize: number;
+  /** compressedSize / originalSize */
+  ratio: number;
+  imagesRecompressed: number;
+  imagesDownsampled: number;
+  /** Images in formats that can't be re-encoded (CMYK, indexed, JPEG 2000, ...) */
+  imagesSkipped: number;
+  imageBytesBefore: number;
+  imageBytesAfter: number;
+  duplicatesRemoved: number;
+  fontsSubset: number;
+  unusedObjectsRemoved: number;
 }
 
+export interface CompressionResult {
+  bytes: Uint8Array;
+  report: CompressionReport;
+}
+
+const JPEG_QUALITY: Record<CompressionImageQuality, number> = {
+  minimum: 0.3,
+  low: 0.5,
+  medium: 0.65,
+  high: 0.8,
+  maximum: 0.92,
+};
+
+export const COMPRESSION_PRESETS: Record<Exclude<CompressionPreset, 'custom'>, CompressionOptions> = {
+  web: {
+    imageResolution: 150,
+    downscaleImages: true,
+    compressImages: true,
+    imageQuality: 'medium',
+    removeMetadata: true,
+    subsetFonts: true,
+  },
+  print: {
+    imageResolution: 300,
+    downscaleImages: true,
+    compressImages: true,
+    imageQuality: 'high',
+    subsetFonts: false,
+  },
+  archive: {
+    imageResolution: 600,
+    downscaleImages: false,
+    compressImages: false,
+    imageQuality: 'maximum',
+    subsetFonts: false,
+  },
+};
+
+/**
+ * Shrinks a document: downsamples and re-encodes images per the preset,
+ * merges identical streams and fonts, subsets embedded fonts and drops
+ * unreachable objects. Linearization is not supported and is ignored.
+ */
 export async function compressPDF(
   pdfBytes: ArrayBuffer,
   options: CompressionOptions = {}
-): Promise<Uint8Array> {
-  // Note: Full image recompression requires server-side processing
-  // This provides basic optimization available in browser
+): Promise<CompressionResult> {
+  const preset = options.preset && options.preset !== 'custom' ? COMPRESSION_PRESETS[options.preset] : {};
+  // Options left undefined fall back to the preset
+  const defined = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as CompressionOptions;
+  const settings: CompressionOptions = { ...preset, ...defined };
+
+  const originalSize = pdfBytes.byteLength;
   const pdfDoc = await PDFLibDocument.load(pdfBytes, {
-    updateMetadata: !options.removeMetadata
+    updateMetadata: !settings.removeMetadata
   });
 
-  if (options.removeMetadata) {
+  if (settings.removeMetadata) {
     pdfDoc.setTitle('');
     pdfDoc.setAuthor('');
     pdfDoc.setSubject('');
     pdfDoc.setKeywords([]);
     pdfDoc.setCreator('');
     pdfDoc.setProducer('Lumina PDF Suite');
+    pdfDoc.catalog.delete(PDFName.of('Metadata'));
   }
 
-  // Save with compression (pdf-lib applies basic compression)
-  return pdfDoc.save({
-    useObjectStreams: true, // Better compression
+  const images =
+    settings.downscaleImages || settings.compressImages || settings.convertToGrayscale
+      ? await optimizeImages(
+          pdfDoc,
+          {
+            targetDPI: settings.downscaleImages ? settings.imageResolution ?? 150 : undefined,
+            jpegQuality: settings.compressImages ? JPEG_QUALITY[settings.imageQuality ?? 'medium'] : undefined,
+            convertToGrayscale: settings.convertToGrayscale,
+          },
+          settings.imageCodec ?? createCanvasImageCodec() ?? undefined
+        )
+      : { recompressed: 0, downsampled: 0, skipped: 0, bytesBefore: 0, bytesAfter: 0 };
+
+  const duplicatesRemoved = deduplicateObjects(pdfDoc.context);
+  const fontsSubset = settings.subsetFonts ? subsetEmbeddedFonts(pdfDoc) : 0;
+  const removed = removeUnreachableObjects(pdfDoc.context);
+
+  const bytes = await pdfDoc.save({
+    useObjectStreams: true,
     addDefaultPage: false,
   });
+
+  return {
+    bytes,
+    report: {
+      originalSize,
+      compressedSize: bytes.length,
+      ratio: originalSize > 0 ? bytes.length / originalSize : 1,
+      imagesRecompressed: images.recompressed,
+      imagesDownsampled: images.downsampled,
+      imagesSkipped: images.skipped,
+      imageBytesBefore: images.bytesBefore,
+      imageBytesAfter: images.bytesAfter,
+      duplicatesRemoved,
+      fontsSubset,
+      unusedObjectsRemoved: Math.max(0, removed - duplicatesRemoved),
+    },
+  };
 }
 
 // ============================================
@@ -941,31 +1141,71 @@ export async function compressPDF(
 export interface EncryptionOptions {
   userPassword?: string;
   ownerPassword?: string;
-  permissions?: {
-    printing?: boolean;
-    copying?: boolean;
-    modifying?: boolean;
-    annotating?: boolean;
-    fillingForms?: boolean;
-    contentAccessibility?: boolean;
-    documentAssembly?: boolean;
-  };
+  /** Defaults to AES-256 */
+  algorithm?: PDFEncryptionAlgorithm;
+  permissions?: PDFPermissionFlags;
 }
 
+/**
+ * Encrypts the document with the standard security handler. Without a user
+ * password the document opens freely but the permission flags still apply;
+ * without an owner password a random one is generated so the restrictions
+ * can't be lifted.
+ */
 export async function encryptPDF(
   pdfBytes: ArrayBuffer,
   options: EncryptionOptions
 ): Promise<Uint8Array> {
-  // Note: pdf-lib doesn't support encryption natively
-  // This is a placeholder that would need a server-side solution
-  // For now, just return the document with metadata noting it should be encrypted
-  const pdfDoc = await PDFLibDocument.load(pdfBytes);
-  pdfDoc.setProducer('Lumina PDF Suite - Security Applied');
+  const pdfDoc = await PDFLibDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  if (pdfDoc.isEncrypted) {
+    throw new Error('PDF is already encrypted');
+  }
 
-  // In production, would use a library like pdf-lib-encrypt or server-side processing
-  console.warn('PDF encryption requires server-side processing for full security');
+  const algorithm = options.algorithm ?? 'aes-256';
+  pdfDoc.setProducer('Lumina PDF Suite');
+  pdfDoc.setModificationDate(new Date());
 
-  return pdfDoc.save();
+  if (algorithm === 'aes-256') {
+    // AES-256 (revision 6) is declared as Adobe extension level 8 of PDF 1.7
+    pdfDoc.catalog.set(
+      PDFName.of('Extensions'),
+      pdfDoc.context.obj({ ADBE: { BaseVersion: '1.7', ExtensionLevel: 8 } })
+    );
+  }
+
+  // Embed pending fonts and images first so they get encrypted as well
+  await pdfDoc.flush();
+
+  const documentId = getDocumentId(pdfDoc.context) ?? randomBytes(16);
+  const handler = await createSecurityHandler(pdfDoc.context, {
+    algorithm,
+    userPassword: options.userPassword ?? '',
+    ownerPassword: options.ownerPassword,
+    permissions: options.permissions ?? {},
+    documentId,
+  });
+  await encryptDocumentObjects(pdfDoc.context, handler, documentId);
+
+  return pdfDoc.save({
+    useObjectStreams: false,
+    addDefaultPage: false,
+    updateFieldAppearances: false,
+  });
+}
+
+/**
+ * Removes the standard security handler. Either the user or the owner
+ * password opens the document; the permission flags are dropped with it.
+ */
+export async function decryptPDF(pdfBytes: ArrayBuffer, password = ''): Promise<Uint8Array> {
+  const pdfDoc = await PDFLibDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  if (!pdfDoc.isEncrypted) {
+    return new Uint8Array(pdfBytes);
+  }
+
+  await decryptDocumentObjects(pdfDoc.context, password);
+
+  return pdfDoc.save({ addDefaultPage: false, updateFieldAppearances: false });
 }
 
 // ============================================
@@ -1129,45 +1369,1022 @@ export async function addWatermark(
 }
 
 // ============================================
-// PDF/A EXPORT (Simplified)
+// PDF/A EXPORT
 // ============================================
 
+/**
+ * Converts a document to PDF/A (2b unless another level is given).
+ * See convertToPDFA in pdfArchive for the conversion report and the
+ * remaining conformance issues.
+ */
 export async function exportAsPDFA(
   pdfBytes: ArrayBuffer,
-  metadata?: Partial<PDFMetadata>
+  metadata?: Partial<PDFMetadata>,
+  level: PDFALevel = '2b'
 ): Promise<Uint8Array> {
-  // Note: Full PDF/A compliance requires specialized processing
-  // This provides a simplified version with required metadata
-  const pdfDoc = await PDFLibDocument.load(pdfBytes);
+  const { bytes } = await convertToPDFA(pdfBytes, {
+    level,
+    metadata: {
+      ...metadata,
+      title: metadata?.title || 'Untitled',
+      author: metadata?.author || 'Lumina PDF Suite',
+    },
+  });
+  return bytes;
+}
 
-  // Set required metadata for PDF/A
-  pdfDoc.setTitle(metadata?.title || 'Untitled');
-  pdfDoc.setAuthor(metadata?.author || 'Lumina PDF Suite');
-  pdfDoc.setSubject(metadata?.subject || '');
-  pdfDoc.setProducer('Lumina PDF Suite');
-  pdfDoc.setCreator('Lumina PDF Suite');
+// ============================================
+// REDACTION
+// ============================================
 
-  return pdfDoc.save();
+export interface RedactionRegion {
+  pageNumber: number;
+  /** Region in screen coordinates at scale 1 (top-left origin), as in RedactionMark */
+  rect: { x: number; y: number; width: number; height: number };
+  fillColor?: string;
+  overlayText?: string;
+}
+
+export interface RedactionOptions {
+  /** Fill used for regions that don't specify their own color */
+  fillColor?: string;
+  /** Extra terms to scrub from metadata, bookmarks and annotations */
+  scrubTerms?: string[];
+  /** Draw a filled box (and overlay text) over each redacted region */
+  drawOverlay?: boolean;
+}
+
+export interface RedactionReport {
+  pagesAffected: number[];
+  glyphsRemoved: number;
+  pathsRemoved: number;
+  imagesScrubbed: number;
+  imagesRemoved: number;
+  annotationsRemoved: number;
+  removedText: string[];
+  metadataFieldsScrubbed: string[];
+  bookmarksScrubbed: number;
+}
+
+interface PageRegion {
+  box: Box;
+  color: { r: number; g: number; b: number };
+}
+
+interface RedactionContext {
+  doc: PDFLibDocument;
+  regions: PageRegion[];
+  report: RedactionReport;
+  removedText: string[];
+  fontCache: Map<PDFDict, FontMetrics>;
+  /** XObject resource entries whose drawing was redirected to a redacted copy */
+  replacedXObjects: Array<{ xObjects: PDFDict; name: PDFName }>;
+}
+
+const UNIT_BOX: Box = { x1: 0, y1: 0, x2: 1, y2: 1 };
+const PATH_OPERATORS = new Set(['m', 'l', 'c', 'v', 'y', 're', 'h']);
+const PAINT_OPERATORS = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n']);
+const REDACTED_PLACEHOLDER = '[REDACTED]';
+
+function hexToRgbUnit(hex: string): { r: number; g: number; b: number } {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value.padEnd(6, '0');
+  return {
+    r: parseInt(full.slice(0, 2), 16) / 255 || 0,
+    g: parseInt(full.slice(2, 4), 16) / 255 || 0,
+    b: parseInt(full.slice(4, 6), 16) / 255 || 0,
+  };
+}
+
+/**
+ * Matrix mapping PDF user space to pdf.js viewport space at scale 1, which is
+ * the coordinate system RedactionMark rects are recorded in.
+ */
+function getViewportMatrix(page: ReturnType<PDFLibDocument['getPages']>[number]): Matrix {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2;
+
+  let [rotateA, rotateB, rotateC, rotateD] = [1, 0, 0, -1];
+  if (rotation === 90) [rotateA, rotateB, rotateC, rotateD] = [0, 1, 1, 0];
+  else if (rotation === 180) [rotateA, rotateB, rotateC, rotateD] = [-1, 0, 0, 1];
+  else if (rotation === 270) [rotateA, rotateB, rotateC, rotateD] = [0, -1, -1, 0];
+
+  const [offsetX, offsetY] = rotateA === 0 ? [height / 2, width / 2] : [width / 2, height / 2];
+
+  return [
+    rotateA,
+    rotateB,
+    rotateC,
+    rotateD,
+    offsetX - rotateA * centerX - rotateC * centerY,
+    offsetY - rotateB * centerX - rotateD * centerY,
+  ];
+}
+
+function intersectingRegions(regions: PageRegion[], box: Box | null): PageRegion[] {
+  if (!box) return [];
+  return regions.filter((region) => boxesIntersect(region.box, box));
+}
+
+function padBox(box: Box, amount: number): Box {
+  return { x1: box.x1 - amount, y1: box.y1 - amount, x2: box.x2 + amount, y2: box.y2 + amount };
+}
+
+function uniqueResourceName(dict: PDFDict, prefix: string): PDFName {
+  let index = 1;
+  while (dict.has(PDFName.of(`${prefix}${index}`))) index++;
+  return PDFName.of(`${prefix}${index}`);
+}
+
+/**
+ * Returns the number of color components of an image color space, or null
+ * when the samples can't be safely overwritten.
+ */
+function getColorComponents(colorSpace: unknown): number | null {
+  if (colorSpace === PDFName.of('DeviceGray') || colorSpace === PDFName.of('CalGray')) return 1;
+  if (colorSpace === PDFName.of('DeviceRGB') || colorSpace === PDFName.of('CalRGB')) return 3;
+  if (colorSpace === PDFName.of('DeviceCMYK')) return 4;
+  if (colorSpace instanceof PDFArray) {
+    const family = colorSpace.lookup(0);
+    if (family === PDFName.of('ICCBased')) {
+      const profile = colorSpace.lookup(1);
+      return profile instanceof PDFStream ? (lookupNumber(profile.dict, 'N') ?? null) : null;
+    }
+    if (family === PDFName.of('Indexed')) return 1;
+    if (family === PDFName.of('CalRGB')) return 3;
+    if (family === PDFName.of('CalGray')) return 1;
+  }
+  return null;
+}
+
+function fillValueFor(components: number, color: PageRegion['color'], indexed: boolean): number[] {
+  if (indexed) return [0];
+  const { r, g, b } = color;
+  if (components === 1) return [Math.round((0.299 * r + 0.587 * g + 0.114 * b) * 255)];
+  if (components === 4) {
+    const k = 1 - Math.max(r, g, b);
+    const d = 1 - k || 1;
+    return [(1 - r - k) / d, (1 - g - k) / d, (1 - b - k) / d, k].map((v) => Math.round(v * 255));
+  }
+  return [r, g, b].map((v) => Math.round(v * 255));
+}
+
+/**
+ * Decodes JPEG image data through the browser's image decoder. Returns RGB
+ * samples, or null when no decoder is available (e.g. in tests).
+ */
+async function decodeJpegSamples(
+  data: Uint8Array
+): Promise<{ samples: Uint8Array; width: number; height: number } | null> {
+  if (typeof createImageBitmap !== 'function' || typeof OffscreenCanvas === 'undefined') {
+    return null;
+  }
+  try {
+    const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: 'image/jpeg' }));
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0);
+    const rgba = context.getImageData(0, 0, bitmap.width, bitmap.height).data;
+    const samples = new Uint8Array(bitmap.width * bitmap.height * 3);
+    for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+      samples[j] = rgba[i]!;
+      samples[j + 1] = rgba[i + 1]!;
+      samples[j + 2] = rgba[i + 2]!;
+    }
+    return { samples, width: bitmap.width, height: bitmap.height };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Overwrites the pixels of an image XObject that fall inside the given
+ * regions and returns a new, Flate-encoded image stream. Returns null when
+ * the image can't be decoded, in which case the caller drops the image.
+ */
+async function scrubImageXObject(
+  image: PDFStream,
+  imageMatrix: Matrix,
+  hits: PageRegion[],
+  ctx: RedactionContext,
+  isSoftMask = false
+): Promise<PDFRawStream | null> {
+  const { dict } = image;
+  const width = lookupNumber(dict, 'Width');
+  const height = lookupNumber(dict, 'Height');
+  const inverse = invertMatrix(imageMatrix);
+  if (!width || !height || !inverse) return null;
+  if (dict.lookup(PDFName.of('ImageMask')) !== undefined && String(dict.lookup(PDFName.of('ImageMask'))) === 'true') {
+    return null;
+  }
+
+  let colorSpace: unknown = dict.lookup(PDFName.of('ColorSpace'));
+  let components = isSoftMask ? 1 : getColorComponents(colorSpace);
+  let bitsPerComponent = lookupNumber(dict, 'BitsPerComponent') ?? 8;
+  let samples = decodeStreamData(image);
+
+  if (!samples) {
+    const filters = getFilterNames(dict);
+    if (filters.length === 1 && filters[0] === 'DCTDecode' && image instanceof PDFRawStream) {
+      const decoded = await decodeJpegSamples(image.contents);
+      if (decoded && decoded.width === width && decoded.height === height) {
+        samples = decoded.samples;
+        components = 3;
+        bitsPerComponent = 8;
+        colorSpace = PDFName.of('DeviceRGB');
+      }
+    }
+  }
+
+  if (!samples || !components || bitsPerComponent !== 8) return null;
+  if (samples.length < width * height * components) return null;
+
+  const indexed = colorSpace instanceof PDFArray && colorSpace.lookup(0) === PDFName.of('Indexed');
+
+  for (const hit of hits) {
+    // Map the region into image space; the image occupies the unit square
+    const unit = transformBox(inverse, hit.box);
+    const col1 = Math.max(0, Math.floor(unit.x1 * width));
+    const col2 = Math.min(width, Math.ceil(unit.x2 * width));
+    const row1 = Math.max(0, Math.floor((1 - unit.y2) * height));
+    const row2 = Math.min(height, Math.ceil((1 - unit.y1) * height));
+    const value = isSoftMask ? [255] : fillValueFor(components, hit.color, indexed);
+
+    for (let row = row1; row < row2; row++) {
+      for (let col = col1; col < col2; col++) {
+        const offset = (row * width + col) * components;
+        for (let c = 0; c < components; c++) {
+          samples[offset + c] = value[c] ?? 0;
+        }
+      }
+    }
+  }
+
+  const scrubbed = ctx.doc.context.flateStream(samples, {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: width,
+    Height: height,
+    BitsPerComponent: 8,
+  });
+  scrubbed.dict.set(PDFName.of('ColorSpace'), (colorSpace ?? PDFName.of('DeviceGray')) as PDFName);
+
+  const decode = dict.get(PDFName.of('Decode'));
+  if (decode && !isSoftMask && colorSpace === dict.lookup(PDFName.of('ColorSpace'))) {
+    scrubbed.dict.set(PDFName.of('Decode'), decode);
+  }
+
+  // An alpha mask would still reveal the silhouette of redacted content
+  const softMask = dict.lookup(PDFName.of('SMask'));
+  if (softMask instanceof PDFStream && !isSoftMask) {
+    const scrubbedMask = await scrubImageXObject(softMask, imageMatrix, hits, ctx, true);
+    if (scrubbedMask) {
+      scrubbed.dict.set(PDFName.of('SMask'), ctx.doc.context.register(scrubbedMask));
+    }
+  }
+
+  return scrubbed;
+}
+
+/**
+ * Walks a content stream, removing glyphs, paths, images and nested form
+ * content that intersect the redaction regions. Removed glyphs are replaced
+ * by TJ spacing so the remaining text keeps its position.
+ */
+async function redactOperations(
+  operations: ContentOperation[],
+  resources: PDFDict | undefined,
+  baseMatrix: Matrix,
+  ctx: RedactionContext
+): Promise<{ operations: ContentOperation[]; changed: boolean }> {
+  const out: ContentOperation[] = [];
+  const stateStack: Matrix[] = [];
+  let ctm = baseMatrix;
+  let changed = false;
+
+  // Path state
+  let path: ContentOperation[] = [];
+  let pathBox: Box | null = null;
+  let pathClips = false;
+  let currentPoint: [number, number] = [0, 0];
+
+  // Text state
+  let textMatrix = IDENTITY_MATRIX;
+  let lineMatrix = IDENTITY_MATRIX;
+  let font = getFontMetrics(undefined);
+  let fontSize = 0;
+  let charSpacing = 0;
+  let wordSpacing = 0;
+  let horizontalScale = 1;
+  let leading = 0;
+  let rise = 0;
+
+  const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+
+  const addPoint = (x: number, y: number) => {
+    const [px, py] = transformPoint(ctm, x, y);
+    pathBox = extendBox(pathBox, px, py);
+  };
+
+  const nextLine = (tx: number, ty: number) => {
+    lineMatrix = multiplyMatrix([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  /**
+   * Positions every glyph of a text-showing operation and rebuilds its
+   * TJ array without the glyphs that fall inside a region.
+   */
+  const showText = (elements: ContentOperand[]): { items: ContentOperand[]; removed: boolean } => {
+    const items: ContentOperand[] = [];
+    let removed = false;
+    let advance = 0;
+    const scale = fontSize * horizontalScale;
+    const renderMatrix = multiplyMatrix(textMatrix, ctm);
+    const yLow = Math.min(rise - 0.25 * fontSize, rise + 0.95 * fontSize);
+    const yHigh = Math.max(rise - 0.25 * fontSize, rise + 0.95 * fontSize);
+
+    const pushAdjustment = (value: number) => {
+      const last = items[items.length - 1];
+      if (last?.type === 'number') {
+        last.value += value;
+      } else {
+        items.push(num(value));
+      }
+    };
+
+    for (const element of elements) {
+      if (element.type === 'number') {
+        advance -= (element.value / 1000) * scale;
+        pushAdjustment(element.value);
+        continue;
+      }
+      if (element.type !== 'string') continue;
+
+      const codes = splitCharCodes(element.bytes, font);
+      let kept: number[] = [];
+      let removedText = '';
+
+      for (const code of codes) {
+        const glyphWidth = (font.widthOf(code) / 1000) * scale;
+        const isSpace = font.bytesPerCode === 1 && code === 32;
+        const glyphAdvance = (glyphWidth / horizontalScale + charSpacing + (isSpace ? wordSpacing : 0)) * horizontalScale;
+        const glyphBox = transformBox(renderMatrix, {
+          x1: advance,
+          y1: yLow,
+          x2: advance + Math.max(glyphWidth, 0.1),
+          y2: yHigh,
+        });
+
+        if (intersectingRegions(ctx.regions, glyphBox).length > 0) {
+          if (kept.length > 0) {
+            items.push({ type: 'string', bytes: encodeCharCodes(kept, font), hex: element.hex });
+            kept = [];
+          }
+          if (scale !== 0) pushAdjustment((-glyphAdvance * 1000) / scale);
+          removedText += font.toUnicode(code);
+          ctx.report.glyphsRemoved++;
+          removed = true;
+        } else {
+          kept.push(code);
+        }
+        advance += glyphAdvance;
+      }
+
+      if (kept.length > 0) {
+        items.push({ type: 'string', bytes: encodeCharCodes(kept, font), hex: element.hex });
+      }
+      if (removedText) ctx.removedText.push(removedText);
+    }
+
+    textMatrix = multiplyMatrix([1, 0, 0, 1, advance, 0], textMatrix);
+    return { items, removed };
+  };
+
+  for (const op of operations) {
+    const { operator, operands } = op;
+    const n = (index: number) => operandNumber(operands[index]);
+
+    if (PATH_OPERATORS.has(operator)) {
+      path.push(op);
+      switch (operator) {
+        case 'm':
+        case 'l':
+          addPoint(n(0), n(1));
+          currentPoint = [n(0), n(1)];
+          break;
+        case 'c':
+          addPoint(n(0), n(1));
+          addPoint(n(2), n(3));
+          addPoint(n(4), n(5));
+          currentPoint = [n(4), n(5)];
+          break;
+        case 'v':
+        case 'y':
+          addPoint(...currentPoint);
+          addPoint(n(0), n(1));
+          addPoint(n(2), n(3));
+          currentPoint = [n(2), n(3)];
+          break;
+        case 're':
+          addPoint(n(0), n(1));
+          addPoint(n(0) + n(2), n(1) + n(3));
+          addPoint(n(0) + n(2), n(1));
+          addPoint(n(0), n(1) + n(3));
+          currentPoint = [n(0), n(1)];
+          break;
+      }
+      continue;
+    }
+
+    if (operator === 'W' || operator === 'W*') {
+      path.push(op);
+      pathClips = true;
+      continue;
+    }
+
+    if (PAINT_OPERATORS.has(operator)) {
+      const painted = pathBox ? padBox(pathBox, 1) : null;
+      if (operator !== 'n' && intersectingRegions(ctx.regions, painted).length > 0) {
+        ctx.report.pathsRemoved++;
+        changed = true;
+        // Keep clipping paths intact so the rest of the page renders unchanged
+        if (pathClips) out.push(...path, { operator: 'n', operands: [] });
+      } else {
+        out.push(...path, op);
+      }
+      path = [];
+      pathBox = null;
+      pathClips = false;
+      continue;
+    }
+
+    switch (operator) {
+      case 'q':
+        stateStack.push(ctm);
+        out.push(op);
+        break;
+
+      case 'Q':
+        ctm = stateStack.pop() ?? baseMatrix;
+        out.push(op);
+        break;
+
+      case 'cm':
+        ctm = multiplyMatrix([n(0), n(1), n(2), n(3), n(4), n(5)], ctm);
+        out.push(op);
+        break;
+
+      case 'BT':
+        textMatrix = IDENTITY_MATRIX;
+        lineMatrix = IDENTITY_MATRIX;
+        out.push(op);
+        break;
+
+      case 'Tf': {
+        const fontName = operandName(operands[0]);
+        const fontDict = fontName ? fonts?.lookupMaybe(PDFName.of(fontName), PDFDict) : undefined;
+        if (fontDict && !ctx.fontCache.has(fontDict)) {
+          ctx.fontCache.set(fontDict, getFontMetrics(fontDict));
+        }
+        font = fontDict ? ctx.fontCache.get(fontDict)! : getFontMetrics(undefined);
+        fontSize = n(1);
+        out.push(op);
+        break;
+      }
+
+      case 'Tc':
+        charSpacing = n(0);
+        out.push(op);
+        break;
+      case 'Tw':
+        wordSpacing = n(0);
+        out.push(op);
+        break;
+      case 'Tz':
+        horizontalScale = n(0) / 100;
+        out.push(op);
+        break;
+      case 'TL':
+        leading = n(0);
+        out.push(op);
+        break;
+      case 'Ts':
+        rise = n(0);
+        out.push(op);
+        break;
+
+      case 'Td':
+        nextLine(n(0), n(1));
+        out.push(op);
+        break;
+      case 'TD':
+        leading = -n(1);
+        nextLine(n(0), n(1));
+        out.push(op);
+        break;
+      case 'Tm':
+        lineMatrix = [n(0), n(1), n(2), n(3), n(4), n(5)];
+        textMatrix = lineMatrix;
+        out.push(op);
+        break;
+      case 'T*':
+        nextLine(0, -leading);
+        out.push(op);
+        break;
+
+      case 'Tj':
+      case 'TJ':
+      case "'":
+      case '"': {
+        const prefix: ContentOperation[] = [];
+        let elements: ContentOperand[];
+
+        if (operator === '"') {
+          wordSpacing = n(0);
+          charSpacing = n(1);
+          prefix.push(
+            { operator: 'Tw', operands: [num(wordSpacing)] },
+            { operator: 'Tc', operands: [num(charSpacing)] }
+          );
+        }
+        if (operator === "'" || operator === '"') {
+          nextLine(0, -leading);
+          prefix.push({ operator: 'T*', operands: [] });
+        }
+
+        const textOperand = operands[operands.length - 1];
+        if (operator === 'TJ') {
+          elements = textOperand?.type === 'array' ? textOperand.items : [];
+        } else {
+          elements = textOperand ? [textOperand] : [];
+        }
+
+        const { items, removed } = showText(elements);
+        if (removed) {
+          changed = true;
+          out.push(...prefix, { operator: 'TJ', operands: [{ type: 'array', items }] });
+        } else {
+          out.push(op);
+        }
+        break;
+      }
+
+      case 'BI': {
+        const imageBox = transformBox(ctm, UNIT_BOX);
+        if (intersectingRegions(ctx.regions, imageBox).length > 0) {
+          ctx.report.imagesRemoved++;
+          changed = true;
+        } else {
+          out.push(op);
+        }
+        break;
+      }
+
+      case 'Do': {
+        const xObjectName = operandName(operands[0]);
+        const xObject = xObjectName ? xObjects?.lookup(PDFName.of(xObjectName)) : undefined;
+        if (!xObjects || !xObjectName || !(xObject instanceof PDFStream)) {
+          out.push(op);
+          break;
+        }
+        const replaced = { xObjects, name: PDFName.of(xObjectName) };
+
+        const subtype = xObject.dict.lookup(PDFName.of('Subtype'));
+
+        if (subtype === PDFName.of('Image')) {
+          const hits = intersectingRegions(ctx.regions, transformBox(ctm, UNIT_BOX));
+          if (hits.length === 0) {
+            out.push(op);
+            break;
+          }
+          changed = true;
+          ctx.replacedXObjects.push(replaced);
+          const scrubbed = await scrubImageXObject(xObject, ctm, hits, ctx);
+          if (scrubbed) {
+            const newName = uniqueResourceName(xObjects, 'RedactedIm');
+            xObjects.set(newName, ctx.doc.context.register(scrubbed));
+            out.push({ operator: 'Do', operands: [{ type: 'name', value: newName.decodeText() }] });
+            ctx.report.imagesScrubbed++;
+          } else {
+            // Undecodable image: removing it is the only way to guarantee the pixels are gone
+            ctx.report.imagesRemoved++;
+          }
+          break;
+        }
+
+        if (subtype === PDFName.of('Form')) {
+          const matrixArray = xObject.dict.lookup(PDFName.of('Matrix'));
+          const formMatrix: Matrix =
+            matrixArray instanceof PDFArray && matrixArray.size() === 6
+              ? (matrixArray.asArray().map((v) => (v instanceof PDFNumber ? v.asNumber() : 0)) as Matrix)
+              : IDENTITY_MATRIX;
+          const formCtm = multiplyMatrix(formMatrix, ctm);
+
+          const bbox = xObject.dict.lookup(PDFName.of('BBox'));
+          const bboxValues =
+            bbox instanceof PDFArray ? bbox.asArray().map((v) => (v instanceof PDFNumber ? v.asNumber() : 0)) : [];
+          const formBox =
+            bboxValues.length === 4
+              ? transformBox(formCtm, {
+                  x1: Math.min(bboxValues[0]!, bboxValues[2]!),
+                  y1: Math.min(bboxValues[1]!, bboxValues[3]!),
+                  x2: Math.max(bboxValues[0]!, bboxValues[2]!),
+                  y2: Math.max(bboxValues[1]!, bboxValues[3]!),
+                })
+              : null;
+
+          const content = decodeStreamData(xObject);
+          if ((formBox && intersectingRegions(ctx.regions, formBox).length === 0) || !content) {
+            out.push(op);
+            break;
+          }
+
+          const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+          const result = await redactOperations(parseContentStream(content), formResources, formCtm, ctx);
+          if (!result.changed) {
+            out.push(op);
+            break;
+          }
+
+          // Forms can be shared between pages, so the redacted copy gets its own name
+          const copy = ctx.doc.context.flateStream(serializeContentStream(result.operations));
+          for (const [key, value] of xObject.dict.entries()) {
+            if (!['Length', 'Filter', 'DecodeParms'].includes(key.decodeText())) {
+              copy.dict.set(key, value);
+            }
+          }
+          const newName = uniqueResourceName(xObjects, 'RedactedFm');
+          xObjects.set(newName, ctx.doc.context.register(copy));
+          out.push({ operator: 'Do', operands: [{ type: 'name', value: newName.decodeText() }] });
+          ctx.replacedXObjects.push(replaced);
+          changed = true;
+          break;
+        }
+
+        out.push(op);
+        break;
+      }
+
+      default:
+        out.push(op);
+    }
+  }
+
+  // Unterminated path construction at the end of the stream paints nothing
+  out.push(...path);
+
+  return { operations: out, changed };
+}
+
+/**
+ * Whether a page or form drawing with the given XObject resources still
+ * names `name`. Resource dictionaries can be shared between pages, so a
+ * replaced image or form is only dropped once nothing draws it. Streams that
+ * can't be decoded count as drawing it.
+ */
+function isXObjectDrawn(doc: PDFLibDocument, xObjects: PDFDict, name: PDFName): boolean {
+  const contents: unknown[] = doc
+    .getPages()
+    .filter((page) => page.node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict) === xObjects)
+    .map((page) => page.node.Contents());
+  for (const [, obj] of doc.context.enumerateIndirectObjects()) {
+    if (
+      obj instanceof PDFStream &&
+      obj.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Form') &&
+      obj.dict.lookupMaybe(PDFName.of('Resources'), PDFDict)?.lookupMaybe(PDFName.of('XObject'), PDFDict) === xObjects
+    ) {
+      if (!decodeStreamData(obj)) return true;
+      contents.push(obj);
+    }
+  }
+
+  return contents.some((content) =>
+    parseContentStream(readContentStreams(content)).some(
+      (op) => op.operator === 'Do' && operandName(op.operands[0]) === name.decodeText()
+    )
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds a function that replaces every scrub term in a string. Terms are
+ * matched case-insensitively; whitespace inside a term matches any run.
+ */
+function createScrubber(terms: string[]): (value: string) => string {
+  const patterns = [...new Set(terms.map((t) => t.trim()).filter((t) => t.length >= 3))]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => new RegExp(escapeRegExp(term).replace(/\s+/g, '\\s+'), 'gi'));
+
+  return (value: string) => patterns.reduce((text, pattern) => text.replace(pattern, REDACTED_PLACEHOLDER), value);
+}
+
+function scrubStringEntries(dict: PDFDict, keys: string[], scrub: (value: string) => string): string[] {
+  const scrubbed: string[] = [];
+  for (const key of keys) {
+    const text = decodePDFText(dict.lookup(PDFName.of(key)));
+    if (text === undefined) continue;
+    const clean = scrub(text);
+    if (clean !== text) {
+      dict.set(PDFName.of(key), PDFHexString.fromText(clean));
+      scrubbed.push(key);
+    }
+  }
+  return scrubbed;
+}
+
+function scrubOutline(item: PDFDict | undefined, scrub: (value: string) => string, seen: Set<PDFDict>): number {
+  let count = 0;
+  while (item && !seen.has(item)) {
+    seen.add(item);
+    count += scrubStringEntries(item, ['Title'], scrub).length;
+    count += scrubOutline(item.lookupMaybe(PDFName.of('First'), PDFDict), scrub, seen);
+    item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+  }
+  return count;
+}
+
+/**
+ * Permanently removes the content inside the given regions: text runs,
+ * image pixels, vector paths, inline images and overlapping annotations.
+ * Removed text (plus any `scrubTerms`) is also scrubbed from the document
+ * info, XMP metadata, bookmarks and remaining annotations. Unreferenced
+ * objects are dropped so the original content doesn't survive in the file.
+ * Encrypted documents are refused.
+ */
+export async function applyRedactions(
+  pdfBytes: ArrayBuffer,
+  regions: RedactionRegion[],
+  options: RedactionOptions = {}
+): Promise<{ bytes: Uint8Array; report: RedactionReport }> {
+  const pdfDoc = await PDFLibDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+  if (pdfDoc.isEncrypted) {
+    // Saving would drop the protection, so the caller has to decide that first
+    throw new Error('Encrypted PDFs cannot be redacted. Remove the password protection first.');
+  }
+  const pages = pdfDoc.getPages();
+  const defaultColor = options.fillColor || '#000000';
+  const drawOverlay = options.drawOverlay ?? true;
+
+  const report: RedactionReport = {
+    pagesAffected: [],
+    glyphsRemoved: 0,
+    pathsRemoved: 0,
+    imagesScrubbed: 0,
+    imagesRemoved: 0,
+    annotationsRemoved: 0,
+    removedText: [],
+    metadataFieldsScrubbed: [],
+    bookmarksScrubbed: 0,
+  };
+
+  const fontCache = new Map<PDFDict, FontMetrics>();
+  const replacedXObjects: RedactionContext['replacedXObjects'] = [];
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  const formFields = acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  const font = drawOverlay && regions.some((r) => r.overlayText)
+    ? await pdfDoc.embedFont(StandardFonts.Helvetica)
+    : undefined;
+
+  const pageNumbers = [...new Set(regions.map((r) => r.pageNumber))].sort((a, b) => a - b);
+
+  for (const pageNumber of pageNumbers) {
+    const page = pages[pageNumber - 1];
+    if (!page) {
+      throw new Error(`Page ${pageNumber} not found`);
+    }
+
+    const toPageSpace = invertMatrix(getViewportMatrix(page));
+    if (!toPageSpace) continue;
+
+    const pageRegions = regions
+      .filter((r) => r.pageNumber === pageNumber && r.rect.width > 0 && r.rect.height > 0)
+      .map((r) => ({
+        source: r,
+        box: transformBox(toPageSpace, {
+          x1: r.rect.x,
+          y1: r.rect.y,
+          x2: r.rect.x + r.rect.width,
+          y2: r.rect.y + r.rect.height,
+        }),
+        color: hexToRgbUnit(r.fillColor || defaultColor),
+      }));
+    if (pageRegions.length === 0) continue;
+
+    const ctx: RedactionContext = {
+      doc: pdfDoc,
+      regions: pageRegions,
+      report,
+      removedText: [],
+      fontCache,
+      replacedXObjects,
+    };
+
+    // Content streams
+    const contents = page.node.Contents();
+    if (contents) {
+      const operations = parseContentStream(readContentStreams(contents));
+      const result = await redactOperations(operations, page.node.Resources(), IDENTITY_MATRIX, ctx);
+      if (result.changed) {
+        const stream = pdfDoc.context.flateStream(serializeContentStream(result.operations));
+        page.node.set(PDFName.of('Contents'), pdfDoc.context.register(stream));
+      }
+    }
+
+    // Annotations (links, comments, form widgets) overlapping a region
+    const annots = page.node.Annots();
+    if (annots) {
+      for (let i = annots.size() - 1; i >= 0; i--) {
+        const annotRef = annots.get(i);
+        const annot = annots.lookupMaybe(i, PDFDict);
+        const rect = annot?.lookupMaybe(PDFName.of('Rect'), PDFArray);
+        if (!rect || rect.size() !== 4) continue;
+        const [x1, y1, x2, y2] = rect.asArray().map((v) => (v instanceof PDFNumber ? v.asNumber() : 0)) as [
+          number,
+          number,
+          number,
+          number,
+        ];
+        const box = { x1: Math.min(x1, x2), y1: Math.min(y1, y2), x2: Math.max(x1, x2), y2: Math.max(y1, y2) };
+        if (intersectingRegions(pageRegions, box).length === 0) continue;
+
+        annots.remove(i);
+        report.annotationsRemoved++;
+        if (formFields && annotRef instanceof PDFRef) {
+          const fieldIndex = formFields.indexOf(annotRef);
+          if (fieldIndex !== undefined) formFields.remove(fieldIndex);
+        }
+      }
+    }
+
+    // Overlay boxes so the redacted areas read as intentionally blacked out
+    if (drawOverlay) {
+      for (const region of pageRegions) {
+        const { box, color } = region;
+        page.drawRectangle({
+          x: box.x1,
+          y: box.y1,
+          width: box.x2 - box.x1,
+          height: box.y2 - box.y1,
+          color: rgb(color.r, color.g, color.b),
+          borderWidth: 0,
+        });
+
+        const overlayText = region.source.overlayText;
+        if (font && overlayText) {
+          const height = box.y2 - box.y1;
+          const width = box.x2 - box.x1;
+          const size = Math.max(4, Math.min(height * 0.7, (width * 0.9 * 1000) / Math.max(1, font.widthOfTextAtSize(overlayText, 1000))));
+          const luminance = 0.299 * color.r + 0.587 * color.g + 0.114 * color.b;
+          page.drawText(overlayText, {
+            x: box.x1 + (width - font.widthOfTextAtSize(overlayText, size)) / 2,
+            y: box.y1 + (height - size) / 2 + size * 0.2,
+            size,
+            font,
+            color: luminance > 0.5 ? rgb(0, 0, 0) : rgb(1, 1, 1),
+          });
+        }
+      }
+    }
+
+    report.pagesAffected.push(pageNumber);
+    report.removedText.push(...ctx.removedText);
+  }
+
+  // The originals of redacted images and forms would otherwise stay in the file
+  for (const { xObjects, name } of replacedXObjects) {
+    if (xObjects.has(name) && !isXObjectDrawn(pdfDoc, xObjects, name)) xObjects.delete(name);
+  }
+
+  // Scrub removed text from document-level strings
+  const removedWords = report.removedText.flatMap((text) => [text, ...text.split(/\s+/)]);
+  const scrub = createScrubber([...removedWords, ...(options.scrubTerms ?? [])]);
+
+  const infoRef = pdfDoc.context.trailerInfo.Info;
+  const info = infoRef ? pdfDoc.context.lookup(infoRef) : undefined;
+  if (info instanceof PDFDict) {
+    report.metadataFieldsScrubbed.push(
+      ...scrubStringEntries(info, ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer'], scrub)
+    );
+  }
+
+  const xmp = pdfDoc.catalog.lookup(PDFName.of('Metadata'));
+  if (xmp instanceof PDFStream) {
+    const data = decodeStreamData(xmp);
+    if (data) {
+      const xml = new TextDecoder().decode(data);
+      const clean = scrub(xml);
+      if (clean !== xml) {
+        const stream = pdfDoc.context.stream(clean, { Type: 'Metadata', Subtype: 'XML' });
+        pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(stream));
+        report.metadataFieldsScrubbed.push('XMP');
+      }
+    } else {
+      // Metadata we can't read could contain anything
+      pdfDoc.catalog.delete(PDFName.of('Metadata'));
+      report.metadataFieldsScrubbed.push('XMP');
+    }
+  }
+
+  const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  report.bookmarksScrubbed = scrubOutline(outlines?.lookupMaybe(PDFName.of('First'), PDFDict), scrub, new Set());
+
+  for (const page of pages) {
+    const annots = page.node.Annots();
+    if (!annots) continue;
+    for (let i = 0; i < annots.size(); i++) {
+      const annot = annots.lookupMaybe(i, PDFDict);
+      if (annot) scrubStringEntries(annot, ['Contents', 'T', 'Subj', 'TU', 'V', 'RC'], scrub);
+    }
+  }
+
+  removeUnreachableObjects(pdfDoc.context);
+
+  return { bytes: await pdfDoc.save(), report };
+}
+
+/**
+ * Confirms redacted output is clean by searching the re-parsed document for
+ * each term. Returns the terms that can still be found, with their pages.
+ */
+export async function verifyRedactions(
+  pdfBytes: ArrayBuffer,
+  terms: string[]
+): Promise<Array<{ term: string; pageNumbers: number[] }>> {
+  const proxy = (await loadPDF(pdfBytes)).proxy as pdfjs.PDFDocumentProxy;
+  const remaining: Array<{ term: string; pageNumbers: number[] }> = [];
+
+  try {
+    for (const term of terms.filter((t) => t.trim())) {
+      const results = await searchText(proxy, term);
+      if (results.length > 0) {
+        remaining.push({ term, pageNumbers: results.map((r) => r.pageNumber) });
+      }
+    }
+  } finally {
+    await proxy.destroy();
+  }
+
+  return remaining;
 }
 
 // ============================================
 // DOCUMENT INFO
 // ============================================
 
-export async function getDocumentInfo(pdfBytes: ArrayBuffer): Promise<{
+export async function getDocumentInfo(
+  pdfBytes: ArrayBuffer,
+  options: { password?: string } = {}
+): Promise<{
   pageCount: number;
   fileSize: number;
   isEncrypted: boolean;
+  permissions?: Required<PDFPermissionFlags>;
   metadata: PDFMetadata;
   pages: Array<{ width: number; height: number; rotation: number }>;
 }> {
-  const pdfDoc = await PDFLibDocument.load(pdfBytes);
+  const pdfDoc = await PDFLibDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+  if (pdfDoc.isEncrypted) {
+    // pdf-lib can't decrypt, so read encrypted documents through pdf.js.
+    // pdf.js takes ownership of the buffer it is given, hence the copy.
+    const { proxy, metadata, permissions } = await loadPDF(pdfBytes.slice(0), options);
+    const document = proxy as pdfjs.PDFDocumentProxy;
+
+    try {
+      const pages: Array<{ width: number; height: number; rotation: number }> = [];
+      for (let i = 1; i <= document.numPages; i++) {
+        const page = await document.getPage(i);
+        const [x1, y1, x2, y2] = page.view;
+        pages.push({ width: x2! - x1!, height: y2! - y1!, rotation: page.rotate });
+      }
+
+      return {
+        pageCount: document.numPages,
+        fileSize: pdfBytes.byteLength,
+        isEncrypted: true,
+        permissions,
+        metadata,
+        pages,
+      };
+    } finally {
+      await document.destroy();
+    }
+  }
+
   const pages = pdfDoc.getPages();
 
   return {
     pageCount: pages.length,
     fileSize: pdfBytes.byteLength,
-    isEncrypted: false, // pdf-lib can't detect this directly
+    isEncrypted: false,
     metadata: {
       title: pdfDoc.getTitle(),
       author: pdfDoc.getAuthor(),
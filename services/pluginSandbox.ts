@@ -0,0 +1,481 @@
+// ============================================================================
+// PLUGIN SYSTEM - SANDBOX
+// ============================================================================
+//
+// Plugins with a script source run in a separate realm (a sandboxed iframe
+// with an opaque origin, or a worker) and reach the app only through the
+// message bridge below. The host answers each call only if the method is
+// still allowed when the call arrives, so revoking a permission takes effect
+// immediately.
+
+import type { PluginHook } from '../types/plugin';
+
+export type SandboxRealm = 'iframe' | 'worker';
+
+export type SandboxMessage =
+  // Realm -> host
+  | { type: 'loaded' }
+  | { type: 'ready'; error?: string }
+  | { type: 'call'; id: number; method: string; args: unknown[] }
+  | { type: 'hook-result'; id: number; value?: unknown; error?: string }
+  // Host -> realm
+  | { type: 'init'; source: string; methods: string[] }
+  | { type: 'permissions'; methods: string[] }
+  | { type: 'result'; id: number; value?: unknown; error?: string }
+  | { type: 'hook'; id: number; hook: PluginHook; args: unknown[] }
+  | { type: 'callback'; callback: number; args: unknown[] };
+
+/**
+ * Host end of the channel to a plugin realm
+ */
+export interface SandboxPort {
+  postMessage: (message: SandboxMessage) => void;
+  onMessage: (handler: (message: SandboxMessage) => void) => void;
+  close: () => void;
+}
+
+/**
+ * Realm end of the channel, handed to pluginRealmRuntime
+ */
+export interface RealmPort {
+  post: (message: SandboxMessage) => void;
+  listen: (handler: (message: SandboxMessage) => void) => void;
+  /** Compiles the plugin script; defaults to the Function constructor */
+  compile?: (source: string) => (scope: unknown) => void;
+}
+
+export type PluginMethodResolver = (method: string) => ((...args: any[]) => unknown) | undefined;
+
+const START_TIMEOUT = 10000;
+const HOOK_TIMEOUT = 30000;
+
+// ============================================================================
+// REALM RUNTIME
+// ============================================================================
+
+/**
+ * Runs inside the plugin realm. It is serialized into the realm bootstrap,
+ * so it must not reference anything outside its own body.
+ *
+ * Plugin scripts register their hooks with `lumina.register({ onInit(api) {...} })`.
+ * Every API method is asynchronous on this side of the bridge.
+ */
+export function pluginRealmRuntime(port: RealmPort): void {
+  const api: Record<string, Record<string, (...args: unknown[]) => Promise<unknown>>> = {};
+  const handlers: Record<string, (...args: unknown[]) => unknown> = {};
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  const callbacks = new Map<number, (...args: unknown[]) => unknown>();
+  const callbackIds = new Map<(...args: unknown[]) => unknown, number>();
+  let nextCall = 0;
+
+  // Functions can't cross the bridge, so they are replaced by callback handles
+  const encode = (value: unknown): unknown => {
+    if (typeof value === 'function') {
+      const fn = value as (...args: unknown[]) => unknown;
+      let id = callbackIds.get(fn);
+      if (id === undefined) {
+        id = callbackIds.size + 1;
+        callbackIds.set(fn, id);
+        callbacks.set(id, fn);
+      }
+      return { __pluginCallback: id };
+    }
+    if (Array.isArray(value)) return value.map(encode);
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const result: Record<string, unknown> = {};
+      for (const key of Object.keys(value)) result[key] = encode((value as Record<string, unknown>)[key]);
+      return result;
+    }
+    return value;
+  };
+
+  const decode = (value: unknown): unknown => {
+    if (value && typeof value === 'object' && '__pluginResponse' in value) {
+      const response = (value as { __pluginResponse: { body: ArrayBuffer; status: number; statusText: string; headers: Array<[string, string]> } }).__pluginResponse;
+      return new Response(response.body, { status: response.status, statusText: response.statusText, headers: response.headers });
+    }
+    return value;
+  };
+
+  const post = (message: SandboxMessage, fallback?: SandboxMessage) => {
+    try {
+      port.post(message);
+    } catch (e) {
+      if (fallback) port.post(fallback);
+      else throw e;
+    }
+  };
+
+  const setMethods = (methods: string[]) => {
+    for (const [namespace, group] of Object.entries(api)) {
+      for (const name of Object.keys(group)) {
+        if (!methods.includes(`${namespace}.${name}`)) delete group[name];
+      }
+    }
+    for (const method of methods) {
+      const dot = method.indexOf('.');
+      const group = api[method.slice(0, dot)] ?? (api[method.slice(0, dot)] = {});
+      group[method.slice(dot + 1)] = (...args: unknown[]) =>
+        new Promise((resolve, reject) => {
+          const id = ++nextCall;
+          pending.set(id, { resolve, reject });
+          port.post({ type: 'call', id, method, args: args.map(encode) });
+        });
+    }
+  };
+
+  const lumina = {
+    register: (hooks: Record<string, (...args: unknown[]) => unknown>) => {
+      Object.assign(handlers, hooks);
+    }
+  };
+
+  const handleMessage = async (message: SandboxMessage) => {
+    switch (message.type) {
+      case 'init':
+        setMethods(message.methods);
+        try {
+          const run = port.compile
+            ? port.compile(message.source)
+            // eslint-disable-next-line @typescript-eslint/no-implied-eval
+            : new Function('lumina', message.source) as (scope: typeof lumina) => void;
+          run(lumina);
+          port.post({ type: 'ready' });
+        } catch (e) {
+          port.post({ type: 'ready', error: e instanceof Error ? e.message : String(e) });
+        }
+        break;
+      case 'permissions':
+        setMethods(message.methods);
+        break;
+      case 'result': {
+        const call = pending.get(message.id);
+        pending.delete(message.id);
+        if (!call) break;
+        if (message.error !== undefined) call.reject(new Error(message.error));
+        else call.resolve(decode(message.value));
+        break;
+      }
+      case 'hook': {
+        const handler = handlers[message.hook];
+        try {
+          const value = handler
+            ? await handler(...(message.hook === 'onInit' ? [api] : message.args))
+            : undefined;
+          post(
+            { type: 'hook-result', id: message.id, value },
+            { type: 'hook-result', id: message.id, error: `${message.hook} returned a value that cannot be transferred` }
+          );
+        } catch (e) {
+          port.post({ type: 'hook-result', id: message.id, error: e instanceof Error ? e.message : String(e) });
+        }
+        break;
+      }
+      case 'callback':
+        try {
+          await callbacks.get(message.callback)?.(...message.args.map(decode));
+        } catch (e) {
+          console.error('Plugin callback error:', e);
+        }
+        break;
+    }
+  };
+
+  port.listen(message => {
+    void handleMessage(message);
+  });
+
+  port.post({ type: 'loaded' });
+}
+
+// ============================================================================
+// REALM TRANSPORTS
+// ============================================================================
+
+// Blocks network and storage access; only the bootstrap and plugin code may run
+const IFRAME_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'";
+
+// Workers share the app's origin, so their network and storage globals are
+// removed before the plugin script runs
+const WORKER_LOCKDOWN = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'importScripts',
+  'RTCPeerConnection', 'webkitRTCPeerConnection',
+  'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker'
+];
+
+/**
+ * Compiles the plugin script in a worker realm, then removes every way of
+ * turning strings into code. A worker started from a blob can't be given its
+ * own CSP, so this is what keeps plugins from loading code with import().
+ * Serialized into the worker bootstrap, like pluginRealmRuntime.
+ */
+export function compileWorkerPlugin(source: string): (scope: unknown) => void {
+  if (/\bimport\s*(?:\(|\/[/*])/.test(source)) {
+    throw new Error('Plugins may not import modules');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  const run = new Function('lumina', source) as (scope: unknown) => void;
+
+  // Every function prototype leads back to a code-generating constructor
+  [
+    Function.prototype,
+    Object.getPrototypeOf(async function () {}) as object,
+    Object.getPrototypeOf(function* () {}) as object,
+    Object.getPrototypeOf(async function* () {}) as object
+  ].forEach(function (prototype) {
+    Object.defineProperty(prototype, 'constructor', { value: undefined, configurable: false });
+  });
+  ['eval', 'Function'].forEach(function (key) {
+    Object.defineProperty(self, key, { value: undefined, configurable: false });
+  });
+  // Timers evaluate string handlers as code
+  (['setTimeout', 'setInterval'] as const).forEach(function (key) {
+    const timer = self[key].bind(self) as (handler: unknown, ...args: unknown[]) => number;
+    Object.defineProperty(self, key, {
+      value: function (handler: unknown, ...args: unknown[]) {
+        if (typeof handler !== 'function') throw new TypeError(`${key} needs a function`);
+        return timer(handler, ...args);
+      },
+      configurable: false
+    });
+  });
+
+  return run;
+}
+
+function createIframePort(): SandboxPort {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.style.display = 'none';
+  iframe.srcdoc = `<!DOCTYPE html><html><head>
+<meta http-equiv="Content-Security-Policy" content="${IFRAME_CSP}">
+<script>(${pluginRealmRuntime.toString()})({
+  post: function (m) { parent.postMessage(m, '*'); },
+  listen: function (h) { addEventListener('message', function (e) { if (e.source === parent) h(e.data); }); }
+});</script></head></html>`;
+
+  let listener: ((event: MessageEvent) => void) | null = null;
+  document.body.appendChild(iframe);
+
+  return {
+    // The realm has an opaque origin, so the target origin can't be narrowed
+    postMessage: (message) => iframe.contentWindow?.postMessage(message, '*'),
+    onMessage: (handler) => {
+      listener = (event: MessageEvent) => {
+        if (event.source === iframe.contentWindow) handler(event.data as SandboxMessage);
+      };
+      window.addEventListener('message', listener);
+    },
+    close: () => {
+      if (listener) window.removeEventListener('message', listener);
+      iframe.remove();
+    }
+  };
+}
+
+function createWorkerPort(): SandboxPort {
+  const bootstrap = `${JSON.stringify(WORKER_LOCKDOWN)}.forEach(function (key) {
+  try { Object.defineProperty(self, key, { value: undefined, configurable: false }); } catch (e) {}
+});
+(${pluginRealmRuntime.toString()})({
+  post: function (m) { self.postMessage(m); },
+  listen: function (h) { self.addEventListener('message', function (e) { h(e.data); }); },
+  compile: ${compileWorkerPlugin.toString()}
+});`;
+  const url = URL.createObjectURL(new Blob([bootstrap], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    onMessage: (handler) => {
+      worker.onmessage = (event: MessageEvent) => handler(event.data as SandboxMessage);
+    },
+    close: () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    }
+  };
+}
+
+/**
+ * Create a realm for a plugin. Sandboxed iframes are preferred because they
+ * get an opaque origin; workers are used where there is no DOM. An iframe can
+ * still navigate itself, which the CSP doesn't stop, so plugins that mustn't
+ * reach the network should be given a worker.
+ */
+export function createSandboxPort(realm?: SandboxRealm): SandboxPort {
+  const resolved = realm ?? (typeof document !== 'undefined' ? 'iframe' : 'worker');
+  return resolved === 'iframe' ? createIframePort() : createWorkerPort();
+}
+
+// ============================================================================
+// HOST BRIDGE
+// ============================================================================
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error: unknown) => {
+        clearTimeout(timer);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  });
+}
+
+export class PluginSandbox {
+  private port: SandboxPort;
+  private resolveMethod: PluginMethodResolver;
+  private loaded: Promise<void>;
+  private onLoaded: () => void = () => {};
+  private onReady: ((error?: string) => void) | null = null;
+  private pendingHooks = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private callbacks = new Map<number, (...args: unknown[]) => void>();
+  private nextHook = 0;
+  private terminated = false;
+
+  constructor(port: SandboxPort, resolveMethod: PluginMethodResolver) {
+    this.port = port;
+    this.resolveMethod = resolveMethod;
+    this.loaded = new Promise(resolve => {
+      this.onLoaded = resolve;
+    });
+    port.onMessage(message => {
+      void this.handleMessage(message);
+    });
+  }
+
+  async start(source: string, methods: string[]): Promise<void> {
+    await withTimeout(this.loaded, START_TIMEOUT, 'Plugin sandbox did not load');
+
+    const ready = new Promise<void>((resolve, reject) => {
+      this.onReady = error => (error === undefined ? resolve() : reject(new Error(error)));
+    });
+    this.port.postMessage({ type: 'init', source, methods });
+    await withTimeout(ready, START_TIMEOUT, 'Plugin script did not finish loading');
+  }
+
+  invokeHook(hook: PluginHook, args: unknown[] = []): Promise<unknown> {
+    if (this.terminated) {
+      return Promise.reject(new Error('Plugin sandbox has been terminated'));
+    }
+
+    const id = ++this.nextHook;
+    const result = new Promise<unknown>((resolve, reject) => {
+      this.pendingHooks.set(id, { resolve, reject });
+    });
+
+    try {
+      this.port.postMessage({ type: 'hook', id, hook, args });
+    } catch (e) {
+      this.pendingHooks.delete(id);
+      return Promise.reject(e instanceof Error ? e : new Error(String(e)));
+    }
+
+    return withTimeout(result, HOOK_TIMEOUT, `Plugin ${hook} handler timed out`).finally(() => {
+      this.pendingHooks.delete(id);
+    });
+  }
+
+  /**
+   * Tell the realm which API methods it may call
+   */
+  setMethods(methods: string[]): void {
+    if (!this.terminated) {
+      this.port.postMessage({ type: 'permissions', methods });
+    }
+  }
+
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.port.close();
+    this.pendingHooks.forEach(hook => hook.reject(new Error('Plugin sandbox has been terminated')));
+    this.pendingHooks.clear();
+    this.callbacks.clear();
+  }
+
+  private async handleMessage(message: SandboxMessage): Promise<void> {
+    if (this.terminated) return;
+
+    switch (message.type) {
+      case 'loaded':
+        this.onLoaded();
+        break;
+      case 'ready':
+        this.onReady?.(message.error);
+        this.onReady = null;
+        break;
+      case 'hook-result': {
+        const hook = this.pendingHooks.get(message.id);
+        if (!hook) break;
+        if (message.error !== undefined) hook.reject(new Error(message.error));
+        else hook.resolve(message.value);
+        break;
+      }
+      case 'call':
+        await this.handleCall(message.id, message.method, message.args);
+        break;
+    }
+  }
+
+  private async handleCall(id: number, method: string, args: unknown[]): Promise<void> {
+    try {
+      // Resolving fails too, e.g. before the app has provided the API context
+      const fn = this.resolveMethod(method);
+      if (!fn) {
+        this.port.postMessage({ type: 'result', id, error: `Permission denied: ${method}` });
+        return;
+      }
+
+      const value = await fn(...args.map(arg => this.reviveCallbacks(arg)));
+      if (this.terminated) return;
+      this.port.postMessage({ type: 'result', id, value: await this.toTransferable(value) });
+    } catch (e) {
+      if (this.terminated) return;
+      this.port.postMessage({ type: 'result', id, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  private reviveCallbacks(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(item => this.reviveCallbacks(item));
+    if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+    if ('__pluginCallback' in value) {
+      const id = (value as { __pluginCallback: number }).__pluginCallback;
+      let callback = this.callbacks.get(id);
+      if (!callback) {
+        callback = (...args: unknown[]) => {
+          if (!this.terminated) this.port.postMessage({ type: 'callback', callback: id, args });
+        };
+        this.callbacks.set(id, callback);
+      }
+      return callback;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+      result[key] = this.reviveCallbacks(item);
+    }
+    return result;
+  }
+
+  private async toTransferable(value: unknown): Promise<unknown> {
+    if (typeof Response !== 'undefined' && value instanceof Response) {
+      return {
+        __pluginResponse: {
+          body: await value.arrayBuffer(),
+          status: value.status,
+          statusText: value.statusText,
+          headers: Array.from(value.headers.entries())
+        }
+      };
+    }
+    return value;
+  }
+}
@@ -7,19 +7,35 @@ import {
   PluginManifest,
   PluginStatus,
   PluginStoreEntry,
+  PluginAPI,
   PluginAPIContext,
+  PluginAppContext,
   PluginError,
+  PluginPermission,
+  PluginPermissionPrompt,
   PluginSystemSettings,
   PluginUIComponent,
   PluginShortcut,
   PluginContextMenuItem,
   PluginHook,
   PluginInstallOptions,
+  API_METHOD_PERMISSIONS,
+  HOOK_PERMISSIONS,
   DEFAULT_PLUGIN_SETTINGS,
   SAMPLE_STORE_PLUGINS,
   validateManifest,
   isUpdateAvailable
 } from '../types/plugin';
+import { PluginSandbox, createSandboxPort } from './pluginSandbox';
+import type { SandboxPort } from './pluginSandbox';
+
+type PluginMethod = (...args: any[]) => unknown;
+
+// 'canvas.getElements' -> ['canvas', 'getElements']
+function splitMethod(method: string): [string, string] {
+  const dot = method.indexOf('.');
+  return [method.slice(0, dot), method.slice(dot + 1)];
+}
 
 // ============================================================================
 // PLUGIN MANAGER CLASS
@@ -30,7 +46,10 @@ class PluginManager {
   private settings: PluginSystemSettings = DEFAULT_PLUGIN_SETTINGS;
   private errors: PluginError[] = [];
   private listeners: Map<string, Set<(...args: any[]) => void>> = new Map();
-  private apiContext: PluginAPIContext | null = null;
+  private apiContext: PluginAppContext | null = null;
+  private permissionPrompt: PluginPermissionPrompt | null = null;
+  private sandboxes: Map<string, PluginSandbox> = new Map();
+  private createSandboxPort: (pluginId: string) => SandboxPort = pluginId => this.createDefaultSandboxPort(pluginId);
   private storagePrefix = 'lumina_plugin_';
 
   constructor() {
@@ -79,14 +98,16 @@ class PluginManager {
     try {
       const saved = localStorage.getItem(`${this.storagePrefix}installed`);
       if (saved) {
-        const pluginData = JSON.parse(saved);
-        pluginData.forEach((data: any) => {
+        const pluginData = JSON.parse(saved) as Plugin[];
+        pluginData.forEach(data => {
           const plugin: Plugin = {
             manifest: data.manifest,
             status: data.status === 'active' ? 'installed' : data.status,
             installedAt: data.installedAt,
             updatedAt: data.updatedAt,
-            settings: data.settings || {}
+            settings: data.settings || {},
+            permissionGrants: data.permissionGrants || {},
+            source: data.source
           };
           this.plugins.set(plugin.manifest.id, plugin);
         });
@@ -103,7 +124,9 @@ class PluginManager {
         status: p.status,
         installedAt: p.installedAt,
         updatedAt: p.updatedAt,
-        settings: p.settings
+        settings: p.settings,
+        permissionGrants: p.permissionGrants,
+        source: p.source
       }));
       localStorage.setItem(`${this.storagePrefix}installed`, JSON.stringify(pluginData));
     } catch (e) {
@@ -115,16 +138,29 @@ class PluginManager {
   // API Context
   // --------------------------------------------------------------------------
 
-  setAPIContext(context: PluginAPIContext): void {
+  setAPIContext(context: PluginAppContext): void {
     this.apiContext = context;
   }
 
-  private getPluginAPI(pluginId: string): PluginAPIContext {
+  /**
+   * Replace how plugin realms are created (e.g. an in-process realm for tests);
+   * null restores the default
+   */
+  setSandboxFactory(factory: ((pluginId: string) => SandboxPort) | null): void {
+    this.createSandboxPort = factory ?? (pluginId => this.createDefaultSandboxPort(pluginId));
+  }
+
+  // Only a worker realm keeps plugins without network access off the network
+  private createDefaultSandboxPort(pluginId: string): SandboxPort {
+    return createSandboxPort(this.hasPermission(pluginId, 'network') ? undefined : 'worker');
+  }
+
+  // Full API scoped to the plugin, before permissions are applied
+  private getScopedAPI(pluginId: string): PluginAPIContext {
     if (!this.apiContext) {
       throw new Error('Plugin API context not initialized');
     }
 
-    // Create sandboxed API for plugin
     return {
       ...this.apiContext,
       storage: {
@@ -161,10 +197,127 @@ class PluginManager {
           const plugin = this.plugins.get(pluginId);
           return plugin?.settingsSchema || [];
         }
+      },
+      // A plugin only hears its own events, so it can't listen in on or fake app events
+      events: {
+        on: (event: string, handler: (...args: any[]) => void) => {
+          this.on(`plugin:${pluginId}:${event}`, handler);
+        },
+        off: (event: string, handler: (...args: any[]) => void) => {
+          this.off(`plugin:${pluginId}:${event}`, handler);
+        },
+        emit: (event: string, ...args: unknown[]) => {
+          this.emit(`plugin:${pluginId}:${event}`, ...args);
+        }
       }
     };
   }
 
+  /**
+   * API methods the plugin may call right now
+   */
+  getAllowedMethods(pluginId: string): string[] {
+    return Object.entries(API_METHOD_PERMISSIONS)
+      .filter(([, permission]) => permission === null || this.hasPermission(pluginId, permission))
+      .map(([method]) => method);
+  }
+
+  // Looked up on every call so revoked permissions take effect immediately
+  private resolvePluginMethod(pluginId: string, method: string): PluginMethod | undefined {
+    if (!this.getAllowedMethods(pluginId).includes(method)) {
+      return undefined;
+    }
+
+    const [namespace, name] = splitMethod(method);
+    const group = this.getScopedAPI(pluginId)[namespace as keyof PluginAPIContext] as Record<string, PluginMethod>;
+    return group[name];
+  }
+
+  private getPluginAPI(pluginId: string): PluginAPI {
+    const api: Record<string, Record<string, PluginMethod>> = {};
+
+    for (const method of this.getAllowedMethods(pluginId)) {
+      const [namespace, name] = splitMethod(method);
+      const group = api[namespace] ?? (api[namespace] = {});
+      group[name] = (...args: unknown[]) => {
+        const fn = this.resolvePluginMethod(pluginId, method);
+        if (!fn) {
+          throw new Error(`Permission denied: ${method}`);
+        }
+        return fn(...args);
+      };
+    }
+
+    return api as PluginAPI;
+  }
+
+  // --------------------------------------------------------------------------
+  // Permissions
+  // --------------------------------------------------------------------------
+
+  setPermissionPrompt(prompt: PluginPermissionPrompt | null): void {
+    this.permissionPrompt = prompt;
+  }
+
+  hasPermission(pluginId: string, permission: PluginPermission): boolean {
+    const plugin = this.plugins.get(pluginId);
+    return !!plugin
+      && plugin.manifest.permissions.includes(permission)
+      && plugin.permissionGrants?.[permission] === true;
+  }
+
+  getGrantedPermissions(pluginId: string): PluginPermission[] {
+    const plugin = this.plugins.get(pluginId);
+    return plugin ? plugin.manifest.permissions.filter(p => this.hasPermission(pluginId, p)) : [];
+  }
+
+  /**
+   * Declared permissions the user hasn't decided on yet
+   */
+  getPendingPermissions(pluginId: string): PluginPermission[] {
+    const plugin = this.plugins.get(pluginId);
+    return plugin ? plugin.manifest.permissions.filter(p => plugin.permissionGrants?.[p] === undefined) : [];
+  }
+
+  grantPermission(pluginId: string, permission: PluginPermission): void {
+    this.setPermissionGrants(pluginId, { [permission]: true });
+  }
+
+  revokePermission(pluginId: string, permission: PluginPermission): void {
+    this.setPermissionGrants(pluginId, { [permission]: false });
+  }
+
+  private setPermissionGrants(pluginId: string, grants: Partial<Record<PluginPermission, boolean>>): void {
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) {
+      throw new Error('Plugin not found');
+    }
+
+    const undeclared = (Object.keys(grants) as PluginPermission[]).filter(p => !plugin.manifest.permissions.includes(p));
+    if (undeclared.length > 0) {
+      throw new Error(`Permission not declared in plugin manifest: ${undeclared.join(', ')}`);
+    }
+
+    plugin.permissionGrants = { ...plugin.permissionGrants, ...grants };
+    this.saveInstalledPlugins();
+    this.sandboxes.get(pluginId)?.setMethods(this.getAllowedMethods(pluginId));
+
+    this.emit('plugin-permissions-changed', pluginId, this.getGrantedPermissions(pluginId));
+  }
+
+  private async requestPermissions(plugin: Plugin): Promise<void> {
+    const pending = this.getPendingPermissions(plugin.manifest.id);
+    // Without a prompt, undecided permissions stay ungranted and are asked again next time
+    if (pending.length === 0 || !this.permissionPrompt) return;
+
+    const granted = await this.permissionPrompt(plugin, pending);
+    const grants: Partial<Record<PluginPermission, boolean>> = {};
+    pending.forEach(p => {
+      grants[p] = granted.includes(p);
+    });
+    this.setPermissionGrants(plugin.manifest.id, grants);
+  }
+
   // --------------------------------------------------------------------------
   // Plugin Installation
   // --------------------------------------------------------------------------
@@ -194,7 +347,9 @@ class PluginManager {
       status: 'installed',
       installedAt: Date.now(),
       updatedAt: Date.now(),
-      settings: {}
+      settings: {},
+      permissionGrants: {},
+      source: await this.loadPluginSource(manifest, options)
     };
 
     // Initialize default settings
@@ -215,6 +370,26 @@ class PluginManager {
     return plugin;
   }
 
+  private async loadPluginSource(
+    manifest: PluginManifest,
+    options?: Partial<PluginInstallOptions>
+  ): Promise<string | undefined> {
+    if (options?.file) {
+      return options.file.text();
+    }
+
+    const url = options?.url ?? manifest.main;
+    if (!url) {
+      return undefined;
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download plugin: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+
   async uninstallPlugin(pluginId: string): Promise<void> {
     const plugin = this.plugins.get(pluginId);
     if (!plugin) {
@@ -253,8 +428,19 @@ class PluginManager {
     }
 
     try {
-      // Call onInit hook if exists
-      if (plugin.onInit && this.apiContext) {
+      await this.requestPermissions(plugin);
+
+      if (plugin.source) {
+        // Scripts run in their own realm and reach the app through the bridge
+        const sandbox = new PluginSandbox(
+          this.createSandboxPort(pluginId),
+          method => this.resolvePluginMethod(pluginId, method)
+        );
+        this.sandboxes.set(pluginId, sandbox);
+        await sandbox.start(plugin.source, this.getAllowedMethods(pluginId));
+        await sandbox.invokeHook('onInit');
+      } else if (plugin.onInit && this.apiContext) {
+        // Call onInit hook if exists
         await plugin.onInit(this.getPluginAPI(pluginId));
       }
 
@@ -263,6 +449,8 @@ class PluginManager {
 
       this.emit('plugin-activated', plugin);
     } catch (e: any) {
+      this.sandboxes.get(pluginId)?.terminate();
+      this.sandboxes.delete(pluginId);
       this.recordError(pluginId, e.message, 'onInit');
       plugin.status = 'error';
       this.saveInstalledPlugins();
@@ -280,9 +468,13 @@ class PluginManager {
       return;
     }
 
+    const sandbox = this.sandboxes.get(pluginId);
+
     try {
       // Call onDestroy hook if exists
-      if (plugin.onDestroy) {
+      if (sandbox) {
+        await sandbox.invokeHook('onDestroy');
+      } else if (plugin.onDestroy) {
         await plugin.onDestroy();
       }
 
@@ -292,6 +484,9 @@ class PluginManager {
       this.emit('plugin-deactivated', plugin);
     } catch (e: any) {
       this.recordError(pluginId, e.message, 'onDestroy');
+    } finally {
+      sandbox?.terminate();
+      this.sandboxes.delete(pluginId);
     }
   }
 
@@ -335,6 +530,9 @@ class PluginManager {
     }
 
     // Update manifest
+    if (storeEntry.manifest.main) {
+      plugin.source = await this.loadPluginSource(storeEntry.manifest);
+    }
     plugin.manifest = storeEntry.manifest;
     plugin.status = 'installed';
     plugin.updatedAt = Date.now();
@@ -380,14 +578,22 @@ class PluginManager {
   async executeHook(hook: PluginHook, ...args: any[]): Promise<void> {
     const activePlugins = this.getActivePlugins();
 
+    const permission = HOOK_PERMISSIONS[hook];
+
     for (const plugin of activePlugins) {
       if (!plugin.manifest.hooks.includes(hook)) continue;
+      if (permission && !this.hasPermission(plugin.manifest.id, permission)) continue;
 
+      const sandbox = this.sandboxes.get(plugin.manifest.id);
       const handler = plugin[hook as keyof Plugin] as Function | undefined;
-      if (!handler) continue;
+      if (!sandbox && !handler) continue;
 
       try {
-        await handler.apply(plugin, args);
+        if (sandbox) {
+          await sandbox.invokeHook(hook, args);
+        } else {
+          await handler!.apply(plugin, args);
+        }
       } catch (e: any) {
         this.recordError(plugin.manifest.id, e.message, hook);
         console.error(`Plugin ${plugin.manifest.id} error in ${hook}:`, e);
@@ -403,6 +609,7 @@ class PluginManager {
     const panels: { pluginId: string; component: PluginUIComponent }[] = [];
 
     for (const plugin of this.getActivePlugins()) {
+      if (!this.hasPermission(plugin.manifest.id, 'ui-panel')) continue;
       if (plugin.uiComponents) {
         for (const component of plugin.uiComponents) {
           if (component.type === 'panel') {
@@ -419,6 +626,7 @@ class PluginManager {
     const shortcuts: { pluginId: string; shortcut: PluginShortcut }[] = [];
 
     for (const plugin of this.getActivePlugins()) {
+      if (!this.hasPermission(plugin.manifest.id, 'keyboard-shortcuts')) continue;
       if (plugin.shortcuts) {
         for (const shortcut of plugin.shortcuts) {
           shortcuts.push({ pluginId: plugin.manifest.id, shortcut });
@@ -433,6 +641,7 @@ class PluginManager {
     const items: { pluginId: string; item: PluginContextMenuItem }[] = [];
 
     for (const plugin of this.getActivePlugins()) {
+      if (!this.hasPermission(plugin.manifest.id, 'context-menu')) continue;
       if (plugin.contextMenuItems) {
         for (const item of plugin.contextMenuItems) {
           items.push({ pluginId: plugin.manifest.id, item });
@@ -585,17 +794,115 @@ class PluginManager {
 
 export const pluginManager = new PluginManager();
 
+// ============================================================================
+// APP CONTEXT
+// ============================================================================
+
+let openCanvas: PluginAPIContext['canvas'] | null = null;
+
+/**
+ * Register the canvas plugins work on, or null when it closes
+ */
+export function setPluginCanvas(canvas: PluginAPIContext['canvas'] | null): void {
+  openCanvas = canvas;
+}
+
+function requireCanvas(): PluginAPIContext['canvas'] {
+  if (!openCanvas) {
+    throw new Error('No canvas is open');
+  }
+  return openCanvas;
+}
+
+function unavailable(feature: string): () => never {
+  return () => {
+    throw new Error(`${feature} is not available to plugins`);
+  };
+}
+
+/**
+ * The plugin API context backed by the running app
+ */
+export function createAppAPIContext(): PluginAppContext {
+  return {
+    canvas: {
+      getElements: (): unknown[] => requireCanvas().getElements(),
+      getSelectedElements: (): unknown[] => requireCanvas().getSelectedElements(),
+      selectElements: ids => requireCanvas().selectElements(ids),
+      createElement: (type, props): unknown => requireCanvas().createElement(type, props),
+      updateElement: (id, props) => requireCanvas().updateElement(id, props),
+      deleteElement: id => requireCanvas().deleteElement(id),
+      getViewport: () => requireCanvas().getViewport(),
+      setViewport: viewport => requireCanvas().setViewport(viewport)
+    },
+    assets: {
+      getAssets: () => [],
+      uploadAsset: unavailable('Asset upload'),
+      deleteAsset: unavailable('Asset deletion')
+    },
+    ui: {
+      showNotification: (message, type) => {
+        if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+          new Notification(message, { tag: type });
+        }
+      },
+      showModal: unavailable('Modals'),
+      hideModal: unavailable('Modals'),
+      registerPanel: unavailable('Panel registration'),
+      unregisterPanel: unavailable('Panel registration'),
+      registerContextMenu: unavailable('Context menu registration')
+    },
+    network: {
+      fetch: (url, options) => fetch(url, options)
+    },
+    clipboard: {
+      copy: data => navigator.clipboard.writeText(typeof data === 'string' ? data : JSON.stringify(data)),
+      paste: () => navigator.clipboard.readText()
+    }
+  };
+}
+
 // ============================================================================
 // REACT HOOK
 // ============================================================================
 
 import { useState, useEffect, useCallback } from 'react';
 
+export interface PluginPermissionRequest {
+  plugin: Plugin;
+  permissions: PluginPermission[];
+  respond: (granted: PluginPermission[]) => void;
+}
+
 export function usePluginSystem() {
   const [plugins, setPlugins] = useState<Plugin[]>([]);
   const [settings, setSettings] = useState<PluginSystemSettings>(pluginManager.getSettings());
   const [storePlugins] = useState<PluginStoreEntry[]>(pluginManager.getStorePlugins());
   const [errors, setErrors] = useState<PluginError[]>([]);
+  const [permissionRequest, setPermissionRequest] = useState<PluginPermissionRequest | null>(null);
+
+  useEffect(() => {
+    let pending: ((granted: PluginPermission[]) => void) | null = null;
+
+    pluginManager.setPermissionPrompt((plugin, permissions) => new Promise(resolve => {
+      pending = resolve;
+      setPermissionRequest({
+        plugin,
+        permissions,
+        respond: granted => {
+          pending = null;
+          setPermissionRequest(null);
+          resolve(granted);
+        }
+      });
+    }));
+
+    return () => {
+      pluginManager.setPermissionPrompt(null);
+      // Nothing is granted if the prompt goes away unanswered
+      pending?.([]);
+    };
+  }, []);
 
   useEffect(() => {
     const updatePlugins = () => setPlugins(pluginManager.getAllPlugins());
@@ -612,6 +919,7 @@ export function usePluginSystem() {
     pluginManager.on('plugin-activated', updatePlugins);
     pluginManager.on('plugin-deactivated', updatePlugins);
     pluginManager.on('plugin-updated', updatePlugins);
+    pluginManager.on('plugin-permissions-changed', updatePlugins);
     pluginManager.on('settings-changed', updateSettings);
     pluginManager.on('plugin-error', updateErrors);
 
@@ -621,6 +929,7 @@ export function usePluginSystem() {
       pluginManager.off('plugin-activated', updatePlugins);
       pluginManager.off('plugin-deactivated', updatePlugins);
       pluginManager.off('plugin-updated', updatePlugins);
+      pluginManager.off('plugin-permissions-changed', updatePlugins);
       pluginManager.off('settings-changed', updateSettings);
       pluginManager.off('plugin-error', updateErrors);
     };
@@ -646,6 +955,14 @@ export function usePluginSystem() {
     return pluginManager.updatePlugin(pluginId);
   }, []);
 
+  const grantPermission = useCallback((pluginId: string, permission: PluginPermission) => {
+    pluginManager.grantPermission(pluginId, permission);
+  }, []);
+
+  const revokePermission = useCallback((pluginId: string, permission: PluginPermission) => {
+    pluginManager.revokePermission(pluginId, permission);
+  }, []);
+
   const updateSettings = useCallback((updates: Partial<PluginSystemSettings>) => {
     pluginManager.updateSettings(updates);
   }, []);
@@ -668,6 +985,9 @@ export function usePluginSystem() {
     activatePlugin,
     deactivatePlugin,
     updatePlugin,
+    grantPermission,
+    revokePermission,
+    permissionRequest,
     updateSettings,
     searchStore,
     isInstalled,
@@ -0,0 +1,530 @@
+// ============================================
+// LUMINA PRINT EXPORT
+// PDF/X-1a and PDF/X-4 output of canvas designs: CMYK colour through an
+// ICC output profile, bleed, printer's marks, guides and an image
+// resolution preflight
+// ============================================
+
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import type { PDFObject, PDFPage } from 'pdf-lib';
+import type { DesignElement } from '../types';
+import type { PDFXStandard, PrintExportOptions, PrintOutputCondition, QualityIssue } from '../types/export';
+import type { Box, ContentOperand, ContentOperation } from './pdfContentStream';
+import { name, num, serializeContentStream } from './pdfContentStream';
+import { ellipsePath, prepareDesign, transformPath } from './designRenderer';
+import type { DesignImage, DesignRenderOptions, PreparedElement } from './designRenderer';
+import { drawDesign, pathOperations } from './designPdf';
+import type { PdfColorTarget, PdfImage } from './designPdf';
+import { GENERIC_CMYK_DESCRIPTION, createCMYKConverter, createGenericCMYKProfile, parseICCProfile } from './iccProfile';
+import type { CMYK, CMYKConverter } from './iccProfile';
+import { randomBytes } from './pdfSecurity';
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Decoded pixels, four bytes (RGBA) per pixel */
+export interface DecodedImage {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export type PrintImageDecoder = (image: DesignImage) => Promise<DecodedImage>;
+
+export interface PrintPDFOptions extends PrintExportOptions, Omit<DesignRenderOptions, 'width' | 'height'> {
+  /** Defaults to decoding through a browser canvas */
+  decodeImage?: PrintImageDecoder;
+}
+
+/** Page boxes in points, bottom-up */
+export interface PrintLayout {
+  mediaBox: Box;
+  bleedBox: Box;
+  trimBox: Box;
+  safeBox: Box;
+  /** Points per design unit */
+  scale: number;
+}
+
+export interface PrintImageResolution {
+  elementId: string;
+  /** Pixel size of the image */
+  width: number;
+  height: number;
+  /** Pixels per inch at the size the image is printed */
+  effectiveDpi: number;
+}
+
+export interface PrintPDFResult {
+  bytes: Uint8Array;
+  warnings: string[];
+  /** Preflight findings: low-resolution images and fonts that could not be embedded */
+  issues: QualityIssue[];
+  images: PrintImageResolution[];
+  layout: PrintLayout;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const PRODUCER = 'Lumina Studio';
+
+const POINTS_PER_MM = 72 / 25.4;
+
+/** Printer's marks start this far outside the bleed, in millimetres */
+const MARK_GAP = 1;
+const MARK_LENGTH = 6;
+const MARK_LINE_WIDTH = 0.25;
+const REGISTRATION_RADIUS = 2;
+const COLOR_BAR_PATCH = 5;
+
+/** Solid process inks, their overprints and black tints */
+const COLOR_BAR: CMYK[] = [
+  [1, 0, 0, 0],
+  [0, 1, 0, 0],
+  [0, 0, 1, 0],
+  [0, 0, 0, 1],
+  [0, 1, 1, 0],
+  [1, 0, 1, 0],
+  [1, 1, 0, 0],
+  [0, 0, 0, 0.75],
+  [0, 0, 0, 0.5],
+  [0, 0, 0, 0.25],
+];
+
+/** Guide outlines: bleed in black, trim in cyan, safe zone in magenta */
+const GUIDE_COLORS: CMYK[] = [[0, 0, 0, 1], [1, 0, 0, 0], [0, 1, 0, 0]];
+
+const PDFX: Record<PDFXStandard, { pdfVersion: [number, number]; version: string; conformance?: string }> = {
+  'PDF/X-1a': { pdfVersion: [1, 3], version: 'PDF/X-1:2001', conformance: 'PDF/X-1a:2001' },
+  'PDF/X-4': { pdfVersion: [1, 6], version: 'PDF/X-4' },
+};
+
+const GENERIC_CONDITION: PrintOutputCondition = {
+  identifier: 'Custom',
+  info: GENERIC_CMYK_DESCRIPTION,
+  registryName: 'http://www.color.org',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+const op = (operator: string, ...operands: ContentOperand[]): ContentOperation => ({ operator, operands });
+
+const rect = (box: Box) => op('re', num(box.x1), num(box.y1), num(box.x2 - box.x1), num(box.y2 - box.y1));
+
+const outset = (box: Box, distance: number): Box => ({
+  x1: box.x1 - distance,
+  y1: box.y1 - distance,
+  x2: box.x2 + distance,
+  y2: box.y2 + distance,
+});
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/** XMP dates carry second precision to match the info dictionary */
+const xmpDate = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+function uuid(): string {
+  const hex = Array.from(randomBytes(16), b => b.toString(16).padStart(2, '0')).join('');
+  return `uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function setResource(page: PDFPage, category: string, key: string, value: PDFObject): void {
+  const { Resources } = page.node.normalizedEntries();
+  const dict = Resources.lookupMaybe(PDFName.of(category), PDFDict) ?? page.doc.context.obj({});
+  dict.set(PDFName.of(key), value);
+  Resources.set(PDFName.of(category), dict);
+}
+
+// ============================================
+// LAYOUT
+// ============================================
+
+/**
+ * Where the trim, bleed and safe zone fall on the sheet. The design fills
+ * the trim box at the format's resolution; with printer's marks the sheet
+ * grows a slug around the bleed to hold them.
+ */
+export function getPrintLayout(options: PrintExportOptions): PrintLayout {
+  const { dimensions, formatDpi, bleed, safeZone, cropMarks, registrationMarks, colorBars } = options;
+  if (!(formatDpi > 0) || bleed < 0 || safeZone < 0) {
+    throw new Error('Print settings need a positive format resolution and no negative distances');
+  }
+
+  const scale = 72 / formatDpi;
+  const bleedPoints = bleed * POINTS_PER_MM;
+  const slug = bleedPoints + (cropMarks || registrationMarks || colorBars ? (MARK_GAP + MARK_LENGTH) * POINTS_PER_MM : 0);
+  const trimBox = { x1: slug, y1: slug, x2: slug + dimensions.width * scale, y2: slug + dimensions.height * scale };
+
+  return {
+    mediaBox: outset(trimBox, slug),
+    bleedBox: outset(trimBox, bleedPoints),
+    trimBox,
+    safeBox: outset(trimBox, -safeZone * POINTS_PER_MM),
+    scale,
+  };
+}
+
+// ============================================
+// MARKS AND GUIDES
+// ============================================
+
+/** Crop marks, registration targets and a colour bar, in the slug */
+function printerMarks(layout: PrintLayout, options: PrintExportOptions): ContentOperation[] {
+  const { trimBox: trim, bleedBox } = layout;
+  const start = trim.x1 - bleedBox.x1 + MARK_GAP * POINTS_PER_MM;
+  const length = MARK_LENGTH * POINTS_PER_MM;
+  const operations: ContentOperation[] = [op('q'), op('CS', name('All')), op('SCN', num(1)), op('w', num(MARK_LINE_WIDTH))];
+  const line = (x1: number, y1: number, x2: number, y2: number) => [op('m', num(x1), num(y1)), op('l', num(x2), num(y2))];
+
+  if (options.cropMarks) {
+    for (const x of [trim.x1, trim.x2]) {
+      for (const y of [trim.y1, trim.y2]) {
+        const dx = x === trim.x1 ? -1 : 1;
+        const dy = y === trim.y1 ? -1 : 1;
+        operations.push(
+          ...line(x + dx * start, y, x + dx * (start + length), y),
+          ...line(x, y + dy * start, x, y + dy * (start + length))
+        );
+      }
+    }
+    operations.push(op('S'));
+  }
+
+  if (options.registrationMarks) {
+    const middleX = (trim.x1 + trim.x2) / 2;
+    const middleY = (trim.y1 + trim.y2) / 2;
+    const offset = start + length / 2;
+    const centres: Array<[number, number]> = [
+      [middleX, trim.y2 + offset],
+      [trim.x1 - offset, middleY],
+      [trim.x2 + offset, middleY],
+    ];
+    // The colour bar takes the bottom edge
+    if (!options.colorBars) centres.push([middleX, trim.y1 - offset]);
+
+    const radius = REGISTRATION_RADIUS * POINTS_PER_MM;
+    for (const [cx, cy] of centres) {
+      operations.push(
+        ...pathOperations(transformPath(ellipsePath(radius * 2, radius * 2), [1, 0, 0, 1, cx - radius, cy - radius])),
+        ...line(cx - length / 2, cy, cx + length / 2, cy),
+        ...line(cx, cy - length / 2, cx, cy + length / 2),
+        op('S')
+      );
+    }
+  }
+  operations.push(op('Q'));
+
+  if (options.colorBars) {
+    const patch = Math.min(COLOR_BAR_PATCH * POINTS_PER_MM, (trim.x2 - trim.x1) / COLOR_BAR.length);
+    const left = (trim.x1 + trim.x2) / 2 - (patch * COLOR_BAR.length) / 2;
+    const bottom = trim.y1 - start - patch;
+    COLOR_BAR.forEach((ink, i) => {
+      operations.push(
+        op('k', ...ink.map(num)),
+        rect({ x1: left + i * patch, y1: bottom, x2: left + (i + 1) * patch, y2: bottom + patch }),
+        op('f')
+      );
+    });
+  }
+
+  return operations;
+}
+
+/** Bleed, trim and safe zone outlines, marked as the non-printing Guides layer */
+function guideOperations(layout: PrintLayout): ContentOperation[] {
+  const operations = [op('BDC', name('OC'), name('Guides')), op('q'), op('w', num(0.5)), op('d', { type: 'array', items: [num(3), num(3)] }, num(0))];
+  [layout.bleedBox, layout.trimBox, layout.safeBox].forEach((box, i) => {
+    operations.push(op('K', ...GUIDE_COLORS[i]!.map(num)), rect(box), op('S'));
+  });
+  operations.push(op('Q'), op('EMC'));
+  return operations;
+}
+
+// ============================================
+// COLOUR
+// ============================================
+
+/** Decodes an image through the browser's image decoder */
+export const decodeImageInBrowser: PrintImageDecoder = async ({ data, mimeType }) => {
+  if (typeof createImageBitmap === 'undefined') {
+    throw new Error('Decoding images needs a browser; pass decodeImage');
+  }
+  const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: mimeType }));
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(bitmap.width, bitmap.height)
+    : Object.assign(document.createElement('canvas'), { width: bitmap.width, height: bitmap.height });
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas 2D context not available');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { width: canvas.width, height: canvas.height, data: ctx.getImageData(0, 0, canvas.width, canvas.height).data };
+};
+
+/**
+ * Writes colours as DeviceCMYK through the output profile, and images as
+ * CMYK XObjects. Without transparency (PDF/X-1a) transparent pixels are
+ * composited over white; otherwise they keep a soft mask.
+ */
+function cmykTarget(
+  pdfDoc: PDFDocument,
+  convert: CMYKConverter,
+  decode: PrintImageDecoder,
+  transparency: boolean,
+  warnings: string[],
+  onPlaced: (item: PreparedElement, image: PdfImage) => void
+): PdfColorTarget {
+  const { context } = pdfDoc;
+  const images = new Map<Uint8Array, PdfImage | null>();
+
+  const embed = async (item: PreparedElement): Promise<PdfImage | null> => {
+    const { width, height, data } = await decode(item.image!);
+    const pixels = width * height;
+    const cmyk = new Uint8Array(pixels * 4);
+    const alpha = new Uint8Array(pixels);
+    let transparent = false;
+
+    for (let i = 0; i < pixels; i++) {
+      const a = data[i * 4 + 3]!;
+      alpha[i] = a;
+      if (a < 255) transparent = true;
+      // Over white paper when there is no soft mask to carry the alpha
+      const channel = (value: number) => (transparency ? value : 255 - ((255 - value) * a) / 255);
+      const ink = convert(channel(data[i * 4]!), channel(data[i * 4 + 1]!), channel(data[i * 4 + 2]!));
+      for (let c = 0; c < 4; c++) cmyk[i * 4 + c] = Math.round(ink[c]! * 255);
+    }
+
+    const image = { Type: 'XObject', Subtype: 'Image', Width: width, Height: height, BitsPerComponent: 8 };
+    const softMask = transparent && transparency
+      ? context.register(context.flateStream(alpha, { ...image, ColorSpace: 'DeviceGray' }))
+      : undefined;
+    if (transparent && !transparency) {
+      warnings.push(`Image ${item.element.id} has transparent pixels, which PDF/X-1a does not allow; they are printed over white`);
+    }
+    const ref = context.register(context.flateStream(cmyk, { ...image, ColorSpace: 'DeviceCMYK', ...(softMask && { SMask: softMask }) }));
+    return { ref, width, height };
+  };
+
+  return {
+    // Inks to a tenth of a percent, so interpolation noise does not put ink on white
+    setColor: ([r, g, b], stroke) =>
+      op(stroke ? 'K' : 'k', ...convert(r * 255, g * 255, b * 255).map(ink => num(Math.round(ink * 1000) / 1000))),
+    embedImage: async item => {
+      const key = item.image!.data;
+      if (!images.has(key)) {
+        try {
+          images.set(key, await embed(item));
+        } catch (error) {
+          warnings.push(`Image ${item.element.id} could not be converted to CMYK: ${error instanceof Error ? error.message : String(error)}`);
+          images.set(key, null);
+        }
+      }
+      const image = images.get(key)!;
+      if (image) onPlaced(item, image);
+      return image;
+    },
+    flattenTransparency: !transparency,
+  };
+}
+
+// ============================================
+// PDF/X
+// ============================================
+
+function addOutputIntent(pdfDoc: PDFDocument, condition: PrintOutputCondition, profile: Uint8Array): void {
+  const { context } = pdfDoc;
+  const intent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFX',
+    OutputConditionIdentifier: PDFString.of(condition.identifier),
+    OutputCondition: PDFString.of(condition.info),
+    Info: PDFString.of(condition.info),
+    RegistryName: PDFString.of(condition.registryName ?? 'http://www.color.org'),
+    DestOutputProfile: context.register(context.flateStream(profile, { N: 4 })),
+  });
+  pdfDoc.catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(intent)]));
+}
+
+/** Adds the Guides layer, hidden by default so it neither shows nor prints */
+function addGuidesLayer(pdfDoc: PDFDocument, page: PDFPage): void {
+  const { context } = pdfDoc;
+  const layer = context.register(context.obj({
+    Type: 'OCG',
+    Name: PDFString.of('Guides'),
+    Usage: { Print: { PrintState: 'OFF' } },
+  }));
+  pdfDoc.catalog.set(PDFName.of('OCProperties'), context.obj({
+    OCGs: [layer],
+    D: { Name: PDFString.of('Default'), Order: [layer], OFF: [layer] },
+  }));
+  setResource(page, 'Properties', 'Guides', layer);
+}
+
+/**
+ * Writes the PDF/X identification to the info dictionary and, from
+ * PDF/X-4 on, an XMP packet that matches it
+ */
+function writeIdentification(pdfDoc: PDFDocument, standard: PDFXStandard, title: string): void {
+  const { context, catalog } = pdfDoc;
+  const { version, conformance } = PDFX[standard];
+  const now = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+  pdfDoc.setTitle(title);
+  pdfDoc.setProducer(PRODUCER);
+  pdfDoc.setCreator(PRODUCER);
+  pdfDoc.setCreationDate(now);
+  pdfDoc.setModificationDate(now);
+  const info = context.lookup(context.trailerInfo.Info, PDFDict);
+  info.set(PDFName.of('GTS_PDFXVersion'), PDFString.of(version));
+  if (conformance) info.set(PDFName.of('GTS_PDFXConformance'), PDFString.of(conformance));
+  info.set(PDFName.of('Trapped'), PDFName.of('False'));
+
+  const id = randomBytes(16);
+  const hex = PDFHexString.of(Array.from(id, b => b.toString(16).padStart(2, '0')).join(''));
+  context.trailerInfo.ID = context.obj([hex, hex]);
+
+  // Metadata streams arrived with PDF 1.4, after PDF/X-1a's base version
+  if (standard === 'PDF/X-1a') return;
+
+  const xmp = [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    '  xmlns:pdfxid="http://www.npes.org/pdfx/ns/id/"',
+    '  xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '  xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    '  xmlns:xmp="http://ns.adobe.com/xap/1.0/"',
+    '  xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/">',
+    `  <pdfxid:GTS_PDFXVersion>${version}</pdfxid:GTS_PDFXVersion>`,
+    '  <dc:format>application/pdf</dc:format>',
+    `  <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>`,
+    `  <pdf:Producer>${PRODUCER}</pdf:Producer>`,
+    '  <pdf:Trapped>False</pdf:Trapped>',
+    `  <xmp:CreatorTool>${PRODUCER}</xmp:CreatorTool>`,
+    `  <xmp:CreateDate>${xmpDate(now)}</xmp:CreateDate>`,
+    `  <xmp:ModifyDate>${xmpDate(now)}</xmp:ModifyDate>`,
+    `  <xmp:MetadataDate>${xmpDate(now)}</xmp:MetadataDate>`,
+    `  <xmpMM:DocumentID>${uuid()}</xmpMM:DocumentID>`,
+    `  <xmpMM:InstanceID>${uuid()}</xmpMM:InstanceID>`,
+    '  <xmpMM:VersionID>1</xmpMM:VersionID>',
+    '  <xmpMM:RenditionClass>default</xmpMM:RenditionClass>',
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+  catalog.set(PDFName.of('Metadata'), context.register(context.stream(new TextEncoder().encode(xmp), { Type: 'Metadata', Subtype: 'XML' })));
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Render the design as a print-ready PDF/X file. The design fills the trim
+ * box at `formatDpi`; the background runs into the bleed, and colours and
+ * images are converted to the output profile's CMYK (a generic press
+ * profile unless the output condition supplies one). Images printed below
+ * `minimumDpi` and fonts that could not be embedded are reported as issues.
+ */
+export async function renderPrintPDF(elements: DesignElement[], options: PrintPDFOptions): Promise<PrintPDFResult> {
+  const { dimensions, standard, decodeImage = decodeImageInBrowser } = options;
+  const layout = getPrintLayout(options);
+
+  const condition = options.outputCondition ?? GENERIC_CONDITION;
+  const profileData = condition.profile ?? createGenericCMYKProfile();
+  const profile = parseICCProfile(profileData);
+  if (profile.deviceClass !== 'prtr') {
+    throw new Error(`ICC profile "${profile.description}" is not an output profile`);
+  }
+  if (standard === 'PDF/X-1a' && profile.version >= 4) {
+    throw new Error('PDF/X-1a needs a version 2 output profile');
+  }
+  const convert = createCMYKConverter(profile);
+
+  const design = await prepareDesign(elements, { ...options, width: dimensions.width, height: dimensions.height });
+  const warnings = [...design.warnings];
+  const issues: QualityIssue[] = [];
+  const images: PrintImageResolution[] = [];
+
+  const pdfDoc = await PDFDocument.create();
+  const { mediaBox, bleedBox, trimBox, scale } = layout;
+  const page = pdfDoc.addPage([mediaBox.x2, mediaBox.y2]);
+  page.setBleedBox(bleedBox.x1, bleedBox.y1, bleedBox.x2 - bleedBox.x1, bleedBox.y2 - bleedBox.y1);
+  page.setTrimBox(trimBox.x1, trimBox.y1, trimBox.x2 - trimBox.x1, trimBox.y2 - trimBox.y1);
+
+  const transparency = standard === 'PDF/X-4';
+  const target = cmykTarget(pdfDoc, convert, decodeImage, transparency, warnings, (item, image) => {
+    const { element, matrix } = item;
+    // Images cover their box, then take the element's scale
+    const cover = Math.max(element.width / image.width, element.height / image.height);
+    const stretch = Math.max(Math.hypot(matrix[0], matrix[1]), Math.hypot(matrix[2], matrix[3]));
+    const effectiveDpi = Math.round(options.formatDpi / (cover * stretch));
+    images.push({ elementId: element.id, width: image.width, height: image.height, effectiveDpi });
+
+    if (effectiveDpi < options.minimumDpi) {
+      const factor = options.minimumDpi / effectiveDpi;
+      issues.push({
+        severity: 'warning',
+        category: 'resolution',
+        message: `Image ${element.id} prints at ${effectiveDpi} DPI, below ${options.minimumDpi} DPI`,
+        suggestion: `Use an image of at least ${Math.ceil(image.width * factor)}×${Math.ceil(image.height * factor)} pixels, or place it smaller`,
+        autoFixable: false,
+      });
+    }
+  });
+
+  const operations: ContentOperation[] = [
+    op('q'),
+    rect(bleedBox),
+    op('W'),
+    op('n'),
+    // Design space runs top-down from the trim's top-left corner
+    op('cm', num(scale), num(0), num(0), num(-scale), num(trimBox.x1), num(trimBox.y2)),
+    ...await drawDesign(pdfDoc, page, design, warnings, { target, bleed: (trimBox.x1 - bleedBox.x1) / scale }),
+    op('Q'),
+  ];
+
+  if (options.cropMarks || options.registrationMarks || options.colorBars) {
+    // Registration colour prints on every separation
+    const tint = pdfDoc.context.obj({ FunctionType: 2, Domain: [0, 1], C0: [0, 0, 0, 0], C1: [1, 1, 1, 1], N: 1 });
+    setResource(page, 'ColorSpace', 'All', pdfDoc.context.obj([PDFName.of('Separation'), PDFName.of('All'), PDFName.of('DeviceCMYK'), tint]));
+    operations.push(...printerMarks(layout, options));
+  }
+  // Optional content needs PDF 1.5, so PDF/X-1a files go without guides
+  if (options.guides && standard === 'PDF/X-4') {
+    addGuidesLayer(pdfDoc, page);
+    operations.push(...guideOperations(layout));
+  }
+  page.node.addContentStream(pdfDoc.context.register(pdfDoc.context.flateStream(serializeContentStream(operations))));
+
+  const unembedded = new Set(
+    design.elements.flatMap(item => (item.text && !(item.text.font.data && item.text.font.program?.embeddable) ? [item.text.font.family] : []))
+  );
+  for (const family of unembedded) {
+    issues.push({
+      severity: 'error',
+      category: 'text',
+      message: `Font "${family}" is not embedded; PDF/X requires embedded fonts`,
+      suggestion: 'Use a font that loads and allows embedding',
+      autoFixable: false,
+    });
+  }
+
+  addOutputIntent(pdfDoc, condition, profileData);
+  writeIdentification(pdfDoc, standard, options.title ?? dimensions.label);
+  options.onProgress?.(100);
+
+  // PDF/X-1a's PDF 1.3 has no object streams
+  const bytes = await pdfDoc.save({ useObjectStreams: standard === 'PDF/X-4' });
+  // pdf-lib always writes a 1.7 header; the version has the same length, so it is patched in place
+  bytes.set(new TextEncoder().encode(`%PDF-${PDFX[standard].pdfVersion.join('.')}`), 0);
+  return { bytes, warnings, issues, images, layout };
+}
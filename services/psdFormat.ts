@@ -0,0 +1,1033 @@
+// ============================================
+// LUMINA PSD FORMAT
+// Reading and writing layered Photoshop documents: 8-bit RGB and
+// grayscale, with groups, masks, blend modes and text layer contents
+// ============================================
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PsdBlendMode =
+  | 'pass-through'
+  | 'normal'
+  | 'dissolve'
+  | 'darken'
+  | 'multiply'
+  | 'color-burn'
+  | 'linear-burn'
+  | 'darker-color'
+  | 'lighten'
+  | 'screen'
+  | 'color-dodge'
+  | 'linear-dodge'
+  | 'lighter-color'
+  | 'overlay'
+  | 'soft-light'
+  | 'hard-light'
+  | 'vivid-light'
+  | 'linear-light'
+  | 'pin-light'
+  | 'hard-mix'
+  | 'difference'
+  | 'exclusion'
+  | 'subtract'
+  | 'divide'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+/** 8-bit RGBA pixels, interleaved */
+export interface PsdPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PsdLayerMask {
+  /** Top-left of the mask bitmap in the document */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** One byte per pixel, 255 reveals */
+  data: Uint8ClampedArray;
+  /** What the mask holds outside its bitmap */
+  defaultColor: number;
+  disabled: boolean;
+  density?: number;   // 0-1
+  feather?: number;   // pixels
+}
+
+export interface PsdText {
+  text: string;
+  /** PostScript name, e.g. "Arial-BoldMT" */
+  fontName?: string;
+  /** In document pixels, with the layer's scale applied */
+  fontSize?: number;
+  color?: string;
+  align?: 'left' | 'right' | 'center' | 'justify';
+}
+
+export interface PsdLayer {
+  name: string;
+  /** Top-left of the pixels in the document */
+  left: number;
+  top: number;
+  /** Absent for groups and empty layers */
+  pixels?: PsdPixels;
+  opacity: number;    // 0-1
+  blendMode: PsdBlendMode;
+  visible: boolean;
+  /** Clipped to the layer below */
+  clipping?: boolean;
+  mask?: PsdLayerMask;
+  /** Text layers keep their pixels as well as the text */
+  text?: PsdText;
+  /** Present on groups; bottom to top */
+  children?: PsdLayer[];
+  /** Groups shown open in the layers panel */
+  expanded?: boolean;
+}
+
+export interface PsdDocument {
+  width: number;
+  height: number;
+  /** Bottom to top, in painting order */
+  layers: PsdLayer[];
+  /** The flattened image; required when writing, optional when reading */
+  composite?: PsdPixels;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const SIGNATURE = '8BPS';
+const RESOURCE_SIGNATURE = '8BIM';
+const COLOR_MODE_GRAYSCALE = 1;
+const COLOR_MODE_RGB = 3;
+
+const enum Compression {
+  Raw = 0,
+  RLE = 1,
+  Zip = 2,
+  ZipPrediction = 3,
+}
+
+const enum SectionType {
+  Layer = 0,
+  OpenFolder = 1,
+  ClosedFolder = 2,
+  Divider = 3,
+}
+
+const CHANNEL_ALPHA = -1;
+const CHANNEL_MASK = -2;
+
+// Layer record flags
+const FLAG_HIDDEN = 2;
+const FLAG_GROUP_BITS = 8 | 16;
+
+// Mask flags and parameter bits
+const MASK_DISABLED = 2;
+const MASK_HAS_PARAMETERS = 16;
+const MASK_USER_DENSITY = 1;
+const MASK_USER_FEATHER = 2;
+const MASK_VECTOR_DENSITY = 4;
+const MASK_VECTOR_FEATHER = 8;
+
+const BLEND_KEYS: Record<PsdBlendMode, string> = {
+  'pass-through': 'pass',
+  'normal': 'norm',
+  'dissolve': 'diss',
+  'darken': 'dark',
+  'multiply': 'mul ',
+  'color-burn': 'idiv',
+  'linear-burn': 'lbrn',
+  'darker-color': 'dkCl',
+  'lighten': 'lite',
+  'screen': 'scrn',
+  'color-dodge': 'div ',
+  'linear-dodge': 'lddg',
+  'lighter-color': 'lgCl',
+  'overlay': 'over',
+  'soft-light': 'sLit',
+  'hard-light': 'hLit',
+  'vivid-light': 'vLit',
+  'linear-light': 'lLit',
+  'pin-light': 'pLit',
+  'hard-mix': 'hMix',
+  'difference': 'diff',
+  'exclusion': 'smud',
+  'subtract': 'fsub',
+  'divide': 'fdiv',
+  'hue': 'hue ',
+  'saturation': 'sat ',
+  'color': 'colr',
+  'luminosity': 'lum ',
+};
+
+const BLEND_MODES = new Map(
+  Object.entries(BLEND_KEYS).map(([mode, key]) => [key, mode as PsdBlendMode])
+);
+
+const ALIGNMENTS: Array<PsdText['align']> = ['left', 'right', 'center', 'justify'];
+
+const GROUP_END_NAME = '</Layer group>';
+
+// ============================================
+// BYTES
+// ============================================
+
+class ByteReader {
+  readonly view: DataView;
+  pos = 0;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private take(length: number): number {
+    if (this.pos + length > this.bytes.length) throw new Error('PSD file is truncated');
+    const at = this.pos;
+    this.pos += length;
+    return at;
+  }
+
+  u8(): number { return this.view.getUint8(this.take(1)); }
+  u16(): number { return this.view.getUint16(this.take(2)); }
+  i16(): number { return this.view.getInt16(this.take(2)); }
+  u32(): number { return this.view.getUint32(this.take(4)); }
+  i32(): number { return this.view.getInt32(this.take(4)); }
+  f64(): number { return this.view.getFloat64(this.take(8)); }
+
+  bytesOf(length: number): Uint8Array {
+    const at = this.take(length);
+    return this.bytes.subarray(at, at + length);
+  }
+
+  ascii(length: number): string {
+    return String.fromCharCode(...this.bytesOf(length));
+  }
+
+  pascal(padTo: number): string {
+    const length = this.u8();
+    const text = this.ascii(length);
+    this.skip((padTo - ((length + 1) % padTo)) % padTo);
+    return text;
+  }
+
+  unicode(): string {
+    const length = this.u32();
+    let text = '';
+    for (let i = 0; i < length; i++) text += String.fromCharCode(this.u16());
+    return text.replace(/\0+$/, '');
+  }
+
+  skip(length: number): void {
+    this.take(length);
+  }
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private reserve(extra: number): number {
+    if (this.length + extra > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + extra));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+      this.view = new DataView(grown.buffer);
+    }
+    const at = this.length;
+    this.length += extra;
+    return at;
+  }
+
+  // Reserve before touching the buffer: growing it replaces the view
+  u8(value: number): void { const at = this.reserve(1); this.view.setUint8(at, value); }
+  u16(value: number): void { const at = this.reserve(2); this.view.setUint16(at, value); }
+  i16(value: number): void { const at = this.reserve(2); this.view.setInt16(at, value); }
+  u32(value: number): void { const at = this.reserve(4); this.view.setUint32(at, value); }
+  i32(value: number): void { const at = this.reserve(4); this.view.setInt32(at, value); }
+  f64(value: number): void { const at = this.reserve(8); this.view.setFloat64(at, value); }
+
+  bytes(data: ArrayLike<number>): void {
+    const at = this.reserve(data.length);
+    this.buffer.set(data, at);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.u8(text.charCodeAt(i) & 255);
+  }
+
+  pad(multiple: number, from = 0): void {
+    while ((this.length - from) % multiple !== 0) this.u8(0);
+  }
+
+  /** Write a u32 length, then the section, padded so the length is a multiple of `padTo` */
+  section(padTo: number, write: () => void): void {
+    const at = this.reserve(4);
+    const start = this.length;
+    write();
+    this.pad(padTo, start);
+    this.view.setUint32(at, this.length - start);
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+// ============================================
+// COMPRESSION
+// ============================================
+
+/** PackBits one row: a header n >= 0 copies n + 1 bytes, n < 0 repeats the next byte 1 - n times */
+function packRow(row: Uint8Array, out: ByteWriter): void {
+  let i = 0;
+  while (i < row.length) {
+    let run = 1;
+    while (i + run < row.length && run < 128 && row[i + run] === row[i]) run++;
+
+    if (run > 1) {
+      out.u8((1 - run) & 255);
+      out.u8(row[i]!);
+      i += run;
+      continue;
+    }
+
+    const start = i;
+    while (i < row.length && i - start < 128 && !(i + 1 < row.length && row[i + 1] === row[i])) i++;
+    out.u8(i - start - 1);
+    out.bytes(row.subarray(start, i));
+  }
+}
+
+function unpackRow(packed: Uint8Array, out: Uint8Array, offset: number, length: number): void {
+  let i = 0;
+  let o = offset;
+  const end = offset + length;
+
+  while (i < packed.length && o < end) {
+    const header = (packed[i++]! << 24) >> 24;
+    if (header >= 0) {
+      const count = Math.min(header + 1, end - o);
+      out.set(packed.subarray(i, i + count), o);
+      i += header + 1;
+      o += count;
+    } else if (header > -128) {
+      const count = Math.min(1 - header, end - o);
+      out.fill(packed[i++]!, o, o + count);
+      o += count;
+    }
+  }
+}
+
+/** PackBits-compress a run of bytes (as TIFF does per row) */
+export function encodePackBits(data: Uint8Array): Uint8Array {
+  const out = new ByteWriter();
+  packRow(data, out);
+  return out.toBytes();
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** RLE-compress planes: all row byte counts first, then the rows */
+function writeRLEPlanes(out: ByteWriter, planes: Uint8Array[], width: number, height: number): void {
+  const rows = new ByteWriter();
+  const counts: number[] = [];
+  for (const plane of planes) {
+    for (let y = 0; y < height; y++) {
+      const before = rows.length;
+      packRow(plane.subarray(y * width, (y + 1) * width), rows);
+      counts.push(rows.length - before);
+    }
+  }
+  counts.forEach(count => out.u16(count));
+  out.bytes(rows.toBytes());
+}
+
+/** Decode `count` planes of width×height stored with the given compression */
+async function readPlanes(
+  reader: ByteReader,
+  end: number,
+  compression: Compression,
+  count: number,
+  width: number,
+  height: number
+): Promise<Uint8Array[]> {
+  const size = width * height;
+  const planes = Array.from({ length: count }, () => new Uint8Array(size));
+  if (size === 0) return planes;
+
+  switch (compression) {
+    case Compression.Raw:
+      planes.forEach(plane => plane.set(reader.bytesOf(size)));
+      break;
+    case Compression.RLE: {
+      const counts = Array.from({ length: count * height }, () => reader.u16());
+      counts.forEach((length, row) => {
+        unpackRow(reader.bytesOf(length), planes[Math.floor(row / height)]!, (row % height) * width, width);
+      });
+      break;
+    }
+    case Compression.Zip:
+    case Compression.ZipPrediction: {
+      const data = await inflate(reader.bytesOf(end - reader.pos));
+      planes.forEach((plane, p) => {
+        plane.set(data.subarray(p * size, (p + 1) * size));
+        if (compression === Compression.ZipPrediction) {
+          // Each byte is stored as the difference from its left neighbour
+          for (let y = 0; y < height; y++) {
+            for (let x = 1; x < width; x++) {
+              const i = y * width + x;
+              plane[i] = (plane[i]! + plane[i - 1]!) & 255;
+            }
+          }
+        }
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unsupported PSD compression ${compression as number}`);
+  }
+  return planes;
+}
+
+// ============================================
+// DESCRIPTORS AND TEXT
+// ============================================
+
+type DescriptorValue = string | number | boolean | Uint8Array | DescriptorValue[] | { [key: string]: DescriptorValue };
+
+function readId(reader: ByteReader): string {
+  const length = reader.u32();
+  return reader.ascii(length || 4);
+}
+
+function readDescriptorValue(reader: ByteReader, type: string): DescriptorValue {
+  switch (type) {
+    case 'Objc':
+    case 'GlbO':
+      return readDescriptor(reader);
+    case 'VlLs': {
+      const count = reader.u32();
+      return Array.from({ length: count }, () => readDescriptorValue(reader, reader.ascii(4)));
+    }
+    case 'doub':
+      return reader.f64();
+    case 'UntF':
+      reader.skip(4);
+      return reader.f64();
+    case 'UnFl': {
+      reader.skip(4);
+      const count = reader.u32();
+      return Array.from({ length: count }, () => reader.f64());
+    }
+    case 'TEXT':
+      return reader.unicode();
+    case 'enum':
+      readId(reader);
+      return readId(reader);
+    case 'long':
+      return reader.i32();
+    case 'comp':
+      return reader.u32() * 2 ** 32 + reader.u32();
+    case 'bool':
+      return reader.u8() !== 0;
+    case 'type':
+    case 'GlbC':
+      reader.unicode();
+      return readId(reader);
+    case 'alis':
+    case 'tdta':
+    case 'Pth ':
+      return reader.bytesOf(reader.u32());
+    case 'obj ': {
+      // References are only skipped over
+      const count = reader.u32();
+      for (let i = 0; i < count; i++) {
+        const form = reader.ascii(4);
+        if (form === 'prop') { reader.unicode(); readId(reader); readId(reader); }
+        else if (form === 'Clss') { reader.unicode(); readId(reader); }
+        else if (form === 'Enmr') { reader.unicode(); readId(reader); readId(reader); readId(reader); }
+        else if (form === 'rele') { reader.unicode(); readId(reader); reader.u32(); }
+        else if (form === 'Idnt' || form === 'indx') reader.u32();
+        else if (form === 'name') { reader.unicode(); readId(reader); reader.unicode(); }
+        else throw new Error(`Unsupported descriptor reference ${form}`);
+      }
+      return '';
+    }
+    default:
+      throw new Error(`Unsupported descriptor value ${type}`);
+  }
+}
+
+function readDescriptor(reader: ByteReader): { [key: string]: DescriptorValue } {
+  reader.unicode();
+  readId(reader);
+  const count = reader.u32();
+  const descriptor: { [key: string]: DescriptorValue } = {};
+  for (let i = 0; i < count; i++) {
+    const key = readId(reader);
+    descriptor[key] = readDescriptorValue(reader, reader.ascii(4));
+  }
+  return descriptor;
+}
+
+type EngineValue = string | number | boolean | EngineValue[] | { [key: string]: EngineValue };
+
+/** Parse text engine data, a PostScript-like dictionary with UTF-16 strings */
+export function parseEngineData(bytes: Uint8Array): EngineValue {
+  let i = 0;
+
+  const skipSpace = () => {
+    while (i < bytes.length && (bytes[i]! <= 32)) i++;
+  };
+
+  const readString = (): string => {
+    const raw: number[] = [];
+    i++; // (
+    while (i < bytes.length && bytes[i] !== 0x29) {
+      if (bytes[i] === 0x5c) i++;
+      raw.push(bytes[i++]!);
+    }
+    i++; // )
+    if (raw[0] === 0xfe && raw[1] === 0xff) {
+      let text = '';
+      for (let c = 2; c + 1 < raw.length; c += 2) text += String.fromCharCode((raw[c]! << 8) | raw[c + 1]!);
+      return text;
+    }
+    return String.fromCharCode(...raw);
+  };
+
+  const readToken = (): string => {
+    const start = i;
+    while (i < bytes.length && bytes[i]! > 32 && !'[]()<>/'.includes(String.fromCharCode(bytes[i]!))) i++;
+    return String.fromCharCode(...bytes.subarray(start, i));
+  };
+
+  const readValue = (): EngineValue => {
+    skipSpace();
+    const char = String.fromCharCode(bytes[i] ?? 0);
+    if (char === '<' && bytes[i + 1] === 0x3c) {
+      i += 2;
+      const dict: { [key: string]: EngineValue } = {};
+      for (;;) {
+        skipSpace();
+        if (i >= bytes.length) return dict;
+        if (bytes[i] === 0x3e) {
+          i += 2;
+          return dict;
+        }
+        i++; // /
+        const key = readToken();
+        dict[key] = readValue();
+      }
+    }
+    if (char === '[') {
+      i++;
+      const list: EngineValue[] = [];
+      for (;;) {
+        skipSpace();
+        if (i >= bytes.length) return list;
+        if (bytes[i] === 0x5d) {
+          i++;
+          return list;
+        }
+        list.push(readValue());
+      }
+    }
+    if (char === '(') return readString();
+    if (char === '/') {
+      i++;
+      return readToken();
+    }
+    const token = readToken();
+    if (token === 'true' || token === 'false') return token === 'true';
+    if (!token) {
+      i++;
+      return '';
+    }
+    return Number(token);
+  };
+
+  return readValue();
+}
+
+function engineAt(value: EngineValue | undefined, ...path: Array<string | number>): EngineValue | undefined {
+  return path.reduce<EngineValue | undefined>((current, key) => {
+    if (current === undefined || typeof current !== 'object') return undefined;
+    return (current as Record<string, EngineValue>)[key];
+  }, value);
+}
+
+function toHex(values: number[]): string {
+  return `#${values.map(v => Math.round(Math.max(0, Math.min(1, v)) * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/** Text contents and first-run style from a type tool ('TySh') block */
+function readTypeTool(reader: ByteReader): PsdText {
+  reader.u16();
+  // Transform [xx, xy, yx, yy, tx, ty]; only the vertical scale matters here
+  reader.f64();
+  reader.f64();
+  const yx = reader.f64();
+  const yy = reader.f64();
+  reader.f64();
+  reader.f64();
+  reader.u16();
+  reader.u32();
+  const descriptor = readDescriptor(reader);
+
+  const raw = descriptor['Txt '];
+  const text: PsdText = { text: typeof raw === 'string' ? raw.replace(/\r/g, '\n') : '' };
+  const engineBytes = descriptor.EngineData;
+  if (!(engineBytes instanceof Uint8Array)) return text;
+
+  const engine = parseEngineData(engineBytes);
+  const style = engineAt(engine, 'EngineDict', 'StyleRun', 'RunArray', 0, 'StyleSheet', 'StyleSheetData');
+  const fonts = engineAt(engine, 'ResourceDict', 'FontSet');
+
+  const fontSize = engineAt(style, 'FontSize');
+  if (typeof fontSize === 'number') {
+    // The layer transform scales the nominal size
+    text.fontSize = fontSize * (Math.sqrt(yx * yx + yy * yy) || 1);
+  }
+
+  const fontIndex = engineAt(style, 'Font');
+  const fontName = typeof fontIndex === 'number' ? engineAt(fonts, fontIndex, 'Name') : undefined;
+  if (typeof fontName === 'string') text.fontName = fontName;
+
+  const color = engineAt(style, 'FillColor', 'Values');
+  if (Array.isArray(color) && color.length === 4) text.color = toHex((color as number[]).slice(1));
+
+  const justification = engineAt(engine, 'EngineDict', 'ParagraphRun', 'RunArray', 0, 'ParagraphSheet', 'Properties', 'Justification');
+  if (typeof justification === 'number') text.align = ALIGNMENTS[justification] ?? 'left';
+
+  return text;
+}
+
+// ============================================
+// READING
+// ============================================
+
+interface LayerRecord {
+  layer: PsdLayer;
+  section: SectionType;
+  right: number;
+  bottom: number;
+  channels: Array<{ id: number; length: number }>;
+}
+
+function readMaskData(reader: ByteReader): PsdLayerMask | undefined {
+  const length = reader.u32();
+  const end = reader.pos + length;
+  if (length < 18) {
+    reader.skip(length);
+    return undefined;
+  }
+
+  const top = reader.i32();
+  const left = reader.i32();
+  const bottom = reader.i32();
+  const right = reader.i32();
+  const defaultColor = reader.u8();
+  const flags = reader.u8();
+
+  const mask: PsdLayerMask = {
+    left,
+    top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+    data: new Uint8ClampedArray(0),
+    defaultColor,
+    disabled: (flags & MASK_DISABLED) !== 0,
+  };
+
+  if (flags & MASK_HAS_PARAMETERS && reader.pos < end) {
+    const parameters = reader.u8();
+    if (parameters & MASK_USER_DENSITY) mask.density = reader.u8() / 255;
+    if (parameters & MASK_USER_FEATHER) mask.feather = reader.f64();
+    if (parameters & MASK_VECTOR_DENSITY) reader.u8();
+    if (parameters & MASK_VECTOR_FEATHER) reader.f64();
+  }
+
+  reader.pos = end;
+  return mask;
+}
+
+function readLayerRecord(reader: ByteReader): LayerRecord {
+  const top = reader.i32();
+  const left = reader.i32();
+  const bottom = reader.i32();
+  const right = reader.i32();
+  const channelCount = reader.u16();
+  const channels = Array.from({ length: channelCount }, () => ({ id: reader.i16(), length: reader.u32() }));
+
+  if (reader.ascii(4) !== RESOURCE_SIGNATURE) throw new Error('PSD layer record is corrupt');
+  const blendKey = reader.ascii(4);
+  const opacity = reader.u8() / 255;
+  const clipping = reader.u8() !== 0;
+  const flags = reader.u8();
+  reader.u8();
+
+  const extraLength = reader.u32();
+  const extraEnd = reader.pos + extraLength;
+  const mask = readMaskData(reader);
+  reader.skip(reader.u32()); // blending ranges
+  let name = reader.pascal(4);
+
+  const layer: PsdLayer = {
+    name,
+    left,
+    top,
+    opacity,
+    blendMode: BLEND_MODES.get(blendKey) ?? 'normal',
+    visible: (flags & FLAG_HIDDEN) === 0,
+    ...(clipping && { clipping }),
+    ...(mask && { mask }),
+  };
+  let section = SectionType.Layer;
+
+  // Additional layer information
+  while (reader.pos + 12 <= extraEnd) {
+    const signature = reader.ascii(4);
+    if (signature !== RESOURCE_SIGNATURE && signature !== '8B64') break;
+    const key = reader.ascii(4);
+    const length = reader.u32();
+    const blockEnd = reader.pos + length;
+
+    if (key === 'luni') {
+      name = reader.unicode() || name;
+    } else if (key === 'lsct' || key === 'lsdk') {
+      section = reader.u32() as SectionType;
+      if (length >= 12 && reader.ascii(4) === RESOURCE_SIGNATURE) {
+        layer.blendMode = BLEND_MODES.get(reader.ascii(4)) ?? layer.blendMode;
+      }
+    } else if (key === 'TySh') {
+      try {
+        layer.text = readTypeTool(reader);
+      } catch {
+        // Unreadable text settings leave the layer as pixels
+      }
+    }
+
+    reader.pos = blockEnd + (length % 2);
+  }
+  reader.pos = extraEnd;
+
+  layer.name = name;
+  return { layer, section, right, bottom, channels };
+}
+
+async function readLayerPixels(reader: ByteReader, record: LayerRecord, gray: boolean): Promise<void> {
+  const { layer, channels } = record;
+  const width = Math.max(0, record.right - layer.left);
+  const height = Math.max(0, record.bottom - layer.top);
+  const pixels = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  const colorChannels = gray ? [0, 0, 0] : [0, 1, 2];
+
+  for (const channel of channels) {
+    const start = reader.pos;
+    const end = start + channel.length;
+    if (channel.length < 2) {
+      reader.pos = end;
+      continue;
+    }
+
+    const compression = reader.u16() as Compression;
+    const isMask = channel.id === CHANNEL_MASK && layer.mask;
+    const planeWidth = isMask ? layer.mask!.width : width;
+    const planeHeight = isMask ? layer.mask!.height : height;
+
+    if (channel.id >= CHANNEL_MASK && channel.id <= 2 && planeWidth * planeHeight > 0) {
+      const [plane] = await readPlanes(reader, end, compression, 1, planeWidth, planeHeight);
+      if (isMask) {
+        layer.mask!.data = new Uint8ClampedArray(plane!);
+      } else if (channel.id === CHANNEL_ALPHA) {
+        for (let i = 0; i < plane!.length; i++) pixels.data[i * 4 + 3] = plane![i]!;
+      } else {
+        colorChannels.forEach((source, c) => {
+          if (source !== channel.id) return;
+          for (let i = 0; i < plane!.length; i++) pixels.data[i * 4 + c] = plane![i]!;
+        });
+      }
+    }
+    reader.pos = end;
+  }
+
+  // Layers without a transparency channel are opaque
+  if (!channels.some(channel => channel.id === CHANNEL_ALPHA)) {
+    for (let i = 3; i < pixels.data.length; i += 4) pixels.data[i] = 255;
+  }
+  if (width > 0 && height > 0 && record.section === SectionType.Layer) layer.pixels = pixels;
+}
+
+// Rebuild the group tree from the flat bottom-to-top records
+function nestLayers(records: LayerRecord[]): PsdLayer[] {
+  const stack: PsdLayer[][] = [[]];
+  for (const { layer, section } of records) {
+    if (section === SectionType.Divider) {
+      stack.push([]);
+    } else if (section === SectionType.OpenFolder || section === SectionType.ClosedFolder) {
+      const children = stack.length > 1 ? stack.pop()! : [];
+      stack[stack.length - 1]!.push({ ...layer, children, expanded: section === SectionType.OpenFolder });
+    } else {
+      stack[stack.length - 1]!.push(layer);
+    }
+  }
+  // Unclosed groups are kept as plain layers
+  while (stack.length > 1) {
+    const orphans = stack.pop()!;
+    stack[stack.length - 1]!.push(...orphans);
+  }
+  return stack[0]!;
+}
+
+/**
+ * Read a PSD file. Layers, groups, masks, blend modes and text are kept;
+ * adjustment layers, smart objects and effects come through as their pixels.
+ */
+export async function readPSD(bytes: Uint8Array): Promise<PsdDocument> {
+  const reader = new ByteReader(bytes);
+  if (bytes.length < 26 || reader.ascii(4) !== SIGNATURE) throw new Error('File is not a PSD document');
+  if (reader.u16() !== 1) throw new Error('Large documents (PSB) are not supported');
+  reader.skip(6);
+
+  const channelCount = reader.u16();
+  const height = reader.u32();
+  const width = reader.u32();
+  const depth = reader.u16();
+  const colorMode = reader.u16();
+  if (depth !== 8 || (colorMode !== COLOR_MODE_RGB && colorMode !== COLOR_MODE_GRAYSCALE)) {
+    throw new Error('Only 8-bit RGB and grayscale PSD files are supported');
+  }
+  const gray = colorMode === COLOR_MODE_GRAYSCALE;
+
+  reader.skip(reader.u32()); // color mode data
+  reader.skip(reader.u32()); // image resources
+
+  // Layer and mask information
+  const layerAndMaskLength = reader.u32();
+  const layerAndMaskEnd = reader.pos + layerAndMaskLength;
+  const records: LayerRecord[] = [];
+  let mergedAlpha = false;
+  if (layerAndMaskLength > 0) {
+    const layerInfoLength = reader.u32();
+    const layerInfoEnd = reader.pos + layerInfoLength;
+    if (layerInfoLength > 0) {
+      const signedCount = reader.i16();
+      const count = Math.abs(signedCount);
+      // A negative count means the first extra channel is the composite's transparency
+      mergedAlpha = signedCount < 0;
+      for (let i = 0; i < count; i++) records.push(readLayerRecord(reader));
+      for (const record of records) await readLayerPixels(reader, record, gray);
+    }
+    reader.pos = layerInfoEnd;
+  }
+  reader.pos = layerAndMaskEnd;
+
+  // Flattened image
+  let composite: PsdPixels | undefined;
+  if (reader.pos + 2 <= bytes.length) {
+    const compression = reader.u16() as Compression;
+    const planes = await readPlanes(reader, bytes.length, compression, channelCount, width, height);
+    const data = new Uint8ClampedArray(width * height * 4);
+    const alpha = mergedAlpha ? planes[gray ? 1 : 3] : undefined;
+    for (let i = 0; i < width * height; i++) {
+      data[i * 4] = planes[0]![i]!;
+      data[i * 4 + 1] = planes[gray ? 0 : 1]![i]!;
+      data[i * 4 + 2] = planes[gray ? 0 : 2]![i]!;
+      data[i * 4 + 3] = alpha ? alpha[i]! : 255;
+    }
+    composite = { width, height, data };
+  }
+
+  return { width, height, layers: nestLayers(records), composite };
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+interface WriteRecord {
+  layer: PsdLayer;
+  section: SectionType;
+}
+
+// Groups are written as a divider, the children, then the folder itself
+function flattenLayers(layers: PsdLayer[]): WriteRecord[] {
+  return layers.flatMap(layer => {
+    if (!layer.children) return [{ layer, section: SectionType.Layer }];
+    return [
+      {
+        layer: { name: GROUP_END_NAME, left: 0, top: 0, opacity: 1, blendMode: 'normal' as const, visible: true },
+        section: SectionType.Divider,
+      },
+      ...flattenLayers(layer.children),
+      { layer, section: layer.expanded === false ? SectionType.ClosedFolder : SectionType.OpenFolder },
+    ];
+  });
+}
+
+function channelPlane(pixels: PsdPixels, channel: number): Uint8Array {
+  const plane = new Uint8Array(pixels.width * pixels.height);
+  for (let i = 0; i < plane.length; i++) plane[i] = pixels.data[i * 4 + channel]!;
+  return plane;
+}
+
+// Compressed channel data: [id, bytes] pairs in record order
+function layerChannels(layer: PsdLayer): Array<[number, Uint8Array]> {
+  const encode = (plane: Uint8Array, width: number, height: number) => {
+    const out = new ByteWriter();
+    if (width * height === 0) {
+      out.u16(Compression.Raw);
+    } else {
+      out.u16(Compression.RLE);
+      writeRLEPlanes(out, [plane], width, height);
+    }
+    return out.toBytes();
+  };
+
+  const pixels = layer.pixels ?? { width: 0, height: 0, data: new Uint8ClampedArray(0) };
+  const channels: Array<[number, Uint8Array]> = [CHANNEL_ALPHA, 0, 1, 2].map(id => [
+    id,
+    encode(channelPlane(pixels, id === CHANNEL_ALPHA ? 3 : id), pixels.width, pixels.height),
+  ]);
+  if (layer.mask) {
+    channels.push([CHANNEL_MASK, encode(new Uint8Array(layer.mask.data), layer.mask.width, layer.mask.height)]);
+  }
+  return channels;
+}
+
+function writeMaskData(out: ByteWriter, mask: PsdLayerMask | undefined): void {
+  out.section(1, () => {
+    if (!mask) return;
+    out.i32(mask.top);
+    out.i32(mask.left);
+    out.i32(mask.top + mask.height);
+    out.i32(mask.left + mask.width);
+    out.u8(mask.defaultColor);
+
+    const parameters = (mask.density !== undefined ? MASK_USER_DENSITY : 0) | (mask.feather ? MASK_USER_FEATHER : 0);
+    out.u8((mask.disabled ? MASK_DISABLED : 0) | (parameters ? MASK_HAS_PARAMETERS : 0));
+    if (parameters) {
+      out.u8(parameters);
+      if (mask.density !== undefined) out.u8(Math.round(mask.density * 255));
+      if (mask.feather) out.f64(mask.feather);
+    } else {
+      out.u16(0);
+    }
+  });
+}
+
+function writeTaggedBlock(out: ByteWriter, key: string, write: () => void): void {
+  out.ascii(RESOURCE_SIGNATURE);
+  out.ascii(key);
+  out.section(4, write);
+}
+
+function writeLayerRecord(out: ByteWriter, { layer, section }: WriteRecord, channels: Array<[number, Uint8Array]>): void {
+  const width = layer.pixels?.width ?? 0;
+  const height = layer.pixels?.height ?? 0;
+  out.i32(layer.top);
+  out.i32(layer.left);
+  out.i32(layer.top + height);
+  out.i32(layer.left + width);
+
+  out.u16(channels.length);
+  channels.forEach(([id, data]) => {
+    out.i16(id);
+    out.u32(data.length);
+  });
+
+  const isFolder = section === SectionType.OpenFolder || section === SectionType.ClosedFolder;
+  out.ascii(RESOURCE_SIGNATURE);
+  // Folders carry their blend mode in the section block; pass-through isn't valid on the record
+  out.ascii(isFolder && layer.blendMode === 'pass-through' ? BLEND_KEYS.normal : BLEND_KEYS[layer.blendMode]);
+  out.u8(Math.round(Math.max(0, Math.min(1, layer.opacity)) * 255));
+  out.u8(layer.clipping ? 1 : 0);
+  out.u8((layer.visible ? 0 : FLAG_HIDDEN) | (section === SectionType.Layer ? 0 : FLAG_GROUP_BITS));
+  out.u8(0);
+
+  out.section(1, () => {
+    writeMaskData(out, layer.mask);
+    out.u32(0); // blending ranges
+
+    // Pascal name, for readers without Unicode support
+    const ascii = layer.name.replace(/[^\x20-\x7e]/g, '?').slice(0, 255);
+    const start = out.length;
+    out.u8(ascii.length);
+    out.ascii(ascii);
+    out.pad(4, start);
+
+    writeTaggedBlock(out, 'luni', () => {
+      out.u32(layer.name.length);
+      for (let i = 0; i < layer.name.length; i++) out.u16(layer.name.charCodeAt(i));
+    });
+    if (section !== SectionType.Layer) {
+      writeTaggedBlock(out, 'lsct', () => {
+        out.u32(section);
+        if (isFolder) {
+          out.ascii(RESOURCE_SIGNATURE);
+          out.ascii(BLEND_KEYS[layer.blendMode]);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Write a PSD file with the document's layers and groups. Text layers are
+ * written as pixels; the composite is what non-layered readers show.
+ */
+export function writePSD(doc: PsdDocument): Uint8Array {
+  const { width, height } = doc;
+  const composite = doc.composite ?? { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  if (composite.width !== width || composite.height !== height) {
+    throw new Error('Composite must be the size of the document');
+  }
+
+  let hasAlpha = false;
+  for (let i = 3; i < composite.data.length && !hasAlpha; i += 4) hasAlpha = composite.data[i] !== 255;
+
+  const out = new ByteWriter();
+  out.ascii(SIGNATURE);
+  out.u16(1);
+  out.bytes(new Uint8Array(6));
+  out.u16(hasAlpha ? 4 : 3);
+  out.u32(height);
+  out.u32(width);
+  out.u16(8);
+  out.u16(COLOR_MODE_RGB);
+  out.u32(0); // color mode data
+  out.u32(0); // image resources
+
+  const records = flattenLayers(doc.layers);
+  out.section(2, () => {
+    out.section(2, () => {
+      if (records.length === 0) return;
+      // A negative count marks the composite's alpha channel as transparency
+      out.i16(hasAlpha ? -records.length : records.length);
+      const channels = records.map(record => layerChannels(record.layer));
+      records.forEach((record, i) => writeLayerRecord(out, record, channels[i]!));
+      channels.forEach(list => list.forEach(([, data]) => out.bytes(data)));
+    });
+    out.u32(0); // global layer mask
+  });
+
+  out.u16(Compression.RLE);
+  const planes = [0, 1, 2, ...(hasAlpha ? [3] : [])].map(channel => channelPlane(composite, channel));
+  writeRLEPlanes(out, planes, width, height);
+
+  return out.toBytes();
+}
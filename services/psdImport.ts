@@ -0,0 +1,231 @@
+// =============================================
+// PSD Import
+// Convert layered Photoshop documents into editable Lumina elements
+// =============================================
+
+import type { ImportOptions, LuminaElement } from './designImportService';
+import type { PsdLayer, PsdPixels } from './psdFormat';
+import { readPSD } from './psdFormat';
+
+// =============================================
+// Types
+// =============================================
+
+export interface PSDImportIssue {
+  /** Layer path, e.g. "Header / Logo" */
+  source: string;
+  reason: string;
+}
+
+export interface PSDImportReport {
+  imported: number;
+  /** Layers or features that were dropped */
+  skipped: PSDImportIssue[];
+  /** Layers that were imported but do not match the original exactly */
+  approximated: PSDImportIssue[];
+}
+
+export interface PSDImportResult {
+  width: number;
+  height: number;
+  elements: LuminaElement[];
+  report: PSDImportReport;
+}
+
+/** Turns layer pixels into an image source; the default encodes a PNG data URL with a canvas */
+export type PSDImageEncoder = (pixels: PsdPixels) => string;
+
+interface ConvertContext {
+  options: ImportOptions;
+  report: PSDImportReport;
+  encodeImage: PSDImageEncoder;
+  counter: number;
+}
+
+// Weight names found in PostScript font names
+const FONT_WEIGHTS: Array<[RegExp, string]> = [
+  [/black|heavy/i, '900'],
+  [/extrabold|ultrabold/i, '800'],
+  [/semibold|demibold/i, '600'],
+  [/bold/i, 'bold'],
+  [/medium/i, '500'],
+  [/light/i, '300'],
+  [/thin|hairline/i, '100'],
+];
+
+// =============================================
+// Helpers
+// =============================================
+
+/** PNG data URL of the pixels, drawn with a canvas */
+export function pixelsToDataURL(pixels: PsdPixels): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available to decode PSD layers');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/** Layer pixels with the layer mask multiplied into their alpha */
+function applyMask(layer: PsdLayer, pixels: PsdPixels): PsdPixels {
+  const { mask } = layer;
+  if (!mask || mask.disabled) return pixels;
+
+  const density = mask.density ?? 1;
+  const data = new Uint8ClampedArray(pixels.data);
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      const mx = layer.left + x - mask.left;
+      const my = layer.top + y - mask.top;
+      const inside = mx >= 0 && my >= 0 && mx < mask.width && my < mask.height;
+      const value = inside ? mask.data[my * mask.width + mx]! : mask.defaultColor;
+      const coverage = 1 - (1 - value / 255) * density;
+      data[(y * pixels.width + x) * 4 + 3] = data[(y * pixels.width + x) * 4 + 3]! * coverage;
+    }
+  }
+  return { ...pixels, data };
+}
+
+/** Family and weight from a PostScript name such as "Montserrat-SemiBold" */
+export function fontFromPostScriptName(name: string): { fontFamily: string; fontWeight?: string } {
+  const [family = name, style = ''] = name.split('-');
+  const fontFamily = family.replace(/MT$|PS$/, '').replace(/([a-z])([A-Z])/g, '$1 $2');
+  const fontWeight = FONT_WEIGHTS.find(([pattern]) => pattern.test(style))?.[1];
+  return fontWeight ? { fontFamily, fontWeight } : { fontFamily };
+}
+
+function unionBox(elements: LuminaElement[]): Pick<LuminaElement, 'x' | 'y' | 'width' | 'height'> {
+  if (elements.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const left = Math.min(...elements.map(el => el.x));
+  const top = Math.min(...elements.map(el => el.y));
+  const right = Math.max(...elements.map(el => el.x + el.width));
+  const bottom = Math.max(...elements.map(el => el.y + el.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// =============================================
+// Conversion
+// =============================================
+
+function convertLayers(layers: PsdLayer[], path: string[], context: ConvertContext): LuminaElement[] {
+  return layers.flatMap(layer => convertLayer(layer, [...path, layer.name], context));
+}
+
+function convertLayer(layer: PsdLayer, path: string[], context: ConvertContext): LuminaElement[] {
+  const source = path.join(' / ');
+  const { report, options } = context;
+
+  if (!layer.visible) {
+    report.skipped.push({ source, reason: 'Hidden layer' });
+    return [];
+  }
+
+  const element = {
+    id: `psd_${++context.counter}`,
+    name: layer.name,
+    ...(layer.opacity < 1 && { opacity: Math.round(layer.opacity * 1000) / 1000 }),
+  };
+
+  if (layer.blendMode !== 'normal' && layer.blendMode !== 'pass-through') {
+    report.approximated.push({ source, reason: `Blend mode "${layer.blendMode}" is not supported and was set to normal` });
+  }
+  if (layer.clipping) {
+    report.approximated.push({ source, reason: 'Clipping mask was dropped' });
+  }
+
+  // Groups
+  if (layer.children) {
+    const children = convertLayers(layer.children, path, context);
+    if (children.length === 0) return [];
+
+    if (options.flattenGroups) {
+      if (layer.opacity < 1) report.approximated.push({ source, reason: 'Group opacity was dropped when flattening' });
+      return children;
+    }
+    return [{ ...element, type: 'group', ...unionBox(children), children }];
+  }
+
+  // Text stays editable; its pixels are only used for the bounds
+  if (layer.text) {
+    if (layer.mask) report.approximated.push({ source, reason: 'Layer mask on text was dropped' });
+    const { text } = layer;
+    return [{
+      ...element,
+      type: 'text',
+      x: layer.left,
+      y: layer.top,
+      width: layer.pixels?.width ?? 0,
+      height: layer.pixels?.height ?? 0,
+      text: text.text,
+      ...(text.fontSize !== undefined && { fontSize: Math.round(text.fontSize * 100) / 100 }),
+      ...(text.fontName && fontFromPostScriptName(text.fontName)),
+      ...(text.color && { fill: text.color }),
+      ...(text.align && { textAlign: text.align }),
+    }];
+  }
+
+  if (!layer.pixels) {
+    report.skipped.push({ source, reason: 'Layer has no pixels' });
+    return [];
+  }
+  if (options.importImages === false) {
+    report.skipped.push({ source, reason: 'Image import is turned off' });
+    return [];
+  }
+  if (layer.mask && !layer.mask.disabled) {
+    report.approximated.push({ source, reason: 'Layer mask was applied to the pixels' });
+  }
+
+  return [{
+    ...element,
+    type: 'image',
+    x: layer.left,
+    y: layer.top,
+    width: layer.pixels.width,
+    height: layer.pixels.height,
+    src: context.encodeImage(applyMask(layer, layer.pixels)),
+  }];
+}
+
+/**
+ * Parse a PSD file into elements. Layers are returned bottom to top, the
+ * order they are painted in.
+ */
+export async function parsePSD(
+  bytes: Uint8Array,
+  options: ImportOptions = {},
+  encodeImage: PSDImageEncoder = pixelsToDataURL
+): Promise<PSDImportResult> {
+  const doc = await readPSD(bytes);
+  const context: ConvertContext = {
+    options,
+    report: { imported: 0, skipped: [], approximated: [] },
+    encodeImage,
+    counter: 0,
+  };
+
+  let elements = convertLayers(doc.layers, [], context);
+
+  // Files saved without layers only carry the flattened image
+  if (doc.layers.length === 0 && doc.composite) {
+    elements = [{ id: 'psd_1', name: 'Background', type: 'image', x: 0, y: 0, width: doc.width, height: doc.height, src: encodeImage(doc.composite) }];
+  }
+
+  const count = (list: LuminaElement[]): number =>
+    list.reduce((total, el) => total + 1 + count(el.children ?? []), 0);
+  context.report.imported = count(elements);
+
+  return { width: doc.width, height: doc.height, elements, report: context.report };
+}
+
+/**
+ * Flatten a report into the warning strings stored on an import
+ */
+export function formatPSDImportReport(report: PSDImportReport): string[] {
+  return [
+    ...report.skipped.map(issue => `Skipped ${issue.source}: ${issue.reason}`),
+    ...report.approximated.map(issue => `Approximated ${issue.source}: ${issue.reason}`),
+  ];
+}
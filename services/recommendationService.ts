@@ -2,8 +2,7 @@
 // INTELLIGENT ASSET RECOMMENDATION SERVICE
 // ============================================================================
 
-import { getAIClient } from './geminiService';
-import { Type } from '@google/genai';
+import { getAIProvider } from './aiProvider';
 import {
   DEFAULT_RECOMMENDATION_CONFIG,
   RECOMMENDATION_CATEGORIES,
@@ -30,8 +29,6 @@ import type {
   RecommendationConfig
 } from '../types/recommendation';
 
-const TEXT_MODEL = 'gemini-2.0-flash';
-
 // ============================================================================
 // LOCAL STORAGE KEYS
 // ============================================================================
@@ -59,8 +56,6 @@ export async function analyzeDesignContext(
     currentAssets?: any[];
   }
 ): Promise<DesignAnalysis> {
-  const ai = getAIClient();
-
   const prompt = `Analyze this design context and extract key characteristics:
 ${input.description ? `Description: ${input.description}` : ''}
 ${input.existingColors ? `Colors in use: ${input.existingColors.join(', ')}` : ''}
@@ -76,24 +71,20 @@ Return a JSON object with:
 - targetAudience: who this is for
 - keywords: array of relevant search keywords for finding assets`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          projectType: { type: Type.STRING },
-          dominantColors: { type: Type.ARRAY, items: { type: Type.STRING } },
-          style: { type: Type.STRING },
-          mood: { type: Type.STRING },
-          industry: { type: Type.STRING },
-          targetAudience: { type: Type.STRING },
-          keywords: { type: Type.ARRAY, items: { type: Type.STRING } }
-        },
-        required: ['projectType', 'dominantColors', 'style', 'mood', 'keywords']
-      }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'object',
+      properties: {
+        projectType: { type: 'string' },
+        dominantColors: { type: 'array', items: { type: 'string' } },
+        style: { type: 'string' },
+        mood: { type: 'string' },
+        industry: { type: 'string' },
+        targetAudience: { type: 'string' },
+        keywords: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['projectType', 'dominantColors', 'style', 'mood', 'keywords']
     }
   });
 
@@ -115,25 +106,12 @@ Return a JSON object with:
  * Extract colors from an image URL
  */
 export async function extractColorsFromImage(imageUrl: string): Promise<string[]> {
-  const ai = getAIClient();
-
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: [
-      {
-        role: 'user',
-        parts: [
-          { text: 'Extract the 5 most dominant colors from this image as hex codes. Return only a JSON array of hex color strings.' },
-          { inlineData: { mimeType: 'image/jpeg', data: imageUrl } }
-        ]
-      }
-    ],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
+  const response = await getAIProvider('text').text.generate({
+    prompt: 'Extract the 5 most dominant colors from this image as hex codes. Return only a JSON array of hex color strings.',
+    media: [{ mimeType: 'image/jpeg', data: imageUrl }],
+    schema: {
+      type: 'array',
+      items: { type: 'string' }
     }
   });
 
@@ -151,8 +129,6 @@ export async function generateRecommendations(
   request: RecommendationRequest,
   config: RecommendationConfig = DEFAULT_RECOMMENDATION_CONFIG
 ): Promise<RecommendationResponse> {
-  const ai = getAIClient();
-
   // Get user preferences for personalization
   const userPrefs = getUserPreferences();
 
@@ -187,36 +163,32 @@ Generate ${request.limit || 10} highly relevant asset recommendations. For each
 
 Focus on variety while maintaining relevance to the design context.`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          recommendations: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                category: { type: Type.STRING },
-                tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                score: { type: Type.NUMBER },
-                confidence: { type: Type.STRING },
-                reasons: { type: Type.ARRAY, items: { type: Type.STRING } },
-                reasonText: { type: Type.STRING },
-                colors: { type: Type.ARRAY, items: { type: Type.STRING } },
-                style: { type: Type.STRING }
-              },
-              required: ['name', 'category', 'tags', 'score', 'confidence', 'reasons', 'reasonText']
-            }
-          },
-          contextSummary: { type: Type.STRING }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'object',
+      properties: {
+        recommendations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              category: { type: 'string' },
+              tags: { type: 'array', items: { type: 'string' } },
+              score: { type: 'number' },
+              confidence: { type: 'string' },
+              reasons: { type: 'array', items: { type: 'string' } },
+              reasonText: { type: 'string' },
+              colors: { type: 'array', items: { type: 'string' } },
+              style: { type: 'string' }
+            },
+            required: ['name', 'category', 'tags', 'score', 'confidence', 'reasons', 'reasonText']
+          }
         },
-        required: ['recommendations', 'contextSummary']
-      }
+        contextSummary: { type: 'string' }
+      },
+      required: ['recommendations', 'contextSummary']
     }
   });
 
@@ -289,8 +261,6 @@ export async function getSimilarAssets(
   library: any[],
   limit = 5
 ): Promise<RecommendedAsset[]> {
-  const ai = getAIClient();
-
   const prompt = `Find the ${limit} most similar assets to this source:
 Source: ${JSON.stringify(sourceAsset)}
 
@@ -306,22 +276,18 @@ ${JSON.stringify(library.map(a => ({
 For each match, explain why it's similar and give a similarity score (0-100).
 Return as JSON array with: id, score, reasonText`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            id: { type: Type.STRING },
-            score: { type: Type.NUMBER },
-            reasonText: { type: Type.STRING }
-          },
-          required: ['id', 'score', 'reasonText']
-        }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          score: { type: 'number' },
+          reasonText: { type: 'string' }
+        },
+        required: ['id', 'score', 'reasonText']
       }
     }
   });
@@ -357,8 +323,6 @@ Return as JSON array with: id, score, reasonText`;
  * Generate color harmony suggestions
  */
 export async function generateColorHarmonies(baseColor: string): Promise<ColorHarmony[]> {
-  const ai = getAIClient();
-
   const prompt = `Generate color harmonies for the base color ${baseColor}.
 Create 5 different harmony types: complementary, analogous, triadic, split_complementary, and monochromatic.
 For each, provide:
@@ -368,24 +332,20 @@ For each, provide:
 - mood (emotional tone)
 - useCases (where this palette works best)`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            harmonyType: { type: Type.STRING },
-            colors: { type: Type.ARRAY, items: { type: Type.STRING } },
-            name: { type: Type.STRING },
-            mood: { type: Type.STRING },
-            useCases: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ['harmonyType', 'colors', 'name', 'mood', 'useCases']
-        }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          harmonyType: { type: 'string' },
+          colors: { type: 'array', items: { type: 'string' } },
+          name: { type: 'string' },
+          mood: { type: 'string' },
+          useCases: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['harmonyType', 'colors', 'name', 'mood', 'useCases']
       }
     }
   });
@@ -409,8 +369,6 @@ export async function generatePaletteRecommendations(
   context: DesignAnalysis,
   count = 5
 ): Promise<PaletteRecommendation[]> {
-  const ai = getAIClient();
-
   const prompt = `Generate ${count} color palette recommendations for this design:
 - Style: ${context.style}
 - Mood: ${context.mood}
@@ -427,26 +385,22 @@ For each palette provide:
 - score (0-100 relevance)
 - reasons (why this works)`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            colors: { type: Type.ARRAY, items: { type: Type.STRING } },
-            harmonyType: { type: Type.STRING },
-            mood: { type: Type.STRING },
-            industry: { type: Type.STRING },
-            score: { type: Type.NUMBER },
-            reasons: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ['name', 'colors', 'harmonyType', 'mood', 'score', 'reasons']
-        }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          colors: { type: 'array', items: { type: 'string' } },
+          harmonyType: { type: 'string' },
+          mood: { type: 'string' },
+          industry: { type: 'string' },
+          score: { type: 'number' },
+          reasons: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name', 'colors', 'harmonyType', 'mood', 'score', 'reasons']
       }
     }
   });
@@ -487,8 +441,6 @@ export async function generateFontPairings(
   context: DesignAnalysis,
   count = 5
 ): Promise<FontPairing[]> {
-  const ai = getAIClient();
-
   const prompt = `Suggest ${count} font pairings for this design:
 - Style: ${context.style}
 - Mood: ${context.mood}
@@ -504,41 +456,37 @@ For each pairing provide:
 
 Use real Google Fonts that pair well together.`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            primary: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                category: { type: Type.STRING },
-                weights: { type: Type.ARRAY, items: { type: Type.NUMBER } }
-              },
-              required: ['name', 'category', 'weights']
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          primary: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              category: { type: 'string' },
+              weights: { type: 'array', items: { type: 'number' } }
             },
-            secondary: {
-              type: Type.OBJECT,
-              properties: {
-                name: { type: Type.STRING },
-                category: { type: Type.STRING },
-                weights: { type: Type.ARRAY, items: { type: Type.NUMBER } }
-              },
-              required: ['name', 'category', 'weights']
+            required: ['name', 'category', 'weights']
+          },
+          secondary: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              category: { type: 'string' },
+              weights: { type: 'array', items: { type: 'number' } }
             },
-            harmonyScore: { type: Type.NUMBER },
-            useCases: { type: Type.ARRAY, items: { type: Type.STRING } },
-            mood: { type: Type.STRING },
-            readabilityScore: { type: Type.NUMBER }
+            required: ['name', 'category', 'weights']
           },
-          required: ['primary', 'secondary', 'harmonyScore', 'useCases', 'mood', 'readabilityScore']
-        }
+          harmonyScore: { type: 'number' },
+          useCases: { type: 'array', items: { type: 'string' } },
+          mood: { type: 'string' },
+          readabilityScore: { type: 'number' }
+        },
+        required: ['primary', 'secondary', 'harmonyScore', 'useCases', 'mood', 'readabilityScore']
       }
     }
   });
@@ -578,8 +526,6 @@ export async function generateLayoutSuggestions(
   aspectRatio = '16:9',
   count = 4
 ): Promise<LayoutSuggestion[]> {
-  const ai = getAIClient();
-
   const prompt = `Suggest ${count} layout compositions for:
 - Project type: ${context.projectType}
 - Style: ${context.style}
@@ -598,42 +544,38 @@ For each layout provide:
 
 Slot types: image, text, heading, cta, logo, spacer`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            gridColumns: { type: Type.NUMBER },
-            gridRows: { type: Type.NUMBER },
-            spacing: { type: Type.NUMBER },
-            alignment: { type: Type.STRING },
-            slots: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  type: { type: Type.STRING },
-                  x: { type: Type.NUMBER },
-                  y: { type: Type.NUMBER },
-                  width: { type: Type.NUMBER },
-                  height: { type: Type.NUMBER }
-                },
-                required: ['id', 'type', 'x', 'y', 'width', 'height']
-              }
-            },
-            score: { type: Type.NUMBER },
-            reasons: { type: Type.ARRAY, items: { type: Type.STRING } }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          gridColumns: { type: 'number' },
+          gridRows: { type: 'number' },
+          spacing: { type: 'number' },
+          alignment: { type: 'string' },
+          slots: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                type: { type: 'string' },
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' }
+              },
+              required: ['id', 'type', 'x', 'y', 'width', 'height']
+            }
           },
-          required: ['name', 'gridColumns', 'gridRows', 'slots', 'score', 'reasons']
-        }
+          score: { type: 'number' },
+          reasons: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name', 'gridColumns', 'gridRows', 'slots', 'score', 'reasons']
       }
     }
   });
@@ -826,8 +768,6 @@ export async function generateSmartCollection(
   criteria: SmartCollection['criteria'],
   assets: any[]
 ): Promise<SmartCollection> {
-  const ai = getAIClient();
-
   const prompt = `From this asset library, select the best matches for a collection called "${name}":
 Criteria:
 ${criteria.styles ? `- Styles: ${criteria.styles.join(', ')}` : ''}
@@ -840,15 +780,11 @@ ${JSON.stringify(assets.map(a => ({ id: a.id, name: a.name, type: a.type, tags:
 
 Return array of asset IDs that best match, up to 20 items.`;
 
-  const response = await ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
+  const response = await getAIProvider('text').text.generate({
+    prompt: prompt,
+    schema: {
+      type: 'array',
+      items: { type: 'string' }
     }
   });
 
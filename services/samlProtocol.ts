@@ -0,0 +1,578 @@
+// SAML 2.0 Protocol - Response validation, XML-DSig verification, IdP metadata and AuthnRequests
+import {
+  C14N_EXCLUSIVE,
+  C14N_INCLUSIVE,
+  canonicalize,
+  childElements,
+  descendants,
+  firstChild,
+  getAttribute,
+  parseXML,
+  textContent,
+} from './samlXml';
+import type { CanonicalizeOptions, XMLElement } from './samlXml';
+import type { SAMLConfig } from './ssoService';
+
+export const SAML_PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+export const SAML_ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+export const SAML_METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+export const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+
+const STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+const BEARER_METHOD = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const HTTP_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+const HTTP_POST_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST';
+const ENVELOPED_SIGNATURE = 'http://www.w3.org/2000/09/xmldsig#enveloped-signature';
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256': 'SHA-256',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha384': 'SHA-384',
+  'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512': 'SHA-512',
+};
+
+const DIGEST_ALGORITHMS: Record<string, string> = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'SHA-256',
+  'http://www.w3.org/2001/04/xmldsig-more#sha384': 'SHA-384',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'SHA-512',
+};
+
+const DEFAULT_CLOCK_SKEW_SECONDS = 180;
+
+export interface SAMLReplayCache {
+  /** Record an assertion ID; resolves false if it was already used */
+  markUsed(assertionId: string, expiresAt: Date): Promise<boolean>;
+}
+
+export interface SAMLValidationOptions {
+  /** Expected Issuer (the IdP entity ID) */
+  idpEntityId: string;
+  /** IdP signing certificate(s), PEM or bare base64; several may be given during key rollover */
+  certificate: string;
+  /** Our entity ID, which must appear in the AudienceRestriction */
+  spEntityId: string;
+  /** Our Assertion Consumer Service URL (Destination and Recipient) */
+  acsUrl: string;
+  /** ID of the AuthnRequest we sent; responses must answer it */
+  expectedRequestId?: string;
+  replayCache: SAMLReplayCache;
+  /** SHA-1 signatures are refused unless the IdP is configured for them */
+  allowSHA1?: boolean;
+  clockSkewSeconds?: number;
+}
+
+export interface SAMLAssertion {
+  assertionId: string;
+  issuer: string;
+  nameId: string;
+  nameIdFormat?: string;
+  sessionIndex?: string;
+  sessionNotOnOrAfter?: Date;
+  /** Attribute values keyed by Name, and by FriendlyName when present */
+  attributes: Record<string, string | string[]>;
+}
+
+// ==========================================
+// ENCODING
+// ==========================================
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function escapeXML(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Decode a SAMLResponse form parameter (HTTP-POST binding: base64, not deflated)
+ */
+export function decodeSAMLResponse(encoded: string): string {
+  return new TextDecoder().decode(base64ToBytes(encoded));
+}
+
+// ==========================================
+// CERTIFICATES
+// ==========================================
+
+interface DERNode {
+  tag: number;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+function readDER(bytes: Uint8Array, offset: number): DERNode {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  if (tag === undefined || length === undefined) throw new Error('Truncated certificate');
+
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) throw new Error('Unsupported certificate encoding');
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) length = length * 256 + (bytes[contentStart + i] ?? 0);
+    contentStart += lengthBytes;
+  }
+
+  const end = contentStart + length;
+  if (end > bytes.length) throw new Error('Truncated certificate');
+  return { tag, start: offset, contentStart, end };
+}
+
+function readChildren(bytes: Uint8Array, parent: DERNode): DERNode[] {
+  const children: DERNode[] = [];
+  for (let offset = parent.contentStart; offset < parent.end; ) {
+    const child = readDER(bytes, offset);
+    children.push(child);
+    offset = child.end;
+  }
+  return children;
+}
+
+/**
+ * SubjectPublicKeyInfo of an X.509 certificate
+ */
+export function extractPublicKeyInfo(certificate: Uint8Array): Uint8Array {
+  const cert = readDER(certificate, 0);
+  const [tbs] = readChildren(certificate, cert);
+  if (!tbs) throw new Error('Invalid certificate');
+
+  // tbsCertificate: [0] version?, serial, signature, issuer, validity, subject, subjectPublicKeyInfo
+  const fields = readChildren(certificate, tbs);
+  const spki = fields[fields[0]?.tag === 0xa0 ? 6 : 5];
+  if (!spki) throw new Error('Invalid certificate');
+  return certificate.slice(spki.start, spki.end);
+}
+
+/**
+ * Public keys (SPKI) from PEM certificates, PEM public keys or a bare base64 certificate
+ */
+export function parseCertificates(text: string): Uint8Array[] {
+  const blocks = [...text.matchAll(/-----BEGIN ([A-Z ]+)-----([\s\S]*?)-----END \1-----/g)];
+
+  if (blocks.length === 0) {
+    const bare = text.replace(/\s+/g, '');
+    return bare ? [extractPublicKeyInfo(base64ToBytes(bare))] : [];
+  }
+
+  return blocks.map(([, label, body]) => {
+    const der = base64ToBytes(body ?? '');
+    return label === 'PUBLIC KEY' ? der : extractPublicKeyInfo(der);
+  });
+}
+
+// ==========================================
+// XML SIGNATURES
+// ==========================================
+
+function requireChild(element: XMLElement, namespaceURI: string, localName: string): XMLElement {
+  const child = firstChild(element, namespaceURI, localName);
+  if (!child) throw new Error(`Invalid signature: missing ${localName}`);
+  return child;
+}
+
+function canonicalizationFor(algorithm: string, transform: XMLElement): CanonicalizeOptions {
+  if (algorithm !== C14N_EXCLUSIVE && algorithm !== C14N_INCLUSIVE) {
+    throw new Error(`Unsupported canonicalization algorithm: ${algorithm}`);
+  }
+  const prefixList = childElements(transform)
+    .find(child => child.localName === 'InclusiveNamespaces')
+    ?.attributes.find(attr => attr.localName === 'PrefixList')?.value;
+
+  return {
+    method: algorithm,
+    inclusivePrefixes: prefixList ? prefixList.trim().split(/\s+/) : [],
+  };
+}
+
+function hashAllowed(hash: string | undefined, allowSHA1: boolean): hash is string {
+  return hash !== undefined && (hash !== 'SHA-1' || allowSHA1);
+}
+
+function elementsById(root: XMLElement): Map<string, XMLElement[]> {
+  const ids = new Map<string, XMLElement[]>();
+  for (const element of [root, ...descendants(root)]) {
+    const id = getAttribute(element, 'ID');
+    if (id !== null) ids.set(id, [...(ids.get(id) || []), element]);
+  }
+  return ids;
+}
+
+/**
+ * Verify an enveloped XML signature over `signature`'s parent element.
+ * Throws unless the signature covers exactly that element and was made by one of the keys.
+ */
+export async function verifyEnvelopedSignature(
+  root: XMLElement,
+  signature: XMLElement,
+  publicKeys: Uint8Array[],
+  allowSHA1 = false
+): Promise<void> {
+  const signed = signature.parent;
+  if (!signed) throw new Error('Invalid signature: not enveloped');
+
+  const signedInfo = requireChild(signature, XMLDSIG_NS, 'SignedInfo');
+  const canonicalizationMethod = requireChild(signedInfo, XMLDSIG_NS, 'CanonicalizationMethod');
+  const signatureMethod = getAttribute(requireChild(signedInfo, XMLDSIG_NS, 'SignatureMethod'), 'Algorithm') || '';
+  const signatureHash = SIGNATURE_ALGORITHMS[signatureMethod];
+  if (!hashAllowed(signatureHash, allowSHA1)) {
+    throw new Error(`Unsupported signature algorithm: ${signatureMethod}`);
+  }
+
+  // Exactly one reference, to the enveloping element - anything else invites wrapping attacks
+  const references = childElements(signedInfo, XMLDSIG_NS, 'Reference');
+  const reference = references[0];
+  if (references.length !== 1 || !reference) {
+    throw new Error('Invalid signature: expected exactly one reference');
+  }
+
+  const id = getAttribute(signed, 'ID');
+  const uri = getAttribute(reference, 'URI');
+  if (!id || uri !== `#${id}`) {
+    throw new Error('Invalid signature: reference does not cover the signed element');
+  }
+  if ((elementsById(root).get(id) || []).length !== 1) {
+    throw new Error('Invalid signature: duplicate element IDs');
+  }
+
+  // Transforms: enveloped-signature plus at most one canonicalization
+  let referenceCanonicalization: CanonicalizeOptions = { method: C14N_INCLUSIVE };
+  const transforms = firstChild(reference, XMLDSIG_NS, 'Transforms');
+  for (const transform of transforms ? childElements(transforms, XMLDSIG_NS, 'Transform') : []) {
+    const algorithm = getAttribute(transform, 'Algorithm') || '';
+    if (algorithm !== ENVELOPED_SIGNATURE) {
+      referenceCanonicalization = canonicalizationFor(algorithm, transform);
+    }
+  }
+
+  const digestMethod = getAttribute(requireChild(reference, XMLDSIG_NS, 'DigestMethod'), 'Algorithm') || '';
+  const digestHash = DIGEST_ALGORITHMS[digestMethod];
+  if (!hashAllowed(digestHash, allowSHA1)) {
+    throw new Error(`Unsupported digest algorithm: ${digestMethod}`);
+  }
+
+  const signedContent = canonicalize(signed, {
+    ...referenceCanonicalization,
+    exclude: element => element === signature,
+  });
+  const digest = new Uint8Array(await crypto.subtle.digest(digestHash, new TextEncoder().encode(signedContent)));
+  if (bytesToBase64(digest) !== textContent(requireChild(reference, XMLDSIG_NS, 'DigestValue')).replace(/\s+/g, '')) {
+    throw new Error('Invalid signature: digest mismatch');
+  }
+
+  const signedInfoContent = new TextEncoder().encode(
+    canonicalize(
+      signedInfo,
+      canonicalizationFor(getAttribute(canonicalizationMethod, 'Algorithm') || '', canonicalizationMethod)
+    )
+  );
+  const signatureValue = base64ToBytes(textContent(requireChild(signature, XMLDSIG_NS, 'SignatureValue')));
+
+  for (const spki of publicKeys) {
+    const key = await crypto.subtle.importKey(
+      'spki',
+      spki,
+      { name: 'RSASSA-PKCS1-v1_5', hash: signatureHash },
+      false,
+      ['verify']
+    );
+    if (await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signatureValue, signedInfoContent)) {
+      return;
+    }
+  }
+
+  throw new Error('Invalid signature');
+}
+
+// ==========================================
+// RESPONSE VALIDATION
+// ==========================================
+
+function parseInstant(value: string | null, name: string): number | null {
+  if (value === null) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid ${name} timestamp`);
+  return time;
+}
+
+function extractAttributes(assertion: XMLElement): Record<string, string | string[]> {
+  const attributes: Record<string, string | string[]> = {};
+
+  for (const statement of childElements(assertion, SAML_ASSERTION_NS, 'AttributeStatement')) {
+    for (const attribute of childElements(statement, SAML_ASSERTION_NS, 'Attribute')) {
+      const values = childElements(attribute, SAML_ASSERTION_NS, 'AttributeValue').map(value =>
+        textContent(value).trim()
+      );
+      const value = values.length === 1 ? values[0]! : values;
+
+      const name = getAttribute(attribute, 'Name');
+      const friendlyName = getAttribute(attribute, 'FriendlyName');
+      if (name) attributes[name] = value;
+      if (friendlyName && !(friendlyName in attributes)) attributes[friendlyName] = value;
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Validate a SAML Response document and return its assertion.
+ * Throws with a message safe to show the user if anything is off.
+ */
+export async function validateSAMLResponse(xml: string, options: SAMLValidationOptions): Promise<SAMLAssertion> {
+  const response = parseXML(xml);
+  if (response.namespaceURI !== SAML_PROTOCOL_NS || response.localName !== 'Response') {
+    throw new Error('Not a SAML response');
+  }
+
+  const now = Date.now();
+  const skew = (options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
+  const allowSHA1 = options.allowSHA1 ?? false;
+
+  // Status
+  const statusCode = firstChild(requireElement(response, SAML_PROTOCOL_NS, 'Status'), SAML_PROTOCOL_NS, 'StatusCode');
+  const status = statusCode ? getAttribute(statusCode, 'Value') : null;
+  if (status !== STATUS_SUCCESS) {
+    const message = firstChild(requireElement(response, SAML_PROTOCOL_NS, 'Status'), SAML_PROTOCOL_NS, 'StatusMessage');
+    throw new Error(`Identity provider rejected the login${message ? `: ${textContent(message).trim()}` : ''}`);
+  }
+
+  const destination = getAttribute(response, 'Destination');
+  if (destination !== null && destination !== options.acsUrl) {
+    throw new Error('SAML response destination mismatch');
+  }
+  const inResponseTo = getAttribute(response, 'InResponseTo');
+  if (options.expectedRequestId && inResponseTo !== options.expectedRequestId) {
+    throw new Error('SAML response does not answer our request');
+  }
+
+  const responseIssuer = firstChild(response, SAML_ASSERTION_NS, 'Issuer');
+  if (responseIssuer && textContent(responseIssuer).trim() !== options.idpEntityId) {
+    throw new Error('SAML response issuer mismatch');
+  }
+
+  // Exactly one plain assertion, directly under the response
+  if (descendants(response).some(el => el.localName === 'EncryptedAssertion')) {
+    throw new Error('Encrypted assertions are not supported');
+  }
+  const allAssertions = descendants(response).filter(
+    el => el.namespaceURI === SAML_ASSERTION_NS && el.localName === 'Assertion'
+  );
+  const assertion = childElements(response, SAML_ASSERTION_NS, 'Assertion')[0];
+  if (allAssertions.length !== 1 || !assertion) {
+    throw new Error('SAML response must contain exactly one assertion');
+  }
+
+  // Signatures: every signature present must verify, and at least one must cover the assertion
+  const publicKeys = parseCertificates(options.certificate);
+  if (publicKeys.length === 0) {
+    throw new Error('No identity provider certificate configured');
+  }
+  const responseSignature = firstChild(response, XMLDSIG_NS, 'Signature');
+  const assertionSignature = firstChild(assertion, XMLDSIG_NS, 'Signature');
+  if (!responseSignature && !assertionSignature) {
+    throw new Error('SAML response is not signed');
+  }
+  if (responseSignature) await verifyEnvelopedSignature(response, responseSignature, publicKeys, allowSHA1);
+  if (assertionSignature) await verifyEnvelopedSignature(response, assertionSignature, publicKeys, allowSHA1);
+
+  // Assertion contents
+  const assertionId = getAttribute(assertion, 'ID');
+  if (!assertionId) throw new Error('Assertion has no ID');
+
+  const issuer = textContent(requireElement(assertion, SAML_ASSERTION_NS, 'Issuer')).trim();
+  if (issuer !== options.idpEntityId) {
+    throw new Error('Assertion issuer mismatch');
+  }
+
+  const conditions = firstChild(assertion, SAML_ASSERTION_NS, 'Conditions');
+  let expiresAt = now + skew;
+  if (conditions) {
+    const notBefore = parseInstant(getAttribute(conditions, 'NotBefore'), 'NotBefore');
+    const notOnOrAfter = parseInstant(getAttribute(conditions, 'NotOnOrAfter'), 'NotOnOrAfter');
+    if (notBefore !== null && notBefore - skew > now) throw new Error('Assertion is not yet valid');
+    if (notOnOrAfter !== null && notOnOrAfter + skew <= now) throw new Error('Assertion has expired');
+    if (notOnOrAfter !== null) expiresAt = Math.max(expiresAt, notOnOrAfter + skew);
+
+    for (const restriction of childElements(conditions, SAML_ASSERTION_NS, 'AudienceRestriction')) {
+      const audiences = childElements(restriction, SAML_ASSERTION_NS, 'Audience').map(a => textContent(a).trim());
+      if (!audiences.includes(options.spEntityId)) {
+        throw new Error('Assertion audience mismatch');
+      }
+    }
+  }
+
+  const subject = requireElement(assertion, SAML_ASSERTION_NS, 'Subject');
+  const nameIdElement = requireElement(subject, SAML_ASSERTION_NS, 'NameID');
+
+  const confirmation = childElements(subject, SAML_ASSERTION_NS, 'SubjectConfirmation').find(candidate => {
+    if (getAttribute(candidate, 'Method') !== BEARER_METHOD) return false;
+    const data = firstChild(candidate, SAML_ASSERTION_NS, 'SubjectConfirmationData');
+    if (!data) return false;
+
+    const notOnOrAfter = parseInstant(getAttribute(data, 'NotOnOrAfter'), 'NotOnOrAfter');
+    const notBefore = parseInstant(getAttribute(data, 'NotBefore'), 'NotBefore');
+    return (
+      getAttribute(data, 'Recipient') === options.acsUrl &&
+      notOnOrAfter !== null &&
+      notOnOrAfter + skew > now &&
+      (notBefore === null || notBefore - skew <= now) &&
+      (!options.expectedRequestId || getAttribute(data, 'InResponseTo') === options.expectedRequestId)
+    );
+  });
+  if (!confirmation) {
+    throw new Error('Assertion has no valid bearer subject confirmation');
+  }
+  const confirmationExpiry = parseInstant(
+    getAttribute(firstChild(confirmation, SAML_ASSERTION_NS, 'SubjectConfirmationData')!, 'NotOnOrAfter'),
+    'NotOnOrAfter'
+  )!;
+  expiresAt = Math.max(expiresAt, confirmationExpiry + skew);
+
+  // Replay protection: remember the ID until the assertion could no longer be accepted anyway
+  if (!(await options.replayCache.markUsed(assertionId, new Date(expiresAt)))) {
+    throw new Error('Assertion has already been used');
+  }
+
+  const authnStatement = firstChild(assertion, SAML_ASSERTION_NS, 'AuthnStatement');
+  const sessionNotOnOrAfter = authnStatement
+    ? parseInstant(getAttribute(authnStatement, 'SessionNotOnOrAfter'), 'SessionNotOnOrAfter')
+    : null;
+
+  return {
+    assertionId,
+    issuer,
+    nameId: textContent(nameIdElement).trim(),
+    nameIdFormat: getAttribute(nameIdElement, 'Format') ?? undefined,
+    sessionIndex: (authnStatement && getAttribute(authnStatement, 'SessionIndex')) ?? undefined,
+    sessionNotOnOrAfter: sessionNotOnOrAfter !== null ? new Date(sessionNotOnOrAfter) : undefined,
+    attributes: extractAttributes(assertion),
+  };
+}
+
+function requireElement(element: XMLElement, namespaceURI: string, localName: string): XMLElement {
+  const child = firstChild(element, namespaceURI, localName);
+  if (!child) throw new Error(`SAML message is missing ${localName}`);
+  return child;
+}
+
+/**
+ * Replay cache for a single browser session; the SSO service uses a shared one
+ */
+export function createMemoryReplayCache(): SAMLReplayCache {
+  const used = new Map<string, number>();
+  return {
+    markUsed(assertionId, expiresAt) {
+      const now = Date.now();
+      used.forEach((expiry, id) => {
+        if (expiry <= now) used.delete(id);
+      });
+      if (used.has(assertionId)) return Promise.resolve(false);
+      used.set(assertionId, expiresAt.getTime());
+      return Promise.resolve(true);
+    },
+  };
+}
+
+// ==========================================
+// METADATA & REQUESTS
+// ==========================================
+
+function toPEM(base64: string): string {
+  const body = base64.replace(/\s+/g, '').match(/.{1,64}/g)?.join('\n') ?? '';
+  return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----`;
+}
+
+/**
+ * Read an IdP's SAML metadata into a SAMLConfig
+ */
+export function parseIdPMetadata(xml: string): SAMLConfig {
+  const root = parseXML(xml);
+  const entities = root.localName === 'EntitiesDescriptor' ? descendants(root) : [root];
+  const entity = entities.find(
+    el =>
+      el.namespaceURI === SAML_METADATA_NS &&
+      el.localName === 'EntityDescriptor' &&
+      firstChild(el, SAML_METADATA_NS, 'IDPSSODescriptor')
+  );
+  if (!entity) {
+    throw new Error('Metadata does not describe an identity provider');
+  }
+
+  const idp = firstChild(entity, SAML_METADATA_NS, 'IDPSSODescriptor')!;
+  const entityId = getAttribute(entity, 'entityID');
+  if (!entityId) throw new Error('Metadata has no entityID');
+
+  const certificates = childElements(idp, SAML_METADATA_NS, 'KeyDescriptor')
+    .filter(descriptor => getAttribute(descriptor, 'use') !== 'encryption')
+    .flatMap(descriptor => descendants(descriptor).filter(el => el.localName === 'X509Certificate'))
+    .map(cert => toPEM(textContent(cert)));
+  if (certificates.length === 0) {
+    throw new Error('Metadata has no signing certificate');
+  }
+
+  const endpoint = (localName: string) => {
+    const services = childElements(idp, SAML_METADATA_NS, localName);
+    const preferred =
+      services.find(s => getAttribute(s, 'Binding') === HTTP_REDIRECT_BINDING) ??
+      services.find(s => getAttribute(s, 'Binding') === HTTP_POST_BINDING);
+    return preferred ? getAttribute(preferred, 'Location') ?? undefined : undefined;
+  };
+
+  const ssoUrl = endpoint('SingleSignOnService');
+  if (!ssoUrl) throw new Error('Metadata has no supported SingleSignOnService');
+
+  const nameIdFormat = firstChild(idp, SAML_METADATA_NS, 'NameIDFormat');
+
+  return {
+    entity_id: entityId,
+    sso_url: ssoUrl,
+    slo_url: endpoint('SingleLogoutService'),
+    certificate: [...new Set(certificates)].join('\n'),
+    name_id_format: nameIdFormat ? textContent(nameIdFormat).trim() : undefined,
+  };
+}
+
+export interface AuthnRequestOptions {
+  id: string;
+  spEntityId: string;
+  acsUrl: string;
+  destination: string;
+  nameIdFormat?: string;
+}
+
+export function buildAuthnRequest(options: AuthnRequestOptions): string {
+  const nameIdPolicy = options.nameIdFormat
+    ? `<samlp:NameIDPolicy Format="${escapeXML(options.nameIdFormat)}" AllowCreate="true"/>`
+    : '';
+
+  return (
+    `<samlp:AuthnRequest xmlns:samlp="${SAML_PROTOCOL_NS}" xmlns:saml="${SAML_ASSERTION_NS}"` +
+    ` ID="${escapeXML(options.id)}" Version="2.0" IssueInstant="${new Date().toISOString()}"` +
+    ` Destination="${escapeXML(options.destination)}" ProtocolBinding="${HTTP_POST_BINDING}"` +
+    ` AssertionConsumerServiceURL="${escapeXML(options.acsUrl)}">` +
+    `<saml:Issuer>${escapeXML(options.spEntityId)}</saml:Issuer>${nameIdPolicy}</samlp:AuthnRequest>`
+  );
+}
+
+/**
+ * Encode a message for the HTTP-Redirect binding (raw DEFLATE, then base64)
+ */
+export async function encodeRedirectBinding(xml: string): Promise<string> {
+  const stream = new Blob([xml]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return bytesToBase64(new Uint8Array(await new Response(stream).arrayBuffer()));
+}
@@ -0,0 +1,397 @@
+// SAML XML - Namespace-aware XML parsing and canonicalization for XML-DSig
+//
+// SAML messages are parsed with this small parser rather than DOMParser so
+// that canonicalization sees exactly what the signer saw, in the browser and
+// in tests alike. DTDs are rejected outright (no entity expansion, no XXE).
+
+export const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+export const C14N_EXCLUSIVE = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+export const C14N_INCLUSIVE = 'http://www.w3.org/TR/2001/REC-xml-c14n-20010315';
+
+export interface XMLAttribute {
+  name: string;
+  prefix: string | null;
+  localName: string;
+  namespaceURI: string | null;
+  value: string;
+}
+
+export interface XMLText {
+  type: 'text';
+  value: string;
+}
+
+export interface XMLElement {
+  type: 'element';
+  name: string;
+  prefix: string | null;
+  localName: string;
+  namespaceURI: string | null;
+  attributes: XMLAttribute[];
+  /** Namespace declarations on this element; '' is the default namespace */
+  namespaces: Map<string, string>;
+  children: XMLNode[];
+  parent: XMLElement | null;
+}
+
+export type XMLNode = XMLElement | XMLText;
+
+export interface CanonicalizeOptions {
+  method: typeof C14N_EXCLUSIVE | typeof C14N_INCLUSIVE;
+  /** InclusiveNamespaces PrefixList for exclusive canonicalization ('#default' for the default namespace) */
+  inclusivePrefixes?: string[];
+  /** Elements to leave out, with their subtrees (e.g. the enveloped signature) */
+  exclude?: (element: XMLElement) => boolean;
+}
+
+// ==========================================
+// PARSING
+// ==========================================
+
+const NAME_PATTERN = /^[^\s/>=<"']+/;
+
+const PREDEFINED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    const decoded = PREDEFINED_ENTITIES[entity];
+    if (decoded === undefined) {
+      throw new Error(`Unknown XML entity: ${match}`);
+    }
+    return decoded;
+  });
+}
+
+function splitName(name: string): [string | null, string] {
+  const colon = name.indexOf(':');
+  return colon === -1 ? [null, name] : [name.slice(0, colon), name.slice(colon + 1)];
+}
+
+class XMLParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): XMLElement {
+    let root: XMLElement | null = null;
+
+    while (this.pos < this.text.length) {
+      if (this.text.startsWith('<?', this.pos)) {
+        this.skipPast('?>');
+      } else if (this.text.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.text.startsWith('<!', this.pos)) {
+        throw new Error('DTDs are not allowed in SAML messages');
+      } else if (this.text[this.pos] === '<') {
+        if (root) throw new Error('XML document has more than one root element');
+        root = this.parseElement(null);
+      } else if (/\s/.test(this.text[this.pos]!)) {
+        this.pos++;
+      } else {
+        throw new Error('Unexpected text outside the root element');
+      }
+    }
+
+    if (!root) throw new Error('XML document is empty');
+    return root;
+  }
+
+  private skipPast(terminator: string): void {
+    const end = this.text.indexOf(terminator, this.pos);
+    if (end === -1) throw new Error(`Unterminated XML construct, expected ${terminator}`);
+    this.pos = end + terminator.length;
+  }
+
+  private readName(): string {
+    const match = NAME_PATTERN.exec(this.text.slice(this.pos, this.pos + 512));
+    if (!match) throw new Error(`Invalid XML name at position ${this.pos}`);
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && /\s/.test(this.text[this.pos]!)) this.pos++;
+  }
+
+  private parseElement(parent: XMLElement | null): XMLElement {
+    this.pos++; // <
+    const name = this.readName();
+    const rawAttributes: Array<[string, string]> = [];
+
+    for (;;) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      if (char === undefined) throw new Error('Unterminated start tag');
+      if (char === '>' || char === '/') break;
+
+      const attrName = this.readName();
+      this.skipWhitespace();
+      if (this.text[this.pos] !== '=') throw new Error(`Attribute ${attrName} has no value`);
+      this.pos++;
+      this.skipWhitespace();
+      const quote = this.text[this.pos];
+      if (quote !== '"' && quote !== "'") throw new Error(`Attribute ${attrName} value is not quoted`);
+      const end = this.text.indexOf(quote, this.pos + 1);
+      if (end === -1) throw new Error(`Unterminated value for attribute ${attrName}`);
+      const raw = this.text.slice(this.pos + 1, end);
+      if (raw.includes('<')) throw new Error(`Invalid character in attribute ${attrName}`);
+      if (rawAttributes.some(([existing]) => existing === attrName)) {
+        throw new Error(`Duplicate attribute ${attrName}`);
+      }
+      // Attribute-value normalization: literal whitespace becomes a space
+      rawAttributes.push([attrName, decodeEntities(raw.replace(/[\t\n\r]/g, ' '))]);
+      this.pos = end + 1;
+    }
+
+    const [prefix, localName] = splitName(name);
+    const element: XMLElement = {
+      type: 'element',
+      name,
+      prefix,
+      localName,
+      namespaceURI: null,
+      attributes: [],
+      namespaces: new Map(),
+      children: [],
+      parent,
+    };
+
+    for (const [attrName, value] of rawAttributes) {
+      if (attrName === 'xmlns') element.namespaces.set('', value);
+      else if (attrName.startsWith('xmlns:')) element.namespaces.set(attrName.slice(6), value);
+    }
+
+    element.namespaceURI = lookupNamespace(element, prefix ?? '');
+    if (prefix && element.namespaceURI === null) {
+      throw new Error(`Unbound namespace prefix: ${prefix}`);
+    }
+
+    for (const [attrName, value] of rawAttributes) {
+      if (attrName === 'xmlns' || attrName.startsWith('xmlns:')) continue;
+      const [attrPrefix, attrLocal] = splitName(attrName);
+      const namespaceURI = attrPrefix ? lookupNamespace(element, attrPrefix) : null;
+      if (attrPrefix && namespaceURI === null) {
+        throw new Error(`Unbound namespace prefix: ${attrPrefix}`);
+      }
+      element.attributes.push({ name: attrName, prefix: attrPrefix, localName: attrLocal, namespaceURI, value });
+    }
+
+    if (this.text[this.pos] === '/') {
+      if (this.text[this.pos + 1] !== '>') throw new Error('Malformed empty-element tag');
+      this.pos += 2;
+      return element;
+    }
+    this.pos++; // >
+
+    this.parseContent(element);
+    return element;
+  }
+
+  private parseContent(element: XMLElement): void {
+    const appendText = (value: string) => {
+      if (!value) return;
+      const last = element.children[element.children.length - 1];
+      if (last?.type === 'text') last.value += value;
+      else element.children.push({ type: 'text', value });
+    };
+
+    for (;;) {
+      const next = this.text.indexOf('<', this.pos);
+      if (next === -1) throw new Error(`Unclosed element ${element.name}`);
+      appendText(decodeEntities(this.text.slice(this.pos, next)));
+      this.pos = next;
+
+      if (this.text.startsWith('</', this.pos)) {
+        this.pos += 2;
+        const name = this.readName();
+        if (name !== element.name) throw new Error(`Mismatched closing tag: expected ${element.name}, got ${name}`);
+        this.skipWhitespace();
+        if (this.text[this.pos] !== '>') throw new Error('Malformed closing tag');
+        this.pos++;
+        return;
+      }
+      if (this.text.startsWith('<![CDATA[', this.pos)) {
+        const end = this.text.indexOf(']]>', this.pos);
+        if (end === -1) throw new Error('Unterminated CDATA section');
+        appendText(this.text.slice(this.pos + 9, end));
+        this.pos = end + 3;
+      } else if (this.text.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.text.startsWith('<?', this.pos)) {
+        this.skipPast('?>');
+      } else if (this.text.startsWith('<!', this.pos)) {
+        throw new Error('DTDs are not allowed in SAML messages');
+      } else {
+        element.children.push(this.parseElement(element));
+      }
+    }
+  }
+}
+
+/**
+ * Parse an XML document and return its root element.
+ * Comments and processing instructions are dropped.
+ */
+export function parseXML(text: string): XMLElement {
+  // End-of-line handling, as every XML processor does before parsing
+  return new XMLParser(text.replace(/\r\n?/g, '\n')).parse();
+}
+
+// ==========================================
+// NAVIGATION
+// ==========================================
+
+export function lookupNamespace(element: XMLElement, prefix: string): string | null {
+  if (prefix === 'xml') return XML_NAMESPACE;
+  for (let current: XMLElement | null = element; current; current = current.parent) {
+    const uri = current.namespaces.get(prefix);
+    if (uri !== undefined) return uri || null;
+  }
+  return null;
+}
+
+export function childElements(element: XMLElement, namespaceURI?: string, localName?: string): XMLElement[] {
+  return element.children.filter(
+    (child): child is XMLElement =>
+      child.type === 'element' &&
+      (namespaceURI === undefined || child.namespaceURI === namespaceURI) &&
+      (localName === undefined || child.localName === localName)
+  );
+}
+
+export function firstChild(element: XMLElement, namespaceURI: string, localName: string): XMLElement | null {
+  return childElements(element, namespaceURI, localName)[0] ?? null;
+}
+
+export function descendants(element: XMLElement): XMLElement[] {
+  const result: XMLElement[] = [];
+  const visit = (current: XMLElement) => {
+    for (const child of childElements(current)) {
+      result.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return result;
+}
+
+export function textContent(element: XMLElement): string {
+  return element.children
+    .map(child => (child.type === 'text' ? child.value : textContent(child)))
+    .join('');
+}
+
+/**
+ * Value of an attribute without a namespace (SAML and XML-DSig attributes are unqualified)
+ */
+export function getAttribute(element: XMLElement, localName: string): string | null {
+  return element.attributes.find(attr => attr.namespaceURI === null && attr.localName === localName)?.value ?? null;
+}
+
+// ==========================================
+// CANONICALIZATION
+// ==========================================
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;');
+}
+
+function inScopeNamespaces(element: XMLElement): Map<string, string> {
+  const scope = new Map<string, string>();
+  for (let current: XMLElement | null = element; current; current = current.parent) {
+    current.namespaces.forEach((uri, prefix) => {
+      if (!scope.has(prefix)) scope.set(prefix, uri);
+    });
+  }
+  return scope;
+}
+
+function compareAttributes(a: XMLAttribute, b: XMLAttribute): number {
+  const nsA = a.namespaceURI ?? '';
+  const nsB = b.namespaceURI ?? '';
+  if (nsA !== nsB) return nsA < nsB ? -1 : 1;
+  return a.localName < b.localName ? -1 : a.localName > b.localName ? 1 : 0;
+}
+
+function renderElement(
+  element: XMLElement,
+  rendered: Map<string, string>,
+  options: CanonicalizeOptions,
+  out: string[]
+): void {
+  if (options.exclude?.(element)) return;
+
+  const scope = inScopeNamespaces(element);
+  let candidates: Iterable<string>;
+
+  if (options.method === C14N_EXCLUSIVE) {
+    // Only namespaces the element and its attributes visibly use, plus the PrefixList
+    const used = new Set<string>([element.prefix ?? '']);
+    element.attributes.forEach(attr => {
+      if (attr.prefix) used.add(attr.prefix);
+    });
+    (options.inclusivePrefixes || []).forEach(prefix => used.add(prefix === '#default' ? '' : prefix));
+    candidates = used;
+  } else {
+    candidates = new Set(['', ...scope.keys()]);
+  }
+
+  const declarations: Array<[string, string]> = [];
+  for (const prefix of candidates) {
+    if (prefix === 'xml') continue;
+    if (prefix !== '' && !scope.has(prefix)) continue;
+
+    const uri = scope.get(prefix) ?? '';
+    const inEffect = rendered.get(prefix) ?? (prefix === '' ? '' : undefined);
+    if (inEffect === uri) continue;
+    declarations.push([prefix, uri]);
+  }
+  declarations.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  let tag = `<${element.name}`;
+  for (const [prefix, uri] of declarations) {
+    tag += prefix ? ` xmlns:${prefix}="${escapeAttribute(uri)}"` : ` xmlns="${escapeAttribute(uri)}"`;
+  }
+  for (const attr of [...element.attributes].sort(compareAttributes)) {
+    tag += ` ${attr.name}="${escapeAttribute(attr.value)}"`;
+  }
+  out.push(`${tag}>`);
+
+  const childRendered = new Map(rendered);
+  declarations.forEach(([prefix, uri]) => childRendered.set(prefix, uri));
+
+  for (const child of element.children) {
+    if (child.type === 'text') out.push(escapeText(child.value));
+    else renderElement(child, childRendered, options, out);
+  }
+
+  out.push(`</${element.name}>`);
+}
+
+/**
+ * Canonical form of an element subtree (C14N 1.0 or Exclusive C14N, without comments)
+ */
+export function canonicalize(element: XMLElement, options: CanonicalizeOptions): string {
+  const out: string[] = [];
+  renderElement(element, new Map(), options, out);
+  return out.join('');
+}
@@ -0,0 +1,813 @@
+// =============================================
+// Sketch Import
+// Convert .sketch documents (Sketch 43+, ZIP of JSON) into Lumina elements
+// =============================================
+
+import type { DesignElement } from '../types';
+import type { ImportElementMapping, ImportOptions, LuminaElement } from './designImportService';
+import { fontFromPostScriptName } from './psdImport';
+import type { SVGGradient } from './svgImport';
+import { openZip } from './zipArchive';
+import type { ZipArchive } from './zipArchive';
+
+// =============================================
+// Types
+// =============================================
+
+export interface SketchImportIssue {
+  /** Layer path, e.g. "Home / Header / Logo" */
+  source: string;
+  reason: string;
+}
+
+export interface SketchImportReport {
+  imported: number;
+  /** Layers or features that were dropped */
+  skipped: SketchImportIssue[];
+  /** Layers that were imported but do not match the original exactly */
+  approximated: SketchImportIssue[];
+}
+
+export interface SketchPage {
+  id: string;
+  name: string;
+  elements: LuminaElement[];
+}
+
+/** A symbol master, with its layers placed relative to the symbol's top-left corner */
+export interface SketchSymbol {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  elements: LuminaElement[];
+}
+
+export interface SketchSharedStyle {
+  id: string;
+  name: string;
+  kind: 'layer' | 'text';
+  fill?: string | SVGGradient;
+  stroke?: string;
+  strokeWidth?: number;
+  fontFamily?: string;
+  fontWeight?: string;
+  fontSize?: number;
+}
+
+export interface SketchImportResult {
+  width: number;
+  height: number;
+  pages: SketchPage[];
+  /** Every page's elements, in page order */
+  elements: LuminaElement[];
+  symbols: SketchSymbol[];
+  sharedStyles: SketchSharedStyle[];
+  mappings: ImportElementMapping[];
+  report: SketchImportReport;
+}
+
+// The parts of the Sketch file format we read
+
+interface SketchColor {
+  red: number;
+  green: number;
+  blue: number;
+  alpha: number;
+}
+
+interface SketchGradient {
+  gradientType: number;
+  from: string;
+  to: string;
+  stops: Array<{ position: number; color: SketchColor }>;
+}
+
+interface SketchFill {
+  isEnabled?: boolean;
+  fillType: number;
+  color?: SketchColor;
+  gradient?: SketchGradient;
+  thickness?: number;
+}
+
+interface SketchShadow {
+  isEnabled?: boolean;
+  color: SketchColor;
+  offsetX: number;
+  offsetY: number;
+  blurRadius: number;
+  spread: number;
+}
+
+interface SketchStyle {
+  fills?: SketchFill[];
+  borders?: SketchFill[];
+  shadows?: SketchShadow[];
+  innerShadows?: SketchShadow[];
+  blur?: { isEnabled?: boolean; radius: number; type: number };
+  contextSettings?: { opacity: number; blendMode: number };
+  textStyle?: { encodedAttributes?: SketchTextAttributes };
+}
+
+interface SketchTextAttributes {
+  MSAttributedStringFontAttribute?: { attributes: { name: string; size: number } };
+  MSAttributedStringColorAttribute?: SketchColor;
+  paragraphStyle?: { alignment?: number };
+}
+
+interface SketchCurvePoint {
+  point: string;
+  curveFrom: string;
+  curveTo: string;
+  hasCurveFrom?: boolean;
+  hasCurveTo?: boolean;
+  cornerRadius?: number;
+}
+
+interface SketchLayer {
+  _class: string;
+  do_objectID: string;
+  name: string;
+  isVisible?: boolean;
+  frame: { x: number; y: number; width: number; height: number };
+  rotation?: number;
+  isFlippedHorizontal?: boolean;
+  isFlippedVertical?: boolean;
+  style?: SketchStyle;
+  sharedStyleID?: string;
+  hasClippingMask?: boolean;
+  layers?: SketchLayer[];
+  fixedRadius?: number;
+  points?: SketchCurvePoint[];
+  isClosed?: boolean;
+  booleanOperation?: number;
+  attributedString?: {
+    string?: string;
+    archivedAttributedString?: unknown;
+    attributes?: Array<{ location: number; length: number; attributes: SketchTextAttributes }>;
+  };
+  image?: { _ref: string };
+  hasBackgroundColor?: boolean;
+  backgroundColor?: SketchColor;
+  symbolID?: string;
+  overrideValues?: Array<{ overrideName: string; value: unknown }>;
+}
+
+interface SketchSharedStyleObject {
+  do_objectID: string;
+  name: string;
+  value: SketchStyle;
+}
+
+interface SketchDocument {
+  pages: Array<{ _ref: string }>;
+  layerStyles?: { objects?: SketchSharedStyleObject[] };
+  layerTextStyles?: { objects?: SketchSharedStyleObject[] };
+  foreignSymbols?: Array<{ symbolMaster: SketchLayer }>;
+  foreignLayerStyles?: Array<{ localSharedStyle: SketchSharedStyleObject }>;
+  foreignTextStyles?: Array<{ localSharedStyle: SketchSharedStyleObject }>;
+}
+
+/** Where a layer's frame lands in the output, from its parent's origin */
+interface Placement {
+  x: number;
+  y: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+interface ConvertContext {
+  options: ImportOptions;
+  report: SketchImportReport;
+  mappings: ImportElementMapping[];
+  images: Map<string, string>;
+  symbols: Map<string, SketchLayer>;
+  sharedStyles: Map<string, SketchStyle>;
+  /** Symbol overrides for the instance being expanded, keyed "layerId_property" */
+  overrides: Map<string, unknown>;
+  instanceDepth: number;
+  counter: number;
+}
+
+const ORIGIN: Placement = { x: 0, y: 0, scaleX: 1, scaleY: 1 };
+
+const FILL_COLOR = 0;
+const FILL_GRADIENT = 1;
+const GRADIENT_RADIAL = 1;
+const BOOLEAN_UNION = 0;
+
+const ALIGNMENTS = ['left', 'right', 'center', 'justify'];
+
+const SKIPPED_CLASSES: Record<string, string> = {
+  slice: 'Slices are export areas, not layers',
+  MSImmutableHotspotLayer: 'Prototype hotspots are not imported',
+  hotspot: 'Prototype hotspots are not imported',
+};
+
+/** Nested symbols deeper than this are treated as recursive */
+const MAX_INSTANCE_DEPTH = 16;
+
+// =============================================
+// Helpers
+// =============================================
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function parsePoint(value: string): { x: number; y: number } {
+  const [x = 0, y = 0] = value.replace(/[{}]/g, '').split(',').map(Number);
+  return { x, y };
+}
+
+function sketchColor(color: SketchColor, opacity = 1): string {
+  const alpha = color.alpha * opacity;
+  const channels = [color.red, color.green, color.blue].map(c => Math.round(Math.min(1, Math.max(0, c)) * 255));
+  if (alpha >= 1) return `#${channels.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  return `rgba(${channels.join(', ')}, ${round(alpha)})`;
+}
+
+function sketchGradient(gradient: SketchGradient): SVGGradient {
+  const from = parsePoint(gradient.from);
+  const to = parsePoint(gradient.to);
+  const stops = gradient.stops.map(stop => ({ offset: stop.position, color: sketchColor(stop.color) }));
+
+  if (gradient.gradientType === GRADIENT_RADIAL) {
+    return { type: 'radial', cx: round(from.x), cy: round(from.y), r: round(Math.hypot(to.x - from.x, to.y - from.y)), stops };
+  }
+  return { type: 'linear', angle: round((Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI), stops };
+}
+
+/** SVG path data for curve points, which are stored as fractions of the frame */
+function pointsToPath(points: SketchCurvePoint[], closed: boolean, box: Placement & { width: number; height: number }): string {
+  if (points.length === 0) return '';
+  const at = (value: string) => {
+    const { x, y } = parsePoint(value);
+    return `${round(box.x + x * box.width)} ${round(box.y + y * box.height)}`;
+  };
+
+  let d = `M${at(points[0]!.point)}`;
+  const segments = closed ? points.length : points.length - 1;
+  for (let i = 0; i < segments; i++) {
+    const from = points[i]!;
+    const to = points[(i + 1) % points.length]!;
+    d += from.hasCurveFrom || to.hasCurveTo
+      ? ` C${at(from.hasCurveFrom ? from.curveFrom : from.point)} ${at(to.hasCurveTo ? to.curveTo : to.point)} ${at(to.point)}`
+      : ` L${at(to.point)}`;
+  }
+  return closed ? `${d} Z` : d;
+}
+
+function imageMimeType(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49) return 'image/gif';
+  if (bytes[0] === 0x52 && bytes[8] === 0x57) return 'image/webp';
+  return null;
+}
+
+function bytesToDataURL(bytes: Uint8Array, mimeType: string): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/** Every "images/..." reference in a JSON tree */
+function collectImageRefs(value: unknown, refs: Set<string>): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectImageRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => {
+      if (key === '_ref' && typeof item === 'string' && item.startsWith('images/')) refs.add(item);
+      else collectImageRefs(item, refs);
+    });
+  }
+  return refs;
+}
+
+function unionBox(elements: LuminaElement[]): Pick<LuminaElement, 'x' | 'y' | 'width' | 'height'> {
+  if (elements.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const left = Math.min(...elements.map(el => el.x));
+  const top = Math.min(...elements.map(el => el.y));
+  const right = Math.max(...elements.map(el => el.x + el.width));
+  const bottom = Math.max(...elements.map(el => el.y + el.height));
+  return { x: round(left), y: round(top), width: round(right - left), height: round(bottom - top) };
+}
+
+function countElements(elements: LuminaElement[]): number {
+  return elements.reduce((total, el) => total + 1 + countElements(el.children ?? []), 0);
+}
+
+interface TextStyle {
+  fontFamily?: string;
+  fontWeight?: string;
+  fontSize?: number;
+  fill?: string;
+  textAlign?: string;
+}
+
+function textAttributes(attributes: SketchTextAttributes): TextStyle {
+  const font = attributes.MSAttributedStringFontAttribute?.attributes;
+  const color = attributes.MSAttributedStringColorAttribute;
+  const alignment = attributes.paragraphStyle?.alignment;
+  return {
+    ...(font && { ...fontFromPostScriptName(font.name), fontSize: round(font.size) }),
+    ...(color && { fill: sketchColor(color) }),
+    ...(alignment !== undefined && ALIGNMENTS[alignment] && { textAlign: ALIGNMENTS[alignment] }),
+  };
+}
+
+// =============================================
+// Styles
+// =============================================
+
+function layerStyle(layer: SketchLayer, context: ConvertContext): SketchStyle {
+  const shared = layer.sharedStyleID ? context.sharedStyles.get(layer.sharedStyleID) : undefined;
+  return layer.style ?? shared ?? {};
+}
+
+/** The top enabled fill as a colour or gradient */
+function fillPaint(style: SketchStyle, source: string, report: SketchImportReport): string | SVGGradient | undefined {
+  const fills = (style.fills ?? []).filter(fill => fill.isEnabled !== false);
+  const fill = fills[fills.length - 1];
+  if (fills.length > 1) report.approximated.push({ source, reason: 'Only the top fill is kept' });
+
+  if (fill?.fillType === FILL_COLOR && fill.color) return sketchColor(fill.color);
+  if (fill?.fillType === FILL_GRADIENT && fill.gradient) {
+    if (fill.gradient.gradientType > GRADIENT_RADIAL) {
+      report.approximated.push({ source, reason: 'Angular gradient shown as linear' });
+    }
+    return sketchGradient(fill.gradient);
+  }
+  if (fill) report.skipped.push({ source, reason: 'Pattern and noise fills are not supported' });
+  return undefined;
+}
+
+/** Fill, border, effects and opacity of a style onto an element */
+function applyStyle(element: LuminaElement, style: SketchStyle, source: string, context: ConvertContext): void {
+  const { report, options } = context;
+
+  const paint = fillPaint(style, source, report);
+  if (paint !== undefined) element.fill = paint;
+
+  const borders = (style.borders ?? []).filter(border => border.isEnabled !== false);
+  const border = borders[borders.length - 1];
+  if (border?.color && border.fillType === FILL_COLOR) {
+    element.stroke = sketchColor(border.color);
+    element.strokeWidth = border.thickness ?? 1;
+  } else if (border) {
+    report.approximated.push({ source, reason: 'Gradient borders are not supported' });
+  }
+
+  if (options.convertEffects !== false) {
+    const shadows = [
+      ...(style.shadows ?? []).filter(shadow => shadow.isEnabled !== false).map(shadow => ({ shadow, inner: false })),
+      ...(style.innerShadows ?? []).filter(shadow => shadow.isEnabled !== false).map(shadow => ({ shadow, inner: true })),
+    ];
+    const effects: unknown[] = shadows.map(({ shadow, inner }) => ({
+      type: 'shadow',
+      color: sketchColor(shadow.color),
+      blur: shadow.blurRadius,
+      offsetX: shadow.offsetX,
+      offsetY: shadow.offsetY,
+      spread: shadow.spread,
+      inner,
+    }));
+    if (style.blur?.isEnabled) {
+      effects.push({ type: 'blur', radius: style.blur.radius });
+      if (style.blur.type !== 0) report.approximated.push({ source, reason: 'Motion, zoom and background blurs shown as a plain blur' });
+    }
+    if (effects.length > 0) element.effects = effects;
+  }
+
+  const opacity = style.contextSettings?.opacity ?? 1;
+  if (opacity < 1) element.opacity = round(opacity);
+  if (style.contextSettings?.blendMode) {
+    report.approximated.push({ source, reason: 'Blend modes are not supported' });
+  }
+}
+
+// =============================================
+// Conversion
+// =============================================
+
+function convertLayers(
+  layers: SketchLayer[],
+  path: string[],
+  placement: Placement,
+  context: ConvertContext
+): LuminaElement[] {
+  return layers.flatMap(layer => convertLayer(layer, [...path, layer.name], placement, context));
+}
+
+function convertLayer(layer: SketchLayer, path: string[], parent: Placement, context: ConvertContext): LuminaElement[] {
+  const source = path.join(' / ');
+  const { report, options } = context;
+
+  if (layer.isVisible === false) {
+    report.skipped.push({ source, reason: 'Hidden layer' });
+    return [];
+  }
+  const skippedReason = SKIPPED_CLASSES[layer._class];
+  if (skippedReason) {
+    report.skipped.push({ source, reason: skippedReason });
+    return [];
+  }
+
+  // Frames are relative to the parent; everything we output is absolute
+  const { frame } = layer;
+  const x = parent.x + frame.x * parent.scaleX;
+  const y = parent.y + frame.y * parent.scaleY;
+  const width = frame.width * parent.scaleX;
+  const height = frame.height * parent.scaleY;
+  const inner: Placement = { x, y, scaleX: parent.scaleX, scaleY: parent.scaleY };
+
+  let element: LuminaElement = {
+    id: `sketch_${++context.counter}`,
+    name: layer.name,
+    type: 'group',
+    x: round(x),
+    y: round(y),
+    width: round(width),
+    height: round(height),
+    ...(layer.rotation ? { rotation: round(-layer.rotation) } : {}),
+  };
+
+  if (layer.isFlippedHorizontal || layer.isFlippedVertical) {
+    report.approximated.push({ source, reason: 'Flipped layers are shown unflipped' });
+  }
+  if (layer.hasClippingMask) {
+    report.approximated.push({ source, reason: 'Masks are not supported; masked layers are shown in full' });
+  }
+
+  const style = layerStyle(layer, context);
+
+  switch (layer._class) {
+    case 'artboard':
+    case 'symbolMaster': {
+      const children = convertLayers(layer.layers ?? [], path, inner, context);
+      if (layer.hasBackgroundColor && layer.backgroundColor) {
+        children.unshift({
+          id: `sketch_${++context.counter}`,
+          name: 'Background',
+          type: 'rect',
+          x: element.x,
+          y: element.y,
+          width: element.width,
+          height: element.height,
+          fill: sketchColor(layer.backgroundColor),
+        });
+      }
+      element.children = children;
+      break;
+    }
+
+    case 'group': {
+      const children = convertLayers(layer.layers ?? [], path, inner, context);
+      if (children.length === 0) return [];
+      if (options.flattenGroups) return children;
+      element.children = children;
+      applyStyle(element, { contextSettings: style.contextSettings }, source, context);
+      break;
+    }
+
+    case 'symbolInstance': {
+      const expanded = expandSymbol(layer, source, { x, y, width, height }, context);
+      if (!expanded) return [];
+      element.children = expanded;
+      applyStyle(element, { contextSettings: style.contextSettings }, source, context);
+      break;
+    }
+
+    case 'rectangle':
+    case 'oval': {
+      element.type = layer._class === 'oval' ? 'circle' : 'rect';
+      const radii = (layer.points ?? []).map(point => point.cornerRadius ?? 0);
+      const radius = radii[0] ?? layer.fixedRadius ?? 0;
+      if (layer._class === 'rectangle' && radius > 0) element.cornerRadius = round(radius);
+      if (radii.some(r => r !== radius)) {
+        report.approximated.push({ source, reason: 'Mixed corner radii use the first corner' });
+      }
+      applyStyle(element, style, source, context);
+      break;
+    }
+
+    case 'shapePath':
+    case 'star':
+    case 'polygon':
+    case 'triangle': {
+      element.type = 'path';
+      element.pathData = pointsToPath(layer.points ?? [], layer.isClosed !== false, { ...ORIGIN, width, height });
+      element.viewBox = `0 0 ${round(width)} ${round(height)}`;
+      if ((layer.points ?? []).some(point => (point.cornerRadius ?? 0) > 0)) {
+        report.approximated.push({ source, reason: 'Rounded path corners are drawn sharp' });
+      }
+      applyStyle(element, style, source, context);
+      break;
+    }
+
+    case 'shapeGroup': {
+      // Combined shapes become one path; the style lives on the group
+      const shapes = layer.layers ?? [];
+      if (shapes.some((shape, i) => i > 0 && (shape.booleanOperation ?? BOOLEAN_UNION) > BOOLEAN_UNION)) {
+        report.approximated.push({ source, reason: 'Subtract, intersect and difference are drawn as a union' });
+      }
+      element.type = 'path';
+      element.pathData = shapes
+        .filter(shape => shape.isVisible !== false)
+        .map(shape => pointsToPath(shape.points ?? [], shape.isClosed !== false, {
+          x: shape.frame.x * parent.scaleX,
+          y: shape.frame.y * parent.scaleY,
+          scaleX: 1,
+          scaleY: 1,
+          width: shape.frame.width * parent.scaleX,
+          height: shape.frame.height * parent.scaleY,
+        }))
+        .join(' ');
+      element.viewBox = `0 0 ${round(width)} ${round(height)}`;
+      applyStyle(element, style, source, context);
+      break;
+    }
+
+    case 'text': {
+      const attributed = layer.attributedString;
+      if (!attributed?.string && attributed?.archivedAttributedString) {
+        report.skipped.push({ source, reason: 'Text from Sketch versions before 48 is not supported' });
+        return [];
+      }
+
+      const runs = attributed?.attributes ?? [];
+      const firstRun = runs[0]?.attributes ?? style.textStyle?.encodedAttributes ?? {};
+      if (new Set(runs.map(run => JSON.stringify(textAttributes(run.attributes)))).size > 1) {
+        report.approximated.push({ source, reason: 'Mixed text styles use the style of the first run' });
+      }
+
+      const override = context.overrides.get(`${layer.do_objectID}_stringValue`);
+      element = {
+        ...element,
+        type: 'text',
+        text: typeof override === 'string' ? override : attributed?.string ?? '',
+        ...textAttributes(firstRun),
+      };
+      // A text fill replaces the colour of the characters
+      const textFill = (style.fills ?? []).filter(fill => fill.isEnabled !== false).pop();
+      applyStyle(element, { ...style, fills: textFill?.fillType === FILL_COLOR ? [textFill] : [] }, source, context);
+      break;
+    }
+
+    case 'bitmap': {
+      if (options.importImages === false) {
+        report.skipped.push({ source, reason: 'Image import is turned off' });
+        return [];
+      }
+      const src = layer.image && context.images.get(layer.image._ref);
+      if (!src) {
+        report.skipped.push({ source, reason: 'Image data is missing or in an unsupported format' });
+        return [];
+      }
+      element = { ...element, type: 'image', src };
+      applyStyle(element, { ...style, fills: [], borders: [] }, source, context);
+      break;
+    }
+
+    default:
+      report.skipped.push({ source, reason: `Unsupported layer type "${layer._class}"` });
+      return [];
+  }
+
+  context.mappings.push({
+    sourceId: layer.do_objectID,
+    sourceType: layer._class,
+    resultId: element.id,
+    resultType: element.type,
+  });
+  return [element];
+}
+
+/** The master's layers placed into an instance's frame, with overrides applied */
+function expandSymbol(
+  instance: SketchLayer,
+  source: string,
+  box: { x: number; y: number; width: number; height: number },
+  context: ConvertContext
+): LuminaElement[] | null {
+  const { report } = context;
+
+  // Overrides set on an outer instance win over this instance's own
+  const overrides = new Map<string, unknown>();
+  (instance.overrideValues ?? []).forEach(({ overrideName, value }) => overrides.set(overrideName, value));
+  const outerPrefix = `${instance.do_objectID}/`;
+  context.overrides.forEach((value, key) => {
+    if (key.startsWith(outerPrefix)) overrides.set(key.slice(outerPrefix.length), value);
+  });
+
+  const swapped = context.overrides.get(`${instance.do_objectID}_symbolID`);
+  const master = context.symbols.get(typeof swapped === 'string' && swapped ? swapped : instance.symbolID ?? '');
+  if (!master) {
+    report.skipped.push({ source, reason: 'Symbol master not found' });
+    return null;
+  }
+  if (context.instanceDepth >= MAX_INSTANCE_DEPTH) {
+    report.skipped.push({ source, reason: 'Symbol nests itself' });
+    return null;
+  }
+
+  overrides.forEach((value, key) => {
+    const property = key.slice(key.lastIndexOf('_') + 1);
+    if (value !== '' && value !== null && !key.includes('/') && property !== 'stringValue' && property !== 'symbolID') {
+      report.approximated.push({ source, reason: `Override "${property}" was not applied` });
+    }
+  });
+
+  const saved = context.overrides;
+  context.overrides = overrides;
+  context.instanceDepth++;
+  const placement: Placement = {
+    x: box.x,
+    y: box.y,
+    scaleX: master.frame.width ? box.width / master.frame.width : 1,
+    scaleY: master.frame.height ? box.height / master.frame.height : 1,
+  };
+  const children = convertLayers(master.layers ?? [], [source], placement, context);
+  context.instanceDepth--;
+  context.overrides = saved;
+  return children;
+}
+
+function summarizeStyle(shared: SketchSharedStyleObject, kind: SketchSharedStyle['kind']): SketchSharedStyle {
+  // Issues are only reported against layers
+  const report: SketchImportReport = { imported: 0, skipped: [], approximated: [] };
+  const fill = fillPaint(shared.value, shared.name, report);
+  const border = (shared.value.borders ?? []).filter(b => b.isEnabled !== false && b.color).pop();
+  const text = textAttributes(shared.value.textStyle?.encodedAttributes ?? {});
+  const textFill = text.fill ?? fill;
+
+  return {
+    id: shared.do_objectID,
+    name: shared.name,
+    kind,
+    ...(textFill !== undefined && { fill: textFill }),
+    ...(border?.color && { stroke: sketchColor(border.color), strokeWidth: border.thickness ?? 1 }),
+    ...(text.fontFamily && { fontFamily: text.fontFamily }),
+    ...(text.fontWeight && { fontWeight: text.fontWeight }),
+    ...(text.fontSize && { fontSize: text.fontSize }),
+  };
+}
+
+// =============================================
+// Public API
+// =============================================
+
+/**
+ * Parse a .sketch file. Symbol masters are returned as symbols rather than
+ * page content; instances are expanded in place.
+ */
+export async function parseSketch(bytes: Uint8Array, options: ImportOptions = {}): Promise<SketchImportResult> {
+  let archive: ZipArchive;
+  try {
+    archive = openZip(bytes);
+  } catch {
+    throw new Error('File is not a Sketch document');
+  }
+  if (!archive.has('document.json')) {
+    throw new Error('Sketch files from before version 43 are not supported');
+  }
+
+  const doc = JSON.parse(await archive.readText('document.json')) as SketchDocument;
+  const pageLayers = await Promise.all(doc.pages.map(async ref => {
+    const name = ref._ref.endsWith('.json') ? ref._ref : `${ref._ref}.json`;
+    return JSON.parse(await archive.readText(name)) as SketchLayer;
+  }));
+
+  const symbolMasters = [
+    ...pageLayers.flatMap(page => (page.layers ?? []).filter(layer => layer._class === 'symbolMaster')),
+    ...(doc.foreignSymbols ?? []).map(foreign => foreign.symbolMaster),
+  ];
+
+  const images = new Map<string, string>();
+  if (options.importImages !== false) {
+    const refs = collectImageRefs([pageLayers, doc.foreignSymbols ?? []], new Set());
+    await Promise.all([...refs].map(async ref => {
+      const path = archive.has(ref) ? ref : `${ref}.png`;
+      if (!archive.has(path)) return;
+      const data = await archive.read(path);
+      const mimeType = imageMimeType(data);
+      if (mimeType) images.set(ref, bytesToDataURL(data, mimeType));
+    }));
+  }
+
+  const layerStyles = [
+    ...(doc.layerStyles?.objects ?? []),
+    ...(doc.foreignLayerStyles ?? []).map(foreign => foreign.localSharedStyle),
+  ];
+  const textStyles = [
+    ...(doc.layerTextStyles?.objects ?? []),
+    ...(doc.foreignTextStyles ?? []).map(foreign => foreign.localSharedStyle),
+  ];
+
+  const context: ConvertContext = {
+    options,
+    report: { imported: 0, skipped: [], approximated: [] },
+    mappings: [],
+    images,
+    symbols: new Map(symbolMasters.map(master => [master.symbolID ?? master.do_objectID, master])),
+    sharedStyles: new Map([...layerStyles, ...textStyles].map(shared => [shared.do_objectID, shared.value])),
+    overrides: new Map(),
+    instanceDepth: 0,
+    counter: 0,
+  };
+
+  const selected = options.selectedFrames;
+  const pages = pageLayers
+    .map((page): SketchPage => {
+      const layers = (page.layers ?? [])
+        .filter(layer => layer._class !== 'symbolMaster')
+        .filter(layer => !selected?.length || selected.includes(layer.do_objectID) || selected.includes(layer.name));
+      return { id: page.do_objectID, name: page.name, elements: convertLayers(layers, [page.name], ORIGIN, context) };
+    })
+    .filter(page => page.elements.length > 0);
+
+  // Symbols are laid out from their own origin
+  const symbols = symbolMasters
+    .filter(master => master.isVisible !== false)
+    .map((master): SketchSymbol => ({
+      id: master.symbolID ?? master.do_objectID,
+      name: master.name,
+      width: round(master.frame.width),
+      height: round(master.frame.height),
+      elements: convertLayers(master.layers ?? [], [master.name], ORIGIN, context),
+    }))
+    .filter(symbol => symbol.elements.length > 0);
+
+  const sharedStyles = [
+    ...layerStyles.map(shared => summarizeStyle(shared, 'layer')),
+    ...textStyles.map(shared => summarizeStyle(shared, 'text')),
+  ];
+
+  const elements = pages.flatMap(page => page.elements);
+  context.report.imported = countElements(elements) + symbols.reduce((total, symbol) => total + countElements(symbol.elements), 0);
+  const { width, height } = unionBox(elements);
+
+  return { width, height, pages, elements, symbols, sharedStyles, mappings: context.mappings, report: context.report };
+}
+
+/**
+ * Lumina elements as the flat design elements the component library stores.
+ * Groups are flattened; their members keep their absolute positions.
+ */
+export function toDesignElements(elements: LuminaElement[]): DesignElement[] {
+  const flat = (list: LuminaElement[]): LuminaElement[] =>
+    list.flatMap(el => (el.type === 'group' ? flat(el.children ?? []) : [el]));
+
+  return flat(elements).map((el, zIndex): DesignElement => {
+    const base = {
+      id: el.id,
+      x: el.x,
+      y: el.y,
+      width: el.width,
+      height: el.height,
+      zIndex,
+      ...(el.rotation !== undefined && { rotation: el.rotation }),
+    };
+    const fill = typeof el.fill === 'string' ? el.fill : undefined;
+
+    if (el.type === 'text') {
+      return {
+        ...base,
+        type: 'text',
+        content: el.text ?? '',
+        ...(el.fontSize !== undefined && { fontSize: el.fontSize }),
+        ...(fill && { color: fill }),
+        style: { fontFamily: el.fontFamily, fontWeight: el.fontWeight, textAlign: el.textAlign, opacity: el.opacity },
+      };
+    }
+    if (el.type === 'image') {
+      return { ...base, type: 'image', content: el.src ?? '', style: { opacity: el.opacity } };
+    }
+    return {
+      ...base,
+      type: 'shape',
+      content: el.pathData ?? '',
+      ...(fill && { color: fill }),
+      style: {
+        shape: el.type,
+        backgroundColor: fill,
+        borderRadius: el.type === 'circle' ? '50%' : el.cornerRadius,
+        border: el.stroke ? `${el.strokeWidth ?? 1}px solid ${el.stroke}` : undefined,
+        opacity: el.opacity,
+        viewBox: el.viewBox,
+      },
+    };
+  });
+}
+
+/**
+ * Flatten a report into the warning strings stored on an import
+ */
+export function formatSketchImportReport(report: SketchImportReport): string[] {
+  return [
+    ...report.skipped.map(issue => `Skipped ${issue.source}: ${issue.reason}`),
+    ...report.approximated.map(issue => `Approximated ${issue.source}: ${issue.reason}`),
+  ];
+}
@@ -1,5 +1,13 @@
 // SSO/SAML Service - Enterprise authentication
 import { supabase } from '../lib/supabase';
+import {
+  buildAuthnRequest,
+  decodeSAMLResponse,
+  encodeRedirectBinding,
+  parseIdPMetadata,
+  validateSAMLResponse,
+} from './samlProtocol';
+import type { SAMLReplayCache } from './samlProtocol';
 
 export type SSOProviderType = 'saml' | 'oidc' | 'oauth2';
 export type SSOProviderName = 'okta' | 'azure_ad' | 'google' | 'onelogin' | 'auth0' | 'custom';
@@ -143,6 +151,28 @@ const DEFAULT_SSO_SETTINGS: SSOSettings = {
   require_mfa: false,
 };
 
+const EMAIL_NAME_ID_FORMAT = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Assertion IDs are recorded server-side so a captured response can't be
+ * replayed from another browser.
+ */
+const supabaseReplayCache: SAMLReplayCache = {
+  async markUsed(assertionId, expiresAt) {
+    const { error } = await supabase.from('sso_assertion_replays').insert({
+      assertion_id: assertionId,
+      expires_at: expiresAt.toISOString(),
+    });
+
+    if (!error) return true;
+    if (error.code === UNIQUE_VIOLATION) return false;
+    throw new Error('Could not record SAML assertion');
+  },
+};
+
 // Provider-specific metadata URLs
 const PROVIDER_METADATA: Partial<Record<SSOProviderName, { metadataUrlTemplate?: string; docUrl: string }>> = {
   okta: {
@@ -238,7 +268,7 @@ class SSOService {
       configData.saml_slo_url = input.saml_config.slo_url;
       configData.saml_certificate = input.saml_config.certificate;
       configData.saml_signature_algorithm = input.saml_config.signature_algorithm || 'SHA256';
-      configData.saml_name_id_format = input.saml_config.name_id_format || 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+      configData.saml_name_id_format = input.saml_config.name_id_format || EMAIL_NAME_ID_FORMAT;
     }
 
     // Add OIDC config
@@ -284,6 +314,10 @@ class SSOService {
       if (updates.saml_config.sso_url) updateData.saml_sso_url = updates.saml_config.sso_url;
       if (updates.saml_config.slo_url) updateData.saml_slo_url = updates.saml_config.slo_url;
       if (updates.saml_config.certificate) updateData.saml_certificate = updates.saml_config.certificate;
+      if (updates.saml_config.signature_algorithm) {
+        updateData.saml_signature_algorithm = updates.saml_config.signature_algorithm;
+      }
+      if (updates.saml_config.name_id_format) updateData.saml_name_id_format = updates.saml_config.name_id_format;
     }
 
     if (updates.oidc_config) {
@@ -465,29 +499,32 @@ class SSOService {
     }
   }
 
-  private initiateSAMLLogin(
+  private async initiateSAMLLogin(
     config: SSOConfiguration,
     state: string
-  ): { redirect_url: string } | null {
+  ): Promise<{ redirect_url: string } | null> {
     if (!config.saml_sso_url) return null;
 
-    // Build SAML AuthnRequest
-    const callbackUrl = `${window.location.origin}/auth/saml/callback`;
+    // The response must answer this request (InResponseTo)
     const requestId = `_${crypto.randomUUID()}`;
+    sessionStorage.setItem('sso_request_id', requestId);
+
+    const request = buildAuthnRequest({
+      id: requestId,
+      spEntityId: this.getServiceProviderEntityId(config.workspace_id),
+      acsUrl: this.getAssertionConsumerServiceUrl(),
+      destination: config.saml_sso_url,
+      nameIdFormat: config.saml_name_id_format,
+    });
 
-    // In production, this would be a proper SAML AuthnRequest
     const params = new URLSearchParams({
-      SAMLRequest: btoa(JSON.stringify({
-        id: requestId,
-        issuer: window.location.origin,
-        destination: config.saml_sso_url,
-        assertionConsumerServiceURL: callbackUrl,
-      })),
+      SAMLRequest: await encodeRedirectBinding(request),
       RelayState: state,
     });
+    const separator = config.saml_sso_url.includes('?') ? '&' : '?';
 
     return {
-      redirect_url: `${config.saml_sso_url}?${params.toString()}`,
+      redirect_url: `${config.saml_sso_url}${separator}${params.toString()}`,
     };
   }
 
@@ -522,6 +559,7 @@ class SSOService {
   ): Promise<{ success: boolean; user?: unknown; error?: string }> {
     const savedState = sessionStorage.getItem('sso_state');
     const configId = sessionStorage.getItem('sso_config_id');
+    const requestId = sessionStorage.getItem('sso_request_id');
 
     if (!savedState || params.state !== savedState) {
       return { success: false, error: 'Invalid state parameter' };
@@ -539,9 +577,13 @@ class SSOService {
     // Clear session storage
     sessionStorage.removeItem('sso_state');
     sessionStorage.removeItem('sso_config_id');
+    sessionStorage.removeItem('sso_request_id');
 
     if (type === 'saml') {
-      return this.handleSAMLCallback(config, params);
+      if (!requestId) {
+        return { success: false, error: 'Missing SAML request' };
+      }
+      return this.handleSAMLCallback(config, params, requestId);
     } else {
       return this.handleOIDCCallback(config, params);
     }
@@ -549,24 +591,44 @@ class SSOService {
 
   private async handleSAMLCallback(
     config: SSOConfiguration,
-    params: Record<string, string>
+    params: Record<string, string>,
+    requestId: string
   ): Promise<{ success: boolean; user?: unknown; error?: string }> {
-    // In production, validate and parse SAML Response
     const samlResponse = params.SAMLResponse;
     if (!samlResponse) {
       return { success: false, error: 'Missing SAML response' };
     }
+    if (!config.saml_entity_id || !config.saml_certificate) {
+      return { success: false, error: 'SAML provider is not fully configured' };
+    }
 
-    // Parse and validate response (simplified)
     try {
-      const decoded = JSON.parse(atob(samlResponse));
-      const attributes = this.mapAttributes(decoded.attributes || {}, config.attribute_mapping);
+      const assertion = await validateSAMLResponse(decodeSAMLResponse(samlResponse), {
+        idpEntityId: config.saml_entity_id,
+        certificate: config.saml_certificate,
+        spEntityId: this.getServiceProviderEntityId(config.workspace_id),
+        acsUrl: this.getAssertionConsumerServiceUrl(),
+        expectedRequestId: requestId,
+        replayCache: supabaseReplayCache,
+        allowSHA1: config.saml_signature_algorithm?.toUpperCase() === 'SHA1',
+      });
+
+      // An email-format NameID stands in for a missing email attribute
+      const source: Record<string, unknown> = { ...assertion.attributes };
+      const emailKey = config.attribute_mapping.email;
+      if (source[emailKey] === undefined && assertion.nameIdFormat === EMAIL_NAME_ID_FORMAT) {
+        source[emailKey] = assertion.nameId;
+      }
+      const attributes = this.mapAttributes(source, config.attribute_mapping);
+      if (!attributes.email) {
+        return { success: false, error: 'SAML assertion has no email address' };
+      }
 
       // Create or update user
       const user = await this.provisionUser(config, attributes);
 
       // Create SSO session
-      await this.createSSOSession(config, user.id, decoded.sessionIndex, decoded.nameId, attributes);
+      await this.createSSOSession(config, user.id, assertion.sessionIndex, assertion.nameId, attributes);
 
       // Update last used
       await supabase
@@ -575,8 +637,9 @@ class SSOService {
         .eq('id', config.id);
 
       return { success: true, user };
-    } catch {
-      return { success: false, error: 'Failed to process SAML response' };
+    } catch (error) {
+      console.error('SAML validation failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to process SAML response' };
     }
   }
 
@@ -721,9 +784,24 @@ class SSOService {
     return PROVIDER_METADATA[provider]?.docUrl || '';
   }
 
+  getServiceProviderEntityId(workspaceId: string): string {
+    return `${window.location.origin}/saml/${workspaceId}`;
+  }
+
+  getAssertionConsumerServiceUrl(): string {
+    return `${window.location.origin}/auth/saml/callback`;
+  }
+
+  /**
+   * Read IdP metadata XML (as exported by Okta, Azure AD, etc.) into a SAMLConfig
+   */
+  parseIdPMetadata(xml: string): SAMLConfig {
+    return parseIdPMetadata(xml);
+  }
+
   generateServiceProviderMetadata(workspaceId: string): string {
-    const entityId = `${window.location.origin}/saml/${workspaceId}`;
-    const acsUrl = `${window.location.origin}/auth/saml/callback`;
+    const entityId = this.getServiceProviderEntityId(workspaceId);
+    const acsUrl = this.getAssertionConsumerServiceUrl();
     const sloUrl = `${window.location.origin}/auth/saml/logout`;
 
     return `<?xml version="1.0" encoding="UTF-8"?>
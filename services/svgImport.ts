@@ -0,0 +1,973 @@
+// =============================================
+// SVG Import
+// Convert SVG documents into editable Lumina elements
+// =============================================
+
+import type { ImportOptions, LuminaElement } from './designImportService';
+
+// =============================================
+// Types
+// =============================================
+
+export interface SVGImportIssue {
+  /** Tag name plus id, e.g. "filter#glow" */
+  source: string;
+  reason: string;
+}
+
+export interface SVGImportReport {
+  imported: number;
+  /** Elements or features that were dropped */
+  skipped: SVGImportIssue[];
+  /** Elements that were imported but do not match the original exactly */
+  approximated: SVGImportIssue[];
+}
+
+export interface SVGGradientStop {
+  offset: number;
+  color: string;
+}
+
+export type SVGGradient =
+  | { type: 'linear'; angle: number; stops: SVGGradientStop[] }
+  | { type: 'radial'; cx: number; cy: number; r: number; stops: SVGGradientStop[] };
+
+export interface SVGImportResult {
+  width: number;
+  height: number;
+  elements: LuminaElement[];
+  report: SVGImportReport;
+}
+
+/** Affine matrix [a, b, c, d, e, f], as in SVG's matrix() */
+type Matrix = [number, number, number, number, number, number];
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/** Inherited presentation properties */
+interface InheritedStyle {
+  fill: string;
+  fillOpacity: number;
+  stroke: string;
+  strokeOpacity: number;
+  strokeWidth: number;
+  color: string;
+  fontFamily?: string;
+  fontSize: number;
+  fontWeight?: string;
+  textAnchor: string;
+  visibility: string;
+}
+
+interface ConvertContext {
+  options: ImportOptions;
+  report: SVGImportReport;
+  defs: Map<string, Element>;
+  ids: Set<string>;
+  counter: number;
+  useDepth: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const INITIAL_STYLE: InheritedStyle = {
+  fill: '#000000',
+  fillOpacity: 1,
+  stroke: 'none',
+  strokeOpacity: 1,
+  strokeWidth: 1,
+  color: '#000000',
+  fontSize: 16,
+  textAnchor: 'start',
+  visibility: 'visible',
+};
+
+/** Elements that never render on their own */
+const NON_RENDERED = new Set([
+  'defs', 'title', 'desc', 'metadata', 'linearGradient', 'radialGradient', 'stop', 'symbol',
+]);
+
+/** Elements we recognise but cannot represent on the canvas */
+const UNSUPPORTED: Record<string, string> = {
+  clipPath: 'Clipping paths are not supported',
+  mask: 'Masks are not supported',
+  filter: 'Filters are not supported',
+  pattern: 'Pattern fills are not supported',
+  marker: 'Markers are not supported',
+  foreignObject: 'Embedded HTML is not supported',
+  style: 'CSS stylesheets are not applied; use presentation attributes or inline styles',
+  script: 'Scripts are ignored',
+  switch: 'Conditional content is not supported',
+  animate: 'SVG animation is not supported',
+  animateTransform: 'SVG animation is not supported',
+  animateMotion: 'SVG animation is not supported',
+  set: 'SVG animation is not supported',
+};
+
+const MAX_USE_DEPTH = 8;
+
+// =============================================
+// Geometry
+// =============================================
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+function scaleFactor(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+function round(value: number): number {
+  // `|| 0` folds -0 into 0
+  return Math.round(value * 1000) / 1000 || 0;
+}
+
+function parseNumbers(text: string): number[] {
+  return (text.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+}
+
+/**
+ * Parse a transform attribute into a single matrix
+ */
+export function parseTransform(value: string | null): Matrix {
+  let result = IDENTITY;
+  if (!value) return result;
+
+  for (const [, name, args] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+    const n = parseNumbers(args ?? '');
+    let m: Matrix = IDENTITY;
+
+    switch (name) {
+      case 'matrix':
+        if (n.length === 6) m = n as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0];
+        break;
+      case 'scale':
+        m = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = ((n[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const cx = n[1] ?? 0;
+        const cy = n[2] ?? 0;
+        m = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        m = [1, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    result = multiply(result, m);
+  }
+
+  return result;
+}
+
+/**
+ * Place a local box on the canvas. The matrix is split into
+ * rotation · skewX · scale, so the result stays editable as x/y/size/rotation.
+ */
+function placeBox(box: Box, m: Matrix): Pick<LuminaElement, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'skewX'> & { mirrored: boolean } {
+  const scaleX = Math.hypot(m[0], m[1]);
+  const rotation = Math.atan2(m[1], m[0]);
+  const shear = scaleX === 0 ? 0 : (m[0] * m[2] + m[1] * m[3]) / scaleX;
+  const scaleY = scaleX === 0 ? 0 : (m[0] * m[3] - m[1] * m[2]) / scaleX;
+
+  const width = box.width * scaleX;
+  const height = box.height * Math.abs(scaleY);
+  const center = apply(m, { x: box.x + box.width / 2, y: box.y + box.height / 2 });
+  const degrees = round((rotation * 180) / Math.PI);
+  const skew = scaleY === 0 ? 0 : round((Math.atan(shear / scaleY) * 180) / Math.PI);
+
+  return {
+    x: round(center.x - width / 2),
+    y: round(center.y - height / 2),
+    width: round(width),
+    height: round(height),
+    ...(degrees !== 0 ? { rotation: degrees } : {}),
+    ...(skew !== 0 ? { skewX: skew } : {}),
+    mirrored: scaleY < 0,
+  };
+}
+
+function unionBox(elements: LuminaElement[]): Box {
+  if (elements.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const left = Math.min(...elements.map(el => el.x));
+  const top = Math.min(...elements.map(el => el.y));
+  const right = Math.max(...elements.map(el => el.x + el.width));
+  const bottom = Math.max(...elements.map(el => el.y + el.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function boundsOf(points: Point[]): Box {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// =============================================
+// Path bounds
+// =============================================
+
+const CURVE_SAMPLES = 16;
+
+function sampleCubic(p0: Point, p1: Point, p2: Point, p3: Point, out: Point[]): void {
+  for (let i = 1; i <= CURVE_SAMPLES; i++) {
+    const t = i / CURVE_SAMPLES;
+    const u = 1 - t;
+    out.push({
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    });
+  }
+}
+
+function sampleQuadratic(p0: Point, p1: Point, p2: Point, out: Point[]): void {
+  for (let i = 1; i <= CURVE_SAMPLES; i++) {
+    const t = i / CURVE_SAMPLES;
+    const u = 1 - t;
+    out.push({
+      x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+      y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y,
+    });
+  }
+}
+
+/** Endpoint-to-center arc conversion (SVG 1.1 implementation notes, F.6.5) */
+function sampleArc(
+  from: Point,
+  rxIn: number,
+  ryIn: number,
+  xAxisRotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point,
+  out: Point[]
+): void {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0) {
+    out.push(to);
+    return;
+  }
+
+  const phi = (xAxisRotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  for (let i = 1; i <= CURVE_SAMPLES; i++) {
+    const theta = start + (delta * i) / CURVE_SAMPLES;
+    const ex = rx * Math.cos(theta);
+    const ey = ry * Math.sin(theta);
+    out.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+  }
+}
+
+/**
+ * Bounding box of path data in its own coordinate system
+ */
+export function pathBounds(d: string): Box {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const points: Point[] = [];
+  let i = 0;
+  let command = '';
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+
+  const next = () => Number(tokens[i++]);
+  const hasNumber = () => i < tokens.length && !/^[a-zA-Z]$/.test(tokens[i] ?? '');
+
+  while (i < tokens.length) {
+    if (/^[a-zA-Z]$/.test(tokens[i] ?? '')) {
+      command = tokens[i++] ?? '';
+    } else if (!command) {
+      break;
+    }
+
+    const relative = command === command.toLowerCase();
+    const abs = (x: number, y: number): Point => (relative ? { x: current.x + x, y: current.y + y } : { x, y });
+    const upper = command.toUpperCase();
+
+    if (upper === 'Z') {
+      current = start;
+      points.push(current);
+      lastControl = null;
+      lastCommand = upper;
+      continue;
+    }
+    if (!hasNumber()) break;
+
+    switch (upper) {
+      case 'M':
+        current = abs(next(), next());
+        start = current;
+        points.push(current);
+        // Further pairs after a moveto are implicit linetos
+        command = relative ? 'l' : 'L';
+        lastControl = null;
+        break;
+      case 'L':
+        current = abs(next(), next());
+        points.push(current);
+        lastControl = null;
+        break;
+      case 'H': {
+        const x = next();
+        current = { x: relative ? current.x + x : x, y: current.y };
+        points.push(current);
+        lastControl = null;
+        break;
+      }
+      case 'V': {
+        const y = next();
+        current = { x: current.x, y: relative ? current.y + y : y };
+        points.push(current);
+        lastControl = null;
+        break;
+      }
+      case 'C': {
+        const c1 = abs(next(), next());
+        const c2 = abs(next(), next());
+        const end = abs(next(), next());
+        sampleCubic(current, c1, c2, end, points);
+        lastControl = c2;
+        current = end;
+        break;
+      }
+      case 'S': {
+        const c1 = lastControl && (lastCommand === 'C' || lastCommand === 'S')
+          ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+          : current;
+        const c2 = abs(next(), next());
+        const end = abs(next(), next());
+        sampleCubic(current, c1, c2, end, points);
+        lastControl = c2;
+        current = end;
+        break;
+      }
+      case 'Q': {
+        const c = abs(next(), next());
+        const end = abs(next(), next());
+        sampleQuadratic(current, c, end, points);
+        lastControl = c;
+        current = end;
+        break;
+      }
+      case 'T': {
+        const c: Point = lastControl && (lastCommand === 'Q' || lastCommand === 'T')
+          ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+          : current;
+        const end = abs(next(), next());
+        sampleQuadratic(current, c, end, points);
+        lastControl = c;
+        current = end;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const end = abs(next(), next());
+        sampleArc(current, rx, ry, rotation, largeArc, sweep, end, points);
+        lastControl = null;
+        current = end;
+        break;
+      }
+      default:
+        return boundsOf(points);
+    }
+
+    lastCommand = upper;
+  }
+
+  return boundsOf(points);
+}
+
+// =============================================
+// Styles
+// =============================================
+
+function parseInlineStyle(element: Element): Record<string, string> {
+  const declarations: Record<string, string> = {};
+  for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    declarations[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+  }
+  return declarations;
+}
+
+/** Inline style wins over presentation attributes */
+function property(element: Element, name: string): string | null {
+  return parseInlineStyle(element)[name] ?? element.getAttribute(name);
+}
+
+function parseOpacity(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const number = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+  return Number.isNaN(number) ? undefined : Math.min(1, Math.max(0, number));
+}
+
+/**
+ * Parse a length in user units. Percentages resolve against the reference size.
+ */
+function parseLength(value: string | null, reference = 0, fallback = 0): number {
+  if (!value) return fallback;
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) return fallback;
+
+  const unit = value.trim().replace(/^[-+\d.eE]+/, '');
+  switch (unit) {
+    case '%': return (number / 100) * reference;
+    case 'pt': return (number * 4) / 3;
+    case 'pc': return number * 16;
+    case 'in': return number * 96;
+    case 'cm': return (number * 96) / 2.54;
+    case 'mm': return (number * 96) / 25.4;
+    case 'em': return number * 16;
+    default: return number;
+  }
+}
+
+function inheritStyle(element: Element, parent: InheritedStyle): InheritedStyle {
+  const style = { ...parent };
+  const read = (name: string) => {
+    const value = property(element, name);
+    return value === null || value === 'inherit' ? null : value;
+  };
+
+  style.color = read('color') ?? style.color;
+  style.fill = read('fill') ?? style.fill;
+  style.stroke = read('stroke') ?? style.stroke;
+  style.fillOpacity = parseOpacity(read('fill-opacity')) ?? style.fillOpacity;
+  style.strokeOpacity = parseOpacity(read('stroke-opacity')) ?? style.strokeOpacity;
+  style.strokeWidth = parseLength(read('stroke-width'), 0, style.strokeWidth);
+  style.fontFamily = read('font-family')?.replace(/["']/g, '') ?? style.fontFamily;
+  style.fontSize = parseLength(read('font-size'), parent.fontSize, style.fontSize);
+  style.fontWeight = read('font-weight') ?? style.fontWeight;
+  style.textAnchor = read('text-anchor') ?? style.textAnchor;
+  style.visibility = read('visibility') ?? style.visibility;
+
+  return style;
+}
+
+/** Apply an opacity to a hex or rgb() color; returns null for anything else */
+function withAlpha(color: string, alpha: number): string | null {
+  if (alpha >= 1) return color;
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    return `#${full}${Math.round(alpha * 255).toString(16).padStart(2, '0')}`;
+  }
+
+  const rgb = color.match(/^rgb\(\s*([^)]+)\)$/i)?.[1];
+  if (rgb) {
+    return `rgba(${rgb}, ${round(alpha)})`;
+  }
+
+  return null;
+}
+
+// =============================================
+// Converter
+// =============================================
+
+function describe(element: Element): string {
+  const id = element.getAttribute('id');
+  return id ? `${element.localName}#${id}` : element.localName;
+}
+
+function hrefOf(element: Element): string | null {
+  return element.getAttribute('href') ?? element.getAttributeNS('http://www.w3.org/1999/xlink', 'href');
+}
+
+function nextId(element: Element, context: ConvertContext): string {
+  const base = element.getAttribute('id');
+  let id = base ? `svg_${base}` : `svg_${element.localName}_${++context.counter}`;
+  while (context.ids.has(id)) {
+    id = `svg_${element.localName}_${++context.counter}`;
+  }
+  context.ids.add(id);
+  return id;
+}
+
+/** Stops are inherited through href when a gradient has none of its own */
+function gradientStops(gradient: Element, context: ConvertContext, seen = new Set<Element>()): Element[] {
+  const stops = Array.from(gradient.children).filter(child => child.localName === 'stop');
+  if (stops.length > 0 || seen.has(gradient)) return stops;
+
+  seen.add(gradient);
+  const parent = context.defs.get((hrefOf(gradient) ?? '').replace(/^#/, ''));
+  return parent ? gradientStops(parent, context, seen) : [];
+}
+
+function gradientAttribute(gradient: Element, name: string, context: ConvertContext, seen = new Set<Element>()): string | null {
+  const value = gradient.getAttribute(name);
+  if (value !== null || seen.has(gradient)) return value;
+
+  seen.add(gradient);
+  const parent = context.defs.get((hrefOf(gradient) ?? '').replace(/^#/, ''));
+  return parent ? gradientAttribute(parent, name, context, seen) : null;
+}
+
+function convertGradient(gradient: Element, opacity: number, context: ConvertContext): SVGGradient {
+  const attr = (name: string) => gradientAttribute(gradient, name, context);
+  const fraction = (value: string | null, fallback: number) =>
+    value === null ? fallback : value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+
+  const stops = gradientStops(gradient, context).map((stop): SVGGradientStop => {
+    const color = property(stop, 'stop-color') ?? '#000000';
+    const alpha = (parseOpacity(property(stop, 'stop-opacity')) ?? 1) * opacity;
+    return {
+      offset: Math.min(1, Math.max(0, fraction(stop.getAttribute('offset'), 0))),
+      color: withAlpha(color, alpha) ?? color,
+    };
+  });
+
+  if (gradient.localName === 'radialGradient') {
+    return {
+      type: 'radial',
+      cx: fraction(attr('cx'), 0.5),
+      cy: fraction(attr('cy'), 0.5),
+      r: fraction(attr('r'), 0.5),
+      stops,
+    };
+  }
+
+  const x1 = fraction(attr('x1'), 0);
+  const y1 = fraction(attr('y1'), 0);
+  const x2 = fraction(attr('x2'), 1);
+  const y2 = fraction(attr('y2'), 0);
+
+  return {
+    type: 'linear',
+    angle: round((Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI),
+    stops,
+  };
+}
+
+/**
+ * Resolve a fill or stroke paint. Returns undefined for 'none'.
+ */
+function convertPaint(
+  paint: string,
+  opacity: number,
+  style: InheritedStyle,
+  source: Element,
+  context: ConvertContext
+): string | SVGGradient | undefined {
+  const value = paint.trim();
+  if (value === 'none' || value === 'transparent') return undefined;
+
+  const reference = value.match(/^url\(\s*["']?#([^"')]+)["']?\s*\)/);
+  if (reference) {
+    const target = context.defs.get(reference[1] ?? '');
+    if (target?.localName === 'linearGradient' || target?.localName === 'radialGradient') {
+      return convertGradient(target, opacity, context);
+    }
+    context.report.approximated.push({
+      source: describe(source),
+      reason: `Paint server ${value} is not supported; used a flat color`,
+    });
+    return '#000000';
+  }
+
+  const color = value === 'currentColor' ? style.color : value;
+  const translucent = withAlpha(color, opacity);
+  if (translucent === null) {
+    context.report.approximated.push({
+      source: describe(source),
+      reason: `Opacity ${opacity} could not be applied to color ${color}`,
+    });
+    return color;
+  }
+  return translucent;
+}
+
+function applyPaint(
+  element: LuminaElement,
+  style: InheritedStyle,
+  source: Element,
+  matrix: Matrix,
+  context: ConvertContext
+): void {
+  const fill = convertPaint(style.fill, style.fillOpacity, style, source, context);
+  if (fill !== undefined) element.fill = fill;
+
+  const stroke = convertPaint(style.stroke, style.strokeOpacity, style, source, context);
+  if (stroke !== undefined && style.strokeWidth > 0) {
+    if (typeof stroke === 'string') {
+      element.stroke = stroke;
+    } else {
+      element.stroke = stroke.stops[0]?.color ?? '#000000';
+      context.report.approximated.push({ source: describe(source), reason: 'Gradient stroke replaced by its first color' });
+    }
+    element.strokeWidth = round(style.strokeWidth * scaleFactor(matrix));
+  }
+}
+
+function applyOpacity(element: LuminaElement, source: Element): void {
+  const opacity = parseOpacity(property(source, 'opacity'));
+  if (opacity !== undefined && opacity < 1) element.opacity = opacity;
+}
+
+function shapeElement(
+  source: Element,
+  type: LuminaElement['type'],
+  box: Box,
+  matrix: Matrix,
+  context: ConvertContext
+): LuminaElement {
+  const { mirrored, ...placement } = placeBox(box, matrix);
+  if (mirrored) {
+    context.report.approximated.push({ source: describe(source), reason: 'Mirroring is not supported and was dropped' });
+  }
+
+  const element: LuminaElement = { id: nextId(source, context), type, ...placement };
+  const name = source.getAttribute('id');
+  if (name) element.name = name;
+  return element;
+}
+
+function convertChildren(parent: Element, matrix: Matrix, style: InheritedStyle, context: ConvertContext): LuminaElement[] {
+  return Array.from(parent.children).flatMap(child => convertNode(child, matrix, style, context));
+}
+
+/** Nested <svg> or <symbol> viewport: position plus viewBox scaling */
+function viewportMatrix(element: Element, width: number, height: number): Matrix {
+  const viewBox = parseNumbers(element.getAttribute('viewBox') ?? '');
+  const x = parseLength(element.getAttribute('x'));
+  const y = parseLength(element.getAttribute('y'));
+  if (viewBox.length !== 4 || !viewBox[2] || !viewBox[3]) return [1, 0, 0, 1, x, y];
+
+  const [minX = 0, minY = 0, vbWidth, vbHeight] = viewBox;
+  const preserve = element.getAttribute('preserveAspectRatio') ?? 'xMidYMid meet';
+  let sx = width / vbWidth;
+  let sy = height / vbHeight;
+  let tx = x - minX * sx;
+  let ty = y - minY * sy;
+
+  if (!preserve.startsWith('none')) {
+    const scale = preserve.includes('slice') ? Math.max(sx, sy) : Math.min(sx, sy);
+    const align = preserve.split(/\s+/)[0] ?? 'xMidYMid';
+    const freeX = width - vbWidth * scale;
+    const freeY = height - vbHeight * scale;
+    sx = sy = scale;
+    tx = x - minX * scale + (align.includes('xMid') ? freeX / 2 : align.includes('xMax') ? freeX : 0);
+    ty = y - minY * scale + (align.includes('YMid') ? freeY / 2 : align.includes('YMax') ? freeY : 0);
+  }
+
+  return [sx, 0, 0, sy, tx, ty];
+}
+
+function convertNode(
+  source: Element,
+  parentMatrix: Matrix,
+  parentStyle: InheritedStyle,
+  context: ConvertContext
+): LuminaElement[] {
+  const tag = source.localName;
+
+  if (NON_RENDERED.has(tag)) return [];
+  if (tag in UNSUPPORTED) {
+    context.report.skipped.push({ source: describe(source), reason: UNSUPPORTED[tag] ?? 'Not supported' });
+    return [];
+  }
+  if (property(source, 'display') === 'none') return [];
+
+  const style = inheritStyle(source, parentStyle);
+  const matrix = multiply(parentMatrix, parseTransform(source.getAttribute('transform')));
+  const num = (name: string, fallback = 0) => parseLength(source.getAttribute(name), 0, fallback);
+
+  const unsupportedReference = (attribute: string, reason: string) => {
+    if (property(source, attribute) && property(source, attribute) !== 'none') {
+      context.report.approximated.push({ source: describe(source), reason });
+    }
+  };
+  unsupportedReference('clip-path', 'Clipping path was ignored');
+  unsupportedReference('mask', 'Mask was ignored');
+  unsupportedReference('filter', 'Filter effect was ignored');
+
+  let element: LuminaElement | null = null;
+
+  switch (tag) {
+    case 'g':
+    case 'a': {
+      const children = convertChildren(source, matrix, style, context);
+      if (children.length === 0) return [];
+      if (context.options.flattenGroups) return children;
+
+      element = { id: nextId(source, context), type: 'group', ...unionBox(children), children };
+      const name = source.getAttribute('id');
+      if (name) element.name = name;
+      applyOpacity(element, source);
+      return [element];
+    }
+
+    case 'svg': {
+      const width = num('width', 0);
+      const height = num('height', 0);
+      const children = convertChildren(source, multiply(matrix, viewportMatrix(source, width, height)), style, context);
+      if (children.length === 0) return [];
+      if (context.options.flattenGroups) return children;
+
+      element = { id: nextId(source, context), type: 'group', ...unionBox(children), children };
+      applyOpacity(element, source);
+      return [element];
+    }
+
+    case 'use': {
+      const target = context.defs.get((hrefOf(source) ?? '').replace(/^#/, ''));
+      if (!target || context.useDepth >= MAX_USE_DEPTH) {
+        context.report.skipped.push({ source: describe(source), reason: 'Referenced element not found' });
+        return [];
+      }
+
+      const placed = multiply(matrix, [1, 0, 0, 1, num('x'), num('y')]);
+      context.useDepth++;
+      const children = target.localName === 'symbol'
+        ? convertChildren(target, multiply(placed, viewportMatrix(target, num('width', 0), num('height', 0))), inheritStyle(target, style), context)
+        : convertNode(target, placed, style, context);
+      context.useDepth--;
+
+      if (children.length === 0 || context.options.flattenGroups) return children;
+      element = { id: nextId(source, context), type: 'group', ...unionBox(children), children };
+      applyOpacity(element, source);
+      return [element];
+    }
+
+    case 'rect': {
+      const width = num('width');
+      const height = num('height');
+      if (width <= 0 || height <= 0) return [];
+
+      element = shapeElement(source, 'rect', { x: num('x'), y: num('y'), width, height }, matrix, context);
+      const rx = source.getAttribute('rx') ?? source.getAttribute('ry');
+      if (rx) element.cornerRadius = round(parseLength(rx) * scaleFactor(matrix));
+      break;
+    }
+
+    case 'circle':
+    case 'ellipse': {
+      const rx = tag === 'circle' ? num('r') : num('rx');
+      const ry = tag === 'circle' ? num('r') : num('ry', rx);
+      if (rx <= 0 || ry <= 0) return [];
+
+      element = shapeElement(source, 'circle', { x: num('cx') - rx, y: num('cy') - ry, width: rx * 2, height: ry * 2 }, matrix, context);
+      break;
+    }
+
+    case 'line': {
+      const from = apply(matrix, { x: num('x1'), y: num('y1') });
+      const to = apply(matrix, { x: num('x2'), y: num('y2') });
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+      const angle = round((Math.atan2(to.y - from.y, to.x - from.x) * 180) / Math.PI);
+
+      element = {
+        id: nextId(source, context),
+        type: 'line',
+        x: round((from.x + to.x) / 2 - length / 2),
+        y: round((from.y + to.y) / 2),
+        width: round(length),
+        height: 0,
+        ...(angle !== 0 ? { rotation: angle } : {}),
+      };
+      break;
+    }
+
+    case 'path':
+    case 'polygon':
+    case 'polyline': {
+      let d = source.getAttribute('d') ?? '';
+      if (tag !== 'path') {
+        const points = parseNumbers(source.getAttribute('points') ?? '');
+        const pairs: string[] = [];
+        for (let i = 0; i + 1 < points.length; i += 2) pairs.push(`${points[i]} ${points[i + 1]}`);
+        d = pairs.length > 0 ? `M${pairs.join(' L')}${tag === 'polygon' ? ' Z' : ''}` : '';
+      }
+      if (!d.trim()) return [];
+
+      const box = pathBounds(d);
+      element = shapeElement(source, 'path', box, matrix, context);
+      element.pathData = d;
+      element.viewBox = [box.x, box.y, box.width, box.height].map(round).join(' ');
+      break;
+    }
+
+    case 'text': {
+      const text = (source.textContent ?? '').replace(/\s+/g, ' ').trim();
+      if (!text) return [];
+
+      if (Array.from(source.children).some(child => child.localName === 'tspan' && (child.hasAttribute('x') || child.hasAttribute('y') || child.hasAttribute('dy')))) {
+        context.report.approximated.push({ source: describe(source), reason: 'Positioned text spans merged into a single line' });
+      }
+      if (Array.from(source.children).some(child => child.localName === 'textPath')) {
+        context.report.approximated.push({ source: describe(source), reason: 'Text on a path imported as straight text' });
+      }
+
+      const firstSpan = Array.from(source.children).find(child => child.localName === 'tspan');
+      const x = parseNumbers(source.getAttribute('x') ?? firstSpan?.getAttribute('x') ?? '0')[0] ?? 0;
+      const y = parseNumbers(source.getAttribute('y') ?? firstSpan?.getAttribute('y') ?? '0')[0] ?? 0;
+
+      // SVG has no text box; estimate one from the font size
+      const width = text.length * style.fontSize * 0.6;
+      const height = style.fontSize * 1.2;
+      const left = style.textAnchor === 'middle' ? x - width / 2 : style.textAnchor === 'end' ? x - width : x;
+
+      element = shapeElement(source, 'text', { x: left, y: y - style.fontSize * 0.9, width, height }, matrix, context);
+      element.text = text;
+      element.fontSize = round(style.fontSize * scaleFactor(matrix));
+      if (style.fontFamily) element.fontFamily = style.fontFamily.split(',')[0]?.trim();
+      if (style.fontWeight) element.fontWeight = style.fontWeight;
+      element.textAlign = style.textAnchor === 'middle' ? 'center' : style.textAnchor === 'end' ? 'right' : 'left';
+      break;
+    }
+
+    case 'image': {
+      const href = hrefOf(source);
+      if (!href) {
+        context.report.skipped.push({ source: describe(source), reason: 'Image has no href' });
+        return [];
+      }
+      if (context.options.importImages === false) {
+        context.report.skipped.push({ source: describe(source), reason: 'Image import is turned off' });
+        return [];
+      }
+
+      element = shapeElement(source, 'image', { x: num('x'), y: num('y'), width: num('width'), height: num('height') }, matrix, context);
+      element.src = href;
+      applyOpacity(element, source);
+      return style.visibility === 'hidden' ? [] : [element];
+    }
+
+    default:
+      context.report.skipped.push({ source: describe(source), reason: `<${tag}> cannot be mapped to a canvas element` });
+      return [];
+  }
+
+  if (style.visibility === 'hidden') return [];
+
+  applyPaint(element, style, source, matrix, context);
+  applyOpacity(element, source);
+  return [element];
+}
+
+// =============================================
+// Entry point
+// =============================================
+
+/**
+ * Parse SVG markup into Lumina elements, keeping groups, transforms and paints.
+ * Throws if the markup is not an SVG document.
+ */
+export function parseSVG(svgText: string, options: ImportOptions = {}): SVGImportResult {
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not a valid SVG document');
+  }
+
+  const viewBox = parseNumbers(root.getAttribute('viewBox') ?? '');
+  const width = parseLength(root.getAttribute('width'), viewBox[2] ?? 0, viewBox[2] ?? 800);
+  const height = parseLength(root.getAttribute('height'), viewBox[3] ?? 0, viewBox[3] ?? 600);
+
+  const defs = new Map<string, Element>();
+  for (const element of Array.from(root.querySelectorAll('[id]'))) {
+    defs.set(element.getAttribute('id') ?? '', element);
+  }
+
+  const context: ConvertContext = {
+    options,
+    report: { imported: 0, skipped: [], approximated: [] },
+    defs,
+    ids: new Set(),
+    counter: 0,
+    useDepth: 0,
+  };
+
+  const rootMatrix = viewportMatrix(root, width, height);
+  // The root's own x/y are ignored
+  rootMatrix[4] -= parseLength(root.getAttribute('x'));
+  rootMatrix[5] -= parseLength(root.getAttribute('y'));
+
+  const elements = convertChildren(root, rootMatrix, inheritStyle(root, INITIAL_STYLE), context);
+
+  const count = (list: LuminaElement[]): number =>
+    list.reduce((total, el) => total + 1 + count(el.children ?? []), 0);
+  context.report.imported = count(elements);
+
+  return { width: round(width), height: round(height), elements, report: context.report };
+}
+
+/**
+ * Flatten a report into the warning strings stored on an import
+ */
+export function formatSVGImportReport(report: SVGImportReport): string[] {
+  return [
+    ...report.skipped.map(issue => `Skipped ${issue.source}: ${issue.reason}`),
+    ...report.approximated.map(issue => `Approximated ${issue.source}: ${issue.reason}`),
+  ];
+}
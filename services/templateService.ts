@@ -2,8 +2,7 @@
 // AI TEMPLATE ENGINE - SERVICE
 // ============================================================================
 
-import { getAIClient } from './geminiService';
-import { Type } from '@google/genai';
+import { getAIProvider } from './aiProvider';
 import {
   TemplateCategory,
   OutputFormat,
@@ -20,11 +19,6 @@ import type {
 } from '../types/template';
 import { BrandKit } from '../types';
 
-// Model constants
-const TEXT_PRO = 'gemini-3-pro-preview';
-const TEXT_FLASH = 'gemini-3-flash-preview';
-const IMAGE_PRO = 'gemini-3-pro-image-preview';
-
 /**
  * Generate unique ID
  */
@@ -161,47 +155,43 @@ export async function generateTemplate(
   brandKit?: BrandKit | null
 ): Promise<GeneratedTemplate> {
   const startTime = Date.now();
-  const ai = getAIClient();
+  const provider = getAIProvider('text');
 
   try {
     const aiPrompt = buildTemplatePrompt(prompt, brandKit);
     const dims = getFormatDimensions(prompt.format);
 
-    const response = await ai.models.generateContent({
-      model: TEXT_PRO,
-      contents: aiPrompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            description: { type: Type.STRING },
-            backgroundColor: { type: Type.STRING },
-            reasoning: { type: Type.STRING },
-            colorRationale: { type: Type.STRING },
-            elements: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  type: { type: Type.STRING },
-                  name: { type: Type.STRING },
-                  x: { type: Type.NUMBER },
-                  y: { type: Type.NUMBER },
-                  width: { type: Type.NUMBER },
-                  height: { type: Type.NUMBER },
-                  rotation: { type: Type.NUMBER },
-                  zIndex: { type: Type.NUMBER },
-                  props: { type: Type.OBJECT }
-                }
+    const response = await provider.text.generate({
+      quality: 'high',
+      prompt: aiPrompt,
+      schema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          backgroundColor: { type: 'string' },
+          reasoning: { type: 'string' },
+          colorRationale: { type: 'string' },
+          elements: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                type: { type: 'string' },
+                name: { type: 'string' },
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+                rotation: { type: 'number' },
+                zIndex: { type: 'number' },
+                props: { type: 'object' }
               }
             }
-          },
-          required: ['name', 'elements', 'backgroundColor']
+          }
         },
-        thinkingConfig: { thinkingBudget: 8000 }
+        required: ['name', 'elements', 'backgroundColor']
       }
     });
 
@@ -237,7 +227,7 @@ export async function generateTemplate(
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       generatedWith: {
-        model: TEXT_PRO,
+        model: provider.id,
         prompt: prompt.prompt,
         confidence: 0.85
       }
@@ -248,7 +238,7 @@ export async function generateTemplate(
       promptId: prompt.id,
       template,
       metadata: {
-        model: TEXT_PRO,
+        model: provider.id,
         generationTime: Date.now() - startTime,
         confidence: 0.85
       },
@@ -378,7 +368,6 @@ export async function generateVariations(
   template: AITemplate,
   count: number = 3
 ): Promise<AITemplate[]> {
-  const ai = getAIClient();
   const variations: AITemplate[] = [];
 
   const variationPrompts = [
@@ -389,16 +378,13 @@ export async function generateVariations(
 
   for (let i = 0; i < Math.min(count, variationPrompts.length); i++) {
     try {
-      const response = await ai.models.generateContent({
-        model: TEXT_FLASH,
-        contents: `Given this template: ${JSON.stringify(template)}
+      const response = await getAIProvider('text').text.generate({
+        prompt: `Given this template: ${JSON.stringify(template)}
 
         ${variationPrompts[i]}
 
         Return a modified version as JSON with the same structure.`,
-        config: {
-          responseMimeType: 'application/json'
-        }
+        schema: { type: 'object' }
       });
 
       const parsed = JSON.parse(response.text || '{}');
@@ -420,19 +406,13 @@ export async function generateVariations(
  * Get style suggestions based on prompt
  */
 export async function getStyleSuggestions(prompt: string): Promise<string[]> {
-  const ai = getAIClient();
-
   try {
-    const response = await ai.models.generateContent({
-      model: TEXT_FLASH,
-      contents: `Suggest 6 visual styles for a design template with this description: "${prompt}".
+    const response = await getAIProvider('text').text.generate({
+      prompt: `Suggest 6 visual styles for a design template with this description: "${prompt}".
       Return as JSON array of short style descriptions (e.g., "Minimalist with bold typography").`,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        }
+      schema: {
+        type: 'array',
+        items: { type: 'string' }
       }
     });
 
@@ -497,29 +477,16 @@ export async function generateTemplateBackground(
   template: AITemplate,
   style: string
 ): Promise<string> {
-  const ai = getAIClient();
-
   const prompt = `Professional ${style} background for ${template.format.replace(/_/g, ' ')} design. ${template.description}. Abstract, no text, suitable for overlaying design elements.`;
 
-  const response = await ai.models.generateContent({
-    model: IMAGE_PRO,
-    contents: { parts: [{ text: prompt }] },
-    config: {
-      imageConfig: {
-        aspectRatio: template.aspectRatio.includes('16:9') ? '16:9' :
-                     template.aspectRatio.includes('9:16') ? '9:16' : '1:1',
-        imageSize: '2K'
-      }
-    }
+  const result = await getAIProvider('image').image.generate({
+    prompt,
+    aspectRatio: template.aspectRatio.includes('16:9') ? '16:9' :
+                 template.aspectRatio.includes('9:16') ? '9:16' : '1:1',
+    size: '2K'
   });
 
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
-    }
-  }
-
-  throw new Error('Failed to generate background image');
+  return result.dataUrl;
 }
 
 /**
@@ -552,20 +519,14 @@ export async function getQuickTemplateSuggestions(
   category: TemplateCategory,
   industry?: IndustryPreset
 ): Promise<string[]> {
-  const ai = getAIClient();
-
   try {
-    const response = await ai.models.generateContent({
-      model: TEXT_FLASH,
-      contents: `Suggest 8 specific template ideas for ${category.replace(/_/g, ' ')}
+    const response = await getAIProvider('text').text.generate({
+      prompt: `Suggest 8 specific template ideas for ${category.replace(/_/g, ' ')}
       ${industry ? `in the ${industry.replace(/_/g, ' ')} industry` : ''}.
       Return as JSON array of short descriptions.`,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING }
-        }
+      schema: {
+        type: 'array',
+        items: { type: 'string' }
       }
     });
 
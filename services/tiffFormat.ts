@@ -0,0 +1,160 @@
+// ============================================
+// LUMINA TIFF FORMAT
+// Baseline 8-bit RGB(A) TIFF writing, uncompressed or PackBits
+// ============================================
+
+import { encodePackBits } from './psdFormat';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TiffImage {
+  width: number;
+  height: number;
+  /** 8-bit RGBA, interleaved */
+  data: Uint8ClampedArray;
+}
+
+export interface TiffOptions {
+  compression?: 'none' | 'packbits';
+  /** Pixels per inch */
+  resolution?: number;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const enum TagType {
+  Short = 3,
+  Long = 4,
+  Rational = 5,
+}
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PACKBITS = 32773;
+const PHOTOMETRIC_RGB = 2;
+const RESOLUTION_UNIT_INCH = 2;
+const EXTRA_SAMPLE_UNASSOCIATED_ALPHA = 2;
+
+/** Strips are kept around this size so readers can stream them */
+const STRIP_BYTES = 64 * 1024;
+
+// ============================================
+// WRITING
+// ============================================
+
+interface Tag {
+  id: number;
+  type: TagType;
+  values: number[];
+}
+
+/**
+ * Encode an image as a baseline TIFF. The alpha channel is written only
+ * when the image has transparency, as unassociated alpha.
+ */
+export function writeTIFF(image: TiffImage, options: TiffOptions = {}): Uint8Array {
+  const { width, height, data } = image;
+  const compression = options.compression ?? 'packbits';
+  const resolution = Math.round(options.resolution ?? 72);
+
+  let hasAlpha = false;
+  for (let i = 3; i < data.length && !hasAlpha; i += 4) hasAlpha = data[i] !== 255;
+  const samples = hasAlpha ? 4 : 3;
+
+  // Encode the strips
+  const rowBytes = width * samples;
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_BYTES / Math.max(1, rowBytes)));
+  const strips: Uint8Array[] = [];
+  for (let top = 0; top < height; top += rowsPerStrip) {
+    const rows = Math.min(rowsPerStrip, height - top);
+    const raw = new Uint8Array(rows * rowBytes);
+    for (let i = 0; i < rows * width; i++) {
+      const from = (top * width + i) * 4;
+      raw.set(data.subarray(from, from + samples), i * samples);
+    }
+    if (compression === 'none') {
+      strips.push(raw);
+    } else {
+      // Each row is packed separately
+      const packed = Array.from({ length: rows }, (_, y) => encodePackBits(raw.subarray(y * rowBytes, (y + 1) * rowBytes)));
+      const strip = new Uint8Array(packed.reduce((total, row) => total + row.length, 0));
+      packed.reduce((offset, row) => {
+        strip.set(row, offset);
+        return offset + row.length;
+      }, 0);
+      strips.push(strip);
+    }
+  }
+
+  // Layout: header, pixel strips, then the directory and its out-of-line values
+  const HEADER = 8;
+  const stripOffsets: number[] = [];
+  let offset = HEADER;
+  for (const strip of strips) {
+    stripOffsets.push(offset);
+    offset += strip.length + (strip.length % 2);
+  }
+
+  const tags: Tag[] = [
+    { id: 256, type: TagType.Long, values: [width] },
+    { id: 257, type: TagType.Long, values: [height] },
+    { id: 258, type: TagType.Short, values: Array<number>(samples).fill(8) },
+    { id: 259, type: TagType.Short, values: [compression === 'none' ? COMPRESSION_NONE : COMPRESSION_PACKBITS] },
+    { id: 262, type: TagType.Short, values: [PHOTOMETRIC_RGB] },
+    { id: 273, type: TagType.Long, values: stripOffsets },
+    { id: 277, type: TagType.Short, values: [samples] },
+    { id: 278, type: TagType.Long, values: [rowsPerStrip] },
+    { id: 279, type: TagType.Long, values: strips.map(strip => strip.length) },
+    { id: 282, type: TagType.Rational, values: [resolution, 1] },
+    { id: 283, type: TagType.Rational, values: [resolution, 1] },
+    { id: 284, type: TagType.Short, values: [1] },
+    { id: 296, type: TagType.Short, values: [RESOLUTION_UNIT_INCH] },
+    ...(hasAlpha ? [{ id: 338, type: TagType.Short, values: [EXTRA_SAMPLE_UNASSOCIATED_ALPHA] }] : []),
+  ];
+
+  const valueSize = (tag: Tag) => tag.values.length * (tag.type === TagType.Short ? 2 : 4);
+  const directoryOffset = offset;
+  const directorySize = 2 + tags.length * 12 + 4;
+  let extraOffset = directoryOffset + directorySize;
+  const extraOffsets = tags.map(tag => {
+    if (valueSize(tag) <= 4) return 0;
+    const at = extraOffset;
+    extraOffset += valueSize(tag);
+    return at;
+  });
+
+  const bytes = new Uint8Array(extraOffset);
+  const view = new DataView(bytes.buffer);
+  const writeValues = (at: number, tag: Tag) => {
+    tag.values.forEach((value, i) => {
+      if (tag.type === TagType.Short) view.setUint16(at + i * 2, value);
+      else view.setUint32(at + i * 4, value);
+    });
+  };
+
+  // Big-endian header
+  bytes.set([0x4d, 0x4d, 0, 42]);
+  view.setUint32(4, directoryOffset);
+  strips.forEach((strip, i) => bytes.set(strip, stripOffsets[i]));
+
+  view.setUint16(directoryOffset, tags.length);
+  tags.forEach((tag, i) => {
+    const entry = directoryOffset + 2 + i * 12;
+    view.setUint16(entry, tag.id);
+    view.setUint16(entry + 2, tag.type);
+    // Rationals count numerator/denominator pairs
+    view.setUint32(entry + 4, tag.type === TagType.Rational ? tag.values.length / 2 : tag.values.length);
+    if (extraOffsets[i]) {
+      view.setUint32(entry + 8, extraOffsets[i]);
+      writeValues(extraOffsets[i], tag);
+    } else {
+      writeValues(entry + 8, tag);
+    }
+  });
+  view.setUint32(directoryOffset + directorySize - 4, 0);
+
+  return bytes;
+}
@@ -0,0 +1,175 @@
+// ============================================
+// LUMINA TRUETYPE
+// The parts of a TrueType font program needed to lay out text and
+// describe the font in a PDF font dictionary
+// ============================================
+
+export interface TrueTypeProgram {
+  postScriptName?: string;
+  unitsPerEm: number;
+  bbox: [number, number, number, number];
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  italicAngle: number;
+  isFixedPitch: boolean;
+  isSerif: boolean;
+  isItalic: boolean;
+  isBold: boolean;
+  /** False when the font's license forbids embedding */
+  embeddable: boolean;
+  glyphIndex(codePoint: number): number;
+  advanceWidth(glyph: number): number;
+}
+
+/** Reads the tables needed to describe a TrueType font in a PDF font dictionary */
+export function parseTrueType(bytes: Uint8Array): TrueTypeProgram {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && version !== 0x74727565) {
+    throw new Error('Only TrueType font programs can be embedded');
+  }
+
+  const tables = new Map<string, number>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(...bytes.subarray(record, record + 4));
+    tables.set(tag, view.getUint32(record + 8));
+  }
+
+  const table = (tag: string): number => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`Font is missing the ${tag} table`);
+    return offset;
+  };
+
+  const head = table('head');
+  const unitsPerEm = view.getUint16(head + 18);
+  const bbox: [number, number, number, number] = [
+    view.getInt16(head + 36),
+    view.getInt16(head + 38),
+    view.getInt16(head + 40),
+    view.getInt16(head + 42),
+  ];
+  const macStyle = view.getUint16(head + 44);
+
+  const hhea = table('hhea');
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  let ascent = view.getInt16(hhea + 4);
+  let descent = view.getInt16(hhea + 6);
+
+  const hmtx = table('hmtx');
+  const advanceWidth = (glyph: number) => view.getUint16(hmtx + 4 * Math.min(glyph, numberOfHMetrics - 1));
+
+  let italicAngle = 0;
+  let isFixedPitch = false;
+  if (tables.has('post')) {
+    const post = table('post');
+    italicAngle = view.getInt32(post + 4) / 65536;
+    isFixedPitch = view.getUint32(post + 12) !== 0;
+  }
+
+  let capHeight = bbox[3];
+  let embeddable = true;
+  let isSerif = false;
+  let weight = macStyle & 1 ? 700 : 400;
+  if (tables.has('OS/2')) {
+    const os2 = table('OS/2');
+    weight = view.getUint16(os2 + 4);
+    embeddable = (view.getUint16(os2 + 8) & 0x000f) !== 0x0002;
+    const familyClass = view.getInt16(os2 + 30) >> 8;
+    isSerif = familyClass >= 1 && familyClass <= 7;
+    ascent = view.getInt16(os2 + 68);
+    descent = view.getInt16(os2 + 70);
+    if (view.getUint16(os2) >= 2) capHeight = view.getInt16(os2 + 88);
+  }
+
+  // cmap: prefer full Unicode (format 12), then BMP (format 4)
+  const cmap = table('cmap');
+  const subtables: Array<{ platform: number; encoding: number; offset: number }> = [];
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    subtables.push({
+      platform: view.getUint16(record),
+      encoding: view.getUint16(record + 2),
+      offset: cmap + view.getUint32(record + 4),
+    });
+  }
+  const pick = (format: number) =>
+    subtables.find((s) => (s.platform === 3 || s.platform === 0) && view.getUint16(s.offset) === format);
+
+  let glyphIndex: (codePoint: number) => number = () => 0;
+  const format12 = pick(12);
+  const format4 = pick(4);
+  if (format12) {
+    const groups = view.getUint32(format12.offset + 12);
+    glyphIndex = (codePoint) => {
+      for (let i = 0; i < groups; i++) {
+        const group = format12.offset + 16 + i * 12;
+        const start = view.getUint32(group);
+        if (codePoint >= start && codePoint <= view.getUint32(group + 4)) {
+          return view.getUint32(group + 8) + (codePoint - start);
+        }
+      }
+      return 0;
+    };
+  } else if (format4) {
+    const base = format4.offset;
+    const segCountX2 = view.getUint16(base + 6);
+    const endCodes = base + 14;
+    const startCodes = endCodes + segCountX2 + 2;
+    const deltas = startCodes + segCountX2;
+    const rangeOffsets = deltas + segCountX2;
+    glyphIndex = (codePoint) => {
+      if (codePoint > 0xffff) return 0;
+      for (let seg = 0; seg < segCountX2; seg += 2) {
+        if (view.getUint16(endCodes + seg) < codePoint) continue;
+        const start = view.getUint16(startCodes + seg);
+        if (start > codePoint) return 0;
+        const delta = view.getUint16(deltas + seg);
+        const rangeOffset = view.getUint16(rangeOffsets + seg);
+        if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+        const glyph = view.getUint16(rangeOffsets + seg + rangeOffset + 2 * (codePoint - start));
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+      return 0;
+    };
+  }
+
+  let postScriptName: string | undefined;
+  if (tables.has('name')) {
+    const nameTable = table('name');
+    const count = view.getUint16(nameTable + 2);
+    const storage = nameTable + view.getUint16(nameTable + 4);
+    for (let i = 0; i < count && !postScriptName; i++) {
+      const record = nameTable + 6 + i * 12;
+      if (view.getUint16(record + 6) !== 6) continue;
+      const platform = view.getUint16(record);
+      const length = view.getUint16(record + 8);
+      const start = storage + view.getUint16(record + 10);
+      const raw = bytes.subarray(start, start + length);
+      postScriptName =
+        platform === 3 || platform === 0
+          ? String.fromCharCode(...Array.from({ length: length / 2 }, (_, j) => (raw[2 * j]! << 8) | raw[2 * j + 1]!))
+          : String.fromCharCode(...raw);
+    }
+  }
+
+  return {
+    postScriptName: postScriptName?.replace(/[^\x21-\x7e]|[[\](){}<>/%]/g, ''),
+    unitsPerEm,
+    bbox,
+    ascent,
+    descent,
+    capHeight,
+    italicAngle,
+    isFixedPitch,
+    isSerif,
+    isItalic: (macStyle & 2) !== 0 || italicAngle !== 0,
+    isBold: weight >= 600,
+    embeddable,
+    glyphIndex,
+    advanceWidth,
+  };
+}
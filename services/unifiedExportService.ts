@@ -2,8 +2,7 @@
 // UNIFIED EXPORT PIPELINE SERVICE
 // ============================================================================
 
-import { getAIClient } from './geminiService';
-import { Type } from '@google/genai';
+import { getAIProvider } from './aiProvider';
 import {
   ExportPlatform,
   ExportQuality,
@@ -21,6 +20,8 @@ import type {
   FileNameOptions,
   WatermarkOptions
 } from '../types/export';
+import type { DesignElement } from '../types';
+import type { OfficePage } from './officeExport';
 
 // ============================================================================
 // UTILITY FUNCTIONS
@@ -172,20 +173,8 @@ export async function analyzeExportQuality(
   const config = getPlatformConfig(targetPlatform);
 
   try {
-    const ai = getAIClient();
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: imageData.replace(/^data:image\/\w+;base64,/, ''),
-              mimeType: 'image/png'
-            }
-          },
-          {
-            text: `Analyze this image for export to ${config.label} (${targetWidth}x${targetHeight}px).
+    const response = await getAIProvider('text').text.generate({
+      prompt: `Analyze this image for export to ${config.label} (${targetWidth}x${targetHeight}px).
 
 Evaluate:
 1. Resolution adequacy (will it look pixelated at target size?)
@@ -198,32 +187,30 @@ Return JSON with:
 - overallScore (0-100)
 - issues: array of {severity, category, message, suggestion, autoFixable}
 - suggestions: array of improvement tips
-- metrics: {resolution, colorContrast, textReadability, composition, fileSize} each with score and message`
-          }
-        ]
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallScore: { type: Type.NUMBER },
-            issues: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  severity: { type: Type.STRING },
-                  category: { type: Type.STRING },
-                  message: { type: Type.STRING },
-                  suggestion: { type: Type.STRING },
-                  autoFixable: { type: Type.BOOLEAN }
-                }
+- metrics: {resolution, colorContrast, textReadability, composition, fileSize} each with score and message`,
+      media: [{
+        data: imageData.replace(/^data:image\/\w+;base64,/, ''),
+        mimeType: 'image/png'
+      }],
+      schema: {
+        type: 'object',
+        properties: {
+          overallScore: { type: 'number' },
+          issues: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                severity: { type: 'string' },
+                category: { type: 'string' },
+                message: { type: 'string' },
+                suggestion: { type: 'string' },
+                autoFixable: { type: 'boolean' }
               }
-            },
-            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } },
-            metrics: { type: Type.OBJECT }
-          }
+            }
+          },
+          suggestions: { type: 'array', items: { type: 'string' } },
+          metrics: { type: 'object' }
         }
       }
     });
@@ -371,7 +358,9 @@ export const getMimeType = (format: ExportFormat): string => {
     mov: 'video/quicktime',
     json: 'application/json',
     csv: 'text/csv',
-    xml: 'application/xml'
+    xml: 'application/xml',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
   };
   return mimeTypes[format] || 'application/octet-stream';
 };
@@ -482,9 +471,20 @@ export function applyWatermark(
 // ============================================================================
 
 /**
- * Execute single export job
+ * A renderer warning about one element, as a quality issue
  */
-export async function executeExport(job: ExportJob): Promise<ExportJob> {
+const warningIssue = (message: string): QualityIssue => ({
+  severity: 'warning',
+  category: 'format',
+  message,
+  suggestion: 'Check the element in the design',
+  autoFixable: false
+});
+
+/**
+ * Execute single export job. Aborting `signal` cancels animation rendering.
+ */
+export async function executeExport(job: ExportJob, signal?: AbortSignal): Promise<ExportJob> {
   let updatedJob: ExportJob = { ...job, status: 'processing', progress: 0 };
 
   try {
@@ -493,35 +493,90 @@ export async function executeExport(job: ExportJob): Promise<ExportJob> {
     const targetHeight = job.height || config.height;
     const quality = QUALITY_SETTINGS[job.quality].quality;
 
-    // Create canvas from source
-    let canvas: HTMLCanvasElement;
+    let blob: Blob;
 
-    if (job.sourceType === 'canvas' && job.sourceData instanceof HTMLCanvasElement) {
-      canvas = job.sourceData;
-    } else if (job.sourceType === 'image' && typeof job.sourceData === 'string') {
-      canvas = await imageToCanvas(job.sourceData);
+    if (job.print) {
+      // Print jobs lay out the design itself instead of a bitmap of it
+      if (job.sourceType !== 'template' || !Array.isArray(job.sourceData)) {
+        throw new Error('Print export needs the design elements as its source');
+      }
+      const { renderPrintPDF } = await import('./printExport');
+      const result = await renderPrintPDF(job.sourceData as DesignElement[], {
+        ...job.print,
+        onProgress: progress => { updatedJob.progress = Math.round(progress * 0.8); }
+      });
+      blob = new Blob([result.bytes as BlobPart], { type: 'application/pdf' });
+      updatedJob.issues = [...result.issues, ...result.warnings.map(warningIssue)];
+    } else if (job.format === 'pptx' || job.format === 'docx') {
+      // Office files keep text, shapes and images editable, a slide or page per design page
+      if (job.sourceType !== 'template' || !Array.isArray(job.sourceData)) {
+        throw new Error('PowerPoint and Word export need the design pages as their source');
+      }
+      const { renderDOCX, renderPPTX } = await import('./officeExport');
+      const source = job.sourceData as Array<DesignElement | OfficePage>;
+      const pages = source.every(item => 'elements' in item)
+        ? source
+        : [{ elements: source as DesignElement[] }];
+      const render = job.format === 'pptx' ? renderPPTX : renderDOCX;
+      const result = await render(pages, {
+        width: targetWidth,
+        height: targetHeight,
+        title: job.sourceName,
+        onProgress: progress => { updatedJob.progress = Math.round(progress * 0.8); }
+      });
+      blob = new Blob([result.bytes as BlobPart], { type: getMimeType(job.format) });
+      updatedJob.issues = result.warnings.map(warningIssue);
+    } else if (job.animation) {
+      // Animations are rendered frame by frame from the design, not from a bitmap of it
+      if (job.format !== 'gif' && job.format !== 'webm' && job.format !== 'mp4') {
+        throw new Error('Animations export as GIF, WebM or MP4');
+      }
+      if (job.sourceType !== 'template' || !Array.isArray(job.sourceData)) {
+        throw new Error('Animation export needs the design elements as its source');
+      }
+      const { renderAnimation } = await import('./animationExport');
+      const { sequence, ...settings } = job.animation;
+      const result = await renderAnimation(job.sourceData as DesignElement[], sequence, {
+        ...settings,
+        format: job.format,
+        width: targetWidth,
+        height: targetHeight,
+        signal,
+        onProgress: progress => { updatedJob.progress = Math.round(progress * 0.8); }
+      });
+      blob = new Blob([result.bytes as BlobPart], { type: result.mimeType });
+      updatedJob.issues = result.warnings.map(warningIssue);
     } else {
-      throw new Error(`Unsupported source type: ${job.sourceType}`);
-    }
+      // Create canvas from source
+      let canvas: HTMLCanvasElement;
+
+      if (job.sourceType === 'canvas' && job.sourceData instanceof HTMLCanvasElement) {
+        canvas = job.sourceData;
+      } else if (job.sourceType === 'image' && typeof job.sourceData === 'string') {
+        canvas = await imageToCanvas(job.sourceData);
+      } else {
+        throw new Error(`Unsupported source type: ${job.sourceType}`);
+      }
 
-    updatedJob.progress = 20;
+      updatedJob.progress = 20;
 
-    // Resize if needed
-    if (targetWidth > 0 && targetHeight > 0) {
-      canvas = resizeCanvas(canvas, targetWidth, targetHeight, job.maintainAspectRatio ?? true);
-    }
+      // Resize if needed
+      if (targetWidth > 0 && targetHeight > 0) {
+        canvas = resizeCanvas(canvas, targetWidth, targetHeight, job.maintainAspectRatio ?? true);
+      }
 
-    updatedJob.progress = 40;
+      updatedJob.progress = 40;
 
-    // Apply watermark if configured
-    if (job.watermark) {
-      canvas = applyWatermark(canvas, job.watermark);
-    }
+      // Apply watermark if configured
+      if (job.watermark) {
+        canvas = applyWatermark(canvas, job.watermark);
+      }
 
-    updatedJob.progress = 60;
+      updatedJob.progress = 60;
 
-    // Convert to blob
-    const blob = await convertToBlob(canvas, job.format, quality);
+      // Convert to blob
+      blob = await convertToBlob(canvas, job.format, quality);
+    }
 
     updatedJob.progress = 80;
 
@@ -684,6 +739,8 @@ export function createExportJob(
     transparentBackground: overrides.transparentBackground ?? false,
     embedMetadata: overrides.embedMetadata ?? true,
     watermark: overrides.watermark,
+    print: overrides.print,
+    animation: overrides.animation,
     fileName: overrides.fileName || generateFileName({
       baseName: sourceName,
       platform,
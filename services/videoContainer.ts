@@ -0,0 +1,325 @@
+// ============================================
+// LUMINA VIDEO CONTAINERS
+// Writing encoded video into WebM (Matroska, one cluster per key frame,
+// with cues) and MP4 (ISO BMFF with the index ahead of the data)
+// ============================================
+
+// ============================================
+// TYPES
+// ============================================
+
+export type VideoCodec = 'vp8' | 'vp9' | 'avc';
+
+/** One encoded frame; times in microseconds */
+export interface EncodedVideoFrame {
+  data: Uint8Array;
+  timestamp: number;
+  duration: number;
+  key: boolean;
+}
+
+export interface EncodedVideoTrack {
+  codec: VideoCodec;
+  width: number;
+  height: number;
+  /** Codec configuration: the avcC record for AVC */
+  description?: Uint8Array;
+  frames: EncodedVideoFrame[];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+/** Big-endian unsigned integer of `size` bytes */
+function uint(value: number, size: number): Uint8Array {
+  const out = new Uint8Array(size);
+  for (let i = size - 1; i >= 0; i--) {
+    out[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return out;
+}
+
+function checkTrack(track: EncodedVideoTrack): void {
+  if (track.frames.length === 0) throw new Error('A video needs at least one frame');
+  if (!track.frames[0]!.key) throw new Error('A video must start with a key frame');
+}
+
+// ============================================
+// WEBM
+// ============================================
+
+const EBML_ID = {
+  Header: 0x1a45dfa3,
+  Version: 0x4286,
+  ReadVersion: 0x42f7,
+  MaxIDLength: 0x42f2,
+  MaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+const WEBM_CODEC_IDS: Record<VideoCodec, string | undefined> = { vp8: 'V_VP8', vp9: 'V_VP9', avc: undefined };
+
+/** Element IDs keep their length marker, so they are written as they are */
+function ebmlId(id: number): Uint8Array {
+  return uint(id, id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1);
+}
+
+/** Variable-length size in the fewest bytes */
+function ebmlSize(size: number): Uint8Array {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const out = uint(size, length);
+  out[0]! |= 0x80 >> (length - 1);
+  return out;
+}
+
+function ebml(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array {
+  const data = Array.isArray(payload) ? concat(payload) : payload;
+  return concat([ebmlId(id), ebmlSize(data.length), data]);
+}
+
+function ebmlUint(id: number, value: number): Uint8Array {
+  let size = 1;
+  while (value >= 2 ** (8 * size)) size++;
+  return ebml(id, uint(value, size));
+}
+
+function ebmlFloat(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return ebml(id, bytes);
+}
+
+/** A single-track WebM file; frame times are written in milliseconds */
+export function muxWebM(track: EncodedVideoTrack, { application = 'Lumina Studio' }: { application?: string } = {}): Uint8Array {
+  checkTrack(track);
+  const codecId = WEBM_CODEC_IDS[track.codec];
+  if (!codecId) throw new Error(`WebM cannot hold ${track.codec.toUpperCase()} video`);
+
+  const last = track.frames[track.frames.length - 1]!;
+  const durationMs = (last.timestamp + last.duration) / 1000;
+
+  const header = ebml(EBML_ID.Header, [
+    ebmlUint(EBML_ID.Version, 1),
+    ebmlUint(EBML_ID.ReadVersion, 1),
+    ebmlUint(EBML_ID.MaxIDLength, 4),
+    ebmlUint(EBML_ID.MaxSizeLength, 8),
+    ebml(EBML_ID.DocType, ascii('webm')),
+    ebmlUint(EBML_ID.DocTypeVersion, 4),
+    ebmlUint(EBML_ID.DocTypeReadVersion, 2),
+  ]);
+
+  const info = ebml(EBML_ID.Info, [
+    ebmlUint(EBML_ID.TimecodeScale, 1_000_000),
+    ebmlFloat(EBML_ID.Duration, durationMs),
+    ebml(EBML_ID.MuxingApp, ascii(application)),
+    ebml(EBML_ID.WritingApp, ascii(application)),
+  ]);
+
+  const tracks = ebml(EBML_ID.Tracks, ebml(EBML_ID.TrackEntry, [
+    ebmlUint(EBML_ID.TrackNumber, 1),
+    ebmlUint(EBML_ID.TrackUID, 1),
+    ebmlUint(EBML_ID.TrackType, 1),
+    ebmlUint(EBML_ID.FlagLacing, 0),
+    ebml(EBML_ID.CodecID, ascii(codecId)),
+    ...(track.description ? [ebml(EBML_ID.CodecPrivate, track.description)] : []),
+    ebmlUint(EBML_ID.DefaultDuration, Math.round(track.frames[0]!.duration * 1000)),
+    ebml(EBML_ID.Video, [ebmlUint(EBML_ID.PixelWidth, track.width), ebmlUint(EBML_ID.PixelHeight, track.height)]),
+  ]));
+
+  // A cluster starts at every key frame, and whenever block times would overflow 16 bits
+  const clusters: Array<{ time: number; bytes: Uint8Array }> = [];
+  let blocks: Uint8Array[] = [];
+  let clusterTime = 0;
+  const closeCluster = () => {
+    if (blocks.length === 0) return;
+    clusters.push({ time: clusterTime, bytes: ebml(EBML_ID.Cluster, [ebmlUint(EBML_ID.Timecode, clusterTime), ...blocks]) });
+    blocks = [];
+  };
+  for (const frame of track.frames) {
+    const time = Math.round(frame.timestamp / 1000);
+    if (frame.key || time - clusterTime > 0x7fff) {
+      closeCluster();
+      clusterTime = time;
+    }
+    const relative = time - clusterTime;
+    blocks.push(ebml(EBML_ID.SimpleBlock, [
+      new Uint8Array([0x81, (relative >> 8) & 0xff, relative & 0xff, frame.key ? 0x80 : 0]),
+      frame.data,
+    ]));
+  }
+  closeCluster();
+
+  // Positions are relative to the start of the segment's data. The seek head
+  // writes them at a fixed width, so its size is known before they are.
+  const seek = (id: number, position: number) =>
+    ebml(EBML_ID.Seek, [ebml(EBML_ID.SeekID, ebmlId(id)), ebml(EBML_ID.SeekPosition, uint(position, 8))]);
+  const seekHeadSize = ebml(EBML_ID.SeekHead, [seek(EBML_ID.Info, 0), seek(EBML_ID.Tracks, 0), seek(EBML_ID.Cues, 0)]).length;
+
+  const clustersStart = seekHeadSize + info.length + tracks.length;
+  let position = clustersStart;
+  const cuePoints = clusters.map(cluster => {
+    const point = ebml(EBML_ID.CuePoint, [
+      ebmlUint(EBML_ID.CueTime, cluster.time),
+      ebml(EBML_ID.CueTrackPositions, [ebmlUint(EBML_ID.CueTrack, 1), ebmlUint(EBML_ID.CueClusterPosition, position)]),
+    ]);
+    position += cluster.bytes.length;
+    return point;
+  });
+  const cues = ebml(EBML_ID.Cues, cuePoints);
+
+  const seekHead = ebml(EBML_ID.SeekHead, [
+    seek(EBML_ID.Info, seekHeadSize),
+    seek(EBML_ID.Tracks, seekHeadSize + info.length),
+    seek(EBML_ID.Cues, position),
+  ]);
+
+  return concat([header, ebml(EBML_ID.Segment, [seekHead, info, tracks, ...clusters.map(cluster => cluster.bytes), cues])]);
+}
+
+// ============================================
+// MP4
+// ============================================
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+  const data = concat(payload);
+  return concat([uint(data.length + 8, 4), ascii(type), data]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+  return box(type, new Uint8Array([version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff]), ...payload);
+}
+
+const u32 = (...values: number[]) => concat(values.map(value => uint(value, 4)));
+const u16 = (...values: number[]) => concat(values.map(value => uint(value, 2)));
+
+// The identity transform, in 16.16 and 2.30 fixed point
+const UNITY_MATRIX = u32(0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000);
+
+// Sample times are written at 90kHz, the usual video clock
+const MP4_TIMESCALE = 90_000;
+
+/** A single-track MP4 file holding AVC (H.264) video */
+export function muxMP4(track: EncodedVideoTrack): Uint8Array {
+  checkTrack(track);
+  if (track.codec !== 'avc') throw new Error(`MP4 export supports H.264 video, not ${track.codec.toUpperCase()}`);
+  if (!track.description) throw new Error('H.264 video needs its decoder configuration (avcC)');
+
+  const { frames, width, height } = track;
+  const last = frames[frames.length - 1]!;
+  const ticks = (microseconds: number) => Math.round((microseconds * MP4_TIMESCALE) / 1_000_000);
+  const duration = ticks(last.timestamp + last.duration);
+  const movieDuration = Math.round((last.timestamp + last.duration) / 1000);
+
+  // Frame durations come from rounded start times, so they add up exactly
+  const deltas = frames.map((frame, i) => ticks(frames[i + 1]?.timestamp ?? frame.timestamp + frame.duration) - ticks(frame.timestamp));
+  const timeToSample: number[] = [];
+  for (const delta of deltas) {
+    if (timeToSample.length > 0 && timeToSample[timeToSample.length - 1] === delta) {
+      timeToSample[timeToSample.length - 2]!++;
+    } else {
+      timeToSample.push(1, delta);
+    }
+  }
+  const syncSamples = frames.flatMap((frame, i) => (frame.key ? [i + 1] : []));
+
+  const sampleEntry = box('avc1',
+    new Uint8Array(6), u16(1), // Reserved, data reference index
+    u16(0, 0), u32(0, 0, 0), // Pre-defined and reserved
+    u16(width, height),
+    u32(0x480000, 0x480000, 0), // 72 DPI
+    u16(1), // Frames per sample
+    new Uint8Array(32), // Compressor name
+    u16(0x18, 0xffff), // Depth, pre-defined
+    box('avcC', track.description));
+
+  const sampleTable = (chunkOffset: number) => box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    fullBox('stts', 0, 0, u32(timeToSample.length / 2, ...timeToSample)),
+    ...(syncSamples.length === frames.length ? [] : [fullBox('stss', 0, 0, u32(syncSamples.length, ...syncSamples))]),
+    fullBox('stsc', 0, 0, u32(1, 1, frames.length, 1)),
+    fullBox('stsz', 0, 0, u32(0, frames.length, ...frames.map(frame => frame.data.length))),
+    fullBox('stco', 0, 0, u32(1, chunkOffset)));
+
+  const movie = (chunkOffset: number) => box('moov',
+    fullBox('mvhd', 0, 0,
+      u32(0, 0, 1000, movieDuration),
+      u32(0x10000), u16(0x100, 0), u32(0, 0), // Rate, volume, reserved
+      UNITY_MATRIX,
+      new Uint8Array(24), // Pre-defined
+      u32(2)), // Next track ID
+    box('trak',
+      fullBox('tkhd', 0, 3, // Enabled, in the movie
+        u32(0, 0, 1, 0, movieDuration, 0, 0),
+        u16(0, 0, 0, 0), // Layer, alternate group, volume, reserved
+        UNITY_MATRIX,
+        u32(width * 0x10000, height * 0x10000)),
+      box('mdia',
+        fullBox('mdhd', 0, 0, u32(0, 0, MP4_TIMESCALE, duration), u16(0x55c4, 0)), // Language "und"
+        fullBox('hdlr', 0, 0, u32(0), ascii('vide'), u32(0, 0, 0), ascii('VideoHandler\0')),
+        box('minf',
+          fullBox('vmhd', 0, 1, u16(0, 0, 0, 0)),
+          box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+          sampleTable(chunkOffset)))));
+
+  const fileType = box('ftyp', ascii('isom'), u32(0x200), ascii('isomiso2avc1mp41'));
+  const dataSize = frames.reduce((total, frame) => total + frame.data.length, 0);
+  if (dataSize + 8 > 0xffffffff) throw new Error('The video is too large for an MP4 file');
+
+  // All frames form one chunk, right after the mdat header
+  const moovSize = movie(0).length;
+  return concat([
+    fileType,
+    movie(fileType.length + moovSize + 8),
+    uint(dataSize + 8, 4),
+    ascii('mdat'),
+    ...frames.map(frame => frame.data),
+  ]);
+}
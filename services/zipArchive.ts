@@ -0,0 +1,231 @@
+// ============================================
+// LUMINA ZIP ARCHIVES
+// Reading and writing ZIP containers (.sketch, .docx, .pptx)
+// ============================================
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ZipEntry {
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[];
+  has: (name: string) => boolean;
+  /** Decompressed contents of an entry; rejects when the entry is missing */
+  read: (name: string) => Promise<Uint8Array>;
+  readText: (name: string) => Promise<string>;
+}
+
+export interface ZipWriteEntry {
+  name: string;
+  data: Uint8Array | string;
+  /** Store without compression, e.g. for the "mimetype" entry of OPC/ODF packages */
+  store?: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+/** The end record is 22 bytes plus a comment of up to 64KB */
+const MAX_END_SEARCH = 22 + 0xffff;
+
+// DOS date for 1980-01-01, the earliest ZIP timestamp
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// ============================================
+// READING
+// ============================================
+
+interface CentralRecord {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+/**
+ * Open a ZIP archive. Entries are decompressed on demand; ZIP64 and
+ * encrypted archives are not supported.
+ */
+export function openZip(bytes: Uint8Array): ZipArchive {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - MAX_END_SEARCH); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('File is not a ZIP archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const records = new Map<string, CentralRecord>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error('ZIP central directory is damaged');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const rawName = bytes.subarray(offset + 46, offset + 46 + nameLength);
+    // Names without the UTF-8 flag are CP437, which matches UTF-8 for ASCII
+    const name = new TextDecoder(flags & FLAG_UTF8 ? 'utf-8' : 'latin1').decode(rawName);
+
+    records.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      flags,
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = async (name: string): Promise<Uint8Array> => {
+    const record = records.get(name);
+    if (!record) throw new Error(`"${name}" is not in the archive`);
+    if (record.flags & FLAG_ENCRYPTED) throw new Error('Encrypted ZIP entries are not supported');
+
+    const local = record.localOffset;
+    if (view.getUint32(local, true) !== LOCAL_HEADER) throw new Error(`ZIP entry "${name}" is damaged`);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(start, start + record.compressedSize);
+
+    switch (record.method) {
+      case METHOD_STORED:
+        return data;
+      case METHOD_DEFLATE:
+        return transform(data, new DecompressionStream('deflate-raw'));
+      default:
+        throw new Error(`ZIP compression method ${record.method} is not supported`);
+    }
+  };
+
+  return {
+    entries: [...records.values()]
+      .filter(record => !record.name.endsWith('/'))
+      .map(record => ({ name: record.name, size: record.size })),
+    has: (name) => records.has(name),
+    read,
+    readText: async (name) => new TextDecoder().decode(await read(name)),
+  };
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+/**
+ * Write a ZIP archive with the entries in the given order. Entries are
+ * deflated unless they are marked as stored.
+ */
+export async function writeZip(entries: ZipWriteEntry[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const files = await Promise.all(entries.map(async entry => {
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const compressed = entry.store ? data : await transform(data, new CompressionStream('deflate-raw'));
+    return {
+      name: encoder.encode(entry.name),
+      method: entry.store ? METHOD_STORED : METHOD_DEFLATE,
+      crc: crc32(data),
+      size: data.length,
+      data: compressed,
+    };
+  }));
+
+  const localSize = files.reduce((total, file) => total + 30 + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((total, file) => total + 46 + file.name.length, 0);
+  const bytes = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(bytes.buffer);
+
+  // Fields shared by local and central headers, from "version needed" on
+  const writeCommon = (at: number, file: (typeof files)[number]) => {
+    view.setUint16(at, 20, true);
+    view.setUint16(at + 2, FLAG_UTF8, true);
+    view.setUint16(at + 4, file.method, true);
+    view.setUint16(at + 6, 0, true);
+    view.setUint16(at + 8, DOS_DATE, true);
+    view.setUint32(at + 10, file.crc, true);
+    view.setUint32(at + 14, file.data.length, true);
+    view.setUint32(at + 18, file.size, true);
+    view.setUint16(at + 22, file.name.length, true);
+    view.setUint16(at + 24, 0, true);
+  };
+
+  let offset = 0;
+  const localOffsets = files.map(file => {
+    const at = offset;
+    view.setUint32(at, LOCAL_HEADER, true);
+    writeCommon(at + 4, file);
+    bytes.set(file.name, at + 30);
+    bytes.set(file.data, at + 30 + file.name.length);
+    offset += 30 + file.name.length + file.data.length;
+    return at;
+  });
+
+  files.forEach((file, i) => {
+    view.setUint32(offset, CENTRAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    writeCommon(offset + 6, file);
+    view.setUint32(offset + 42, localOffsets[i]!, true);
+    bytes.set(file.name, offset + 46);
+    offset += 46 + file.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, localSize, true);
+
+  return bytes;
+}
@@ -0,0 +1,37 @@
+-- =====================================================
+-- SSO/SAML - Assertion replay protection
+-- =====================================================
+
+-- Assertion IDs already consumed; a second insert of the same ID is a replay
+CREATE TABLE IF NOT EXISTS sso_assertion_replays (
+  assertion_id VARCHAR(255) PRIMARY KEY,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sso_assertion_replays_expires ON sso_assertion_replays(expires_at);
+
+ALTER TABLE sso_assertion_replays ENABLE ROW LEVEL SECURITY;
+
+-- Logins happen before a Supabase session exists, so anyone may record an ID,
+-- but nobody can read or remove them. Assertions are valid for minutes, so the
+-- expiry bound keeps anonymous inserts from piling up rows cleanup never reaches
+CREATE POLICY sso_assertion_replays_insert ON sso_assertion_replays
+  FOR INSERT WITH CHECK (expires_at < NOW() + INTERVAL '1 day');
+
+-- Expired IDs can no longer be replayed (the assertion itself has expired)
+CREATE OR REPLACE FUNCTION cleanup_sso_assertion_replays()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM sso_assertion_replays WHERE expires_at < NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Purge expired IDs every 15 minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'cleanup-sso-assertion-replays',
+  '*/15 * * * *',
+  'SELECT cleanup_sso_assertion_replays()'
+);
@@ -0,0 +1,13 @@
+-- =====================================================
+-- Canvas history - branch ancestry for three-way merges
+-- =====================================================
+
+-- Branch a history root was created from (paired with parent_version)
+ALTER TABLE canvas_history ADD COLUMN IF NOT EXISTS parent_branch TEXT;
+
+-- Source branch head that a merge entry brought in
+ALTER TABLE canvas_history ADD COLUMN IF NOT EXISTS merge_source_branch TEXT;
+ALTER TABLE canvas_history ADD COLUMN IF NOT EXISTS merge_source_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_history_branch_version
+    ON canvas_history(project_id, branch_name, version_number);
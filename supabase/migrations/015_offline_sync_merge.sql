@@ -0,0 +1,116 @@
+-- =====================================================
+-- Offline sync - three-way merge support
+-- =====================================================
+
+-- Entity data the offline change was made against
+ALTER TABLE sync_queue ADD COLUMN IF NOT EXISTS base_data JSONB;
+
+ALTER TABLE sync_conflicts ADD COLUMN IF NOT EXISTS base_data JSONB;
+ALTER TABLE sync_conflicts ADD COLUMN IF NOT EXISTS server_version INTEGER;
+
+-- Conflicts now return the server copy so the client can merge
+CREATE OR REPLACE FUNCTION process_sync_item(p_queue_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_item sync_queue%ROWTYPE;
+    v_current_version INTEGER;
+    v_server entity_versions%ROWTYPE;
+    v_conflict_id UUID;
+BEGIN
+    SELECT * INTO v_item FROM sync_queue WHERE id = p_queue_id;
+
+    IF v_item IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Item not found');
+    END IF;
+
+    UPDATE sync_queue SET sync_status = 'syncing' WHERE id = p_queue_id;
+
+    SELECT MAX(version) INTO v_current_version
+    FROM entity_versions
+    WHERE entity_type = v_item.entity_type AND entity_id = v_item.entity_id;
+
+    IF v_item.base_version IS NOT NULL AND v_current_version > v_item.base_version THEN
+        SELECT * INTO v_server
+        FROM entity_versions
+        WHERE entity_type = v_item.entity_type AND entity_id = v_item.entity_id
+        ORDER BY version DESC LIMIT 1;
+
+        UPDATE sync_queue
+        SET sync_status = 'conflict', conflict_status = 'detected', conflict_data = v_server.data
+        WHERE id = p_queue_id;
+
+        INSERT INTO sync_conflicts (
+            user_id, sync_queue_id, entity_type, entity_id,
+            base_data, local_data, server_data, server_version,
+            local_timestamp, server_timestamp
+        )
+        VALUES (
+            v_item.user_id, p_queue_id, v_item.entity_type, v_item.entity_id,
+            v_item.base_data, COALESCE(v_item.entity_data, 'null'::jsonb), v_server.data, v_server.version,
+            v_item.local_timestamp, v_server.changed_at
+        )
+        RETURNING id INTO v_conflict_id;
+
+        RETURN jsonb_build_object(
+            'success', false,
+            'conflict', true,
+            'conflict_id', v_conflict_id,
+            'server_data', v_server.data,
+            'server_version', v_server.version
+        );
+    END IF;
+
+    INSERT INTO entity_versions (entity_type, entity_id, version, data, changed_by)
+    VALUES (
+        v_item.entity_type,
+        v_item.entity_id,
+        COALESCE(v_current_version, 0) + 1,
+        v_item.entity_data,
+        v_item.user_id
+    );
+
+    UPDATE sync_queue
+    SET
+        sync_status = 'synced',
+        synced_at = NOW(),
+        server_timestamp = NOW(),
+        version = COALESCE(v_current_version, 0) + 1
+    WHERE id = p_queue_id;
+
+    RETURN jsonb_build_object('success', true, 'version', COALESCE(v_current_version, 0) + 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Resubmit a queued change after the client merged it with the server copy
+CREATE OR REPLACE FUNCTION apply_sync_merge(
+    p_queue_id UUID,
+    p_conflict_id UUID,
+    p_data JSONB,
+    p_base_version INTEGER
+)
+RETURNS JSONB AS $$
+BEGIN
+    UPDATE sync_queue
+    SET
+        entity_data = p_data,
+        base_version = p_base_version,
+        sync_status = 'pending',
+        conflict_status = 'resolved',
+        conflict_resolution = 'merged'
+    WHERE id = p_queue_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Item not found');
+    END IF;
+
+    UPDATE sync_conflicts
+    SET
+        resolution = 'merged',
+        resolved_data = p_data,
+        resolved_by = auth.uid(),
+        resolved_at = NOW()
+    WHERE id = p_conflict_id AND user_id = auth.uid();
+
+    RETURN process_sync_item(p_queue_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
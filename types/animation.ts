@@ -375,17 +375,43 @@ export function interpolate(
   startValue: number,
   endValue: number,
   progress: number,
-  easing: EasingType = 'linear'
+  easing: EasingType = 'linear',
+  customEasing?: [number, number, number, number]
 ): number {
-  const easedProgress = applyEasing(progress, easing);
+  const easedProgress = applyEasing(progress, easing, customEasing);
   return startValue + (endValue - startValue) * easedProgress;
 }
 
+/**
+ * Progress along a CSS cubic-bezier timing curve: the curve's y where its x is t
+ */
+export function cubicBezierEasing(t: number, [x1, y1, x2, y2]: [number, number, number, number]): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+
+  const curve = (p1: number, p2: number, s: number): number =>
+    3 * p1 * (1 - s) * (1 - s) * s + 3 * p2 * (1 - s) * s * s + s * s * s;
+  const cx1 = Math.max(0, Math.min(1, x1));
+  const cx2 = Math.max(0, Math.min(1, x2));
+
+  // x rises monotonically with s when both handles lie within [0, 1]
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 32; i++) {
+    const mid = (low + high) / 2;
+    if (curve(cx1, cx2, mid) < t) low = mid;
+    else high = mid;
+  }
+  return curve(y1, y2, (low + high) / 2);
+}
+
 /**
  * Apply easing function
  */
-export function applyEasing(t: number, easing: EasingType): number {
+export function applyEasing(t: number, easing: EasingType, customEasing?: [number, number, number, number]): number {
   switch (easing) {
+    case 'custom':
+      return customEasing ? cubicBezierEasing(t, customEasing) : t;
     case 'linear':
       return t;
     case 'easeIn':
@@ -433,29 +459,31 @@ export function getValueAtTime(
   keyframes: Keyframe[],
   time: number
 ): number | string | null {
-  if (keyframes.length === 0) return null;
-  if (keyframes.length === 1) return keyframes[0].value;
-
   // Sort by time
   const sorted = [...keyframes].sort((a, b) => a.time - b.time);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (!first || !last) return null;
 
   // Before first keyframe
-  if (time <= sorted[0].time) return sorted[0].value;
+  if (time <= first.time) return first.value;
 
   // After last keyframe
-  if (time >= sorted[sorted.length - 1].time) return sorted[sorted.length - 1].value;
+  if (time >= last.time) return last.value;
 
   // Find surrounding keyframes
   for (let i = 0; i < sorted.length - 1; i++) {
-    if (time >= sorted[i].time && time <= sorted[i + 1].time) {
-      const start = sorted[i];
-      const end = sorted[i + 1];
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    if (!start || !end) break;
+
+    if (time >= start.time && time <= end.time) {
       const duration = end.time - start.time;
       const progress = (time - start.time) / duration;
 
       // If values are numbers, interpolate
       if (typeof start.value === 'number' && typeof end.value === 'number') {
-        return interpolate(start.value, end.value, progress, start.easing);
+        return interpolate(start.value, end.value, progress, start.easing, start.customEasing);
       }
 
       // For non-numeric values, return start value until end
@@ -2,6 +2,8 @@
 // REAL-TIME COLLABORATION SYSTEM - TYPE DEFINITIONS
 // ============================================================================
 
+import type { DesignElement } from '../types';
+
 /**
  * Collaboration roles
  */
@@ -579,6 +581,40 @@ export interface CollaborationOperation {
   is_applied: boolean;
 }
 
+/**
+ * Payloads of operations with target_type 'element':
+ * - insert: { element }
+ * - delete: {}
+ * - update / transform: { changes } - element properties
+ * - style: { changes } - keys of element.style
+ * - move: { zIndex } - z-order change
+ * A null value in changes clears the property.
+ */
+export interface ElementOperationData {
+  element?: DesignElement;
+  changes?: Record<string, unknown>;
+  zIndex?: number;
+}
+
+/**
+ * Two concurrent operations touched the same thing; the merge kept winner
+ */
+export interface MergeConflict {
+  kind: 'property' | 'delete' | 'insert';
+  elementId: string;
+  property?: string;
+  winner: CollaborationOperation;
+  loser: CollaborationOperation;
+}
+
+/**
+ * Converged design state after replaying the operation log
+ */
+export interface MergedDesignState {
+  elements: DesignElement[];
+  conflicts: MergeConflict[];
+}
+
 /**
  * Operation batch for atomic changes
  */
@@ -668,6 +704,7 @@ export interface UseCollaborationOptions {
   onParticipantJoin?: (participant: RoomParticipant) => void;
   onParticipantLeave?: (userId: string) => void;
   onOperation?: (operation: CollaborationOperation) => void;
+  onConflict?: (conflicts: MergeConflict[]) => void;
   onCursorMove?: (userId: string, position: CursorPosition) => void;
 }
 
@@ -705,6 +742,9 @@ export interface UseCollaborationReturn {
     data: Record<string, any>,
     targetId?: string
   ) => Promise<CollaborationOperation | null>;
+  replayOperations: (base?: DesignElement[]) => Promise<MergedDesignState>;
+  conflicts: MergeConflict[];
+  dismissConflicts: () => void;
 
   // Comments
   addComment: (content: string, positionData?: Record<string, any>) => Promise<void>;
@@ -2,6 +2,9 @@
 // UNIFIED EXPORT PIPELINE - TYPE DEFINITIONS
 // ============================================================================
 
+import type { AnimationSequence } from './animation';
+import type { FormatDimensions } from './template';
+
 /**
  * Export file formats
  */
@@ -479,6 +482,12 @@ export interface ExportJob {
   embedMetadata?: boolean;
   watermark?: WatermarkOptions;
 
+  // Print production (PDF/X from design elements)
+  print?: PrintExportOptions;
+
+  // Animation (GIF, WebM or MP4 frames rendered from design elements)
+  animation?: AnimationExportSettings;
+
   // Naming
   fileName: string;
   autoName?: boolean;
@@ -493,6 +502,7 @@ export interface ExportJob {
   error?: string;
   resultUrl?: string;
   resultSize?: number;
+  issues?: QualityIssue[];
 
   // Timestamps
   createdAt: string;
@@ -593,3 +603,72 @@ export interface FileNameOptions {
   prefix?: string;
   suffix?: string;
 }
+
+/**
+ * PDF/X conformance level for print output
+ */
+export type PDFXStandard = 'PDF/X-1a' | 'PDF/X-4';
+
+/**
+ * Printing condition a print file is prepared for
+ */
+export interface PrintOutputCondition {
+  identifier: string; // Registered name (e.g. 'FOGRA39') or 'Custom'
+  info: string;
+  registryName?: string;
+  profile?: Uint8Array; // CMYK output ICC profile; a generic one is embedded if missing
+}
+
+/**
+ * Print preset settings; distances are in millimetres
+ */
+export interface PrintSettings {
+  standard: PDFXStandard;
+  bleed: number;
+  safeZone: number; // Inset from the trim edge
+  guides: boolean; // Bleed, trim and safe zone outlines on a non-printing layer (PDF/X-4)
+  cropMarks: boolean;
+  registrationMarks: boolean;
+  colorBars: boolean;
+  formatDpi: number; // Pixels per inch of the format's dimensions
+  minimumDpi: number; // Images below this effective resolution are flagged
+  outputCondition?: PrintOutputCondition;
+}
+
+export const PRINT_PRESET: PrintSettings = {
+  standard: 'PDF/X-1a',
+  bleed: 3,
+  safeZone: 5,
+  guides: true,
+  cropMarks: true,
+  registrationMarks: true,
+  colorBars: true,
+  formatDpi: 300,
+  minimumDpi: 300
+};
+
+/**
+ * Print export of a design laid out at the given format's size
+ */
+export interface PrintExportOptions extends PrintSettings {
+  dimensions: FormatDimensions;
+  title?: string;
+}
+
+/**
+ * Dithering applied when frames are reduced to a GIF palette
+ */
+export type GifDither = 'none' | 'floyd-steinberg' | 'ordered';
+
+/**
+ * Animated export of a design: the sequence is played over the job's design
+ * elements and sampled at the frame rate
+ */
+export interface AnimationExportSettings {
+  sequence: AnimationSequence;
+  fps: number;
+  scale?: number; // Pixels per design unit
+  colors?: number; // GIF palette size per frame, 2-256
+  dither?: GifDither;
+  bitrate?: number; // WebM and MP4, bits per second
+}
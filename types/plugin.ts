@@ -84,6 +84,8 @@ export interface PluginManifest {
   license?: string;
   permissions: PluginPermission[];
   hooks: PluginHook[];
+  /** URL of the plugin script, run in an isolated sandbox realm */
+  main?: string;
   minAppVersion?: string;
   maxAppVersion?: string;
   dependencies?: Record<string, string>;
@@ -182,7 +184,7 @@ export interface PluginAPIContext {
   };
   // Clipboard operations
   clipboard: {
-    copy: (data: any) => void;
+    copy: (data: any) => void | Promise<void>;
     paste: () => any;
   };
   // Settings
@@ -199,6 +201,32 @@ export interface PluginAPIContext {
   };
 }
 
+/**
+ * Parts of the plugin API the app provides; storage, settings and events are
+ * scoped to each plugin by the plugin manager
+ */
+export type PluginAppContext = Omit<PluginAPIContext, 'storage' | 'settings' | 'events'>;
+
+/**
+ * Plugin API exposed to a plugin: only the methods its granted permissions allow
+ */
+export type PluginAPI = {
+  [K in keyof PluginAPIContext]?: Partial<PluginAPIContext[K]>;
+};
+
+/**
+ * User decisions on declared permissions (true = granted, false = denied or revoked)
+ */
+export type PluginPermissionGrants = Partial<Record<PluginPermission, boolean>>;
+
+/**
+ * Asks the user which of the requested permissions to grant
+ */
+export type PluginPermissionPrompt = (
+  plugin: Plugin,
+  permissions: PluginPermission[]
+) => Promise<PluginPermission[]>;
+
 /**
  * Plugin interface
  */
@@ -208,13 +236,16 @@ export interface Plugin {
   installedAt: number;
   updatedAt: number;
   settings: Record<string, any>;
+  permissionGrants?: PluginPermissionGrants;
+  /** Script source for sandboxed plugins */
+  source?: string;
   settingsSchema?: PluginSettingSchema[];
   uiComponents?: PluginUIComponent[];
   shortcuts?: PluginShortcut[];
   contextMenuItems?: PluginContextMenuItem[];
 
   // Lifecycle methods
-  onInit?: (api: PluginAPIContext) => void | Promise<void>;
+  onInit?: (api: PluginAPI) => void | Promise<void>;
   onDestroy?: () => void | Promise<void>;
 
   // Hook handlers
@@ -324,6 +355,61 @@ export const PERMISSION_INFO: Record<PluginPermission, { label: string; descript
   'keyboard-shortcuts': { label: 'Keyboard Shortcuts', description: 'Register keyboard shortcuts', risk: 'low' }
 };
 
+/**
+ * Permission required for each API method (null = always available)
+ */
+export const API_METHOD_PERMISSIONS: Record<string, PluginPermission | null> = {
+  'canvas.getElements': 'read-canvas',
+  'canvas.getSelectedElements': 'read-canvas',
+  'canvas.getViewport': 'read-canvas',
+  'canvas.selectElements': 'write-canvas',
+  'canvas.createElement': 'write-canvas',
+  'canvas.updateElement': 'write-canvas',
+  'canvas.deleteElement': 'write-canvas',
+  'canvas.setViewport': 'write-canvas',
+  'assets.getAssets': 'read-assets',
+  'assets.uploadAsset': 'write-assets',
+  'assets.deleteAsset': 'write-assets',
+  'ui.showNotification': 'notifications',
+  'ui.showModal': 'ui-panel',
+  'ui.hideModal': 'ui-panel',
+  'ui.registerPanel': 'ui-panel',
+  'ui.unregisterPanel': 'ui-panel',
+  'ui.registerContextMenu': 'context-menu',
+  'storage.get': 'storage',
+  'storage.set': 'storage',
+  'storage.remove': 'storage',
+  'storage.clear': 'storage',
+  'network.fetch': 'network',
+  'clipboard.copy': 'clipboard',
+  'clipboard.paste': 'clipboard',
+  'settings.get': 'settings',
+  'settings.set': 'settings',
+  'settings.getSchema': 'settings',
+  // Events are namespaced to the plugin; app events reach plugins only as hooks
+  'events.on': null,
+  'events.off': null,
+  'events.emit': null
+};
+
+/**
+ * Permission required to receive each hook (null = always delivered)
+ */
+export const HOOK_PERMISSIONS: Record<PluginHook, PluginPermission | null> = {
+  onInit: null,
+  onDestroy: null,
+  onCanvasLoad: 'read-canvas',
+  onElementSelect: 'read-canvas',
+  onElementCreate: 'read-canvas',
+  onElementUpdate: 'read-canvas',
+  onElementDelete: 'read-canvas',
+  onExport: 'export',
+  onSave: 'export',
+  onUndo: null,
+  onRedo: null,
+  onThemeChange: null
+};
+
 export const STATUS_INFO: Record<PluginStatus, { label: string; icon: string; color: string }> = {
   installed: { label: 'Installed', icon: 'fa-download', color: '#6b7280' },
   active: { label: 'Active', icon: 'fa-check-circle', color: '#22c55e' },
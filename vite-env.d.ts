@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+
+  // AI providers (see services/aiProvider.ts)
+  readonly VITE_AI_PROVIDER?: 'gemini' | 'openai' | 'workers-ai' | 'local';
+  readonly VITE_OPENAI_BASE_URL?: string;
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_OPENAI_TEXT_MODEL?: string;
+  readonly VITE_OPENAI_IMAGE_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}